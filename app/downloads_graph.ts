@@ -2,7 +2,7 @@ import { checkMatches } from '../worker/check.ts';
 import { EpisodeInfo } from '../worker/routes/api_shows_model.ts';
 import { increment } from '../worker/summaries.ts';
 import { addDays } from '../worker/timestamp.ts';
-import { replacePlaceholders, pluralize } from './deps.ts';
+import { formatMessage, replacePlaceholders } from './deps.ts';
 import { Chart, TooltipItem } from './deps.ts';
 import { element, SlIconButton, SlMenuItem } from './elements.ts';
 import { getDayAndHourFormat, getDayFormat, getShorterDayFormat, getTimeOnlyFormat, computeMonthName } from './util.ts';
@@ -217,11 +217,11 @@ function drawDownloadsChart(canvas: HTMLCanvasElement, hourlyDownloads: Record<s
                     callbacks: {
                         title: (items: TooltipItem<never>[]) => dateFormat.format(new Date(items[0].label)),
                         // deno-lint-ignore no-explicit-any
-                        label: (item: any) => pluralize(item.parsed.y, strings, 'one_download', 'multiple_downloads'),
+                        label: (item: any) => formatMessage(strings.n_downloads, { count: item.parsed.y }, lang),
                         // deno-lint-ignore no-explicit-any
                         footer: (items: any[]) => {
                             const records = episodeMarkerIndex?.get(items[0].parsed.x) ?? [];
-                            return records.length === 0 ? undefined : records.map(v => `${replacePlaceholders(strings.published_episode, v.title ?? '')}${debug ? ` f:${v.firstHour} p:${v.pubdate}` : ''}`).join('\n');
+                            return records.length === 0 ? undefined : records.map(v => `${replacePlaceholders(strings.published_episode, [ [ 'title', v.title ?? '' ] ], lang)}${debug ? ` f:${v.firstHour} p:${v.pubdate}` : ''}`).join('\n');
                         }
                     }
                 }
@@ -131,7 +131,7 @@ export const makeEpisodePacing = ({ episodeHourlyDownloads, episodes, showTitle,
     function update() {
         episodePacingPrevious.disabled = pageIndex === 0;
         episodePacingNext.disabled = !final_ || pageIndex === maxPageIndex;
-        episodePacingNavCaption.textContent = replacePlaceholders(strings.page_x_of_n, [ [ 'page', pageIndex + 1 ], [ 'pages', pages ] ]);
+        episodePacingNavCaption.textContent = replacePlaceholders(strings.page_x_of_n, [ [ 'page', pageIndex + 1 ], [ 'pages', pages ] ], lang);
     }
 
     update();
@@ -202,8 +202,8 @@ function drawPacingChart(canvas: HTMLCanvasElement, episodeRelativeSummaries: Re
 
     const parseHourLabel = (label: string) => {
         const hour = parseInt(label.substring(1));
-        if (hour % 24 === 0) return replacePlaceholders(strings.day_n, Math.floor(hour / 24));
-        return replacePlaceholders(strings.hour_n, Math.floor(hour));
+        if (hour % 24 === 0) return replacePlaceholders(strings.day_n, [ [ 'day', Math.floor(hour / 24) ] ], lang);
+        return replacePlaceholders(strings.hour_n, [ [ 'hour', Math.floor(hour) ] ], lang);
     }
 
     const ctx = canvas.getContext('2d')!;
@@ -262,7 +262,7 @@ function drawPacingChart(canvas: HTMLCanvasElement, episodeRelativeSummaries: Re
                         autoSkip: false,
                         callback: function(this, value) {
                             const hour = (value as number) + 1;
-                            const label = hour % 24 === 0 ? ZWSP + replacePlaceholders(strings.day_n, Math.floor(hour / 24)) : '';
+                            const label = hour % 24 === 0 ? ZWSP + replacePlaceholders(strings.day_n, [ [ 'day', Math.floor(hour / 24) ] ], lang) : '';
                             if (label !== '' && this.width < 700 && hour !== 24 && (hour / 24) % 5 !== 0) return '';
                             return label;
                         }
@@ -1,6 +1,6 @@
 import { addMonthsToMonthString } from '../worker/timestamp.ts';
 import { element, SlButton, SlDropdown, SlSwitch } from './elements.ts';
-import { download } from './util.ts';
+import { download, getPercentFormat } from './util.ts';
 
 type Opts = { readonly showUuid: string, readonly showSlug: string, readonly previewToken: string, readonly strings: Record<string, string>, readonly lang: string | undefined };
 
@@ -60,7 +60,7 @@ export const makeExportDownloads = ({ showUuid, showSlug, previewToken, strings,
             exportSpinner.classList.remove('hidden');
             exportIcon.classList.add('hidden');
             exportCancelButton.classList.remove('invisible');
-            exportTitleDiv.textContent = `Exporting${typeof progress === 'number' && progress > 0 ? ` (${(progress * 100).toFixed(0)}%)` : ''}...`;
+            exportTitleDiv.textContent = `Exporting${typeof progress === 'number' && progress > 0 ? ` (${getPercentFormat(lang).format(progress)})` : ''}...`;
         } else {
             exportSpinner.classList.add('hidden');
             exportIcon.classList.remove('hidden');
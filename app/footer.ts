@@ -1,6 +1,6 @@
 import { addDaysToDateString } from '../worker/timestamp.ts';
 import { element, SlRelativeTime, SlSelectEvent } from './elements.ts';
-import { pluralize, replacePlaceholders } from './deps.ts';
+import { formatMessage, replacePlaceholders } from './deps.ts';
 
 type Opts = { mostRecentDate: string | undefined, strings: Record<string, string>, lang: string | undefined };
 
@@ -29,11 +29,11 @@ export const makeFooter = ({ mostRecentDate = new Date().toISOString().substring
     try {
         const currentTimezone = Intl.DateTimeFormat(locale).resolvedOptions().timeZone;
         const offsetMinutes = new Date().getTimezoneOffset();
-        const offsetHours = pluralize(Math.abs(offsetMinutes) / 60, strings, 'one_hour', 'multiple_hours');
+        const offsetHours = formatMessage(strings.n_hours, { count: Math.abs(offsetMinutes) / 60 }, lang);
 
-        timezoneDiv.textContent = offsetMinutes === 0 ? replacePlaceholders(strings.tz_is_equal_to_utc, [ [ 'currentTimezone', currentTimezone ], [ 'utc', strings.utc ]])
-            : offsetMinutes > 0 ? replacePlaceholders(strings.tz_is_behind_utc, [ [ 'currentTimezone', currentTimezone ], [ 'offsetHours', offsetHours ], [ 'utc', strings.utc ]])
-            : replacePlaceholders(strings.tz_is_ahead_of_utc, [ [ 'currentTimezone', currentTimezone ], [ 'offsetHours', offsetHours ], [ 'utc', strings.utc ]]);
+        timezoneDiv.textContent = offsetMinutes === 0 ? replacePlaceholders(strings.tz_is_equal_to_utc, [ [ 'currentTimezone', currentTimezone ], [ 'utc', strings.utc ]], lang)
+            : offsetMinutes > 0 ? replacePlaceholders(strings.tz_is_behind_utc, [ [ 'currentTimezone', currentTimezone ], [ 'offsetHours', offsetHours ], [ 'utc', strings.utc ]], lang)
+            : replacePlaceholders(strings.tz_is_ahead_of_utc, [ [ 'currentTimezone', currentTimezone ], [ 'offsetHours', offsetHours ], [ 'utc', strings.utc ]], lang);
     } catch (e) {
         console.warn(`Error displaying current time zone: ${e.stack || e}`);
         timezoneDiv.style.visibility = 'hidden';
@@ -207,7 +207,7 @@ function initMonthlyBox(monthlyCounts: Record<string, number>, countDiv: HTMLEle
         const month = hoverMonth ?? initialMonth;
         const value = monthlyCounts[month];
         countDiv.textContent = getNumberFormat(lang).format(value);
-        periodDiv.textContent = `${replacePlaceholders(strings.in_month, [ [ 'month', computeMonthName(month, lang) ] ])}${month === thisMonth ? ` (${strings.so_far})` : ''}`;
+        periodDiv.textContent = `${replacePlaceholders(strings.in_month, [ [ 'month', computeMonthName(month, lang) ] ], lang)}${month === thisMonth ? ` (${strings.so_far})` : ''}`;
     }
     if (initialMonth !== '') onHoverMonth(initialMonth);
     drawMinigraph(minigraph, monthlyCounts, { onHover: v => {
@@ -3,10 +3,11 @@ import { increment, incrementAll } from '../worker/summaries.ts';
 import { Chart, TooltipItem, sortBy } from './deps.ts';
 import { EpisodeInfo } from '../worker/routes/api_shows_model.ts';
 import { replacePlaceholders } from '../worker/routes/strings.ts';
+import { getPercentFormat } from './util.ts';
 
-type Opts = { episodeListens: Record<string, { minuteMaps: string[], appCounts: Record<string, number> }> | undefined, episodes: readonly EpisodeInfo[], knownAppLinks: Record<string, string> | undefined, debug: boolean, strings: Record<string, string> };
+type Opts = { episodeListens: Record<string, { minuteMaps: string[], appCounts: Record<string, number> }> | undefined, episodes: readonly EpisodeInfo[], knownAppLinks: Record<string, string> | undefined, debug: boolean, strings: Record<string, string>, lang: string | undefined };
 
-export const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, strings }: Opts) => {
+export const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, strings, lang }: Opts) => {
 
     const [ 
         listensSection,
@@ -81,7 +82,7 @@ export const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, stri
         for (const minuteMap of minuteMaps) {
             [...minuteMap].forEach((v, i) => increment(minutes, (i + 1).toString(), v === '1' ? 1 : 0));
         }
-        chart = drawGraph(listensGraph, minutes, minuteMaps.length, strings);
+        chart = drawGraph(listensGraph, minutes, minuteMaps.length, strings, lang);
         const epName = episodes.find(v => v.itemGuid === episodeGuid)?.title ?? episodeGuid;
         listensEpisode.textContent = `‘${epName}’`;
         listensGraphFooterPrevious.disabled = index === episodeListensEntries.length - 1;
@@ -103,7 +104,7 @@ export const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, stri
 
 //
 
-function drawGraph(canvas: HTMLCanvasElement, labelsAndValues: Record<string, number>, sessions: number, strings: Record<string, string>) {
+function drawGraph(canvas: HTMLCanvasElement, labelsAndValues: Record<string, number>, sessions: number, strings: Record<string, string>, lang: string | undefined) {
     const ctx = canvas.getContext('2d')!;
 
     const values = Object.values(labelsAndValues);
@@ -148,9 +149,9 @@ function drawGraph(canvas: HTMLCanvasElement, labelsAndValues: Record<string, nu
                     displayColors: false,
                     footerColor: 'rgba(154, 52, 18, 1)',
                     callbacks: {
-                        title: (items: TooltipItem<never>[]) => replacePlaceholders(strings.minute_n, items[0].label),
+                        title: (items: TooltipItem<never>[]) => replacePlaceholders(strings.minute_n, [ [ 'minute', items[0].label ] ], lang),
                         // deno-lint-ignore no-explicit-any
-                        label: (item: any) => `${replacePlaceholders(strings.x_of_n_anonymized_sessions, [ [ 'x', item.parsed.y ],  [ 'sessions', sessions ] ])} (${Math.round(item.parsed.y / sessions * 100)}%)`,
+                        label: (item: any) => `${replacePlaceholders(strings.x_of_n_anonymized_sessions, [ [ 'x', item.parsed.y ],  [ 'sessions', sessions ] ], lang)} (${getPercentFormat(lang).format(item.parsed.y / sessions)})`,
                     }
                 },
             },
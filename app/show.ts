@@ -130,7 +130,7 @@ export async function initShow() {
         const shot = new URLSearchParams(document.location.search).has('shot');
         const { updateEpisodeHourlyDownloads } = makeEpisodePacing({ episodeHourlyDownloads, episodes, showTitle, showSlug, mostRecentDate, shot, strings, lang });
 
-        makeListens({ episodeListens, episodes, knownAppLinks, debug, strings });
+        makeListens({ episodeListens, episodes, knownAppLinks, debug, strings, lang });
         
         const downloadsPerMonth = Object.fromEntries(Object.entries(monthlyDimensionDownloads).map(([ month, v ]) => ([ month, Object.values(v['countryCode'] ?? {}).reduce((a, b) => a + b, 0) ])));
 
@@ -1,6 +1,6 @@
-import { sortBy, pluralize } from './deps.ts';
+import { formatMessage, sortBy } from './deps.ts';
 import { element, removeAllChildren, SlIconButton } from './elements.ts';
-import { computeMonthName, download, tryComputeRegionNameInEnglish } from './util.ts';
+import { computeMonthName, download, getPercentFormat, tryComputeRegionNameInEnglish } from './util.ts';
 
 type Opts = {
     type: string,
@@ -104,8 +104,8 @@ export const makeTopBox = ({ type, showSlug, exportId, previousId, monthId, next
             }
 
             const dd = item.querySelector('dd')!;
-            dd.textContent = (downloads / totalDownloads * 100).toFixed(2).toString() + '%';
-            dd.title = pluralize(downloads, strings, 'one_download', 'multiple_downloads');
+            dd.textContent = getPercentFormat(lang, 2).format(downloads / totalDownloads);
+            dd.title = formatMessage(strings.n_downloads, { count: downloads }, lang);
 
             list.appendChild(item);
         }
@@ -44,6 +44,12 @@ export function getNumberFormat(lang: string | undefined): Intl.NumberFormat {
     return getOrCacheByLocale(numberFormatsByLocale, lang, locale => new Intl.NumberFormat(locale));
 }
 
+const percentFormatsByLocale = new Map<string, Intl.NumberFormat>();
+export function getPercentFormat(lang: string | undefined, maximumFractionDigits = 0): Intl.NumberFormat {
+    const locale = lang ?? 'en-US';
+    return getOrCache(percentFormatsByLocale, `${locale}:${maximumFractionDigits}`, () => new Intl.NumberFormat(locale, { style: 'percent', minimumFractionDigits: maximumFractionDigits, maximumFractionDigits }));
+}
+
 const dayFormatsByLocale = new Map<string, Intl.DateTimeFormat>();
 export function getDayFormat(lang: string | undefined): Intl.DateTimeFormat {
     return getOrCacheByLocale(dayFormatsByLocale, lang, locale => new Intl.DateTimeFormat(locale, { weekday: 'short', month: 'long', day: 'numeric', timeZone: 'UTC' }));
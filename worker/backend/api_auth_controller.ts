@@ -1,27 +1,32 @@
 import { encodeBase58 } from '../base58.ts';
-import { isStringRecord } from '../check.ts';
-import { DurableObjectStorageMethods, DurableObjectStorage, setEqual } from '../deps.ts';
-import { ModifyApiKeyRequest, ApiKeyInfo, ApiKeyResponse, GenerateNewApiKeyRequest, GetApiKeyRequest, ResolveApiTokenRequest, ResolveApiTokenResponse, Unkinded, isApiKeyInfo, ApiTokenRecord, isApiTokenRecord, AdminDataRequest, AdminDataResponse } from '../rpc_model.ts';
-import { addHours } from '../timestamp.ts';
+import { isStringRecord, tryParseInt } from '../check.ts';
+import { Bytes, chunk, DurableObjectStorageMethods, DurableObjectStorage, setEqual } from '../deps.ts';
+import { ModifyApiKeyRequest, ApiKeyInfo, ApiKeyResponse, GenerateNewApiKeyRequest, GetApiKeyRequest, ResolveApiTokenRequest, ResolveApiTokenResponse, Unkinded, isApiKeyInfo, ApiTokenRecord, isApiTokenRecord, AdminDataRequest, AdminDataResponse, ApiKeyAuditRecord, isApiKeyAuditRecord, MAX_ROTATION_GRACE_HOURS } from '../rpc_model.ts';
+import { addDays, addHours, computeTimestamp } from '../timestamp.ts';
 import { consoleInfo, consoleWarn } from '../tracer.ts';
 import { generateUuid, isValidUuid } from '../uuid.ts';
 
 export class ApiAuthController {
 
     private readonly storage: DurableObjectStorage;
+    private readonly recentAuditKeys = new Set<string>(); // audit records known to exist, saves a read per resolution
 
     constructor(storage: DurableObjectStorage) {
         this.storage = storage;
     }
 
     async resolveApiToken(request: Unkinded<ResolveApiTokenRequest>): Promise<ResolveApiTokenResponse> {
-        const { token } = request;
-        console.log(`ApiAuthController.resolveApiToken: ${JSON.stringify({ token })}`);
-        return await this.storage.transaction(async tx => {
+        const { token, path, colo } = request;
+        console.log(`ApiAuthController.resolveApiToken: ${JSON.stringify({ token, path, colo })}`);
+        const auditSuffix = typeof path === 'string' ? await computeApiKeyAuditKeySuffix({ path, colo }) : undefined;
+        const { recentAuditKeys } = this;
+        let savedAuditKey: string | undefined;
+        const rt = await this.storage.transaction(async tx => {
+            savedAuditKey = undefined;
             const rec = await findApiTokenRecord(token, tx);
             if (!rec) return { 'kind': 'resolve-api-token', reason: 'invalid' };
 
-            const { permissions, shows, expires, blockReason, lastUsed } = rec;
+            const { apiKey, permissions, shows, expires, blockReason, lastUsed } = rec;
             const now = new Date().toISOString();
             if (expires && now > expires) {
                 console.log('Expired, delete token');
@@ -36,14 +41,35 @@ export class ApiAuthController {
             if (today !== lastUsed) {
                 const newRec: ApiTokenRecord = { ...rec, lastUsed: today };
                 await saveApiTokenRecord(newRec, tx);
+                await pruneApiKeyAuditRecords(apiKey, now, tx);
+            }
+            if (expires && addHours(now, MAX_ROTATION_GRACE_HOURS).toISOString() >= expires) {
+                await rotateApiTokenIfDue(rec, now, tx);
+            }
+            if (typeof path === 'string' && auditSuffix) {
+                // aggregated: one record per hour for each distinct path and colo, with the first time seen
+                const auditKey = computeApiKeyAuditKey({ apiKey, time: now, suffix: auditSuffix });
+                if (!recentAuditKeys.has(auditKey)) {
+                    if (await tx.get(auditKey) === undefined) {
+                        const auditRecord: ApiKeyAuditRecord = { time: now, path, colo };
+                        await saveApiKeyAuditRecord({ apiKey, auditKey, auditRecord }, tx);
+                    }
+                    savedAuditKey = auditKey;
+                }
             }
-            return { 'kind': 'resolve-api-token', permissions, shows };
+            return { 'kind': 'resolve-api-token', permissions, shows, apiKey };
         });
+        if (savedAuditKey) {
+            // only once committed, a rolled back transaction must not leave the key looking saved
+            if (recentAuditKeys.size >= MAX_RECENT_AUDIT_KEYS) recentAuditKeys.clear();
+            recentAuditKeys.add(savedAuditKey);
+        }
+        return rt;
     }
 
     async modifyApiKey(request: Unkinded<ModifyApiKeyRequest>): Promise<ApiKeyResponse> {
-        const { apiKey, permissions, shows, name, action } = request;
-        console.log(`ApiAuthController.modifyApiKey: ${JSON.stringify({ apiKey, permissions, shows, name, action })}`);
+        const { apiKey, permissions, shows, name, action, expires, tokenExpiryDays, rotationGraceHours } = request;
+        console.log(`ApiAuthController.modifyApiKey: ${JSON.stringify({ apiKey, permissions, shows, name, action, expires, tokenExpiryDays, rotationGraceHours })}`);
 
         if (!isValidUuid(apiKey)) throw new Error(`Bad apiKey: ${apiKey}`);
 
@@ -85,24 +111,45 @@ export class ApiAuthController {
                     keyRecord = { ...keyRecord, name, updated: now };
                     await saveApiKeyRecord(keyRecord, tx);
                 }
+            } else if (expires !== undefined || tokenExpiryDays !== undefined || rotationGraceHours !== undefined) {
+                // expiry or rotation grace change
+                if (status === 'blocked') throw new Error(`Cannot modify while blocked`);
+                if (expires && expires <= now) throw new Error(`Bad expires: ${expires}, must be in the future`);
+                if (tokenExpiryDays !== undefined || rotationGraceHours !== undefined) {
+                    keyRecord = { ...keyRecord, tokenExpiryDays: tokenExpiryDays === undefined ? keyRecord.tokenExpiryDays : tokenExpiryDays || undefined, rotationGraceHours: rotationGraceHours ?? keyRecord.rotationGraceHours, updated: now };
+                    // otherwise every new token would be rotated on first use
+                    if (keyRecord.tokenExpiryDays && computeGraceHours(keyRecord) >= keyRecord.tokenExpiryDays * 24) throw new Error(`Bad rotationGraceHours: ${computeGraceHours(keyRecord)}, must be less than the token expiry`);
+                    await saveApiKeyRecord(keyRecord, tx);
+                }
+                if (tokenRecord && (expires !== undefined || tokenExpiryDays !== undefined)) {
+                    // an explicit expiry wins, otherwise the current token expires on the new expiry schedule (but never immediately)
+                    const tokenExpires = expires !== undefined ? expires || undefined
+                        : tokenExpiryDays ? maxInstant(addDays(tokenRecord.created, tokenExpiryDays).toISOString(), addHours(now, computeGraceHours(keyRecord)).toISOString())
+                        : undefined;
+                    tokenRecord = { ...tokenRecord, expires: tokenExpires, updated: now };
+                    await saveApiTokenRecord(tokenRecord, tx);
+                }
             } else if (action !== undefined) {
                 // action
                 if (action === 'regenerate-token') {
                     if (status === 'blocked') throw new Error(`Cannot modify while blocked`);
                     const newToken = generateToken();
-                    keyRecord = { ...keyRecord, token: newToken, status: 'active', updated: now };
+                    keyRecord = { ...keyRecord, token: newToken, status: 'active', rotationEnds: undefined, updated: now };
                     await saveApiKeyRecord(keyRecord, tx);
                     if (tokenRecord) {
-                        const expires = addHours(now, 2).toISOString();
+                        // old and new tokens are both valid during the grace period
+                        const graceExpires = addHours(now, computeGraceHours(keyRecord)).toISOString();
+                        const expires = tokenRecord.expires && tokenRecord.expires < graceExpires ? tokenRecord.expires : graceExpires;
                         const oldTokenRecord = { ...tokenRecord, updated: now, expires };
                         await saveApiTokenRecord(oldTokenRecord, tx);
                     }
-                    tokenRecord = { token: newToken, apiKey, created: now, updated: now, permissions: keyRecord.permissions, shows: keyRecord.shows };
+                    const expires = keyRecord.tokenExpiryDays ? addDays(now, keyRecord.tokenExpiryDays).toISOString() : undefined;
+                    tokenRecord = { token: newToken, apiKey, created: now, updated: now, permissions: keyRecord.permissions, shows: keyRecord.shows, expires };
                     await saveApiTokenRecord(tokenRecord, tx);
                     includeTokenInResponse = true;
                 } else if (action === 'delete-token') {
                     if (status === 'blocked') throw new Error(`Cannot modify while blocked`);
-                    keyRecord = { ...keyRecord, token: undefined, status: 'inactive', updated: now };
+                    keyRecord = { ...keyRecord, token: undefined, status: 'inactive', rotationEnds: undefined, updated: now };
                     await saveApiKeyRecord(keyRecord, tx);
                     if (tokenRecord) {
                         await deleteApiTokenRecord(tokenRecord.token, tx);
@@ -131,7 +178,8 @@ export class ApiAuthController {
                 }
             }
             const tokenLastUsed = tokenRecord?.lastUsed;
-            const info: ApiKeyInfo = { ...keyRecord, token: includeTokenInResponse ? keyRecord.token : undefined, tokenLastUsed };
+            const tokenExpires = tokenRecord?.expires;
+            const info: ApiKeyInfo = { ...keyRecord, token: includeTokenInResponse ? keyRecord.token : undefined, tokenLastUsed, tokenExpires };
             return { kind: 'api-key', info };
         });
     }
@@ -176,13 +224,15 @@ export class ApiAuthController {
         if (record === undefined) throw new Error(`Unable to find apiKey: ${apiKey}`);
         const tokenRecord = record.token ? await findApiTokenRecord(record.token, this.storage) : undefined;
         const tokenLastUsed = tokenRecord?.lastUsed;
-        const info: ApiKeyInfo = { ...record, token: undefined, tokenLastUsed }; // don't return token
+        const tokenExpires = tokenRecord?.expires;
+        const rotating = record.rotationEnds !== undefined && new Date().toISOString() < record.rotationEnds;
+        const info: ApiKeyInfo = { ...record, token: rotating ? record.token : undefined, tokenLastUsed, tokenExpires }; // don't return token, unless automatically rotated and the previous one is still valid
 
         return { kind: 'api-key', info };
     }
 
     async adminExecuteDataQuery(req: Unkinded<AdminDataRequest>): Promise<Unkinded<AdminDataResponse>> {
-        const { operationKind, targetPath } = req;
+        const { operationKind, targetPath, parameters = {} } = req;
         if (operationKind === 'select' && targetPath === '/api-keys') {
             const results: ApiKeyInfo[] = [];
             const map = await this.storage.list({ prefix: 'ak.1.'});
@@ -193,6 +243,18 @@ export class ApiAuthController {
             }
             return { results };
         }
+        {
+            const m = /^\/api-keys\/audit\/([^\/]+)$/.exec(targetPath);
+            if (m && operationKind === 'select') {
+                const [ _, apiKey ] = m;
+                if (!isValidUuid(apiKey)) throw new Error(`Bad apiKey: ${apiKey}`);
+                const limit = tryParseInt(parameters.limit) ?? 100;
+                if (limit < 1 || limit > 1000) throw new Error(`Bad limit: ${limit}`);
+                const map = await this.storage.list({ prefix: computeApiKeyAuditKeyPrefix(apiKey), reverse: true, limit });
+                const results = [...map.values()].filter(isApiKeyAuditRecord);
+                return { results };
+            }
+        }
         const m = /^\/api-keys\/info\/([^\/]+)$/.exec(targetPath); 
         if (m && operationKind === 'select') {
             const suffix = m[1];
@@ -218,6 +280,12 @@ export class ApiAuthController {
 
 //
 
+const DEFAULT_ROTATION_GRACE_HOURS = 2;
+const AUDIT_RETENTION_DAYS = 120; // at least one full quarter
+const MAX_AUDIT_RECORDS_PER_KEY = 5000;
+const AUDIT_PRUNE_BATCH = 100; // oldest records deleted at a time once over the cap
+const MAX_RECENT_AUDIT_KEYS = 10000;
+
 async function findApiKeyRecord(apiKey: string, storage: DurableObjectStorageMethods): Promise<ApiKeyInfo | undefined> {
     const rt = await storage.get(`ak.1.${apiKey}`);
     if (rt === undefined) return rt;
@@ -250,6 +318,80 @@ async function deleteApiTokenRecord(token: string, storage: DurableObjectStorage
     await storage.delete(`at.1.${token}`);
 }
 
+function computeApiKeyAuditKeyPrefix(apiKey: string): string {
+    return `aal.1.${apiKey}.`;
+}
+
+function computeApiKeyAuditKey({ apiKey, time, suffix }: { apiKey: string, time: string, suffix: string }): string {
+    // hour, then a hash of the path and colo
+    return `${computeApiKeyAuditKeyPrefix(apiKey)}${computeTimestamp(`${time.substring(0, 13)}:00:00.000Z`)}.${suffix}`;
+}
+
+async function computeApiKeyAuditKeySuffix({ path, colo }: { path: string, colo: string | undefined }): Promise<string> {
+    return (await Bytes.ofUtf8(`${path}|${colo ?? ''}`).sha1()).hex().substring(0, 12);
+}
+
+function computeApiKeyAuditCountKey(apiKey: string): string {
+    return `aalc.1.${apiKey}`;
+}
+
+async function saveApiKeyAuditRecord({ apiKey, auditKey, auditRecord }: { apiKey: string, auditKey: string, auditRecord: ApiKeyAuditRecord }, storage: DurableObjectStorageMethods) {
+    await storage.put(auditKey, auditRecord);
+
+    // keep a running count, so the cap holds as records are written (not just once a day)
+    const prefix = computeApiKeyAuditKeyPrefix(apiKey);
+    const countKey = computeApiKeyAuditCountKey(apiKey);
+    const existing = await storage.get(countKey);
+    let count = typeof existing === 'number' ? existing + 1 : (await storage.list({ prefix, limit: MAX_AUDIT_RECORDS_PER_KEY + 1 })).size; // first count for keys audited before counting
+    if (count > MAX_AUDIT_RECORDS_PER_KEY) {
+        const oldest = await storage.list({ prefix, limit: AUDIT_PRUNE_BATCH });
+        await storage.delete([...oldest.keys()]);
+        count -= oldest.size;
+    }
+    await storage.put(countKey, count);
+}
+
+async function pruneApiKeyAuditRecords(apiKey: string, now: string, storage: DurableObjectStorageMethods) {
+    // anything past retention, the cap is enforced on write
+    const prefix = computeApiKeyAuditKeyPrefix(apiKey);
+    const end = `${prefix}${computeTimestamp(addDays(now, -AUDIT_RETENTION_DAYS))}`;
+    let deleted = 0;
+    while (true) {
+        const map = await storage.list({ prefix, end, limit: 1000 });
+        for (const batch of chunk([...map.keys()], 128)) {
+            await storage.delete(batch);
+        }
+        deleted += map.size;
+        if (map.size < 1000) break;
+    }
+    if (deleted === 0) return;
+    const countKey = computeApiKeyAuditCountKey(apiKey);
+    const count = await storage.get(countKey);
+    if (typeof count === 'number') await storage.put(countKey, Math.max(0, count - deleted));
+}
+
+async function rotateApiTokenIfDue(tokenRecord: ApiTokenRecord, now: string, storage: DurableObjectStorageMethods) {
+    // automatic rotation: the first use of the key's current token within the grace period before it expires issues the next token
+    // the current token stays valid until it expires, the new one is returned by key lookups until then
+    const { apiKey, token, expires } = tokenRecord;
+    const keyRecord = await findApiKeyRecord(apiKey, storage);
+    if (!keyRecord || keyRecord.status !== 'active' || keyRecord.token !== token || !keyRecord.tokenExpiryDays || !expires) return;
+    if (now < addHours(expires, -computeGraceHours(keyRecord)).toISOString()) return;
+
+    const newToken = generateToken();
+    await saveApiKeyRecord({ ...keyRecord, token: newToken, rotationEnds: expires, updated: now }, storage);
+    await saveApiTokenRecord({ token: newToken, apiKey, created: now, updated: now, permissions: keyRecord.permissions, shows: keyRecord.shows, expires: addDays(now, keyRecord.tokenExpiryDays).toISOString() }, storage);
+    consoleInfo('aac-rotate', `Rotated token for apiKey: ${apiKey}, previous token expires ${expires}`);
+}
+
+function computeGraceHours(record: ApiKeyInfo): number {
+    return record.rotationGraceHours ?? DEFAULT_ROTATION_GRACE_HOURS;
+}
+
+function maxInstant(lhs: string, rhs: string): string {
+    return lhs > rhs ? lhs : rhs;
+}
+
 function same<T>(lhs: readonly T[], rhs: readonly T[]): boolean {
     return setEqual(new Set(lhs), new Set(rhs));
 }
@@ -0,0 +1,71 @@
+import { assert, assertEquals, assertRejects, InMemoryDurableObjectStorage } from '../tests/deps.ts';
+import { ApiAuthController } from './api_auth_controller.ts';
+
+Deno.test({
+    name: 'ApiAuthController expiry, regeneration and audit',
+    fn: async () => {
+        const controller = new ApiAuthController(new InMemoryDurableObjectStorage());
+        const { info: { apiKey, token: oldToken } } = await controller.generateNewApiKey({});
+        if (!oldToken) throw new Error(`Expected token`);
+
+        // expiry must be in the future
+        await assertRejects(() => controller.modifyApiKey({ apiKey, expires: '2020-01-01T00:00:00.000Z' }));
+
+        // expiry schedule applies to the current token, and to new tokens
+        const { info: { tokenExpiryDays, tokenExpires } } = await controller.modifyApiKey({ apiKey, tokenExpiryDays: 30, rotationGraceHours: 24 });
+        assertEquals(tokenExpiryDays, 30);
+        assert(tokenExpires && tokenExpires > new Date().toISOString());
+
+        const { info: { token: newToken, tokenExpires: newTokenExpires } } = await controller.modifyApiKey({ apiKey, action: 'regenerate-token' });
+        if (!newToken) throw new Error(`Expected token`);
+        assert(newToken !== oldToken);
+        assert(newTokenExpires);
+
+        // both tokens are valid during the grace period
+        assertEquals((await controller.resolveApiToken({ token: oldToken, path: '/hits', colo: 'SEA' })).apiKey, apiKey);
+        assertEquals((await controller.resolveApiToken({ token: newToken, path: '/shows/1fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d/stats' })).apiKey, apiKey);
+        assertEquals((await controller.resolveApiToken({ token: newToken, path: '/hits', colo: 'SEA' })).apiKey, apiKey); // same path and colo this hour, aggregated
+
+        // expiry can be removed
+        assertEquals((await controller.modifyApiKey({ apiKey, expires: '' })).info.tokenExpires, undefined);
+
+        // audit trail
+        const { results = [] } = await controller.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/api-keys/audit/${apiKey}` });
+        assertEquals(results.length, 2);
+        assertEquals(results.map(v => (v as Record<string, unknown>).path).sort(), [ '/hits', '/shows/1fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d/stats' ]);
+    }
+});
+
+Deno.test({
+    name: 'ApiAuthController automatic rotation',
+    fn: async () => {
+        const controller = new ApiAuthController(new InMemoryDurableObjectStorage());
+        const { info: { apiKey, token: oldToken } } = await controller.generateNewApiKey({});
+        if (!oldToken) throw new Error(`Expected token`);
+
+        // no rotation without an expiry schedule
+        await controller.resolveApiToken({ token: oldToken });
+        assertEquals((await controller.getApiKey({ apiKey })).info.token, undefined);
+
+        // the grace period must be shorter than the expiry
+        await assertRejects(() => controller.modifyApiKey({ apiKey, tokenExpiryDays: 1, rotationGraceHours: 24 }));
+
+        // an expiry within the grace period puts the current token inside its rotation window
+        await controller.modifyApiKey({ apiKey, tokenExpiryDays: 2, rotationGraceHours: 24 });
+        const { info: { tokenExpires: oldTokenExpires } } = await controller.modifyApiKey({ apiKey, expires: new Date(Date.now() + 1000 * 60 * 60).toISOString() });
+        assertEquals((await controller.resolveApiToken({ token: oldToken })).apiKey, apiKey);
+
+        // the new token is included in key lookups until the previous one expires, both are valid until then
+        const { info: { token: newToken, rotationEnds } } = await controller.getApiKey({ apiKey });
+        if (!newToken) throw new Error(`Expected rotated token`);
+        assert(newToken !== oldToken);
+        assertEquals(rotationEnds, oldTokenExpires);
+        assertEquals((await controller.resolveApiToken({ token: oldToken })).apiKey, apiKey);
+        assertEquals((await controller.resolveApiToken({ token: newToken })).apiKey, apiKey);
+        assertEquals((await controller.getApiKey({ apiKey })).info.token, newToken); // rotated once
+
+        // regenerating ends the rotation window
+        await controller.modifyApiKey({ apiKey, action: 'regenerate-token' });
+        assertEquals((await controller.getApiKey({ apiKey })).info.token, undefined);
+    }
+});
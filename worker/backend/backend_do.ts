@@ -18,12 +18,15 @@ import { initCloudflareTracer, setWorkerInfo } from '../cloudflare_tracer.ts';
 import { consoleError, consoleWarn, writeTraceEvent } from '../tracer.ts';
 import { ApiAuthController } from './api_auth_controller.ts';
 import { ShowController } from './show_controller.ts';
-import { newPodcastIndexClient, tryPostDebug } from '../outbound.ts';
+import { computeUserAgent, newPodcastIndexClient, tryPostDebug } from '../outbound.ts';
+import { Emailer } from '../emailer.ts';
 import { isValidOrigin } from '../check.ts';
 import { R2BucketBlobs } from './r2_bucket_blobs.ts';
+import { Blobs } from './blobs.ts';
 import { DoNames } from '../do_names.ts';
 import { recomputeShowSummariesForMonth, tryParseRecomputeShowSummariesForMonthRequest } from './show_summaries.ts';
 import { computeShowDailyDownloads, tryParseComputeShowDailyDownloadsRequest } from './downloads.ts';
+import { replayBotTypes, tryParseReplayBotTypesRequest } from './bot_replay.ts';
 import { computeQueryDownloadsResponse } from './query_downloads.ts';
 import { HitsController } from './hits_controller.ts';
 
@@ -65,7 +68,7 @@ export class BackendDO {
             writeTraceEvent({ kind: 'do-fetch', colo, durableObjectClass, durableObjectId, durableObjectName: durableObjectName ?? '<unnamed>', isolateId, method, pathname });
 
             if (!durableObjectName) throw new Error(`Missing do-name header!`);
-            const { backendNamespace, redirectLogNotificationDelaySeconds, deploySha, deployTime, origin, podcastIndexCredentials, blobsBucket, roBlobsBucket, queue2, instance, xfetcher } = this.env;
+            const { backendNamespace, redirectLogNotificationDelaySeconds, deploySha, deployTime, origin, podcastIndexCredentials, roBlobsBucket, queue2, instance, xfetcher, alertEmailerParams } = this.env;
             if (!backendNamespace) throw new Error(`Missing backendNamespace!`);
             const rpcClient = new CloudflareRpcClient(backendNamespace, 3);
             const doInfo = await this.ensureInitialized({ colo, name: durableObjectName, rpcClient });
@@ -124,18 +127,19 @@ export class BackendDO {
                             if (typeof podcastIndexCredentials !== 'string') throw new Error(`'podcastIndexCredentials' is required to init ShowController`);
                             const podcastIndexClient = newPodcastIndexClient({ podcastIndexCredentials, origin });
                             if (!podcastIndexClient) throw new Error(`Valid 'podcastIndexCredentials' are required to init ShowController`);
-                            if (blobsBucket === undefined) throw new Error(`'blobsBucket' is required to init ShowController`);
-                            const feedBlobs = new R2BucketBlobs({ bucket: blobsBucket, prefix: 'feed/' });
-                            const statsBlobs = new R2BucketBlobs({ bucket: blobsBucket, prefix: 'stats/' });
+                            const feedBlobs = newBlobs(this.env, 'feed/');
+                            const statsBlobs = newBlobs(this.env, 'stats/');
+                            if (feedBlobs === undefined || statsBlobs === undefined) throw new Error(`'blobsBucket' or 'blobsProvider' is required to init ShowController`);
                             const allowStorageImport = instance === 'ci'; // only allow show storage import on the CI instance, for testing
-                            this.showController = new ShowController({ storage, durableObjectName, podcastIndexClient, origin, feedBlobs, statsBlobs, rpcClient, allowStorageImport, xfetcher });
+                            const emailer = alertEmailerParams ? Emailer.ofParams(alertEmailerParams, { userAgent: computeUserAgent({ origin }) }) : undefined;
+                            this.showController = new ShowController({ storage, durableObjectName, podcastIndexClient, origin, feedBlobs, statsBlobs, rpcClient, allowStorageImport, xfetcher, emailer });
                         }
                         return this.showController;
                     }
 
                     const getOrLoadHitsController = () => {
-                        if (blobsBucket === undefined) throw new Error(`'blobsBucket' is required to init HitsController`);
-                        const hitsBlobs = new R2BucketBlobs({ bucket: blobsBucket, prefix: 'hits/' });
+                        const hitsBlobs = newBlobs(this.env, 'hits/');
+                        if (hitsBlobs === undefined) throw new Error(`'blobsBucket' or 'blobsProvider' is required to init HitsController`);
                         const { encryptIpAddress, hashIpAddress } = getOrLoadHashingFns();
                         if (!this.hitsController) this.hitsController = new HitsController(storage, hitsBlobs, colo, rpcClient, durableObjectName, encryptIpAddress, hashIpAddress);
                         return this.hitsController;
@@ -168,15 +172,16 @@ export class BackendDO {
                         } else if (operationKind === 'select' && targetPath === '/keys' && durableObjectName === DoNames.keyServer) {
                             return newRpcResponse({ kind: 'admin-data', results: await getOrLoadKeyController().listKeys() });
                         } else if (targetPath.startsWith('/crl/') && durableObjectName === DoNames.combinedRedirectLog) {
-                            const backupBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'backup/' }) : undefined;
+                            const backupBlobs = newBlobs(this.env, 'backup/');
                             const { results, message } = await getOrLoadCombinedRedirectLogController().adminExecuteDataQuery(obj, backupBlobs);
                             return newRpcResponse({ kind: 'admin-data', results, message });
                         } else if ((targetPath === '/api-keys' || targetPath.startsWith('/api-keys/')) && durableObjectName === DoNames.apiKeyServer) {
                             return newRpcResponse({ kind: 'admin-data', ...await getOrLoadApiAuthController().adminExecuteDataQuery(obj) });
                         } else if ((targetPath === '/feed-notifications' || targetPath.startsWith('/show/')) && durableObjectName === DoNames.showServer) {
-                            const backupBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'backup/' }) : undefined;
-                            const hitsBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'hits/' }) : undefined;
-                            return newRpcResponse({ kind: 'admin-data', ...await getOrLoadShowController().adminExecuteDataQuery(obj, backupBlobs, hitsBlobs) });
+                            const backupBlobs = newBlobs(this.env, 'backup/');
+                            const hitsBlobs = newBlobs(this.env, 'hits/');
+                            const miscBlobs = newBlobs(this.env, 'misc/');
+                            return newRpcResponse({ kind: 'admin-data', ...await getOrLoadShowController().adminExecuteDataQuery(obj, backupBlobs, hitsBlobs, miscBlobs) });
                         } else if (targetPath.startsWith('/hits/') && durableObjectName === DoNames.hitsServer) {
                             const { results, message } = await getOrLoadHitsController().adminExecuteDataQuery(obj);
                             return newRpcResponse({ kind: 'admin-data', results, message });
@@ -184,15 +189,24 @@ export class BackendDO {
 
                         const csddr = tryParseComputeShowDailyDownloadsRequest({ operationKind, targetPath, parameters });
                         if (csddr) {
-                            const statsBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'stats/' }) : undefined;
+                            const statsBlobs = newBlobs(this.env, 'stats/');
                             if (statsBlobs === undefined) throw new Error(`computeShowDailyDownloads: statsBlobs is required`);
                             const result = await computeShowDailyDownloads(csddr, statsBlobs);
                             return newRpcResponse({ kind: 'admin-data', results: [ result ] });
                         }
                         
+                        const rbtr = tryParseReplayBotTypesRequest({ operationKind, targetPath, parameters });
+                        if (rbtr) {
+                            const statsBlobs = newBlobs(this.env, 'stats/');
+                            if (statsBlobs === undefined) throw new Error(`replayBotTypes: statsBlobs is required`);
+                            const miscBlobs = newBlobs(this.env, 'misc/');
+                            const result = await replayBotTypes(rbtr, { statsBlobs, miscBlobs });
+                            return newRpcResponse({ kind: 'admin-data', results: [ result ] });
+                        }
+
                         const rssfmr = tryParseRecomputeShowSummariesForMonthRequest({ operationKind, targetPath, parameters });
                         if (rssfmr) {
-                            const statsBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'stats/' }) : undefined;
+                            const statsBlobs = newBlobs(this.env, 'stats/');
                             if (statsBlobs === undefined) throw new Error(`recomputeShowSummariesForMonth: statsBlobs is required`);
                             const result = await recomputeShowSummariesForMonth(rssfmr, statsBlobs);
                             return newRpcResponse({ kind: 'admin-data', results: [ result ] });
@@ -247,10 +261,12 @@ export class BackendDO {
                             await getOrLoadCombinedRedirectLogController().process();
                         } else if (alarmKind === ShowController.processAlarmKind && durableObjectName === DoNames.showServer) {
                             await getOrLoadShowController().work();
+                        } else if (alarmKind === HitsController.compactIndexesAlarmKind && durableObjectName === DoNames.hitsServer) {
+                            await getOrLoadHitsController().compactIndexes();
                         }
                         return newRpcResponse({ kind: 'ok' });
                     } else if (obj.kind === 'query-downloads') {
-                        const statsBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'stats/' }) : undefined;
+                        const statsBlobs = newBlobs(this.env, 'stats/');
                         const roStatsBlobs = roBlobsBucket ? new R2BucketBlobs({ bucket: roBlobsBucket, prefix: 'stats/', readonly: true }) : undefined;
                         return await computeQueryDownloadsResponse(obj, { statsBlobs, roStatsBlobs });
                     } else if (obj.kind === 'query-redirect-logs') {
@@ -402,6 +418,10 @@ function newRpcResponse(rpcResponse: RpcResponse): Response {
     return new Response(JSON.stringify(rpcResponse), { headers: { 'content-type': 'application/json' } });
 }
 
+function newBlobs({ blobsBucket, blobsProvider }: WorkerEnv, prefix: string): Blobs | undefined {
+    return blobsProvider ? blobsProvider(prefix) : blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix }) : undefined;
+}
+
 async function loadDOInfo(storage: DurableObjectStorage): Promise<DOInfo | undefined> {
     const obj = await storage.get('i.do');
     try {
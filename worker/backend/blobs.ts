@@ -15,6 +15,8 @@ export interface Blobs {
     head(key: string): Promise<{ etag: string } | undefined>;
 }
 
+export type BlobsProvider = (prefix: string) => Blobs;
+
 export type ListOpts = { keyPrefix?: string, afterKey?: string, limit?: number };
 export type GetOpts = { ifMatch?: string };
 
@@ -31,3 +33,26 @@ export interface Multiput {
     complete(): Promise<{ parts: number, etag: string }>;
     abort(): Promise<void>;
 }
+
+/** Lists every key under a prefix, paging with afterKey since a single list call returns at most 1000 keys on R2. */
+export async function listAllKeys(blobs: Blobs, { keyPrefix }: { keyPrefix: string }): Promise<string[]> {
+    const rt: string[] = [];
+    while (true) {
+        const { keys } = await blobs.list({ keyPrefix, afterKey: rt.at(-1) });
+        if (keys.length === 0) return rt;
+        rt.push(...keys);
+    }
+}
+
+/** R2 requires every part but the last to be at least 5 MiB (S3 also), and all the same size */
+export const MIN_MULTIPUT_PART_SIZE = 5 * 1024 * 1024;
+
+/** For local implementations: reject the same part sizes R2 would when completing a multiput. */
+export function checkMultiputPartSizes(partSizes: readonly number[]) {
+    if (partSizes.length === 0) throw new Error(`No parts!`);
+    const nonFinal = partSizes.slice(0, -1);
+    const tooSmall = nonFinal.findIndex(v => v < MIN_MULTIPUT_PART_SIZE);
+    if (tooSmall >= 0) throw new Error(`Part ${tooSmall + 1} is too small: ${partSizes[tooSmall]} bytes, non-final parts must be at least ${MIN_MULTIPUT_PART_SIZE} bytes`);
+    const unequal = nonFinal.findIndex(v => v !== partSizes[0]);
+    if (unequal >= 0) throw new Error(`Part ${unequal + 1} is ${partSizes[unequal]} bytes, non-final parts must all be the same size (${partSizes[0]} bytes)`);
+}
@@ -0,0 +1,163 @@
+import { check, isStringRecord, isValidDate, tryParseInt } from '../check.ts';
+import { yieldTsvFromStream } from '../streams.ts';
+import { increment } from '../summaries.ts';
+import { addMonthsToMonthString, computeTimestamp } from '../timestamp.ts';
+import { isValidUuid } from '../uuid.ts';
+import { Blobs, listAllKeys } from './blobs.ts';
+import { BotRuleSet, computeBotType, loadBotRuleSet } from './bots.ts';
+import { computeShowDailyKeyPrefix, unpackShowDailyKey } from './downloads.ts';
+
+export type ReplayBotTypesRequest = { showUuids: string[], startDate: string, endDate: string, botRulesVersion?: number };
+
+export function tryParseReplayBotTypesRequest({ operationKind, targetPath, parameters }: { operationKind: string, targetPath: string, parameters?: Record<string, string> }): ReplayBotTypesRequest | undefined {
+    if (targetPath === '/work/replay-bot-types' && operationKind === 'update' && parameters) {
+        const { shows = '', start: startDate, end: endDate, botRules } = parameters;
+        const showUuids = shows.split(',').filter(v => v !== '');
+        if (showUuids.length === 0) throw new Error(`Expected one or more comma-separated shows`);
+        showUuids.forEach(v => check('shows', v, isValidUuid));
+        check('start', startDate, isValidDate);
+        check('end', endDate, isValidDate);
+        if (endDate < startDate) throw new Error(`Bad end: ${endDate} is before ${startDate}`);
+        const botRulesVersion = tryParseInt(botRules);
+        if (botRules !== undefined && botRulesVersion === undefined) throw new Error(`Bad botRules: ${botRules}`);
+        return { showUuids, startDate, endDate, botRulesVersion };
+    }
+}
+
+export async function replayBotTypes({ showUuids, startDate, endDate, botRulesVersion }: ReplayBotTypesRequest, { statsBlobs, miscBlobs }: { statsBlobs: Blobs, miscBlobs: Blobs | undefined }) {
+    const start = Date.now();
+    const ruleSet = await loadBotRuleSet({ miscBlobs, version: botRulesVersion });
+    const reports: { showUuid: string, key: string, days: number, downloads: number, changed: number, pruned: number }[] = [];
+    for (const showUuid of showUuids) {
+        const report = await computeBotReplayReport({ showUuid, startDate, endDate, ruleSet, statsBlobs });
+        const key = computeBotReplayReportKey({ showUuid, timestamp: computeTimestamp(report.created) });
+        await statsBlobs.put(key, JSON.stringify(report));
+        const pruned = await pruneBotReplayReports({ showUuid, statsBlobs });
+        const { days, downloads, changes } = report;
+        reports.push({ showUuid, key, days, downloads, changed: Object.values(changes).reduce((a, b) => a + b, 0), pruned });
+    }
+    return { startDate, endDate, botRulesVersion: ruleSet.version, reports, millis: Date.now() - start };
+}
+
+/**
+ * Re-evaluates bot types for every download in the show-daily blobs for the given date range.
+ *
+ * "before" is the botType as written by the last phase 3 run, "after" is the botType using the given rule set.
+ */
+export async function computeBotReplayReport({ showUuid, startDate, endDate, ruleSet, statsBlobs }: { showUuid: string, startDate: string, endDate: string, ruleSet: BotRuleSet, statsBlobs: Blobs }): Promise<BotReplayReport> {
+    const keys: string[] = [];
+    for (let month = startDate.substring(0, 7); month <= endDate.substring(0, 7); month = addMonthsToMonthString(month, 1)) {
+        keys.push(...await listAllKeys(statsBlobs, { keyPrefix: computeShowDailyKeyPrefix({ showUuid, datePart: month }) }));
+    }
+    const botTypes: Record<string, { before: number, after: number }> = {};
+    const dailyExcluded: Record<string, { before: number, after: number }> = {};
+    const changes: Record<string, number> = {};
+    let days = 0;
+    let downloads = 0;
+    for (const key of keys) {
+        const { date } = unpackShowDailyKey(key);
+        if (date < startDate || date > endDate) continue;
+        const stream = await statsBlobs.get(key, 'stream');
+        if (!stream) continue;
+        days++;
+        const daily = { before: 0, after: 0 };
+        dailyExcluded[date] = daily;
+        for await (const { botType: before, agentType, agentName, deviceType, deviceName, referrerName, tags, asn, regionCode } of yieldTsvFromStream(stream)) {
+            if (agentType === undefined) throw new Error(`Undefined agentType`);
+            downloads++;
+            const after = computeBotType({ agentType, agentName, deviceType, deviceName, referrerName, tags, asn, regionCode, date }, ruleSet);
+            if (before) {
+                daily.before++;
+                computeCounts(botTypes, before).before++;
+            }
+            if (after) {
+                daily.after++;
+                computeCounts(botTypes, after).after++;
+            }
+            if (before !== after) increment(changes, `${before ?? 'none'} -> ${after ?? 'none'}`);
+        }
+    }
+    const excludedBefore = Object.values(dailyExcluded).reduce((a, b) => a + b.before, 0);
+    const excludedAfter = Object.values(dailyExcluded).reduce((a, b) => a + b.after, 0);
+    return { showUuid, startDate, endDate, botRulesVersion: ruleSet.version, created: new Date().toISOString(), days, downloads, excludedBefore, excludedAfter, botTypes, changes, dailyExcluded };
+}
+
+/** Reports kept per show, older ones are deleted as new ones are written. */
+export const MAX_BOT_REPLAY_REPORTS_PER_SHOW = 50;
+
+export async function listBotReplayReports({ showUuid, limit, continuationToken, statsBlobs }: { showUuid: string, limit: number, continuationToken?: string, statsBlobs: Blobs }): Promise<{ reports: BotReplayReport[], continuationToken?: string }> {
+    // bounded by pruning, so listing every key is a page or two at most
+    const prefix = computeBotReplayReportKeyPrefix({ showUuid });
+    const keys = await listAllKeys(statsBlobs, { keyPrefix: prefix });
+    // keys are timestamp-suffixed, walk newest first, the token is the name of the last key read
+    const remaining = keys.map(v => v.substring(prefix.length)).filter(v => continuationToken === undefined || v < continuationToken).reverse();
+    const reports: BotReplayReport[] = [];
+    for (const [ i, name ] of remaining.entries()) {
+        if (i >= limit) return { reports, continuationToken: remaining[i - 1] };
+        const obj = await statsBlobs.get(`${prefix}${name}`, 'json');
+        if (isValidBotReplayReport(obj)) reports.push(obj);
+    }
+    return { reports };
+}
+
+export async function pruneBotReplayReports({ showUuid, statsBlobs }: { showUuid: string, statsBlobs: Blobs }): Promise<number> {
+    const keys = await listAllKeys(statsBlobs, { keyPrefix: computeBotReplayReportKeyPrefix({ showUuid }) });
+    const expired = keys.slice(0, Math.max(0, keys.length - MAX_BOT_REPLAY_REPORTS_PER_SHOW));
+    for (const key of expired) {
+        await statsBlobs.delete(key);
+    }
+    return expired.length;
+}
+
+//
+
+export interface BotReplayReport {
+    readonly showUuid: string;
+    readonly startDate: string; // yyyy-mm-dd, inclusive
+    readonly endDate: string; // yyyy-mm-dd, inclusive
+    readonly botRulesVersion: number; // rule set used to compute the "after" bot types
+    readonly created: string; // instant
+    readonly days: number; // show-daily blobs found in the range
+    readonly downloads: number; // total rows, including bots
+    readonly excludedBefore: number;
+    readonly excludedAfter: number;
+    readonly botTypes: Record<string, { before: number, after: number }>; // botType -> excluded downloads
+    readonly changes: Record<string, number>; // e.g. "none -> bot-ip" -> downloads
+    readonly dailyExcluded: Record<string, { before: number, after: number }>; // date -> excluded downloads
+}
+
+export function isValidBotReplayReport(obj: unknown): obj is BotReplayReport {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && typeof obj.startDate === 'string'
+        && typeof obj.endDate === 'string'
+        && typeof obj.botRulesVersion === 'number'
+        && typeof obj.created === 'string'
+        && typeof obj.days === 'number'
+        && typeof obj.downloads === 'number'
+        && typeof obj.excludedBefore === 'number'
+        && typeof obj.excludedAfter === 'number'
+        && isStringRecord(obj.botTypes)
+        && isStringRecord(obj.changes)
+        && isStringRecord(obj.dailyExcluded)
+        ;
+}
+
+//
+
+function computeCounts(botTypes: Record<string, { before: number, after: number }>, botType: string): { before: number, after: number } {
+    let rt = botTypes[botType];
+    if (!rt) {
+        rt = { before: 0, after: 0 };
+        botTypes[botType] = rt;
+    }
+    return rt;
+}
+
+function computeBotReplayReportKeyPrefix({ showUuid }: { showUuid: string }): string {
+    return `bot-replays/show/${showUuid}/`;
+}
+
+function computeBotReplayReportKey({ showUuid, timestamp }: { showUuid: string, timestamp: string }): string {
+    return `${computeBotReplayReportKeyPrefix({ showUuid })}${showUuid}-${timestamp}.bot-replay.json`;
+}
@@ -0,0 +1,85 @@
+import { assertEquals, assertThrows } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { generateUuid } from '../uuid.ts';
+import { BotReplayReport, computeBotReplayReport, listBotReplayReports, MAX_BOT_REPLAY_REPORTS_PER_SHOW, pruneBotReplayReports, tryParseReplayBotTypesRequest } from './bot_replay.ts';
+import { DEFAULT_BOT_RULE_SET } from './bots.ts';
+import { computeShowDailyKey } from './downloads.ts';
+
+Deno.test({
+    name: 'tryParseReplayBotTypesRequest',
+    fn: () => {
+        const showUuid = generateUuid();
+        assertEquals(tryParseReplayBotTypesRequest({ operationKind: 'select', targetPath: '/work/replay-bot-types', parameters: {} }), undefined);
+        assertEquals(tryParseReplayBotTypesRequest({ operationKind: 'update', targetPath: '/work/replay-bot-types', parameters: { shows: showUuid, start: '2024-03-01', end: '2024-03-31', botRules: '2' } }), { showUuids: [ showUuid ], startDate: '2024-03-01', endDate: '2024-03-31', botRulesVersion: 2 });
+        assertThrows(() => tryParseReplayBotTypesRequest({ operationKind: 'update', targetPath: '/work/replay-bot-types', parameters: { shows: showUuid, start: '2024-03-31', end: '2024-03-01' } }));
+        assertThrows(() => tryParseReplayBotTypesRequest({ operationKind: 'update', targetPath: '/work/replay-bot-types', parameters: { start: '2024-03-01', end: '2024-03-31' } }));
+    }
+});
+
+Deno.test({
+    name: 'computeBotReplayReport',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const showUuid = generateUuid();
+        const header = [ 'time', 'episodeId', 'botType', 'agentType', 'agentName', 'tags' ];
+        const put = (date: string, rows: string[][]) => statsBlobs.put(computeShowDailyKey({ showUuid, date }), [ header, ...rows ].map(v => v.join('\t')).join('\n') + '\n');
+        await put('2024-03-18', [
+            [ '2024-03-18T00:00:00.000Z', 'ep1', '', 'app', 'Overcast', '' ],
+            [ '2024-03-18T00:00:00.000Z', 'ep1', '', 'browser', 'JustCast', 'web-widget' ], // previously missed
+            [ '2024-03-18T00:00:00.000Z', 'ep1', 'bot', 'bot', 'Googlebot', '' ],
+        ]);
+        await put('2024-03-19', [
+            [ '2024-03-19T00:00:00.000Z', 'ep1', 'web-widget-preload', 'browser', 'JustCast', 'web-widget' ], // fixed on this date
+        ]);
+        await put('2024-03-20', [
+            [ '2024-03-20T00:00:00.000Z', 'ep1', '', 'app', 'Overcast', '' ], // out of range
+        ]);
+
+        const report = await computeBotReplayReport({ showUuid, startDate: '2024-03-18', endDate: '2024-03-19', ruleSet: DEFAULT_BOT_RULE_SET, statsBlobs });
+        assertEquals(report.days, 2);
+        assertEquals(report.downloads, 4);
+        assertEquals(report.excludedBefore, 2);
+        assertEquals(report.excludedAfter, 2);
+        assertEquals(report.botTypes, { 'bot': { before: 1, after: 1 }, 'web-widget-preload': { before: 1, after: 1 } });
+        assertEquals(report.changes, { 'none -> web-widget-preload': 1, 'web-widget-preload -> none': 1 });
+        assertEquals(report.dailyExcluded, { '2024-03-18': { before: 1, after: 2 }, '2024-03-19': { before: 1, after: 0 } });
+
+        // listed month by month
+        await put('2024-01-31', [
+            [ '2024-01-31T00:00:00.000Z', 'ep1', '', 'app', 'Overcast', '' ],
+        ]);
+        const report2 = await computeBotReplayReport({ showUuid, startDate: '2024-01-31', endDate: '2024-03-18', ruleSet: DEFAULT_BOT_RULE_SET, statsBlobs });
+        assertEquals(report2.days, 2);
+        assertEquals(Object.keys(report2.dailyExcluded), [ '2024-01-31', '2024-03-18' ]);
+    }
+});
+
+Deno.test({
+    name: 'listBotReplayReports',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const showUuid = generateUuid();
+        const put = (timestamp: string) => {
+            const report: BotReplayReport = { showUuid, startDate: '2024-03-01', endDate: '2024-03-31', botRulesVersion: 1, created: timestamp, days: 0, downloads: 0, excludedBefore: 0, excludedAfter: 0, botTypes: {}, changes: {}, dailyExcluded: {} };
+            return statsBlobs.put(`bot-replays/show/${showUuid}/${showUuid}-${timestamp}.bot-replay.json`, JSON.stringify(report));
+        };
+        for (let i = 0; i < MAX_BOT_REPLAY_REPORTS_PER_SHOW + 2; i++) {
+            await put(`2404010000${i.toString().padStart(2, '0')}000`);
+        }
+
+        // newest first, paged
+        const page1 = await listBotReplayReports({ showUuid, limit: 2, statsBlobs });
+        assertEquals(page1.reports.map(v => v.created), [ `240401000051000`, `240401000050000` ]);
+        assertEquals(page1.continuationToken, `${showUuid}-240401000050000.bot-replay.json`);
+        const page2 = await listBotReplayReports({ showUuid, limit: 1, continuationToken: page1.continuationToken, statsBlobs });
+        assertEquals(page2.reports.map(v => v.created), [ `240401000049000` ]);
+
+        // oldest pruned
+        assertEquals(await pruneBotReplayReports({ showUuid, statsBlobs }), 2);
+        assertEquals(await pruneBotReplayReports({ showUuid, statsBlobs }), 0);
+        const all = await listBotReplayReports({ showUuid, limit: 100, statsBlobs });
+        assertEquals(all.reports.length, MAX_BOT_REPLAY_REPORTS_PER_SHOW);
+        assertEquals(all.reports.at(-1)?.created, `240401000002000`);
+        assertEquals(all.continuationToken, undefined);
+    }
+});
@@ -1,37 +1,104 @@
-export type BotType = 'bot' | 'bot-lib' | 'unknown-bot' | 'bot-ip' | 'opera-desktop-sans-referrer' | 'no-ua' | 'podverse-web-preload' | 'web-widget-preload' | 'crosszone';
+import { isStringRecord } from '../check.ts';
+import { Blobs, listAllKeys } from './blobs.ts';
 
-export function computeBotType({ agentType, agentName = '', deviceType, referrerName, tags = '', date }: { agentType: string, agentName?: string, deviceType?: string, referrerName?: string, tags?: string, date: string }): BotType | undefined {
-    if (agentType === 'bot') return 'bot'; // easy
-    if (agentType === 'bot-library') return 'bot-lib'; // user-agents-v2 type='library' with category='bot'
-    if (agentType === 'unknown' && /(bot|crawler|spider)/i.test(agentName)) return 'unknown-bot'; // "bot", "crawler" or "spider" in the user-agent string for unknown agents
-    if (agentName === '') return 'no-ua'; // no user-agent header provided in the request (or blank) - majority found from Amazon IPs
+export function computeBotType({ agentType, agentName, deviceType, deviceName, referrerName, tags, asn, regionCode, date }: { agentType: string, agentName?: string, deviceType?: string, deviceName?: string, referrerName?: string, tags?: string, asn?: string, regionCode?: string, date: string }, ruleSet: BotRuleSet = DEFAULT_BOT_RULE_SET): string | undefined {
+    const tagset = new Set((tags ?? '').split(',').filter(v => v !== ''));
+    const values: Record<string, string | undefined> = { agentType, agentName, deviceType, deviceName, referrerName, asn, regionCode };
+    return ruleSet.rules.find(v => matchesBotCondition(v, { values, tagset, date }))?.botType;
+}
 
-    // 2022-12-12: Observed Opera desktop pre-downloading all enclosures for rss feeds added to "My Sources" - they have no referrer
-    if (agentType === 'browser' && agentName === 'Opera' && deviceType === 'computer' && referrerName === undefined) return 'opera-desktop-sans-referrer';
+export function isWebWidgetHostname(hostname: string): boolean {
+    return knownWebWidgetHostnames.has(hostname);
+}
 
-    // 2024-03-08: Observed Podverse embedded player widget and first-party player requesting the entire file before user playback (preload="metadata")
-    if (agentType === 'browser' && referrerName === 'Podverse') return 'podverse-web-preload';
+export function isBotIpHash({ hashedIpAddress, destinationServerUrl, asn, agentName, deviceName, regionCode }: { hashedIpAddress: string, destinationServerUrl: string, asn: string, agentName: string | undefined, deviceName: string | undefined, regionCode: string }, ruleSet: BotRuleSet = DEFAULT_BOT_RULE_SET): boolean {
+    if (computeIpHashSet(ruleSet).has(hashedIpAddress)) return true;
+    const values: Record<string, string | undefined> = { destinationServerUrl, asn, agentName, deviceName, regionCode };
+    return ruleSet.ipRules.some(v => matchesBotCondition(v, { values, tagset: new Set() }));
+}
 
-    // 2024-03-11: Observed two other embedded player widgets requesting the entire file before user playback (preload="metadata")
-    if (agentType === 'browser' && agentName === 'Podfriend' && tags.includes('web-widget')) return 'web-widget-preload';
-    if (agentType === 'browser' && agentName === 'JustCast' && tags.includes('web-widget') && date < '2024-03-19') return 'web-widget-preload'; // 2024-03-19: fixed!
+export async function loadBotRuleSet({ miscBlobs, version }: { miscBlobs: Blobs | undefined, version?: number }): Promise<BotRuleSet> {
+    if (version === DEFAULT_BOT_RULE_SET.version) return DEFAULT_BOT_RULE_SET;
+    const versions = miscBlobs ? await listBotRuleSetVersions(miscBlobs) : [];
+    const target = version ?? versions.at(-1);
+    if (target === undefined) return DEFAULT_BOT_RULE_SET;
+    if (!miscBlobs || !versions.includes(target)) throw new Error(`Bot rule set version ${target} not found`);
+    const obj = await miscBlobs.get(computeBotRuleSetKey(target), 'json');
+    if (!isValidBotRuleSet(obj)) throw new Error(`Invalid bot rule set at version ${target}`);
+    return obj;
+}
 
-    // 2024-08-21: Found ips with evidence of automated/bot-like requests
-    if (tags.includes('bot-ip')) return 'bot-ip';
+export async function saveBotRuleSet({ rules, ipRules, ipHashes, miscBlobs }: { rules: unknown, ipRules: unknown, ipHashes: unknown, miscBlobs: Blobs }): Promise<BotRuleSet> {
+    // rule sets are immutable once saved, so that older versions can always be re-applied via phase 3 recompute
+    const versions = await listBotRuleSetVersions(miscBlobs);
+    const version = Math.max(DEFAULT_BOT_RULE_SET.version, ...versions) + 1;
+    const ruleSet = { version, rules, ipRules, ipHashes };
+    if (!isValidBotRuleSet(ruleSet)) throw new Error(`Invalid bot rule set`);
+    await miscBlobs.put(computeBotRuleSetKey(version), JSON.stringify(ruleSet, undefined, 2));
+    return ruleSet;
+}
 
-    // 2025-08-09: Unknown crosszone requests - subrequests from other cf workers use the hardcoded crosszone ip (not the listener ip)
-    if (tags.includes('unknown-crosszone')) return 'crosszone';
+export async function listBotRuleSetVersions(miscBlobs: Blobs): Promise<number[]> {
+    const keys = await listAllKeys(miscBlobs, { keyPrefix: 'bot-rules/' });
+    return keys.flatMap(v => {
+        const m = /^bot-rules\/bot-rules-v(\d+)\.json$/.exec(v);
+        return m ? [ parseInt(m[1]) ] : [];
+    }).sort((a, b) => a - b);
 }
 
-export function isWebWidgetHostname(hostname: string): boolean {
-    return knownWebWidgetHostnames.has(hostname);
+export interface BotRuleSet {
+    readonly version: number; // increases by one for every saved change, the built-in default is version 1
+    readonly rules: readonly BotRule[]; // evaluated in order when computing botType in phase 3, first match wins
+    readonly ipRules: readonly BotCondition[]; // any match tags the download with 'bot-ip' in phase 1
+    readonly ipHashes: readonly string[]; // hashed ip addresses (sha1 hex) tagged with 'bot-ip' in phase 1
+}
+
+export function isValidBotRuleSet(obj: unknown): obj is BotRuleSet {
+    return isStringRecord(obj)
+        && typeof obj.version === 'number' && Number.isSafeInteger(obj.version) && obj.version > 0
+        && Array.isArray(obj.rules) && obj.rules.every(isValidBotRule)
+        && Array.isArray(obj.ipRules) && obj.ipRules.every(isValidBotCondition)
+        && Array.isArray(obj.ipHashes) && obj.ipHashes.every(v => typeof v === 'string' && /^[0-9a-f]{40}$/.test(v))
+        ;
+}
+
+export interface BotRule extends BotCondition {
+    readonly botType: string; // e.g. bot, bot-lib, no-ua
+    readonly note?: string; // why the rule was added, e.g. 2024-03-08: Observed Podverse embedded player widget requesting the entire file
+}
+
+export function isValidBotRule(obj: unknown): obj is BotRule {
+    return isStringRecord(obj)
+        && isValidBotCondition(obj)
+        && typeof obj.botType === 'string' && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(obj.botType)
+        && (obj.note === undefined || typeof obj.note === 'string')
+        ;
+}
+
+export interface BotCondition {
+    // every specified field must match
+    readonly agentType?: BotValueMatch;
+    readonly agentName?: BotValueMatch;
+    readonly deviceType?: BotValueMatch;
+    readonly deviceName?: BotValueMatch;
+    readonly referrerName?: BotValueMatch;
+    readonly asn?: BotValueMatch;
+    readonly regionCode?: BotValueMatch;
+    readonly destinationServerUrl?: BotValueMatch; // ip rules only
+    readonly tags?: readonly string[]; // all tags must be present
+    readonly dates?: { readonly from?: string, readonly to?: string }; // yyyy-mm-dd, from inclusive, to exclusive
 }
 
-export function isBotIpHash({ hashedIpAddress, destinationServerUrl, asn, agentName, deviceName, regionCode }: { hashedIpAddress: string, destinationServerUrl: string, asn: string, agentName: string | undefined, deviceName: string | undefined, regionCode: string }): boolean {
-    return botIpHashes.has(hashedIpAddress)
-        || asn === '16591' && regionCode === 'TX' && agentName === 'Chrome' && deviceName === 'Windows Computer' && destinationServerUrl.includes('/ondemand.kut.org/') && destinationServerUrl.includes('kut-news-now');
+export function isValidBotCondition(obj: unknown): obj is BotCondition {
+    return isStringRecord(obj)
+        && BOT_CONDITION_FIELDS.every(v => obj[v] === undefined || isValidBotValueMatch(obj[v]))
+        && (obj.tags === undefined || Array.isArray(obj.tags) && obj.tags.every(v => typeof v === 'string'))
+        && (obj.dates === undefined || isStringRecord(obj.dates) && [ obj.dates.from, obj.dates.to ].every(v => v === undefined || typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v)))
+        ;
 }
 
+export type BotValueMatch = string | readonly string[] | { readonly pattern: string, readonly flags?: string }; // exact value ('' for missing), any of, or regex
+
 //
 
 const knownWebWidgetHostnames = new Set([
@@ -39,7 +106,7 @@ const knownWebWidgetHostnames = new Set([
     'widget.justcast.com',
 ]);
 
-const botIpHashes = new Set([
+const defaultBotIpHashes = [
     'c1cf85ed0bcb71afdc52ce52ad54cba30cf05a7e', // 2024-08-21 for 2024-08-19
     '055339109b8a6d1c0f508fb491fec8ca54526748', // 2024-08-21 for 2024-08-19
     '9d966be7e654e5404f0588652bfab78b58dfe3d4', // 2024-08-26 for 2024-08-25
@@ -117,4 +184,82 @@ const botIpHashes = new Set([
     'd93736faf20dd53ce89d6e2ffd567cbd285ab730', // 2025-08-05 for 2025-08-04
     'ee7bfc14e5ebadfcac0ab403d4e2061aab2f53c1', // 2025-08-09 for 2025-08-08
     'db2a64e741d755d040a5589571448dbdf000a6e7', // 2025-08-17 for 2025-08-15to16
-]);
+];
+
+export const DEFAULT_BOT_RULE_SET: BotRuleSet = {
+    version: 1,
+    rules: [
+        { botType: 'bot', agentType: 'bot' }, // easy
+        { botType: 'bot-lib', agentType: 'bot-library', note: `user-agents-v2 type='library' with category='bot'` },
+        { botType: 'unknown-bot', agentType: 'unknown', agentName: { pattern: '(bot|crawler|spider)', flags: 'i' }, note: `"bot", "crawler" or "spider" in the user-agent string for unknown agents` },
+        { botType: 'no-ua', agentName: '', note: 'no user-agent header provided in the request (or blank) - majority found from Amazon IPs' },
+        { botType: 'opera-desktop-sans-referrer', agentType: 'browser', agentName: 'Opera', deviceType: 'computer', referrerName: '', note: '2022-12-12: Observed Opera desktop pre-downloading all enclosures for rss feeds added to "My Sources" - they have no referrer' },
+        { botType: 'podverse-web-preload', agentType: 'browser', referrerName: 'Podverse', note: '2024-03-08: Observed Podverse embedded player widget and first-party player requesting the entire file before user playback (preload="metadata")' },
+        { botType: 'web-widget-preload', agentType: 'browser', agentName: 'Podfriend', tags: [ 'web-widget' ], note: '2024-03-11: Observed two other embedded player widgets requesting the entire file before user playback (preload="metadata")' },
+        { botType: 'web-widget-preload', agentType: 'browser', agentName: 'JustCast', tags: [ 'web-widget' ], dates: { to: '2024-03-19' }, note: '2024-03-19: fixed!' },
+        { botType: 'bot-ip', tags: [ 'bot-ip' ], note: '2024-08-21: Found ips with evidence of automated/bot-like requests' },
+        { botType: 'crosszone', tags: [ 'unknown-crosszone' ], note: '2025-08-09: Unknown crosszone requests - subrequests from other cf workers use the hardcoded crosszone ip (not the listener ip)' },
+    ],
+    ipRules: [
+        { asn: '16591', regionCode: 'TX', agentName: 'Chrome', deviceName: 'Windows Computer', destinationServerUrl: { pattern: '/ondemand\\.kut\\.org/.*kut-news-now' } },
+    ],
+    ipHashes: defaultBotIpHashes,
+};
+
+const BOT_CONDITION_FIELDS = [ 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerName', 'asn', 'regionCode', 'destinationServerUrl' ] as const;
+
+const patterns = new Map<string, RegExp>();
+const ipHashSets = new WeakMap<BotRuleSet, ReadonlySet<string>>();
+
+function isValidBotValueMatch(obj: unknown): obj is BotValueMatch {
+    if (typeof obj === 'string') return true;
+    if (Array.isArray(obj)) return obj.every(v => typeof v === 'string');
+    if (!isStringRecord(obj) || typeof obj.pattern !== 'string' || !(obj.flags === undefined || typeof obj.flags === 'string' && /^[imsu]*$/.test(obj.flags))) return false; // no stateful flags (g, y)
+    try {
+        new RegExp(obj.pattern, obj.flags);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function matchesBotValue(match: BotValueMatch, value: string): boolean {
+    if (typeof match === 'string') return match === value;
+    if (Array.isArray(match)) return match.includes(value);
+    const { pattern, flags = '' } = match as { pattern: string, flags?: string };
+    const key = `${flags}/${pattern}`;
+    let regex = patterns.get(key);
+    if (!regex) {
+        regex = new RegExp(pattern, flags);
+        patterns.set(key, regex);
+    }
+    return regex.test(value);
+}
+
+function matchesBotCondition(condition: BotCondition, { values, tagset, date }: { values: Record<string, string | undefined>, tagset: ReadonlySet<string>, date?: string }): boolean {
+    for (const field of BOT_CONDITION_FIELDS) {
+        const match = condition[field];
+        if (match !== undefined && !matchesBotValue(match, values[field] ?? '')) return false;
+    }
+    const { tags, dates } = condition;
+    if (tags && !tags.every(v => tagset.has(v))) return false;
+    if (dates) {
+        if (date === undefined) return false;
+        if (dates.from !== undefined && date < dates.from) return false;
+        if (dates.to !== undefined && date >= dates.to) return false;
+    }
+    return true;
+}
+
+function computeIpHashSet(ruleSet: BotRuleSet): ReadonlySet<string> {
+    let rt = ipHashSets.get(ruleSet);
+    if (!rt) {
+        rt = new Set(ruleSet.ipHashes);
+        ipHashSets.set(ruleSet, rt);
+    }
+    return rt;
+}
+
+function computeBotRuleSetKey(version: number): string {
+    return `bot-rules/bot-rules-v${version}.json`;
+}
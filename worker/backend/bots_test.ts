@@ -1,5 +1,8 @@
-import { assert } from '../tests/deps.ts';
-import { isBotIpHash } from './bots.ts';
+import { assert, assertEquals, assertRejects } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { InMemoryR2Bucket } from '../tests/in_memory_r2_bucket.ts';
+import { computeBotType, isBotIpHash, listBotRuleSetVersions, loadBotRuleSet, saveBotRuleSet } from './bots.ts';
+import { R2BucketBlobs } from './r2_bucket_blobs.ts';
 
 Deno.test({
     name: 'isBotIpHash',
@@ -15,3 +18,55 @@ Deno.test({
 
     }
 });
+
+Deno.test({
+    name: 'computeBotType',
+    fn: () => {
+        const date = '2024-03-18';
+        assertEquals(computeBotType({ agentType: 'bot', agentName: 'Googlebot', date }), 'bot');
+        assertEquals(computeBotType({ agentType: 'unknown', agentName: 'Some Crawler/1.0', date }), 'unknown-bot');
+        assertEquals(computeBotType({ agentType: 'unknown', date }), 'no-ua');
+        assertEquals(computeBotType({ agentType: 'browser', agentName: 'Opera', deviceType: 'computer', date }), 'opera-desktop-sans-referrer');
+        assertEquals(computeBotType({ agentType: 'browser', agentName: 'Opera', deviceType: 'computer', referrerName: 'Google', date }), undefined);
+        assertEquals(computeBotType({ agentType: 'browser', agentName: 'JustCast', tags: 'first-two,web-widget', date }), 'web-widget-preload');
+        assertEquals(computeBotType({ agentType: 'browser', agentName: 'JustCast', tags: 'first-two,web-widget', date: '2024-03-19' }), undefined);
+        assertEquals(computeBotType({ agentType: 'app', agentName: 'Overcast', tags: 'bot-ip', date }), 'bot-ip');
+        assertEquals(computeBotType({ agentType: 'app', agentName: 'Overcast', date }), undefined);
+
+        const ruleSet = { version: 2, rules: [ { botType: 'asn-bot', asn: [ '1234', '5678' ], regionCode: 'TX', dates: { from: '2024-01-01' } } ], ipRules: [], ipHashes: [] };
+        assertEquals(computeBotType({ agentType: 'app', agentName: 'Overcast', asn: '5678', regionCode: 'TX', date }, ruleSet), 'asn-bot');
+        assertEquals(computeBotType({ agentType: 'app', agentName: 'Overcast', asn: '5678', regionCode: 'TX', date: '2023-12-31' }, ruleSet), undefined);
+        assertEquals(computeBotType({ agentType: 'bot', agentName: 'Googlebot', date }, ruleSet), undefined);
+    }
+});
+
+Deno.test({
+    name: 'saveBotRuleSet',
+    fn: async () => {
+        const miscBlobs = new InMemoryBlobs();
+        assertEquals((await loadBotRuleSet({ miscBlobs })).version, 1);
+        await assertRejects(() => saveBotRuleSet({ rules: [ { botType: 'Bad Type' } ], ipRules: [], ipHashes: [], miscBlobs }));
+        await assertRejects(() => saveBotRuleSet({ rules: [ { botType: 'bot', agentName: { pattern: '(' } } ], ipRules: [], ipHashes: [], miscBlobs }));
+
+        const saved = await saveBotRuleSet({ rules: [ { botType: 'bot', agentType: 'bot' } ], ipRules: [], ipHashes: [ 'c1cf85ed0bcb71afdc52ce52ad54cba30cf05a7e' ], miscBlobs });
+        assertEquals(saved.version, 2);
+        assertEquals(await listBotRuleSetVersions(miscBlobs), [ 2 ]);
+        assertEquals(await loadBotRuleSet({ miscBlobs }), saved);
+        assertEquals((await loadBotRuleSet({ miscBlobs, version: 1 })).version, 1);
+        await assertRejects(() => loadBotRuleSet({ miscBlobs, version: 3 }));
+        assert(isBotIpHash({ hashedIpAddress: 'c1cf85ed0bcb71afdc52ce52ad54cba30cf05a7e', agentName: '', asn: '', destinationServerUrl: '', deviceName: '', regionCode: '' }, saved));
+        assert(!isBotIpHash({ hashedIpAddress: '5a8ce5c15b702fb94c8684d273ffb51d3c0383c4', agentName: '', asn: '', destinationServerUrl: '', deviceName: '', regionCode: '' }, saved));
+    }
+});
+
+Deno.test({
+    name: 'listBotRuleSetVersions',
+    fn: async () => {
+        // more versions than fit in a single list page
+        const miscBlobs = new R2BucketBlobs({ bucket: new InMemoryR2Bucket({ maxListLimit: 2 }), prefix: 'misc/' });
+        for (let i = 0; i < 3; i++) {
+            await saveBotRuleSet({ rules: [], ipRules: [], ipHashes: [], miscBlobs });
+        }
+        assertEquals(await listBotRuleSetVersions(miscBlobs), [ 2, 3, 4 ]);
+    }
+});
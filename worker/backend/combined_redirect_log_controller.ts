@@ -642,6 +642,7 @@ export enum IndexId {
     XpsId = 13,
 }
 
+// ulid, xpsId, userAgent and referer lookups are now served by the tiered day indexes in the hits durable object (hits_index_lifecycle.ts), which bound storage by compacting into index blobs
 export const INDEX_DEFINITIONS: [ string, IndexId, (v: string, timestamp: string) => string | undefined | Promise<string | undefined> ][] = [
     [ 'url', IndexId.UrlSha256, _ => undefined ], // disabled 2024-04-17 [ 'url', IndexId.UrlSha256, async (v: string) => (await Bytes.ofUtf8(computeServerUrl(v)).sha256()).hex() ],
     [ 'userAgent', IndexId.UserAgent, _ => undefined ], // disabled 2024-04-07  [ 'userAgent', IndexId.UserAgent, (v: string) => v.substring(0, 1024) ]
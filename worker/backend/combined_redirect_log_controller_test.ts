@@ -1,4 +1,4 @@
-import { assertEquals, assertNotEquals } from '../tests/deps.ts';
+import { assertEquals, assertNotEquals, assertRejects } from '../tests/deps.ts';
 import { InMemoryDurableObjectStorage, assert } from '../tests/deps.ts';
 import { CombinedRedirectLogController, IndexId } from './combined_redirect_log_controller.ts';
 import { StubRpcClient } from '../rpc_clients.ts';
@@ -74,6 +74,10 @@ Deno.test({
             assertNotEquals(hashedIpAddress, '1.2.3.4')
             assert(isValidSha1Hex(hashedIpAddress));
 
+            // filters with disabled indexes are rejected, instead of listing every record unfiltered
+            await assertRejects(() => controller.queryRedirectLogs({ limit: 10, format: 'json', ulid }), Error, 'no longer indexed');
+            await assertRejects(() => controller.queryRedirectLogs({ limit: 10, format: 'json', xpsId }), Error, 'no longer indexed');
+
             // ensure saved row count
             const data = await storage.list();
             // console.log(data);
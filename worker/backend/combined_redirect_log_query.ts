@@ -14,10 +14,18 @@ export async function queryCombinedRedirectLogs(request: Unkinded<QueryRedirectL
     const { format = 'tsv', include = '' } = request;
     const startTime = Date.now();
     const map = await computeResultMap(request, storage, hashIpAddress);
-    const rows: unknown[] = [];
     const includes = include.split(',');
     const includeAsn = includes.includes('asn');
     const includeHashedIpAddressForDownload = includes.includes('hashedIpAddressForDownload');
+    const rows = yieldRows(map, { mostBehindTimestamp, attNums, format, includeAsn, includeHashedIpAddressForDownload });
+    const headers = computeHeaders(includeAsn, includeHashedIpAddressForDownload);
+    return await newQueryResponse({ startTime, format, headers, rows, continuationToken: undefined });
+}
+
+//
+
+// rows are unpacked as they are read, so ndjson and parquet responses can stream them
+async function* yieldRows(map: Map<string, DurableObjectStorageValue>, { mostBehindTimestamp, attNums, format, includeAsn, includeHashedIpAddressForDownload }: { mostBehindTimestamp: string | undefined, attNums: AttNums, format: string, includeAsn: boolean, includeHashedIpAddressForDownload: boolean }): AsyncGenerator<unknown> {
     for (const record of map.values()) {
         if (typeof record !== 'string') continue;
         const { timestamp, uuid, hashedIpAddress: packedHashedIpAddress, hashedIpAddressForDownload: packedHashedIpAddressForDownload, method, url, userAgent, referer, range, ulid, xpsId,
@@ -41,20 +49,16 @@ export async function queryCombinedRedirectLogs(request: Unkinded<QueryRedirectL
                 ...(includeAsn ? [ asn ] : []),
                 ...(includeHashedIpAddressForDownload ? [ hashedIpAddressForDownload ] : []),
             ];
-            rows.push(format === 'tsv' ? arr.join('\t') : arr);
+            yield format === 'tsv' ? arr.join('\t') : arr;
         } else {
-            rows.push({ time, uuid, hashedIpAddress, method, url, userAgent, referer, range, xpsId, ulid, edgeColo, continent, country, timezone, regionCode, region, metroCode,
+            yield { time, uuid, hashedIpAddress, method, url, userAgent, referer, range, xpsId, ulid, edgeColo, continent, country, timezone, regionCode, region, metroCode,
                 ...(includeAsn ? { asn } : {}),
                 ...(includeHashedIpAddressForDownload ? { hashedIpAddressForDownload } : {}),
-            });
+            };
         }
     }
-    const headers = computeHeaders(includeAsn, includeHashedIpAddressForDownload);
-    return newQueryResponse({ startTime, format, headers, rows, continuationToken: undefined });
 }
 
-//
-
 const computeHeaders = (includeAsn: boolean, includeHashedIpAddressForDownload: boolean) => [ 'time', 'uuid', 'hashedIpAddress', 'method', 'url', 'userAgent', 'referer', 'range', 'xpsId', 'ulid', 'edgeColo', 'continent', 'country', 'timezone', 'regionCode', 'region', 'metroCode',
     ...(includeAsn ? [ 'asn' ] : []),
     ...(includeHashedIpAddressForDownload ? [ 'hashedIpAddressForDownload' ] : []),
@@ -109,10 +113,10 @@ async function computeResultMap(request: Unkinded<QueryRedirectLogsRequest>, sto
                 const [ _, indexId, indexFn ] = def;
                 const fn = name === 'hashedIpAddress' ? ((v: string) => v) : indexFn; // provided hashedIpAddress already unpacked!
                 const indexValue = await fn(value, '220101');
-                if (typeof indexValue === 'string') {
-                    prefix = `crl.i0.${indexId}.${indexValue}.`;
-                    index = IndexId[indexId];
-                }
+                // disabled indexes would otherwise fall back to listing every record unfiltered
+                if (typeof indexValue !== 'string') throw new Error(`The '${name}' filter is no longer indexed for redirect logs, query /api/1/hits instead`);
+                prefix = `crl.i0.${indexId}.${indexValue}.`;
+                index = IndexId[indexId];
             }
         }
     }
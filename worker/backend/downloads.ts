@@ -1,11 +1,11 @@
 import { computeChainDestinationUrl } from '../chain_estimate.ts';
 import { check, checkAll, checkMatches, isValidDate, isValidInstant, tryParseUrl } from '../check.ts';
-import { computeServerUrl } from '../client_params.ts';
+import { computeServerUrl, tryParseUlid } from '../client_params.ts';
 import { Bytes, DelimiterStream, distinct, sortBy } from '../deps.ts';
 import { DoNames } from '../do_names.ts';
 import { unpackHashedIpAddressHash } from '../ip_addresses.ts';
 import { findPublicSuffix } from '../public_suffixes.ts';
-import { estimateByteRangeSize, tryParseRangeHeader } from '../range_header.ts';
+import { ByteRange, estimateByteRangeSize, packByteRanges, tryParseRangeHeader, unionByteRanges } from '../range_header.ts';
 import { PackedRedirectLogsResponse, QueryPackedRedirectLogsRequest, RpcClient, Unkinded } from '../rpc_model.ts';
 import { executeWithRetries } from '../sleep.ts';
 import { computeLinestream, yieldTsvFromStream } from '../streams.ts';
@@ -15,7 +15,7 @@ import { computeUserAgentEntityResult } from '../user_agents.ts';
 import { isValidUuid } from '../uuid.ts';
 import { AttNums } from './att_nums.ts';
 import { Blobs, Multiput } from './blobs.ts';
-import { computeBotType, isBotIpHash, isWebWidgetHostname } from './bots.ts';
+import { BotRuleSet, computeBotType, DEFAULT_BOT_RULE_SET, isBotIpHash, isWebWidgetHostname } from './bots.ts';
 import { queryPackedRedirectLogsFromHits } from './hits_common.ts';
 import { isRetryableErrorFromR2 } from './r2_bucket_blobs.ts';
 import { isValidPartition } from './show_controller_model.ts';
@@ -33,9 +33,18 @@ export function computeAgentInfo({ userAgent, referer }: { userAgent: string | u
     return { agentType, agentName, deviceType, deviceName, referrerType, referrerName, isWebWidget };
 }
 
+export type HourlyDownloadsMode = 'hourly' | 'rolling-24h';
+
+export function isHourlyDownloadsMode(obj: unknown): obj is HourlyDownloadsMode {
+    return obj === 'hourly' || obj === 'rolling-24h';
+}
+
 // phase 1: query crl for an hour's worth of hits, save one hourly downloads blob (unassigned to shows)
-export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClient, maxQueries, querySize, maxHits, target = DoNames.combinedRedirectLog, hitsBlobs }: { statsBlobs: Blobs, rpcClient: RpcClient, maxQueries: number, querySize: number, maxHits: number, target?: string, hitsBlobs?: Blobs }) {
+// mode 'hourly' dedups within the hour only, 'rolling-24h' also dedups against downloads first counted in the prior 24 hours (iab v2.2)
+// rolling output is saved alongside (not over) the canonical hourly blob, each rolling run saves only the downloads it first counted, and checks the prior 24 of those per-hour files one stream at a time
+export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClient, maxQueries, querySize, maxHits, target = DoNames.combinedRedirectLog, hitsBlobs, mode = 'hourly', botRuleSet = DEFAULT_BOT_RULE_SET }: { statsBlobs: Blobs, rpcClient: RpcClient, maxQueries: number, querySize: number, maxHits: number, target?: string, hitsBlobs?: Blobs, mode?: HourlyDownloadsMode, botRuleSet?: BotRuleSet }) {
     const start = Date.now();
+    if (!isHourlyDownloadsMode(mode)) throw new Error(`Bad mode: ${mode}`);
 
     const query: (request: Unkinded<QueryPackedRedirectLogsRequest>) => Promise<PackedRedirectLogsResponse> = 
         target === 'hitsBlobs' && hitsBlobs ? (request => queryPackedRedirectLogsFromHits(request, { hitsBlobs, attNums: new AttNums(), indexSortKeys: undefined, descending: false, quiet: true }))
@@ -45,11 +54,16 @@ export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClie
     if (!isValidInstant(startInstant)) throw new Error(`Bad hour: ${hour}`);
     const endInstant = addHours(startInstant, 1).toISOString();
     let startAfterRecordKey: string | undefined;
-    type DownloadInfo = { chunkIndex?: number, isFirstTwoBytes?: boolean };
+    type DownloadInfo = { chunkIndex?: number, isFirstTwoBytes?: boolean, time?: string, stitched?: boolean, ranges?: ByteRange[] };
     const downloads: Record<string, DownloadInfo> = {};
+    const sessions = new Map<string, string>(); // session key (destination url + ulid or xpsId) -> download counted for the session
+    const previousSessions = await loadHourlySessions(hour, mode, statsBlobs); // session key hash -> download hash, for sessions active in the previous hour
+    const continuedSessions = new Map<string, string>(); // previous sessions seen again in this hour, carried forward to the next hour
+    let sessionStitched = 0;
+    let sessionStitchedPrevious = 0;
     const encoder = new TextEncoder();
     const chunks: Uint8Array[] = [];
-    chunks.push(encoder.encode(['serverUrl', 'audienceId', 'time', 'hashedIpAddress', 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerType', 'referrerName', 'countryCode', 'continentCode', 'regionCode', 'regionName', 'timezone', 'metroCode', 'asn', 'tags' ].join('\t') + '\n'));
+    chunks.push(encoder.encode(['serverUrl', 'audienceId', 'time', 'hashedIpAddress', 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerType', 'referrerName', 'countryCode', 'continentCode', 'regionCode', 'regionName', 'timezone', 'metroCode', 'asn', 'tags', 'ranges' ].join('\t') + '\n'));
     let queries = 0;
     let hits = 0;
     while (true) {
@@ -63,7 +77,7 @@ export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClie
             hits++;
             if (recordKey > (startAfterRecordKey ?? '')) startAfterRecordKey = recordKey;
             const obj = attNums.unpackRecord(record);
-            const { method, range, ulid: _, xpsId, ipSource, url, hashedIpAddress: packedHashedIpAddress, userAgent, referer, timestamp, encryptedIpAddress: __, 'other.asn': asn } = obj;
+            const { method, range, ulid, xpsId, ipSource, url, hashedIpAddress: packedHashedIpAddress, userAgent, referer, timestamp, encryptedIpAddress: __, 'other.asn': asn } = obj;
             let { 'other.country': countryCode, 'other.continent': continentCode, 'other.regionCode': regionCode, 'other.region': regionName, 'other.timezone': timezone, 'other.metroCode': metroCode } = obj;
             if (method !== 'GET') continue; // ignore all non-GET requests
             const ranges = range ? tryParseRangeHeader(range) : undefined;
@@ -74,9 +88,43 @@ export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClie
             if (destinationServerUrl === undefined) continue;
             const hashedIpAddress = typeof packedHashedIpAddress === 'string' ? unpackHashedIpAddressHash(packedHashedIpAddress) : undefined;
             const audienceId = (await Bytes.ofUtf8(`${hashedIpAddress}|${userAgent ?? ''}|${referer ?? ''}`).sha256()).hex();
-            // TODO: how to incorporate ulids into audienceId? not a good replacement for ip address since they cannot be used across urls, and not a good suffix since a single download session across multiple ips would create dup downloads => ignore for now
             const download = `${destinationServerUrl}|${audienceId}`;
-            const existing = downloads[download];
+            const time = timestampToInstant(timestamp);
+            let existing = downloads[download];
+            const hitRanges: ByteRange[] = ranges ?? [ { start: 0 } ]; // no range header: the entire file
+
+            // session stitching: ulids and xpsIds are not stable across urls, but within a single url they identify a download session across ip changes (e.g. wifi -> cellular)
+            const sessionKey = computeSessionKey({ destinationServerUrl, ulid: ulid ?? tryParseUlid(url), xpsId });
+            if (sessionKey) {
+                const sessionDownload = sessions.get(sessionKey);
+                if (sessionDownload === undefined) {
+                    const sessionHash = previousSessions.size > 0 ? await computeSha1Hex(sessionKey) : undefined;
+                    const previousDownloadHash = sessionHash ? previousSessions.get(sessionHash) : undefined;
+                    if (sessionHash && previousDownloadHash && !existing && previousDownloadHash !== await computeSha1Hex(download)) {
+                        // same session as a download counted in the previous hour from another audienceId, ignore
+                        continuedSessions.set(sessionHash, previousDownloadHash);
+                        sessionStitchedPrevious++;
+                        continue;
+                    }
+                    sessions.set(sessionKey, download);
+                } else if (sessionDownload !== download && !existing && downloads[sessionDownload]?.isFirstTwoBytes && !isFirstTwoBytes) {
+                    // same session as a prior bytes=0-1 probe from another audienceId: this larger request supersedes the probe, and is counted instead
+                    existing = downloads[download] = { ...downloads[sessionDownload], stitched: true };
+                    delete downloads[sessionDownload];
+                    sessions.set(sessionKey, download);
+                    sessionStitched++;
+                } else if (sessionDownload !== download && !existing) {
+                    // same session as a prior download from another audienceId, ignore
+                    const info = downloads[sessionDownload];
+                    if (info) info.ranges = unionByteRanges(info.ranges ?? [], hitRanges);
+                    if (info && !info.stitched) {
+                        info.stitched = true;
+                        if (typeof info.chunkIndex === 'number') chunks[info.chunkIndex] = encoder.encode(addTagToLine(new TextDecoder().decode(chunks[info.chunkIndex]), 'session-stitched'));
+                    }
+                    sessionStitched++;
+                    continue;
+                }
+            }
             if (existing) {
                 if (existing.isFirstTwoBytes && typeof existing.chunkIndex === 'number' && !isFirstTwoBytes) {
                     // allow any larger request to replace a prior bytes=0-1 request for this download
@@ -89,12 +137,12 @@ export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClie
                         }
                     }
                 } else {
-                    // duplicate download, ignore
+                    // duplicate download, ignore (but keep track of the bytes requested)
+                    existing.ranges = unionByteRanges(existing.ranges ?? [], hitRanges);
                     continue;
                 }
             }
             // tagging
-            const time = timestampToInstant(timestamp);
             const { agentType, agentName, deviceType, deviceName, referrerType, referrerName, isWebWidget } = computeAgentInfo({ userAgent, referer });
             let tags = isFirstTwoBytes ? 'first-two' : undefined;
             const streaming = typeof xpsId === 'string' && xpsId !== '' || agentName === 'AppleCoreMedia';
@@ -106,35 +154,52 @@ export async function computeHourlyDownloads(hour: string, { statsBlobs, rpcClie
             } else if (ipSource === 'unknown-crosszone') {
                 tags = (tags ? `${tags},unknown-crosszone` : 'unknown-crosszone');
             }
-            if (hashedIpAddress && isBotIpHash({ hashedIpAddress, asn, agentName, deviceName, destinationServerUrl, regionCode })) tags = (tags ? `${tags},bot-ip` : 'bot-ip');
+            if (hashedIpAddress && isBotIpHash({ hashedIpAddress, asn, agentName, deviceName, destinationServerUrl, regionCode }, botRuleSet)) tags = (tags ? `${tags},bot-ip` : 'bot-ip');
+            if (existing?.stitched) tags = (tags ? `${tags},session-stitched` : 'session-stitched');
 
             const line = [ serverUrl, audienceId, time, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, countryCode, continentCode, regionCode, regionName, timezone, metroCode, asn, tags ].map(v => v ?? '').join('\t') + '\n';
             const chunkIndex = chunks.length;
             chunks.push(encoder.encode(line));
-            downloads[download] = { chunkIndex, isFirstTwoBytes };
+            downloads[download] = { chunkIndex, isFirstTwoBytes, time: existing?.time ?? time, stitched: existing?.stitched, ranges: unionByteRanges(existing?.ranges ?? [], hitRanges) };
         }
         if (entries.length < querySize || hits >= maxHits) {
             break;
         }
     }
 
-    const { contentLength } = await write(chunks, v => statsBlobs.put(computeHourlyKey(hour), v));
+    const { contentLength: sessionsContentLength } = await saveHourlySessions(hour, mode, { sessions, continuedSessions, statsBlobs });
+    const rollingInfo = mode === 'rolling-24h' ? await removeRollingDuplicates(hour, { downloads, chunks, statsBlobs }) : undefined;
+
+    // now that all hits are processed, finish each download line with the union of byte ranges requested
+    for (const { chunkIndex, ranges = [] } of Object.values(downloads)) {
+        if (typeof chunkIndex !== 'number') continue;
+        const line = chunks[chunkIndex];
+        const suffix = encoder.encode(`\t${packByteRanges(ranges)}\n`);
+        const arr = new Uint8Array(line.length - 1 + suffix.length);
+        arr.set(line.subarray(0, line.length - 1));
+        arr.set(suffix, line.length - 1);
+        chunks[chunkIndex] = arr;
+    }
+
+    const { contentLength } = await write(chunks, v => statsBlobs.put(computeHourlyKey(hour, mode), v));
 
-    return { hour, maxQueries, querySize, maxHits, queries, hits, downloads: Object.keys(downloads).length, millis: Date.now() - start, contentLength };
+    return { hour, mode, maxQueries, querySize, maxHits, queries, hits, downloads: Object.keys(downloads).length, sessionStitched, sessionsPreloaded: previousSessions.size, sessionStitchedPrevious, sessionsContentLength, botRulesVersion: botRuleSet.version, millis: Date.now() - start, contentLength, ...rollingInfo };
 }
 
 // phase 2: process a day's worth of hourly download blobs, compute final downloads and assign to zero or one shows, save as 24 associated column blobs (partitioned)
+// phases 2-4 read the hourly blobs written in the given phase 1 mode, so all four need to run in the same mode
 type ComputeHourlyShowColumnsOpts = { 
-    date: string, startHour?: number, endHour?: number, partition?: string, partitions: Record<string, string>, skipWrite?: boolean, skipLookup?: boolean, skipDownloads?: boolean, hashAlg?: string, statsBlobs: Blobs, 
-    lookupShow: (url: string) => Promise<{ showUuid: string, episodeId?: string } | undefined>
+    date: string, startHour?: number, endHour?: number, partition?: string, partitions: Record<string, string>, skipWrite?: boolean, skipLookup?: boolean, skipDownloads?: boolean, hashAlg?: string, statsBlobs: Blobs, mode?: HourlyDownloadsMode,
+    lookupShow: (url: string) => Promise<{ showUuid: string, episodeId?: string, variant?: string } | undefined>
 }
 
-export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, skipDownloads, hashAlg = 'SHA-1', statsBlobs, lookupShow , startHour = 0, endHour = 23, partition, partitions }: ComputeHourlyShowColumnsOpts) {
+export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, skipDownloads, hashAlg = 'SHA-1', statsBlobs, lookupShow , startHour = 0, endHour = 23, partition, partitions, mode = 'hourly' }: ComputeHourlyShowColumnsOpts) {
     const start = Date.now();
     if (!isValidDate(date)) throw new Error(`Bad date: ${date}`);
+    if (!isHourlyDownloadsMode(mode)) throw new Error(`Bad mode: ${mode}`);
     if (startHour < 0 || startHour > 23 || endHour < 0 || endHour > 23 || endHour < startHour) throw new Error(`Bad hours: ${startHour}-${endHour}`);
 
-    const cache = new Map<string, { showUuid?: string, episodeId?: string }>();
+    const cache = new Map<string, { showUuid?: string, episodeId?: string, variant?: string }>();
     const lookupShowCached = (function() {
         return async (url: string) => {
             const existing = cache.get(url);
@@ -152,7 +217,7 @@ export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, sk
         const startPreload = Date.now();
         const loadHour = startHour - 1;
         const hour = `${date}T${loadHour.toString().padStart(2, '0')}`;
-        const stream = await statsBlobs.get(computeHourlyDownloadHashesKey(hour, partition), 'stream');
+        const stream = await statsBlobs.get(computeHourlyDownloadHashesKey(hour, partition, mode), 'stream');
         if (!stream) throw new Error(`Need ${hour} to start at ${startHour}`);
         for await (const line of computeLinestream(stream)) {
             if (line.length > 0) downloads.add(line);
@@ -171,9 +236,9 @@ export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, sk
 
     for (let hourNum = startHour; hourNum <= endHour; hourNum++) {
         const hour = `${date}T${hourNum.toString().padStart(2, '0')}`;
-        const tag = `computeHourlyShowColumns ${hour} ${startHour}-${endHour} ${hashAlg}${skipWrite ? ` skipWrite` : ''}${skipLookup ? ` skipLookup` : ''}`;
+        const tag = `computeHourlyShowColumns ${hour} ${startHour}-${endHour} ${mode} ${hashAlg}${skipWrite ? ` skipWrite` : ''}${skipLookup ? ` skipLookup` : ''}`;
         consoleInfo('downloads', `${tag} start downloads=${downloads.size}`);
-        const key = computeHourlyKey(hour);
+        const key = computeHourlyKey(hour, mode);
         const stream = await statsBlobs.get(key, 'stream');
         if (!stream) continue;
         hours++;
@@ -199,7 +264,7 @@ export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, sk
                 continue;
             } else {
                 // associate download with a show & episode
-                const { showUuid, episodeId } = await lookupShowCached(serverUrl);
+                const { showUuid, episodeId, variant } = await lookupShowCached(serverUrl);
                 if (partitions[showUuid ?? ''] !== partition) {
                     chunks.push(excludedLine); chunksLength += 2;
                     continue;
@@ -218,12 +283,15 @@ export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, sk
                     const download = fastHex(new Uint8Array(await crypto.subtle.digest(hashAlg, arr)));
     
                     if (downloads.has(download)) {
-                        chunks.push(excludedLine); chunksLength += 2;
+                        // a later request for a download already counted today: not a download, but phase 3 keeps its ranges for episode coverage
+                        const chunk = showUuid ? encoder.encode(`x${showUuid}${episodeId ?? ''}\n`) : excludedLine;
+                        chunks.push(chunk); chunksLength += chunk.length;
                         continue;
                     }
                     downloads.add(download);
 
-                    const chunk = showUuid ? encoder.encode(`${showUuid ?? ''}${episodeId ?? ''}\n`) : emptyLine;
+                    // variant is tab-separated, only present for alternate enclosures
+                    const chunk = showUuid ? encoder.encode(`${showUuid ?? ''}${episodeId ?? ''}${variant ? `\t${variant}` : ''}\n`) : emptyLine;
                     chunks.push(chunk); chunksLength += chunk.length;
                 }
             }
@@ -233,7 +301,7 @@ export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, sk
             hourlyColumns[hour] = { contentLength: chunksLength, millis: 0 };
         } else {
             const writeStart = Date.now();
-            const { contentLength } = await write(chunks, v => statsBlobs.put(computeHourlyShowColumnKey(hour, partition), v));
+            const { contentLength } = await write(chunks, v => statsBlobs.put(computeHourlyShowColumnKey(hour, partition, mode), v));
             if (contentLength !== chunksLength) throw new Error(`Wrote ${contentLength} bytes of hashes, expected ${chunksLength}`);
             hourlyColumns[hour] = { contentLength, millis: Date.now() - writeStart };
         }
@@ -246,33 +314,36 @@ export async function computeHourlyShowColumns({ date, skipWrite, skipLookup, sk
                 const chunk = encoder.encode(hash + '\n');
                 hashChunks.push(chunk); hashChunksLengths += chunk.length;
             }
-            const { contentLength } = await write(hashChunks, v => statsBlobs.put(computeHourlyDownloadHashesKey(hour, partition), v));
+            const { contentLength } = await write(hashChunks, v => statsBlobs.put(computeHourlyDownloadHashesKey(hour, partition, mode), v));
             if (contentLength !== hashChunksLengths) throw new Error(`Wrote ${contentLength} bytes of hashes, expected ${hashChunksLengths}`);
             hourlyHashes[hour] = { hashes: downloads.size, contentLength, millis: Date.now() - writeHashesStart };
         }
         consoleInfo('downloads', `${tag} finish: ${JSON.stringify(hourlyColumns[hour])}`);
     }
-    return { date, startHour, endHour, partition, hashAlg, millis: Date.now() - start, hours, rows, downloads: downloads.size, hourlyColumns, hourlyHashes, cache: cache.size, hashesPreloadMillis, hashesPreloaded };
+    return { date, startHour, endHour, partition, mode, hashAlg, millis: Date.now() - start, hours, rows, downloads: downloads.size, hourlyColumns, hourlyHashes, cache: cache.size, hashesPreloadMillis, hashesPreloaded };
 }
 
 // phase 3: iterate over hourly download blobs, plus associated show columns, write out daily downloads blobs and show maps (partitioned)
-export type ComputeDailyDownloadsRequest = { date: string, mode: 'include' | 'exclude', showUuids: string[], multipartMode: 'bytes' | 'stream', partSizeMb: number, partition?: string };
+// also writes the ranges of later non-bot requests for downloads already counted (repeats), since download rows only keep the ranges from their first hour
+export type ComputeDailyDownloadsRequest = { date: string, mode: 'include' | 'exclude', showUuids: string[], multipartMode: 'bytes' | 'stream', partSizeMb: number, partition?: string, hourlyMode?: HourlyDownloadsMode };
 
 export function parseComputeShowDailyDownloadsRequest(date: string, parameters: Record<string, string>): ComputeDailyDownloadsRequest {
-    const { 'part-size': partSizeStr = '20', 'multipart-mode': multipartModeStr, partition } = parameters; // in mb, 20mb is about 50,000 rows
+    const { 'part-size': partSizeStr = '20', 'multipart-mode': multipartModeStr, partition, mode: hourlyMode = 'hourly' } = parameters; // in mb, 20mb is about 50,000 rows
     const partSizeMb = parseInt(partSizeStr);
     check('part-size', partSizeMb, partSizeMb >= 5); // r2 minimum multipart size
     const multipartMode = multipartModeStr === 'bytes' ? 'bytes' : multipartModeStr === 'stream' ? 'stream' : 'bytes';
     const { mode, showUuids } = parseIncludeExclude(parameters);
     if (partition !== undefined) check('partition', partition, isValidPartition);
-    return { date, mode, showUuids, partSizeMb, multipartMode, partition };
+    if (!isHourlyDownloadsMode(hourlyMode)) throw new Error(`Bad mode: ${hourlyMode}`);
+    return { date, mode, showUuids, partSizeMb, multipartMode, partition, hourlyMode };
 }
 
-export async function computeDailyDownloads({ date, mode, showUuids, multipartMode, partSizeMb, partition }: ComputeDailyDownloadsRequest, { statsBlobs, partitions } : { partitions: Record<string, string>, statsBlobs: Blobs }) {
+export async function computeDailyDownloads({ date, mode, showUuids, multipartMode, partSizeMb, partition, hourlyMode = 'hourly' }: ComputeDailyDownloadsRequest, { statsBlobs, partitions, botRuleSet = DEFAULT_BOT_RULE_SET } : { partitions: Record<string, string>, statsBlobs: Blobs, botRuleSet?: BotRuleSet }) {
     const start = Date.now();
     showUuids = checkIncludeExclude(mode, showUuids);
 
     if (!isValidDate(date)) throw new Error(`Bad date: ${date}`);
+    if (!isHourlyDownloadsMode(hourlyMode)) throw new Error(`Bad hourlyMode: ${hourlyMode}`);
 
     let hours = 0;
     let rows = 0;
@@ -282,13 +353,19 @@ export async function computeDailyDownloads({ date, mode, showUuids, multipartMo
     let totalContentLength = 0;
     let rowIndex = 0;
     const showMaps = new Map<string, ShowMap>();
-    const headerChunk = encoder.encode(['time', 'episodeId', 'botType', 'serverUrl', 'audienceId', 'showUuid', 'hashedIpAddress', 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerType', 'referrerName', 'countryCode', 'continentCode', 'regionCode', 'regionName', 'timezone', 'metroCode', 'asn', 'tags' ].join('\t') + '\n');
+    const headerChunk = encoder.encode(['time', 'episodeId', 'botType', 'serverUrl', 'audienceId', 'showUuid', 'hashedIpAddress', 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerType', 'referrerName', 'countryCode', 'continentCode', 'regionCode', 'regionName', 'timezone', 'metroCode', 'asn', 'tags', 'ranges', 'variant' ].join('\t') + '\n');
     chunks.push(headerChunk); chunksLength += headerChunk.length;
     const partSize = partSizeMb * 1024 * 1024;
     let multiput: Multiput | undefined;
     let multiputParts: string[] | undefined;
     let remainder: Uint8Array | undefined;
     const partitionShowUuid = computePartitionShowUuid(partition, partitions);
+    const isIncluded = (showUuid: string) => mode === 'include' ? showUuids.includes(showUuid) : !showUuids.includes(showUuid);
+    const repeatChunks: Uint8Array[] = [];
+    let repeatRowIndex = 0;
+    const repeatShowMaps = new Map<string, ShowMap>();
+    const repeatHeaderChunk = encoder.encode([ 'time', 'episodeId', 'audienceId', 'showUuid', 'ranges' ].join('\t') + '\n');
+    repeatChunks.push(repeatHeaderChunk);
 
     const multiputCurrentChunks = async () => {
         if (multipartMode === 'bytes') {
@@ -313,19 +390,19 @@ export async function computeDailyDownloads({ date, mode, showUuids, multipartMo
     }
     for (let hourNum = 0; hourNum < 24; hourNum++) {
         const hour = `${date}T${hourNum.toString().padStart(2, '0')}`;
-        const key = computeHourlyKey(hour);
+        const key = computeHourlyKey(hour, hourlyMode);
         const stream = await statsBlobs.get(key, 'stream');
         if (!stream) continue;
         hours++;
 
-        const columnStream = await statsBlobs.get(computeHourlyShowColumnKey(hour, partition), 'stream');
+        const columnStream = await statsBlobs.get(computeHourlyShowColumnKey(hour, partition, hourlyMode), 'stream');
         if (!columnStream) throw new Error(`Need show column for hour=${hour} partition=${partition}`);
 
         const columnLinestream = computeLinestream(columnStream).getReader();
 
         for await (const obj of yieldTsvFromStream(stream)) {
             rows++;
-            const { serverUrl, audienceId, time, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, countryCode, continentCode, regionCode, regionName, timezone, metroCode, asn, tags } = obj;
+            const { serverUrl, audienceId, time, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, countryCode, continentCode, regionCode, regionName, timezone, metroCode, asn, tags, ranges } = obj;
             if (serverUrl === undefined) throw new Error(`Undefined serverUrl`);
             if (audienceId === undefined) throw new Error(`Undefined audienceId`);
             if (agentType === undefined) throw new Error(`Undefined agentType`);
@@ -334,20 +411,34 @@ export async function computeDailyDownloads({ date, mode, showUuids, multipartMo
             if (done) throw new Error(`Unexpected column end at row ${rows}`);
 
             if (value === 'x') continue;
+            const repeat = value.startsWith('x');
             
             let showUuid: string | undefined;
             let episodeId: string | undefined;
+            let variant: string | undefined;
             if (value.length > 0) {
-                showUuid = value.substring(0, 32);
-                episodeId = value.substring(32);
+                const [ ids, variantPart ] = (repeat ? value.substring(1) : value).split('\t');
+                showUuid = ids.substring(0, 32);
+                episodeId = ids.substring(32);
+                variant = variantPart;
             }
 
             if (partitions[showUuid ?? ''] !== partition) continue;
             
             // associate download with bot type
-            const botType = computeBotType({ agentType, agentName, deviceType, referrerName, tags, date });
+            const botType = computeBotType({ agentType, agentName, deviceType, deviceName, referrerName, tags, asn, regionCode, date }, botRuleSet);
+
+            if (repeat) {
+                if (showUuid && isIncluded(showUuid) && botType === undefined && ranges) {
+                    const chunk = encoder.encode([ time, episodeId, audienceId, showUuid, ranges ].map(v => v ?? '').join('\t') + '\n');
+                    repeatChunks.push(chunk);
+                    repeatRowIndex++;
+                    addRowToShowMap(repeatShowMaps, { showUuid, rowIndex: repeatRowIndex, chunk, headerChunk: repeatHeaderChunk, partitionShowUuid });
+                }
+                continue;
+            }
 
-            const line = [ time, episodeId, botType, serverUrl, audienceId, showUuid, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, countryCode, continentCode, regionCode, regionName, timezone, metroCode, asn, tags ].map(v => v ?? '').join('\t') + '\n';
+            const line = [ time, episodeId, botType, serverUrl, audienceId, showUuid, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, countryCode, continentCode, regionCode, regionName, timezone, metroCode, asn, tags, ranges, variant ].map(v => v ?? '').join('\t') + '\n';
             const chunk = encoder.encode(line);
             
             if ((chunksLength + chunk.length) > partSize) { // r2 multipart requires all but last part to be exactly the same size
@@ -361,18 +452,8 @@ export async function computeDailyDownloads({ date, mode, showUuids, multipartMo
             }
             rowIndex++;
            
-            if (showUuid && (mode === 'include' ? showUuids.includes(showUuid) : !showUuids.includes(showUuid))) {
-                let showMap = showMaps.get(showUuid);
-                if (!showMap) {
-                    showMap = { rowIndexes: [ 0 ], contentLength: headerChunk.length }; // header row
-                    showMaps.set(showUuid, showMap);
-                }
-                if (partitionShowUuid === showUuid) {
-                    showMap.allRows = (showMap.allRows ?? 2) + 1;
-                } else {
-                    showMap.rowIndexes.push(rowIndex);
-                }
-                showMap.contentLength += chunk.length;
+            if (showUuid && isIncluded(showUuid)) {
+                addRowToShowMap(showMaps, { showUuid, rowIndex, chunk, headerChunk, partitionShowUuid });
             }
             if (chunksLength >= partSize) {
                 if (!multiput) multiput = await statsBlobs.startMultiput(computeDailyKey(date, partition));
@@ -399,27 +480,33 @@ export async function computeDailyDownloads({ date, mode, showUuids, multipartMo
         totalContentLength = contentLength;
         etag = combinedEtag;
     }
-    const map: DailyDownloadsMap = { date, etag, contentLength: totalContentLength, showMaps: Object.fromEntries(showMaps) };
+    let repeats: DailyRepeatsMap | undefined;
+    if (repeatShowMaps.size > 0) {
+        const { contentLength, etag } = await write(repeatChunks, v => statsBlobs.put(computeDailyRepeatsKey(date, partition), v));
+        repeats = { etag, contentLength, showMaps: Object.fromEntries(repeatShowMaps) };
+    }
+    const map: DailyDownloadsMap = { date, hourlyMode, etag, contentLength: totalContentLength, showMaps: Object.fromEntries(showMaps), repeats };
     await statsBlobs.put(computeDailyMapKey(date, partition), JSON.stringify(map));
     const showSizes = Object.fromEntries(sortBy([...showMaps].map(([ showUuid, v ]) => ([ showUuid, v.contentLength ])), v => v[1] as number).reverse());
-    return { date, millis: Date.now() - start, hours, rows, contentLength: totalContentLength, showSizes, parts, multiputParts, multipartMode, partitionShowUuid };
+    return { date, hourlyMode, millis: Date.now() - start, hours, rows, repeats: repeatRowIndex, botRulesVersion: botRuleSet.version, contentLength: totalContentLength, showSizes, parts, multiputParts, multipartMode, partitionShowUuid };
 }
 
-// phase 4: for a set of shows, write out show daily downloads, one per show (partitioned)
-export type ComputeShowDailyDownloadsRequest = { date: string, mode: 'include' | 'exclude', showUuids: string[], partition?: string, partitions: Record<string, string> };
+// phase 4: for a set of shows, write out show daily downloads and repeats, one of each per show (partitioned)
+export type ComputeShowDailyDownloadsRequest = { date: string, mode: 'include' | 'exclude', showUuids: string[], partition?: string, partitions: Record<string, string>, hourlyMode?: HourlyDownloadsMode };
 
 export function tryParseComputeShowDailyDownloadsRequest({ operationKind, targetPath, parameters }: { operationKind: string, targetPath: string, parameters?: Record<string, string> }): ComputeShowDailyDownloadsRequest | undefined {
     if (targetPath === '/work/compute-show-daily-downloads' && operationKind === 'update' && parameters) {
-        const { date, partition, partitions: packedPartitions } = parameters;
+        const { date, partition, partitions: packedPartitions, mode: hourlyMode = 'hourly' } = parameters;
         check('date', date, isValidDate);
         const { mode, showUuids } = parseIncludeExclude(parameters);
         if (partition !== undefined) check('partition', partition, isValidPartition);
+        if (!isHourlyDownloadsMode(hourlyMode)) throw new Error(`Bad mode: ${hourlyMode}`);
         const partitions = unpackPartitions(packedPartitions);
-        return { date, mode, showUuids, partition, partitions };
+        return { date, mode, showUuids, partition, partitions, hourlyMode };
     }
 }
 
-export async function computeShowDailyDownloads({ date, mode, showUuids, partition, partitions }: ComputeShowDailyDownloadsRequest, statsBlobs: Blobs) {
+export async function computeShowDailyDownloads({ date, mode, showUuids, partition, partitions, hourlyMode = 'hourly' }: ComputeShowDailyDownloadsRequest, statsBlobs: Blobs) {
     const start = Date.now();
     if (!isValidDate(date)) throw new Error(`Bad date: ${date}`);
     showUuids = checkIncludeExclude(mode, showUuids);
@@ -428,57 +515,16 @@ export async function computeShowDailyDownloads({ date, mode, showUuids, partiti
     const mapText = await statsBlobs.get(computeDailyMapKey(date, partition), 'text');
     if (!mapText) throw new Error(`No daily downloads map for ${date}`);
     const map = JSON.parse(mapText) as DailyDownloadsMap;
+    if ((map.hourlyMode ?? 'hourly') !== hourlyMode) throw new Error(`Daily downloads for ${date} were computed in ${map.hourlyMode ?? 'hourly'} mode, not ${hourlyMode}`);
 
-    if (mode === 'exclude') {
-        showUuids = Object.keys(map.showMaps).filter(v => !showUuids.includes(v));
+    const selectShowUuids = (showMaps: Record<string, ShowMap>) => mode === 'exclude' ? Object.keys(showMaps).filter(v => !showUuids.includes(v)) : showUuids;
+    const selectedShowUuids = selectShowUuids(map.showMaps);
+    await splitDailyBlob({ key: computeDailyKey(date, partition), etag: map.etag, showMaps: map.showMaps, showUuids: selectedShowUuids, partitionShowUuid, statsBlobs, computeShowKey: showUuid => computeShowDailyKey({ date, showUuid }) });
+    if (map.repeats) {
+        await splitDailyBlob({ key: computeDailyRepeatsKey(date, partition), etag: map.repeats.etag, showMaps: map.repeats.showMaps, showUuids: selectShowUuids(map.repeats.showMaps), partitionShowUuid, statsBlobs, computeShowKey: showUuid => computeShowDailyRepeatsKey({ date, showUuid }) });
     }
 
-    const stream = await statsBlobs.get(computeDailyKey(date, partition), 'stream', { ifMatch: map.etag });
-    if (!stream) throw new Error(`No daily downloads for ${date}`);
-
-    const indexToShowUuids = new Map<number, string[]>();
-    for (const [ showUuid, showMap ] of Object.entries(map.showMaps)) {
-        if (!showUuids.includes(showUuid)) continue;
-        for (const index of showMap.rowIndexes) {
-            let showUuids = indexToShowUuids.get(index);
-            if (!showUuids) {
-                showUuids = [];
-                indexToShowUuids.set(index, showUuids);
-            }
-            showUuids.push(showUuid);
-        }
-    }
-
-    const newline = new Uint8Array([ '\n'.charCodeAt(0) ]);
-    const allChunks = stream.pipeThrough(new DelimiterStream(newline));
-    let index = 0;
-    const showChunks: Record<string, Uint8Array[]> = {};
-    const expectedChunkStart = new TextEncoder().encode('202'); // take this out before 2030 :)
-    for await (const chunk of allChunks) {
-        if (index > 0 && chunk.length > 0 && !byteArrayStartsWith(chunk, expectedChunkStart)) throw new Error('[' + new TextDecoder().decode(chunk) + ']'); // ensure first char is not dropped, as found in https://github.com/denoland/deno_std/issues/3609
-        const showUuids = partitionShowUuid ? [ partitionShowUuid ] : indexToShowUuids.get(index);
-        if (showUuids) {
-            const chunkWithNewline = concatByteArrays(chunk, newline);
-            for (const showUuid of showUuids) {
-                let chunks = showChunks[showUuid];
-                if (!chunks) {
-                    chunks = [];
-                    showChunks[showUuid] = chunks;
-                }
-                chunks.push(chunkWithNewline);
-            }
-        }
-        index++;
-    }
-
-    await Promise.all(Object.entries(showChunks).map(([ showUuid, chunks ]) => write(chunks, v => {
-        const showMap = map.showMaps[showUuid];
-        const expectedRows = showMap === undefined ? 2 /* header + empty line? */ : typeof showMap.allRows === 'number' ? showMap.allRows : showMap.rowIndexes.length;
-        if (expectedRows !== chunks.length) throw new Error(`Expected ${expectedRows} rows for show ${showUuid}, found ${chunks.length}`);
-        return statsBlobs.put(computeShowDailyKey({ date, showUuid }), v);
-    })));
-
-    return { date, mode, showUuids, partitionShowUuid, millis: Date.now() - start };
+    return { date, mode, hourlyMode, showUuids: selectedShowUuids, partitionShowUuid, repeats: map.repeats !== undefined, millis: Date.now() - start };
 }
 
 export function computeShowDailyKey({ date, showUuid }: { date: string, showUuid: string }): string {
@@ -495,8 +541,16 @@ export function computeShowDailyKeyPrefix({ showUuid, datePart }: { showUuid: st
    return datePart ? `downloads/show-daily/${showUuid}/${showUuid}-${datePart}` : `downloads/show-daily/${showUuid}/`;
 }
 
-export function computeHourlyKey(hour: string): string {
-    return `downloads/hourly/${hour}.tsv`;
+export function computeShowDailyRepeatsKey({ date, showUuid }: { date: string, showUuid: string }): string {
+    return `downloads/show-daily-repeats/${showUuid}/${showUuid}-${date}.tsv`;
+}
+
+export function computeShowDailyRepeatsKeyPrefix({ showUuid, datePart }: { showUuid: string, datePart?: string }): string {
+   return datePart ? `downloads/show-daily-repeats/${showUuid}/${showUuid}-${datePart}` : `downloads/show-daily-repeats/${showUuid}/`;
+}
+
+export function computeHourlyKey(hour: string, mode: HourlyDownloadsMode = 'hourly'): string {
+    return mode === 'rolling-24h' ? `downloads/hourly-rolling-24h/${hour}.tsv` : `downloads/hourly/${hour}.tsv`;
 }
 
 export function fastHex(bytes: Uint8Array): string {
@@ -524,6 +578,14 @@ export function packPartitions(partitions: Record<string, string>): string {
 
 interface DailyDownloadsMap {
     readonly date: string;
+    readonly hourlyMode?: HourlyDownloadsMode; // undefined for maps saved before modes, always 'hourly'
+    readonly contentLength: number;
+    readonly etag: string;
+    readonly showMaps: Record<string, ShowMap>;
+    readonly repeats?: DailyRepeatsMap; // undefined if no included show had repeats that day
+}
+
+interface DailyRepeatsMap {
     readonly contentLength: number;
     readonly etag: string;
     readonly showMaps: Record<string, ShowMap>;
@@ -539,12 +601,108 @@ interface ShowMap {
 
 const hexDigits = [...Array(0x100).keys()].map(v => v.toString(16).padStart(2, '0'));
 
-function computeHourlyShowColumnKey(hour: string, partition: string | undefined) {
-    return `downloads/hourly/${hour}.show-column${typeof partition === 'string' ? `.${partition}` : ''}.txt`;
+const ROLLING_WINDOW_HOURS = 24;
+const ROLLING_WINDOW_MILLIS = ROLLING_WINDOW_HOURS * 60 * 60 * 1000;
+
+function computeHourlyShowColumnKey(hour: string, partition: string | undefined, mode: HourlyDownloadsMode) {
+    return `downloads/${computeHourlyDir(mode)}/${hour}.show-column${typeof partition === 'string' ? `.${partition}` : ''}.txt`;
 }
 
-function computeHourlyDownloadHashesKey(hour: string, partition: string | undefined) {
-    return `downloads/hourly/${hour}.hashes${typeof partition === 'string' ? `.${partition}` : ''}.txt`;
+function computeSessionKey({ destinationServerUrl, ulid, xpsId }: { destinationServerUrl: string, ulid: string | undefined, xpsId: string | undefined }): string | undefined {
+    if (typeof ulid === 'string' && ulid !== '') return `${destinationServerUrl}|ulid:${ulid}`;
+    if (typeof xpsId === 'string' && xpsId !== '') return `${destinationServerUrl}|xps:${xpsId}`;
+}
+
+function computeHourlySessionsKey(hour: string, mode: HourlyDownloadsMode) {
+    return `downloads/${computeHourlyDir(mode)}/${hour}.sessions.txt`;
+}
+
+function computeHourlyDir(mode: HourlyDownloadsMode) {
+    return mode === 'rolling-24h' ? 'hourly-rolling-24h' : 'hourly';
+}
+
+async function loadHourlySessions(hour: string, mode: HourlyDownloadsMode, statsBlobs: Blobs): Promise<Map<string, string>> {
+    const rt = new Map<string, string>();
+    const previousHour = addHours(`${hour}:00:00.000Z`, -1).toISOString().substring(0, 13);
+    const stream = await statsBlobs.get(computeHourlySessionsKey(previousHour, mode), 'stream');
+    if (!stream) return rt; // first run, or a gap: start fresh
+    for await (const line of computeLinestream(stream)) {
+        if (line.length === 0) continue;
+        const [ sessionHash, downloadHash ] = line.split('\t');
+        rt.set(sessionHash, downloadHash);
+    }
+    return rt;
+}
+
+async function saveHourlySessions(hour: string, mode: HourlyDownloadsMode, { sessions, continuedSessions, statsBlobs }: { sessions: Map<string, string>, continuedSessions: Map<string, string>, statsBlobs: Blobs }) {
+    // only sessions active in this hour are carried forward, so a session stays stitched across hour boundaries for as long as it keeps making requests
+    const encoder = new TextEncoder();
+    const lines: Uint8Array[] = [];
+    for (const [ sessionKey, download ] of sessions) {
+        lines.push(encoder.encode(`${await computeSha1Hex(sessionKey)}\t${await computeSha1Hex(download)}\n`));
+    }
+    for (const [ sessionHash, downloadHash ] of continuedSessions) {
+        lines.push(encoder.encode(`${sessionHash}\t${downloadHash}\n`));
+    }
+    return await write(lines, v => statsBlobs.put(computeHourlySessionsKey(hour, mode), v));
+}
+
+function addTagToLine(line: string, tag: string): string {
+    // tags is the last column
+    const prefix = line.endsWith('\n') ? line.substring(0, line.length - 1) : line;
+    return `${prefix}${prefix.endsWith('\t') ? '' : ','}${tag}\n`;
+}
+
+function computeRollingFirstCountedKey(hour: string) {
+    return `downloads/hourly-rolling-24h/${hour}.first-counted.txt`;
+}
+
+async function computeSha1Hex(value: string): Promise<string> {
+    return fastHex(new Uint8Array(await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value))));
+}
+
+async function removeRollingDuplicates(hour: string, { downloads, chunks, statsBlobs }: { downloads: Record<string, { chunkIndex?: number, time?: string }>, chunks: Uint8Array[], statsBlobs: Blobs }) {
+    // only this hour's downloads are held in memory, prior hours are streamed one file at a time
+    const downloadsByHash = new Map<string, string>(); // download hash -> download
+    for (const download of Object.keys(downloads)) {
+        downloadsByHash.set(await computeSha1Hex(download), download);
+    }
+    let rollingHoursFound = 0;
+    let rollingDuplicates = 0;
+    for (let i = 1; i <= ROLLING_WINDOW_HOURS; i++) {
+        const previousHour = addHours(`${hour}:00:00.000Z`, -i).toISOString().substring(0, 13);
+        const stream = await statsBlobs.get(computeRollingFirstCountedKey(previousHour), 'stream');
+        if (!stream) continue; // first rolling runs, or a gap
+        rollingHoursFound++;
+        for await (const line of computeLinestream(stream)) {
+            if (line.length === 0) continue;
+            const [ hash, firstTime ] = line.split('\t');
+            const download = downloadsByHash.get(hash);
+            if (download === undefined) continue;
+            const { chunkIndex, time } = downloads[download];
+            if (time && Date.parse(time) - Date.parse(firstTime) < ROLLING_WINDOW_MILLIS) {
+                // already counted within the last 24 hours (in a prior hour), ignore
+                if (typeof chunkIndex === 'number') chunks[chunkIndex] = new Uint8Array();
+                delete downloads[download];
+                downloadsByHash.delete(hash);
+                rollingDuplicates++;
+            }
+        }
+    }
+
+    // save what remains: the downloads first counted in this hour
+    const encoder = new TextEncoder();
+    const lines: Uint8Array[] = [];
+    for (const [ hash, download ] of downloadsByHash) {
+        const { time } = downloads[download];
+        if (time) lines.push(encoder.encode(`${hash}\t${time}\n`));
+    }
+    const { contentLength: rollingContentLength } = await write(lines, v => statsBlobs.put(computeRollingFirstCountedKey(hour), v));
+    return { rollingHoursFound, rollingDuplicates, rollingFirstCounted: lines.length, rollingContentLength };
+}
+
+function computeHourlyDownloadHashesKey(hour: string, partition: string | undefined, mode: HourlyDownloadsMode) {
+    return `downloads/${computeHourlyDir(mode)}/${hour}.hashes${typeof partition === 'string' ? `.${partition}` : ''}.txt`;
 }
 
 function computeDailyKey(date: string, partition: string | undefined): string {
@@ -555,6 +713,71 @@ function computeDailyMapKey(date: string, partition: string | undefined): string
     return `downloads/daily/${date}${typeof partition === 'string' ? `.${partition}` : ''}.map.json`;
 }
 
+function computeDailyRepeatsKey(date: string, partition: string | undefined): string {
+    return `downloads/daily/${date}${typeof partition === 'string' ? `.${partition}` : ''}.repeats.tsv`;
+}
+
+function addRowToShowMap(showMaps: Map<string, ShowMap>, { showUuid, rowIndex, chunk, headerChunk, partitionShowUuid }: { showUuid: string, rowIndex: number, chunk: Uint8Array, headerChunk: Uint8Array, partitionShowUuid: string | undefined }) {
+    let showMap = showMaps.get(showUuid);
+    if (!showMap) {
+        showMap = { rowIndexes: [ 0 ], contentLength: headerChunk.length }; // header row
+        showMaps.set(showUuid, showMap);
+    }
+    if (partitionShowUuid === showUuid) {
+        showMap.allRows = (showMap.allRows ?? 2) + 1;
+    } else {
+        showMap.rowIndexes.push(rowIndex);
+    }
+    showMap.contentLength += chunk.length;
+}
+
+async function splitDailyBlob({ key, etag, showMaps, showUuids, partitionShowUuid, statsBlobs, computeShowKey }: { key: string, etag: string, showMaps: Record<string, ShowMap>, showUuids: string[], partitionShowUuid: string | undefined, statsBlobs: Blobs, computeShowKey: (showUuid: string) => string }) {
+    const stream = await statsBlobs.get(key, 'stream', { ifMatch: etag });
+    if (!stream) throw new Error(`No daily blob for ${key}`);
+
+    const indexToShowUuids = new Map<number, string[]>();
+    for (const [ showUuid, showMap ] of Object.entries(showMaps)) {
+        if (!showUuids.includes(showUuid)) continue;
+        for (const index of showMap.rowIndexes) {
+            let showUuids = indexToShowUuids.get(index);
+            if (!showUuids) {
+                showUuids = [];
+                indexToShowUuids.set(index, showUuids);
+            }
+            showUuids.push(showUuid);
+        }
+    }
+
+    const newline = new Uint8Array([ '\n'.charCodeAt(0) ]);
+    const allChunks = stream.pipeThrough(new DelimiterStream(newline));
+    let index = 0;
+    const showChunks: Record<string, Uint8Array[]> = {};
+    const expectedChunkStart = new TextEncoder().encode('202'); // take this out before 2030 :)
+    for await (const chunk of allChunks) {
+        if (index > 0 && chunk.length > 0 && !byteArrayStartsWith(chunk, expectedChunkStart)) throw new Error('[' + new TextDecoder().decode(chunk) + ']'); // ensure first char is not dropped, as found in https://github.com/denoland/deno_std/issues/3609
+        const showUuids = partitionShowUuid ? [ partitionShowUuid ] : indexToShowUuids.get(index);
+        if (showUuids) {
+            const chunkWithNewline = concatByteArrays(chunk, newline);
+            for (const showUuid of showUuids) {
+                let chunks = showChunks[showUuid];
+                if (!chunks) {
+                    chunks = [];
+                    showChunks[showUuid] = chunks;
+                }
+                chunks.push(chunkWithNewline);
+            }
+        }
+        index++;
+    }
+
+    await Promise.all(Object.entries(showChunks).map(([ showUuid, chunks ]) => write(chunks, v => {
+        const showMap = showMaps[showUuid];
+        const expectedRows = showMap === undefined ? 2 /* header + empty line? */ : typeof showMap.allRows === 'number' ? showMap.allRows : showMap.rowIndexes.length;
+        if (expectedRows !== chunks.length) throw new Error(`Expected ${expectedRows} rows for show ${showUuid}, found ${chunks.length}`);
+        return statsBlobs.put(computeShowKey(showUuid), v);
+    })));
+}
+
 async function write(chunks: Uint8Array[], put: (stream: ReadableStream) => Promise<{ etag: string }>): Promise<{ contentLength: number, etag: string }> {
     const contentLength = chunks.reduce((a, b) => a + b.byteLength, 0);
 
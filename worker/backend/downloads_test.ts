@@ -1,11 +1,12 @@
+import { tryParseUlid } from '../client_params.ts';
 import { Bytes } from '../deps.ts';
 import { packHashedIpAddress } from '../ip_addresses.ts';
 import { StubRpcClient } from '../rpc_clients.ts';
 import { PackedRedirectLogsResponse, QueryPackedRedirectLogsRequest, Unkinded } from '../rpc_model.ts';
-import { assertEquals, fail } from '../tests/deps.ts';
+import { assert, assertEquals, assertRejects, fail } from '../tests/deps.ts';
 import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
 import { AttNums } from './att_nums.ts';
-import { computeHourlyDownloads, computeHourlyKey, fastHex } from './downloads.ts';
+import { computeDailyDownloads, computeHourlyDownloads, computeHourlyKey, computeHourlyShowColumns, computeShowDailyDownloads, computeShowDailyKey, computeShowDailyRepeatsKey, fastHex } from './downloads.ts';
 import { TimestampSequence, unpackTimestampId } from './timestamp_sequence.ts';
 
 Deno.test({
@@ -60,20 +61,233 @@ Deno.test({
         const serverUrlIndex = headers.indexOf('serverUrl');
         const tagsIndex = headers.indexOf('tags');
         const countryCodeIndex = headers.indexOf('countryCode');
+        const rangesIndex = headers.indexOf('ranges');
+
+        assertEquals(lines[1].split('\t')[rangesIndex], '0-'); // no range header
 
         const firstTwoOverridden = lines[3].split('\t');
         assertEquals(firstTwoOverridden[serverUrlIndex], 'https://a.com/2.mp3');
         assertEquals(firstTwoOverridden[tagsIndex], '');
+        assertEquals(firstTwoOverridden[rangesIndex], '0-10');
 
         const firstTwo = lines[4].split('\t');
         assertEquals(firstTwo[serverUrlIndex], 'https://a.com/3.mp3');
         assertEquals(firstTwo[tagsIndex], 'first-two');
+        assertEquals(firstTwo[rangesIndex], '0-1');
 
         assertEquals(lines[6].split('\t')[countryCodeIndex], '');  // geoatts cleared
         assertEquals(lines[7].split('\t')[countryCodeIndex], 'US');  // geoatts maintained
     }
 });
 
+Deno.test({
+    name: 'computeHourlyDownloads rolling-24h',
+    fn: async () => {
+        FixedLengthStream.register();
+        const statsBlobs = new InMemoryBlobs();
+        const rpcClient = newHitsRpcClient({
+            '2023-01-06T00:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1' }, { url: 'https://a.com/2.mp3', ipAddress: '0.2' } ],
+            '2023-01-06T01:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1' }, { url: 'https://a.com/3.mp3', ipAddress: '0.3' } ], // 1.mp3 counted in the prior hour
+            '2023-01-07T00:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1' } ], // 24 hours later, counts again
+        });
+        const opts = { statsBlobs, rpcClient, maxHits: 1000, maxQueries: 10, querySize: 100, mode: 'rolling-24h' as const };
+
+        const res1 = await computeHourlyDownloads('2023-01-06T00', opts);
+        assertEquals(res1.downloads, 2);
+        assertEquals(res1.rollingHoursFound, 0);
+        assertEquals(res1.rollingFirstCounted, 2);
+        assertEquals(await statsBlobs.has(computeHourlyKey('2023-01-06T00')), false); // canonical hourly blob untouched
+        assert(await statsBlobs.has(computeHourlyKey('2023-01-06T00', 'rolling-24h')));
+
+        const res2 = await computeHourlyDownloads('2023-01-06T01', opts);
+        assertEquals(res2.downloads, 1);
+        assertEquals(res2.rollingHoursFound, 1);
+        assertEquals(res2.rollingDuplicates, 1);
+        assertEquals(res2.rollingFirstCounted, 1);
+        const text = await statsBlobs.get(computeHourlyKey('2023-01-06T01', 'rolling-24h'), 'text');
+        assertEquals(text?.split('\n').filter(v => v !== '').length, 2); // header + 3.mp3
+
+        for (let hour = 2; hour <= 23; hour++) {
+            await computeHourlyDownloads(`2023-01-06T${hour.toString().padStart(2, '0')}`, opts);
+        }
+        const res3 = await computeHourlyDownloads('2023-01-07T00', opts);
+        assertEquals(res3.downloads, 1);
+        assertEquals(res3.rollingHoursFound, 24);
+        assertEquals(res3.rollingDuplicates, 0);
+
+        // default mode is unaffected
+        const res4 = await computeHourlyDownloads('2023-01-06T01', { ...opts, mode: 'hourly' });
+        assertEquals(res4.downloads, 2);
+        assertEquals(res4.rollingDuplicates, undefined);
+    }
+});
+
+Deno.test({
+    name: 'computeHourlyDownloads session stitching',
+    fn: async () => {
+        FixedLengthStream.register();
+        const statsBlobs = new InMemoryBlobs();
+        const hour = '2023-01-06T00';
+        const rpcClient = newHitsRpcClient({
+            '2023-01-06T00:00:00.000Z': [
+                { url: 'https://a.com/1.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.1' },
+                { url: 'https://a.com/1.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.9' }, // wifi -> cellular, same ulid: stitched
+                { url: 'https://a.com/1.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.10' }, // stitched again, still one download
+                { url: 'https://a.com/2.mp3', ipAddress: '0.2', xpsId: 'x1' },
+                { url: 'https://a.com/2.mp3', ipAddress: '0.8', xpsId: 'x1' }, // same xpsId: stitched
+                { url: 'https://a.com/3.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.3' }, // same ulid, different url: not stitched
+                { url: 'https://a.com/4.mp3', ipAddress: '0.4' },
+                { url: 'https://a.com/4.mp3', ipAddress: '0.5' }, // no session id: separate downloads
+                { url: 'https://a.com/5.mp3', ipAddress: '0.6', xpsId: 'x2', range: 'bytes=0-1' },
+                { url: 'https://a.com/5.mp3', ipAddress: '0.7', xpsId: 'x2' }, // stitched to a first-two download, supersedes it
+                { url: 'https://a.com/5.mp3', ipAddress: '0.6', xpsId: 'x2', range: 'bytes=0-100' }, // stitched to the superseding download
+            ],
+            '2023-01-06T01:00:00.000Z': [
+                { url: 'https://a.com/1.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.11' }, // same session as the previous hour: stitched
+                { url: 'https://a.com/6.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.11' }, // new session
+            ],
+            '2023-01-06T02:00:00.000Z': [
+                { url: 'https://a.com/1.mp3?_ulid=01H0000000000000000000000A', ipAddress: '0.12' }, // session still active: stitched
+                { url: 'https://a.com/2.mp3', ipAddress: '0.12', xpsId: 'x1' }, // session inactive in the previous hour: counted
+            ],
+        });
+        const opts = { statsBlobs, rpcClient, maxHits: 1000, maxQueries: 10, querySize: 100 };
+        const res = await computeHourlyDownloads(hour, opts);
+        assertEquals(res.downloads, 6);
+        assertEquals(res.sessionStitched, 5);
+
+        const text = await statsBlobs.get(computeHourlyKey(hour), 'text');
+        if (!text) fail('no downloads blob');
+        const [ headerLine, ...lines ] = text.split('\n').filter(v => v !== '');
+        const headers = headerLine.split('\t');
+        const rows = lines.map(v => Object.fromEntries(v.split('\t').map((v, i) => [ headers[i], v ])));
+        assertEquals(rows.map(v => [ v.serverUrl, v.tags ]), [
+            [ 'https://a.com/1.mp3', 'session-stitched' ],
+            [ 'https://a.com/2.mp3', 'streaming,session-stitched' ],
+            [ 'https://a.com/3.mp3', '' ],
+            [ 'https://a.com/4.mp3', '' ],
+            [ 'https://a.com/4.mp3', '' ],
+            [ 'https://a.com/5.mp3', 'streaming,session-stitched' ],
+        ]);
+        assertEquals(rows[5].ranges, '0-'); // the probe's bytes=0-1 and the larger requests
+
+        const res2 = await computeHourlyDownloads('2023-01-06T01', opts);
+        assertEquals(res2.sessionsPreloaded, 4);
+        assertEquals(res2.sessionStitchedPrevious, 1);
+        assertEquals(res2.downloads, 1);
+
+        const res3 = await computeHourlyDownloads('2023-01-06T02', opts);
+        assertEquals(res3.sessionStitchedPrevious, 1);
+        assertEquals(res3.downloads, 1);
+    }
+});
+
+Deno.test({
+    name: 'computeDailyDownloads variant column',
+    fn: async () => {
+        const date = '2023-01-06';
+        const statsBlobs = new InMemoryBlobs();
+        const showUuid = '9c1a0e2a4f6b4e4f8a3b2d1c0e9f8a7b';
+        const rows = [
+            [ 'time', 'serverUrl', 'audienceId', 'agentType' ],
+            [ '2023-01-06T00:00:01.000Z', 'https://a.com/ep1.mp3', 'aud1', 'app' ],
+            [ '2023-01-06T00:00:02.000Z', 'https://a.com/ep1.aac', 'aud2', 'app' ],
+            [ '2023-01-06T00:00:03.000Z', 'https://a.com/other.mp3', 'aud3', 'app' ],
+        ];
+        await statsBlobs.put(computeHourlyKey(`${date}T00`), rows.map(v => v.join('\t') + '\n').join(''));
+        const lookupShow = async (url: string) => {
+            await Promise.resolve();
+            return url === 'https://a.com/ep1.mp3' ? { showUuid, episodeId: 'ep1' }
+                : url === 'https://a.com/ep1.aac' ? { showUuid, episodeId: 'ep1', variant: 'audio/aac 64kbps' }
+                : undefined;
+        };
+        const columns = await computeHourlyShowColumns({ date, statsBlobs, lookupShow, partitions: {} });
+        assertEquals(columns.downloads, 3);
+        await computeDailyDownloads({ date, mode: 'include', showUuids: [ showUuid ], multipartMode: 'bytes', partSizeMb: 20 }, { statsBlobs, partitions: {} });
+        const daily = await statsBlobs.get(`downloads/daily/${date}.tsv`, 'text');
+        if (!daily) fail('no daily blob');
+        const [ header, ...lines ] = daily.split('\n').filter(v => v !== '').map(v => v.split('\t'));
+        const variantIndex = header.indexOf('variant');
+        const episodeIdIndex = header.indexOf('episodeId');
+        assert(variantIndex > 0);
+        assertEquals(lines.map(v => [ v[episodeIdIndex], v[variantIndex] ]), [ [ 'ep1', '' ], [ 'ep1', 'audio/aac 64kbps' ], [ '', '' ] ]);
+    }
+});
+
+Deno.test({
+    name: 'rolling-24h downloads through to show daily',
+    fn: async () => {
+        FixedLengthStream.register();
+        const showUuid = '9c1a0e2a4f6b4e4f8a3b2d1c0e9f8a7b';
+        const rpcClient = newHitsRpcClient({
+            '2023-01-06T23:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1' } ],
+            '2023-01-07T00:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1' }, { url: 'https://a.com/2.mp3', ipAddress: '0.2' } ], // 1.mp3 already counted the day before
+        });
+        const lookupShow = async (url: string) => {
+            await Promise.resolve();
+            const m = /^https:\/\/a\.com\/(\d)\.mp3$/.exec(url);
+            return m ? { showUuid, episodeId: `ep${m[1]}` } : undefined;
+        };
+        const computeShowDailyEpisodeIds = async (mode: 'hourly' | 'rolling-24h') => {
+            const statsBlobs = new InMemoryBlobs();
+            for (const hour of [ '2023-01-06T23', '2023-01-07T00' ]) {
+                await computeHourlyDownloads(hour, { statsBlobs, rpcClient, maxHits: 1000, maxQueries: 10, querySize: 100, mode });
+            }
+            const date = '2023-01-07';
+            await computeHourlyShowColumns({ date, statsBlobs, lookupShow, partitions: {}, mode });
+            await computeDailyDownloads({ date, mode: 'include', showUuids: [ showUuid ], multipartMode: 'bytes', partSizeMb: 20, hourlyMode: mode }, { statsBlobs, partitions: {} });
+            await computeShowDailyDownloads({ date, mode: 'include', showUuids: [ showUuid ], partitions: {}, hourlyMode: mode }, statsBlobs);
+            const text = await statsBlobs.get(computeShowDailyKey({ date, showUuid }), 'text');
+            if (!text) fail('no show daily blob');
+            const [ header, ...lines ] = text.split('\n').filter(v => v !== '').map(v => v.split('\t'));
+            return { statsBlobs, episodeIds: lines.map(v => v[header.indexOf('episodeId')]) };
+        };
+
+        assertEquals((await computeShowDailyEpisodeIds('hourly')).episodeIds, [ 'ep1', 'ep2' ]);
+        const { statsBlobs, episodeIds } = await computeShowDailyEpisodeIds('rolling-24h');
+        assertEquals(episodeIds, [ 'ep2' ]);
+
+        // later phases refuse to mix modes
+        await assertRejects(() => computeShowDailyDownloads({ date: '2023-01-07', mode: 'include', showUuids: [ showUuid ], partitions: {} }, statsBlobs), Error, 'rolling-24h mode');
+    }
+});
+
+Deno.test({
+    name: 'repeats through to show daily repeats',
+    fn: async () => {
+        FixedLengthStream.register();
+        const showUuid = '9c1a0e2a4f6b4e4f8a3b2d1c0e9f8a7b';
+        const rpcClient = newHitsRpcClient({
+            '2023-01-07T00:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1', range: 'bytes=0-99' } ],
+            '2023-01-07T01:00:00.000Z': [ { url: 'https://a.com/1.mp3', ipAddress: '0.1', range: 'bytes=500-599' }, { url: 'https://a.com/1.mp3', ipAddress: '0.2', range: 'bytes=0-9' } ], // 0.1 already counted the hour before
+        });
+        const lookupShow = async (url: string) => {
+            await Promise.resolve();
+            return url === 'https://a.com/1.mp3' ? { showUuid, episodeId: 'ep1' } : undefined;
+        };
+        const statsBlobs = new InMemoryBlobs();
+        for (const hour of [ '2023-01-07T00', '2023-01-07T01' ]) {
+            await computeHourlyDownloads(hour, { statsBlobs, rpcClient, maxHits: 1000, maxQueries: 10, querySize: 100 });
+        }
+        const date = '2023-01-07';
+        await computeHourlyShowColumns({ date, statsBlobs, lookupShow, partitions: {} });
+        const { repeats } = await computeDailyDownloads({ date, mode: 'include', showUuids: [ showUuid ], multipartMode: 'bytes', partSizeMb: 20 }, { statsBlobs, partitions: {} });
+        assertEquals(repeats, 1);
+        await computeShowDailyDownloads({ date, mode: 'include', showUuids: [ showUuid ], partitions: {} }, statsBlobs);
+
+        const readRows = async (key: string) => {
+            const text = await statsBlobs.get(key, 'text');
+            if (!text) fail(`no ${key}`);
+            const [ header, ...lines ] = text.split('\n').filter(v => v !== '').map(v => v.split('\t'));
+            return lines.map(v => Object.fromEntries(header.map((name, i) => [ name, v[i] ])));
+        };
+        // the later request is not a download, but its ranges are kept alongside
+        assertEquals((await readRows(computeShowDailyKey({ date, showUuid }))).map(v => v.ranges), [ '0-99', '0-9' ]);
+        const repeatRows = await readRows(computeShowDailyRepeatsKey({ date, showUuid }));
+        assertEquals(repeatRows.map(v => [ v.episodeId, v.showUuid, v.ranges ]), [ [ 'ep1', showUuid, '500-599' ] ]);
+    }
+});
+
 Deno.test({
     name: 'fastHex',
     fn: () => {
@@ -92,6 +306,27 @@ Deno.test({
 
 //
 
+function newHitsRpcClient(hitsByStartInstant: Record<string, { url: string, ipAddress: string, range?: string, xpsId?: string }[]>): StubRpcClient {
+    return new class extends StubRpcClient {
+        async queryPackedRedirectLogs(request: Unkinded<QueryPackedRedirectLogsRequest>, target: string): Promise<PackedRedirectLogsResponse> {
+            await Promise.resolve();
+            const { startTimeInclusive } = request;
+            if (target !== 'combined-redirect-log' || startTimeInclusive === undefined) return await super.queryPackedRedirectLogs(request, target);
+            const seq = new TimestampSequence(3);
+            const attNums = new AttNums();
+            const records: Record<string, string> = {};
+            for (const { url, ipAddress, range = '', xpsId } of hitsByStartInstant[startTimeInclusive] ?? []) {
+                const timestampId = seq.next(() => Date.parse(startTimeInclusive) + 1000);
+                const { timestamp } = unpackTimestampId(timestampId);
+                const hashedIpAddress = packHashedIpAddress('1', Bytes.ofUtf8(ipAddress));
+                const ulid = tryParseUlid(url);
+                records[timestampId] = attNums.packRecord({ method: 'GET', range, url, hashedIpAddress, userAgent: 'test-agent', timestamp, ...(ulid ? { ulid } : {}), ...(xpsId ? { xpsId } : {}) });
+            }
+            return { kind: 'packed-redirect-logs', namesToNums: attNums.toJson(), records };
+        }
+    }
+}
+
 class FixedLengthStream {
     // deno-lint-ignore no-explicit-any
     readonly readable: ReadableStream<any>;
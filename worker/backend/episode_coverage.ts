@@ -0,0 +1,117 @@
+import { check, isStringRecord, isValidMonth } from '../check.ts';
+import { ByteRange, computeCoveredBytes, tryUnpackByteRanges, unionByteRanges } from '../range_header.ts';
+import { yieldTsvFromStream } from '../streams.ts';
+import { isValidUuid } from '../uuid.ts';
+import { Blobs } from './blobs.ts';
+import { computeShowDailyKeyPrefix, computeShowDailyRepeatsKeyPrefix } from './downloads.ts';
+
+export async function recomputeEpisodeCoverageForMonth({ showUuid, month, enclosureLengths, statsBlobs }: { showUuid: string, month: string, enclosureLengths: Record<string, number>, statsBlobs: Blobs }): Promise<{ key: string, episodes: number }> {
+    const summary = await computeEpisodeCoverageForMonth({ showUuid, month, enclosureLengths, statsBlobs });
+    const key = computeEpisodeCoverageKey({ showUuid, period: month });
+    if (Object.keys(summary.sources).length === 0) return { key, episodes: 0 }; // no downloads this month (yet), nothing to save
+    await statsBlobs.put(key, JSON.stringify(summary));
+    return { key, episodes: Object.keys(summary.episodes).length };
+}
+
+export async function computeEpisodeCoverageForMonth({ showUuid, month, enclosureLengths, statsBlobs }: { showUuid: string, month: string, enclosureLengths: Record<string, number>, statsBlobs: Blobs }): Promise<EpisodeCoverageSummary> {
+    check('showUuid', showUuid, isValidUuid);
+    check('month', month, isValidMonth);
+
+    // union all ranges requested for a given episode by the same audience over the month
+    // download rows only carry the ranges requested in the hour each download was first counted, the repeats carry the later (non-bot) ones
+    const rangesByEpisode = new Map<string, Map<string, ByteRange[]>>();
+    const sources: Record<string, string> = {};
+    const { keys: downloadKeys } = await statsBlobs.list({ keyPrefix: computeShowDailyKeyPrefix({ showUuid, datePart: month }) });
+    const { keys: repeatKeys } = await statsBlobs.list({ keyPrefix: computeShowDailyRepeatsKeyPrefix({ showUuid, datePart: month }) });
+    for (const key of [ ...downloadKeys, ...repeatKeys ]) {
+        const result = await statsBlobs.get(key, 'stream-and-meta');
+        if (!result) continue;
+        const { stream, etag } = result;
+        for await (const { botType, episodeId, audienceId, ranges: packed } of yieldTsvFromStream(stream)) {
+            if (botType !== undefined || !episodeId || !audienceId || !packed) continue;
+            const ranges = tryUnpackByteRanges(packed);
+            if (!ranges) continue;
+            let audiences = rangesByEpisode.get(episodeId);
+            if (!audiences) {
+                audiences = new Map();
+                rangesByEpisode.set(episodeId, audiences);
+            }
+            const existing = audiences.get(audienceId);
+            audiences.set(audienceId, existing ? unionByteRanges(existing, ranges) : ranges);
+        }
+        sources[key] = etag;
+    }
+
+    const episodes: Record<string, EpisodeCoverage> = {};
+    for (const [ episodeId, audiences ] of rangesByEpisode) {
+        const enclosureLength = enclosureLengths[episodeId];
+        const distribution = Object.fromEntries(COVERAGE_BUCKETS.map(v => [ v.toString(), 0 ]));
+        const percents: number[] = [];
+        let unknownLength = 0;
+        let unknownRanges = 0;
+        for (const ranges of audiences.values()) {
+            // an open-ended request (incl. no range header) says nothing about how much was actually fetched
+            if (ranges.some(v => 'start' in v && v.end === undefined)) {
+                unknownRanges++;
+                continue;
+            }
+            const percent = computeCoveragePercent(ranges, enclosureLength);
+            if (percent === undefined) {
+                unknownLength++;
+                continue;
+            }
+            percents.push(percent);
+            distribution[computeCoverageBucket(percent).toString()]++;
+        }
+        percents.sort((a, b) => a - b);
+        const medianPercent = percents.length > 0 ? percents[Math.floor(percents.length / 2)] : undefined;
+        episodes[episodeId] = { audiences: audiences.size, unknownLength, unknownRanges, enclosureLength, medianPercent, distribution };
+    }
+    return { showUuid, period: month, episodes, sources };
+}
+
+export function computeEpisodeCoverageKey({ showUuid, period }: { showUuid: string, period: string }): string {
+    return `summaries/show/${showUuid}/${showUuid}-${period}.episode-coverage.json`;
+}
+
+//
+
+export interface EpisodeCoverageSummary {
+    readonly showUuid: string;
+    readonly period: string; // month (e.g. 2023-01)
+    readonly episodes: Record<string, EpisodeCoverage>; // episodeId -> coverage
+    readonly sources: Record<string, string>; // show-daily (or show-daily-repeats) key -> etag
+}
+
+export function isValidEpisodeCoverageSummary(obj: unknown): obj is EpisodeCoverageSummary {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && typeof obj.period === 'string'
+        && isStringRecord(obj.episodes)
+        && isStringRecord(obj.sources)
+        ;
+}
+
+export interface EpisodeCoverage {
+    readonly audiences: number; // distinct audienceIds with at least one ranged download
+    readonly unknownLength: number; // audiences that could not be estimated (no enclosure length)
+    readonly unknownRanges: number; // audiences that could not be estimated (an open-ended request, incl. no range header: bytes actually transferred are unknown)
+    readonly enclosureLength?: number; // bytes, as last seen in the feed
+    readonly medianPercent?: number; // 0-100
+    readonly distribution: Record<string, number>; // percent bucket floor (0, 10, ... 90, 100) -> audiences
+}
+
+//
+
+const COVERAGE_BUCKETS = [ 0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100 ];
+
+function computeCoveragePercent(ranges: readonly ByteRange[], enclosureLength: number | undefined): number | undefined {
+    // only called for ranges with a known end (or suffix ranges), measured against a known length
+    if (enclosureLength === undefined || enclosureLength <= 0) return undefined;
+    return Math.min(100, computeCoveredBytes(ranges, enclosureLength) * 100 / enclosureLength);
+}
+
+function computeCoverageBucket(percent: number): number {
+    // 100 is its own bucket, reserved for complete coverage
+    return percent >= 100 ? 100 : Math.floor(percent / 10) * 10;
+}
@@ -0,0 +1,35 @@
+import { assertEquals } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { generateUuid } from '../uuid.ts';
+import { computeShowDailyKey, computeShowDailyRepeatsKey } from './downloads.ts';
+import { computeEpisodeCoverageForMonth } from './episode_coverage.ts';
+
+Deno.test({
+    name: 'computeEpisodeCoverageForMonth',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const showUuid = generateUuid();
+        const rows = [
+            [ 'time', 'episodeId', 'audienceId', 'botType', 'ranges' ],
+            [ '2023-01-01T00:00:00.000Z', 'ep1', 'a1', '', '0-' ],
+            [ '2023-01-01T00:00:00.000Z', 'ep1', 'a2', '', '0-249' ],
+            [ '2023-01-01T00:00:00.000Z', 'ep1', 'a3', 'bot', '0-' ],
+            [ '2023-01-01T00:00:00.000Z', 'ep2', 'a1', '', '0-99' ],
+            [ '2023-01-01T00:00:00.000Z', 'ep1', 'a4', '', '0-999' ],
+            [ '2023-01-01T00:00:00.000Z', 'ep1', 'a5', '', '500-' ],
+        ];
+        await statsBlobs.put(computeShowDailyKey({ showUuid, date: '2023-01-01' }), rows.map(v => v.join('\t')).join('\n') + '\n');
+        await statsBlobs.put(computeShowDailyKey({ showUuid, date: '2023-01-02' }), [ rows[0], [ '2023-01-02T00:00:00.000Z', 'ep1', 'a2', '', '250-499' ] ].map(v => v.join('\t')).join('\n') + '\n');
+        // later requests for a download already counted that day, ranges only
+        await statsBlobs.put(computeShowDailyRepeatsKey({ showUuid, date: '2023-01-02' }), [ [ 'time', 'episodeId', 'audienceId', 'showUuid', 'ranges' ], [ '2023-01-02T01:00:00.000Z', 'ep1', 'a2', showUuid, '500-599' ] ].map(v => v.join('\t')).join('\n') + '\n');
+
+        const { episodes } = await computeEpisodeCoverageForMonth({ showUuid, month: '2023-01', enclosureLengths: { ep1: 1000 }, statsBlobs });
+        assertEquals(episodes.ep1.audiences, 4);
+        assertEquals(episodes.ep1.distribution['60'], 1); // a2: 0-599 of 1000 across two days, incl. a repeat
+        assertEquals(episodes.ep1.distribution['100'], 1); // a4: an explicit full range
+        assertEquals(episodes.ep1.unknownRanges, 2); // a1, a5: open-ended, actual bytes transferred unknown
+        assertEquals(episodes.ep1.medianPercent, 100);
+        assertEquals(episodes.ep2.unknownLength, 1);
+        assertEquals(episodes.ep2.medianPercent, undefined);
+    }
+});
@@ -0,0 +1,105 @@
+import { isStringRecord } from '../check.ts';
+import { addHoursToHourString, addMonthsToMonthString } from '../timestamp.ts';
+import { Blobs } from './blobs.ts';
+import { computeDailyDownloadsFromSummaries, computeShowSummaryKey, isValidShowSummary } from './show_summaries.ts';
+
+export const PACING_DAYS = [ 1, 3, 7, 30, 60 ] as const;
+
+export type PacingDays = typeof PACING_DAYS[number];
+
+export type EpisodePacingDownloads = { downloads1?: number, downloads3?: number, downloads7?: number, downloads30?: number, downloads60?: number };
+
+export interface ShowEpisodePacing {
+    readonly showUuid: string;
+    readonly lastHour?: string; // most recent hour summarized, windows ending after this are not yet elapsed
+    readonly episodes: Record<string, { firstHour: string, downloads: EpisodePacingDownloads }>; // episodeId -> pacing, only for episodes first downloaded within the lookback months
+}
+
+/** Cumulative downloads at each fixed window after an episode's first hour, left undefined until the window has fully elapsed. */
+export function computeEpisodePacingDownloads({ firstHour, hourlyDownloads, lastHour }: { firstHour: string, hourlyDownloads: Record<string, number>, lastHour: string | undefined }): EpisodePacingDownloads {
+    const rt: EpisodePacingDownloads = {};
+    if (lastHour === undefined) return rt;
+    const hours = Object.entries(hourlyDownloads).filter(v => v[0] >= firstHour);
+    for (const days of PACING_DAYS) {
+        const endHour = addHoursToHourString(firstHour, days * 24); // exclusive
+        if (endHour > addHoursToHourString(lastHour, 1)) break;
+        rt[`downloads${days}`] = hours.filter(v => v[0] < endHour).reduce((a, b) => a + b[1], 0);
+    }
+    return rt;
+}
+
+/** Percent of values below the given value, counting ties as half, rounded to the nearest integer. */
+export function computePercentileRank(value: number, values: readonly number[]): number | undefined {
+    if (values.length === 0) return undefined;
+    const below = values.filter(v => v < value).length;
+    const equal = values.filter(v => v === value).length;
+    return Math.round((below + equal / 2) / values.length * 100);
+}
+
+export function computeMedian(values: readonly number[]): number | undefined {
+    if (values.length === 0) return undefined;
+    const sorted = [ ...values ].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Elapsed values for a given window across a set of episodes. */
+export function computeWindowValues(episodes: ShowEpisodePacing['episodes'], days: PacingDays): number[] {
+    return Object.values(episodes).flatMap(v => {
+        const downloads = v.downloads[`downloads${days}`];
+        return downloads === undefined ? [] : [ downloads ];
+    });
+}
+
+/** Load pacing for episodes first downloaded within the last few months, from the overall and monthly show summaries. */
+export async function computeShowEpisodePacing({ showUuid, latestMonth, lookbackMonths, statsBlobs }: { showUuid: string, latestMonth: string, lookbackMonths: number, statsBlobs: Blobs }): Promise<ShowEpisodePacing | undefined> {
+    const months = [ ...Array(lookbackMonths + 1).keys() ].reverse().map(v => addMonthsToMonthString(latestMonth, -v));
+    const [ overall, monthSummaries ] = await Promise.all([
+        statsBlobs.get(computeShowSummaryKey({ showUuid, period: 'overall' }), 'json'),
+        (async () => (await Promise.all(months.map(v => statsBlobs.get(computeShowSummaryKey({ showUuid, period: v }), 'json')))).filter(isValidShowSummary))(),
+    ]);
+    if (!isValidShowSummary(overall)) return undefined;
+
+    const { lastDate } = computeDailyDownloadsFromSummaries(monthSummaries);
+    const lastHour = lastDate ? `${lastDate}T23` : undefined;
+    const firstLoadedHour = `${months[0]}-01T00`;
+    const episodes: Record<string, { firstHour: string, downloads: EpisodePacingDownloads }> = {};
+    for (const [ episodeId, { firstHour } ] of Object.entries(overall.episodes)) {
+        if (firstHour < firstLoadedHour) continue;
+        const hourlyDownloads = Object.fromEntries(monthSummaries.flatMap(v => Object.entries(v.episodes[episodeId]?.hourlyDownloads ?? {})));
+        episodes[episodeId] = { firstHour, downloads: computeEpisodePacingDownloads({ firstHour, hourlyDownloads, lastHour }) };
+    }
+    return { showUuid, lastHour, episodes };
+}
+
+/** Pacing as loaded by computeShowEpisodePacing, reused from stats blobs while younger than maxAgeMillis (summaries are only updated a few times a day). */
+export async function loadOrComputeShowEpisodePacing({ showUuid, latestMonth, lookbackMonths, statsBlobs, maxAgeMillis, save, now = new Date() }: { showUuid: string, latestMonth: string, lookbackMonths: number, statsBlobs: Blobs, maxAgeMillis: number, save: boolean, now?: Date }): Promise<ShowEpisodePacing | undefined> {
+    const key = computeCachedEpisodePacingKey({ showUuid, latestMonth, lookbackMonths });
+    const cached = await statsBlobs.get(key, 'json');
+    if (isValidCachedEpisodePacing(cached) && cached.computed >= new Date(now.getTime() - maxAgeMillis).toISOString()) return cached.pacing;
+
+    const pacing = await computeShowEpisodePacing({ showUuid, latestMonth, lookbackMonths, statsBlobs });
+    if (save) {
+        const record: CachedEpisodePacing = { computed: now.toISOString(), pacing };
+        await statsBlobs.put(key, JSON.stringify(record));
+    }
+    return pacing;
+}
+
+//
+
+interface CachedEpisodePacing {
+    readonly computed: string; // instant
+    readonly pacing?: ShowEpisodePacing; // undefined if the show has no summaries
+}
+
+function isValidCachedEpisodePacing(obj: unknown): obj is CachedEpisodePacing {
+    return isStringRecord(obj)
+        && typeof obj.computed === 'string'
+        && (obj.pacing === undefined || isStringRecord(obj.pacing) && typeof obj.pacing.showUuid === 'string' && isStringRecord(obj.pacing.episodes))
+        ;
+}
+
+function computeCachedEpisodePacingKey({ showUuid, latestMonth, lookbackMonths }: { showUuid: string, latestMonth: string, lookbackMonths: number }): string {
+    return `pacing/show/${showUuid}/${showUuid}-${latestMonth}-${lookbackMonths}mo.pacing.json`;
+}
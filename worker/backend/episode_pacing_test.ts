@@ -0,0 +1,69 @@
+import { assertEquals } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { computeEpisodePacingDownloads, computeMedian, computePercentileRank, computeWindowValues, loadOrComputeShowEpisodePacing } from './episode_pacing.ts';
+import { computeShowSummaryKey, ShowSummary } from './show_summaries.ts';
+
+Deno.test({
+    name: 'computeEpisodePacingDownloads',
+    fn: () => {
+        const hourlyDownloads = { '2024-01-01T10': 5, '2024-01-02T09': 3, '2024-01-02T10': 2, '2024-01-05T00': 10, '2024-01-20T00': 1 };
+        assertEquals(computeEpisodePacingDownloads({ firstHour: '2024-01-01T10', hourlyDownloads, lastHour: undefined }), {});
+        assertEquals(computeEpisodePacingDownloads({ firstHour: '2024-01-01T10', hourlyDownloads, lastHour: '2024-01-02T09' }), { downloads1: 8 });
+        assertEquals(computeEpisodePacingDownloads({ firstHour: '2024-01-01T10', hourlyDownloads, lastHour: '2024-01-20T23' }), { downloads1: 8, downloads3: 10, downloads7: 20 });
+        assertEquals(computeEpisodePacingDownloads({ firstHour: '2024-01-01T10', hourlyDownloads, lastHour: '2024-03-31T23' }), { downloads1: 8, downloads3: 10, downloads7: 20, downloads30: 21, downloads60: 21 });
+    }
+});
+
+Deno.test({
+    name: 'computePercentileRank',
+    fn: () => {
+        assertEquals(computePercentileRank(5, []), undefined);
+        assertEquals(computePercentileRank(5, [ 5 ]), 50);
+        assertEquals(computePercentileRank(10, [ 1, 2, 3, 10 ]), 88);
+        assertEquals(computePercentileRank(0, [ 1, 2, 3, 10 ]), 0);
+    }
+});
+
+Deno.test({
+    name: 'computeMedian',
+    fn: () => {
+        assertEquals(computeMedian([]), undefined);
+        assertEquals(computeMedian([ 3, 1, 2 ]), 2);
+        assertEquals(computeMedian([ 4, 1, 2, 3 ]), 2.5);
+    }
+});
+
+Deno.test({
+    name: 'computeWindowValues',
+    fn: () => {
+        const episodes = { ep1: { firstHour: '2024-01-01T00', downloads: { downloads1: 5, downloads3: 7 } }, ep2: { firstHour: '2024-01-02T00', downloads: { downloads1: 2 } } };
+        assertEquals(computeWindowValues(episodes, 1), [ 5, 2 ]);
+        assertEquals(computeWindowValues(episodes, 3), [ 7 ]);
+        assertEquals(computeWindowValues(episodes, 60), []);
+    }
+});
+
+Deno.test({
+    name: 'loadOrComputeShowEpisodePacing',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const showUuid = '0123456789abcdef0123456789abcdef';
+        const saveSummary = async (period: string, hourlyDownloads: Record<string, number>) => {
+            const sources = period === 'overall' ? {} : { [ computeShowSummaryKey({ showUuid, period: `${period}-31` }) ]: 'etag' }; // last day summarized
+            const summary: ShowSummary = { showUuid, period, hourlyDownloads, episodes: { ep1: { firstHour: '2024-01-01T00', hourlyDownloads } }, sources };
+            await statsBlobs.put(computeShowSummaryKey({ showUuid, period }), JSON.stringify(summary));
+        };
+        await saveSummary('overall', { '2024-01-01T00': 5 });
+        await saveSummary('2024-01', { '2024-01-01T00': 5 });
+
+        const opts = { showUuid, latestMonth: '2024-01', lookbackMonths: 1, statsBlobs, maxAgeMillis: 60 * 60 * 1000, save: true };
+        const first = await loadOrComputeShowEpisodePacing({ ...opts, now: new Date('2024-02-01T00:00:00Z') });
+        assertEquals(first?.episodes.ep1.downloads.downloads1, 5);
+
+        await saveSummary('2024-01', { '2024-01-01T00': 7 });
+        assertEquals((await loadOrComputeShowEpisodePacing({ ...opts, now: new Date('2024-02-01T00:30:00Z') }))?.episodes.ep1.downloads.downloads1, 5); // cached
+        assertEquals((await loadOrComputeShowEpisodePacing({ ...opts, now: new Date('2024-02-01T02:00:00Z') }))?.episodes.ep1.downloads.downloads1, 7); // expired
+
+        assertEquals(await loadOrComputeShowEpisodePacing({ ...opts, showUuid: 'fedcba9876543210fedcba9876543210', now: new Date('2024-02-01T00:00:00Z') }), undefined);
+    }
+});
@@ -0,0 +1,133 @@
+import { isStringRecord } from '../check.ts';
+import { FeedDiff, FeedDiffItem } from './show_controller_model.ts';
+
+export interface FeedItemSnapshot {
+    readonly guid: string; // trimmed
+    readonly title?: string;
+    readonly enclosureUrl?: string; // undefined if unknown (e.g. items indexed before enclosure urls were saved)
+    readonly prefixed: boolean; // primary enclosure goes through op3
+    readonly pubdateInstant?: string;
+}
+
+export function isFeedItemSnapshot(obj: unknown): obj is FeedItemSnapshot {
+    return isStringRecord(obj)
+        && typeof obj.guid === 'string'
+        && (obj.title === undefined || typeof obj.title === 'string')
+        && (obj.enclosureUrl === undefined || typeof obj.enclosureUrl === 'string')
+        && typeof obj.prefixed === 'boolean'
+        && (obj.pubdateInstant === undefined || typeof obj.pubdateInstant === 'string')
+        ;
+}
+
+export interface FeedSnapshotChunk {
+    readonly instant: string; // response instant of the fetch that produced the parse
+    readonly chunk: number; // zero-based
+    readonly chunks: number; // total chunks in this snapshot
+    readonly items: readonly FeedItemSnapshot[];
+}
+
+export function isFeedSnapshotChunk(obj: unknown): obj is FeedSnapshotChunk {
+    return isStringRecord(obj)
+        && typeof obj.instant === 'string'
+        && typeof obj.chunk === 'number'
+        && typeof obj.chunks === 'number'
+        && Array.isArray(obj.items) && obj.items.every(isFeedItemSnapshot)
+        ;
+}
+
+/** Splits a parse into chunks small enough to store as individual values. */
+export function computeFeedSnapshotChunks(instant: string, items: readonly FeedItemSnapshot[], { maxChunkChars = 64 * 1024 }: { maxChunkChars?: number } = {}): FeedSnapshotChunk[] {
+    const groups: FeedItemSnapshot[][] = [ [] ];
+    let groupChars = 0;
+    for (const item of items) {
+        const trimmed: FeedItemSnapshot = { ...item, title: item.title?.substring(0, 1024) };
+        const chars = JSON.stringify(trimmed).length;
+        if (groupChars + chars > maxChunkChars && groups[groups.length - 1].length > 0) {
+            groups.push([]);
+            groupChars = 0;
+        }
+        groups[groups.length - 1].push(trimmed);
+        groupChars += chars;
+    }
+    return groups.map((items, chunk) => ({ instant, chunk, chunks: groups.length, items }));
+}
+
+/** Reassembles a parse from its stored chunks, undefined if missing or incomplete. */
+export function tryParseFeedSnapshot(chunks: readonly FeedSnapshotChunk[]): { instant: string, items: FeedItemSnapshot[] } | undefined {
+    const first = chunks.at(0);
+    if (!first) return undefined;
+    const { instant } = first;
+    const sorted = chunks.filter(v => v.instant === instant).sort((a, b) => a.chunk - b.chunk);
+    if (sorted.length !== first.chunks || sorted.some((v, i) => v.chunk !== i)) return undefined;
+    return { instant, items: sorted.flatMap(v => v.items) };
+}
+
+/** Structural diff between two parses of the same feed. */
+export function computeFeedDiff(previous: readonly FeedItemSnapshot[], current: readonly FeedItemSnapshot[], { maxChanges = 100 }: { maxChanges?: number } = {}): FeedDiff {
+    const previousByGuid = new Map(previous.map(v => [ v.guid, v ]));
+    const currentByGuid = new Map(current.map(v => [ v.guid, v ]));
+
+    const removed = previous.filter(v => !currentByGuid.has(v.guid));
+    const added = current.filter(v => !previousByGuid.has(v.guid));
+
+    // pair up removed and added items that look like the same episode under a new guid
+    const guidChanges: { from: string, to: string, title?: string }[] = [];
+    const pairedGuids = new Set<string>();
+    for (const key of [ 'enclosureUrl', 'title' ] as const) {
+        const addedByKey = new Map<string, FeedItemSnapshot>();
+        for (const item of added) {
+            const value = item[key];
+            if (value && !pairedGuids.has(item.guid) && !addedByKey.has(value)) addedByKey.set(value, item);
+        }
+        for (const item of removed) {
+            const value = item[key];
+            if (!value || pairedGuids.has(item.guid)) continue;
+            const match = addedByKey.get(value);
+            if (!match || pairedGuids.has(match.guid)) continue;
+            guidChanges.push({ from: item.guid, to: match.guid, title: match.title });
+            pairedGuids.add(item.guid);
+            pairedGuids.add(match.guid);
+        }
+    }
+
+    const titleChanges: { guid: string, from?: string, to?: string }[] = [];
+    const enclosureUrlChanges: { guid: string, title?: string, from?: string, to?: string }[] = [];
+    const prefixRemoved: FeedDiffItem[] = [];
+    const prefixAdded: FeedDiffItem[] = [];
+    for (const item of current) {
+        const before = previousByGuid.get(item.guid);
+        if (!before) continue;
+        if (before.title !== item.title) titleChanges.push({ guid: item.guid, from: before.title, to: item.title });
+        if (before.enclosureUrl !== undefined && before.enclosureUrl !== item.enclosureUrl) enclosureUrlChanges.push({ guid: item.guid, title: item.title, from: before.enclosureUrl, to: item.enclosureUrl });
+        if (before.prefixed && !item.prefixed) prefixRemoved.push(toDiffItem(item));
+        if (!before.prefixed && item.prefixed) prefixAdded.push(toDiffItem(item));
+    }
+
+    let truncated = false;
+    const cap = <T>(arr: T[]): T[] => {
+        if (arr.length <= maxChanges) return arr;
+        truncated = true;
+        return arr.slice(0, maxChanges);
+    };
+    const rt: FeedDiff = {
+        added: cap(added.filter(v => !pairedGuids.has(v.guid)).map(toDiffItem)),
+        removed: cap(removed.filter(v => !pairedGuids.has(v.guid)).map(toDiffItem)),
+        guidChanges: cap(guidChanges),
+        titleChanges: cap(titleChanges),
+        enclosureUrlChanges: cap(enclosureUrlChanges),
+        prefixRemoved: cap(prefixRemoved),
+        prefixAdded: cap(prefixAdded),
+    };
+    return truncated ? { ...rt, truncated } : rt;
+}
+
+export function isEmptyFeedDiff(diff: FeedDiff): boolean {
+    const { added, removed, guidChanges, titleChanges, enclosureUrlChanges, prefixRemoved, prefixAdded } = diff;
+    return [ added, removed, guidChanges, titleChanges, enclosureUrlChanges, prefixRemoved, prefixAdded ].every(v => v.length === 0);
+}
+
+//
+
+function toDiffItem({ guid, title, enclosureUrl }: FeedItemSnapshot): FeedDiffItem {
+    return { guid, title, enclosureUrl };
+}
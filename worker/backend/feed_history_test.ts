@@ -0,0 +1,58 @@
+import { assertEquals } from '../tests/deps.ts';
+import { computeFeedDiff, computeFeedSnapshotChunks, isEmptyFeedDiff, isFeedSnapshotChunk, tryParseFeedSnapshot } from './feed_history.ts';
+
+Deno.test({
+    name: 'computeFeedDiff',
+    fn: () => {
+        const previous = [
+            { guid: 'ep1', title: 'Episode 1', enclosureUrl: 'https://op3.dev/e/example.com/ep1.mp3', prefixed: true },
+            { guid: 'ep2', title: 'Episode 2', enclosureUrl: 'https://op3.dev/e/example.com/ep2.mp3', prefixed: true },
+            { guid: 'ep3', title: 'Episode 3', enclosureUrl: 'https://op3.dev/e/example.com/ep3.mp3', prefixed: true },
+            { guid: 'ep4', title: 'Episode 4', prefixed: false }, // indexed before enclosure urls were saved
+            { guid: 'ep5', title: 'Episode 5', enclosureUrl: 'https://example.com/ep5.mp3', prefixed: false },
+        ];
+        assertEquals(isEmptyFeedDiff(computeFeedDiff(previous, previous)), true);
+
+        const current = [
+            { guid: 'ep1', title: 'Episode 1', enclosureUrl: 'https://example.com/ep1.mp3', prefixed: false }, // prefix dropped
+            { guid: 'ep2', title: 'Episode 2 (remastered)', enclosureUrl: 'https://op3.dev/e/example.com/ep2.mp3', prefixed: true },
+            { guid: 'ep3-new', title: 'Episode 3', enclosureUrl: 'https://op3.dev/e/example.com/ep3.mp3', prefixed: true }, // new guid
+            { guid: 'ep4', title: 'Episode 4', enclosureUrl: 'https://example.com/ep4.mp3', prefixed: false },
+            { guid: 'ep6', title: 'Episode 6', enclosureUrl: 'https://op3.dev/e/example.com/ep6.mp3', prefixed: true },
+        ];
+        const diff = computeFeedDiff(previous, current);
+        assertEquals(diff.added, [ { guid: 'ep6', title: 'Episode 6', enclosureUrl: 'https://op3.dev/e/example.com/ep6.mp3' } ]);
+        assertEquals(diff.removed, [ { guid: 'ep5', title: 'Episode 5', enclosureUrl: 'https://example.com/ep5.mp3' } ]);
+        assertEquals(diff.guidChanges, [ { from: 'ep3', to: 'ep3-new', title: 'Episode 3' } ]);
+        assertEquals(diff.titleChanges, [ { guid: 'ep2', from: 'Episode 2', to: 'Episode 2 (remastered)' } ]);
+        assertEquals(diff.enclosureUrlChanges, [ { guid: 'ep1', title: 'Episode 1', from: 'https://op3.dev/e/example.com/ep1.mp3', to: 'https://example.com/ep1.mp3' } ]);
+        assertEquals(diff.prefixRemoved, [ { guid: 'ep1', title: 'Episode 1', enclosureUrl: 'https://example.com/ep1.mp3' } ]);
+        assertEquals(diff.prefixAdded, []);
+        assertEquals(diff.truncated, undefined);
+
+        const capped = computeFeedDiff([], current, { maxChanges: 2 });
+        assertEquals(capped.added.length, 2);
+        assertEquals(capped.truncated, true);
+    }
+});
+
+Deno.test({
+    name: 'computeFeedSnapshotChunks',
+    fn: () => {
+        const instant = '2024-01-01T00:00:00.000Z';
+        const items = [ ...Array(50).keys() ].map(i => ({ guid: `ep${i}`, title: `Episode ${i} ${'x'.repeat(2000)}`, enclosureUrl: `https://example.com/ep${i}.mp3`, prefixed: i % 2 === 0 }));
+        const chunks = computeFeedSnapshotChunks(instant, items, { maxChunkChars: 10 * 1024 });
+        assertEquals(chunks.length > 1, true);
+        assertEquals(chunks.every(isFeedSnapshotChunk), true);
+        assertEquals(chunks.every(v => JSON.stringify(v.items).length <= 10 * 1024 + 100), true);
+
+        const snapshot = tryParseFeedSnapshot([ ...chunks ].reverse());
+        assertEquals(snapshot?.instant, instant);
+        assertEquals(snapshot?.items.map(v => v.guid), items.map(v => v.guid));
+        assertEquals(snapshot?.items[0].title?.length, 1024); // titles are trimmed
+
+        assertEquals(tryParseFeedSnapshot([]), undefined);
+        assertEquals(tryParseFeedSnapshot(chunks.slice(1)), undefined); // incomplete
+        assertEquals(computeFeedSnapshotChunks(instant, []), [ { instant, chunk: 0, chunks: 1, items: [] } ]);
+    }
+});
@@ -0,0 +1,336 @@
+import { Bytes, stdCrypto } from '../deps.ts';
+import { generateUuid } from '../uuid.ts';
+import { Blobs, checkMultiputPartSizes, GetOpts, ListBlobsResponse, ListBlobsWithMetadataResponse, ListOpts, Multiput } from './blobs.ts';
+
+/**
+ * Blobs stored as files under a root directory, used when self-hosting.
+ *
+ * Keys map to relative file paths (slashes become subdirectories), writes go to a temp file first and are renamed into place.
+ * Etags are the sha-1 of the content (like InMemoryBlobs), computed when written and cached by inode, mtime and size.
+ * Multiput parts are written to temp files, and concatenated into place on complete.
+ * Listings walk directories in key order, and stop once the limit is reached.
+ */
+export class FilesystemBlobs implements Blobs {
+    private readonly rootDir: string;
+    private readonly prefix: string;
+    private readonly readonly?: boolean;
+    private readonly fs: BlobsFilesystem;
+
+    constructor({ rootDir, prefix, readonly, fs = Deno }: { rootDir: string, prefix: string, readonly?: boolean, fs?: BlobsFilesystem }) {
+        this.rootDir = rootDir.replace(/\/+$/, '');
+        this.prefix = prefix;
+        this.readonly = readonly;
+        this.fs = fs;
+    }
+
+    async put(key: string, body: string | ReadableStream<Uint8Array> | ArrayBuffer): Promise<{ etag: string }> {
+        const { readonly } = this;
+        if (readonly) throw new Error(`Blobs are readonly!`);
+
+        return await this.writeAtomically(key, toStream(body));
+    }
+
+    get(key: string, as: 'stream-and-meta', opts?: GetOpts): Promise<{ stream: ReadableStream<Uint8Array>, etag: string } | undefined>;
+    get(key: string, as: 'stream', opts?: GetOpts): Promise<ReadableStream<Uint8Array> | undefined>;
+    get(key: string, as: 'buffer', opts?: GetOpts): Promise<ArrayBuffer | undefined>;
+    get(key: string, as: 'text-and-meta', opts?: GetOpts): Promise<{ text: string, etag: string } | undefined>;
+    get(key: string, as: 'text', opts?: GetOpts): Promise<string | undefined>;
+    get(key: string, as: 'json', opts?: GetOpts): Promise<unknown | undefined>;
+    async get(key: string, as: 'stream-and-meta' | 'stream' | 'buffer' | 'text' | 'text-and-meta' | 'json', opts: GetOpts = {}): Promise<{ stream: ReadableStream<Uint8Array>, etag: string } | ReadableStream<Uint8Array> | ArrayBuffer | { text: string, etag: string } | string | unknown | undefined> {
+        const { ifMatch, ...rest } = opts;
+        if (Object.keys(rest).length > 0) throw new Error(`Unsupported get opts: ${JSON.stringify(rest)}`);
+        const file = await openFile(this.fs, this.computePath(key));
+        if (!file) return undefined;
+        let etag: string;
+        try {
+            etag = await computeFileEtag(file); // from the open file, so it matches the content even if the key is replaced meanwhile
+            if (ifMatch !== undefined && ifMatch !== etag) throw new Error(`Precondition failed: ifMatch ${ifMatch}, etag ${etag}`);
+        } catch (e) {
+            file.close();
+            throw e;
+        }
+        const stream: ReadableStream<Uint8Array> = file.readable; // closes the file when fully read or cancelled
+        if (as === 'stream-and-meta') return { stream, etag };
+        if (as === 'stream') return stream;
+        const buffer = await new Response(stream).arrayBuffer();
+        if (as === 'buffer') return buffer;
+        const text = new TextDecoder().decode(buffer);
+        if (as === 'text-and-meta') return { text, etag };
+        if (as === 'text') return text;
+        if (as === 'json') return JSON.parse(text);
+        throw new Error(`Unsupported 'as' value: ${as}`);
+    }
+
+    async head(key: string): Promise<{ etag: string } | undefined> {
+        const file = await openFile(this.fs, this.computePath(key));
+        if (!file) return undefined;
+        try {
+            return { etag: await computeFileEtag(file) };
+        } finally {
+            file.close();
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        const { readonly, fs } = this;
+        if (readonly) throw new Error(`Blobs are readonly!`);
+
+        await ifExists(() => fs.remove(this.computePath(key)));
+    }
+
+    async has(key: string): Promise<boolean> {
+        const info = await ifExists(() => this.fs.stat(this.computePath(key)));
+        return info !== undefined && info.isFile;
+    }
+
+    async list(opts: ListOpts = {}): Promise<ListBlobsResponse> {
+        const { entries } = await this.listWithMetadata(opts);
+        const keys = entries.map(v => v.key);
+        return { keys };
+    }
+
+    async listWithMetadata(opts: ListOpts = {}): Promise<ListBlobsWithMetadataResponse> {
+        const { rootDir, prefix, fs } = this;
+        const { keyPrefix = '', afterKey, limit } = opts;
+        const fullPrefix = prefix + keyPrefix;
+
+        // only walk the deepest directory that fully contains the prefix
+        const dirPrefix = fullPrefix.substring(0, fullPrefix.lastIndexOf('/') + 1);
+        const entries: { key: string, size: number }[] = [];
+        if (limit !== undefined && limit <= 0) return { entries };
+        for await (const { key, size } of walkSortedFiles(fs, `${rootDir}/${dirPrefix}`, dirPrefix, { fullPrefix, fullAfterKey: afterKey === undefined ? undefined : prefix + afterKey })) {
+            entries.push({ key: key.substring(prefix.length), size });
+            if (entries.length === limit) break;
+        }
+        return { entries };
+    }
+
+    async startMultiput(key: string): Promise<Multiput> {
+        const { readonly } = this;
+        if (readonly) throw new Error(`Blobs are readonly!`);
+
+        this.computePath(key); // validate early
+        return new FilesystemMultiput(key, this, this.fs, await this.newTempPath());
+    }
+
+    //
+
+    computePath(key: string): string {
+        const path = this.prefix + key;
+        if (!isValidRelativePath(path)) throw new Error(`Unsupported key: ${JSON.stringify(key)}`);
+        return `${this.rootDir}/${path}`;
+    }
+
+    async newTempPath(): Promise<string> {
+        const tmpDir = `${this.rootDir}/${TMP_DIR}`;
+        await this.fs.mkdir(tmpDir, { recursive: true });
+        return `${tmpDir}/${generateUuid()}`;
+    }
+
+    async writeAtomically(key: string, body: ReadableStream<Uint8Array>): Promise<{ etag: string }> {
+        const { fs } = this;
+        const path = this.computePath(key);
+        const tmpPath = await this.newTempPath();
+        await fs.mkdir(path.substring(0, path.lastIndexOf('/')), { recursive: true });
+        try {
+            const etag = await writeFile(fs, tmpPath, body); // cached for the same inode after the rename
+            await fs.rename(tmpPath, path);
+            return { etag };
+        } catch (e) {
+            await ifExists(() => fs.remove(tmpPath));
+            throw e;
+        }
+    }
+
+}
+
+/** The parts of the Deno filesystem api used by FilesystemBlobs, Deno itself by default. */
+export interface BlobsFilesystem {
+    open(path: string, options: { read: true } | { write: true, createNew: true }): Promise<BlobsFile>;
+    stat(path: string): Promise<{ readonly isFile: boolean, readonly size: number }>;
+    mkdir(path: string, options: { recursive: true }): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    remove(path: string, options?: { recursive: true }): Promise<void>;
+    readDir(path: string): AsyncIterable<{ readonly name: string, readonly isFile: boolean, readonly isDirectory: boolean }>;
+}
+
+/** The parts of Deno.FsFile used by FilesystemBlobs. */
+export interface BlobsFile {
+    readonly readable: ReadableStream<Uint8Array>; // closes the file when fully read or cancelled
+    readonly writable: WritableStream<Uint8Array>; // closes the file when closed
+    stat(): Promise<{ readonly isFile: boolean, readonly size: number, readonly ino: number | null, readonly mtime: Date | null }>;
+    read(buffer: Uint8Array): Promise<number | null>;
+    seek(offset: number, whence: Deno.SeekMode): Promise<number>;
+    close(): void;
+}
+
+//
+
+const TMP_DIR = '.tmp'; // under the root dir, so renames stay on the same filesystem
+const MAX_ETAG_CACHE_ENTRIES = 10000;
+
+// shared across instances: blobs providers create a new instance per call
+const ETAG_CACHE = new Map<string, string>(); // `${ino}-${mtime}-${size}` -> etag
+
+class FilesystemMultiput implements Multiput {
+    private readonly key: string;
+    private readonly blobs: FilesystemBlobs;
+    private readonly fs: BlobsFilesystem;
+    private readonly uploadDir: string;
+    private readonly partSizes: number[] = [];
+
+    private done = false;
+
+    constructor(key: string, blobs: FilesystemBlobs, fs: BlobsFilesystem, uploadDir: string) {
+        this.key = key;
+        this.blobs = blobs;
+        this.fs = fs;
+        this.uploadDir = uploadDir;
+    }
+
+    async putPart(body: ReadableStream<Uint8Array> | ArrayBuffer | string): Promise<{ etag: string }> {
+        if (this.done) throw new Error(`Already done!`);
+        const { uploadDir, partSizes, fs } = this;
+        const partNumber = partSizes.push(0);
+        await fs.mkdir(uploadDir, { recursive: true });
+        const path = `${uploadDir}/${partNumber}`;
+        const etag = await writeFile(fs, path, toStream(body));
+        partSizes[partNumber - 1] = (await fs.stat(path)).size;
+        return { etag };
+    }
+
+    async complete(): Promise<{ parts: number, etag: string }> {
+        if (this.done) throw new Error(`Already done!`);
+        const { key, blobs, fs, uploadDir, partSizes } = this;
+        checkMultiputPartSizes(partSizes);
+        this.done = true;
+        try {
+            const { etag } = await blobs.writeAtomically(key, concatFiles(fs, partSizes.map((_, i) => `${uploadDir}/${i + 1}`)));
+            return { parts: partSizes.length, etag };
+        } finally {
+            await ifExists(() => fs.remove(uploadDir, { recursive: true }));
+        }
+    }
+
+    async abort(): Promise<void> {
+        if (this.done) throw new Error(`Already done!`);
+        this.done = true;
+        await ifExists(() => this.fs.remove(this.uploadDir, { recursive: true }));
+    }
+
+}
+
+function isValidRelativePath(path: string): boolean {
+    return path.split('/').every(v => v !== '' && v !== '.' && v !== '..') && !path.startsWith(`${TMP_DIR}/`) && !path.includes('\0');
+}
+
+function toStream(body: string | ReadableStream<Uint8Array> | ArrayBuffer): ReadableStream<Uint8Array> {
+    if (body instanceof ReadableStream) return body;
+    return new Blob([ typeof body === 'string' ? new TextEncoder().encode(body) : new Uint8Array(body) ]).stream();
+}
+
+async function writeFile(fs: BlobsFilesystem, path: string, body: ReadableStream<Uint8Array>): Promise<string> {
+    await body.pipeTo((await fs.open(path, { write: true, createNew: true })).writable); // closes the file
+    const file = await fs.open(path, { read: true });
+    try {
+        return await computeFileEtag(file);
+    } finally {
+        file.close();
+    }
+}
+
+async function openFile(fs: BlobsFilesystem, path: string): Promise<BlobsFile | undefined> {
+    const file = await ifExists(() => fs.open(path, { read: true }));
+    if (!file) return undefined;
+    try {
+        if ((await file.stat()).isFile) return file;
+    } catch (e) {
+        file.close();
+        throw e;
+    }
+    file.close();
+    return undefined;
+}
+
+async function computeFileEtag(file: BlobsFile): Promise<string> {
+    // files are never modified in place, only replaced by rename, so an inode with the same mtime and size has the same content
+    const { ino, mtime, size } = await file.stat();
+    const stamp = ino === null ? undefined : `${ino}-${mtime?.getTime()}-${size}`;
+    const cached = stamp === undefined ? undefined : ETAG_CACHE.get(stamp);
+    if (cached) return cached;
+
+    const etag = new Bytes(new Uint8Array(await stdCrypto.subtle.digest('SHA-1', readChunks(file)))).hex();
+    await file.seek(0, Deno.SeekMode.Start);
+    if (stamp === undefined) return etag;
+    ETAG_CACHE.set(stamp, etag);
+    for (const oldest of ETAG_CACHE.keys()) {
+        if (ETAG_CACHE.size <= MAX_ETAG_CACHE_ENTRIES) break;
+        ETAG_CACHE.delete(oldest);
+    }
+    return etag;
+}
+
+async function* readChunks(file: BlobsFile): AsyncGenerator<Uint8Array> {
+    while (true) {
+        const buffer = new Uint8Array(64 * 1024);
+        const read = await file.read(buffer);
+        if (read === null) return;
+        yield buffer.subarray(0, read);
+    }
+}
+
+function concatFiles(fs: BlobsFilesystem, paths: readonly string[]): ReadableStream<Uint8Array> {
+    let index = 0;
+    let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            while (true) {
+                if (!reader && index >= paths.length) return controller.close();
+                const current: ReadableStreamDefaultReader<Uint8Array> = reader ?? (await fs.open(paths[index++], { read: true })).readable.getReader(); // closes each file when fully read
+                const { done, value } = await current.read();
+                if (!done) {
+                    reader = current;
+                    return controller.enqueue(value);
+                }
+                reader = undefined;
+            }
+        },
+        async cancel(reason) {
+            await reader?.cancel(reason);
+        },
+    });
+}
+
+async function ifExists<T>(fn: () => Promise<T>): Promise<T | undefined> {
+    try {
+        return await fn();
+    } catch (e) {
+        if (e instanceof Deno.errors.NotFound) return undefined;
+        throw e;
+    }
+}
+
+async function* walkSortedFiles(fs: BlobsFilesystem, dir: string, keyPrefix: string, { fullPrefix, fullAfterKey }: { fullPrefix: string, fullAfterKey: string | undefined }): AsyncGenerator<{ key: string, size: number }> {
+    // directories sort by their key prefix (name + '/'), so the keys under each one come out in order between their siblings
+    const entries = await ifExists(async () => {
+        const rt: { name: string, key: string, isDirectory: boolean }[] = [];
+        for await (const { name, isFile, isDirectory } of fs.readDir(dir)) {
+            if (keyPrefix === '' && name === TMP_DIR) continue;
+            if (isDirectory) rt.push({ name, key: `${keyPrefix}${name}/`, isDirectory });
+            else if (isFile) rt.push({ name, key: keyPrefix + name, isDirectory });
+        }
+        return rt.sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+    });
+    for (const { name, key, isDirectory } of entries ?? []) {
+        if (isDirectory) {
+            if (!key.startsWith(fullPrefix) && !fullPrefix.startsWith(key)) continue; // no keys under here have the prefix
+            if (fullAfterKey !== undefined && key <= fullAfterKey && !fullAfterKey.startsWith(key)) continue; // all keys under here are before afterKey
+            yield* walkSortedFiles(fs, `${dir}${name}/`, key, { fullPrefix, fullAfterKey });
+        } else {
+            if (!key.startsWith(fullPrefix)) continue;
+            if (fullAfterKey !== undefined && key <= fullAfterKey) continue;
+            const info = await ifExists(() => fs.stat(`${dir}${name}`)); // may have been deleted since
+            if (info) yield { key, size: info.size };
+        }
+    }
+}
@@ -0,0 +1,88 @@
+import { assertEquals, assertRejects } from '../tests/deps.ts';
+import { registerBlobsConformanceTests } from '../tests/blobs_conformance.ts';
+import { InMemoryFilesystem } from '../tests/in_memory_filesystem.ts';
+import { FilesystemBlobs } from './filesystem_blobs.ts';
+
+registerBlobsConformanceTests('FilesystemBlobs', () => new FilesystemBlobs({ rootDir: '/blobs', prefix: 'stats/', fs: new InMemoryFilesystem() }));
+
+// also against the real filesystem in a temp dir, e.g. deno test --allow-read --allow-write
+const canWrite = Deno.permissions.querySync({ name: 'write' }).state === 'granted';
+
+registerBlobsConformanceTests('FilesystemBlobs (disk)', canWrite ? async () => new FilesystemBlobs({ rootDir: await Deno.makeTempDir({ prefix: 'op3-blobs-' }), prefix: 'stats/' }) : undefined);
+
+Deno.test({
+    name: 'FilesystemBlobs',
+    fn: async () => {
+        const rootDir = '/blobs';
+        const fs = new InMemoryFilesystem();
+        const blobs = new FilesystemBlobs({ rootDir, prefix: 'stats/', fs });
+        for (const key of [ '', '../escape', 'a//b', 'a/./b', 'a/', '/a' ]) {
+            await assertRejects(() => blobs.put(key, 'x'), Error, 'Unsupported key');
+        }
+        await assertRejects(() => new FilesystemBlobs({ rootDir, prefix: '', fs }).put('.tmp/x', 'x'), Error, 'Unsupported key');
+
+        const { etag } = await blobs.put('a/b.txt', 'hello');
+        assertEquals(etag, 'aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d'); // sha-1 of the content
+        assertEquals(await new Response((await fs.open(`${rootDir}/stats/a/b.txt`, { read: true })).readable).text(), 'hello');
+        assertEquals(await new FilesystemBlobs({ rootDir, prefix: 'stats/', fs }).head('a/b.txt'), { etag }, 'recomputed by a new instance');
+
+        const multiput = await blobs.startMultiput('a/c.txt');
+        await multiput.putPart('part');
+        assertEquals((await new FilesystemBlobs({ rootDir, prefix: '', fs }).list()).keys, [ 'stats/a/b.txt' ], 'parts in progress are not listed');
+        await multiput.complete();
+        assertEquals((await new FilesystemBlobs({ rootDir, prefix: '', fs }).list()).keys, [ 'stats/a/b.txt', 'stats/a/c.txt' ]);
+        assertEquals(await readDirNames(fs, `${rootDir}/.tmp`), [], 'temp files cleaned up');
+
+        const ro = new FilesystemBlobs({ rootDir, prefix: 'stats/', readonly: true, fs });
+        assertEquals(await ro.get('a/b.txt', 'text'), 'hello');
+        await assertRejects(() => ro.put('a/b.txt', 'x'));
+        await assertRejects(() => ro.delete('a/b.txt'));
+        await assertRejects(() => ro.startMultiput('a/d.txt'));
+
+        assertEquals(fs.openFileCount, 0, 'all files closed');
+    },
+});
+
+Deno.test({
+    name: 'FilesystemBlobs listWithMetadata walks in key order and stops at the limit',
+    fn: async () => {
+        const fs = new CountingFilesystem();
+        const blobs = new FilesystemBlobs({ rootDir: '/blobs', prefix: 'stats/', fs });
+        const keys = [ 'a.txt', 'a/1', 'a/2', 'a2', 'b/x/1', 'b/y', 'c' ];
+        for (const key of [ ...keys ].reverse()) await blobs.put(key, key);
+        assertEquals((await blobs.list()).keys, keys);
+
+        fs.readDirs.length = 0;
+        fs.stats = 0;
+        assertEquals((await blobs.list({ afterKey: 'a2', limit: 2 })).keys, [ 'b/x/1', 'b/y' ]);
+        assertEquals(fs.readDirs, [ '/blobs/stats/', '/blobs/stats/b/', '/blobs/stats/b/x/' ], 'skips directories before afterKey, stops before c');
+        assertEquals(fs.stats, 2, 'only the listed files');
+
+        assertEquals((await blobs.list({ keyPrefix: 'b/', afterKey: 'b/x/1' })).keys, [ 'b/y' ]);
+        assertEquals((await blobs.list({ keyPrefix: 'a', limit: 0 })).keys, []);
+    },
+});
+
+//
+
+class CountingFilesystem extends InMemoryFilesystem {
+    readonly readDirs: string[] = [];
+    stats = 0;
+
+    override async stat(path: string) {
+        this.stats++;
+        return await super.stat(path);
+    }
+
+    override async* readDir(path: string) {
+        this.readDirs.push(path);
+        yield* super.readDir(path);
+    }
+
+}
+
+async function readDirNames(fs: InMemoryFilesystem, path: string): Promise<string[]> {
+    const rt: string[] = [];
+    for await (const { name } of fs.readDir(path)) rt.push(name);
+    return rt;
+}
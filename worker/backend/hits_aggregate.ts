@@ -0,0 +1,112 @@
+import { computeServerUrl } from '../client_params.ts';
+import { tryParseRangeHeader } from '../range_header.ts';
+import { timestampToInstant } from '../timestamp.ts';
+import { AttNums } from './att_nums.ts';
+import { Blobs } from './blobs.ts';
+import { computeAgentInfo } from './downloads.ts';
+import { queryPackedRedirectLogsFromHits } from './hits_common.ts';
+
+export const HITS_AGGREGATE_DIMENSIONS = [ 'edgeColo', 'country', 'agentName', 'method', 'rangeClass', 'hour' ] as const;
+
+export type HitsAggregateDimension = typeof HITS_AGGREGATE_DIMENSIONS[number];
+
+export function isHitsAggregateDimension(obj: unknown): obj is HitsAggregateDimension {
+    return typeof obj === 'string' && (HITS_AGGREGATE_DIMENSIONS as readonly string[]).includes(obj);
+}
+
+export interface HitsAggregateRequest {
+    readonly groupBy: readonly HitsAggregateDimension[];
+    readonly maxHitsScanned: number; // scan budget: hits read before returning partial counts, whether or not they match the url filter
+
+    readonly startTimeInclusive?: string; // instant
+    readonly startTimeExclusive?: string; // instant
+    readonly endTimeExclusive?: string; // instant
+    readonly startAfterRecordKey?: string; // continue after this hit (sortKey)
+
+    readonly url?: string;
+    readonly urlStartsWith?: string;
+}
+
+export interface HitsAggregateResult {
+    readonly groups: readonly HitsAggregateGroup[]; // most hits first
+    readonly scanned: number; // hits read, including those skipped by the url filter
+    readonly matched: number; // hits counted in groups
+    readonly lastRecordKey?: string; // last hit scanned
+    readonly complete: boolean; // false if stopped at maxHitsScanned: counts are partial, continue after lastRecordKey and sum the groups for the full range
+}
+
+export interface HitsAggregateGroup {
+    readonly values: readonly (string | undefined)[]; // one per groupBy dimension
+    readonly hits: number;
+}
+
+/**
+ * Counts hits grouped by one or more dimensions, streaming minute files in ascending order.
+ *
+ * Reads at most maxHitsScanned hits per call, so a filtered or long range usually needs several calls: each returns the partial counts for its slice of hits.
+ */
+export async function aggregateHits(request: HitsAggregateRequest, { hitsBlobs, querySize = 1000 }: { hitsBlobs: Blobs, querySize?: number }): Promise<HitsAggregateResult> {
+    const { groupBy, maxHitsScanned, startTimeInclusive, startTimeExclusive, endTimeExclusive, url, urlStartsWith } = request;
+    const serverUrl = url ? computeServerUrl(url) : undefined;
+    const serverUrlPrefix = urlStartsWith ? computeServerUrl(urlStartsWith) : undefined;
+
+    const counts = new Map<string, HitsAggregateGroup>();
+    const agentNames = new Map<string, string | undefined>(); // user agents repeat a lot, parse each one once
+    const computeAgentName = (userAgent: string | undefined, referer: string | undefined) => {
+        const key = `${userAgent}|${referer}`;
+        if (!agentNames.has(key)) agentNames.set(key, computeAgentInfo({ userAgent, referer }).agentName);
+        return agentNames.get(key);
+    };
+    let startAfterRecordKey = request.startAfterRecordKey;
+    let scanned = 0;
+    let matched = 0;
+    let complete = false;
+    while (scanned < maxHitsScanned) {
+        const limit = Math.min(querySize, maxHitsScanned - scanned);
+        const { namesToNums, records } = await queryPackedRedirectLogsFromHits({ limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, startAfterRecordKey }, { hitsBlobs, attNums: new AttNums(), indexSortKeys: undefined, descending: false, quiet: true });
+        const attNums = new AttNums(namesToNums);
+        const entries = Object.entries(records);
+        for (const [ recordKey, record ] of entries) {
+            scanned++;
+            if (recordKey > (startAfterRecordKey ?? '')) startAfterRecordKey = recordKey;
+            const obj = attNums.unpackRecord(record);
+            if (serverUrl !== undefined || serverUrlPrefix !== undefined) {
+                const recordServerUrl = typeof obj.url === 'string' ? computeServerUrl(obj.url) : undefined;
+                if (recordServerUrl === undefined) continue;
+                if (serverUrl !== undefined && recordServerUrl !== serverUrl) continue;
+                if (serverUrlPrefix !== undefined && !recordServerUrl.startsWith(serverUrlPrefix)) continue;
+            }
+            const values = groupBy.map(v => computeDimensionValue(v, obj, computeAgentName));
+            const key = JSON.stringify(values);
+            counts.set(key, { values, hits: (counts.get(key)?.hits ?? 0) + 1 });
+            matched++;
+        }
+        if (entries.length < limit) {
+            complete = true;
+            break;
+        }
+    }
+    const groups = [ ...counts.values() ].sort((a, b) => b.hits - a.hits || JSON.stringify(a.values).localeCompare(JSON.stringify(b.values)));
+    return { groups, scanned, matched, lastRecordKey: startAfterRecordKey, complete };
+}
+
+/** Rough response class based on the request's range header, e.g. to separate full downloads from client probes. */
+export function computeRangeClass(range: string | undefined): 'none' | 'first-two-bytes' | 'from-start' | 'partial' | 'invalid' {
+    if (range === undefined) return 'none'; // full 200 response
+    const ranges = tryParseRangeHeader(range);
+    if (!ranges) return 'invalid';
+    if (ranges.length === 1 && 'start' in ranges[0] && ranges[0].start === 0) return ranges[0].end === 1 ? 'first-two-bytes' : 'from-start';
+    return 'partial';
+}
+
+//
+
+function computeDimensionValue(dimension: HitsAggregateDimension, obj: Record<string, string>, computeAgentName: (userAgent: string | undefined, referer: string | undefined) => string | undefined): string | undefined {
+    if (dimension === 'edgeColo') return obj['other.colo'];
+    if (dimension === 'country') return obj['other.country'];
+    if (dimension === 'agentName') return computeAgentName(obj.userAgent, obj.referer);
+    if (dimension === 'method') return obj.method;
+    if (dimension === 'rangeClass') return computeRangeClass(obj.range);
+    if (dimension === 'hour') return typeof obj.timestamp === 'string' ? `${timestampToInstant(obj.timestamp).substring(0, 13)}:00:00.000Z` : undefined;
+    throw new Error(`Unsupported dimension: ${dimension}`);
+}
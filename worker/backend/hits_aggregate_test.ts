@@ -0,0 +1,67 @@
+import { assertEquals } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { computeTimestamp } from '../timestamp.ts';
+import { generateUuid } from '../uuid.ts';
+import { AttNums } from './att_nums.ts';
+import { aggregateHits, computeRangeClass } from './hits_aggregate.ts';
+import { computeMinuteFileKey, computeRecordInfo } from './hits_common.ts';
+
+Deno.test({
+    name: 'aggregateHits',
+    fn: async () => {
+        const hitsBlobs = new InMemoryBlobs();
+        const attNums = new AttNums();
+        const minuteFiles: Record<string, string[]> = {};
+        const saveHit = (instant: string, obj: Record<string, string>) => {
+            const record = { timestamp: computeTimestamp(instant), uuid: generateUuid(), method: 'GET', url: 'https://op3.dev/e/example.com/show/ep1.mp3', ...obj };
+            const { minuteTimestamp } = computeRecordInfo(record);
+            (minuteFiles[minuteTimestamp] ??= []).push(attNums.packRecord(record));
+        };
+        saveHit('2024-08-01T10:00:01.000Z', { 'other.country': 'US', 'other.colo': 'SEA' });
+        saveHit('2024-08-01T10:00:02.000Z', { 'other.country': 'US', 'other.colo': 'SEA', range: 'bytes=0-1' });
+        saveHit('2024-08-01T10:01:00.000Z', { 'other.country': 'CA', 'other.colo': 'YVR', range: 'bytes=0-' });
+        saveHit('2024-08-01T11:02:00.000Z', { 'other.country': 'US', 'other.colo': 'DFW', method: 'HEAD', url: 'https://op3.dev/e/example.com/other/ep2.mp3' });
+        for (const [ minuteTimestamp, records ] of Object.entries(minuteFiles)) {
+            await hitsBlobs.put(computeMinuteFileKey(minuteTimestamp), [ JSON.stringify(attNums.toJson()), ...records.sort() ].map(v => `${v}\n`).join(''));
+        }
+        const range = { startTimeInclusive: '2024-08-01T10:00:00.000Z', endTimeExclusive: '2024-08-01T11:05:00.000Z' };
+
+        const byCountry = await aggregateHits({ ...range, groupBy: [ 'country' ], maxHitsScanned: 100 }, { hitsBlobs });
+        assertEquals(byCountry.groups, [ { values: [ 'US' ], hits: 3 }, { values: [ 'CA' ], hits: 1 } ]);
+        assertEquals(byCountry.complete, true);
+
+        const byHourAndMethod = await aggregateHits({ ...range, groupBy: [ 'hour', 'method' ], maxHitsScanned: 100 }, { hitsBlobs });
+        assertEquals(byHourAndMethod.groups, [ { values: [ '2024-08-01T10:00:00.000Z', 'GET' ], hits: 3 }, { values: [ '2024-08-01T11:00:00.000Z', 'HEAD' ], hits: 1 } ]);
+
+        const filtered = await aggregateHits({ ...range, groupBy: [ 'rangeClass' ], maxHitsScanned: 100, urlStartsWith: 'https://op3.dev/e/example.com/show/' }, { hitsBlobs });
+        assertEquals(filtered.groups.map(v => v.values[0]).sort(), [ 'first-two-bytes', 'from-start', 'none' ]);
+
+        // partial results, continue after the last hit scanned
+        const page1 = await aggregateHits({ ...range, groupBy: [ 'edgeColo' ], maxHitsScanned: 2, }, { hitsBlobs, querySize: 1 });
+        assertEquals(page1.complete, false);
+        assertEquals(page1.groups, [ { values: [ 'SEA' ], hits: 2 } ]);
+        const page2 = await aggregateHits({ ...range, groupBy: [ 'edgeColo' ], maxHitsScanned: 10, startAfterRecordKey: page1.lastRecordKey }, { hitsBlobs });
+        assertEquals(page2.complete, true);
+        assertEquals(page2.groups, [ { values: [ 'DFW' ], hits: 1 }, { values: [ 'YVR' ], hits: 1 } ]);
+
+        // the budget counts hits scanned, not matched: a filtered slice can come back empty but incomplete
+        const other = { ...range, groupBy: [ 'method' ] as const, url: 'https://op3.dev/e/example.com/other/ep2.mp3' };
+        const otherPage1 = await aggregateHits({ ...other, maxHitsScanned: 3 }, { hitsBlobs });
+        assertEquals({ scanned: otherPage1.scanned, matched: otherPage1.matched, complete: otherPage1.complete, groups: otherPage1.groups }, { scanned: 3, matched: 0, complete: false, groups: [] });
+        const otherPage2 = await aggregateHits({ ...other, maxHitsScanned: 3, startAfterRecordKey: otherPage1.lastRecordKey }, { hitsBlobs });
+        assertEquals({ scanned: otherPage2.scanned, matched: otherPage2.matched, complete: otherPage2.complete, groups: otherPage2.groups }, { scanned: 1, matched: 1, complete: true, groups: [ { values: [ 'HEAD' ], hits: 1 } ] });
+    }
+});
+
+Deno.test({
+    name: 'computeRangeClass',
+    fn: () => {
+        assertEquals(computeRangeClass(undefined), 'none');
+        assertEquals(computeRangeClass('bytes=0-1'), 'first-two-bytes');
+        assertEquals(computeRangeClass('bytes=0-'), 'from-start');
+        assertEquals(computeRangeClass('bytes=0-1000'), 'from-start');
+        assertEquals(computeRangeClass('bytes=1000-'), 'partial');
+        assertEquals(computeRangeClass('bytes=-500'), 'partial');
+        assertEquals(computeRangeClass('pages=1'), 'invalid');
+    }
+});
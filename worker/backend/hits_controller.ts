@@ -1,13 +1,14 @@
 import { timed } from '../async.ts';
 import { isStringRecord } from '../check.ts';
 import { DurableObjectStorage, RedBlackTree, chunk } from '../deps.ts';
-import { AdminDataRequest, AdminDataResponse, LogRawRedirectsBatchRequest, LogRawRedirectsBatchResponse, PackedRedirectLogsResponse, QueryPackedRedirectLogsRequest, Unkinded, QueryHitsIndexRequest, RpcClient, UrlsExternalNotification } from '../rpc_model.ts';
+import { AdminDataRequest, AdminDataResponse, AlarmPayload, isValidAlarmPayload, LogRawRedirectsBatchRequest, LogRawRedirectsBatchResponse, PackedRedirectLogsResponse, QueryPackedRedirectLogsRequest, Unkinded, QueryHitsIndexRequest, RpcClient, UrlsExternalNotification } from '../rpc_model.ts';
 import { executeWithRetries } from '../sleep.ts';
-import { consoleError, consoleWarn } from '../tracer.ts';
+import { consoleError, consoleWarn, writeTraceEvent } from '../tracer.ts';
 import { AttNums } from './att_nums.ts';
 import { Blobs } from './blobs.ts';
 import { computeMinuteFileKey, computeRecordInfo, queryPackedRedirectLogsFromHits, yieldRecords } from './hits_common.ts';
-import { computeIndexRecords, queryHitsIndexFromStorage, trimIndexRecords } from './hits_indexes.ts';
+import { computeIndexRecords, HITS_INDEX_RESUME_AFTER_HEADER, HITS_INDEX_RESUME_DATE_HEADER, IndexId, INDEX_LIFECYCLES, queryHitsIndexFromStorage, trimIndexRecords } from './hits_indexes.ts';
+import { compactIndex, CompactionInfo, loadIndexLifecycleState } from './hits_index_lifecycle.ts';
 import { isRetryableErrorFromR2 } from './r2_bucket_blobs.ts';
 import { IpAddressEncryptionFn, IpAddressHashingFn, packRawRedirect } from './raw_redirects.ts';
 import { computeTimestamp, timestampToInstant } from '../timestamp.ts';
@@ -17,6 +18,8 @@ import { computeServerUrl } from '../client_params.ts';
 import { newTextResponse } from '../responses.ts';
 
 export class HitsController {
+    static readonly compactIndexesAlarmKind = 'HitsController.compactIndexesAlarmKind';
+
     private readonly storage: DurableObjectStorage;
     private readonly hitsBlobs: Blobs;
     private readonly encryptIpAddress: IpAddressEncryptionFn;
@@ -30,6 +33,7 @@ export class HitsController {
     private attNums: AttNums | undefined;
     private state: State | undefined;
     private recentMinuteTimestamps: string[] = [];
+    private compactIndexesAlarmChecked = false;
 
     constructor(storage: DurableObjectStorage, hitsBlobs: Blobs, colo: string, rpcClient: RpcClient | undefined, durableObjectName: string, encryptIpAddress: IpAddressEncryptionFn, hashIpAddress: IpAddressHashingFn, ) {
         this.storage = storage;
@@ -100,6 +104,12 @@ export class HitsController {
             }
         });
 
+        // make sure tiered indexes are compacted eventually, once per isolate is enough
+        if (!this.compactIndexesAlarmChecked) {
+            await rescheduleCompactIndexesAlarm(computeNextCompactionTime(), storage, durableObjectName, { onlyIfMissing: true });
+            this.compactIndexesAlarmChecked = true;
+        }
+
         // evict old minutefiles from memory
         let evictedCount = 0;
         this.recentMinuteTimestamps = [ ...minuteTimestampsChanged, ...this.recentMinuteTimestamps.filter(v => !minuteTimestampsChanged.has(v)) ];
@@ -197,6 +207,19 @@ export class HitsController {
             }
         }
 
+        if (targetPath === '/hits/indexes/compact') {
+            if (operationKind === 'select') {
+                const results = await Promise.all(INDEX_LIFECYCLES.map(async v => ({ index: IndexId[v.indexId], ...v, state: await loadIndexLifecycleState(v.indexId, storage) })));
+                return { results };
+            }
+            if (operationKind === 'update') {
+                const { 'max-list-calls': maxListCallsStr = '20', ...rest } = parameters;
+                if (Object.keys(rest).length > 0) throw new Error(`Unsupported parameters: ${JSON.stringify(rest)}`);
+                const maxListCalls = parseInt(maxListCallsStr);
+                return { results: [ await this.compactIndexes({ maxListCalls }) ] };
+            }
+        }
+
         if (targetPath === '/hits/indexes' && operationKind === 'delete') {
             const { 'max-iterations': maxIterationsStr = '1', go: goStr, type, ...rest } = parameters;
             if (Object.keys(rest).length > 0) throw new Error(`Unsupported parameters: ${JSON.stringify(rest)}`);
@@ -216,14 +239,31 @@ export class HitsController {
     }
 
     async queryHitsIndex(request: Unkinded<QueryHitsIndexRequest>): Promise<Response> {
-        const { storage, hashIpAddress } = this;
+        const { storage, hashIpAddress, hitsBlobs } = this;
         const { rawIpAddress } = request;
         if (typeof rawIpAddress === 'string') {
             const hashedIpAddress = unpackHashedIpAddressHash(await hashIpAddress(rawIpAddress, { timestamp: computeTimestamp() }));
             request = { ...request, hashedIpAddress, rawIpAddress: undefined };
         }
-        const sortKeys = await queryHitsIndexFromStorage(request, storage);
-        return new Response(sortKeys.map(v => `${v}\n`).join('')); // stream if allowing larger limits in the future
+        const info: { resumeDate?: string, resumeAfter?: string } = {};
+        const sortKeys = await queryHitsIndexFromStorage(request, storage, Date.now(), hitsBlobs, info);
+        const { resumeDate, resumeAfter } = info;
+        const headers = new Headers();
+        if (resumeDate) headers.set(HITS_INDEX_RESUME_DATE_HEADER, resumeDate);
+        if (resumeAfter) headers.set(HITS_INDEX_RESUME_AFTER_HEADER, encodeURIComponent(resumeAfter)); // may hold any part of an indexed value
+        return new Response(sortKeys.map(v => `${v}\n`).join(''), { headers }); // stream if allowing larger limits in the future
+    }
+
+    /** Moves older days of tiered indexes from storage into index blobs, called from the alarm until caught up, then daily. */
+    async compactIndexes({ maxListCalls = 20 }: { maxListCalls?: number } = {}): Promise<Record<string, CompactionInfo>> {
+        const { storage, hitsBlobs, durableObjectName } = this;
+        const rt: Record<string, CompactionInfo> = {};
+        for (const lifecycle of INDEX_LIFECYCLES) {
+            rt[IndexId[lifecycle.indexId]] = await compactIndex(lifecycle, { storage, blobs: hitsBlobs, maxListCalls });
+        }
+        const done = Object.values(rt).every(v => v.done);
+        await rescheduleCompactIndexesAlarm(done ? computeNextCompactionTime() : Date.now() + 1000, storage, durableObjectName, { onlyIfMissing: false });
+        return rt;
     }
 
     async getMetrics(): Promise<Response> {
@@ -337,6 +377,27 @@ function isValidState(obj: unknown): obj is State {
         ;
 }
 
+function computeNextCompactionTime(now = Date.now()): number {
+    // shortly after the next utc midnight, when another day leaves the hot tier
+    const tomorrow = new Date(now + 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+    return new Date(`${tomorrow}T00:15:00.000Z`).getTime();
+}
+
+async function rescheduleCompactIndexesAlarm(time: number, storage: DurableObjectStorage, durableObjectName: string, { onlyIfMissing }: { onlyIfMissing: boolean }) {
+    const rescheduled = await storage.transaction(async tx => {
+        if (typeof await tx.getAlarm() === 'number') {
+            if (onlyIfMissing) return false;
+            // never clobber a pending alarm of another kind, compaction is checked again by the next isolate
+            const payload = await tx.get('alarm.payload');
+            if (isValidAlarmPayload(payload) && payload.kind !== HitsController.compactIndexesAlarmKind) return false;
+        }
+        await tx.put('alarm.payload', { kind: HitsController.compactIndexesAlarmKind } as AlarmPayload);
+        await tx.setAlarm(time);
+        return true;
+    });
+    if (rescheduled) writeTraceEvent({ kind: 'storage-write', durableObjectName, spot: 'hc.rescheduleCompactIndexesAlarm', alarms: 1 });
+}
+
 async function loadAttNums(storage: DurableObjectStorage): Promise<AttNums> {
     const record = await storage.get('hits.attNums');
     console.log(`loadAttNums: ${JSON.stringify(record)}`);
@@ -0,0 +1,336 @@
+import { isStringRecord } from '../check.ts';
+import { maxString, minString } from '../collections.ts';
+import { DurableObjectStorage } from '../deps.ts';
+import { addDaysToDateString, computeTimestamp, timestampToInstant } from '../timestamp.ts';
+import { consoleWarn } from '../tracer.ts';
+import { Blobs } from './blobs.ts';
+import { computeIndexWindowStartInstant, isValidSortKey } from './hits_common.ts';
+
+// Tiered hits indexes: day-partitioned index records (hits.i0.<indexId>.<datestamp>.<value>.<sortKey>) live in durable object storage for a few "hot" days,
+// then each day is compacted into sorted index blobs (<value>.<sortKey> lines, with a manifest of each block's first and last line) and the hot records are deleted.
+// Queries read whichever tier holds each day, so callers never need to know where a day lives.
+
+export interface IndexLifecycle {
+    readonly indexId: number;
+    readonly hotDays: number; // days kept as individual records in durable object storage, including today
+    readonly coldDays: number; // days kept as compacted index blobs after that, then deleted
+}
+
+export interface IndexLifecycleState {
+    readonly compactedThroughDate?: string; // yyyy-mm-dd, days up to and including this date are served from index blobs
+    readonly compaction?: CompactionProgress; // day currently being compacted
+}
+
+export interface CompactionProgress {
+    readonly date: string; // yyyy-mm-dd
+    readonly phase: 'write' | 'delete'; // write index blobs, then delete the hot records (once the manifest exists)
+    readonly afterKey?: string; // last hot record key written to a block
+    readonly blocks: readonly IndexBlockInfo[];
+}
+
+export interface IndexBlockInfo {
+    readonly key: string; // blob key
+    readonly first: string; // first line: <value>.<sortKey>
+    readonly last: string; // last line: <value>.<sortKey>
+    readonly count: number;
+}
+
+export interface IndexManifest {
+    readonly indexId: number;
+    readonly date: string; // yyyy-mm-dd
+    readonly records: number;
+    readonly blocks: readonly IndexBlockInfo[];
+}
+
+export type CompactionInfo = { compactedDates: string[], blocks: number, records: number, deleted: number, expiredBlobs: number, listCalls: number, done: boolean, state: IndexLifecycleState };
+
+/** Performs a bounded amount of compaction work for a single tiered index, call again until done. */
+export async function compactIndex(lifecycle: IndexLifecycle, { storage, blobs, now = Date.now(), maxListCalls = 20 }: { storage: DurableObjectStorage, blobs: Blobs, now?: number, maxListCalls?: number }): Promise<CompactionInfo> {
+    const { indexId, hotDays, coldDays } = lifecycle;
+    const today = new Date(now).toISOString().substring(0, 10);
+    const compactThroughDate = addDaysToDateString(today, -hotDays);
+    const expireThroughDate = addDaysToDateString(today, -(hotDays + coldDays));
+
+    let state = await loadIndexLifecycleState(indexId, storage);
+    const info: CompactionInfo = { compactedDates: [], blocks: 0, records: 0, deleted: 0, expiredBlobs: 0, listCalls: 0, done: false, state };
+    const saveState = async (newState: IndexLifecycleState) => {
+        await storage.put(computeStateKey(indexId), newState);
+        state = newState;
+        info.state = newState;
+    };
+
+    while (true) {
+        if (info.listCalls >= maxListCalls) return info;
+        let progress = state.compaction;
+        if (!progress) {
+            const date = state.compactedThroughDate ? addDaysToDateString(state.compactedThroughDate, 1) : await findEarliestHotDate(indexId, storage);
+            if (!state.compactedThroughDate) info.listCalls++;
+            if (date === undefined || date > compactThroughDate) break;
+            if (date <= expireThroughDate) {
+                // already past the cold tier, no need to write index blobs
+                await saveState({ ...state, compactedThroughDate: date, compaction: { date, phase: 'delete', blocks: [] } });
+                continue;
+            }
+            progress = { date, phase: 'write', blocks: [] };
+        }
+        const { date, phase, afterKey, blocks } = progress;
+        const prefix = `hits.i0.${indexId}.${computeDatestamp(date)}.`;
+        if (phase === 'write') {
+            const map = await storage.list({ prefix, startAfter: afterKey, limit: BLOCK_SIZE, noCache: true, allowConcurrency: true });
+            info.listCalls++;
+            const lines: string[] = [];
+            let lastKey = afterKey;
+            for (const [ key, sortKey ] of map) {
+                lastKey = key;
+                const line = key.substring(prefix.length);
+                if (typeof sortKey !== 'string' || !isValidSortKey(sortKey) || !line.endsWith(`.${sortKey}`) || /[\r\n]/.test(line)) {
+                    consoleWarn('hits-index-compaction-bad-record', `compactIndex: Skipping unexpected index record: ${JSON.stringify({ key, sortKey })}`);
+                    continue;
+                }
+                lines.push(line);
+            }
+            const newBlocks = [ ...blocks ];
+            if (lines.length > 0) {
+                // hot records are listed in key order, so lines are already sorted
+                const key = `${computeIndexBlobPrefix(indexId, date)}${blocks.length.toString().padStart(4, '0')}.txt`;
+                await blobs.put(key, lines.map(v => `${v}\n`).join(''));
+                newBlocks.push({ key, first: lines[0], last: lines[lines.length - 1], count: lines.length });
+                info.blocks++;
+                info.records += lines.length;
+            }
+            if (map.size === 0 && afterKey === undefined) {
+                // nothing indexed that day, nothing to delete either
+                await blobs.put(computeManifestKey(indexId, date), JSON.stringify({ indexId, date, records: 0, blocks: [] } as IndexManifest));
+                await saveState({ ...state, compactedThroughDate: date, compaction: undefined });
+                info.compactedDates.push(date);
+            } else if (map.size < BLOCK_SIZE) {
+                const manifest: IndexManifest = { indexId, date, records: newBlocks.reduce((a, b) => a + b.count, 0), blocks: newBlocks };
+                await blobs.put(computeManifestKey(indexId, date), JSON.stringify(manifest));
+                // queries read this day from the index blobs from now on
+                await saveState({ ...state, compactedThroughDate: date, compaction: { date, phase: 'delete', blocks: [] } });
+                info.compactedDates.push(date);
+            } else {
+                await saveState({ ...state, compaction: { date, phase: 'write', afterKey: lastKey, blocks: newBlocks } });
+            }
+        } else {
+            const limit = 128; // max delete
+            const map = await storage.list({ prefix, limit, noCache: true, allowConcurrency: true });
+            info.listCalls++;
+            const keys = [ ...map.keys() ];
+            if (keys.length > 0) info.deleted += await storage.delete(keys, { noCache: true });
+            if (keys.length < limit) await saveState({ ...state, compaction: undefined });
+        }
+    }
+
+    // delete index blobs that have aged out of the cold tier
+    const blobPrefix = `indexes/${indexId}/`;
+    while (true) {
+        if (info.listCalls >= maxListCalls) return info;
+        const { keys } = await blobs.list({ keyPrefix: blobPrefix });
+        info.listCalls++;
+        const expiredKeys = keys.filter(v => v.substring(blobPrefix.length, blobPrefix.length + 10) <= expireThroughDate);
+        for (const key of expiredKeys) {
+            await blobs.delete(key);
+            info.expiredBlobs++;
+        }
+        if (expiredKeys.length < keys.length || keys.length === 0) break;
+    }
+
+    info.done = true;
+    return info;
+}
+
+export async function loadIndexLifecycleState(indexId: number, storage: DurableObjectStorage): Promise<IndexLifecycleState> {
+    const record = await storage.get(computeStateKey(indexId));
+    if (record === undefined) return {};
+    if (!isValidIndexLifecycleState(record)) throw new Error(`Invalid index lifecycle state for ${indexId}: ${JSON.stringify(record)}`);
+    return record;
+}
+
+export function isValidIndexLifecycleState(obj: unknown): obj is IndexLifecycleState {
+    return isStringRecord(obj)
+        && (obj.compactedThroughDate === undefined || typeof obj.compactedThroughDate === 'string' && isValidDate(obj.compactedThroughDate))
+        && (obj.compaction === undefined || isValidCompactionProgress(obj.compaction))
+        ;
+}
+
+export type TieredIndexQuery = { value: string, limit: number, descending?: boolean, startTimeInclusive?: string, startTimeExclusive?: string, endTimeExclusive?: string, resumeAfter?: string };
+
+export interface TieredIndexResult {
+    readonly sortKeys: readonly string[];
+    readonly resumeDate?: string; // yyyy-mm-dd, set when the read budget ran out before the limit: the next day to read (in query order)
+    readonly resumeAfter?: string; // set when the budget ran out partway through resumeDate: pass it back with the query to skip the part of that day already read
+}
+
+/**
+ * Sort keys of hits with the given index value, reading each day from durable object storage or index blobs depending on where it currently lives.
+ *
+ * Reads are bounded per call, so a long scan can return partial results with a resumeDate (and resumeAfter) to continue from.
+ */
+export async function queryTieredIndex(lifecycle: IndexLifecycle, query: TieredIndexQuery, { storage, blobs, now = Date.now(), maxBlobReads = 200, maxListCalls = 100, manifestCache = MANIFEST_CACHE }: { storage: DurableObjectStorage, blobs: Blobs, now?: number, maxBlobReads?: number, maxListCalls?: number, manifestCache?: Map<string, IndexManifest> }): Promise<TieredIndexResult> {
+    const { indexId, hotDays, coldDays } = lifecycle;
+    const { value, limit, descending, startTimeInclusive, startTimeExclusive, endTimeExclusive, resumeAfter } = query;
+    const rt: string[] = [];
+    if (limit <= 0) return { sortKeys: rt };
+
+    const nowInstant = new Date(now).toISOString();
+    const today = nowInstant.substring(0, 10);
+    const windowStart = computeIndexWindowStartInstant(now);
+    const windowStartTimestamp = computeTimestamp(windowStart);
+    const firstDate = maxString(windowStart.substring(0, 10), addDaysToDateString(today, -(hotDays + coldDays) + 1));
+    const startDate = maxString(firstDate, startTimeInclusive ?? startTimeExclusive ?? firstDate).substring(0, 10);
+    const endDate = minString(nowInstant, endTimeExclusive ?? nowInstant).substring(0, 10);
+    const startTimestamp = startTimeInclusive ? computeTimestamp(startTimeInclusive) : undefined;
+    const startAfterTimestamp = startTimeExclusive ? computeTimestamp(startTimeExclusive) : undefined;
+    const endTimestamp = endTimeExclusive ? computeTimestamp(endTimeExclusive) : undefined;
+    const isWanted = (sortKey: string) => {
+        const timestamp = sortKey.substring(0, 15);
+        return timestamp >= windowStartTimestamp
+            && (!startTimestamp || timestamp >= startTimestamp)
+            && (!startAfterTimestamp || timestamp > startAfterTimestamp)
+            && (!endTimestamp || timestamp < endTimestamp);
+    }
+
+    const { compactedThroughDate } = await loadIndexLifecycleState(indexId, storage);
+    const earliestHotDate = await findEarliestHotDate(indexId, storage); // usually the day after compactedThroughDate, unless compaction is behind
+    let listCalls = 0;
+    let blobReads = 0;
+    let daysRead = 0;
+    const isAfterResumePosition = (sortKey: string) => daysRead > 0 || resumeAfter === undefined || (descending ? sortKey < resumeAfter : sortKey > resumeAfter); // only applies to the first day read
+    let date = descending ? endDate : startDate;
+    while (descending ? date >= startDate : date <= endDate) {
+        // stop between days where possible, and always make progress on the first one, so that resuming always makes progress
+        if (daysRead > 0 && (blobReads >= maxBlobReads || listCalls >= maxListCalls)) return { sortKeys: rt, resumeDate: date };
+        if (compactedThroughDate && date <= compactedThroughDate) {
+            // cold: matching lines are contiguous, in zero or more blocks
+            const manifest = await getOrLoadManifest(computeManifestKey(indexId, date), { blobs, manifestCache, beforeRead: () => blobReads++ });
+            const linePrefix = `${value}.`;
+            const lineEnd = `${value}/`; // '/' sorts just after '.'
+            const blocks = (manifest?.blocks ?? []).filter(v => v.last >= linePrefix && v.first < lineEnd);
+            if (daysRead > 0 && blobReads + blocks.length > maxBlobReads) return { sortKeys: rt, resumeDate: date }; // the manifest is cached for next time
+            const sortKeys: string[] = [];
+            for (const block of blocks) {
+                blobReads++;
+                const text = await blobs.get(block.key, 'text');
+                if (text === undefined) throw new Error(`Missing index block: ${block.key}`);
+                for (const line of text.split('\n')) {
+                    if (!line.startsWith(linePrefix)) continue;
+                    const sortKey = line.substring(linePrefix.length);
+                    if (isValidSortKey(sortKey) && isWanted(sortKey) && isAfterResumePosition(sortKey)) sortKeys.push(sortKey);
+                }
+            }
+            if (descending) sortKeys.reverse();
+            for (const sortKey of sortKeys) {
+                rt.push(sortKey);
+                if (rt.length >= limit) return { sortKeys: rt };
+            }
+        } else if (earliestHotDate && date >= earliestHotDate) {
+            // hot: list the day's records for this value, skipping any longer values that share the prefix
+            const prefix = `hits.i0.${indexId}.${computeDatestamp(date)}.${value}.`;
+            const resuming = daysRead === 0 && resumeAfter !== undefined;
+            let start = startTimestamp && !(resuming && !descending) ? `${prefix}${startTimestamp}` : undefined;
+            let startAfter = resuming && !descending ? `${prefix}${resumeAfter}` : startAfterTimestamp ? `${prefix}${startAfterTimestamp}` : undefined;
+            let end = resuming && descending ? `${prefix}${resumeAfter}` : endTimestamp ? `${prefix}${endTimestamp}` : undefined;
+            while (true) {
+                // window is only 92 days, so the list budget is only reached when paging past many longer values sharing the prefix: resume from the last key listed
+                if (listCalls >= maxListCalls) return { sortKeys: rt, resumeDate: date, resumeAfter: (descending ? end : startAfter)?.substring(prefix.length) };
+                listCalls++;
+                const listLimit = limit - rt.length;
+                const map = await storage.list({ limit: listLimit, reverse: descending, noCache: true, allowConcurrency: true, prefix, start, startAfter, end });
+                let lastKey: string | undefined;
+                for (const [ key, sortKey ] of map) {
+                    if (typeof sortKey !== 'string' || !isValidSortKey(sortKey)) throw new Error(`Unexpected index record: ${JSON.stringify({ key, sortKey })}`);
+                    lastKey = key;
+                    if (key !== `${prefix}${sortKey}` || !isWanted(sortKey) || !isAfterResumePosition(sortKey)) continue;
+                    rt.push(sortKey);
+                    if (rt.length >= limit) return { sortKeys: rt };
+                }
+                if (map.size < listLimit || lastKey === undefined) break;
+                if (descending) {
+                    end = lastKey;
+                } else {
+                    start = undefined;
+                    startAfter = lastKey;
+                }
+            }
+        }
+        daysRead++;
+        date = addDaysToDateString(date, descending ? -1 : 1);
+    }
+    return { sortKeys: rt };
+}
+
+//
+
+const BLOCK_SIZE = 1000; // lines per index blob, small enough that a single-value lookup reads ~100kb per day
+
+const MANIFEST_CACHE = new Map<string, IndexManifest>(); // manifests never change once written, shared by default across queries in the isolate
+const MAX_CACHED_MANIFESTS = 1000;
+
+function computeStateKey(indexId: number): string {
+    return `hits.il.${indexId}`;
+}
+
+function computeIndexBlobPrefix(indexId: number, date: string): string {
+    return `indexes/${indexId}/${date}/`;
+}
+
+function computeManifestKey(indexId: number, date: string): string {
+    return `${computeIndexBlobPrefix(indexId, date)}manifest.json`;
+}
+
+function computeDatestamp(date: string): string {
+    return computeTimestamp(`${date}T00:00:00.000Z`).substring(0, 6);
+}
+
+function isValidDate(date: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(date);
+}
+
+function isValidCompactionProgress(obj: unknown): obj is CompactionProgress {
+    return isStringRecord(obj)
+        && typeof obj.date === 'string' && isValidDate(obj.date)
+        && (obj.phase === 'write' || obj.phase === 'delete')
+        && (obj.afterKey === undefined || typeof obj.afterKey === 'string')
+        && Array.isArray(obj.blocks) && obj.blocks.every(isValidIndexBlockInfo)
+        ;
+}
+
+function isValidIndexBlockInfo(obj: unknown): obj is IndexBlockInfo {
+    return isStringRecord(obj)
+        && typeof obj.key === 'string'
+        && typeof obj.first === 'string'
+        && typeof obj.last === 'string'
+        && typeof obj.count === 'number'
+        ;
+}
+
+function isValidIndexManifest(obj: unknown): obj is IndexManifest {
+    return isStringRecord(obj)
+        && typeof obj.indexId === 'number'
+        && typeof obj.date === 'string' && isValidDate(obj.date)
+        && typeof obj.records === 'number'
+        && Array.isArray(obj.blocks) && obj.blocks.every(isValidIndexBlockInfo)
+        ;
+}
+
+async function findEarliestHotDate(indexId: number, storage: DurableObjectStorage): Promise<string | undefined> {
+    const map = await storage.list({ prefix: `hits.i0.${indexId}.`, limit: 1, noCache: true, allowConcurrency: true });
+    for (const key of map.keys()) {
+        const datestamp = key.split('.')[3];
+        return timestampToInstant(`${datestamp}000000000`).substring(0, 10);
+    }
+    return undefined;
+}
+
+async function getOrLoadManifest(key: string, { blobs, manifestCache, beforeRead }: { blobs: Blobs, manifestCache: Map<string, IndexManifest>, beforeRead: () => void }): Promise<IndexManifest | undefined> {
+    const existing = manifestCache.get(key);
+    if (existing) return existing;
+    beforeRead();
+    const obj = await blobs.get(key, 'json');
+    if (obj === undefined) return undefined; // compacted day with a missing manifest: already expired, don't cache
+    if (!isValidIndexManifest(obj)) throw new Error(`Invalid index manifest: ${key}`);
+    manifestCache.set(key, obj);
+    while (manifestCache.size > MAX_CACHED_MANIFESTS) manifestCache.delete(manifestCache.keys().next().value!);
+    return obj;
+}
@@ -0,0 +1,195 @@
+import { chunk, DurableObjectStorageListOptions, DurableObjectStorageReadOptions, DurableObjectStorageValue } from '../deps.ts';
+import { assert, assertEquals, InMemoryDurableObjectStorage } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { addDaysToDateString, computeTimestamp, timestampToInstant } from '../timestamp.ts';
+import { generateUuid } from '../uuid.ts';
+import { computeRecordInfo } from './hits_common.ts';
+import { compactIndex, IndexLifecycle, IndexManifest, loadIndexLifecycleState, queryTieredIndex, TieredIndexQuery } from './hits_index_lifecycle.ts';
+import { computeIndexRecords, IndexId, INDEX_LIFECYCLES } from './hits_indexes.ts';
+
+Deno.test({
+    name: 'compactIndex and queryTieredIndex',
+    fn: async () => {
+        const now = new Date('2024-08-03T23:07:04.937Z').getTime();
+        const storage = new TestStorage();
+        const blobs = new InMemoryBlobs();
+        const manifestCache = new Map<string, IndexManifest>();
+        const lifecycle = INDEX_LIFECYCLES.find(v => v.indexId === IndexId.DayUlid)!;
+
+        const saveHit = async (instant: string, ulid: string) => {
+            const record: Record<string, string> = { timestamp: computeTimestamp(instant), uuid: generateUuid(), ulid };
+            const { sortKey, timestamp } = computeRecordInfo(record);
+            const outIndexRecords: Record<string, string> = {};
+            await computeIndexRecords(record, timestamp, sortKey, outIndexRecords, IndexId.DayUlid);
+            await storage.put(outIndexRecords);
+            return sortKey;
+        };
+        const old1 = await saveHit('2024-07-08T07:04:59.476Z', 'u1');
+        const old2 = await saveHit('2024-07-08T08:00:00.000Z', 'u1');
+        await saveHit('2024-07-08T07:30:00.000Z', 'u1.suffix'); // shares the prefix, should never match
+        await saveHit('2024-07-08T07:31:00.000Z', 'u2');
+        const recent = await saveHit('2024-08-02T01:02:03.456Z', 'u1');
+
+        const query = async (opts: { descending?: boolean, limit?: number, startTimeInclusive?: string, value?: string } = {}) => {
+            const { descending = true, limit = 10, startTimeInclusive, value = 'u1' } = opts;
+            return (await queryTieredIndex(lifecycle, { value, limit, descending, startTimeInclusive }, { storage, blobs, now, manifestCache })).sortKeys;
+        };
+        const assertQueries = async () => {
+            assertEquals(await query(), [ recent, old2, old1 ]);
+            assertEquals(await query({ descending: false }), [ old1, old2, recent ]);
+            assertEquals(await query({ limit: 2 }), [ recent, old2 ]);
+            assertEquals(await query({ descending: false, startTimeInclusive: '2024-07-08T07:05:00.000Z' }), [ old2, recent ]);
+            assertEquals(await query({ value: 'u3' }), []);
+        };
+        await assertQueries();
+
+        // compact everything but the last week into index blobs
+        const info = await compactIndex(lifecycle, { storage, blobs, now, maxListCalls: 100 });
+        assertEquals(info.done, true);
+        assertEquals(info.compactedDates.length, 20); // 2024-07-08 through 2024-07-27, including empty days
+        assertEquals(info.records, 4);
+        assertEquals(info.deleted, 4);
+        assertEquals((await loadIndexLifecycleState(IndexId.DayUlid, storage)).compactedThroughDate, '2024-07-27');
+        assertEquals([ ...(await storage.list({ prefix: `hits.i0.${IndexId.DayUlid}.` })).values() ], [ recent ]);
+        await assertQueries();
+
+        // nothing more to do until tomorrow
+        assertEquals((await compactIndex(lifecycle, { storage, blobs, now })).compactedDates, []);
+
+        // old days are deleted once they leave the cold tier
+        const later = new Date('2024-10-15T00:00:00.000Z').getTime();
+        while (!(await compactIndex(lifecycle, { storage, blobs, now: later, maxListCalls: 5 })).done) {
+            // bounded work per call
+        }
+        assertEquals((await blobs.list({ keyPrefix: `indexes/${IndexId.DayUlid}/2024-07-08/` })).keys, []);
+        assertEquals(await blobs.has(`indexes/${IndexId.DayUlid}/2024-07-16/manifest.json`), true);
+        assertEquals([ ...(await storage.list({ prefix: `hits.i0.${IndexId.DayUlid}.` })).keys() ], []);
+    }
+});
+
+Deno.test({
+    name: 'compactIndex multiple blocks',
+    fn: async () => {
+        const now = new Date('2024-08-03T00:00:00.000Z').getTime();
+        const storage = new TestStorage();
+        const blobs = new InMemoryBlobs();
+        const manifestCache = new Map<string, IndexManifest>();
+        const lifecycle: IndexLifecycle = { indexId: IndexId.DayXpsId, hotDays: 1, coldDays: 10 };
+
+        const expected: Record<string, string[]> = {};
+        const outIndexRecords: Record<string, string> = {};
+        for (let i = 0; i < 2500; i++) {
+            const xpsId = `x${i % 7}`;
+            const record: Record<string, string> = { timestamp: computeTimestamp(new Date('2024-08-01T00:00:00.000Z').getTime() + i * 1000), uuid: generateUuid(), xpsId };
+            const { sortKey, timestamp } = computeRecordInfo(record);
+            await computeIndexRecords(record, timestamp, sortKey, outIndexRecords, IndexId.DayXpsId);
+            (expected[xpsId] ??= []).push(sortKey);
+        }
+        for (const batch of chunk(Object.entries(outIndexRecords), 128)) {
+            await storage.put(Object.fromEntries(batch));
+        }
+
+        const info = await compactIndex(lifecycle, { storage, blobs, now });
+        assertEquals(info.blocks, 3);
+        assertEquals(info.records, 2500);
+        for (const [ xpsId, sortKeys ] of Object.entries(expected)) {
+            assertEquals((await queryTieredIndex(lifecycle, { value: xpsId, limit: 1000, descending: false }, { storage, blobs, now, manifestCache })).sortKeys, sortKeys.sort());
+        }
+    }
+});
+
+Deno.test({
+    name: 'queryTieredIndex resumes after the read budget',
+    fn: async () => {
+        const now = new Date('2024-10-03T12:00:00.000Z').getTime();
+        const storage = new TestStorage();
+        const blobs = new InMemoryBlobs();
+        const manifestCache = new Map<string, IndexManifest>();
+        const lifecycle: IndexLifecycle = { indexId: IndexId.DayUlid, hotDays: 2, coldDays: 85 };
+
+        const expected: string[] = [];
+        for (const date of [ '2024-09-08', '2024-09-12', '2024-09-20', '2024-10-02', '2024-10-03' ]) {
+            const record: Record<string, string> = { timestamp: computeTimestamp(`${date}T10:00:00.000Z`), uuid: generateUuid(), ulid: 'resume' };
+            const { sortKey, timestamp } = computeRecordInfo(record);
+            const outIndexRecords: Record<string, string> = {};
+            await computeIndexRecords(record, timestamp, sortKey, outIndexRecords, IndexId.DayUlid);
+            await storage.put(outIndexRecords);
+            expected.push(sortKey);
+        }
+        while (!(await compactIndex(lifecycle, { storage, blobs, now })).done) {
+            // until caught up
+        }
+
+        for (const descending of [ false, true ]) {
+            const found: string[] = [];
+            let resumes = 0;
+            let query: TieredIndexQuery = { value: 'resume', limit: 100, descending };
+            while (true) {
+                const { sortKeys, resumeDate } = await queryTieredIndex(lifecycle, query, { storage, blobs, now, maxBlobReads: 3, manifestCache });
+                found.push(...sortKeys);
+                if (!resumeDate) break;
+                resumes++;
+                query = descending ? { ...query, endTimeExclusive: `${addDaysToDateString(resumeDate, 1)}T00:00:00.000Z` } : { ...query, startTimeInclusive: `${resumeDate}T00:00:00.000Z` };
+            }
+            assertEquals(found, descending ? [ ...expected ].reverse() : expected);
+            assert(resumes > 0, `descending=${descending}`);
+        }
+    }
+});
+
+Deno.test({
+    name: 'queryTieredIndex resumes partway through a hot day',
+    fn: async () => {
+        const now = new Date('2024-08-03T12:00:00.000Z').getTime();
+        const storage = new TestStorage();
+        const blobs = new InMemoryBlobs();
+        const lifecycle = INDEX_LIFECYCLES.find(v => v.indexId === IndexId.DayUserAgent)!;
+
+        const saveHit = async (instant: string, userAgent: string) => {
+            const record: Record<string, string> = { timestamp: computeTimestamp(instant), uuid: generateUuid(), userAgent };
+            const { sortKey, timestamp } = computeRecordInfo(record);
+            const outIndexRecords: Record<string, string> = {};
+            await computeIndexRecords(record, timestamp, sortKey, outIndexRecords, IndexId.DayUserAgent);
+            await storage.put(outIndexRecords);
+            return sortKey;
+        };
+        const expected: string[] = [];
+        for (let i = 0; i < 5; i++) {
+            expected.push(await saveHit(`2024-08-03T0${i}:00:00.000Z`, 'App/1.0'));
+            // longer values sharing the prefix, listed before and after the exact ones
+            await saveHit(`2024-08-03T0${i}:00:01.000Z`, `App/1.0.0${i}`);
+            await saveHit(`2024-08-03T0${i}:00:02.000Z`, `App/1.0.9${i}`);
+        }
+
+        for (const descending of [ false, true ]) {
+            const found: string[] = [];
+            let resumes = 0; // partway through a day
+            let query: TieredIndexQuery = { value: 'App/1.0', limit: 2, descending };
+            while (true) {
+                const { sortKeys, resumeDate, resumeAfter } = await queryTieredIndex(lifecycle, query, { storage, blobs, now, maxListCalls: 2, manifestCache: new Map() });
+                found.push(...sortKeys);
+                if (resumeDate) {
+                    // ran out of list calls, usually partway through the day skipping the longer values
+                    if (resumeAfter !== undefined) resumes++;
+                    query = descending ? { ...query, endTimeExclusive: `${addDaysToDateString(resumeDate, 1)}T00:00:00.000Z`, resumeAfter } : { ...query, startTimeInclusive: `${resumeDate}T00:00:00.000Z`, startTimeExclusive: undefined, resumeAfter };
+                    continue;
+                }
+                if (sortKeys.length < query.limit) break;
+                // full page, continue after the last one
+                const instant = timestampToInstant(sortKeys[sortKeys.length - 1].substring(0, 15));
+                query = descending ? { ...query, endTimeExclusive: instant, resumeAfter: undefined } : { ...query, startTimeInclusive: undefined, startTimeExclusive: instant, resumeAfter: undefined };
+            }
+            assertEquals(found, descending ? [ ...expected ].reverse() : expected);
+            assert(resumes > 0, `descending=${descending}`);
+        }
+    }
+});
+
+//
+
+class TestStorage extends InMemoryDurableObjectStorage {
+    list(options: DurableObjectStorageListOptions & DurableObjectStorageReadOptions = {}): Promise<Map<string, DurableObjectStorageValue>> {
+        const { allowConcurrency: _, noCache: __, ...rest } = options;
+        return super.list(rest);
+    }
+}
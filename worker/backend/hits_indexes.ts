@@ -5,17 +5,39 @@ import { Unkinded, QueryHitsIndexRequest } from '../rpc_model.ts';
 import { computeTimestamp, addMonthsToMonthString, addDaysToDateString } from '../timestamp.ts';
 import { isValidSortKey, computeIndexWindowStartInstant } from './hits_common.ts';
 import { maxString, minString } from '../collections.ts';
+import { Blobs } from './blobs.ts';
+import { IndexLifecycle, queryTieredIndex } from './hits_index_lifecycle.ts';
 
 export enum IndexId {
     MonthHashedIpAddress = 1,
     DayUrl = 2,
+    DayUlid = 3,
+    DayXpsId = 4,
+    DayUserAgent = 5,
+    DayReferer = 6,
 }
 
 export const INDEX_DEFINITIONS: [ string, IndexId, (v: string, timestamp: string) => string | undefined | Promise<string | undefined> ][] = [
     [ 'hashedIpAddress', IndexId.MonthHashedIpAddress, (v, timestamp) => `${timestamp.substring(0, 4)}.${unpackHashedIpAddressHash(v)}` ],
     [ 'url', IndexId.DayUrl, (v, timestamp) => `${timestamp.substring(0, 6)}.${computeServerUrl(v).substring(0, 1024)}` ],
+    [ 'ulid', IndexId.DayUlid, (v, timestamp) => `${timestamp.substring(0, 6)}.${v.substring(0, 1024)}` ],
+    [ 'xpsId', IndexId.DayXpsId, (v, timestamp) => `${timestamp.substring(0, 6)}.${v.substring(0, 1024)}` ],
+    [ 'userAgent', IndexId.DayUserAgent, (v, timestamp) => `${timestamp.substring(0, 6)}.${v.substring(0, 1024)}` ],
+    [ 'referer', IndexId.DayReferer, (v, timestamp) => `${timestamp.substring(0, 6)}.${v.substring(0, 1024)}` ],
 ];
 
+/** Day indexes that are only kept in storage for a few days, then compacted into index blobs until they leave the 90-day query window */
+export const INDEX_LIFECYCLES: IndexLifecycle[] = [
+    { indexId: IndexId.DayUlid, hotDays: 7, coldDays: 85 },
+    { indexId: IndexId.DayXpsId, hotDays: 7, coldDays: 85 },
+    { indexId: IndexId.DayUserAgent, hotDays: 2, coldDays: 90 }, // nearly every hit has one, so compact sooner
+    { indexId: IndexId.DayReferer, hotDays: 2, coldDays: 90 },
+];
+
+/** Response headers on hits index query responses that stopped early, see TieredIndexResult.resumeDate and resumeAfter */
+export const HITS_INDEX_RESUME_DATE_HEADER = 'x-resume-date';
+export const HITS_INDEX_RESUME_AFTER_HEADER = 'x-resume-after';
+
 export async function computeIndexRecords(record: Record<string, string>, timestamp: string, sortKey: string, outIndexRecords: Record<string, string>, filterIndexId?: IndexId): Promise<void> {
     for (const [ property, indexId, indexValueFn ] of INDEX_DEFINITIONS) {
         if (filterIndexId && filterIndexId !== indexId) continue;
@@ -80,8 +102,8 @@ export function computeMonthEndSuffix(time = Date.now()): string {
     return `${computeTimestampMonth(addMonthsToMonthString(todaysWindowStartMonth, -1))}.${byteHex}`;
 }
 
-export async function queryHitsIndexFromStorage(request: Unkinded<QueryHitsIndexRequest>, storage: DurableObjectStorage, now = Date.now()): Promise<string[]> {
-    const { limit, descending, startTimeInclusive, startTimeExclusive, endTimeExclusive, hashedIpAddress, rawIpAddress, url, urlStartsWith } = request;
+export async function queryHitsIndexFromStorage(request: Unkinded<QueryHitsIndexRequest>, storage: DurableObjectStorage, now = Date.now(), indexBlobs?: Blobs, outInfo: { resumeDate?: string, resumeAfter?: string } = {}): Promise<string[]> {
+    const { limit, descending, startTimeInclusive, startTimeExclusive, endTimeExclusive, hashedIpAddress, rawIpAddress, url, urlStartsWith, ulid, xpsId, userAgent, referer, resumeAfter } = request;
     if (typeof rawIpAddress === 'string') throw new Error(`Unable to query for a raw ip address, they are not stored`);
     const rt: string[] = [];
     if (limit <= 0) return rt;
@@ -248,6 +270,18 @@ export async function queryHitsIndexFromStorage(request: Unkinded<QueryHitsIndex
             }
             return rt;
         }
+    } else if (typeof ulid === 'string' || typeof xpsId === 'string' || typeof userAgent === 'string' || typeof referer === 'string') {
+        // tiered: recent days from storage, older days from index blobs
+        const [ indexId, value ] = typeof ulid === 'string' ? [ IndexId.DayUlid, ulid ]
+            : typeof xpsId === 'string' ? [ IndexId.DayXpsId, xpsId ]
+            : typeof userAgent === 'string' ? [ IndexId.DayUserAgent, userAgent ]
+            : [ IndexId.DayReferer, referer! ];
+        const lifecycle = INDEX_LIFECYCLES.find(v => v.indexId === indexId)!;
+        if (!indexBlobs) throw new Error(`Need indexBlobs to query ${IndexId[indexId]}`);
+        const { sortKeys, resumeDate, resumeAfter: nextResumeAfter } = await queryTieredIndex(lifecycle, { value: value.substring(0, 1024), limit, descending, startTimeInclusive, startTimeExclusive, endTimeExclusive, resumeAfter }, { storage, blobs: indexBlobs, now });
+        outInfo.resumeDate = resumeDate;
+        outInfo.resumeAfter = nextResumeAfter;
+        return [ ...sortKeys ];
     } else {
         throw new Error(`Unsupported request: ${JSON.stringify(request)}`);
     }
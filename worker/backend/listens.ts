@@ -24,20 +24,68 @@ export function isValidUnpackedMinuteMap(obj: unknown): obj is number[] {
 }
 
 export function isValidPackedMinuteMap(obj: unknown): obj is string {
-    return typeof obj === 'string' && tryUnpackMinuteMap(obj) !== undefined;
+    return typeof obj === 'string' && /^[01]+$/.test(obj);
+}
+
+/** Computes the retention curve over the given minute maps, plus any older minute maps already rolled up. */
+export function computeEpisodeRetention(minuteMaps: readonly string[], rollup?: MinuteMapRollup): EpisodeRetention {
+    const { listeners, present, listened } = rollupMinuteMaps(minuteMaps, rollup);
+    const curve = present.map(v => listeners > 0 ? roundPercent(v * 100 / listeners) : 0);
+    const medianMinutes = computePercentile(listened, listeners, 0.5);
+    const p75Minutes = computePercentile(listened, listeners, 0.75);
+
+    // largest minute-over-minute drops, ignoring small noise
+    const dropoffs = curve.flatMap((v, i) => i > 0 && curve[i - 1] - v >= MIN_DROPOFF_PERCENT ? [ { minute: i + 1, drop: roundPercent(curve[i - 1] - v) } ] : []);
+    const hotspots = dropoffs.sort((a, b) => b.drop - a.drop || a.minute - b.minute).slice(0, MAX_HOTSPOTS);
+    return { listeners, curve, medianMinutes, p75Minutes, hotspots };
+}
+
+export function computeEpisodeRetentionCsv(episodeRetention: Record<string, EpisodeRetention>): string {
+    const lines = [ 'itemGuid,listeners,medianMinutes,p75Minutes,minute,percent' ];
+    for (const [ itemGuid, { listeners, medianMinutes, p75Minutes, curve } ] of Object.entries(episodeRetention)) {
+        const guid = /[",\r\n]/.test(itemGuid) ? `"${itemGuid.replaceAll('"', '""')}"` : itemGuid;
+        curve.forEach((percent, i) => lines.push([ guid, listeners, medianMinutes ?? '', p75Minutes ?? '', i + 1, percent ].join(',')));
+    }
+    return lines.join('\n') + '\n';
+}
+
+export interface EpisodeRetention {
+    readonly listeners: number; // number of minute maps
+    readonly curve: number[]; // percent of listeners present at each minute (index 0 = minute 1)
+    readonly medianMinutes?: number; // minutes listened, undefined if no listeners
+    readonly p75Minutes?: number;
+    readonly hotspots: { minute: number, drop: number }[]; // largest drop-offs (percentage points) into the given minute, largest first
 }
 
 export interface EpisodeListenStats {
     readonly itemGuid: string;
-    readonly minuteMaps: string[];
+    readonly minuteMaps: string[]; // most recent, older minute maps are folded into the rollup
     readonly appCounts: Record<string, number>;
+    readonly rollup?: MinuteMapRollup;
+    readonly lastSubmitted?: string; // instant, used to drop the least recently listened episodes
 }
 
 export function isValidEpisodeListenStats(obj: unknown): obj is EpisodeListenStats {
     return isStringRecord(obj)
         && typeof obj.itemGuid === 'string'
-        && Array.isArray(obj.minuteMaps) && obj.minuteMaps.every(isValidPackedMinuteMap)
+        && Array.isArray(obj.minuteMaps) && obj.minuteMaps.every(v => typeof v === 'string') // stored maps predate the stricter submission check, non-1 minutes unpack as 0
         && isStringRecord(obj.appCounts)
+        && (obj.rollup === undefined || isValidMinuteMapRollup(obj.rollup))
+        && (obj.lastSubmitted === undefined || typeof obj.lastSubmitted === 'string')
+        ;
+}
+
+export interface MinuteMapRollup {
+    readonly listeners: number; // number of minute maps rolled up
+    readonly present: number[]; // listeners present at each minute (index 0 = minute 1)
+    readonly listened: Record<string, number>; // minutes listened -> listeners
+}
+
+export function isValidMinuteMapRollup(obj: unknown): obj is MinuteMapRollup {
+    return isStringRecord(obj)
+        && typeof obj.listeners === 'number'
+        && Array.isArray(obj.present) && obj.present.every(v => typeof v === 'number')
+        && isStringRecord(obj.listened) && Object.values(obj.listened).every(v => typeof v === 'number')
         ;
 }
 
@@ -53,6 +101,92 @@ export function isValidShowListenStats(obj: unknown): obj is ShowListenStats {
         ;
 }
 
+export interface ListenSubmission {
+    readonly itemGuid: string;
+    readonly appName: string;
+    readonly minuteMap: string; // packed, e.g. 1100...
+}
+
+export function isValidListenSubmission(obj: unknown): obj is ListenSubmission {
+    return isStringRecord(obj)
+        && typeof obj.itemGuid === 'string' && obj.itemGuid.length > 0 && obj.itemGuid.length <= 1024
+        && typeof obj.appName === 'string' && obj.appName.length > 0 && obj.appName.length <= 100
+        && isValidPackedMinuteMap(obj.minuteMap) && obj.minuteMap.length > 0 && obj.minuteMap.length <= MAX_MINUTE_MAP_LENGTH
+        ;
+}
+
+/**
+ * Merges new submissions into the existing show stats, keeping the stored blob bounded.
+ *
+ * Each episode keeps its most recent minute maps as-is, up to a total length, and folds older ones into a rollup, so retention stays exact.
+ * Only the most recently listened episodes are kept.
+ */
+export function mergeListenSubmissions({ showUuid, stats, submissions, time = new Date().toISOString() }: { showUuid: string, stats: ShowListenStats | undefined, submissions: readonly ListenSubmission[], time?: string }): ShowListenStats {
+    const episodeListenStats = { ...stats?.episodeListenStats };
+    for (const { itemGuid, appName, minuteMap } of submissions) {
+        const key = Object.entries(episodeListenStats).find(v => v[1].itemGuid === itemGuid)?.[0] ?? itemGuid;
+        const existing = episodeListenStats[key] ?? { itemGuid, minuteMaps: [], appCounts: {} };
+        let minuteMaps = [ ...existing.minuteMaps, minuteMap ];
+        let rollup = existing.rollup;
+        let keepIndex = minuteMaps.length - 1; // always keep the newest
+        for (let length = minuteMap.length; keepIndex > 0 && length + minuteMaps[keepIndex - 1].length <= MAX_MINUTE_MAP_CHARS_PER_EPISODE; length += minuteMaps[--keepIndex].length);
+        if (keepIndex > 0) {
+            rollup = rollupMinuteMaps(minuteMaps.slice(0, keepIndex), rollup);
+            minuteMaps = minuteMaps.slice(keepIndex);
+        }
+        const appCounts = { ...existing.appCounts };
+        const appKey = appName in appCounts || Object.keys(appCounts).length < MAX_APP_NAMES_PER_EPISODE ? appName : OTHER_APP_NAME;
+        appCounts[appKey] = (appCounts[appKey] ?? 0) + 1;
+        episodeListenStats[key] = { itemGuid, minuteMaps, appCounts, ...(rollup ? { rollup } : {}), lastSubmitted: time };
+    }
+    const keys = Object.keys(episodeListenStats);
+    if (keys.length > MAX_EPISODES_PER_SHOW) {
+        keys.sort((a, b) => (episodeListenStats[b].lastSubmitted ?? '').localeCompare(episodeListenStats[a].lastSubmitted ?? ''));
+        keys.slice(MAX_EPISODES_PER_SHOW).forEach(v => delete episodeListenStats[v]);
+    }
+    return { showUuid, episodeListenStats };
+}
+
 export function computeShowListenStatsKey({ showUuid }: { showUuid: string }): string {
     return `listens/show/${showUuid}/${showUuid}.listen-stats.json`;
 }
+
+//
+
+const MAX_MINUTE_MAP_LENGTH = 60 * 24; // one day of minutes
+const MAX_MINUTE_MAP_CHARS_PER_EPISODE = 100 * 60; // e.g. the 100 most recent one-hour listens
+const MAX_APP_NAMES_PER_EPISODE = 100;
+const OTHER_APP_NAME = 'Other';
+const MAX_EPISODES_PER_SHOW = 1000;
+const MIN_DROPOFF_PERCENT = 5;
+const MAX_HOTSPOTS = 3;
+
+function roundPercent(percent: number): number {
+    return Math.round(percent * 10) / 10;
+}
+
+function rollupMinuteMaps(minuteMaps: readonly string[], rollup: MinuteMapRollup | undefined): MinuteMapRollup {
+    const present = [ ...rollup?.present ?? [] ];
+    const listened = { ...rollup?.listened };
+    for (const minuteMap of minuteMaps) {
+        let minutes = 0;
+        [...minuteMap].forEach((v, i) => {
+            present[i] = present[i] ?? 0;
+            if (v !== '1') return;
+            present[i]++;
+            minutes++;
+        });
+        listened[minutes.toString()] = (listened[minutes.toString()] ?? 0) + 1;
+    }
+    return { listeners: (rollup?.listeners ?? 0) + minuteMaps.length, present, listened };
+}
+
+function computePercentile(listened: Record<string, number>, listeners: number, percentile: number): number | undefined {
+    if (listeners === 0) return undefined;
+    const index = Math.min(listeners - 1, Math.floor(listeners * percentile));
+    let seen = 0;
+    for (const [ minutes, count ] of Object.entries(listened).map(([ k, v ]) => [ parseInt(k), v ]).sort((a, b) => a[0] - b[0])) {
+        seen += count;
+        if (seen > index) return minutes;
+    }
+}
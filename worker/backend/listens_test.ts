@@ -1,6 +1,6 @@
 import { assertEquals } from '../tests/deps.ts';
 import { generateUuid } from '../uuid.ts';
-import { ShowListenStats, isValidShowListenStats, isValidUnpackedMinuteMap, packMinuteMap, unpackMinuteMap } from './listens.ts';
+import { ShowListenStats, computeEpisodeRetention, computeEpisodeRetentionCsv, isValidListenSubmission, isValidShowListenStats, mergeListenSubmissions, isValidUnpackedMinuteMap, packMinuteMap, unpackMinuteMap } from './listens.ts';
 
 Deno.test({
     name: 'minuteMaps',
@@ -35,3 +35,79 @@ Deno.test({
         assertEquals(isValidShowListenStats(stats), true);
     }
 });
+
+Deno.test({
+    name: 'computeEpisodeRetention',
+    fn: () => {
+        const retention = computeEpisodeRetention([ '1111', '1100', '1000', '0110' ]);
+        assertEquals(retention.listeners, 4);
+        assertEquals(retention.curve, [ 75, 75, 50, 25 ]);
+        assertEquals(retention.medianMinutes, 2);
+        assertEquals(retention.p75Minutes, 4);
+        assertEquals(retention.hotspots, [ { minute: 3, drop: 25 }, { minute: 4, drop: 25 } ]);
+
+        // rolled up minute maps count the same as the originals
+        assertEquals(computeEpisodeRetention([ '0110' ], { listeners: 3, present: [ 3, 2, 1, 1 ], listened: { '1': 1, '2': 1, '4': 1 } }), retention);
+
+        assertEquals(computeEpisodeRetention([]), { listeners: 0, curve: [], medianMinutes: undefined, p75Minutes: undefined, hotspots: [] });
+
+        assertEquals(computeEpisodeRetentionCsv({ 'guid,1': computeEpisodeRetention([ '10' ]) }), [
+            'itemGuid,listeners,medianMinutes,p75Minutes,minute,percent',
+            '"guid,1",1,1,1,1,100',
+            '"guid,1",1,1,1,2,0',
+            '',
+        ].join('\n'));
+    }
+});
+
+Deno.test({
+    name: 'mergeListenSubmissions',
+    fn: () => {
+        const showUuid = generateUuid();
+        assertEquals(isValidListenSubmission({ itemGuid: 'guid1', appName: 'App', minuteMap: '110' }), true);
+        assertEquals(isValidListenSubmission({ itemGuid: 'guid1', appName: 'App', minuteMap: '' }), false);
+        assertEquals(isValidListenSubmission({ itemGuid: '', appName: 'App', minuteMap: '1' }), false);
+        assertEquals(isValidListenSubmission({ itemGuid: 'guid1', appName: 'App', minuteMap: 'xyz' }), false);
+        assertEquals(isValidListenSubmission({ itemGuid: 'guid1', appName: 'App', minuteMap: '1'.repeat(60 * 24 + 1) }), false);
+
+        const time = '2024-01-01T00:00:00.000Z';
+        const stats: ShowListenStats = { showUuid, episodeListenStats: { ep1: { itemGuid: 'guid1', minuteMaps: [ '1' ], appCounts: { App: 1 } } } };
+        const merged = mergeListenSubmissions({ showUuid, stats, submissions: [ { itemGuid: 'guid1', appName: 'App', minuteMap: '11' }, { itemGuid: 'guid2', appName: 'Other', minuteMap: '10' } ], time });
+        assertEquals(merged.episodeListenStats, {
+            ep1: { itemGuid: 'guid1', minuteMaps: [ '1', '11' ], appCounts: { App: 2 }, lastSubmitted: time },
+            guid2: { itemGuid: 'guid2', minuteMaps: [ '10' ], appCounts: { Other: 1 }, lastSubmitted: time },
+        });
+        assertEquals(stats.episodeListenStats.ep1.minuteMaps, [ '1' ]); // input unchanged
+        assertEquals(isValidShowListenStats(merged), true);
+    }
+});
+
+Deno.test({
+    name: 'mergeListenSubmissions bounded',
+    fn: () => {
+        const showUuid = generateUuid();
+        const hour = '1'.repeat(60);
+        const halfHour = '1'.repeat(30);
+
+        // older minute maps are rolled up, retention is unchanged
+        const submissions = [ ...Array(150).keys() ].map(i => ({ itemGuid: 'guid1', appName: `App${i}`, minuteMap: i % 2 === 0 ? hour : halfHour }));
+        let stats: ShowListenStats | undefined;
+        for (const submission of submissions) {
+            stats = mergeListenSubmissions({ showUuid, stats, submissions: [ submission ] });
+        }
+        if (!stats) throw new Error();
+        const { minuteMaps, rollup, appCounts } = stats.episodeListenStats.guid1;
+        assertEquals(minuteMaps.reduce((a, b) => a + b.length, 0) <= 100 * 60, true);
+        assertEquals((rollup?.listeners ?? 0) + minuteMaps.length, 150);
+        assertEquals(computeEpisodeRetention(minuteMaps, rollup), computeEpisodeRetention(submissions.map(v => v.minuteMap)));
+        assertEquals(Object.keys(appCounts).length, 101);
+        assertEquals(appCounts.Other, 50);
+        assertEquals(isValidShowListenStats(stats), true);
+
+        // only the most recently listened episodes are kept
+        const many = mergeListenSubmissions({ showUuid, stats: undefined, submissions: [ ...Array(1000).keys() ].map(i => ({ itemGuid: `guid${i}`, appName: 'App', minuteMap: '1' })), time: '2024-01-01T00:00:00.000Z' });
+        const more = mergeListenSubmissions({ showUuid, stats: many, submissions: [ { itemGuid: 'new', appName: 'App', minuteMap: '1' } ], time: '2024-01-02T00:00:00.000Z' });
+        assertEquals(Object.keys(more.episodeListenStats).length, 1000);
+        assertEquals(more.episodeListenStats.new.lastSubmitted, '2024-01-02T00:00:00.000Z');
+    }
+});
@@ -6,7 +6,7 @@ import { isValidDate } from '../check.ts';
 import { QueryDownloadsRequest } from '../rpc_model.ts';
 import { yieldTsvFromStream } from '../streams.ts';
 import { addDaysToDateString } from '../timestamp.ts';
-import { newQueryResponse } from '../routes/api_query_common.ts';
+import { newQueryResponse, QueryResponseEnd } from '../routes/api_query_common.ts';
 
 export async function computeQueryDownloadsResponse(request: QueryDownloadsRequest, { statsBlobs: rwStatsBlobs, roStatsBlobs }: { statsBlobs?: Blobs, roStatsBlobs?: Blobs }): Promise<Response> {
     const { showUuid, bots = 'exclude', episodeId: episodeIdFilter, limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, format = 'tsv', continuationToken: continuationTokenFilter, skipHeaders, ro} = request;
@@ -30,23 +30,33 @@ export async function computeQueryDownloadsResponse(request: QueryDownloadsReque
     const unpackedContinuationTokenFilter = continuationTokenFilter ? unpackContinuationToken(continuationTokenFilter) : undefined;
 
     const startTime = Date.now();
-    const rows: unknown[] = [];
+    const rows = yieldRows({ date, statsBlobs, showUuid, bots, episodeIdFilter, limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, format, continuationTokenFilter: unpackedContinuationTokenFilter });
+    return await newQueryResponse({ startTime, format, headers, rows, continuationToken: undefined, skipHeaders });
+}
+
+//
+
+const headers = [ 'time', 'url', 'audienceId', 'showUuid', 'episodeId', 'hashedIpAddress', 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerType', 'referrerName', 'botType', 'countryCode', 'continentCode', 'regionCode', 'regionName', 'timezone', 'metroCode' ];
+
+// rows are yielded as each daily file is read, so ndjson and parquet responses can stream them, returning the continuation once the limit is reached
+async function* yieldRows({ date, statsBlobs, showUuid: showUuidFilter, bots, episodeIdFilter, limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, format, continuationTokenFilter }: { date: string | undefined, statsBlobs: Blobs, showUuid: string, bots: string, episodeIdFilter: string | undefined, limit: number, startTimeInclusive: string | undefined, startTimeExclusive: string | undefined, endTimeExclusive: string | undefined, format: string, continuationTokenFilter: { date: string, rowNumber: number } | undefined }): AsyncGenerator<unknown, QueryResponseEnd> {
+    let rowCount = 0;
     let rowNumber = 0;
     let latestTime: string | undefined;
     if (date) {
         const today = new Date().toISOString().substring(0, 10);
-        if (unpackedContinuationTokenFilter) date = unpackedContinuationTokenFilter.date;
-        while (date <= today && rows.length < limit && (!endTimeExclusive || `${date}T00:00:00.000Z` < endTimeExclusive)) {
+        if (continuationTokenFilter) date = continuationTokenFilter.date;
+        while (date <= today && rowCount < limit && (!endTimeExclusive || `${date}T00:00:00.000Z` < endTimeExclusive)) {
             rowNumber = 0;
-            console.log(`computeQueryDownloadsResponseInternal: getting ${showUuid} ${date}`);
-            const stream = await statsBlobs.get(computeShowDailyKey({ date, showUuid }), 'stream');
+            console.log(`computeQueryDownloadsResponseInternal: getting ${showUuidFilter} ${date}`);
+            const stream = await statsBlobs.get(computeShowDailyKey({ date, showUuid: showUuidFilter }), 'stream');
             if (stream) {
                 for await (const obj of yieldTsvFromStream(stream)) {
                     rowNumber++;
                     const { time, serverUrl: url, audienceId, showUuid, episodeId, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, botType, countryCode, continentCode, regionCode, regionName, timezone, metroCode } = obj;
                     if (time === undefined) throw new Error(`Undefined time`);
                     latestTime = time;
-                    if (unpackedContinuationTokenFilter && date === unpackedContinuationTokenFilter.date && rowNumber <= unpackedContinuationTokenFilter.rowNumber) continue;
+                    if (continuationTokenFilter && date === continuationTokenFilter.date && rowNumber <= continuationTokenFilter.rowNumber) continue;
                     if (botType && bots === 'exclude') continue;
                     if (startTimeInclusive && time < startTimeInclusive) continue;
                     if (startTimeExclusive && time <= startTimeExclusive) continue;
@@ -55,25 +65,22 @@ export async function computeQueryDownloadsResponse(request: QueryDownloadsReque
 
                     if (format === 'tsv' || format === 'json-a') {
                         const arr = [ time, url, audienceId, showUuid, episodeId, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, botType, countryCode, continentCode, regionCode, regionName, timezone, metroCode ];
-                        rows.push(format === 'tsv' ? arr.join('\t') : arr);
+                        yield format === 'tsv' ? arr.join('\t') : arr;
                     } else {
-                        rows.push({ time, url, audienceId, showUuid, episodeId, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, botType, countryCode, continentCode, regionCode, regionName, timezone, metroCode });
+                        yield { time, url, audienceId, showUuid, episodeId, hashedIpAddress, agentType, agentName, deviceType, deviceName, referrerType, referrerName, botType, countryCode, continentCode, regionCode, regionName, timezone, metroCode };
                     }
-                    if (rows.length >= limit) break;
+                    rowCount++;
+                    if (rowCount >= limit) break;
                 }
             }
-            if (rows.length < limit) date = addDaysToDateString(date, 1);
+            if (rowCount < limit) date = addDaysToDateString(date, 1);
         }
     }
-    const continuationToken = rows.length >= limit && date ? packContinuationToken({ date, rowNumber }) : undefined;
-    const progress = rows.length >= limit && latestTime && startTimeInclusive && endTimeExclusive ? computeProgress(latestTime, startTimeInclusive, endTimeExclusive) : undefined;
-    return newQueryResponse({ startTime, format, headers, rows, continuationToken, skipHeaders, progress })
+    const continuationToken = rowCount >= limit && date ? packContinuationToken({ date, rowNumber }) : undefined;
+    const progress = rowCount >= limit && latestTime && startTimeInclusive && endTimeExclusive ? computeProgress(latestTime, startTimeInclusive, endTimeExclusive) : undefined;
+    return { continuationToken, progress };
 }
 
-//
-
-const headers = [ 'time', 'url', 'audienceId', 'showUuid', 'episodeId', 'hashedIpAddress', 'agentType', 'agentName', 'deviceType', 'deviceName', 'referrerType', 'referrerName', 'botType', 'countryCode', 'continentCode', 'regionCode', 'regionName', 'timezone', 'metroCode' ];
-
 async function computeEarliestShowDownloadDate(showUuid: string, statsBlobs: Blobs): Promise<string | undefined> {
     const { keys } = await statsBlobs.list({ keyPrefix: computeShowDailyKeyPrefix({ showUuid })});
     return keys.length > 0 ? unpackShowDailyKey(keys[0]).date : undefined;
@@ -8,7 +8,7 @@ import type { UploadPartOpts } from 'https://raw.denoflare.dev/skymethod/denofla
 import { abortMultipartUpload, completeMultipartUpload, createMultipartUpload, deleteObject, getObject, headObject, listObjectsV2, putObject, uploadPart } from 'https://raw.denoflare.dev/skymethod/denoflare/cebd786cf79a2f1c24736ac706a1b5f54b42949d/common/r2/r2.ts';
 import { checkMatches } from '../check.ts';
 import { executeWithRetries } from '../sleep.ts';
-import { Blobs, ListBlobsResponse, ListBlobsWithMetadataResponse, ListOpts, Multiput } from './blobs.ts';
+import { Blobs, GetOpts, ListBlobsResponse, ListBlobsWithMetadataResponse, ListOpts, Multiput } from './blobs.ts';
 
 export type R2ApiBlobsOpts = { context: AwsCallContext, origin: string, region: string, bucket: string, prefix: string, readonly?: boolean };
 
@@ -43,15 +43,16 @@ export class R2ApiBlobs implements Blobs {
         }
     }
 
-    get(key: string, as: 'stream-and-meta'): Promise<{ stream: ReadableStream<Uint8Array>, etag: string } | undefined>;
-    get(key: string, as: 'stream'): Promise<ReadableStream<Uint8Array> | undefined>;
-    get(key: string, as: 'buffer'): Promise<ArrayBuffer | undefined>;
-    get(key: string, as: 'text-and-meta'): Promise<{ text: string, etag: string } | undefined>;
-    get(key: string, as: 'text'): Promise<string | undefined>;
-    get(key: string, as: 'json'): Promise<unknown | undefined>;
-    async get(key: string, as: string): Promise<unknown> {
+    get(key: string, as: 'stream-and-meta', opts?: GetOpts): Promise<{ stream: ReadableStream<Uint8Array>, etag: string } | undefined>;
+    get(key: string, as: 'stream', opts?: GetOpts): Promise<ReadableStream<Uint8Array> | undefined>;
+    get(key: string, as: 'buffer', opts?: GetOpts): Promise<ArrayBuffer | undefined>;
+    get(key: string, as: 'text-and-meta', opts?: GetOpts): Promise<{ text: string, etag: string } | undefined>;
+    get(key: string, as: 'text', opts?: GetOpts): Promise<string | undefined>;
+    get(key: string, as: 'json', opts?: GetOpts): Promise<unknown | undefined>;
+    async get(key: string, as: string, opts: GetOpts = {}): Promise<unknown> {
         const { bucket, origin, region, context } = this.opts;
-        const res = await getObjectWithRetries({ bucket, key: `${this.opts.prefix}${key}`, origin, region }, context, 'r2-api-blobs-get');
+        const ifMatch = opts.ifMatch === undefined ? undefined : `"${opts.ifMatch}"`;
+        const res = await getObjectWithRetries({ bucket, key: `${this.opts.prefix}${key}`, origin, region, ifMatch }, context, 'r2-api-blobs-get');
         if (!res) return undefined;
         if (res.status !== 200) throw new Error(`Unexpected status: ${res.status}`);
         const etag = computeUnquotedEtag(res.headers);
@@ -0,0 +1,11 @@
+import { readTestEnv, registerBlobsConformanceTests } from '../tests/blobs_conformance.ts';
+import { generateUuid } from '../uuid.ts';
+import { R2ApiBlobs } from './r2_api_blobs.ts';
+
+// e.g. OP3_TEST_R2_BLOBS_PARAMS=accountId,accessKey,secretKey,bucket deno test --allow-env --allow-net --allow-read
+const params = readTestEnv('OP3_TEST_R2_BLOBS_PARAMS')?.split(',');
+
+registerBlobsConformanceTests('R2ApiBlobs', params?.length === 4 ? () => {
+    const [ accountId, accessKey, secretKey, bucket ] = params;
+    return new R2ApiBlobs({ context: { credentials: { accessKey, secretKey }, userAgent: 'op3-tests' }, origin: `https://${accountId}.r2.cloudflarestorage.com`, region: 'auto', bucket, prefix: `conformance/${generateUuid()}/` });
+} : undefined);
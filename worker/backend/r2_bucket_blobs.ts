@@ -79,18 +79,24 @@ export class R2BucketBlobs implements Blobs {
 
     async listWithMetadata(opts: ListOpts = {}): Promise<ListBlobsWithMetadataResponse> {
         const { bucket, prefix } = this;
-        const { keyPrefix, afterKey } = opts;
+        const { keyPrefix, afterKey, limit } = opts;
         let listOpts: R2ListOptions = { prefix };
         if (typeof keyPrefix === 'string') listOpts = { ...listOpts, prefix: prefix + keyPrefix };
         if (typeof afterKey === 'string') listOpts = { ...listOpts, startAfter: prefix + afterKey };
-        const res = await r2(() => bucket.list(listOpts));
         const prefixLength = prefix.length;
         const entries: { key: string, size: number }[] = [];
-        for (const { key, size } of res.objects) {
-            if (!key.startsWith(prefix)) throw new Error(`Unexpected key: ${key}`);
-            entries.push({ key: key.substring(prefixLength), size });
+        let cursor: string | undefined;
+        while (true) {
+            // r2 may return fewer objects than asked for (at most 1000 per page): without a limit, return the first page as before, with one, follow the cursor until the limit or the end
+            const pageOpts: R2ListOptions = { ...listOpts, ...(limit !== undefined ? { limit: Math.min(limit - entries.length, MAX_LIST_LIMIT) } : {}), ...(cursor ? { cursor } : {}) };
+            const res: Awaited<ReturnType<R2Bucket['list']>> = await r2(() => bucket.list(pageOpts));
+            for (const { key, size } of res.objects) {
+                if (!key.startsWith(prefix)) throw new Error(`Unexpected key: ${key}`);
+                entries.push({ key: key.substring(prefixLength), size });
+            }
+            if (limit === undefined || entries.length >= limit || !res.truncated) return { entries };
+            cursor = res.cursor;
         }
-        return { entries };
     }
 
     async startMultiput(key: string): Promise<Multiput> {
@@ -157,6 +163,8 @@ export function isRetryableErrorFromR2(e: Error): boolean {
 
 //
 
+const MAX_LIST_LIMIT = 1000;
+
 async function r2<T>(fn: () => Promise<T>): Promise<T> {
     return await executeWithRetries(fn, { tag: 'R2BucketBlobs', isRetryable: isRetryableErrorFromR2, maxRetries: 5 });
 }
@@ -0,0 +1,23 @@
+import { assertEquals } from '../tests/deps.ts';
+import { registerBlobsConformanceTests } from '../tests/blobs_conformance.ts';
+import { InMemoryR2Bucket } from '../tests/in_memory_r2_bucket.ts';
+import { R2BucketBlobs } from './r2_bucket_blobs.ts';
+
+registerBlobsConformanceTests('R2BucketBlobs', () => new R2BucketBlobs({ bucket: new InMemoryR2Bucket(), prefix: 'stats/' }));
+
+Deno.test({
+    name: 'R2BucketBlobs listWithMetadata paging',
+    fn: async () => {
+        // small list pages, so a limit has to follow the cursor
+        const blobs = new R2BucketBlobs({ bucket: new InMemoryR2Bucket({ maxListLimit: 2 }), prefix: 'stats/' });
+        for (const key of [ 'a', 'b', 'c', 'd', 'e' ]) await blobs.put(key, key);
+
+        // no limit: a single page, like a single r2 list call
+        assertEquals((await blobs.list()).keys, [ 'a', 'b' ]);
+        assertEquals((await blobs.list({ afterKey: 'b' })).keys, [ 'c', 'd' ]);
+
+        // limit: pages until the limit or the end
+        assertEquals((await blobs.list({ limit: 3 })).keys, [ 'a', 'b', 'c' ]);
+        assertEquals((await blobs.listWithMetadata({ afterKey: 'a', limit: 10 })).entries, [ 'b', 'c', 'd', 'e' ].map(key => ({ key, size: 1 })));
+    }
+});
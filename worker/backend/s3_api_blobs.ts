@@ -0,0 +1,247 @@
+import { AwsCall, AwsCallContext, Bytes, decodeXml, encodeXml, signAwsCallV4 } from '../deps.ts';
+import { executeWithRetries } from '../sleep.ts';
+import { parseXml } from '../xml_parser.ts';
+import { Blobs, GetOpts, ListBlobsResponse, ListBlobsWithMetadataResponse, ListOpts, Multiput } from './blobs.ts';
+
+export type S3ApiBlobsOpts = { context: AwsCallContext, endpoint: string, region: string, bucket: string, prefix: string, readonly?: boolean };
+
+/**
+ * Blobs in any S3-compatible bucket (e.g. MinIO), called directly with path-style urls and v4 signatures.
+ *
+ * Unlike R2ApiBlobs, this does not rely on R2-specific behavior, so it can be used when self-hosting.
+ */
+export class S3ApiBlobs implements Blobs {
+    readonly opts: S3ApiBlobsOpts;
+
+    constructor(opts: S3ApiBlobsOpts) {
+        this.opts = opts;
+    }
+
+    /** e.g. http://localhost:9000,us-east-1,accessKey,secretKey,bucket */
+    static ofParams(params: string, { prefix, userAgent, readonly }: { prefix: string, userAgent: string, readonly?: boolean }): S3ApiBlobs {
+        const m = /^(https?:\/\/[^,]+?)\/?,([a-z0-9-]+),([^,]+),([^,]+),([^,/]+)$/.exec(params);
+        if (!m) throw new Error(`Bad s3 blobs params`); // don't log secrets
+        const [ _, endpoint, region, accessKey, secretKey, bucket ] = m;
+        return new S3ApiBlobs({ context: { credentials: { accessKey, secretKey }, userAgent }, endpoint, region, bucket, prefix, readonly });
+    }
+
+    async put(key: string, body: ReadableStream<Uint8Array> | ArrayBuffer | string): Promise<{ etag: string }> {
+        this.checkWritable('put');
+        const res = await this.call({ method: 'PUT', key, body: await toBytes(body), tag: 's3-api-blobs-put' });
+        await checkStatus(res, 200);
+        return { etag: computeUnquotedEtag(res.headers.get('etag')) };
+    }
+
+    get(key: string, as: 'stream-and-meta', opts?: GetOpts): Promise<{ stream: ReadableStream<Uint8Array>, etag: string } | undefined>;
+    get(key: string, as: 'stream', opts?: GetOpts): Promise<ReadableStream<Uint8Array> | undefined>;
+    get(key: string, as: 'buffer', opts?: GetOpts): Promise<ArrayBuffer | undefined>;
+    get(key: string, as: 'text-and-meta', opts?: GetOpts): Promise<{ text: string, etag: string } | undefined>;
+    get(key: string, as: 'text', opts?: GetOpts): Promise<string | undefined>;
+    get(key: string, as: 'json', opts?: GetOpts): Promise<unknown | undefined>;
+    async get(key: string, as: string, opts: GetOpts = {}): Promise<unknown> {
+        const { ifMatch } = opts;
+        const headers = new Headers(ifMatch === undefined ? {} : { 'if-match': `"${ifMatch}"` });
+        const res = await this.call({ method: 'GET', key, headers, tag: 's3-api-blobs-get' });
+        if (res.status === 404) {
+            await res.body?.cancel();
+            return undefined;
+        }
+        if (res.status === 412) {
+            await res.body?.cancel();
+            throw new Error(`Precondition failed: ifMatch ${ifMatch}`);
+        }
+        await checkStatus(res, 200);
+        const etag = computeUnquotedEtag(res.headers.get('etag'));
+        if (as === 'stream') return res.body;
+        if (as === 'stream-and-meta') return { stream: res.body, etag };
+        if (as === 'text') return await res.text();
+        if (as === 'text-and-meta') return { text: await res.text(), etag };
+        if (as === 'buffer') return await res.arrayBuffer();
+        if (as === 'json') return await res.json();
+
+        throw new Error(`Unsupported 'as' value: ${as}`);
+    }
+
+    async head(key: string): Promise<{ etag: string } | undefined> {
+        const res = await this.call({ method: 'HEAD', key, tag: 's3-api-blobs-head' });
+        if (res.status === 404) return undefined;
+        await checkStatus(res, 200);
+        return { etag: computeUnquotedEtag(res.headers.get('etag')) };
+    }
+
+    async has(key: string): Promise<boolean> {
+        return await this.head(key) !== undefined;
+    }
+
+    async delete(key: string): Promise<void> {
+        this.checkWritable('delete');
+        const res = await this.call({ method: 'DELETE', key, tag: 's3-api-blobs-delete' });
+        await checkStatus(res, 204, 200, 404);
+        await res.body?.cancel();
+    }
+
+    async list(opts: ListOpts = {}): Promise<ListBlobsResponse> {
+        const { entries } = await this.listWithMetadata(opts);
+        const keys = entries.map(v => v.key);
+        return { keys };
+    }
+
+    async listWithMetadata(opts: ListOpts = {}): Promise<ListBlobsWithMetadataResponse> {
+        const { keyPrefix = '', afterKey, limit } = opts;
+        const { prefix } = this.opts;
+        const entries: { key: string, size: number }[] = [];
+        let continuationToken: string | undefined;
+        while (true) {
+            if (limit !== undefined && entries.length >= limit) return { entries };
+            const query = new URLSearchParams({ 'list-type': '2', prefix: `${prefix}${keyPrefix}` });
+            if (continuationToken) query.set('continuation-token', continuationToken);
+            else if (afterKey !== undefined) query.set('start-after', `${prefix}${afterKey}`);
+            if (limit !== undefined) query.set('max-keys', String(Math.min(1000, limit - entries.length)));
+            const res = await this.call({ method: 'GET', query, tag: 's3-api-blobs-list' });
+            await checkStatus(res, 200);
+            const result = parseListBucketResult(await res.text());
+            entries.push(...result.contents.map(({ key, size }) => ({ key: key.substring(prefix.length), size })));
+            if (!result.isTruncated || !result.nextContinuationToken) return { entries };
+            continuationToken = result.nextContinuationToken;
+        }
+    }
+
+    async startMultiput(key: string): Promise<Multiput> {
+        this.checkWritable('startMultiput');
+        const res = await this.call({ method: 'POST', key, query: new URLSearchParams({ uploads: '' }), tag: 's3-api-blobs-create-multipart-upload' });
+        await checkStatus(res, 200);
+        const uploadId = findXmlText(await res.text(), 'InitiateMultipartUploadResult/UploadId');
+        if (!uploadId) throw new Error(`No upload id!`);
+
+        const parts: { partNumber: number, etag: string }[] = [];
+        let done = false;
+        return {
+            putPart: async body => {
+                if (done) throw new Error(`Already done!`);
+                const partNumber = parts.length + 1;
+                parts.push({ partNumber, etag: '' });
+                const res = await this.call({ method: 'PUT', key, query: new URLSearchParams({ partNumber: String(partNumber), uploadId }), body: await toBytes(body), tag: 's3-api-blobs-upload-part' });
+                await checkStatus(res, 200);
+                await res.body?.cancel();
+                const etag = computeUnquotedEtag(res.headers.get('etag'));
+                parts[partNumber - 1] = { partNumber, etag };
+                return { etag };
+            },
+            complete: async () => {
+                if (done) throw new Error(`Already done!`);
+                done = true;
+                const xml = `<CompleteMultipartUpload>${parts.map(v => `<Part><PartNumber>${v.partNumber}</PartNumber><ETag>"${encodeXml(v.etag)}"</ETag></Part>`).join('')}</CompleteMultipartUpload>`;
+                const res = await this.call({ method: 'POST', key, query: new URLSearchParams({ uploadId }), body: Bytes.ofUtf8(xml), tag: 's3-api-blobs-complete-multipart-upload' });
+                await checkStatus(res, 200);
+                const text = await res.text();
+                const httpEtag = findXmlText(text, 'CompleteMultipartUploadResult/ETag');
+                if (httpEtag === undefined) throw new Error(`Unexpected complete response: ${computeErrorSummary(text)}`); // errors can arrive with a 200
+                return { parts: parts.length, etag: computeUnquotedEtag(httpEtag) };
+            },
+            abort: async () => {
+                if (done) throw new Error(`Already done!`);
+                done = true;
+                const res = await this.call({ method: 'DELETE', key, query: new URLSearchParams({ uploadId }), tag: 's3-api-blobs-abort-multipart-upload' });
+                await checkStatus(res, 204, 200, 404);
+                await res.body?.cancel();
+            },
+        };
+    }
+
+    //
+
+    private checkWritable(method: string) {
+        const { readonly } = this.opts;
+        if (readonly) throw new Error(`'${method}' not allowed (readonly)`);
+    }
+
+    private async call({ method, key, query, headers = new Headers(), body, tag }: { method: AwsCall['method'], key?: string, query?: URLSearchParams, headers?: Headers, body?: Bytes, tag: string }): Promise<Response> {
+        const { endpoint, region, bucket, prefix, context } = this.opts;
+        const url = new URL(`${endpoint.replace(/\/+$/, '')}/${encodePathSegment(bucket)}/${key === undefined ? '' : encodeKey(`${prefix}${key}`)}`);
+        if (query) url.search = query.toString().replace(/=(&|$)/g, '$1'); // e.g. ?uploads
+        return await executeWithRetries(async () => {
+            const call: AwsCall = { method, service: 's3', region, url, headers, body };
+            const { signedHeaders, bodyInfo } = await signAwsCallV4(call, context);
+            const res = await fetch(new Request(url.toString(), { method, headers: signedHeaders, body: bodyInfo.body }));
+            if (RETRYABLE_STATUSES.has(res.status)) {
+                await res.body?.cancel();
+                throw new Error(`Unexpected status ${res.status}`);
+            }
+            return res;
+        }, { tag, maxRetries: 3, isRetryable: isRetryableS3 });
+    }
+
+}
+
+//
+
+const RETRYABLE_STATUSES = new Set([ 429, 500, 502, 503, 504 ]);
+
+async function toBytes(body: ReadableStream<Uint8Array> | ArrayBuffer | string): Promise<Bytes> {
+    return body instanceof ReadableStream ? await Bytes.ofStream(body)
+        : typeof body === 'string' ? Bytes.ofUtf8(body)
+        : new Bytes(new Uint8Array(body));
+}
+
+function encodePathSegment(segment: string): string {
+    // sigv4 canonical uris also encode the characters left alone by encodeURIComponent
+    return encodeURIComponent(segment).replace(/[!'()*]/g, v => `%${v.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKey(key: string): string {
+    return key.split('/').map(encodePathSegment).join('/');
+}
+
+function computeUnquotedEtag(httpEtag: string | null): string {
+    const m = /^(W\/)?"(.+)"$/.exec(httpEtag ?? '');
+    if (!m) throw new Error(`Unexpected http etag: ${httpEtag}`);
+    return m[2];
+}
+
+async function checkStatus(res: Response, ...expected: number[]) {
+    if (expected.includes(res.status)) return;
+    throw new Error(`Unexpected status ${res.status}: ${computeErrorSummary(await res.text())}`);
+}
+
+function computeErrorSummary(text: string): string {
+    const code = findXmlText(text, 'Error/Code');
+    const message = findXmlText(text, 'Error/Message');
+    return code || message ? `code=${code}, message=${message}` : text.substring(0, 1024);
+}
+
+function findXmlText(text: string, path: string): string | undefined {
+    let rt: string | undefined;
+    try {
+        parseXml(text, { onText: (value, elementPath) => { if (rt === undefined && elementPath.join('/') === path) rt = decodeXml(value); } });
+    } catch {
+        return undefined;
+    }
+    return rt;
+}
+
+function parseListBucketResult(text: string): { contents: { key: string, size: number }[], isTruncated: boolean, nextContinuationToken?: string } {
+    const contents: { key: string, size: number }[] = [];
+    let isTruncated = false;
+    let nextContinuationToken: string | undefined;
+    parseXml(text, {
+        onStartElement: path => {
+            if (path.join('/') === 'ListBucketResult/Contents') contents.push({ key: '', size: 0 });
+        },
+        onText: (value, path) => {
+            const p = path.join('/');
+            const last = contents.at(-1);
+            if (p === 'ListBucketResult/Contents/Key' && last) last.key = decodeXml(value);
+            if (p === 'ListBucketResult/Contents/Size' && last) last.size = parseInt(value);
+            if (p === 'ListBucketResult/IsTruncated') isTruncated = value === 'true';
+            if (p === 'ListBucketResult/NextContinuationToken') nextContinuationToken = decodeXml(value);
+        },
+    });
+    return { contents, isTruncated, nextContinuationToken };
+}
+
+function isRetryableS3(e: Error): boolean {
+    const msg = `${e.stack || e}`;
+    if (/Unexpected status (429|500|502|503|504)\b/.test(msg)) return true;
+    if (e instanceof TypeError && msg.includes('error sending request')) return true; // network errors
+    return false;
+}
@@ -0,0 +1,20 @@
+import { assertEquals, assertThrows } from '../tests/deps.ts';
+import { readTestEnv, registerBlobsConformanceTests } from '../tests/blobs_conformance.ts';
+import { generateUuid } from '../uuid.ts';
+import { S3ApiBlobs } from './s3_api_blobs.ts';
+
+// e.g. OP3_TEST_S3_BLOBS_PARAMS=http://localhost:9000,us-east-1,minioadmin,minioadmin,op3-test deno test --allow-env --allow-net --allow-read
+const params = readTestEnv('OP3_TEST_S3_BLOBS_PARAMS');
+
+registerBlobsConformanceTests('S3ApiBlobs', params ? () => S3ApiBlobs.ofParams(params, { prefix: `conformance/${generateUuid()}/`, userAgent: 'op3-tests' }) : undefined, { equalPartSizes: false });
+
+Deno.test({
+    name: 'S3ApiBlobs.ofParams',
+    fn: () => {
+        const { opts } = S3ApiBlobs.ofParams('http://localhost:9000/,us-east-1,access,secret,bucket', { prefix: 'p/', userAgent: 'test' });
+        const { endpoint, region, bucket, prefix, context: { credentials: { accessKey, secretKey } } } = opts;
+        assertEquals({ endpoint, region, bucket, prefix, accessKey, secretKey }, { endpoint: 'http://localhost:9000', region: 'us-east-1', bucket: 'bucket', prefix: 'p/', accessKey: 'access', secretKey: 'secret' });
+        assertThrows(() => S3ApiBlobs.ofParams('localhost:9000,us-east-1,access,secret,bucket', { prefix: '', userAgent: 'test' }));
+        assertThrows(() => S3ApiBlobs.ofParams('http://localhost:9000,us-east-1,access,secret', { prefix: '', userAgent: 'test' }));
+    },
+});
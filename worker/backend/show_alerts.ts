@@ -0,0 +1,225 @@
+import { isStringRecord, isValidInstant } from '../check.ts';
+import { Bytes } from '../deps.ts';
+import { Emailer } from '../emailer.ts';
+import { addDays, addDaysToDateString } from '../timestamp.ts';
+import { consoleWarn } from '../tracer.ts';
+import { Blobs } from './blobs.ts';
+import { loadShowWebhooks, processShowAlertWebhooks } from './show_webhooks.ts';
+
+export const MAX_ALERT_EMAILS_PER_SHOW = 5;
+
+export type ShowAlertKind = 'prefix-missing' | 'download-cliff' | 'enclosure-errors';
+
+export function isShowAlertKind(obj: unknown): obj is ShowAlertKind {
+    return obj === 'prefix-missing' || obj === 'download-cliff' || obj === 'enclosure-errors';
+}
+
+export interface ShowAlert {
+    readonly kind: ShowAlertKind;
+    readonly since: string; // instant first detected
+    readonly message: string; // human-readable, from the most recent check
+}
+
+export function isValidShowAlert(obj: unknown): obj is ShowAlert {
+    return isStringRecord(obj)
+        && isShowAlertKind(obj.kind)
+        && typeof obj.since === 'string'
+        && typeof obj.message === 'string'
+        ;
+}
+
+export interface ResolvedShowAlert extends ShowAlert {
+    readonly resolved: string; // instant first seen as no longer applicable
+}
+
+export interface ShowAlertStatus {
+    readonly showUuid: string;
+    readonly checked: string; // instant of the most recent check
+    readonly alerts: readonly ShowAlert[]; // currently active
+    readonly resolved: readonly ResolvedShowAlert[]; // recently resolved, newest first
+}
+
+export function isValidShowAlertStatus(obj: unknown): obj is ShowAlertStatus {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && typeof obj.checked === 'string'
+        && Array.isArray(obj.alerts) && obj.alerts.every(isValidShowAlert)
+        && Array.isArray(obj.resolved) && obj.resolved.every(v => isValidShowAlert(v) && isStringRecord(v) && typeof v.resolved === 'string')
+        ;
+}
+
+export type ShowAlertCheck = Omit<ShowAlert, 'since'>;
+
+export interface ShowAlertRecipients {
+    readonly showUuid: string;
+    readonly emails: readonly string[]; // podcaster addresses, registered with a show-scoped token
+    readonly confirmed?: readonly string[]; // registered addresses that confirmed a code sent to them, the only ones alerts are emailed to
+    readonly pending?: readonly PendingAlertEmail[]; // confirmation codes sent, but not yet confirmed
+}
+
+export function isValidShowAlertRecipients(obj: unknown): obj is ShowAlertRecipients {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && Array.isArray(obj.emails) && obj.emails.every(isValidAlertEmail)
+        && (obj.confirmed === undefined || Array.isArray(obj.confirmed) && obj.confirmed.every(isValidAlertEmail))
+        && (obj.pending === undefined || Array.isArray(obj.pending) && obj.pending.every(isValidPendingAlertEmail))
+        ;
+}
+
+export interface PendingAlertEmail {
+    readonly email: string;
+    readonly codeSha256: string; // of `${email}|${code}`, the code itself is only in the email
+    readonly sent: string; // instant
+}
+
+export function isValidPendingAlertEmail(obj: unknown): obj is PendingAlertEmail {
+    return isStringRecord(obj)
+        && isValidAlertEmail(obj.email)
+        && typeof obj.codeSha256 === 'string'
+        && typeof obj.sent === 'string' && isValidInstant(obj.sent)
+        ;
+}
+
+export function isValidAlertEmail(obj: unknown): obj is string {
+    return typeof obj === 'string' && obj.length <= 254 && /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/.test(obj);
+}
+
+export async function loadShowAlertRecipients({ showUuid, statsBlobs }: { showUuid: string, statsBlobs: Blobs }): Promise<ShowAlertRecipients> {
+    const obj = await statsBlobs.get(computeShowAlertRecipientsKey({ showUuid }), 'json');
+    if (obj === undefined) return { showUuid, emails: [] };
+    if (!isValidShowAlertRecipients(obj)) throw new Error(`Invalid show alert recipients for ${showUuid}`);
+    return obj;
+}
+
+/** Registers the show's alert emails, sending a confirmation code to each address not yet confirmed (at most once a day per address). */
+export async function saveShowAlertRecipients({ showUuid, emails, emailer, origin, statsBlobs, now = new Date().toISOString() }: { showUuid: string, emails: readonly string[], emailer: Emailer | undefined, origin: string, statsBlobs: Blobs, now?: string }): Promise<ShowAlertRecipients> {
+    if (emails.length > MAX_ALERT_EMAILS_PER_SHOW || !emails.every(isValidAlertEmail)) throw new Error(`Bad emails: expected up to ${MAX_ALERT_EMAILS_PER_SHOW} email addresses`);
+    const existing = await loadShowAlertRecipients({ showUuid, statsBlobs });
+    const distinctEmails = [ ...new Set(emails) ];
+    const confirmed = (existing.confirmed ?? []).filter(v => distinctEmails.includes(v));
+    const expiredInstant = addDays(now, -CONFIRMATION_EXPIRY_DAYS).toISOString();
+    let pending = (existing.pending ?? []).filter(v => distinctEmails.includes(v.email) && !confirmed.includes(v.email) && v.sent > expiredInstant);
+
+    const resendInstant = addDays(now, -1).toISOString();
+    for (const email of distinctEmails) {
+        if (!emailer || confirmed.includes(email) || pending.some(v => v.email === email && v.sent > resendInstant)) continue;
+        const code = generateConfirmationCode();
+        const subject = `OP3 show alerts: confirm ${email}`;
+        const text = [
+            `This address was registered to receive OP3 alerts for ${origin}/show/${showUuid}`,
+            '',
+            `To confirm, send this code with a token for the show: PUT ${origin}/api/1/shows/${showUuid}/alerts { "confirm": { "email": "${email}", "code": "${code}" } }`,
+            '',
+            `Confirmation code: ${code}`,
+            '',
+            `If you did not expect this, ignore it: no alerts are sent to unconfirmed addresses.`,
+        ].join('\n');
+        try {
+            await emailer.send({ to: email, subject, text });
+        } catch (e) {
+            consoleWarn('show-alerts', `Failed to email alert confirmation for ${showUuid}: ${(e as Error).stack || e}`);
+            continue;
+        }
+        pending = [ ...pending.filter(v => v.email !== email), { email, codeSha256: await computeConfirmationCodeSha256({ email, code }), sent: now } ];
+    }
+    const recipients: ShowAlertRecipients = { showUuid, emails: distinctEmails, confirmed, pending };
+    await statsBlobs.put(computeShowAlertRecipientsKey({ showUuid }), JSON.stringify(recipients));
+    return recipients;
+}
+
+/** Confirms a registered alert email with the code sent to it, returns undefined if the code is wrong or expired. */
+export async function confirmShowAlertRecipient({ showUuid, email, code, statsBlobs, now = new Date().toISOString() }: { showUuid: string, email: string, code: string, statsBlobs: Blobs, now?: string }): Promise<ShowAlertRecipients | undefined> {
+    const existing = await loadShowAlertRecipients({ showUuid, statsBlobs });
+    const expiredInstant = addDays(now, -CONFIRMATION_EXPIRY_DAYS).toISOString();
+    const codeSha256 = await computeConfirmationCodeSha256({ email, code });
+    const match = (existing.pending ?? []).find(v => v.email === email && v.sent > expiredInstant && v.codeSha256 === codeSha256);
+    if (!match || !existing.emails.includes(email)) return undefined;
+    const recipients: ShowAlertRecipients = { ...existing, confirmed: [ ...new Set([ ...existing.confirmed ?? [], email ]) ], pending: (existing.pending ?? []).filter(v => v.email !== email) };
+    await statsBlobs.put(computeShowAlertRecipientsKey({ showUuid }), JSON.stringify(recipients));
+    return recipients;
+}
+
+/** Shows are only monitored if someone will hear about it: a confirmed alert email, or a webhook subscribed to alerts. */
+export async function hasShowAlertsConfigured({ showUuid, statsBlobs }: { showUuid: string, statsBlobs: Blobs }): Promise<boolean> {
+    const { confirmed = [] } = await loadShowAlertRecipients({ showUuid, statsBlobs });
+    if (confirmed.length > 0) return true;
+    const { subscriptions } = await loadShowWebhooks({ showUuid, statsBlobs });
+    return subscriptions.some(v => v.events.includes('show-alert'));
+}
+
+/** Flags shows whose newest episodes no longer go through the op3 prefix, if older episodes did. */
+export function computePrefixMissingAlert(items: readonly { title?: string, pubdateInstant?: string, prefixed: boolean }[]): ShowAlertCheck | undefined {
+    const newestFirst = items.filter(v => v.pubdateInstant !== undefined).sort((a, b) => (b.pubdateInstant ?? '').localeCompare(a.pubdateInstant ?? ''));
+    const missing = newestFirst.findIndex(v => v.prefixed);
+    if (missing <= 0) return undefined; // newest is prefixed, or the show was never prefixed
+    const newest = newestFirst[0];
+    return { kind: 'prefix-missing', message: `${missing} newest episode${missing === 1 ? '' : 's'} not using the OP3 prefix, starting with ${newest.title ? `"${newest.title}"` : 'an untitled episode'} (${newest.pubdateInstant})` };
+}
+
+/** Flags shows whose most recent day of downloads fell well below their trailing average. */
+export function computeDownloadCliffAlert({ dailyDownloads, lastDate }: { dailyDownloads: Record<string, number>, lastDate: string }): ShowAlertCheck | undefined {
+    const trailingDates = [ ...Array(TRAILING_DAYS).keys() ].map(v => addDaysToDateString(lastDate, -(v + 1)));
+    const trailingAverage = trailingDates.reduce((a, b) => a + (dailyDownloads[b] ?? 0), 0) / TRAILING_DAYS;
+    if (trailingAverage < MIN_TRAILING_AVERAGE) return undefined; // too small to be meaningful
+    const downloads = dailyDownloads[lastDate] ?? 0;
+    if (downloads >= trailingAverage * CLIFF_RATIO) return undefined;
+    return { kind: 'download-cliff', message: `${downloads} downloads on ${lastDate}, down from a trailing ${TRAILING_DAYS}-day average of ${Math.round(trailingAverage)}` };
+}
+
+/** Flags shows whose newest enclosures are no longer found at their destination. */
+export function computeEnclosureErrorsAlert(results: readonly { title?: string, url: string, status?: number }[]): ShowAlertCheck | undefined {
+    const missing = results.filter(v => v.status === 404 || v.status === 410);
+    if (missing.length === 0) return undefined;
+    return { kind: 'enclosure-errors', message: `${missing.length} of the ${results.length} newest enclosures not found: ${missing.map(v => `${v.url} (${v.status})`).join(', ')}` };
+}
+
+/** Combine the latest checks with the previous status, keeping the original detection time of ongoing alerts. */
+export function mergeShowAlerts({ showUuid, previous, checks, now }: { showUuid: string, previous: ShowAlertStatus | undefined, checks: readonly ShowAlertCheck[], now: string }): { status: ShowAlertStatus, raised: ShowAlert[], resolved: ResolvedShowAlert[] } {
+    const previousAlerts = new Map((previous?.alerts ?? []).map(v => [ v.kind, v ]));
+    const alerts = checks.map(({ kind, message }) => ({ kind, message, since: previousAlerts.get(kind)?.since ?? now }));
+    const raised = alerts.filter(v => !previousAlerts.has(v.kind));
+    const resolved = [ ...previousAlerts.values() ].filter(v => !checks.some(w => w.kind === v.kind)).map(v => ({ ...v, resolved: now }));
+    const status: ShowAlertStatus = { showUuid, checked: now, alerts, resolved: [ ...resolved, ...(previous?.resolved ?? []) ].slice(0, MAX_RESOLVED) };
+    return { status, raised, resolved };
+}
+
+/** Send newly raised alerts by email to the show's confirmed recipients, and queue them for show webhook subscribers. */
+export async function notifyShowAlerts({ showUuid, alerts, emailer, origin, statsBlobs }: { showUuid: string, alerts: readonly ShowAlert[], emailer: Emailer | undefined, origin: string, statsBlobs: Blobs }): Promise<{ emails: number, deliveries: number }> {
+    if (alerts.length === 0) return { emails: 0, deliveries: 0 };
+    let emails = 0;
+    const { confirmed: recipients = [] } = emailer ? await loadShowAlertRecipients({ showUuid, statsBlobs }) : {};
+    if (emailer && recipients.length > 0) {
+        const subject = `OP3 show alert: ${alerts.map(v => v.kind).join(', ')} (${showUuid})`;
+        const text = [ ...alerts.map(v => `${v.kind}: ${v.message}`), '', `${origin}/show/${showUuid}` ].join('\n');
+        for (const to of recipients) {
+            try {
+                await emailer.send({ to, subject, text });
+                emails++;
+            } catch (e) {
+                consoleWarn('show-alerts', `Failed to email alerts for ${showUuid}: ${(e as Error).stack || e}`);
+            }
+        }
+    }
+    const { enqueued: deliveries } = await processShowAlertWebhooks({ showUuid, alerts, statsBlobs });
+    return { emails, deliveries };
+}
+
+//
+
+const TRAILING_DAYS = 28;
+const MIN_TRAILING_AVERAGE = 20; // downloads per day
+const CLIFF_RATIO = 0.25;
+const MAX_RESOLVED = 10;
+const CONFIRMATION_EXPIRY_DAYS = 7;
+
+function computeShowAlertRecipientsKey({ showUuid }: { showUuid: string }): string {
+    return `alerts/show/${showUuid}/${showUuid}.recipients.json`;
+}
+
+function generateConfirmationCode(): string {
+    return (crypto.getRandomValues(new Uint32Array(1))[0] % 100000000).toString().padStart(8, '0');
+}
+
+async function computeConfirmationCodeSha256({ email, code }: { email: string, code: string }): Promise<string> {
+    return (await Bytes.ofUtf8(`${email}|${code}`).sha256()).hex();
+}
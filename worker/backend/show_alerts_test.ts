@@ -0,0 +1,110 @@
+import { Email, Emailer } from '../emailer.ts';
+import { assertEquals, assertRejects } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { computeDownloadCliffAlert, computeEnclosureErrorsAlert, computePrefixMissingAlert, confirmShowAlertRecipient, hasShowAlertsConfigured, loadShowAlertRecipients, mergeShowAlerts, notifyShowAlerts, saveShowAlertRecipients } from './show_alerts.ts';
+
+Deno.test({
+    name: 'computePrefixMissingAlert',
+    fn: () => {
+        assertEquals(computePrefixMissingAlert([]), undefined);
+        assertEquals(computePrefixMissingAlert([
+            { title: 'Episode 1', pubdateInstant: '2024-01-01T00:00:00.000Z', prefixed: false },
+            { title: 'Episode 2', pubdateInstant: '2024-01-08T00:00:00.000Z', prefixed: false },
+        ]), undefined); // never prefixed
+        assertEquals(computePrefixMissingAlert([
+            { title: 'Episode 1', pubdateInstant: '2024-01-01T00:00:00.000Z', prefixed: false },
+            { title: 'Episode 2', pubdateInstant: '2024-01-08T00:00:00.000Z', prefixed: true },
+        ]), undefined); // newly prefixed
+        assertEquals(computePrefixMissingAlert([
+            { title: 'Episode 1', pubdateInstant: '2024-01-01T00:00:00.000Z', prefixed: true },
+            { title: 'Episode 2', pubdateInstant: '2024-01-08T00:00:00.000Z', prefixed: false },
+            { title: 'Episode 3', pubdateInstant: '2024-01-15T00:00:00.000Z', prefixed: false },
+        ])?.message, '2 newest episodes not using the OP3 prefix, starting with "Episode 3" (2024-01-15T00:00:00.000Z)');
+    }
+});
+
+Deno.test({
+    name: 'computeDownloadCliffAlert',
+    fn: () => {
+        const dailyDownloads: Record<string, number> = {};
+        for (let day = 1; day <= 28; day++) dailyDownloads[`2024-01-${day.toString().padStart(2, '0')}`] = 100;
+        assertEquals(computeDownloadCliffAlert({ dailyDownloads: { ...dailyDownloads, '2024-01-29': 80 }, lastDate: '2024-01-29' }), undefined);
+        assertEquals(computeDownloadCliffAlert({ dailyDownloads: { ...dailyDownloads, '2024-01-29': 10 }, lastDate: '2024-01-29' })?.message, '10 downloads on 2024-01-29, down from a trailing 28-day average of 100');
+        assertEquals(computeDownloadCliffAlert({ dailyDownloads: { '2024-01-28': 100 }, lastDate: '2024-01-29' }), undefined); // trailing average too small
+    }
+});
+
+Deno.test({
+    name: 'computeEnclosureErrorsAlert',
+    fn: () => {
+        assertEquals(computeEnclosureErrorsAlert([ { url: 'https://example.com/ep1.mp3', status: 200 }, { url: 'https://example.com/ep2.mp3' } ]), undefined);
+        assertEquals(computeEnclosureErrorsAlert([ { url: 'https://example.com/ep1.mp3', status: 200 }, { url: 'https://example.com/ep2.mp3', status: 404 } ])?.message, '1 of the 2 newest enclosures not found: https://example.com/ep2.mp3 (404)');
+    }
+});
+
+Deno.test({
+    name: 'mergeShowAlerts',
+    fn: () => {
+        const showUuid = '00000000000000000000000000000000';
+        const first = mergeShowAlerts({ showUuid, previous: undefined, checks: [ { kind: 'prefix-missing', message: 'm1' } ], now: '2024-01-01T00:00:00.000Z' });
+        assertEquals(first.raised.map(v => v.kind), [ 'prefix-missing' ]);
+        assertEquals(first.resolved, []);
+
+        const second = mergeShowAlerts({ showUuid, previous: first.status, checks: [ { kind: 'prefix-missing', message: 'm2' }, { kind: 'download-cliff', message: 'm3' } ], now: '2024-01-02T00:00:00.000Z' });
+        assertEquals(second.raised.map(v => v.kind), [ 'download-cliff' ]);
+        assertEquals(second.status.alerts, [ { kind: 'prefix-missing', message: 'm2', since: '2024-01-01T00:00:00.000Z' }, { kind: 'download-cliff', message: 'm3', since: '2024-01-02T00:00:00.000Z' } ]);
+
+        const third = mergeShowAlerts({ showUuid, previous: second.status, checks: [], now: '2024-01-03T00:00:00.000Z' });
+        assertEquals(third.raised, []);
+        assertEquals(third.status.alerts, []);
+        assertEquals(third.status.resolved.map(v => [ v.kind, v.resolved ]), [ [ 'prefix-missing', '2024-01-03T00:00:00.000Z' ], [ 'download-cliff', '2024-01-03T00:00:00.000Z' ] ]);
+    }
+});
+
+Deno.test({
+    name: 'notifyShowAlerts',
+    fn: async () => {
+        const showUuid = '00000000000000000000000000000000';
+        const statsBlobs = new InMemoryBlobs();
+        const sent: Email[] = [];
+        const emailer = new class extends Emailer {
+            override async send(email: Email) {
+                await Promise.resolve();
+                sent.push(email);
+            }
+        }({ awsCallContext: { credentials: { accessKey: 'a', secretKey: 's' }, userAgent: 'test' }, emailFrom: 'alerts@example.com', emailTo: 'operator@example.com' });
+        const alerts = [ { kind: 'prefix-missing' as const, message: 'm1', since: '2024-01-01T00:00:00.000Z' } ];
+
+        // no recipients registered: nothing goes to the operator address
+        assertEquals((await notifyShowAlerts({ showUuid, alerts, emailer, origin: 'https://op3.example', statsBlobs })).emails, 0);
+        assertEquals(sent, []);
+
+        const origin = 'https://op3.example';
+        await assertRejects(() => saveShowAlertRecipients({ showUuid, emails: [ 'not an email' ], emailer, origin, statsBlobs }));
+        await saveShowAlertRecipients({ showUuid, emails: [ 'host@example.com', 'producer@example.com', 'host@example.com' ], emailer, origin, statsBlobs });
+        assertEquals((await loadShowAlertRecipients({ showUuid, statsBlobs })).emails, [ 'host@example.com', 'producer@example.com' ]);
+        assertEquals(await hasShowAlertsConfigured({ showUuid, statsBlobs }), false);
+
+        // registering only sends a confirmation code, once a day at most
+        assertEquals(sent.map(v => v.to), [ 'host@example.com', 'producer@example.com' ]);
+        await saveShowAlertRecipients({ showUuid, emails: [ 'host@example.com', 'producer@example.com' ], emailer, origin, statsBlobs });
+        assertEquals(sent.length, 2);
+        assertEquals((await notifyShowAlerts({ showUuid, alerts, emailer, origin, statsBlobs })).emails, 0);
+
+        // only confirmed addresses get alerts
+        const code = /Confirmation code: (\d+)/.exec(sent[0].text)?.[1];
+        if (!code) throw new Error(`Expected code`);
+        assertEquals(await confirmShowAlertRecipient({ showUuid, email: 'producer@example.com', code, statsBlobs }), undefined);
+        assertEquals((await confirmShowAlertRecipient({ showUuid, email: 'host@example.com', code, statsBlobs }))?.confirmed, [ 'host@example.com' ]);
+        assertEquals(await hasShowAlertsConfigured({ showUuid, statsBlobs }), true);
+        sent.splice(0);
+        assertEquals((await notifyShowAlerts({ showUuid, alerts, emailer, origin, statsBlobs })).emails, 1);
+        assertEquals(sent.map(v => v.to), [ 'host@example.com' ]);
+        assertEquals(sent[0].subject, `OP3 show alert: prefix-missing (${showUuid})`);
+
+        // confirmation codes expire
+        await saveShowAlertRecipients({ showUuid, emails: [ 'host@example.com', 'later@example.com' ], emailer, origin, statsBlobs, now: '2020-01-01T00:00:00.000Z' });
+        const laterCode = /Confirmation code: (\d+)/.exec(sent.at(-1)?.text ?? '')?.[1] ?? '';
+        assertEquals(await confirmShowAlertRecipient({ showUuid, email: 'later@example.com', code: laterCode, statsBlobs }), undefined);
+    }
+});
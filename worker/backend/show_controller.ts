@@ -1,24 +1,32 @@
+import { auditEnclosureChains, ChainAudit, isValidChainAudit } from '../chain_audit.ts';
 import { computeChainDestinationUrl } from '../chain_estimate.ts';
-import { check, checkMatches, isString, isStringRecord, isValidGuid, isValidHttpUrl, tryParseInt, tryParseJson } from '../check.ts';
+import { check, checkMatches, isString, isStringRecord, isValidGuid, isValidHttpUrl, isValidMonth, tryParseInt, tryParseJson, undefinedIfBlank } from '../check.ts';
 import { isValidSha256Hex } from '../crypto.ts';
 import { Bytes, chunk, distinct, DurableObjectStorage, DurableObjectStorageValue, sortBy } from '../deps.ts';
-import { equalItunesCategories, Item, parseFeed, stringifyItunesCategories } from '../feed_parser.ts';
+import { equalItunesCategories, Item, parseFeed, stringifyItunesCategories, Value } from '../feed_parser.ts';
 import { fetchOp3RedirectUrls, hasOp3Reference, isRedirectFetchingRequired } from '../fetch_redirects.ts';
 import { computeUserAgent } from '../outbound.ts';
 import { PodcastIndexClient } from '../podcast_index_client.ts';
 import { AdminDataRequest, AdminDataResponse, AlarmPayload, ExternalNotificationRequest, RpcClient, Unkinded } from '../rpc_model.ts';
-import { addHours, computeStartOfYearTimestamp, computeTimestamp, timestampToInstant } from '../timestamp.ts';
+import { addHours, addMonthsToMonthString, computeStartOfYearTimestamp, computeTimestamp, timestampToInstant } from '../timestamp.ts';
 import { consoleInfo, consoleWarn, writeTraceEvent } from '../tracer.ts';
 import { cleanUrl, computeMatchUrl, tryCleanUrl, tryComputeIncomingUrl, tryComputeMatchUrl } from '../urls.ts';
 import { generateUuid, isValidUuid } from '../uuid.ts';
 import { tryMakeXfetcher } from '../xfetcher.ts';
 import { Backups } from './backups.ts';
 import { Blobs } from './blobs.ts';
-import { computeDailyDownloads, computeHourlyDownloads, computeHourlyShowColumns, parseComputeShowDailyDownloadsRequest } from './downloads.ts';
-import { computeShowListenStatsKey, isValidShowListenStats } from './listens.ts';
-import { computeFetchInfo, tryParseBlobKey } from './show_controller_feeds.ts';
-import { EpisodeRecord, FeedItemIndexRecord, FeedItemRecord, FeedRecord, FeedWorkRecord, getHeader, isEpisodeRecord, isFeedItemIndexRecord, isFeedItemRecord, isFeedRecord, isMediaUrlIndexRecord, isShowgroupRecord, isShowPartitionsRecord, isShowRecord, isValidPartition, isValidShowgroupId, isWorkRecord, MediaUrlIndexRecord, PodcastIndexFeed, ShowEpisodesByPubdateIndexRecord, ShowgroupRecord, ShowPartitionsRecord, ShowRecord, WorkRecord } from './show_controller_model.ts';
+import { listBotRuleSetVersions, loadBotRuleSet, saveBotRuleSet } from './bots.ts';
+import { computeDailyDownloads, computeHourlyDownloads, computeHourlyShowColumns, isHourlyDownloadsMode, parseComputeShowDailyDownloadsRequest } from './downloads.ts';
+import { computeEpisodeCoverageKey, isValidEpisodeCoverageSummary, recomputeEpisodeCoverageForMonth } from './episode_coverage.ts';
+import { Emailer } from '../emailer.ts';
+import { computeFeedDiff, computeFeedSnapshotChunks, FeedItemSnapshot, isEmptyFeedDiff, isFeedSnapshotChunk, tryParseFeedSnapshot } from './feed_history.ts';
+import { computeShowListenStatsKey, isValidListenSubmission, isValidShowListenStats, mergeListenSubmissions } from './listens.ts';
+import { computeDownloadCliffAlert, computeEnclosureErrorsAlert, computePrefixMissingAlert, confirmShowAlertRecipient, hasShowAlertsConfigured, isValidAlertEmail, isValidShowAlertStatus, mergeShowAlerts, notifyShowAlerts, saveShowAlertRecipients, ShowAlertCheck } from './show_alerts.ts';
+import { computeFetchInfo, computeRelevantUrlVariant, tryParseBlobKey } from './show_controller_feeds.ts';
+import { AuditChainsWorkRecord, DeliverWebhooksWorkRecord, EpisodeCoverageWorkRecord, EpisodeMetadata, EpisodeRecord, FeedHistoryRecord, FeedItemIndexRecord, FeedItemRecord, FeedRecord, FeedWorkRecord, getHeader, isEpisodeRecord, isFeedHistoryRecord, isFeedItemIndexRecord, isFeedItemRecord, isFeedRecord, isMediaUrlIndexRecord, isShowgroupRecord, isShowPartitionsRecord, isShowRecord, isValidPartition, isValidShowgroupId, isWorkRecord, MediaUrlIndexRecord, MonitorShowsWorkRecord, MonitorShowWorkRecord, PodcastIndexFeed, ShowEpisodesByPubdateIndexRecord, ShowgroupRecord, ShowPartitionsRecord, ShowRecord, ValueConfig, WorkRecord } from './show_controller_model.ts';
 import { ShowControllerNotifications } from './show_controller_notifications.ts';
+import { computeDailyDownloadsFromSummaries, computeShowSummaryKey, ShowSummary, tryLoadShowSummary } from './show_summaries.ts';
+import { deleteShowWebhook, deliverPendingShowWebhooks, isShowWebhookEventType, isValidMilestone, registerShowWebhook } from './show_webhooks.ts';
 import { computeListOpts } from './storage.ts';
 
 export class ShowController {
@@ -36,8 +44,11 @@ export class ShowController {
     private readonly podcastGuidCallState: PodcastGuidCallState = {};
     private readonly allowStorageImport: boolean;
     private readonly xfetcher?: string;
+    private readonly emailer?: Emailer;
+    private listenStatsWrites: Promise<unknown> = Promise.resolve();
+    private recurringWorkChecked = false;
 
-    constructor({ storage, durableObjectName, podcastIndexClient, origin, feedBlobs, statsBlobs, rpcClient, allowStorageImport, xfetcher }: { storage: DurableObjectStorage, durableObjectName: string, podcastIndexClient: PodcastIndexClient, origin: string, feedBlobs: Blobs, statsBlobs: Blobs, rpcClient: RpcClient, allowStorageImport: boolean, xfetcher: string | undefined }) {
+    constructor({ storage, durableObjectName, podcastIndexClient, origin, feedBlobs, statsBlobs, rpcClient, allowStorageImport, xfetcher, emailer }: { storage: DurableObjectStorage, durableObjectName: string, podcastIndexClient: PodcastIndexClient, origin: string, feedBlobs: Blobs, statsBlobs: Blobs, rpcClient: RpcClient, allowStorageImport: boolean, xfetcher: string | undefined, emailer?: Emailer }) {
         this.storage = storage;
         this.durableObjectName = durableObjectName;
         this.podcastIndexClient = podcastIndexClient;
@@ -47,6 +58,7 @@ export class ShowController {
         this.rpcClient = rpcClient;
         this.allowStorageImport = allowStorageImport;
         this.xfetcher = xfetcher;
+        this.emailer = emailer;
         this.notifications = new ShowControllerNotifications(storage, origin);
         this.notifications.callbacks = {
             onPodcastGuids: async podcastGuids => {
@@ -100,7 +112,7 @@ export class ShowController {
         await this.notifications.receiveExternalNotification({ notification, received });
     }
 
-    async adminExecuteDataQuery(req: Unkinded<AdminDataRequest>, backupBlobs: Blobs | undefined, hitsBlobs: Blobs | undefined): Promise<Unkinded<AdminDataResponse>> {
+    async adminExecuteDataQuery(req: Unkinded<AdminDataRequest>, backupBlobs: Blobs | undefined, hitsBlobs: Blobs | undefined, miscBlobs: Blobs | undefined): Promise<Unkinded<AdminDataResponse>> {
         const { notifications, storage, origin, feedBlobs, allowStorageImport, xfetcher } = this;
         const res = await notifications.adminExecuteDataQuery(req);
         if (res) return res;
@@ -182,6 +194,31 @@ export class ShowController {
             }
         }
 
+        if (operationKind === 'update' && targetPath === '/show/alerts/monitor') {
+            // cycles run daily as recurring work: start the next one now, unless one is already underway
+            const map = await storage.list({ prefix: 'sc.work0.' });
+            const [ existingKey, existing ] = [...map].find(v => isWorkRecord(v[1]) && v[1].kind === 'monitor-shows') ?? [];
+            if (isWorkRecord(existing) && existing.kind === 'monitor-shows' && existing.cursor) return { results: [ existing ], message: 'cycle underway' };
+            if (existingKey) await storage.delete(existingKey);
+            const record: MonitorShowsWorkRecord = { uuid: generateUuid(), kind: 'monitor-shows', attempt: 1 };
+            await enqueueRecurringWork(record, storage, this.durableObjectName);
+            return { results: [ record ] };
+        }
+
+        if (operationKind === 'update' && targetPath === '/show/variants/backfill') {
+            // items indexed before variants were tracked report no variant until their feed changes: reindex feeds with alternate enclosures now
+            const feedRecordIdsToShowUuids = await loadFeedRecordIdsToShowUuids(storage);
+            const work: FeedWorkRecord[] = [];
+            for (const feedRecordId of feedRecordIdsToShowUuids.keys()) {
+                const map = await storage.list({ prefix: computeFeedItemRecordKeyPrefix(feedRecordId) });
+                if (![...map.values()].filter(isFeedItemRecord).some(v => Object.keys(v.relevantUrls).some(w => w.startsWith('ae.')))) continue;
+                const feedRecord = await storage.get(computeFeedRecordKey(feedRecordId));
+                if (isFeedRecord(feedRecord)) work.push({ uuid: generateUuid(), kind: 'index-items', feedUrl: feedRecord.url, forceResave: true, attempt: 1 });
+            }
+            await enqueueWork(work, storage, this.durableObjectName);
+            return { results: work, message: `Enqueued ${work.length} feeds for reindexing, recompute show-columns and daily downloads for any past dates that should include variants` };
+        }
+
         if (operationKind === 'select' && targetPath === '/show/work') {
             const map = await storage.list(computeListOpts('sc.work0.', parameters));
             const results = [...map.values()].filter(isWorkRecord);
@@ -352,6 +389,150 @@ export class ShowController {
             }
         }
 
+        {
+            const m = /^\/show\/shows\/(.+?)\/media-urls$/.exec(targetPath);
+            if (m && operationKind === 'select') {
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                const feedRecordIdsToShowUuids = await loadFeedRecordIdsToShowUuids(storage);
+                const feedRecordIds = [...feedRecordIdsToShowUuids].filter(v => v[1] === showUuid).map(v => v[0]);
+                const urls = new Set<string>();
+                const candidatePrefixes = new Set<string>();
+                for (const feedRecordId of feedRecordIds) {
+                    const map = await storage.list({ prefix: computeFeedItemRecordKeyPrefix(feedRecordId) });
+                    for (const { relevantUrls } of [...map.values()].filter(isFeedItemRecord)) {
+                        for (const url of Object.values(relevantUrls)) {
+                            urls.add(computeChainDestinationUrl(url) ?? url);
+                            const prefix = computeMediaUrlPrefix(url);
+                            if (prefix) candidatePrefixes.add(prefix);
+                        }
+                    }
+                }
+                // only offer prefixes that no other known show has media under (e.g. not the root of a flat-layout host)
+                const prefixes: string[] = [];
+                for (const prefix of candidatePrefixes) {
+                    if (await isUniqueMediaUrlPrefix({ prefix, showUuid, feedRecordIdsToShowUuids, storage })) prefixes.push(prefix);
+                }
+                return { results: [ { urls: [...urls].sort(), prefixes: prefixes.sort() } ] };
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/feed-history$/.exec(targetPath);
+            if (m && operationKind === 'select') {
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                const { limit: limitParam = '20' } = parameters;
+                const limit = tryParseInt(limitParam);
+                if (limit === undefined || limit < 1 || limit > MAX_FEED_HISTORY) throw new Error(`Bad limit: ${limitParam}, must be an integer between 1 and ${MAX_FEED_HISTORY}`);
+                const feedRecordIdsToShowUuids = await loadFeedRecordIdsToShowUuids(storage);
+                const feedRecordIds = [...feedRecordIdsToShowUuids].filter(v => v[1] === showUuid).map(v => v[0]);
+                const records: FeedHistoryRecord[] = [];
+                for (const feedRecordId of feedRecordIds) {
+                    const map = await storage.list({ prefix: computeFeedHistoryKeyPrefix(feedRecordId), reverse: true, limit });
+                    records.push(...[...map.values()].filter(isFeedHistoryRecord));
+                }
+                return { results: sortBy(records, (v: FeedHistoryRecord) => v.instant, { order: 'desc' }).slice(0, limit) };
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/chain-audit$/.exec(targetPath);
+            if (m && operationKind === 'select') {
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                const audit = await storage.get(computeChainAuditKey(showUuid));
+                return { results: isValidChainAudit(audit) ? [ audit ] : [] };
+            }
+            if (m && operationKind === 'update') {
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                if (!isShowRecord(await storage.get(computeShowKey(showUuid)))) throw new Error(`Show not found: ${showUuid}`);
+                const map = await storage.list({ prefix: 'sc.work0.' });
+                const existing = [...map.values()].filter(isWorkRecord).find(v => v.kind === 'audit-chains' && v.showUuid === showUuid);
+                if (existing) return { results: [ existing ], message: 'already queued' };
+                const record: AuditChainsWorkRecord = { uuid: generateUuid(), kind: 'audit-chains', showUuid, attempt: 1 };
+                await enqueueWork(record, storage, this.durableObjectName);
+                return { results: [ record ] };
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/alerts$/.exec(targetPath);
+            if (m && operationKind === 'select') {
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                const status = await storage.get(computeShowAlertStatusKey(showUuid));
+                return { results: isValidShowAlertStatus(status) ? [ status ] : [] };
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/alerts\/(recipients|confirm)$/.exec(targetPath);
+            if (m && operationKind === 'update') {
+                // recipients are saved here, since confirmation codes go out with the alert emailer
+                const { statsBlobs, emailer, origin } = this;
+                const [ _, showUuid, action ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                if (action === 'recipients') {
+                    const emails = tryParseJson(parameters.emails ?? '');
+                    if (!Array.isArray(emails) || !emails.every(isValidAlertEmail)) throw new Error(`Missing or invalid 'emails' parameter`);
+                    const recipients = await saveShowAlertRecipients({ showUuid, emails, emailer, origin, statsBlobs });
+                    return { results: [ recipients ] };
+                }
+                const { email, code } = parameters;
+                if (!isValidAlertEmail(email) || typeof code !== 'string') throw new Error(`Provide 'email' and 'code'`);
+                const recipients = await confirmShowAlertRecipient({ showUuid, email, code, statsBlobs });
+                return { results: recipients ? [ recipients ] : [] };
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/webhooks(\/(.+?))?$/.exec(targetPath);
+            if (m && (operationKind === 'update' || operationKind === 'delete')) {
+                // subscription changes are made here, in a storage transaction
+                const { storage, statsBlobs } = this;
+                const [ _, showUuid, __, webhookId ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                if (operationKind === 'update' && webhookId === undefined) {
+                    const { url } = parameters;
+                    const events = tryParseJson(parameters.events ?? '');
+                    const milestones = parameters.milestones === undefined ? undefined : tryParseJson(parameters.milestones);
+                    if (typeof url !== 'string' || !Array.isArray(events) || !events.every(isShowWebhookEventType)) throw new Error(`Provide 'url' and 'events'`);
+                    if (milestones !== undefined && !(Array.isArray(milestones) && milestones.every(isValidMilestone))) throw new Error(`Bad 'milestones'`);
+                    const subscription = await registerShowWebhook({ showUuid, url, events, milestones, storage, statsBlobs });
+                    return { results: [ subscription ] };
+                }
+                if (operationKind === 'delete' && webhookId !== undefined) {
+                    check('webhookId', webhookId, isValidUuid);
+                    const deleted = await deleteShowWebhook({ showUuid, webhookId, storage, statsBlobs });
+                    return { results: deleted ? [ { webhookId } ] : [] };
+                }
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/listens\/submissions$/.exec(targetPath);
+            if (m && operationKind === 'update') {
+                const { statsBlobs } = this;
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                const { submissions: submissionsJson = '' } = parameters;
+                const submissions = tryParseJson(submissionsJson);
+                if (!Array.isArray(submissions) || !submissions.every(isValidListenSubmission)) throw new Error(`Missing or invalid 'submissions' parameter`);
+                const key = computeShowListenStatsKey({ showUuid });
+                // serialize read-merge-write within this object, so concurrent submissions are not lost
+                const write = this.listenStatsWrites.then(async () => {
+                    const existing = await statsBlobs.get(key, 'json');
+                    const stats = mergeListenSubmissions({ showUuid, stats: isValidShowListenStats(existing) ? existing : undefined, submissions });
+                    return await statsBlobs.put(key, JSON.stringify(stats));
+                });
+                this.listenStatsWrites = write.catch(() => {});
+                const { etag } = await write;
+                return { results: [ { etag, submissions: submissions.length } ] };
+            }
+        }
+
         {
             const m = /^\/show\/shows\/(.+?)\/listens$/.exec(targetPath);
             if (m) {
@@ -361,23 +542,53 @@ export class ShowController {
                 check('showUuid', showUuid, isValidUuid);
                 const key = computeShowListenStatsKey({ showUuid });
                 if (operationKind === 'select') {
-                    const result = await statsBlobs.get(key, 'json');
-                    const results = isValidShowListenStats(result) ? [ result ] : [];
-                    return { results };
+                    const { text, etag } = await statsBlobs.get(key, 'text-and-meta') ?? {};
+                    const result = tryParseJson(text ?? '');
+                    if (!isValidShowListenStats(result)) return { results: [] };
+                    return { results: [ result ], message: `etag: ${etag}` };
                 }
                 if (operationKind === 'update') {
-                    const { payload } = parameters;
+                    const { payload, ifMatch } = parameters;
                     if (typeof payload !== 'string' || !isValidShowListenStats(JSON.parse(payload))) throw new Error(`Missing or invalid 'payload' parameter`);
-                    const { etag } = await statsBlobs.put(key, payload);
+                    // same chain as submissions, and the caller must have read the current blob: otherwise submissions merged since would be overwritten
+                    const write = this.listenStatsWrites.then(async () => {
+                        const existing = await statsBlobs.head(key);
+                        if (existing && existing.etag !== ifMatch) throw new Error(`Precondition failed: ifMatch ${ifMatch}, etag ${existing.etag}`);
+                        return await statsBlobs.put(key, payload);
+                    });
+                    this.listenStatsWrites = write.catch(() => {});
+                    const { etag } = await write;
                     return { results: [ { etag } ] };
                 }
                 if (operationKind === 'delete') {
-                    if (await statsBlobs.has(key)) {
+                    const write = this.listenStatsWrites.then(async () => {
+                        if (!await statsBlobs.has(key)) return false;
                         await statsBlobs.delete(key);
-                        return { message: 'deleted' };
-                    } else {
-                        return { message: 'does not exist' };
-                    }
+                        return true;
+                    });
+                    this.listenStatsWrites = write.catch(() => {});
+                    return { message: await write ? 'deleted' : 'does not exist' };
+                }
+            }
+        }
+
+        {
+            const m = /^\/show\/shows\/(.+?)\/episode-coverage$/.exec(targetPath);
+            if (m) {
+                const { statsBlobs } = this;
+                const [ _, showUuid ] = m;
+                check('showUuid', showUuid, isValidUuid);
+                const { month } = parameters;
+                check('month', month, isValidMonth);
+                if (operationKind === 'select') {
+                    const result = await statsBlobs.get(computeEpisodeCoverageKey({ showUuid, period: month }), 'json');
+                    const results = isValidEpisodeCoverageSummary(result) ? [ result ] : [];
+                    return { results };
+                }
+                if (operationKind === 'update') {
+                    const enclosureLengths = await loadEnclosureLengths(showUuid, storage);
+                    const result = await recomputeEpisodeCoverageForMonth({ showUuid, month, enclosureLengths, statsBlobs });
+                    return { results: [ result ] };
                 }
             }
         }
@@ -433,7 +644,27 @@ export class ShowController {
 
         if (targetPath === '/show/stats' && operationKind === 'update') {
             const { rpcClient, statsBlobs } = this;
-            return await updateShowStats({ parameters, rpcClient, statsBlobs, storage, hitsBlobs });
+            return await updateShowStats({ parameters, rpcClient, statsBlobs, storage, hitsBlobs, miscBlobs });
+        }
+
+        if (targetPath === '/show/bot-rules') {
+            if (!miscBlobs) throw new Error(`Need miscBlobs`);
+            if (operationKind === 'select') {
+                const { version: versionStr } = parameters;
+                const version = tryParseInt(versionStr);
+                const ruleSet = await loadBotRuleSet({ miscBlobs, version });
+                const versions = await listBotRuleSetVersions(miscBlobs);
+                return { results: [ { versions, ruleSet } ] };
+            }
+            if (operationKind === 'update') {
+                // new rules apply to subsequent phase 1/3 runs, or to past dates by re-running phase 3 and 4
+                const { ruleSet: ruleSetJson = '' } = parameters;
+                const obj = tryParseJson(ruleSetJson);
+                if (!isStringRecord(obj)) throw new Error(`Bad ruleSet: ${ruleSetJson}`);
+                const { rules, ipRules = [], ipHashes = [] } = obj;
+                const ruleSet = await saveBotRuleSet({ rules, ipRules, ipHashes, miscBlobs });
+                return { results: [ ruleSet ] };
+            }
         }
 
         if (targetPath === '/show/storage/lookup-show-bulk' && operationKind === 'select') {
@@ -550,13 +781,25 @@ export class ShowController {
     }
 
     async work(): Promise<void> {
-        const { storage, podcastIndexClient, durableObjectName } = this;
+        const { storage, podcastIndexClient, durableObjectName, statsBlobs, feedBlobs, emailer, origin } = this;
         const infos: string[] = [];
         try {
+            if (!this.recurringWorkChecked) {
+                // once per isolate, make sure periodic work is scheduled
+                this.recurringWorkChecked = true;
+                infos.push(await ensureRecurringWork(storage, durableObjectName));
+            }
             const limit = 20;
             const map = await storage.list({ prefix: 'sc.work0.', end: `sc.work0.${computeTimestamp()}`, limit });
+            let outboundChecks = 0;
+            let deferred = 0;
             console.log(`ShowController: work found ${map.size} records with limit ${limit}`); infos.push(`work found ${map.size} records with limit ${limit}`);
             for (const [ key, record ] of map) {
+                if (isWorkRecord(record) && (record.kind === 'monitor-show' || record.kind === 'audit-chains') && outboundChecks >= MAX_OUTBOUND_CHECKS_PER_ALARM) {
+                    // each check makes outbound requests, leave the rest for the next alarm
+                    deferred++;
+                    continue;
+                }
                 if (isWorkRecord(record)) {
                     const r = record;
                     infos.push(r.kind);
@@ -564,6 +807,24 @@ export class ShowController {
                         await lookupPodcastGuid(r.podcastGuid, storage, podcastIndexClient);
                     } else if (r.kind === 'lookup-feed') {
                         await lookupFeed(r.feedUrl, storage, podcastIndexClient);
+                    } else if (r.kind === 'index-items') {
+                        infos.push(await indexItems(r.feedUrl, { storage, blobs: feedBlobs, forceResave: r.forceResave, origin, refetchMediaUrls: undefined }));
+                    } else if (r.kind === 'monitor-shows') {
+                        infos.push(await monitorShows({ record: r, storage, statsBlobs, durableObjectName }));
+                    } else if (r.kind === 'monitor-show') {
+                        outboundChecks++;
+                        try {
+                            infos.push(await monitorShow({ showUuid: r.showUuid, feedRecordIds: r.feedRecordIds, storage, statsBlobs, emailer, origin }));
+                        } catch (e) {
+                            consoleWarn('sc-monitor-shows', `Failed to monitor show ${r.showUuid}: ${(e as Error).stack || e}`);
+                        }
+                    } else if (r.kind === 'audit-chains') {
+                        outboundChecks++;
+                        infos.push(await auditShowChains({ showUuid: r.showUuid, feedRecordIds: r.feedRecordIds, storage, origin }));
+                    } else if (r.kind === 'deliver-webhooks') {
+                        infos.push(await deliverWebhooks({ storage, statsBlobs, origin, durableObjectName }));
+                    } else if (r.kind === 'episode-coverage') {
+                        infos.push(await recomputeEpisodeCoverage({ record: r, storage, statsBlobs, durableObjectName }));
                     } else {
                         consoleWarn('sc-work', `Unsupported work kind: ${JSON.stringify(record)}`);
                     }
@@ -573,7 +834,8 @@ export class ShowController {
                 }
                 await this.storage.delete(key);
             }
-            if (map.size === limit) {
+            if (deferred > 0) infos.push(`deferred ${deferred} outbound checks`);
+            if (map.size === limit || deferred > 0) {
                 // might be more work, peek next item
                 const map = await storage.list({ prefix: 'sc.work0.', limit: 1 });
                 if (map.size === 1) {
@@ -593,22 +855,29 @@ export class ShowController {
     }
 }
 
-export async function updateShowStats({ parameters, rpcClient, statsBlobs, storage, hitsBlobs }: { parameters: Record<string, string>, rpcClient: RpcClient, statsBlobs: Blobs, storage: DurableObjectStorage, hitsBlobs: Blobs | undefined }): Promise<Unkinded<AdminDataResponse>> {
-    const { hour, date, type } = parameters;
+export async function updateShowStats({ parameters, rpcClient, statsBlobs, storage, hitsBlobs, miscBlobs }: { parameters: Record<string, string>, rpcClient: RpcClient, statsBlobs: Blobs, storage: DurableObjectStorage, hitsBlobs: Blobs | undefined, miscBlobs: Blobs | undefined }): Promise<Unkinded<AdminDataResponse>> {
+    const { hour, date, type, botRules } = parameters;
+
+    // bot rule set version to apply in phases 1 and 3, defaults to the latest saved version
+    const botRulesVersion = tryParseInt(botRules);
+    if (botRules !== undefined && botRulesVersion === undefined) throw new Error(`Bad botRules: ${botRules}`);
 
     // compute hourly download tsv
     if (typeof hour === 'string') {
-        const { maxHits: maxHitsStr = '100', querySize: querySizeStr = '100', maxQueries: maxQueriesStr = '10', target } = parameters;
+        const { maxHits: maxHitsStr = '100', querySize: querySizeStr = '100', maxQueries: maxQueriesStr = '10', target, mode = 'hourly' } = parameters;
         const maxHits = parseInt(maxHitsStr);
         const querySize = parseInt(querySizeStr);
         const maxQueries = parseInt(maxQueriesStr);
-        const result = await computeHourlyDownloads(hour, { statsBlobs, maxHits, maxQueries, querySize, rpcClient, target, hitsBlobs });
+        if (!isHourlyDownloadsMode(mode)) throw new Error(`Bad mode: ${mode}`);
+        const botRuleSet = await loadBotRuleSet({ miscBlobs, version: botRulesVersion });
+        const result = await computeHourlyDownloads(hour, { statsBlobs, maxHits, maxQueries, querySize, rpcClient, target, hitsBlobs, mode, botRuleSet });
         return { results: [ result ] };
     }
 
     // compute hourly show columns
     if (typeof date === 'string' && type === 'show-columns') {
-        const { skip = '', hashAlg, startHour: startHourStr, endHour: endHourStr, partition } = parameters;
+        const { skip = '', hashAlg, startHour: startHourStr, endHour: endHourStr, partition, mode = 'hourly' } = parameters;
+        if (!isHourlyDownloadsMode(mode)) throw new Error(`Bad mode: ${mode}`);
         const startHour = typeof startHourStr === 'string' ? parseInt(startHourStr) : undefined;
         const endHour = typeof endHourStr === 'string' ? parseInt(endHourStr) : undefined;
         const skipWrite = skip.includes('write');
@@ -618,7 +887,7 @@ export async function updateShowStats({ parameters, rpcClient, statsBlobs, stora
         const { lookupShow, preloadMillis, matchUrls, querylessMatchUrls, feedRecordIdsToShowUuids } = skipBulk ? { lookupShow: () => Promise.resolve(undefined), feedRecordIdsToShowUuids: undefined, preloadMillis: undefined, matchUrls: undefined, querylessMatchUrls: undefined} : await lookupShowBulk(storage);
         consoleInfo('sc-show-columns', `lookupShowBulk: ${JSON.stringify({ preloadMillis, matchUrls, querylessMatchUrls, feedRecordIdsToShowUuids })}`);
         const { partitions } = await loadShowPartitions(storage);
-        const result = await computeHourlyShowColumns({ date, startHour, endHour, partition, partitions, skipWrite, skipLookup, skipDownloads, hashAlg, statsBlobs, lookupShow });
+        const result = await computeHourlyShowColumns({ date, startHour, endHour, partition, partitions, skipWrite, skipLookup, skipDownloads, hashAlg, statsBlobs, lookupShow, mode });
         return { results: [ { ...result, preloadMillis, matchUrls, querylessMatchUrls, feedRecordIdsToShowUuids } ] };
     }
 
@@ -626,7 +895,8 @@ export async function updateShowStats({ parameters, rpcClient, statsBlobs, stora
     if (typeof date === 'string') {
         const req = parseComputeShowDailyDownloadsRequest(date, parameters);
         const { partitions } = await loadShowPartitions(storage);
-        const result = await computeDailyDownloads(req, { statsBlobs, partitions } );
+        const botRuleSet = await loadBotRuleSet({ miscBlobs, version: botRulesVersion });
+        const result = await computeDailyDownloads(req, { statsBlobs, partitions, botRuleSet } );
         return { results: [ result ] };
     }
     
@@ -638,12 +908,12 @@ export async function lookupShowBulk(storage: DurableObjectStorage) {
     // preload match urls in memory for fast bulk lookup
     const loadMatchUrls = async (prefix: string) => {
         const map = await storage.list({ prefix });
-        const rt = new Map<string, { feedRecordId: string, feedItemRecordId: string }[]>(); // key: matchUrl1024
+        const rt = new Map<string, { feedRecordId: string, feedItemRecordId: string, variant?: string }[]>(); // key: matchUrl1024
         for (const [ key, value ] of map) {
             if (!isFeedItemIndexRecord(value)) continue;
             const { matchUrl1024, feedRecordId, feedItemRecordId } = unpackMatchUrlToFeedItemIndexKey(key); // assume same structure for queryless
             const values = rt.get(matchUrl1024) ?? [];
-            values.push({ feedRecordId, feedItemRecordId });
+            values.push({ feedRecordId, feedItemRecordId, variant: value.variant });
             rt.set(matchUrl1024, values);
         }
         return rt;
@@ -667,6 +937,10 @@ export async function lookupShowBulk(storage: DurableObjectStorage) {
     const showgroupWeightsByShowUuid = await loadShowgroupWeightsByShowUuid();
     const preloadMillis = Date.now() - start;
     const unableToComputeMatchUrls = new Set<string>();
+    const computeVariant = (matches: { variant?: string }[]) => {
+        const variants = distinct(matches.map(v => v.variant ?? ''));
+        return variants.length === 1 && variants[0] !== '' ? variants[0] : undefined;
+    };
 
     const lookupShow = async (url: string, messages?: string[]) => {
         await Promise.resolve();
@@ -694,14 +968,14 @@ export async function lookupShowBulk(storage: DurableObjectStorage) {
                 messages?.push(`queryless(${queryless}): no matches`);
                 continue;
             }
-            const showMatches = matches.flatMap(({ feedRecordId, feedItemRecordId }) => {
+            const showMatches = matches.flatMap(({ feedRecordId, feedItemRecordId, variant }) => {
                 const showUuid = feedRecordIdsToShowUuids.get(feedRecordId);
-                return showUuid ? [ { feedRecordId, feedItemRecordId, showUuid } ] : [];
+                return showUuid ? [ { feedRecordId, feedItemRecordId, showUuid, variant } ] : [];
             });
             if (showMatches.length === 1) {
                 messages?.push(`queryless(${queryless}): single match: ${JSON.stringify(showMatches[0])}`);
-                const { showUuid, feedItemRecordId: episodeId } = showMatches[0];
-                return { showUuid, episodeId }
+                const { showUuid, feedItemRecordId: episodeId, variant } = showMatches[0];
+                return { showUuid, episodeId, variant }
             }
             const showUuids = distinct(showMatches.map(v => v.showUuid)).filter(isString);
             messages?.push(`queryless(${queryless}): multiple matches: ${JSON.stringify({ showMatches, showUuids })}`);
@@ -709,7 +983,7 @@ export async function lookupShowBulk(storage: DurableObjectStorage) {
                 const showUuid = showUuids[0];
                 const feedItemRecordIds = distinct(showMatches.map(v => v.feedItemRecordId));
                 const episodeId = feedItemRecordIds.length === 1 ? feedItemRecordIds[0] : undefined;
-                return { showUuid, episodeId };
+                return { showUuid, episodeId, variant: episodeId ? computeVariant(showMatches) : undefined };
             }
             if (showUuids.length > 1) {
                 const showUuidsWithShowgroupInfo = showUuids.map(showUuid => ({ showUuid, ...(showgroupWeightsByShowUuid.get(showUuid) ?? { showgroupId: '', weight: 0 }) }));
@@ -719,9 +993,10 @@ export async function lookupShowBulk(storage: DurableObjectStorage) {
                     const winnerShowUuid = sortBy(showUuidsWithShowgroupInfo.filter(v => v.weight === maxWeight), v => v.showUuid).at(0)?.showUuid;
                     messages?.push(`queryless(${queryless}): single showgroup: ${JSON.stringify({ showUuidsWithShowgroupInfo, maxWeight, winnerShowUuid })}`);
                     if (winnerShowUuid) {
-                        const feedItemRecordIds = distinct(showMatches.filter(v => v.showUuid === winnerShowUuid).map(v => v.feedItemRecordId));
+                        const winnerMatches = showMatches.filter(v => v.showUuid === winnerShowUuid);
+                        const feedItemRecordIds = distinct(winnerMatches.map(v => v.feedItemRecordId));
                         const episodeId = feedItemRecordIds.length === 1 ? feedItemRecordIds[0] : undefined;
-                        return { showUuid: winnerShowUuid, episodeId };
+                        return { showUuid: winnerShowUuid, episodeId, variant: episodeId ? computeVariant(winnerMatches) : undefined };
                     }
                 }
             }
@@ -735,6 +1010,18 @@ export async function lookupShowBulk(storage: DurableObjectStorage) {
 
 const WORK_EPOCH_TIMESTAMP = computeStartOfYearTimestamp(2020);
 const WORK_EPOCH_INSTANT = timestampToInstant(WORK_EPOCH_TIMESTAMP);
+const MAX_VALUE_HISTORY = 20;
+const MAX_FEED_HISTORY = 100; // per feed
+const MONITOR_SHOWS_BATCH_SIZE = 20; // shows queued per monitor-shows step
+const MAX_OUTBOUND_CHECKS_PER_ALARM = 5; // monitor-show and audit-chains records, each makes several outbound requests
+const MONITOR_SHOWS_ENCLOSURES = 3; // newest enclosures to check per show
+const CHAIN_AUDIT_ENCLOSURES = 5; // newest enclosures to follow per show
+const CHAIN_AUDIT_INTERVAL_DAYS = 7; // monitoring cycles refresh older audits
+const DELIVER_WEBHOOKS_INTERVAL_MINUTES = 5;
+const EPISODE_COVERAGE_BATCH_SIZE = 10; // shows recomputed per episode-coverage step, each reads up to two blobs per day of the month
+const MAX_MEDIA_URL_PREFIX_CHECKS = 1000; // index entries under a media url prefix, beyond which it is not offered for show-scoped hits queries
+
+type RecurringWorkRecord = DeliverWebhooksWorkRecord | MonitorShowsWorkRecord | EpisodeCoverageWorkRecord;
 
 async function rescheduleAlarm(soonestNotBeforeInstant: string, storage: DurableObjectStorage, durableObjectName: string) {
     const soonestNotBeforeTime = new Date(soonestNotBeforeInstant).getTime();
@@ -758,6 +1045,28 @@ async function enqueueWork(work: WorkRecord | WorkRecord[], storage: DurableObje
     await rescheduleAlarm(soonestNotBeforeInstant, storage, durableObjectName);
 }
 
+async function enqueueRecurringWork(work: RecurringWorkRecord, storage: DurableObjectStorage, durableObjectName: string): Promise<void> {
+    // keep track of the queued record, so we can tell if the cycle was lost
+    await enqueueWork(work, storage, durableObjectName);
+    await storage.put(`sc.recurring.${work.kind}`, computeWorkRecordKey(work));
+}
+
+async function ensureRecurringWork(storage: DurableObjectStorage, durableObjectName: string): Promise<string> {
+    const started: string[] = [];
+    const records: RecurringWorkRecord[] = [
+        { uuid: generateUuid(), kind: 'deliver-webhooks', attempt: 1 },
+        { uuid: generateUuid(), kind: 'monitor-shows', attempt: 1 },
+        { uuid: generateUuid(), kind: 'episode-coverage', attempt: 1 },
+    ];
+    for (const record of records) {
+        const workKey = await storage.get(`sc.recurring.${record.kind}`);
+        if (typeof workKey === 'string' && await storage.get(workKey) !== undefined) continue;
+        await enqueueRecurringWork(record, storage, durableObjectName);
+        started.push(record.kind);
+    }
+    return `recurring work: ${started.length > 0 ? `started ${started.join(', ')}` : 'ok'}`;
+}
+
 function computeWorkRecordKey(record: WorkRecord): string {
     const { notBeforeInstant, uuid } = record;
     const notBeforeTimestamp = typeof notBeforeInstant === 'string' ? computeTimestamp(notBeforeInstant) : WORK_EPOCH_TIMESTAMP;
@@ -1003,6 +1312,7 @@ async function indexItems(feedUrlOrRecord: string | FeedRecord, opts: { storage:
     }
 
     // compute and save new/updated feed item records and matchurl index records
+    const trailerUrls = new Set((feed.trailers ?? []).map(v => v.url));
     const newRecords: Record<string, FeedItemRecord> = {};
     const newIndexRecords: Record<string, FeedItemIndexRecord> = {};
     if (forceResave) rt.push('forceResave');
@@ -1030,25 +1340,35 @@ async function indexItems(feedUrlOrRecord: string | FeedRecord, opts: { storage:
             }
             if (record.lastOkFetch === undefined || instant > record.lastSeenInstant || forceResave) {
                 const relevantUrls = computeRelevantUrls(item, knownRedirectUrls);
-                for (const relevantUrl of Object.values(relevantUrls)) {
+                const addIndexRecord = (key: string, variant: string | undefined) => {
+                    // primary enclosures are listed first, and win if the same url is also an alternate enclosure source
+                    if (newIndexRecords[key]) return;
+                    newIndexRecords[key] = variant ? { feedItemRecordKey, variant } : { feedItemRecordKey };
+                };
+                for (const [ jpath, relevantUrl ] of Object.entries(relevantUrls)) {
                     const destinationUrl = computeChainDestinationUrl(relevantUrl);
                     if (destinationUrl) {
+                        const variant = computeRelevantUrlVariant(item, jpath);
                         const incomingDestinationUrl = tryComputeIncomingUrl(destinationUrl) ?? destinationUrl;
                         const matchUrl = tryComputeMatchUrl(incomingDestinationUrl);
                         if (matchUrl) {
-                            newIndexRecords[computeMatchUrlToFeedItemIndexKey(matchUrl, feedRecordId, feedItemRecordId)] = { feedItemRecordKey };
+                            addIndexRecord(computeMatchUrlToFeedItemIndexKey(matchUrl, feedRecordId, feedItemRecordId), variant);
                             if (matchUrl.includes('?')) {
                                 const querylessMatchUrl = tryComputeMatchUrl(incomingDestinationUrl, { queryless: true });
                                 if (querylessMatchUrl) {
-                                    newIndexRecords[computeQuerylessMatchUrlToFeedItemIndexKey(querylessMatchUrl, feedRecordId, feedItemRecordId)] = { feedItemRecordKey };
+                                    addIndexRecord(computeQuerylessMatchUrlToFeedItemIndexKey(querylessMatchUrl, feedRecordId, feedItemRecordId), variant);
                                 }
                             }
                         }
                     }
                 }
-                const { title, pubdate, pubdateInstant, transcripts } = item;
+                const { title, pubdate, pubdateInstant, transcripts, enclosures } = item;
                 const hasTranscripts = transcripts && transcripts.length > 0;
-                const update: FeedItemRecord = { ...record, lastOkFetch, lastSeenInstant: instant, relevantUrls, title, pubdate, pubdateInstant, hasTranscripts };
+                const enclosureLength = tryParseEnclosureLength(enclosures?.at(0)?.length);
+                const metadata = computeEpisodeMetadata(item, trailerUrls);
+                const valueHistory = computeValueHistory({ item, feedValue: feed.value, instant, existing: record?.valueHistory });
+                const enclosureUrl = enclosures?.at(0)?.url?.substring(0, 8 * 1024);
+                const update: FeedItemRecord = { ...record, lastOkFetch, lastSeenInstant: instant, relevantUrls, title, pubdate, pubdateInstant, hasTranscripts, enclosureLength, enclosureUrl, metadata, valueHistory };
                 newRecords[feedItemRecordKey] = update;
                 if (isInsert) {
                     inserts++;
@@ -1059,6 +1379,10 @@ async function indexItems(feedUrlOrRecord: string | FeedRecord, opts: { storage:
         }
     }
 
+    // compare against the previous parse before saving the new item records
+    const feedHistoryResult = await saveFeedHistoryIfChanged({ feedRecord, items: itemsByTrimmedGuid, knownRedirectUrls, instant: lastOkFetch.responseInstant, storage });
+    if (feedHistoryResult) rt.push(feedHistoryResult);
+
     if (inserts > 0) rt.push(`${inserts} FeedItemRecord inserts`);
     if (updates > 0) rt.push(`${updates} FeedItemRecord updates`);
     if (Object.keys(newRecords).length > 0) {
@@ -1211,6 +1535,185 @@ function computeRelevantUrls(item: Item, knownRedirects?: Record<string, string[
     return rt;
 }
 
+async function saveFeedHistoryIfChanged({ feedRecord, items, knownRedirectUrls, instant, storage }: { feedRecord: FeedRecord, items: Record<string, Item>, knownRedirectUrls: Record<string, string[]> | undefined, instant: string, storage: DurableObjectStorage }): Promise<string | undefined> {
+    const { id: feedRecordId, url: feedUrl } = feedRecord;
+
+    // compare against the compact snapshot of the previous parse, instead of listing every item record
+    const snapshotPrefix = computeFeedSnapshotKeyPrefix(feedRecordId);
+    const existingChunks = await storage.list({ prefix: snapshotPrefix });
+    const snapshot = tryParseFeedSnapshot([...existingChunks.values()].filter(isFeedSnapshotChunk));
+    if (snapshot && snapshot.instant >= instant) return undefined; // reindexing the same fetch
+
+    const current: FeedItemSnapshot[] = Object.entries(items).map(([ guid, item ]) => ({ guid, title: item.title, enclosureUrl: item.enclosures?.at(0)?.url?.substring(0, 8 * 1024), prefixed: isPrefixedRelevantUrls(computeRelevantUrls(item, knownRedirectUrls)), pubdateInstant: item.pubdateInstant }));
+    const chunks = computeFeedSnapshotChunks(instant, current);
+    await storage.put(Object.fromEntries(chunks.map(v => [ computeFeedSnapshotKey({ feedRecordId, chunk: v.chunk }), v ])));
+    const staleKeys = [...existingChunks.keys()].filter(v => parseInt(v.substring(snapshotPrefix.length)) >= chunks.length);
+    if (staleKeys.length > 0) await storage.delete(staleKeys);
+    if (!snapshot) return undefined; // first parse
+
+    const { instant: previousInstant, items: previous } = snapshot;
+    const diff = computeFeedDiff(previous, current);
+    if (isEmptyFeedDiff(diff)) return undefined;
+
+    const record: FeedHistoryRecord = { feedRecordId, feedUrl, instant, previousInstant, items: current.length, diff };
+    await storage.put(computeFeedHistoryKey({ feedRecordId, instant }), record);
+
+    // keep the most recent entries only
+    const keys = [...(await storage.list({ prefix: computeFeedHistoryKeyPrefix(feedRecordId) })).keys()];
+    const keysToDelete = keys.slice(0, Math.max(0, keys.length - MAX_FEED_HISTORY));
+    if (keysToDelete.length > 0) await storage.delete(keysToDelete);
+
+    const { added, removed, guidChanges, titleChanges, enclosureUrlChanges, prefixRemoved, prefixAdded } = diff;
+    return `feed history: ${Object.entries({ added, removed, guidChanges, titleChanges, enclosureUrlChanges, prefixRemoved, prefixAdded }).filter(v => v[1].length > 0).map(v => `${v[1].length} ${v[0]}`).join(', ')}`;
+}
+
+function isPrefixedRelevantUrls(relevantUrls: Record<string, string>): boolean {
+    // primary enclosure goes through op3, directly or via a known redirect
+    return Object.keys(relevantUrls).some(v => v === 'e.0.url' || v.startsWith('e.0.url.redirect'));
+}
+
+async function monitorShows({ record, storage, statsBlobs, durableObjectName }: { record: MonitorShowsWorkRecord, storage: DurableObjectStorage, statsBlobs: Blobs, durableObjectName: string }): Promise<string> {
+    const { cursor } = record;
+    const prefix = computeShowKeyPrefix();
+    const map = await storage.list({ prefix, ...(cursor ? { startAfter: computeShowKey(cursor) } : {}), limit: MONITOR_SHOWS_BATCH_SIZE });
+    const feedRecordIdsToShowUuids = await loadFeedRecordIdsToShowUuids(storage);
+
+    // queue one check per show with alerts configured, plus a chain audit if the last one is stale, spread out so that each alarm runs a bounded number of them
+    const start = Date.now();
+    const staleAuditInstant = new Date(start - CHAIN_AUDIT_INTERVAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const checks: (MonitorShowWorkRecord | AuditChainsWorkRecord)[] = [];
+    let skipped = 0;
+    for (const { uuid: showUuid } of [...map.values()].filter(isShowRecord)) {
+        if (!await hasShowAlertsConfigured({ showUuid, statsBlobs })) {
+            skipped++;
+            continue;
+        }
+        const feedRecordIds = [...feedRecordIdsToShowUuids].filter(v => v[1] === showUuid).map(v => v[0]);
+        checks.push({ uuid: generateUuid(), kind: 'monitor-show', attempt: 1, showUuid, feedRecordIds });
+        const audit = await storage.get(computeChainAuditKey(showUuid));
+        if (!isValidChainAudit(audit) || audit.instant < staleAuditInstant) checks.push({ uuid: generateUuid(), kind: 'audit-chains', attempt: 1, showUuid, feedRecordIds });
+    }
+    await enqueueWork(checks.map((v, i) => ({ ...v, notBeforeInstant: new Date(start + Math.floor(i / MAX_OUTBOUND_CHECKS_PER_ALARM) * 1000 * 60).toISOString() })), storage, durableObjectName);
+
+    // continue this cycle with the next batch of shows once these are checked, or start the next cycle tomorrow
+    const lastKey = [...map.keys()].at(-1);
+    const next: MonitorShowsWorkRecord = map.size === MONITOR_SHOWS_BATCH_SIZE && lastKey
+        ? { uuid: generateUuid(), kind: 'monitor-shows', attempt: 1, cursor: lastKey.substring(prefix.length), notBeforeInstant: new Date(start + Math.ceil(checks.length / MAX_OUTBOUND_CHECKS_PER_ALARM) * 1000 * 60).toISOString() }
+        : { uuid: generateUuid(), kind: 'monitor-shows', attempt: 1, notBeforeInstant: addHours(new Date(start).toISOString(), 24).toISOString() };
+    await enqueueRecurringWork(next, storage, durableObjectName);
+    return `monitor-shows: queued ${checks.length}, skipped ${skipped} without alerts, next ${next.cursor ?? 'cycle'} at ${next.notBeforeInstant}`;
+}
+
+async function recomputeEpisodeCoverage({ record, storage, statsBlobs, durableObjectName }: { record: EpisodeCoverageWorkRecord, storage: DurableObjectStorage, statsBlobs: Blobs, durableObjectName: string }): Promise<string> {
+    const { cursor } = record;
+    const prefix = computeShowKeyPrefix();
+    const map = await storage.list({ prefix, ...(cursor ? { startAfter: computeShowKey(cursor) } : {}), limit: EPISODE_COVERAGE_BATCH_SIZE });
+
+    // show daily downloads for a date land the following day, so recompute the month of yesterday (finishing up last month on the 1st)
+    const start = Date.now();
+    const month = addHours(new Date(start).toISOString(), -24).toISOString().substring(0, 7);
+    let recomputed = 0;
+    for (const { uuid: showUuid } of [...map.values()].filter(isShowRecord)) {
+        try {
+            const enclosureLengths = await loadEnclosureLengths(showUuid, storage);
+            const { episodes } = await recomputeEpisodeCoverageForMonth({ showUuid, month, enclosureLengths, statsBlobs });
+            if (episodes > 0) recomputed++;
+        } catch (e) {
+            consoleWarn('sc-episode-coverage', `Failed to recompute episode coverage for show ${showUuid} ${month}: ${(e as Error).stack || e}`);
+        }
+    }
+
+    // continue this cycle with the next batch of shows in a minute, or start the next cycle tomorrow
+    const lastKey = [...map.keys()].at(-1);
+    const next: EpisodeCoverageWorkRecord = map.size === EPISODE_COVERAGE_BATCH_SIZE && lastKey
+        ? { uuid: generateUuid(), kind: 'episode-coverage', attempt: 1, cursor: lastKey.substring(prefix.length), notBeforeInstant: new Date(start + 1000 * 60).toISOString() }
+        : { uuid: generateUuid(), kind: 'episode-coverage', attempt: 1, notBeforeInstant: addHours(new Date(start).toISOString(), 24).toISOString() };
+    await enqueueRecurringWork(next, storage, durableObjectName);
+    return `episode-coverage: ${month} recomputed ${recomputed} of ${map.size}, next ${next.cursor ?? 'cycle'} at ${next.notBeforeInstant}`;
+}
+
+async function loadEnclosureLengths(showUuid: string, storage: DurableObjectStorage): Promise<Record<string, number>> {
+    const map = await storage.list({ prefix: computeEpisodeKeyPrefix({ showUuid })});
+    return Object.fromEntries([...map.values()].filter(isEpisodeRecord).flatMap(v => typeof v.enclosureLength === 'number' ? [ [ v.id, v.enclosureLength ] ] : []));
+}
+
+async function monitorShow({ showUuid, feedRecordIds, storage, statsBlobs, emailer, origin }: { showUuid: string, feedRecordIds: readonly string[], storage: DurableObjectStorage, statsBlobs: Blobs, emailer: Emailer | undefined, origin: string }): Promise<string> {
+    const now = new Date().toISOString();
+    const items = await loadCurrentFeedItemSnapshots({ feedRecordIds, storage });
+    const checks: ShowAlertCheck[] = [];
+
+    const prefixMissing = computePrefixMissingAlert(items);
+    if (prefixMissing) checks.push(prefixMissing);
+
+    // enough monthly summaries to cover the trailing average early in the month
+    const month = now.substring(0, 7);
+    const summaries: ShowSummary[] = [];
+    for (const period of [ -2, -1, 0 ].map(v => addMonthsToMonthString(month, v))) {
+        const summary = await tryLoadShowSummary(computeShowSummaryKey({ showUuid, period }), statsBlobs);
+        if (summary) summaries.push(summary);
+    }
+    const { dailyDownloads, lastDate } = computeDailyDownloadsFromSummaries(summaries);
+    const downloadCliff = lastDate ? computeDownloadCliffAlert({ dailyDownloads, lastDate }) : undefined;
+    if (downloadCliff) checks.push(downloadCliff);
+
+    const userAgent = computeUserAgent({ origin });
+    const newest = sortBy(items.filter(v => v.pubdateInstant !== undefined && v.enclosureUrl !== undefined), (v: FeedItemSnapshot) => v.pubdateInstant ?? '', { order: 'desc' }).slice(0, MONITOR_SHOWS_ENCLOSURES);
+    const results = await Promise.all(newest.map(async ({ title, enclosureUrl = '' }: FeedItemSnapshot) => {
+        const url = computeChainDestinationUrl(enclosureUrl) ?? enclosureUrl;
+        return { title, url, status: await tryFetchStatus(url, userAgent) };
+    }));
+    const enclosureErrors = computeEnclosureErrorsAlert(results);
+    if (enclosureErrors) checks.push(enclosureErrors);
+
+    const key = computeShowAlertStatusKey(showUuid);
+    const previous = await storage.get(key);
+    const { status, raised } = mergeShowAlerts({ showUuid, previous: isValidShowAlertStatus(previous) ? previous : undefined, checks, now });
+    await storage.put(key, status);
+    const { emails, deliveries } = await notifyShowAlerts({ showUuid, alerts: raised, emailer, origin, statsBlobs });
+    return `monitor-show: ${showUuid} ${checks.length} active, ${raised.length} raised, ${emails} emails, ${deliveries} webhook deliveries queued`;
+}
+
+async function auditShowChains({ showUuid, feedRecordIds: feedRecordIdsInput, storage, origin }: { showUuid: string, feedRecordIds: readonly string[] | undefined, storage: DurableObjectStorage, origin: string }): Promise<string> {
+    const feedRecordIds = feedRecordIdsInput ?? [...await loadFeedRecordIdsToShowUuids(storage)].filter(v => v[1] === showUuid).map(v => v[0]);
+    const items = await loadCurrentFeedItemSnapshots({ feedRecordIds, storage });
+    const newest = sortBy(items.filter(v => v.pubdateInstant !== undefined && v.enclosureUrl !== undefined), (v: FeedItemSnapshot) => v.pubdateInstant ?? '', { order: 'desc' }).slice(0, CHAIN_AUDIT_ENCLOSURES);
+    const enclosures = newest.flatMap(({ title, enclosureUrl }: FeedItemSnapshot) => enclosureUrl ? [ { url: enclosureUrl, title } ] : []);
+    const instant = new Date().toISOString();
+    const results = await auditEnclosureChains(enclosures, { userAgent: computeUserAgent({ origin }) });
+    const audit: ChainAudit = { showUuid, instant, results };
+    await storage.put(computeChainAuditKey(showUuid), audit);
+    return `audit-chains: ${showUuid} ${results.length} enclosures, ${results.reduce((a, b) => a + b.mismatches.length, 0)} mismatches`;
+}
+
+async function deliverWebhooks({ storage, statsBlobs, origin, durableObjectName }: { storage: DurableObjectStorage, statsBlobs: Blobs, origin: string, durableObjectName: string }): Promise<string> {
+    const { attempted, delivered, failed, retrying, pruned, more } = await deliverPendingShowWebhooks({ statsBlobs, origin });
+
+    // come back soon if there is a backlog
+    const notBeforeInstant = new Date(Date.now() + (more ? 30 * 1000 : DELIVER_WEBHOOKS_INTERVAL_MINUTES * 60 * 1000)).toISOString();
+    await enqueueRecurringWork({ uuid: generateUuid(), kind: 'deliver-webhooks', attempt: 1, notBeforeInstant }, storage, durableObjectName);
+    return `deliver-webhooks: attempted ${attempted}, delivered ${delivered}, failed ${failed}, retrying ${retrying}, pruned ${pruned}, next at ${notBeforeInstant}`;
+}
+
+async function loadCurrentFeedItemSnapshots({ feedRecordIds, storage }: { feedRecordIds: readonly string[], storage: DurableObjectStorage }): Promise<FeedItemSnapshot[]> {
+    // items in the most recent parse of each feed, from the compact snapshot saved alongside feed history
+    const rt: FeedItemSnapshot[] = [];
+    for (const feedRecordId of feedRecordIds) {
+        const map = await storage.list({ prefix: computeFeedSnapshotKeyPrefix(feedRecordId) });
+        rt.push(...tryParseFeedSnapshot([...map.values()].filter(isFeedSnapshotChunk))?.items ?? []);
+    }
+    return rt;
+}
+
+async function tryFetchStatus(url: string, userAgent: string): Promise<number | undefined> {
+    try {
+        const res = await fetch(url, { method: 'HEAD', headers: { 'user-agent': userAgent }, signal: AbortSignal.timeout(1000 * 10) });
+        await res.body?.cancel();
+        return res.status;
+    } catch {
+        return undefined; // network errors and timeouts are not conclusive
+    }
+}
+
 function isValidPodcastGuid(podcastGuid: string): boolean {
     return typeof podcastGuid === 'string' && (isValidGuid(podcastGuid) || /^0x[a-fA-F0-9]{40}$/.test(podcastGuid)); // 0x1bECc6153CBdF5654357E5AAc813D5f1a45c40a6
 }
@@ -1342,7 +1845,7 @@ async function ensureEpisodesExistForAllFeedItems(opts: { feedRecordId: string,
             const episodeId = episodeIds[i];
             const episodeKey = episodeKeys[i];
             const existing = map.get(episodeKey);
-            const { title, pubdate, pubdateInstant, hasTranscripts, relevantUrls } = feedItem;
+            const { title, pubdate, pubdateInstant, hasTranscripts, enclosureLength, metadata, valueHistory, relevantUrls } = feedItem;
             if (itemFilters.length > 0) {
                 const urls = Object.values(relevantUrls);
                 const meetsFilter = itemFilters.some(filter => urls.some(url => url.includes(filter)));
@@ -1354,14 +1857,14 @@ async function ensureEpisodesExistForAllFeedItems(opts: { feedRecordId: string,
             if (isEpisodeRecord(existing)) {
                 const firstSeenInstant = [ feedItem.firstSeenInstant, existing.firstSeenInstant ].filter(isString).sort()[0];
                 const lastSeenInstant = [ feedItem.lastSeenInstant, existing.lastSeenInstant ].filter(isString).sort().reverse()[0];
-                if (title !== existing.title || pubdate !== existing.pubdate || pubdateInstant !== existing.pubdateInstant || firstSeenInstant !== existing.firstSeenInstant || lastSeenInstant !== existing.lastSeenInstant || hasTranscripts !== existing.hasTranscripts) {
-                    const update: EpisodeRecord = { ...existing, title, pubdate, pubdateInstant, firstSeenInstant, lastSeenInstant, hasTranscripts };
+                if (title !== existing.title || pubdate !== existing.pubdate || pubdateInstant !== existing.pubdateInstant || firstSeenInstant !== existing.firstSeenInstant || lastSeenInstant !== existing.lastSeenInstant || hasTranscripts !== existing.hasTranscripts || enclosureLength !== existing.enclosureLength || JSON.stringify(metadata) !== JSON.stringify(existing.metadata) || JSON.stringify(valueHistory) !== JSON.stringify(existing.valueHistory)) {
+                    const update: EpisodeRecord = { ...existing, title, pubdate, pubdateInstant, firstSeenInstant, lastSeenInstant, hasTranscripts, enclosureLength, metadata, valueHistory };
                     epRecords[computeEpisodeKey(update)] = update;
                     updates++;
                 }
             } else {
                 const { firstSeenInstant, lastSeenInstant } = feedItem;
-                const insert: EpisodeRecord = { showUuid, id: episodeId, itemGuid, title, pubdate, pubdateInstant, firstSeenInstant, lastSeenInstant, hasTranscripts };
+                const insert: EpisodeRecord = { showUuid, id: episodeId, itemGuid, title, pubdate, pubdateInstant, firstSeenInstant, lastSeenInstant, hasTranscripts, enclosureLength, metadata, valueHistory };
                 epRecords[computeEpisodeKey(insert)] = insert;
                 inserts++;
             }
@@ -1493,6 +1996,22 @@ function computeFeedItemRecordKeyPrefix(feedRecordId: string): string {
     return `sc.fir0.${feedRecordId}.`;
 }
 
+function computeFeedHistoryKey({ feedRecordId, instant }: { feedRecordId: string, instant: string }): string {
+    return `${computeFeedHistoryKeyPrefix(feedRecordId)}${instant}`;
+}
+
+function computeFeedHistoryKeyPrefix(feedRecordId: string): string {
+    return `sc.fh0.${feedRecordId}.`;
+}
+
+function computeFeedSnapshotKey({ feedRecordId, chunk }: { feedRecordId: string, chunk: number }): string {
+    return `${computeFeedSnapshotKeyPrefix(feedRecordId)}${chunk.toString().padStart(4, '0')}`;
+}
+
+function computeFeedSnapshotKeyPrefix(feedRecordId: string): string {
+    return `sc.fhs0.${feedRecordId}.`;
+}
+
 async function computeFeedItemRecordId(itemGuid: string): Promise<string> {
     return (await Bytes.ofUtf8(itemGuid).sha256()).hex();
 }
@@ -1524,6 +2043,24 @@ async function loadFeedRecordIdsToShowUuids(storage: DurableObjectStorage): Prom
     }));
 }
 
+function computeMediaUrlPrefix(url: string): string | undefined {
+    // prefix of the final destination url (up to the last path slash), none when served from the root
+    const destinationUrl = computeChainDestinationUrl(url) ?? url;
+    const m = /^(https?:\/\/[^\/]+)(\/[^?]*)/.exec(tryCleanUrl(destinationUrl) ?? '');
+    if (!m) return undefined;
+    const [ _, origin, pathname ] = m;
+    const i = pathname.lastIndexOf('/');
+    return i > 0 ? `${origin}${pathname.substring(0, i + 1)}` : undefined;
+}
+
+async function isUniqueMediaUrlPrefix({ prefix, showUuid, feedRecordIdsToShowUuids, storage }: { prefix: string, showUuid: string, feedRecordIdsToShowUuids: Map<string, string>, storage: DurableObjectStorage }): Promise<boolean> {
+    const matchUrl = tryComputeMatchUrl(tryComputeIncomingUrl(prefix) ?? prefix);
+    if (!matchUrl || matchUrl.includes('?')) return false;
+    const map = await storage.list({ prefix: `${computeMatchUrlToFeedItemIndexKeyPrefix()}${matchUrl}/`, limit: MAX_MEDIA_URL_PREFIX_CHECKS + 1 });
+    if (map.size > MAX_MEDIA_URL_PREFIX_CHECKS) return false; // too many to verify
+    return [...map.keys()].every(v => feedRecordIdsToShowUuids.get(unpackMatchUrlToFeedItemIndexKey(v).feedRecordId) === showUuid);
+}
+
 async function loadKnownMediaUrls({ feedRecordId, storage }: { feedRecordId: string, storage: DurableObjectStorage }): Promise<Record<string, MediaUrlIndexRecord>> {
     const map = await storage.list({ prefix: computeFeedMediaUrlsIndexKeyPrefix({ feedRecordId }) });
     const records = [...map.values()].filter(isMediaUrlIndexRecord);
@@ -1612,6 +2149,63 @@ function incrementPodcastGuidLookup({ podcastGuid, found, rawIpAddress, state }:
     }
 }
 
+function tryParseEnclosureLength(length: string | undefined): number | undefined {
+    // many feeds use 0 or 1 as a placeholder
+    const rt = typeof length === 'string' && /^\d+$/.test(length.trim()) ? parseInt(length.trim()) : undefined;
+    return rt !== undefined && Number.isSafeInteger(rt) && rt > 1 ? rt : undefined;
+}
+
+function computeEpisodeMetadata(item: Item, trailerUrls: ReadonlySet<string>): EpisodeMetadata | undefined {
+    const { enclosures = [], itunesEpisodeType, season, episode, persons = [], soundbites = [], location } = item;
+    const enclosure = enclosures.at(0);
+    const enclosureType = undefinedIfBlank(enclosure?.type?.trim() ?? '');
+    const itunesEpisodeTypeLower = itunesEpisodeType?.toLowerCase();
+    const episodeType = itunesEpisodeTypeLower && [ 'full', 'trailer', 'bonus' ].includes(itunesEpisodeTypeLower) ? itunesEpisodeTypeLower
+        : enclosure?.url && trailerUrls.has(enclosure.url) ? 'trailer'
+        : undefined;
+    const seasonNumber = season && /^\d+$/.test(season.number) ? parseInt(season.number) : undefined;
+    const episodeNumber = episode && /^\d+(\.\d+)?$/.test(episode.number) ? parseFloat(episode.number) : undefined;
+    const rt: EpisodeMetadata = {
+        enclosureType,
+        episodeType,
+        season: seasonNumber !== undefined && Number.isSafeInteger(seasonNumber) ? seasonNumber : undefined,
+        seasonName: undefinedIfBlank(season?.name?.trim() ?? ''),
+        episode: episodeNumber !== undefined && Number.isFinite(episodeNumber) ? episodeNumber : undefined,
+        episodeDisplay: undefinedIfBlank(episode?.display?.trim() ?? ''),
+        persons: persons.length > 0 ? persons.map(({ name, role, group }) => ({ name, role, group })) : undefined,
+        soundbites: soundbites.length > 0 ? soundbites.flatMap(({ startTime, duration, title }) => {
+            const start = parseFloat(startTime);
+            const dur = parseFloat(duration);
+            return Number.isFinite(start) && start >= 0 && Number.isFinite(dur) && dur > 0 ? [ { startTime: start, duration: dur, title } ] : [];
+        }) : undefined,
+        location: location?.name,
+    };
+    // don't store empty metadata
+    const defined = Object.fromEntries(Object.entries(rt).filter(v => v[1] !== undefined));
+    return Object.keys(defined).length > 0 ? defined : undefined;
+}
+
+function computeValueHistory({ item, feedValue, instant, existing = [] }: { item: Item, feedValue: Value | undefined, instant: string, existing?: readonly ValueConfig[] }): readonly ValueConfig[] | undefined {
+    const value = item.value ?? feedValue;
+    const source: ValueConfig['source'] = item.value ? 'item' : 'channel';
+    const latest = existing.at(-1);
+    if (!value) {
+        // removed from the feed: record as an empty config, so downloads after this point are not attributed
+        if (!latest || latest.recipients.length === 0) return existing.length > 0 ? existing : undefined;
+        return [ ...existing, { since: instant, source, method: latest.method, type: latest.type, recipients: [] } ].slice(-MAX_VALUE_HISTORY);
+    }
+    const { method, type } = value;
+    const recipients = value.recipients.flatMap(({ name, type, address, split: splitStr, fee: feeStr, customKey, customValue }) => {
+        const split = /^\d+(\.\d+)?$/.test(splitStr.trim()) ? parseFloat(splitStr.trim()) : undefined;
+        if (split === undefined || !Number.isFinite(split)) return [];
+        const fee = feeStr?.trim().toLowerCase() === 'true' ? true : undefined;
+        return [ { name: undefinedIfBlank(name?.trim() ?? ''), type, address, split, fee, customKey, customValue } ];
+    });
+    const config: ValueConfig = { since: instant, source, method, type, recipients };
+    if (latest && JSON.stringify({ ...latest, since: instant }) === JSON.stringify(config)) return existing;
+    return [ ...existing, config ].slice(-MAX_VALUE_HISTORY);
+}
+
 enum IndexType {
     PodcastGuid = 1,
     MatchUrlToFeedItem = 2,
@@ -1677,6 +2271,14 @@ function computeShowKeyPrefix(): string {
     return 'sc.show0.';
 }
 
+function computeShowAlertStatusKey(showUuid: string): string {
+    return `sc.alerts0.${showUuid}`;
+}
+
+function computeChainAuditKey(showUuid: string): string {
+    return `sc.ca0.${showUuid}`;
+}
+
 export function computeShowgroupKey(showgroupId: string): string {
     return `sc.showgroup0.${showgroupId}`;
 }
@@ -1,5 +1,6 @@
 import { packError } from '../errors.ts';
 import { ErrorInterface } from '../errors.ts';
+import { Item } from '../feed_parser.ts';
 import { computeTimestamp } from '../timestamp.ts';
 import { isXfetchCandidate, Xfetcher, XResponse } from '../xfetcher.ts';
 import { FetchInfo, ResponseInfo } from './show_controller_model.ts';
@@ -9,6 +10,24 @@ export function tryParseBlobKey(body: string): string | undefined {
     return m ? m[1] : undefined;
 }
 
+/** Label for the alternate enclosure a relevant url came from (by jpath), or undefined for the primary enclosure. */
+export function computeRelevantUrlVariant(item: Item, jpath: string): string | undefined {
+    // e.g. ae.0.s.1.uri or ae.0.s.1.uri.redirect
+    const m = /^ae\.(\d+)\./.exec(jpath);
+    const alternateEnclosure = m ? item.alternateEnclosures?.at(parseInt(m[1])) : undefined;
+    if (!alternateEnclosure) return undefined;
+    const { type, bitrate, height, lang, title } = alternateEnclosure;
+    const bitrateNum = bitrate !== undefined && /^\d+(\.\d+)?$/.test(bitrate.trim()) ? parseFloat(bitrate.trim()) : undefined;
+    const heightNum = height !== undefined && /^\d+$/.test(height.trim()) ? parseInt(height.trim()) : undefined;
+    const label = [
+        type?.trim(),
+        bitrateNum ? `${Math.round(bitrateNum / 1000)}kbps` : undefined,
+        heightNum ? `${heightNum}p` : undefined,
+        lang?.trim(),
+    ].filter(v => v !== undefined && v !== '').join(' ') || title?.trim() || 'alternate';
+    return label.replaceAll(/\s+/g, ' ').substring(0, 100); // stored in tsv columns
+}
+
 type BlobsPut = (key: string, body: ReadableStream<Uint8Array> | ArrayBuffer | string) => Promise<{ etag: string }>;
 
 export async function computeFetchInfo(url: string, headers: Headers, blobKeyBase: string, blobs: { put: BlobsPut }, xfetcher: Xfetcher | undefined ): Promise<FetchInfo> {
@@ -0,0 +1,25 @@
+import { assertEquals } from '../tests/deps.ts';
+import { computeRelevantUrlVariant } from './show_controller_feeds.ts';
+
+Deno.test({
+    name: 'computeRelevantUrlVariant',
+    fn: () => {
+        const item = {
+            guid: 'ep1',
+            enclosures: [ { url: 'https://example.com/ep1.mp3' } ],
+            alternateEnclosures: [
+                { type: 'audio/aac', bitrate: '64000', sources: [ { uri: 'https://example.com/ep1.aac' } ] },
+                { type: 'video/mp4', height: '720', lang: 'en', sources: [ { uri: 'https://example.com/ep1.mp4' } ] },
+                { title: '  Ad-free  version ', bitrate: 'bad', sources: [ { uri: 'https://example.com/ep1-af.mp3' } ] },
+                { sources: [ { uri: 'https://example.com/ep1-alt.mp3' } ] },
+            ],
+        };
+        assertEquals(computeRelevantUrlVariant(item, 'e.0.url'), undefined);
+        assertEquals(computeRelevantUrlVariant(item, 'ae.0.s.0.uri'), 'audio/aac 64kbps');
+        assertEquals(computeRelevantUrlVariant(item, 'ae.0.s.0.uri.redirect'), 'audio/aac 64kbps');
+        assertEquals(computeRelevantUrlVariant(item, 'ae.1.s.0.uri'), 'video/mp4 720p en');
+        assertEquals(computeRelevantUrlVariant(item, 'ae.2.s.0.uri'), 'Ad-free version');
+        assertEquals(computeRelevantUrlVariant(item, 'ae.3.s.0.uri'), 'alternate');
+        assertEquals(computeRelevantUrlVariant(item, 'ae.4.s.0.uri'), undefined);
+    }
+});
@@ -2,7 +2,7 @@ import { isOptionalString, isString, isStringRecord } from '../check.ts';
 import { ErrorInterface, isErrorInterface } from '../errors.ts';
 import { ItunesCategory } from '../feed_parser.ts';
 
-export type WorkRecord = FeedWorkRecord | PodcastGuidWorkRecord;
+export type WorkRecord = FeedWorkRecord | PodcastGuidWorkRecord | MonitorShowsWorkRecord | MonitorShowWorkRecord | AuditChainsWorkRecord | DeliverWebhooksWorkRecord | EpisodeCoverageWorkRecord;
 
 export function isWorkRecord(obj: unknown): obj is WorkRecord {
     return isStringRecord(obj)
@@ -10,7 +10,7 @@ export function isWorkRecord(obj: unknown): obj is WorkRecord {
         && typeof obj.attempt === 'number'
         && (obj.notBeforeInstant === undefined || typeof obj.notBeforeInstant === 'string')
         && typeof obj.kind === 'string'
-        && ((obj.kind === 'lookup-pg' && typeof obj.podcastGuid === 'string') || typeof obj.feedUrl === 'string')
+        && ((obj.kind === 'lookup-pg' && typeof obj.podcastGuid === 'string') || ((obj.kind === 'monitor-shows' || obj.kind === 'episode-coverage') && isOptionalString(obj.cursor)) || (obj.kind === 'monitor-show' && typeof obj.showUuid === 'string' && Array.isArray(obj.feedRecordIds) && obj.feedRecordIds.every(isString)) || (obj.kind === 'audit-chains' && typeof obj.showUuid === 'string' && (obj.feedRecordIds === undefined || Array.isArray(obj.feedRecordIds) && obj.feedRecordIds.every(isString))) || obj.kind === 'deliver-webhooks' || typeof obj.feedUrl === 'string')
         ;
 }
 
@@ -23,6 +23,7 @@ interface BaseWorkRecord {
 export interface FeedWorkRecord extends BaseWorkRecord {
     readonly kind: 'update-feed' | 'lookup-feed' | 'index-items';
     readonly feedUrl: string;
+    readonly forceResave?: boolean; // index-items only: rewrite all item and index records, e.g. to backfill variants
 }
 
 export interface PodcastGuidWorkRecord extends BaseWorkRecord {
@@ -30,6 +31,32 @@ export interface PodcastGuidWorkRecord extends BaseWorkRecord {
     readonly podcastGuid: string;
 }
 
+export interface MonitorShowsWorkRecord extends BaseWorkRecord {
+    readonly kind: 'monitor-shows';
+    readonly cursor?: string; // last show uuid queued in the current cycle
+}
+
+export interface MonitorShowWorkRecord extends BaseWorkRecord {
+    readonly kind: 'monitor-show';
+    readonly showUuid: string;
+    readonly feedRecordIds: readonly string[]; // resolved when the cycle queued this show
+}
+
+export interface AuditChainsWorkRecord extends BaseWorkRecord {
+    readonly kind: 'audit-chains';
+    readonly showUuid: string;
+    readonly feedRecordIds?: readonly string[]; // resolved when queued by a monitoring cycle
+}
+
+export interface DeliverWebhooksWorkRecord extends BaseWorkRecord {
+    readonly kind: 'deliver-webhooks';
+}
+
+export interface EpisodeCoverageWorkRecord extends BaseWorkRecord {
+    readonly kind: 'episode-coverage';
+    readonly cursor?: string; // last show uuid recomputed in the current cycle
+}
+
 export interface FeedRecord {
     readonly id: string; // sha256(url)
     readonly url: string; // clean url
@@ -162,6 +189,10 @@ export interface FeedItemRecord {
     readonly lastOkFetch?: FetchInfo;
     readonly relevantUrls: Record<string, string>; // tiny jpath string (e.0.url or ae.0.s.0.uri) -> op3 url
     readonly hasTranscripts?: boolean;
+    readonly enclosureLength?: number; // bytes, from the first enclosure's length attribute
+    readonly enclosureUrl?: string; // raw url of the first enclosure, to 8k
+    readonly metadata?: EpisodeMetadata;
+    readonly valueHistory?: readonly ValueConfig[]; // podcast:value in effect for this item, oldest first, appended when changed
 }
 
 export function isFeedItemRecord(obj: unknown): obj is FeedItemRecord {
@@ -177,9 +208,63 @@ export function isFeedItemRecord(obj: unknown): obj is FeedItemRecord {
         && (obj.lastOkFetch === undefined || isFetchInfo(obj.lastOkFetch))
         && isStringRecord(obj.relevantUrls) && Object.values(obj.relevantUrls).every(v => typeof v === 'string')
         && (obj.hasTranscripts === undefined || typeof obj.hasTranscripts === 'boolean')
+        && (obj.enclosureLength === undefined || typeof obj.enclosureLength === 'number')
+        && (obj.metadata === undefined || isEpisodeMetadata(obj.metadata))
+        && (obj.enclosureUrl === undefined || typeof obj.enclosureUrl === 'string')
+        && (obj.valueHistory === undefined || Array.isArray(obj.valueHistory) && obj.valueHistory.every(isValueConfig))
+        ;
+}
+
+export interface FeedHistoryRecord {
+    readonly feedRecordId: string; // fk
+    readonly feedUrl: string;
+    readonly instant: string; // response instant of the fetch that produced the new parse
+    readonly previousInstant: string; // response instant of the fetch that produced the previous parse
+    readonly items: number; // items in the new parse
+    readonly diff: FeedDiff;
+}
+
+export function isFeedHistoryRecord(obj: unknown): obj is FeedHistoryRecord {
+    return isStringRecord(obj)
+        && typeof obj.feedRecordId === 'string'
+        && typeof obj.feedUrl === 'string'
+        && typeof obj.instant === 'string'
+        && typeof obj.previousInstant === 'string'
+        && typeof obj.items === 'number'
+        && isFeedDiff(obj.diff)
+        ;
+}
+
+export interface FeedDiff {
+    readonly added: readonly FeedDiffItem[];
+    readonly removed: readonly FeedDiffItem[];
+    readonly guidChanges: readonly { readonly from: string, readonly to: string, readonly title?: string }[]; // same enclosure url (or title), new guid
+    readonly titleChanges: readonly { readonly guid: string, readonly from?: string, readonly to?: string }[];
+    readonly enclosureUrlChanges: readonly { readonly guid: string, readonly title?: string, readonly from?: string, readonly to?: string }[];
+    readonly prefixRemoved: readonly FeedDiffItem[]; // primary enclosure no longer goes through op3
+    readonly prefixAdded: readonly FeedDiffItem[];
+    readonly truncated?: boolean; // true if any list was capped
+}
+
+export function isFeedDiff(obj: unknown): obj is FeedDiff {
+    return isStringRecord(obj)
+        && Array.isArray(obj.added)
+        && Array.isArray(obj.removed)
+        && Array.isArray(obj.guidChanges)
+        && Array.isArray(obj.titleChanges)
+        && Array.isArray(obj.enclosureUrlChanges)
+        && Array.isArray(obj.prefixRemoved)
+        && Array.isArray(obj.prefixAdded)
+        && (obj.truncated === undefined || typeof obj.truncated === 'boolean')
         ;
 }
 
+export interface FeedDiffItem {
+    readonly guid: string;
+    readonly title?: string;
+    readonly enclosureUrl?: string;
+}
+
 export interface ShowgroupRecord {
     readonly id: string; // unique immutable readable tag
     readonly showUuidWeights: Record<string, number>; // key=show-uuid  if multiple matches but within the same showgroup, pick the show with the highest value here
@@ -226,6 +311,9 @@ export interface EpisodeRecord {
     readonly firstSeenInstant?: string;
     readonly lastSeenInstant?: string;
     readonly hasTranscripts?: boolean;
+    readonly enclosureLength?: number; // bytes, from the first enclosure's length attribute
+    readonly metadata?: EpisodeMetadata;
+    readonly valueHistory?: readonly ValueConfig[];
 }
 
 export function isEpisodeRecord(obj: unknown): obj is EpisodeRecord {
@@ -239,16 +327,87 @@ export function isEpisodeRecord(obj: unknown): obj is EpisodeRecord {
         && (obj.firstSeenInstant === undefined || typeof obj.firstSeenInstant === 'string')
         && (obj.lastSeenInstant === undefined || typeof obj.lastSeenInstant === 'string')
         && (obj.hasTranscripts === undefined || typeof obj.hasTranscripts === 'boolean')
+        && (obj.enclosureLength === undefined || typeof obj.enclosureLength === 'number')
+        && (obj.metadata === undefined || isEpisodeMetadata(obj.metadata))
+        && (obj.valueHistory === undefined || Array.isArray(obj.valueHistory) && obj.valueHistory.every(isValueConfig))
+        ;
+}
+
+export interface EpisodeMetadata {
+    readonly enclosureType?: string; // from the first enclosure's type attribute
+    readonly episodeType?: string; // full, trailer or bonus: itunes:episodeType, or trailer if listed as a channel-level podcast:trailer
+    readonly season?: number; // podcast:season
+    readonly seasonName?: string;
+    readonly episode?: number; // podcast:episode, can be fractional
+    readonly episodeDisplay?: string;
+    readonly persons?: readonly { readonly name: string, readonly role?: string, readonly group?: string }[]; // podcast:person
+    readonly soundbites?: readonly { readonly startTime: number, readonly duration: number, readonly title?: string }[]; // podcast:soundbite, seconds
+    readonly location?: string; // podcast:location name
+}
+
+export function isEpisodeMetadata(obj: unknown): obj is EpisodeMetadata {
+    return isStringRecord(obj)
+        && (obj.enclosureType === undefined || typeof obj.enclosureType === 'string')
+        && (obj.episodeType === undefined || typeof obj.episodeType === 'string')
+        && (obj.season === undefined || typeof obj.season === 'number')
+        && (obj.seasonName === undefined || typeof obj.seasonName === 'string')
+        && (obj.episode === undefined || typeof obj.episode === 'number')
+        && (obj.episodeDisplay === undefined || typeof obj.episodeDisplay === 'string')
+        && (obj.persons === undefined || Array.isArray(obj.persons) && obj.persons.every(v => isStringRecord(v) && typeof v.name === 'string'))
+        && (obj.soundbites === undefined || Array.isArray(obj.soundbites) && obj.soundbites.every(v => isStringRecord(v) && typeof v.startTime === 'number' && typeof v.duration === 'number'))
+        && (obj.location === undefined || typeof obj.location === 'string')
+        ;
+}
+
+export interface ValueConfig {
+    readonly since: string; // instant first seen in the feed
+    readonly source: 'item' | 'channel'; // item-level podcast:value, or inherited from the channel
+    readonly method: string; // e.g. keysend
+    readonly type: string; // e.g. lightning
+    readonly recipients: readonly ValueConfigRecipient[];
+}
+
+export function isValueConfig(obj: unknown): obj is ValueConfig {
+    return isStringRecord(obj)
+        && typeof obj.since === 'string'
+        && (obj.source === 'item' || obj.source === 'channel')
+        && typeof obj.method === 'string'
+        && typeof obj.type === 'string'
+        && Array.isArray(obj.recipients) && obj.recipients.every(isValueConfigRecipient)
+        ;
+}
+
+export interface ValueConfigRecipient {
+    readonly name?: string;
+    readonly type: string; // e.g. node
+    readonly address: string;
+    readonly split: number; // relative share, non-negative
+    readonly fee?: boolean; // fee recipients take their split as a percentage off the top
+    readonly customKey?: string;
+    readonly customValue?: string;
+}
+
+export function isValueConfigRecipient(obj: unknown): obj is ValueConfigRecipient {
+    return isStringRecord(obj)
+        && (obj.name === undefined || typeof obj.name === 'string')
+        && typeof obj.type === 'string'
+        && typeof obj.address === 'string'
+        && typeof obj.split === 'number'
+        && (obj.fee === undefined || typeof obj.fee === 'boolean')
+        && (obj.customKey === undefined || typeof obj.customKey === 'string')
+        && (obj.customValue === undefined || typeof obj.customValue === 'string')
         ;
 }
 
 export interface FeedItemIndexRecord {
     readonly feedItemRecordKey: string;
+    readonly variant?: string; // alternate enclosure label (e.g. audio/aac 64kbps), if not the primary enclosure
 }
 
 export function isFeedItemIndexRecord(obj: unknown): obj is FeedItemIndexRecord {
     return isStringRecord(obj)
         && typeof obj.feedItemRecordKey === 'string'
+        && (obj.variant === undefined || typeof obj.variant === 'string')
         ;
 }
 
@@ -8,8 +8,9 @@ import { isValidUuid } from '../uuid.ts';
 import { timed } from '../async.ts';
 import { computeTimestamp, unpackDate } from '../timestamp.ts';
 import { recomputeAudienceForMonth, saveAudience } from './audience.ts';
+import { processShowWebhooks } from './show_webhooks.ts';
 
-export type RecomputeShowSummariesForMonthRequest = { showUuid: string, month: string, log?: boolean, sequential?: boolean, startDay?: number, maxDays?: number, phases?: Phase[] };
+export type RecomputeShowSummariesForMonthRequest = { showUuid: string, month: string, log?: boolean, sequential?: boolean, skipWebhooks?: boolean, startDay?: number, maxDays?: number, phases?: Phase[] };
 
 export function tryParseRecomputeShowSummariesForMonthRequest({ operationKind, targetPath, parameters }: { operationKind: string, targetPath: string, parameters?: Record<string, string> }): RecomputeShowSummariesForMonthRequest | undefined {
     if (targetPath === '/work/recompute-show-summaries' && operationKind === 'update' && parameters) {
@@ -19,14 +20,15 @@ export function tryParseRecomputeShowSummariesForMonthRequest({ operationKind, t
         const flagset = new Set((flags ?? '').split(','));
         const log = flagset.has('log');
         const sequential = flagset.has('sequential');
+        const skipWebhooks = flagset.has('skip-webhooks');
         const phases = phasesStr ? phasesStr.split(',').filter(isPhase) : undefined;
         const startDay = tryParseInt(startDayStr);
         const maxDays = tryParseInt(maxDaysStr);
-        return { showUuid, month, log, sequential, phases, startDay, maxDays };
+        return { showUuid, month, log, sequential, skipWebhooks, phases, startDay, maxDays };
     }
 }
 
-export async function recomputeShowSummariesForMonth({ showUuid, month, log, sequential, startDay, maxDays, phases = [ 'dailies', 'aggregates', 'audience' ] }: RecomputeShowSummariesForMonthRequest, statsBlobs: Blobs) {
+export async function recomputeShowSummariesForMonth({ showUuid, month, log, sequential, skipWebhooks, startDay, maxDays, phases = [ 'dailies', 'aggregates', 'audience' ] }: RecomputeShowSummariesForMonthRequest, statsBlobs: Blobs) {
     check('showUuid', showUuid, isValidUuid);
     check('month', month, isValidMonth);
 
@@ -38,6 +40,7 @@ export async function recomputeShowSummariesForMonth({ showUuid, month, log, seq
     const { keys: showDailyKeys } = runDailies || runAggregates ? await timed(times, 'list', () => statsBlobs.list({ keyPrefix: computeShowDailyKeyPrefix({ showUuid, datePart: month }) }))
         : { keys: [] };
 
+    const dailySummaries: ShowSummary[] = [];
     if (runDailies) {
         const showDailyKeysProcessed = showDailyKeys.filter(v => {
             if (maxDays === 0) return false;
@@ -54,6 +57,7 @@ export async function recomputeShowSummariesForMonth({ showUuid, month, log, seq
             const { date } = unpackShowDailyKey(showDailyKey);
             if (log) console.log(`Computing ${date}`);
             const { summary, audienceTimestamps } = await timed(times, 'compute-daily', () => computeShowSummaryForDate({ showUuid, date, statsBlobs }));
+            dailySummaries.push(summary);
             if (log) console.log(`Saving ${date}`);
             await Promise.all([
                 timed(times, 'save-daily', () => saveShowSummary({ summary, statsBlobs })),
@@ -69,6 +73,8 @@ export async function recomputeShowSummariesForMonth({ showUuid, month, log, seq
         }
         rt = { ...rt, showDailyKeys: showDailyKeys.length, showDailyKeysProcessed: showDailyKeysProcessed.length };
     }
+    let monthSummary: ShowSummary | undefined;
+    let knownEpisodeIds: Set<string> | undefined;
     if (runAggregates) {
         const inputKeys = showDailyKeys.map(v => {
             const { date } = unpackShowDailyKey(v);
@@ -82,6 +88,8 @@ export async function recomputeShowSummariesForMonth({ showUuid, month, log, seq
         if (log) console.log('Reading overall aggregate...');
         const overallKey = computeShowSummaryKey({ showUuid, period: 'overall'});
         const overall = await timed(times, 'read-overall', () => tryLoadShowSummary(overallKey, statsBlobs));
+        monthSummary = summary;
+        knownEpisodeIds = new Set(Object.keys(overall?.episodes ?? {}));
         const newOverall = tryComputeNewOverall({ overall, summary });
         if (newOverall) {
             if (log) console.log('Saving overall aggregate...');
@@ -90,6 +98,11 @@ export async function recomputeShowSummariesForMonth({ showUuid, month, log, seq
     
         rt = { ...rt, monthKey, newOverall: !!newOverall, downloads: total(summary.hourlyDownloads) };
     }
+    if ((runDailies || runAggregates) && !skipWebhooks) {
+        if (log) console.log('Processing webhooks...');
+        const webhooks = await timed(times, 'webhooks', () => processShowWebhooks({ showUuid, dailySummaries: runDailies ? dailySummaries : undefined, monthSummary, knownEpisodeIds, statsBlobs }));
+        rt = { ...rt, webhooks };
+    }
     if (phases.some(v => v.startsWith('audience'))) {
         const m = phases.map(v => /^audience-(\d)of(\d)$/.exec(v)).find(v => !!v);
         const part = m ? { partNum: parseInt(m[1]), numParts: parseInt(m[2]) } : undefined;
@@ -170,7 +183,7 @@ export async function computeShowSummaryForDate({ showUuid, date, statsBlobs }:
         increment(downloads, key);
     };
     for await (const obj of yieldTsvFromStream(stream)) {
-        const { botType, time, episodeId, audienceId, countryCode = 'XX', continentCode = 'XX', regionName = 'Unknown', agentType = 'unknown', agentName = 'Unknown', deviceType = 'unknown', deviceName = 'Unknown', referrerType, referrerName = 'Unknown', metroCode, tags } = obj;
+        const { botType, time, episodeId, audienceId, countryCode = 'XX', continentCode = 'XX', regionName = 'Unknown', agentType = 'unknown', agentName = 'Unknown', deviceType = 'unknown', deviceName = 'Unknown', referrerType, referrerName = 'Unknown', metroCode, tags, variant } = obj;
         if (time === undefined) throw new Error(`Undefined time`);
         const hour = time.substring(0, '2000-01-01T00'.length);
         if (botType !== undefined) continue;
@@ -213,6 +226,10 @@ export async function computeShowSummaryForDate({ showUuid, date, statsBlobs }:
                 incrementDimension('tag', tag);
             }
         }
+        if (variant) {
+            incrementDimension('variant', variant);
+            if (typeof episodeId === 'string') incrementDimension('episodeVariant', `${episodeId}|${variant}`);
+        }
     }
     const summary = computeSorted({
         showUuid,
@@ -246,6 +263,24 @@ export async function findFirstHourForEpisodeId({ showUuid, episodeId, statsBlob
     }
 }
 
+/** Daily downloads from monthly show summaries, and the most recent date summarized. */
+export function computeDailyDownloadsFromSummaries(summaries: readonly ShowSummary[]): { dailyDownloads: Record<string, number>, lastDate?: string } {
+    const dailyDownloads: Record<string, number> = {};
+    let lastDate: string | undefined;
+    for (const { hourlyDownloads, sources } of summaries) {
+        for (const [ hour, downloads ] of Object.entries(hourlyDownloads)) {
+            const date = hour.substring(0, 10);
+            dailyDownloads[date] = (dailyDownloads[date] ?? 0) + downloads;
+        }
+        // month summaries are aggregated from daily summaries, which may include days without any downloads
+        for (const key of Object.keys(sources)) {
+            const date = /-(\d{4}-\d{2}-\d{2})\.summary\.json$/.exec(key)?.[1];
+            if (date && (lastDate === undefined || date > lastDate)) lastDate = date;
+        }
+    }
+    return { dailyDownloads, lastDate };
+}
+
 //
 
 export interface ShowSummary {
@@ -254,7 +289,7 @@ export interface ShowSummary {
     readonly hourlyDownloads: Record<string, number>; // hour (e.g. 2022-12-01T10) -> downloads
     readonly episodes: Record<string, EpisodeSummary>; // episodeId -> 
     readonly sources: Record<string, string>;
-    readonly dimensionDownloads?: Record<string, Record<string, number>>; // countryCode, appName, browserName, libraryName, deviceType, deviceName, referrer (type.name), metroCode, euRegion, caRegion, auRegion
+    readonly dimensionDownloads?: Record<string, Record<string, number>>; // countryCode, appName, browserName, libraryName, deviceType, deviceName, referrer (type.name), metroCode, euRegion, caRegion, auRegion, variant, episodeVariant (episodeId|variant)
 }
 
 export function isValidShowSummary(obj: unknown): obj is ShowSummary {
@@ -0,0 +1,43 @@
+import { assertEquals } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { computeShowDailyKey } from './downloads.ts';
+import { computeDailyDownloadsFromSummaries, computeShowSummaryForDate } from './show_summaries.ts';
+
+Deno.test({
+    name: 'computeShowSummaryForDate variant dimensions',
+    fn: async () => {
+        const showUuid = '9c1a0e2a4f6b4e4f8a3b2d1c0e9f8a7b';
+        const date = '2023-01-06';
+        const statsBlobs = new InMemoryBlobs();
+        const rows = [
+            [ 'time', 'episodeId', 'botType', 'audienceId', 'agentType', 'agentName', 'variant' ],
+            [ '2023-01-06T00:00:01.000Z', 'ep1', '', 'aud1', 'app', 'Overcast', '' ],
+            [ '2023-01-06T00:00:02.000Z', 'ep1', '', 'aud2', 'app', 'Overcast', 'audio/aac 64kbps' ],
+            [ '2023-01-06T01:00:03.000Z', 'ep2', '', 'aud3', 'app', 'Overcast', 'audio/aac 64kbps' ],
+            [ '2023-01-06T01:00:04.000Z', 'ep2', 'bot', 'aud4', 'app', 'Overcast', 'video/mp4 720p' ], // bots are excluded
+        ];
+        await statsBlobs.put(computeShowDailyKey({ showUuid, date }), rows.map(v => v.join('\t') + '\n').join(''));
+        const { summary } = await computeShowSummaryForDate({ showUuid, date, statsBlobs });
+        assertEquals(summary.dimensionDownloads?.variant, { 'audio/aac 64kbps': 2 });
+        assertEquals(summary.dimensionDownloads?.episodeVariant, { 'ep1|audio/aac 64kbps': 1, 'ep2|audio/aac 64kbps': 1 });
+        assertEquals(summary.episodes.ep1.hourlyDownloads, { '2023-01-06T00': 2 });
+    }
+});
+
+Deno.test({
+    name: 'computeDailyDownloadsFromSummaries',
+    fn: () => {
+        const showUuid = '00000000000000000000000000000000';
+        const { dailyDownloads, lastDate } = computeDailyDownloadsFromSummaries([
+            { showUuid, period: '2024-01', hourlyDownloads: { '2024-01-30T10': 5, '2024-01-30T11': 6, '2024-01-31T00': 1 }, episodes: {}, sources: {
+                [`summaries/show/${showUuid}/${showUuid}-2024-01-30.summary.json`]: 'etag1',
+                [`summaries/show/${showUuid}/${showUuid}-2024-01-31.summary.json`]: 'etag2',
+            } },
+            { showUuid, period: '2024-02', hourlyDownloads: {}, episodes: {}, sources: {
+                [`summaries/show/${showUuid}/${showUuid}-2024-02-01.summary.json`]: 'etag3', // no downloads
+            } },
+        ]);
+        assertEquals(dailyDownloads, { '2024-01-30': 11, '2024-01-31': 1 });
+        assertEquals(lastDate, '2024-02-01');
+    }
+});
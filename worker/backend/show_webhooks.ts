@@ -0,0 +1,483 @@
+import { isStringRecord, isValidDate, isValidHttpUrl, isValidInstant } from '../check.ts';
+import { hmacForSecret } from '../crypto.ts';
+import { Bytes, DurableObjectStorage, DurableObjectStorageMethods } from '../deps.ts';
+import { computeUserAgent } from '../outbound.ts';
+import { total } from '../summaries.ts';
+import { computeTimestamp } from '../timestamp.ts';
+import { consoleWarn } from '../tracer.ts';
+import { generateUuid, isValidUuid } from '../uuid.ts';
+import { Blobs, listAllKeys } from './blobs.ts';
+import { ShowSummary, isValidShowSummary } from './show_summaries.ts';
+
+export const DEFAULT_EPISODE_MILESTONES = [ 100, 1000, 10000, 100000 ];
+export const MAX_SUBSCRIPTIONS_PER_SHOW = 10;
+export const DELIVERY_RETENTION_DAYS = 30;
+
+export async function loadShowWebhooks({ showUuid, statsBlobs }: { showUuid: string, statsBlobs: Blobs }): Promise<ShowWebhooks> {
+    const obj = await statsBlobs.get(computeShowWebhooksKey({ showUuid }), 'json');
+    if (obj === undefined) return { showUuid, subscriptions: [] };
+    if (!isValidShowWebhooks(obj)) throw new Error(`Invalid show webhooks for ${showUuid}`);
+    return obj;
+}
+
+/** Changes to a show's subscriptions are made in a storage transaction in the show controller, so concurrent changes can't drop each other or go over the limit. */
+export async function registerShowWebhook({ showUuid, url, events, milestones, storage, statsBlobs }: { showUuid: string, url: string, events: readonly ShowWebhookEventType[], milestones?: readonly number[], storage: DurableObjectStorage, statsBlobs: Blobs }): Promise<ShowWebhookSubscription> {
+    if (!isValidHttpUrl(url) || !url.startsWith('https://')) throw new Error(`Bad url: ${url}`);
+    if (events.length === 0) throw new Error(`At least one event type is required`);
+    if (milestones !== undefined && (milestones.length === 0 || !milestones.every(isValidMilestone))) throw new Error(`Bad milestones: ${JSON.stringify(milestones)}`);
+
+    return await storage.transaction(async txn => {
+        const existing = await loadShowWebhooksForUpdate({ showUuid, txn, statsBlobs });
+        if (existing.subscriptions.length >= MAX_SUBSCRIPTIONS_PER_SHOW) throw new Error(`Too many webhooks for show (max ${MAX_SUBSCRIPTIONS_PER_SHOW})`);
+
+        const secret = new Bytes(crypto.getRandomValues(new Uint8Array(32))).hex();
+        const subscription: ShowWebhookSubscription = {
+            id: generateUuid(),
+            url,
+            events: [ ...new Set(events) ],
+            milestones: milestones ? [ ...new Set(milestones) ].sort((a, b) => a - b) : undefined,
+            secret,
+            created: new Date().toISOString(),
+        };
+        await saveShowWebhooks({ showUuid, subscriptions: [ ...existing.subscriptions, subscription ] }, { txn, statsBlobs });
+        return subscription;
+    });
+}
+
+export async function deleteShowWebhook({ showUuid, webhookId, storage, statsBlobs }: { showUuid: string, webhookId: string, storage: DurableObjectStorage, statsBlobs: Blobs }): Promise<boolean> {
+    return await storage.transaction(async txn => {
+        const existing = await loadShowWebhooksForUpdate({ showUuid, txn, statsBlobs });
+        const subscriptions = existing.subscriptions.filter(v => v.id !== webhookId);
+        if (subscriptions.length === existing.subscriptions.length) return false;
+        await saveShowWebhooks({ showUuid, subscriptions }, { txn, statsBlobs });
+        return true;
+    });
+}
+
+/** Newest deliveries first, reading at most limit deliveries per call: pass the continuationToken back to read the next page. */
+export async function listShowWebhookDeliveries({ showUuid, webhookId, limit, continuationToken, statsBlobs }: { showUuid: string, webhookId?: string, limit: number, continuationToken?: string, statsBlobs: Blobs }): Promise<{ deliveries: ShowWebhookDelivery[], continuationToken?: string }> {
+    if (continuationToken !== undefined && !/^\d{15}-[0-9a-f]{32}\.delivery\.json$/.test(continuationToken)) throw new Error(`Bad continuationToken: ${continuationToken}`);
+    const keyPrefix = computeShowWebhookDeliveryKeyPrefix({ showUuid });
+    const { keys } = await statsBlobs.list({ keyPrefix, afterKey: continuationToken ? `${keyPrefix}${continuationToken}` : undefined, limit });
+    const deliveries: ShowWebhookDelivery[] = [];
+    for (const key of keys) {
+        const obj = await statsBlobs.get(key, 'json');
+        if (!isValidShowWebhookDelivery(obj)) continue;
+        if (webhookId !== undefined && obj.webhookId !== webhookId) continue;
+        deliveries.push(obj);
+    }
+    // a filtered page can have fewer deliveries than the limit, but more may follow
+    return { deliveries, continuationToken: keys.length >= limit ? keys[keys.length - 1].substring(keyPrefix.length) : undefined };
+}
+
+/**
+ * Called by the show summary pipeline after computing dailies and/or the month aggregate.
+ *
+ * Loads subscriptions for the show (no-op if none), computes any new events since the last call, and enqueues them for delivery.
+ * Deliveries are made out of band by deliverPendingShowWebhooks, the pipeline never waits on subscriber endpoints.
+ * knownEpisodeIds are the episodes in the overall summary prior to merging in the month summary.
+ */
+export async function processShowWebhooks({ showUuid, dailySummaries, monthSummary, knownEpisodeIds, statsBlobs }: { showUuid: string, dailySummaries?: readonly ShowSummary[], monthSummary?: ShowSummary, knownEpisodeIds?: ReadonlySet<string>, statsBlobs: Blobs }): Promise<{ subscriptions: number, enqueued: number }> {
+    const { subscriptions } = await loadShowWebhooks({ showUuid, statsBlobs });
+    if (subscriptions.length === 0) return { subscriptions: 0, enqueued: 0 };
+
+    const state = await loadShowWebhooksState({ showUuid, statsBlobs });
+    const episodeDownloads = monthSummary && subscriptions.some(v => v.events.includes('episode-milestone')) ? await computeEpisodeDownloads({ showUuid, monthSummary, state, statsBlobs }) : undefined;
+    const today = new Date().toISOString().substring(0, 10);
+
+    let enqueued = 0;
+    const deliver = async (subscription: ShowWebhookSubscription, event: ShowWebhookEvent) => {
+        await enqueueShowWebhookDelivery({ showUuid, webhookId: subscription.id, event, statsBlobs });
+        enqueued++;
+    };
+
+    for (const subscription of subscriptions) {
+        const { id, events, created } = subscription;
+        if (events.includes('day-finalized') && dailySummaries) {
+            // only days fully in the past, not before the subscription was created, and not already delivered
+            const lastDay = state.finalizedDays[id];
+            const firstDay = created.substring(0, 10);
+            const finalized = dailySummaries.filter(v => v.period < today && (lastDay ? v.period > lastDay : v.period >= firstDay)).sort((a, b) => a.period.localeCompare(b.period));
+            for (const summary of finalized) {
+                const { period: date, hourlyDownloads, episodes } = summary;
+                await deliver(subscription, { type: 'day-finalized', showUuid, date, downloads: total(hourlyDownloads), episodeDownloads: Object.fromEntries(Object.entries(episodes).map(([ episodeId, v ]) => [ episodeId, total(v.hourlyDownloads) ])) });
+                state.finalizedDays[id] = date;
+            }
+        }
+        if (events.includes('episode-first-seen') && monthSummary) {
+            const createdHour = created.substring(0, 13);
+            for (const [ episodeId, { firstHour } ] of Object.entries(monthSummary.episodes)) {
+                if (knownEpisodeIds?.has(episodeId) || firstHour < createdHour) continue;
+                await deliver(subscription, { type: 'episode-first-seen', showUuid, episodeId, firstHour });
+            }
+        }
+        if (events.includes('episode-milestone') && episodeDownloads) {
+            const milestones = subscription.milestones ?? DEFAULT_EPISODE_MILESTONES;
+            const baseline = state.notifiedMilestones[id] === undefined; // don't backfill milestones crossed before the subscription existed
+            const notified = state.notifiedMilestones[id] ?? {};
+            for (const [ episodeId, downloads ] of Object.entries(episodeDownloads)) {
+                const crossed = milestones.filter(v => v <= downloads && v > (notified[episodeId] ?? 0));
+                if (crossed.length === 0) continue;
+                if (!baseline) {
+                    for (const milestone of crossed) {
+                        await deliver(subscription, { type: 'episode-milestone', showUuid, episodeId, milestone, downloads });
+                    }
+                }
+                notified[episodeId] = Math.max(...crossed);
+            }
+            state.notifiedMilestones[id] = notified;
+        }
+    }
+    await statsBlobs.put(computeShowWebhooksStateKey({ showUuid }), JSON.stringify(state));
+    return { subscriptions: subscriptions.length, enqueued };
+}
+
+/**
+ * Called by show monitoring when new alerts are raised for a show.
+ *
+ * Enqueues one show-alert event per alert for subscriptions that opted in.
+ */
+export async function processShowAlertWebhooks({ showUuid, alerts, statsBlobs }: { showUuid: string, alerts: readonly ShowAlertEvent['alert'][], statsBlobs: Blobs }): Promise<{ subscriptions: number, enqueued: number }> {
+    const subscriptions = (await loadShowWebhooks({ showUuid, statsBlobs })).subscriptions.filter(v => v.events.includes('show-alert'));
+    let enqueued = 0;
+    for (const subscription of subscriptions) {
+        for (const alert of alerts) {
+            await enqueueShowWebhookDelivery({ showUuid, webhookId: subscription.id, event: { type: 'show-alert', showUuid, alert }, statsBlobs });
+            enqueued++;
+        }
+    }
+    return { subscriptions: subscriptions.length, enqueued };
+}
+
+/**
+ * Makes one delivery attempt for each pending delivery that is due, oldest first.
+ *
+ * Failed attempts are re-enqueued with backoff until MAX_ATTEMPTS, finished deliveries are moved to the show's delivery log.
+ * Called periodically from show controller work, returns more=true if it stopped at the limit with due deliveries remaining.
+ */
+export async function deliverPendingShowWebhooks({ statsBlobs, origin, limit = 10, now = Date.now(), fetcher = fetch }: { statsBlobs: Blobs, origin?: string, limit?: number, now?: number, fetcher?: typeof fetch }): Promise<{ attempted: number, delivered: number, failed: number, retrying: number, pruned: number, more: boolean }> {
+    const { keys } = await statsBlobs.list({ keyPrefix: OUTBOX_KEY_PREFIX, limit: limit + 1 });
+    const due = keys.filter(v => {
+        const unpacked = tryUnpackOutboxKey(v);
+        if (!unpacked) consoleWarn('show-webhooks', `Skipping bad outbox key: ${v}`);
+        return unpacked && unpacked.timestamp <= computeTimestamp(now);
+    });
+    const subscriptionsByShow = new Map<string, readonly ShowWebhookSubscription[]>();
+    const loggedShowUuids = new Set<string>();
+    let attempted = 0, delivered = 0, failed = 0, retrying = 0;
+    for (const key of due.slice(0, limit)) {
+        const pending = await statsBlobs.get(key, 'json');
+        if (!isValidPendingShowWebhookDelivery(pending)) {
+            consoleWarn('show-webhooks', `Dropping invalid pending delivery: ${key}`);
+            await statsBlobs.delete(key);
+            continue;
+        }
+        const { showUuid, id, webhookId, created, event, attempts } = pending;
+        if (!subscriptionsByShow.has(showUuid)) subscriptionsByShow.set(showUuid, (await loadShowWebhooks({ showUuid, statsBlobs })).subscriptions);
+        const subscription = subscriptionsByShow.get(showUuid)!.find(v => v.id === webhookId);
+        if (subscription) {
+            attempted++;
+            const attempt = await attemptShowWebhookDelivery({ subscription, id, created, event, origin, fetcher });
+            const newAttempts = [ ...attempts, attempt ];
+            const { status } = attempt;
+            const success = status !== undefined && status >= 200 && status < 300;
+            const retryable = !success && (status === undefined || status === 429 || status >= 500) && newAttempts.length < MAX_ATTEMPTS;
+            if (retryable) {
+                const notBefore = now + RETRY_BACKOFF_MILLIS[newAttempts.length - 1];
+                await statsBlobs.put(computeOutboxKey({ timestamp: computeTimestamp(notBefore), deliveryId: id }), JSON.stringify({ ...pending, attempts: newAttempts }));
+                retrying++;
+            } else {
+                const delivery: ShowWebhookDelivery = { id, webhookId, url: subscription.url, created, event, attempts: newAttempts, result: success ? 'delivered' : 'failed' };
+                await statsBlobs.put(computeShowWebhookDeliveryKey({ showUuid, timestamp: computeTimestamp(created), deliveryId: id }), JSON.stringify(delivery));
+                loggedShowUuids.add(showUuid);
+                if (success) {
+                    delivered++;
+                } else {
+                    failed++;
+                    consoleWarn('show-webhooks', `Failed to deliver ${event.type} for ${showUuid} to ${subscription.url} after ${newAttempts.length} attempts`);
+                }
+            }
+        }
+        // subscriptions deleted since the event was enqueued are dropped
+        await statsBlobs.delete(key);
+    }
+    let pruned = 0;
+    for (const showUuid of loggedShowUuids) {
+        pruned += await pruneShowWebhookDeliveries({ showUuid, statsBlobs, now });
+    }
+    return { attempted, delivered, failed, retrying, pruned, more: due.length > limit };
+}
+
+export async function computeShowWebhookSignature({ body, timestamp, secret }: { body: string, timestamp: string, secret: string }): Promise<string> {
+    const signature = await hmacForSecret(Bytes.ofUtf8(`${timestamp}.${body}`), Bytes.ofUtf8(secret));
+    return `sha1=${signature.hex()}`;
+}
+
+//
+
+export type ShowWebhookEventType = 'day-finalized' | 'episode-milestone' | 'episode-first-seen' | 'show-alert';
+
+export function isShowWebhookEventType(obj: unknown): obj is ShowWebhookEventType {
+    return obj === 'day-finalized' || obj === 'episode-milestone' || obj === 'episode-first-seen' || obj === 'show-alert';
+}
+
+export function isValidMilestone(obj: unknown): obj is number {
+    return typeof obj === 'number' && Number.isSafeInteger(obj) && obj > 0;
+}
+
+export interface ShowWebhookSubscription {
+    readonly id: string; // 32-char hex
+    readonly url: string; // https
+    readonly events: readonly ShowWebhookEventType[];
+    readonly milestones?: readonly number[]; // episode download thresholds, ascending (default: DEFAULT_EPISODE_MILESTONES)
+    readonly secret: string; // hmac signing secret, returned once at registration
+    readonly created: string; // instant
+}
+
+export function isValidShowWebhookSubscription(obj: unknown): obj is ShowWebhookSubscription {
+    return isStringRecord(obj)
+        && typeof obj.id === 'string' && isValidUuid(obj.id)
+        && typeof obj.url === 'string' && isValidHttpUrl(obj.url)
+        && Array.isArray(obj.events) && obj.events.every(isShowWebhookEventType)
+        && (obj.milestones === undefined || Array.isArray(obj.milestones) && obj.milestones.every(isValidMilestone))
+        && typeof obj.secret === 'string'
+        && typeof obj.created === 'string' && isValidInstant(obj.created)
+        ;
+}
+
+export interface ShowWebhooks {
+    readonly showUuid: string;
+    readonly subscriptions: readonly ShowWebhookSubscription[];
+}
+
+export function isValidShowWebhooks(obj: unknown): obj is ShowWebhooks {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && Array.isArray(obj.subscriptions) && obj.subscriptions.every(isValidShowWebhookSubscription)
+        ;
+}
+
+export type ShowWebhookEvent = DayFinalizedEvent | EpisodeMilestoneEvent | EpisodeFirstSeenEvent | ShowAlertEvent;
+
+export interface DayFinalizedEvent {
+    readonly type: 'day-finalized';
+    readonly showUuid: string;
+    readonly date: string; // e.g. 2022-12-01
+    readonly downloads: number;
+    readonly episodeDownloads: Record<string, number>; // episodeId -> downloads
+}
+
+export interface EpisodeMilestoneEvent {
+    readonly type: 'episode-milestone';
+    readonly showUuid: string;
+    readonly episodeId: string;
+    readonly milestone: number;
+    readonly downloads: number; // total downloads at time of computation
+}
+
+export interface EpisodeFirstSeenEvent {
+    readonly type: 'episode-first-seen';
+    readonly showUuid: string;
+    readonly episodeId: string;
+    readonly firstHour: string; // hour (e.g. 2022-12-01T10) first download seen
+}
+
+export interface ShowAlertEvent {
+    readonly type: 'show-alert';
+    readonly showUuid: string;
+    readonly alert: { readonly kind: string, readonly since: string, readonly message: string }; // see ShowAlert
+}
+
+export interface ShowWebhookDeliveryAttempt {
+    readonly time: string; // instant
+    readonly millis: number;
+    readonly status?: number;
+    readonly error?: string;
+}
+
+export interface ShowWebhookDelivery {
+    readonly id: string; // 32-char hex, also sent as the op3-delivery-id header
+    readonly webhookId: string;
+    readonly url: string;
+    readonly created: string; // instant
+    readonly event: ShowWebhookEvent;
+    readonly attempts: readonly ShowWebhookDeliveryAttempt[];
+    readonly result: 'delivered' | 'failed';
+}
+
+export function isValidShowWebhookDelivery(obj: unknown): obj is ShowWebhookDelivery {
+    return isStringRecord(obj)
+        && typeof obj.id === 'string'
+        && typeof obj.webhookId === 'string'
+        && typeof obj.url === 'string'
+        && typeof obj.created === 'string' && isValidInstant(obj.created)
+        && isStringRecord(obj.event) && isShowWebhookEventType(obj.event.type)
+        && Array.isArray(obj.attempts)
+        && (obj.result === 'delivered' || obj.result === 'failed')
+        ;
+}
+
+//
+
+const MAX_ATTEMPTS = 4;
+const ATTEMPT_TIMEOUT_MILLIS = 10 * 1000;
+const RETRY_BACKOFF_MILLIS = [ 60 * 1000, 10 * 60 * 1000, 60 * 60 * 1000 ]; // after attempts 1, 2, 3
+const OUTBOX_KEY_PREFIX = 'webhooks/outbox/';
+const DELIVERY_PRUNE_BATCH = 100;
+
+interface PendingShowWebhookDelivery {
+    readonly showUuid: string;
+    readonly id: string; // delivery id
+    readonly webhookId: string;
+    readonly created: string; // instant
+    readonly event: ShowWebhookEvent;
+    readonly attempts: readonly ShowWebhookDeliveryAttempt[];
+}
+
+function isValidPendingShowWebhookDelivery(obj: unknown): obj is PendingShowWebhookDelivery {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && typeof obj.id === 'string'
+        && typeof obj.webhookId === 'string'
+        && typeof obj.created === 'string' && isValidInstant(obj.created)
+        && isStringRecord(obj.event) && isShowWebhookEventType(obj.event.type)
+        && Array.isArray(obj.attempts)
+        ;
+}
+
+interface ShowWebhooksState {
+    readonly showUuid: string;
+    readonly finalizedDays: Record<string, string>; // webhookId -> last date delivered
+    readonly notifiedMilestones: Record<string, Record<string, number>>; // webhookId -> episodeId -> highest milestone delivered
+    episodeMonthlyDownloads?: Record<string, Record<string, number>>; // episodeId -> month -> downloads, seeded on first use
+}
+
+function isValidShowWebhooksState(obj: unknown): obj is ShowWebhooksState {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && isStringRecord(obj.finalizedDays) && Object.values(obj.finalizedDays).every(isValidDate)
+        && isStringRecord(obj.notifiedMilestones)
+        && (obj.episodeMonthlyDownloads === undefined || isStringRecord(obj.episodeMonthlyDownloads))
+        ;
+}
+
+function computeShowWebhooksKey({ showUuid }: { showUuid: string }): string {
+    return `webhooks/show/${showUuid}/${showUuid}.webhooks.json`;
+}
+
+function computeShowWebhooksStateKey({ showUuid }: { showUuid: string }): string {
+    return `webhooks/show/${showUuid}/${showUuid}.webhook-state.json`;
+}
+
+function computeShowWebhookDeliveryKeyPrefix({ showUuid }: { showUuid: string }): string {
+    return `webhooks/show/${showUuid}/deliveries/`;
+}
+
+function computeShowWebhookDeliveryKey({ showUuid, timestamp, deliveryId }: { showUuid: string, timestamp: string, deliveryId: string }): string {
+    // newest first, since listing only goes one way
+    return `${computeShowWebhookDeliveryKeyPrefix({ showUuid })}${computeDescendingTimestamp(timestamp)}-${deliveryId}.delivery.json`;
+}
+
+function computeDescendingTimestamp(timestamp: string): string {
+    return [ ...timestamp ].map(v => (9 - parseInt(v)).toString()).join('');
+}
+
+function computeOutboxKey({ timestamp, deliveryId }: { timestamp: string, deliveryId: string }): string {
+    // sorted by when the next attempt is due
+    return `${OUTBOX_KEY_PREFIX}${timestamp}-${deliveryId}.pending.json`;
+}
+
+function tryUnpackOutboxKey(key: string): { timestamp: string, deliveryId: string } | undefined {
+    const m = /^webhooks\/outbox\/(\d{15})-([0-9a-f]{32})\.pending\.json$/.exec(key);
+    if (!m) return undefined;
+    const [ _, timestamp, deliveryId ] = m;
+    return { timestamp, deliveryId };
+}
+
+async function enqueueShowWebhookDelivery({ showUuid, webhookId, event, statsBlobs }: { showUuid: string, webhookId: string, event: ShowWebhookEvent, statsBlobs: Blobs }) {
+    const id = generateUuid();
+    const created = new Date().toISOString();
+    const pending: PendingShowWebhookDelivery = { showUuid, id, webhookId, created, event, attempts: [] };
+    await statsBlobs.put(computeOutboxKey({ timestamp: computeTimestamp(created), deliveryId: id }), JSON.stringify(pending));
+}
+
+async function loadShowWebhooksForUpdate({ showUuid, txn, statsBlobs }: { showUuid: string, txn: DurableObjectStorageMethods, statsBlobs: Blobs }): Promise<ShowWebhooks> {
+    const record = await txn.get(computeShowWebhooksRecordKey({ showUuid }));
+    if (record === undefined) return await loadShowWebhooks({ showUuid, statsBlobs }); // first change since moving into storage
+    if (!isValidShowWebhooks(record)) throw new Error(`Invalid show webhooks record for ${showUuid}`);
+    return record;
+}
+
+async function saveShowWebhooks(webhooks: ShowWebhooks, { txn, statsBlobs }: { txn: DurableObjectStorageMethods, statsBlobs: Blobs }) {
+    // storage is the source of truth for changes, the blob copy is what the summary pipeline and routes read
+    await txn.put(computeShowWebhooksRecordKey(webhooks), webhooks);
+    await statsBlobs.put(computeShowWebhooksKey(webhooks), JSON.stringify(webhooks));
+}
+
+function computeShowWebhooksRecordKey({ showUuid }: { showUuid: string }): string {
+    return `sc.webhooks.${showUuid}`;
+}
+
+async function pruneShowWebhookDeliveries({ showUuid, statsBlobs, now }: { showUuid: string, statsBlobs: Blobs, now: number }): Promise<number> {
+    // descending keys: everything after the cutoff is older than the retention period
+    const keyPrefix = computeShowWebhookDeliveryKeyPrefix({ showUuid });
+    const cutoff = computeTimestamp(now - DELIVERY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { keys } = await statsBlobs.list({ keyPrefix, afterKey: `${keyPrefix}${computeDescendingTimestamp(cutoff)}`, limit: DELIVERY_PRUNE_BATCH });
+    for (const key of keys) {
+        await statsBlobs.delete(key);
+    }
+    return keys.length;
+}
+
+async function loadShowWebhooksState({ showUuid, statsBlobs }: { showUuid: string, statsBlobs: Blobs }): Promise<ShowWebhooksState> {
+    const obj = await statsBlobs.get(computeShowWebhooksStateKey({ showUuid }), 'json');
+    if (obj === undefined) return { showUuid, finalizedDays: {}, notifiedMilestones: {} };
+    if (!isValidShowWebhooksState(obj)) throw new Error(`Invalid show webhooks state for ${showUuid}`);
+    return obj;
+}
+
+async function computeEpisodeDownloads({ showUuid, monthSummary, state, statsBlobs }: { showUuid: string, monthSummary: ShowSummary, state: ShowWebhooksState, statsBlobs: Blobs }): Promise<Record<string, number>> {
+    let episodeMonthlyDownloads = state.episodeMonthlyDownloads;
+    if (episodeMonthlyDownloads === undefined) {
+        // first time through, seed from all existing month summaries
+        episodeMonthlyDownloads = {};
+        const keys = await listAllKeys(statsBlobs, { keyPrefix: `summaries/show/${showUuid}/` });
+        const monthKeys = keys.filter(v => /-\d{4}-\d{2}\.summary\.json$/.test(v));
+        for (const key of monthKeys) {
+            const summary = await statsBlobs.get(key, 'json');
+            if (!isValidShowSummary(summary) || summary.period === monthSummary.period) continue;
+            for (const [ episodeId, { hourlyDownloads } ] of Object.entries(summary.episodes)) {
+                episodeMonthlyDownloads[episodeId] = { ...episodeMonthlyDownloads[episodeId], [summary.period]: total(hourlyDownloads) };
+            }
+        }
+        state.episodeMonthlyDownloads = episodeMonthlyDownloads;
+    }
+    for (const [ episodeId, { hourlyDownloads } ] of Object.entries(monthSummary.episodes)) {
+        episodeMonthlyDownloads[episodeId] = { ...episodeMonthlyDownloads[episodeId], [monthSummary.period]: total(hourlyDownloads) };
+    }
+    return Object.fromEntries(Object.entries(episodeMonthlyDownloads).map(([ episodeId, v ]) => [ episodeId, total(v) ]));
+}
+
+async function attemptShowWebhookDelivery({ subscription, id, created, event, origin, fetcher }: { subscription: ShowWebhookSubscription, id: string, created: string, event: ShowWebhookEvent, origin?: string, fetcher: typeof fetch }): Promise<ShowWebhookDeliveryAttempt> {
+    const { id: webhookId, url, secret } = subscription;
+    const body = JSON.stringify({ id, webhookId, created, event });
+    const start = Date.now();
+    const time = new Date(start).toISOString();
+    const timestamp = Math.floor(start / 1000).toString();
+    try {
+        const signature = await computeShowWebhookSignature({ body, timestamp, secret });
+        const headers = {
+            'content-type': 'application/json',
+            'user-agent': origin ? computeUserAgent({ origin }) : 'op3-fetcher/1.0 (bot)',
+            'op3-webhook-id': webhookId,
+            'op3-delivery-id': id,
+            'op3-timestamp': timestamp,
+            'op3-signature': signature,
+        };
+        const res = await fetcher(url, { method: 'POST', body, headers, signal: AbortSignal.timeout(ATTEMPT_TIMEOUT_MILLIS) });
+        await res.body?.cancel();
+        return { time, millis: Date.now() - start, status: res.status };
+    } catch (e) {
+        return { time, millis: Date.now() - start, error: `${(e as Error).message || e}` };
+    }
+}
@@ -0,0 +1,114 @@
+import { assertEquals, assertRejects, InMemoryDurableObjectStorage } from '../tests/deps.ts';
+import { InMemoryBlobs } from '../tests/in_memory_blobs.ts';
+import { generateUuid } from '../uuid.ts';
+import { ShowSummary } from './show_summaries.ts';
+import { computeShowWebhookSignature, deleteShowWebhook, DELIVERY_RETENTION_DAYS, deliverPendingShowWebhooks, listShowWebhookDeliveries, loadShowWebhooks, MAX_SUBSCRIPTIONS_PER_SHOW, processShowAlertWebhooks, processShowWebhooks, registerShowWebhook } from './show_webhooks.ts';
+
+Deno.test({
+    name: 'registerShowWebhook',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const storage = new InMemoryDurableObjectStorage();
+        const showUuid = generateUuid();
+
+        await assertRejects(() => registerShowWebhook({ showUuid, url: 'http://example.com/hook', events: [ 'day-finalized' ], storage, statsBlobs }));
+        await assertRejects(() => registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [], storage, statsBlobs }));
+        await assertRejects(() => registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [ 'episode-milestone' ], milestones: [ 0 ], storage, statsBlobs }));
+
+        const subscription = await registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [ 'episode-milestone', 'episode-milestone' ], milestones: [ 1000, 10 ], storage, statsBlobs });
+        assertEquals(subscription.events, [ 'episode-milestone' ]);
+        assertEquals(subscription.milestones, [ 10, 1000 ]);
+        assertEquals(subscription.secret.length, 64);
+        assertEquals((await loadShowWebhooks({ showUuid, statsBlobs })).subscriptions.length, 1);
+
+        assertEquals(await deleteShowWebhook({ showUuid, webhookId: generateUuid(), storage, statsBlobs }), false);
+        assertEquals(await deleteShowWebhook({ showUuid, webhookId: subscription.id, storage, statsBlobs }), true);
+        assertEquals((await loadShowWebhooks({ showUuid, statsBlobs })).subscriptions.length, 0);
+
+        // changes read from storage, not the blob copy
+        for (let i = 0; i < MAX_SUBSCRIPTIONS_PER_SHOW; i++) {
+            await registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [ 'day-finalized' ], storage, statsBlobs });
+        }
+        await statsBlobs.put(`webhooks/show/${showUuid}/${showUuid}.webhooks.json`, JSON.stringify({ showUuid, subscriptions: [] }));
+        await assertRejects(() => registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [ 'day-finalized' ], storage, statsBlobs }));
+    }
+});
+
+Deno.test({
+    name: 'processShowWebhooks',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const storage = new InMemoryDurableObjectStorage();
+        const showUuid = generateUuid();
+        const monthSummary: ShowSummary = { showUuid, period: '2023-01', hourlyDownloads: { '2023-01-02T03': 12 }, episodes: { ep1: { firstHour: '2023-01-02T03', hourlyDownloads: { '2023-01-02T03': 12 } } }, sources: {} };
+
+        assertEquals(await processShowWebhooks({ showUuid, monthSummary, statsBlobs }), { subscriptions: 0, enqueued: 0 });
+
+        // milestones already crossed at registration time are recorded, not delivered
+        await registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [ 'episode-milestone', 'episode-first-seen' ], milestones: [ 10 ], storage, statsBlobs });
+        assertEquals(await processShowWebhooks({ showUuid, monthSummary, knownEpisodeIds: new Set([ 'ep1' ]), statsBlobs }), { subscriptions: 1, enqueued: 0 });
+        assertEquals(await processShowWebhooks({ showUuid, monthSummary, knownEpisodeIds: new Set([ 'ep1' ]), statsBlobs }), { subscriptions: 1, enqueued: 0 });
+    }
+});
+
+Deno.test({
+    name: 'deliverPendingShowWebhooks',
+    fn: async () => {
+        const statsBlobs = new InMemoryBlobs();
+        const storage = new InMemoryDurableObjectStorage();
+        const showUuid = generateUuid();
+        const alert = { kind: 'download-cliff', since: '2023-01-02T03:04:05.678Z', message: 'Downloads dropped' };
+        const { id: webhookId } = await registerShowWebhook({ showUuid, url: 'https://example.com/hook', events: [ 'show-alert' ], storage, statsBlobs });
+        assertEquals(await processShowAlertWebhooks({ showUuid, alerts: [ alert ], statsBlobs }), { subscriptions: 1, enqueued: 1 });
+
+        // enqueued, nothing delivered inline
+        const statuses: number[] = [];
+        const fetcher = (_url: RequestInfo | URL, init?: RequestInit) => {
+            assertEquals(new Headers(init?.headers).get('op3-webhook-id'), webhookId);
+            return Promise.resolve(new Response(undefined, { status: statuses.shift() }));
+        };
+        assertEquals((await listShowWebhookDeliveries({ showUuid, limit: 10, statsBlobs })).deliveries, []);
+
+        // malformed outbox keys are skipped, not fatal
+        await statsBlobs.put('webhooks/outbox/not-a-delivery.json', '{}');
+
+        // retryable failure is rescheduled, not due again until the backoff passes
+        const now = Date.now() + 1000;
+        statuses.push(503);
+        assertEquals(await deliverPendingShowWebhooks({ statsBlobs, now, fetcher }), { attempted: 1, delivered: 0, failed: 0, retrying: 1, pruned: 0, more: false });
+        assertEquals(await deliverPendingShowWebhooks({ statsBlobs, now, fetcher }), { attempted: 0, delivered: 0, failed: 0, retrying: 0, pruned: 0, more: false });
+
+        statuses.push(200);
+        assertEquals(await deliverPendingShowWebhooks({ statsBlobs, now: now + 1000 * 60 * 2, fetcher }), { attempted: 1, delivered: 1, failed: 0, retrying: 0, pruned: 0, more: false });
+        const { deliveries } = await listShowWebhookDeliveries({ showUuid, limit: 10, statsBlobs });
+        assertEquals(deliveries.map(v => [ v.result, v.attempts.map(v => v.status) ]), [ [ 'delivered', [ 503, 200 ] ] ]);
+        assertEquals(deliveries[0].event, { type: 'show-alert', showUuid, alert });
+
+        // non-retryable failures are logged right away
+        await processShowAlertWebhooks({ showUuid, alerts: [ alert ], statsBlobs });
+        statuses.push(404);
+        assertEquals(await deliverPendingShowWebhooks({ statsBlobs, now: now + 1000 * 60 * 2, fetcher }), { attempted: 1, delivered: 0, failed: 1, retrying: 0, pruned: 0, more: false });
+
+        // newest first, one page at a time
+        const page1 = await listShowWebhookDeliveries({ showUuid, limit: 1, statsBlobs });
+        assertEquals(page1.deliveries.map(v => v.result), [ 'failed' ]);
+        const page2 = await listShowWebhookDeliveries({ showUuid, limit: 1, continuationToken: page1.continuationToken, statsBlobs });
+        assertEquals(page2.deliveries.map(v => v.result), [ 'delivered' ]);
+        assertEquals((await listShowWebhookDeliveries({ showUuid, limit: 1, continuationToken: page2.continuationToken, statsBlobs })).deliveries, []);
+
+        // deliveries older than the retention period are pruned when the show logs another one (including that one here, events are created at the real time)
+        await processShowAlertWebhooks({ showUuid, alerts: [ alert ], statsBlobs });
+        statuses.push(200);
+        const later = now + (DELIVERY_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000;
+        assertEquals(await deliverPendingShowWebhooks({ statsBlobs, now: later, fetcher }), { attempted: 1, delivered: 1, failed: 0, retrying: 0, pruned: 3, more: false });
+        assertEquals((await listShowWebhookDeliveries({ showUuid, limit: 10, statsBlobs })).deliveries, []);
+    }
+});
+
+Deno.test({
+    name: 'computeShowWebhookSignature',
+    fn: async () => {
+        const signature = await computeShowWebhookSignature({ body: '{}', timestamp: '1672531200', secret: 'secret' });
+        assertEquals(signature, 'sha1=3082a34acea1dfd3ceb7d1169be2c37d5579b88a');
+    }
+});
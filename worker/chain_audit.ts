@@ -0,0 +1,114 @@
+import { computeChainEstimate } from './chain_estimate.ts';
+import { isStringRecord } from './check.ts';
+import { distinct } from './deps.ts';
+import { fetchWithRedirects, RequestResponse } from './fetch_redirects.ts';
+
+export interface ChainAuditHop {
+    readonly url: string;
+    readonly status: number;
+    readonly millis: number; // request to response headers
+    readonly prefix?: string; // known prefix recognized at this hop, undefined for destination hops
+}
+
+export type ChainAuditMismatchKind = 'missing-prefix' | 'unexpected-prefix' | 'prefix-order' | 'slow-hop' | 'error-status' | 'fetch-failed';
+
+export interface ChainAuditMismatch {
+    readonly kind: ChainAuditMismatchKind;
+    readonly message: string;
+}
+
+export interface ChainAuditResult {
+    readonly url: string; // enclosure url as found in the feed
+    readonly title?: string;
+    readonly predicted: readonly string[]; // prefixes estimated from the url, in order
+    readonly observed: readonly string[]; // prefixes actually hit when following redirects, in order
+    readonly hops: readonly ChainAuditHop[];
+    readonly totalMillis: number;
+    readonly destinationUrl?: string; // last url requested
+    readonly cdn?: string; // inferred from the last response headers
+    readonly mismatches: readonly ChainAuditMismatch[];
+    readonly error?: string;
+}
+
+export interface ChainAudit {
+    readonly showUuid: string;
+    readonly instant: string;
+    readonly results: readonly ChainAuditResult[];
+}
+
+export function isValidChainAudit(obj: unknown): obj is ChainAudit {
+    return isStringRecord(obj)
+        && typeof obj.showUuid === 'string'
+        && typeof obj.instant === 'string'
+        && Array.isArray(obj.results) && obj.results.every(v => isStringRecord(v)
+            && typeof v.url === 'string'
+            && Array.isArray(v.predicted)
+            && Array.isArray(v.observed)
+            && Array.isArray(v.hops)
+            && typeof v.totalMillis === 'number'
+            && Array.isArray(v.mismatches))
+        ;
+}
+
+/** Compare the redirects actually observed for an enclosure url with the prefix chain estimated from the url itself. */
+export function computeChainAuditResult({ url, title, records, error, slowHopMillis = DEFAULT_SLOW_HOP_MILLIS }: { url: string, title?: string, records: readonly RequestResponse[], error?: string, slowHopMillis?: number }): ChainAuditResult {
+    const predicted: string[] = computeChainEstimate(url).flatMap(v => v.kind === 'prefix' && v.prefix ? [ v.prefix ] : []);
+    const hops: ChainAuditHop[] = records.map(({ requestUrl, responseStatus, requestTime, responseTime }) => {
+        const first = computeChainEstimate(requestUrl)[0];
+        return { url: requestUrl, status: responseStatus, millis: responseTime - requestTime, prefix: first?.kind === 'prefix' ? first.prefix : undefined };
+    });
+    // a prefix can redirect to itself (e.g. http -> https), only count it once
+    const observed = hops.flatMap(v => v.prefix ? [ v.prefix ] : []).filter((v, i, arr) => i === 0 || arr[i - 1] !== v);
+
+    const mismatches: ChainAuditMismatch[] = [];
+    if (error) mismatches.push({ kind: 'fetch-failed', message: error });
+    if (records.length > 0) {
+        for (const prefix of predicted.filter(v => !observed.includes(v))) mismatches.push({ kind: 'missing-prefix', message: `${prefix} expected but never requested` });
+        for (const prefix of distinct(observed.filter(v => !predicted.includes(v)))) mismatches.push({ kind: 'unexpected-prefix', message: `${prefix} requested but not in the enclosure url` });
+        const predictedOrder = predicted.filter(v => observed.includes(v));
+        const observedOrder = distinct(observed.filter(v => predicted.includes(v)));
+        if (predictedOrder.join() !== observedOrder.join()) mismatches.push({ kind: 'prefix-order', message: `expected ${predictedOrder.join(' -> ')}, observed ${observedOrder.join(' -> ')}` });
+        for (const { prefix, millis } of hops) {
+            if (prefix && millis > slowHopMillis) mismatches.push({ kind: 'slow-hop', message: `${prefix} took ${millis}ms` });
+        }
+    }
+    const last = records.at(-1);
+    if (last && last.responseStatus >= 400) mismatches.push({ kind: 'error-status', message: `${last.responseStatus} from ${last.requestUrl}` });
+
+    const totalMillis = last ? last.responseTime - records[0].requestTime : 0;
+    const cdn = last ? computeCdn(last.responseHeaders) : undefined;
+    return { url, title, predicted, observed, hops, totalMillis, destinationUrl: last?.requestUrl, cdn, mismatches, error };
+}
+
+/** Best guess at the cdn serving a response, from well-known response headers. */
+export function computeCdn(responseHeaders: readonly [string, string][]): string | undefined {
+    const headers = new Headers([ ...responseHeaders ]);
+    const server = headers.get('server') ?? '';
+    if (headers.has('cf-ray')) return 'cloudflare';
+    if (headers.has('x-amz-cf-id')) return 'cloudfront';
+    if (headers.has('x-fastly-request-id') || /^cache-/i.test(headers.get('x-served-by') ?? '')) return 'fastly';
+    if (headers.has('x-akamai-request-id') || /akamai/i.test(server)) return 'akamai';
+    if (/bunnycdn/i.test(server)) return 'bunny';
+    if (headers.has('x-goog-generation') || /^uploadserver$/i.test(server)) return 'google';
+    if (headers.has('x-azure-ref')) return 'azure';
+    return server !== '' ? server.substring(0, 64) : undefined;
+}
+
+/** Follow each enclosure url's redirects (one at a time, each chain bounded by a timeout), and audit the observed chain. */
+export async function auditEnclosureChains(enclosures: readonly { url: string, title?: string }[], { userAgent, slowHopMillis, timeoutMillis = DEFAULT_CHAIN_TIMEOUT_MILLIS }: { userAgent: string, slowHopMillis?: number, timeoutMillis?: number }): Promise<ChainAuditResult[]> {
+    const rt: ChainAuditResult[] = [];
+    for (const { url, title } of enclosures) {
+        try {
+            const records = await fetchWithRedirects(url, { method: 'HEAD', userAgent, signal: AbortSignal.timeout(timeoutMillis) });
+            rt.push(computeChainAuditResult({ url, title, records, slowHopMillis }));
+        } catch (e) {
+            rt.push(computeChainAuditResult({ url, title, records: [], error: `${(e as Error).message || e}`, slowHopMillis }));
+        }
+    }
+    return rt;
+}
+
+//
+
+const DEFAULT_SLOW_HOP_MILLIS = 1000;
+const DEFAULT_CHAIN_TIMEOUT_MILLIS = 1000 * 15; // all hops
@@ -0,0 +1,67 @@
+import { assertEquals } from './tests/deps.ts';
+import { auditEnclosureChains, computeCdn, computeChainAuditResult } from './chain_audit.ts';
+
+Deno.test({
+    name: 'computeChainAuditResult',
+    fn: () => {
+        const url = 'https://op3.dev/e/dts.podtrac.com/redirect.mp3/chrt.fm/track/CHRT123/a.com/path/to/episode.mp3';
+        const hop = (requestUrl: string, responseStatus: number, requestTime: number, responseTime: number, responseHeaders: [string, string][] = []) => ({ requestUrl, responseStatus, requestTime, responseTime, responseHeaders });
+
+        const ok = computeChainAuditResult({ url, records: [
+            hop(url, 302, 0, 50),
+            hop('https://dts.podtrac.com/redirect.mp3/chrt.fm/track/CHRT123/a.com/path/to/episode.mp3', 302, 50, 100),
+            hop('https://chrt.fm/track/CHRT123/a.com/path/to/episode.mp3', 302, 100, 150),
+            hop('https://a.com/path/to/episode.mp3', 302, 150, 200),
+            hop('https://cdn.a.com/path/to/episode.mp3', 200, 200, 260, [ [ 'cf-ray', '123-SJC' ] ]),
+        ] });
+        assertEquals(ok.predicted, [ 'op3', 'podtrac', 'chartable' ]);
+        assertEquals(ok.observed, [ 'op3', 'podtrac', 'chartable' ]);
+        assertEquals(ok.mismatches, []);
+        assertEquals(ok.totalMillis, 260);
+        assertEquals(ok.destinationUrl, 'https://cdn.a.com/path/to/episode.mp3');
+        assertEquals(ok.cdn, 'cloudflare');
+
+        const bad = computeChainAuditResult({ url, records: [
+            hop(url, 302, 0, 50),
+            hop('https://dts.podtrac.com/redirect.mp3/chrt.fm/track/CHRT123/a.com/path/to/episode.mp3', 302, 50, 2050), // slow
+            hop('https://pdst.fm/e/a.com/path/to/episode.mp3', 302, 2050, 2100), // chartable swapped for podsights
+            hop('https://a.com/path/to/episode.mp3', 404, 2100, 2150),
+        ] });
+        assertEquals(bad.observed, [ 'op3', 'podtrac', 'podsights' ]);
+        assertEquals(bad.mismatches.map(v => v.kind), [ 'missing-prefix', 'unexpected-prefix', 'slow-hop', 'error-status' ]);
+
+        const failed = computeChainAuditResult({ url, records: [], error: 'connection refused' });
+        assertEquals(failed.mismatches, [ { kind: 'fetch-failed', message: 'connection refused' } ]);
+        assertEquals(failed.totalMillis, 0);
+    }
+});
+
+Deno.test({
+    name: 'computeCdn',
+    fn: () => {
+        assertEquals(computeCdn([]), undefined);
+        assertEquals(computeCdn([ [ 'x-amz-cf-id', 'abc' ] ]), 'cloudfront');
+        assertEquals(computeCdn([ [ 'x-served-by', 'cache-sjc10001-SJC' ] ]), 'fastly');
+        assertEquals(computeCdn([ [ 'server', 'BunnyCDN-DE1-123' ] ]), 'bunny');
+        assertEquals(computeCdn([ [ 'server', 'nginx' ] ]), 'nginx');
+    }
+});
+
+Deno.test({
+    name: 'auditEnclosureChains timeout',
+    fn: async () => {
+        const originalFetch = globalThis.fetch;
+        // only responds if not aborted first
+        globalThis.fetch = (_input: RequestInfo | URL, init?: RequestInit) => new Promise<Response>((resolve, reject) => {
+            const timeout = setTimeout(() => resolve(new Response(null, { status: 200 })), 5000);
+            init?.signal?.addEventListener('abort', () => { clearTimeout(timeout); reject(new Error('aborted')); });
+        });
+        try {
+            const results = await auditEnclosureChains([ { url: 'https://a.com/episode.mp3', title: 'Episode' } ], { userAgent: 'test', timeoutMillis: 10 });
+            assertEquals(results.length, 1);
+            assertEquals(results[0].error, 'aborted');
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+    }
+});
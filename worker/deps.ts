@@ -17,4 +17,5 @@ export { zip } from 'https://deno.land/std@0.224.0/collections/zip.ts';
 export { ascend, descend } from 'https://deno.land/std@0.224.0/data_structures/comparators.ts';
 export { DelimiterStream } from 'https://deno.land/std@0.224.0/streams/delimiter_stream.ts';
 export { concat } from 'https://deno.land/std@0.224.0/bytes/concat.ts';
+export { crypto as stdCrypto } from 'https://deno.land/std@0.224.0/crypto/crypto.ts';
 export { RedBlackTree } from 'https://deno.land/std@0.224.0/data_structures/red_black_tree.ts';
@@ -2,7 +2,7 @@ import { AwsCall, signAwsCallV4, AwsCallContext, Bytes } from './deps.ts';
 
 export type EmailerOpts = { readonly awsCallContext: AwsCallContext, readonly emailFrom: string, readonly emailTo: string, readonly region?: string, readonly endpoint?: string };
 
-export type Email = { readonly subject: string, readonly text: string };
+export type Email = { readonly subject: string, readonly text: string, readonly to?: string }; // defaults to the configured recipient
 
 export type SendEmailResponse = { readonly status: number };
 
@@ -14,9 +14,19 @@ export class Emailer {
         this.opts = opts;
     }
 
+    /** e.g. accessKey,secretKey,from@example.com,to@example.com[,region] */
+    static ofParams(params: string, { userAgent }: { userAgent: string }): Emailer {
+        const m = /^([^,]+),([^,]+),([^,@]+@[^,]+),([^,@]+@[^,]+)(,([a-z0-9-]+))?$/.exec(params);
+        if (!m) throw new Error(`Bad emailer params`); // don't log secrets
+        const [ _, accessKey, secretKey, emailFrom, emailTo, __, region ] = m;
+        const endpoint = region ? `https://email.${region}.amazonaws.com` : undefined;
+        return new Emailer({ awsCallContext: { credentials: { accessKey, secretKey }, userAgent }, emailFrom, emailTo, region, endpoint });
+    }
+
     async send(email: Email) {
         const { subject, text } = email;
-        const { emailFrom: source, emailTo: to, awsCallContext: context, region, endpoint } = this.opts;
+        const { emailFrom: source, emailTo, awsCallContext: context, region, endpoint } = this.opts;
+        const to = email.to ?? emailTo;
         const response = await sendEmail({ source, to, subject, text, context, region, endpoint });
         if (response.status !== 200) throw new Error(`Error status ${response.status} sending email, expected 200`);
     }
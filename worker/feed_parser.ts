@@ -13,18 +13,28 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
     let feedItunesCategories: ([ string ] | [ string, string ])[] | undefined;
     let feedItunesType: string | undefined;
     let feedValue: Value | undefined;
+    let feedPersons: Person[] | undefined;
+    let feedLocation: Location | undefined;
+    let feedTrailers: Trailer[] | undefined;
     let level = 0;
     let itemGuid: string | undefined;
     let itemTitle: string | undefined;
     const items: Item[] = [];
     let enclosures: Enclosure[] | undefined;
     let alternateEnclosures: AlternateEnclosure[] | undefined;
+    let alternateEnclosureAttributes: Omit<AlternateEnclosure, 'sources'> | undefined;
     let pubdate: string | undefined;
     let sources: Source[] | undefined;
     let transcripts: Transcript[] | undefined;
     let chapters: Chapters | undefined;
     let value: Value | undefined;
     let itunesDuration: string | undefined;
+    let itunesEpisodeType: string | undefined;
+    let season: Season | undefined;
+    let episode: Episode | undefined;
+    let persons: Person[] | undefined;
+    let soundbites: Soundbite[] | undefined;
+    let location: Location | undefined;
     const callback: Callback = {
         onStartElement: (path, attributes, findNamespaceUri) => {
             level++;
@@ -39,15 +49,24 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
                 chapters = undefined;
                 value = undefined;
                 itunesDuration = undefined;
+                itunesEpisodeType = undefined;
+                season = undefined;
+                episode = undefined;
+                persons = undefined;
+                soundbites = undefined;
+                location = undefined;
             }
             if (xpath === '/rss/channel/item/enclosure') {
                 const url = attributes.get('url');
+                const length = attributes.get('length');
+                const type = attributes.get('type');
                 enclosures = enclosures ?? [];
-                enclosures.push({ url });
+                enclosures.push({ url, length, type });
             }
             if (xpath === '/rss/channel/item/podcast:alternateEnclosure') {
                 if (PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
                     sources = undefined;
+                    alternateEnclosureAttributes = { type: attributes.get('type'), length: attributes.get('length'), bitrate: attributes.get('bitrate'), height: attributes.get('height'), lang: attributes.get('lang'), title: attributes.get('title'), default: attributes.get('default') };
                 }
             }
             if (xpath === '/rss/channel/item/podcast:alternateEnclosure/podcast:source') {
@@ -90,7 +109,27 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
                     }
                 }
             }
-            if (xpath === '/rss/channel/podcast:value' || '/rss/channel/item/podcast:value') {
+            if (xpath === '/rss/channel/item/podcast:soundbite') {
+                if (PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
+                    const startTime = attributes.get('startTime');
+                    const duration = attributes.get('duration');
+                    if (typeof startTime === 'string' && typeof duration === 'string') {
+                        soundbites = soundbites ?? [];
+                        soundbites.push({ startTime, duration });
+                    }
+                }
+            }
+            if (xpath === '/rss/channel/podcast:trailer') {
+                if (PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
+                    const url = attributes.get('url');
+                    const pubdate = attributes.get('pubdate');
+                    if (typeof url === 'string' && typeof pubdate === 'string') {
+                        feedTrailers = feedTrailers ?? [];
+                        feedTrailers.push({ url, pubdate, length: attributes.get('length'), type: attributes.get('type'), season: attributes.get('season') });
+                    }
+                }
+            }
+            if (xpath === '/rss/channel/podcast:value' || xpath === '/rss/channel/item/podcast:value') {
                 if (PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
                     const method = attributes.get('method');
                     const type = attributes.get('type');
@@ -145,7 +184,7 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
                 }
             }
         },
-        onText: (text, path, _attributes, findNamespaceUri) => {
+        onText: (text, path, attributes, findNamespaceUri) => {
             const xpath = '/' + path.join('/');
             if (xpath === '/rss/channel/title') feedTitle = text;
             if (xpath === '/rss/channel/link') feedLink = text;
@@ -158,6 +197,44 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
             if (xpath === '/rss/channel/item/title') itemTitle = decodeXml(text);
             if (xpath === '/rss/channel/item/pubDate') pubdate = decodeXml(text);
             if (xpath === '/rss/channel/item/itunes:duration' && ITUNES_NAMESPACE_URI === (findNamespaceUri('itunes') ?? '')) itunesDuration = text;
+            if (xpath === '/rss/channel/item/itunes:episodeType' && ITUNES_NAMESPACE_URI === (findNamespaceUri('itunes') ?? '')) itunesEpisodeType = undefinedIfBlank(text.trim());
+            if (PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
+                if (xpath === '/rss/channel/item/podcast:season') season = { number: text.trim(), name: attributes.get('name') };
+                if (xpath === '/rss/channel/item/podcast:episode') episode = { number: text.trim(), display: attributes.get('display') };
+                if (xpath === '/rss/channel/podcast:person' || xpath === '/rss/channel/item/podcast:person') {
+                    const name = undefinedIfBlank(decodeXml(text).trim());
+                    if (name) {
+                        const person: Person = { name, role: attributes.get('role'), group: attributes.get('group'), img: attributes.get('img'), href: attributes.get('href') };
+                        if (xpath === '/rss/channel/podcast:person') {
+                            feedPersons = [ ...(feedPersons ?? []), person ];
+                        } else {
+                            persons = [ ...(persons ?? []), person ];
+                        }
+                    }
+                }
+                if (xpath === '/rss/channel/podcast:location' || xpath === '/rss/channel/item/podcast:location') {
+                    const name = undefinedIfBlank(decodeXml(text).trim());
+                    if (name) {
+                        const loc: Location = { name, geo: attributes.get('geo'), osm: attributes.get('osm') };
+                        if (xpath === '/rss/channel/podcast:location') {
+                            feedLocation = loc;
+                        } else {
+                            location = loc;
+                        }
+                    }
+                }
+                if (xpath === '/rss/channel/item/podcast:soundbite') {
+                    // title is optional, the soundbite itself was added in onStartElement
+                    const last = soundbites?.at(-1);
+                    const title = undefinedIfBlank(decodeXml(text).trim());
+                    if (soundbites && last && title) soundbites[soundbites.length - 1] = { ...last, title };
+                }
+                if (xpath === '/rss/channel/podcast:trailer') {
+                    const last = feedTrailers?.at(-1);
+                    const title = undefinedIfBlank(decodeXml(text).trim());
+                    if (feedTrailers && last && title) feedTrailers[feedTrailers.length - 1] = { ...last, title };
+                }
+            }
             if (xpath === '/rss/channel/item/podcast:transcript' && PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
                 if (transcripts?.length === 1 && transcripts.at(0)?.url === 'WORKAROUND') {
                     // step 2 of 3 of the workaround
@@ -178,11 +255,11 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
             if (xpath === '/rss/channel/item/podcast:alternateEnclosure') {
                 if (PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
                     alternateEnclosures = alternateEnclosures ?? [];
-                    alternateEnclosures.push({ sources });
+                    alternateEnclosures.push({ ...alternateEnclosureAttributes, sources });
                 }
             }
             if (xpath === '/rss/channel/item') {
-                items.push({ guid: itemGuid, title: itemTitle, enclosures, alternateEnclosures, pubdate, pubdateInstant: tryParsePubdate(pubdate ?? ''), transcripts, chapters, value, itunesDuration });
+                items.push({ guid: itemGuid, title: itemTitle, enclosures, alternateEnclosures, pubdate, pubdateInstant: tryParsePubdate(pubdate ?? ''), transcripts, chapters, value, itunesDuration, itunesEpisodeType, season, episode, persons, soundbites, location });
             }
             if (xpath === '/rss/channel/item/podcast:transcript' && PODCAST_NAMESPACE_URIS.has(findNamespaceUri('podcast') ?? '')) {
                 // step 3 of 3 of the workaround
@@ -193,7 +270,7 @@ export function parseFeed(feedContents: BufferSource | string): Feed {
     };
     parseXml(feedContents, callback);
     if (feedItunesCategories && !feedItunesCategories.every(isItunesCategory)) throw new Error(`Invalid itunesCategories: ${JSON.stringify(feedItunesCategories)}`);
-    return { title: feedTitle, link: feedLink, podcastGuid: feedPodcastGuid, medium: feedPodcastMedium, generator: feedGenerator, itunesAuthor: feedItunesAuthor, itunesType: feedItunesType, itunesCategories: feedItunesCategories, value: feedValue, items };
+    return { title: feedTitle, link: feedLink, podcastGuid: feedPodcastGuid, medium: feedPodcastMedium, generator: feedGenerator, itunesAuthor: feedItunesAuthor, itunesType: feedItunesType, itunesCategories: feedItunesCategories, value: feedValue, persons: feedPersons, location: feedLocation, trailers: feedTrailers, items };
 }
 
 //
@@ -235,6 +312,9 @@ export interface Feed {
     readonly itunesCategories?: ItunesCategory[];
     readonly items: readonly Item[];
     readonly value?: Value;
+    readonly persons?: Person[];
+    readonly location?: Location;
+    readonly trailers?: Trailer[];
 }
 
 export interface Item {
@@ -248,14 +328,29 @@ export interface Item {
     readonly chapters?: Chapters;
     readonly value?: Value;
     readonly itunesDuration?: string;
+    readonly itunesEpisodeType?: string; // full, trailer or bonus
+    readonly season?: Season;
+    readonly episode?: Episode;
+    readonly persons?: Person[];
+    readonly soundbites?: Soundbite[];
+    readonly location?: Location;
 }
 
 export interface Enclosure {
     readonly url?: string;
+    readonly length?: string; // raw attribute value, bytes
+    readonly type?: string;
 }
 
 export interface AlternateEnclosure {
     readonly sources?: Source[];
+    readonly type?: string;
+    readonly length?: string; // raw attribute value, bytes
+    readonly bitrate?: string; // raw attribute value, bits per second
+    readonly height?: string; // raw attribute value, pixels
+    readonly lang?: string;
+    readonly title?: string;
+    readonly default?: string; // raw attribute value, true if this is the same media as the enclosure
 }
 
 export interface Source {
@@ -274,6 +369,45 @@ export interface Chapters {
     readonly type: string;
 }
 
+export interface Season {
+    readonly number: string; // raw text value, integer
+    readonly name?: string;
+}
+
+export interface Episode {
+    readonly number: string; // raw text value, decimal
+    readonly display?: string;
+}
+
+export interface Person {
+    readonly name: string;
+    readonly role?: string;
+    readonly group?: string;
+    readonly img?: string;
+    readonly href?: string;
+}
+
+export interface Soundbite {
+    readonly startTime: string; // raw attribute value, seconds
+    readonly duration: string; // raw attribute value, seconds
+    readonly title?: string;
+}
+
+export interface Location {
+    readonly name: string;
+    readonly geo?: string;
+    readonly osm?: string;
+}
+
+export interface Trailer {
+    readonly url: string;
+    readonly pubdate: string; // raw attribute value, rfc 2822
+    readonly title?: string;
+    readonly length?: string; // raw attribute value, bytes
+    readonly type?: string;
+    readonly season?: string; // raw attribute value, integer
+}
+
 export interface Value {
     readonly type: string;
     readonly method: string;
@@ -0,0 +1,52 @@
+import { assertEquals } from './tests/deps.ts';
+import { parseFeed } from './feed_parser.ts';
+
+Deno.test({
+    name: 'parseFeed podcast namespace',
+    fn: () => {
+        const feed = parseFeed(`<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Show</title>
+    <podcast:person role="host" img="https://example.com/alice.jpg">Alice</podcast:person>
+    <podcast:location geo="geo:30.2672,97.7431" osm="R113314">Austin, TX</podcast:location>
+    <podcast:trailer pubdate="Thu, 01 Apr 2021 08:00:00 EST" url="https://example.com/trailer.mp3" length="12345678" type="audio/mpeg" season="2">Season 2 trailer</podcast:trailer>
+    <item>
+      <guid>ep1</guid>
+      <title>Episode 1</title>
+      <enclosure url="https://example.com/ep1.mp3" length="1000" type="audio/mpeg"/>
+      <itunes:episodeType>bonus</itunes:episodeType>
+      <podcast:season name="Volume 2">2</podcast:season>
+      <podcast:episode display="Ch. 3">3</podcast:episode>
+      <podcast:person role="guest" group="cast">Bob &amp; Co</podcast:person>
+      <podcast:soundbite startTime="73.0" duration="60.0">Favorite part</podcast:soundbite>
+      <podcast:soundbite startTime="1234.5" duration="42.25"/>
+      <podcast:alternateEnclosure type="audio/aac" length="500" bitrate="64000" lang="en" default="true">
+        <podcast:source uri="https://example.com/ep1.aac"/>
+      </podcast:alternateEnclosure>
+    </item>
+    <item>
+      <guid>ep2</guid>
+    </item>
+  </channel>
+</rss>`);
+        assertEquals(feed.persons, [ { name: 'Alice', role: 'host', group: undefined, img: 'https://example.com/alice.jpg', href: undefined } ]);
+        assertEquals(feed.location, { name: 'Austin, TX', geo: 'geo:30.2672,97.7431', osm: 'R113314' });
+        assertEquals(feed.trailers, [ { url: 'https://example.com/trailer.mp3', pubdate: 'Thu, 01 Apr 2021 08:00:00 EST', length: '12345678', type: 'audio/mpeg', season: '2', title: 'Season 2 trailer' } ]);
+
+        const [ item1, item2 ] = feed.items;
+        assertEquals(item1.enclosures, [ { url: 'https://example.com/ep1.mp3', length: '1000', type: 'audio/mpeg' } ]);
+        assertEquals(item1.itunesEpisodeType, 'bonus');
+        assertEquals(item1.season, { number: '2', name: 'Volume 2' });
+        assertEquals(item1.episode, { number: '3', display: 'Ch. 3' });
+        assertEquals(item1.persons, [ { name: 'Bob & Co', role: 'guest', group: 'cast', img: undefined, href: undefined } ]);
+        assertEquals(item1.alternateEnclosures, [ { type: 'audio/aac', length: '500', bitrate: '64000', height: undefined, lang: 'en', title: undefined, default: 'true', sources: [ { uri: 'https://example.com/ep1.aac' } ] } ]);
+        assertEquals(item1.soundbites, [ { startTime: '73.0', duration: '60.0', title: 'Favorite part' }, { startTime: '1234.5', duration: '42.25' } ]);
+
+        // per-item state is reset
+        assertEquals(item2.season, undefined);
+        assertEquals(item2.persons, undefined);
+        assertEquals(item2.soundbites, undefined);
+        assertEquals(item2.alternateEnclosures, undefined);
+    }
+});
@@ -21,7 +21,7 @@ export async function fetchOp3RedirectUrls(url: string, { userAgent }: { userAge
     return { redirectUrls, responseHeaders: last?.responseHeaders };
 }
 
-export async function fetchWithRedirects(url: string, { method, userAgent, stopWhenLocationMatches }: { method?: string, userAgent: string, stopWhenLocationMatches?: (location: string) => boolean }): Promise<RequestResponse[]> {
+export async function fetchWithRedirects(url: string, { method, userAgent, stopWhenLocationMatches, signal }: { method?: string, userAgent: string, stopWhenLocationMatches?: (location: string) => boolean, signal?: AbortSignal }): Promise<RequestResponse[]> {
     const rt: RequestResponse[] = [];
     let requestUrl = url;
     const requestUrls = new Set<string>();
@@ -29,7 +29,8 @@ export async function fetchWithRedirects(url: string, { method, userAgent, stopW
         const requestTime = Date.now();
         requestUrls.add(requestUrl);
         console.log(`fetchWithRedirects: ${method} ${url}`);
-        const response = await fetch(requestUrl, { method, headers: { 'user-agent': userAgent }, redirect: 'manual' });
+        const response = await fetch(requestUrl, { method, headers: { 'user-agent': userAgent }, redirect: 'manual', signal });
+        await response.body?.cancel();
         const responseTime = Date.now();
         const responseStatus = response.status;
         const responseHeaders = [...response.headers];
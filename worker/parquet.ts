@@ -0,0 +1,349 @@
+// Minimal streaming Apache Parquet writer: flat schema, optional columns, uncompressed, one data page per column chunk
+// https://github.com/apache/parquet-format
+
+export type ParquetColumnType = 'string' | 'dictionary-string' | 'int64' | 'timestamp-millis';
+
+export interface ParquetColumn {
+    readonly name: string;
+    readonly type: ParquetColumnType; // dictionary-string: utf8 values stored once per row group, for low-cardinality columns
+}
+
+/**
+ * Writes rows (one value per column, undefined for null) as a parquet file, one row group at a time to keep memory bounded.
+ *
+ * keyValueMetadata can be a function, called once the rows run out, for metadata only known at the end.
+ */
+export function computeParquetStream(columns: readonly ParquetColumn[], rows: Iterable<readonly unknown[]> | AsyncIterable<readonly unknown[]>, { rowGroupSize = 10000, keyValueMetadata = {} }: { rowGroupSize?: number, keyValueMetadata?: Record<string, string> | (() => Record<string, string>) } = {}): ReadableStream<Uint8Array> {
+    const writer = new ParquetWriter(columns);
+    const iterator = Symbol.asyncIterator in rows ? rows[Symbol.asyncIterator]() : rows[Symbol.iterator]();
+    let started = false;
+    let finished = false;
+    return new ReadableStream({
+        async pull(controller) {
+            if (!started) {
+                started = true;
+                controller.enqueue(MAGIC.slice());
+                return;
+            }
+            const rowGroup: (readonly unknown[])[] = [];
+            while (!finished && rowGroup.length < rowGroupSize) {
+                const next = await iterator.next();
+                if (next.done) finished = true; else rowGroup.push(next.value);
+            }
+            if (rowGroup.length > 0) controller.enqueue(writer.writeRowGroup(rowGroup));
+            if (finished) {
+                controller.enqueue(writer.finish(typeof keyValueMetadata === 'function' ? keyValueMetadata() : keyValueMetadata));
+                controller.close();
+            }
+        },
+    });
+}
+
+export class ParquetWriter {
+    private readonly columns: readonly ParquetColumn[];
+    private readonly rowGroups: RowGroupInfo[] = [];
+    private offset = MAGIC.length; // the caller writes the leading magic bytes
+
+    constructor(columns: readonly ParquetColumn[]) {
+        if (columns.length === 0) throw new Error(`Need at least one column`);
+        this.columns = columns;
+    }
+
+    /** Bytes for a single row group, to be written after the leading magic bytes (or the previous row group). */
+    writeRowGroup(rows: readonly (readonly unknown[])[]): Uint8Array {
+        const { columns } = this;
+        const chunks: Uint8Array[] = [];
+        const columnChunks: ColumnChunkInfo[] = [];
+        let offset = this.offset;
+        for (const [ i, column ] of columns.entries()) {
+            const values = rows.map(v => normalizeValue(v[i], column));
+            const { bytes, dictionaryPageOffset, dataPageOffset, encodings } = encodeColumnChunk(column, values, offset);
+            chunks.push(bytes);
+            columnChunks.push({ column, numValues: values.length, dictionaryPageOffset, dataPageOffset, encodings, size: bytes.length, fileOffset: offset });
+            offset += bytes.length;
+        }
+        const rt = concatBytes(chunks);
+        this.rowGroups.push({ columnChunks, numRows: rows.length, totalByteSize: rt.length, fileOffset: this.offset });
+        this.offset = offset;
+        return rt;
+    }
+
+    /** Footer bytes: file metadata, its length, and the trailing magic bytes. */
+    finish(keyValueMetadata: Record<string, string> = {}): Uint8Array {
+        const { columns, rowGroups } = this;
+        const w = new CompactWriter();
+        w.i32Field(1, 1); // version
+        w.listField(2, TYPE_STRUCT, [ { name: 'schema', numChildren: columns.length }, ...columns ], v => writeSchemaElement(w, v));
+        w.i64Field(3, rowGroups.reduce((a, b) => a + b.numRows, 0));
+        w.listField(4, TYPE_STRUCT, rowGroups, v => writeRowGroup(w, v));
+        const keyValues = Object.entries(keyValueMetadata);
+        if (keyValues.length > 0) w.listField(5, TYPE_STRUCT, keyValues, ([ key, value ]) => { w.binaryField(1, key); w.binaryField(2, value); w.stop(); });
+        w.binaryField(6, 'op3');
+        w.stop();
+        const metadata = w.toBytes();
+        const length = new Uint8Array(4);
+        new DataView(length.buffer).setUint32(0, metadata.length, true);
+        return concatBytes([ metadata, length, MAGIC ]);
+    }
+
+}
+
+//
+
+const MAGIC = new TextEncoder().encode('PAR1');
+
+// thrift compact protocol types
+const TYPE_BOOLEAN_TRUE = 1;
+const TYPE_BYTE = 3;
+const TYPE_I32 = 5;
+const TYPE_I64 = 6;
+const TYPE_BINARY = 8;
+const TYPE_LIST = 9;
+const TYPE_STRUCT = 12;
+
+// parquet enums
+const PHYSICAL_INT64 = 2;
+const PHYSICAL_BYTE_ARRAY = 6;
+const REPETITION_OPTIONAL = 1;
+const CONVERTED_UTF8 = 0;
+const CONVERTED_TIMESTAMP_MILLIS = 9;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const ENCODING_RLE_DICTIONARY = 8;
+const PAGE_DATA = 0;
+const PAGE_DICTIONARY = 2;
+
+type Value = string | bigint | undefined;
+type RowGroupInfo = { columnChunks: ColumnChunkInfo[], numRows: number, totalByteSize: number, fileOffset: number };
+type ColumnChunkInfo = { column: ParquetColumn, numValues: number, dictionaryPageOffset?: number, dataPageOffset: number, encodings: number[], size: number, fileOffset: number };
+
+function normalizeValue(value: unknown, { name, type }: ParquetColumn): Value {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (type === 'int64') {
+        if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+        if (typeof value === 'string' && /^-?\d+$/.test(value)) return BigInt(value);
+        return undefined; // not a number, e.g. asn "unknown"
+    }
+    if (type === 'timestamp-millis') {
+        const millis = typeof value === 'string' ? new Date(value).getTime() : NaN;
+        if (isNaN(millis)) throw new Error(`Bad ${name} timestamp: ${value}`);
+        return BigInt(millis);
+    }
+    return String(value);
+}
+
+function encodeColumnChunk(column: ParquetColumn, values: Value[], offset: number): { bytes: Uint8Array, dictionaryPageOffset?: number, dataPageOffset: number, encodings: number[] } {
+    const defined = values.filter(v => v !== undefined) as (string | bigint)[];
+    const definitionLevels = encodeLengthPrefixed(encodeHybrid(values.map(v => v === undefined ? 0 : 1), 1));
+    if (column.type === 'dictionary-string' && defined.length > 0) {
+        const dictionary = new Map<string, number>();
+        for (const value of defined) if (!dictionary.has(value as string)) dictionary.set(value as string, dictionary.size);
+        const dictionaryPage = encodePage(PAGE_DICTIONARY, encodePlain([ ...dictionary.keys() ]), dictionary.size, ENCODING_PLAIN);
+        const bitWidth = Math.max(1, Math.ceil(Math.log2(dictionary.size)));
+        const indexes = concatBytes([ new Uint8Array([ bitWidth ]), encodeHybrid(defined.map(v => dictionary.get(v as string)!), bitWidth) ]);
+        const dataPage = encodePage(PAGE_DATA, concatBytes([ definitionLevels, indexes ]), values.length, ENCODING_RLE_DICTIONARY);
+        return { bytes: concatBytes([ dictionaryPage, dataPage ]), dictionaryPageOffset: offset, dataPageOffset: offset + dictionaryPage.length, encodings: [ ENCODING_PLAIN, ENCODING_RLE, ENCODING_RLE_DICTIONARY ] };
+    }
+    const dataPage = encodePage(PAGE_DATA, concatBytes([ definitionLevels, encodePlain(defined) ]), values.length, ENCODING_PLAIN);
+    return { bytes: dataPage, dataPageOffset: offset, encodings: [ ENCODING_PLAIN, ENCODING_RLE ] };
+}
+
+function encodePage(pageType: number, body: Uint8Array, numValues: number, encoding: number): Uint8Array {
+    const w = new CompactWriter();
+    w.i32Field(1, pageType);
+    w.i32Field(2, body.length); // uncompressed
+    w.i32Field(3, body.length); // compressed
+    if (pageType === PAGE_DATA) {
+        w.structField(5, () => {
+            w.i32Field(1, numValues);
+            w.i32Field(2, encoding);
+            w.i32Field(3, ENCODING_RLE); // definition levels
+            w.i32Field(4, ENCODING_RLE); // repetition levels (none)
+        });
+    } else {
+        w.structField(7, () => {
+            w.i32Field(1, numValues);
+            w.i32Field(2, encoding);
+        });
+    }
+    w.stop();
+    return concatBytes([ w.toBytes(), body ]);
+}
+
+function encodePlain(values: (string | bigint)[]): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    for (const value of values) {
+        if (typeof value === 'bigint') {
+            const bytes = new Uint8Array(8);
+            new DataView(bytes.buffer).setBigInt64(0, value, true);
+            chunks.push(bytes);
+        } else {
+            chunks.push(encodeLengthPrefixed(encoder.encode(value)));
+        }
+    }
+    return concatBytes(chunks);
+}
+
+function encodeLengthPrefixed(bytes: Uint8Array): Uint8Array {
+    const rt = new Uint8Array(4 + bytes.length);
+    new DataView(rt.buffer).setUint32(0, bytes.length, true);
+    rt.set(bytes, 4);
+    return rt;
+}
+
+/** RLE / bit-packing hybrid: runs of repeated values as RLE, everything else bit-packed in groups of 8. */
+function encodeHybrid(values: readonly number[], bitWidth: number): Uint8Array {
+    const out: number[] = [];
+    const byteWidth = Math.ceil(bitWidth / 8);
+    let i = 0;
+    while (i < values.length) {
+        let run = 1;
+        while (i + run < values.length && values[i + run] === values[i]) run++;
+        if (run >= 8 || i + run === values.length) {
+            writeVarint(out, run << 1);
+            for (let b = 0; b < byteWidth; b++) out.push((values[i] >> (b * 8)) & 0xff);
+            i += run;
+            continue;
+        }
+        // bit-packed runs must be a multiple of 8 values, except the last one (padded with zeros)
+        let end = Math.min(values.length, i + 63 * 8);
+        if (end < values.length) end = i + Math.floor((end - i) / 8) * 8;
+        const groups = Math.ceil((end - i) / 8);
+        writeVarint(out, (groups << 1) | 1);
+        const packed = new Uint8Array(groups * bitWidth);
+        for (let j = 0; j < end - i; j++) {
+            for (let b = 0; b < bitWidth; b++) {
+                if ((values[i + j] >> b) & 1) {
+                    const bit = j * bitWidth + b;
+                    packed[bit >> 3] |= 1 << (bit & 7);
+                }
+            }
+        }
+        out.push(...packed);
+        i = end;
+    }
+    return new Uint8Array(out);
+}
+
+function writeSchemaElement(w: CompactWriter, element: ParquetColumn | { name: string, numChildren: number }) {
+    if ('numChildren' in element) {
+        w.binaryField(4, element.name);
+        w.i32Field(5, element.numChildren);
+    } else {
+        const { name, type } = element;
+        w.i32Field(1, type === 'int64' || type === 'timestamp-millis' ? PHYSICAL_INT64 : PHYSICAL_BYTE_ARRAY);
+        w.i32Field(3, REPETITION_OPTIONAL);
+        w.binaryField(4, name);
+        if (type === 'string' || type === 'dictionary-string') {
+            w.i32Field(6, CONVERTED_UTF8);
+            w.structField(10, () => w.structField(1, () => {})); // LogicalType.STRING
+        } else if (type === 'timestamp-millis') {
+            w.i32Field(6, CONVERTED_TIMESTAMP_MILLIS);
+            w.structField(10, () => w.structField(8, () => { // LogicalType.TIMESTAMP
+                w.boolField(1, true); // isAdjustedToUTC
+                w.structField(2, () => w.structField(1, () => {})); // TimeUnit.MILLIS
+            }));
+        }
+    }
+    w.stop();
+}
+
+function writeRowGroup(w: CompactWriter, { columnChunks, numRows, totalByteSize, fileOffset }: RowGroupInfo) {
+    w.listField(1, TYPE_STRUCT, columnChunks, chunk => {
+        w.i64Field(2, chunk.fileOffset);
+        w.structField(3, () => {
+            const { column, numValues, dictionaryPageOffset, dataPageOffset, encodings, size } = chunk;
+            w.i32Field(1, column.type === 'int64' || column.type === 'timestamp-millis' ? PHYSICAL_INT64 : PHYSICAL_BYTE_ARRAY);
+            w.listField(2, TYPE_I32, encodings, v => w.i32(v));
+            w.listField(3, TYPE_BINARY, [ column.name ], v => w.binary(v));
+            w.i32Field(4, 0); // uncompressed
+            w.i64Field(5, numValues);
+            w.i64Field(6, size);
+            w.i64Field(7, size);
+            w.i64Field(9, dataPageOffset);
+            if (dictionaryPageOffset !== undefined) w.i64Field(11, dictionaryPageOffset);
+        });
+        w.stop();
+    });
+    w.i64Field(2, totalByteSize);
+    w.i64Field(3, numRows);
+    w.i64Field(5, fileOffset);
+    w.i64Field(6, totalByteSize);
+    w.stop();
+}
+
+class CompactWriter {
+    private readonly out: number[] = [];
+    private readonly lastFieldIds: number[] = [ 0 ];
+
+    i32Field(id: number, value: number) { this.fieldHeader(id, TYPE_I32); this.i32(value); }
+    i64Field(id: number, value: number) { this.fieldHeader(id, TYPE_I64); writeVarint(this.out, zigzag(value)); }
+    binaryField(id: number, value: string) { this.fieldHeader(id, TYPE_BINARY); this.binary(value); }
+    boolField(id: number, value: boolean) { this.fieldHeader(id, value ? TYPE_BOOLEAN_TRUE : TYPE_BOOLEAN_TRUE + 1); }
+
+    structField(id: number, fn: () => void) {
+        this.fieldHeader(id, TYPE_STRUCT);
+        this.lastFieldIds.push(0);
+        fn();
+        this.stop();
+    }
+
+    listField<T>(id: number, elementType: number, elements: readonly T[], fn: (element: T) => void) {
+        this.fieldHeader(id, TYPE_LIST);
+        if (elements.length < 15) this.out.push((elements.length << 4) | elementType); else { this.out.push(0xf0 | elementType); writeVarint(this.out, elements.length); }
+        for (const element of elements) {
+            if (elementType === TYPE_STRUCT) this.lastFieldIds.push(0); // popped by the element's stop()
+            fn(element);
+        }
+    }
+
+    i32(value: number) { writeVarint(this.out, zigzag(value)); }
+    binary(value: string) { const bytes = encoder.encode(value); writeVarint(this.out, bytes.length); this.out.push(...bytes); }
+
+    stop() {
+        this.out.push(0);
+        this.lastFieldIds.pop();
+    }
+
+    toBytes(): Uint8Array {
+        return new Uint8Array(this.out);
+    }
+
+    private fieldHeader(id: number, type: number) {
+        const last = this.lastFieldIds[this.lastFieldIds.length - 1];
+        const delta = id - last;
+        if (delta > 0 && delta <= 15) {
+            this.out.push((delta << 4) | type);
+        } else {
+            this.out.push(type);
+            writeVarint(this.out, zigzag(id));
+        }
+        this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+    }
+
+}
+
+const encoder = new TextEncoder();
+
+function zigzag(value: number): number {
+    // safe for the sizes used here (< 2^52), avoids 32-bit bitwise operators
+    return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function writeVarint(out: number[], value: number) {
+    while (value >= 0x80) {
+        out.push((value % 0x80) | 0x80);
+        value = Math.floor(value / 0x80);
+    }
+    out.push(value);
+}
+
+function concatBytes(chunks: readonly Uint8Array[]): Uint8Array {
+    const rt = new Uint8Array(chunks.reduce((a, b) => a + b.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        rt.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return rt;
+}
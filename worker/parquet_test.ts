@@ -0,0 +1,61 @@
+import { assert, assertEquals, assertThrows, parquetMetadata, parquetReadObjects } from './tests/deps.ts';
+import { computeParquetStream, ParquetColumn, ParquetWriter } from './parquet.ts';
+
+Deno.test({
+    name: 'computeParquetStream',
+    fn: async () => {
+        const columns: ParquetColumn[] = [
+            { name: 'time', type: 'timestamp-millis' },
+            { name: 'countryCode', type: 'dictionary-string' },
+            { name: 'asn', type: 'int64' },
+            { name: 'url', type: 'string' },
+        ];
+        const rows = [ ...Array(25).keys() ].map(i => [ new Date(1700000000000 + i * 1000).toISOString(), i % 3 === 0 ? 'US' : i % 3 === 1 ? 'DE' : undefined, i % 5 === 0 ? 'unknown' : `${13335 + i}`, `https://example.com/${i}.mp3` ]);
+        const bytes = new Uint8Array(await new Response(computeParquetStream(columns, rows, { rowGroupSize: 10 })).arrayBuffer());
+
+        const decoder = new TextDecoder();
+        assertEquals(decoder.decode(bytes.slice(0, 4)), 'PAR1');
+        assertEquals(decoder.decode(bytes.slice(bytes.length - 4)), 'PAR1');
+        const metadataLength = new DataView(bytes.buffer).getUint32(bytes.length - 8, true);
+        assert(metadataLength > 0 && metadataLength < bytes.length - 12);
+        const text = decoder.decode(bytes);
+        assert(text.includes('https://example.com/24.mp3'));
+        assertEquals(text.split('US').length - 1, 3); // once per row group dictionary
+    }
+});
+
+Deno.test({
+    name: 'computeParquetStream round trip',
+    fn: async () => {
+        const columns: ParquetColumn[] = [
+            { name: 'time', type: 'timestamp-millis' },
+            { name: 'countryCode', type: 'dictionary-string' },
+            { name: 'asn', type: 'int64' },
+            { name: 'url', type: 'string' },
+        ];
+        const rows = [ ...Array(25).keys() ].map(i => [ new Date(1700000000000 + i * 1000).toISOString(), i % 3 === 0 ? 'US' : i % 3 === 1 ? 'DE' : undefined, i % 5 === 0 ? undefined : `${13335 + i}`, i === 7 ? undefined : `https://example.com/${i}.mp3?é=✓` ]);
+        async function* yieldRows() {
+            yield* rows;
+        }
+        const file = await new Response(computeParquetStream(columns, yieldRows(), { rowGroupSize: 10, keyValueMetadata: () => ({ continuationToken: 'abc' }) })).arrayBuffer();
+
+        const metadata = parquetMetadata(file);
+        assertEquals(Number(metadata.num_rows), 25);
+        assertEquals(metadata.row_groups.map(v => Number(v.num_rows)), [ 10, 10, 5 ]);
+        assertEquals(metadata.key_value_metadata, [ { key: 'continuationToken', value: 'abc' } ]);
+
+        const decoded = await parquetReadObjects({ file });
+        assertEquals(decoded.map(v => [ v.time instanceof Date ? v.time.toISOString() : v.time, v.countryCode ?? undefined, typeof v.asn === 'bigint' ? v.asn.toString() : v.asn ?? undefined, v.url ?? undefined ]), rows);
+    }
+});
+
+Deno.test({
+    name: 'ParquetWriter',
+    fn: () => {
+        assertThrows(() => new ParquetWriter([]));
+        const writer = new ParquetWriter([ { name: 'time', type: 'timestamp-millis' } ]);
+        assertThrows(() => writer.writeRowGroup([ [ 'not a time' ] ]));
+        const footer = writer.finish();
+        assertEquals(new TextDecoder().decode(footer.slice(footer.length - 4)), 'PAR1');
+    }
+});
@@ -42,3 +42,49 @@ export function estimateByteRangeSize(byteRange: ByteRange): number {
         : typeof byteRange.end === 'number' ? (byteRange.end + 1 - byteRange.start)
         : Number.MAX_SAFE_INTEGER;
 }
+
+export function unionByteRanges(lhs: readonly ByteRange[], rhs: readonly ByteRange[]): ByteRange[] {
+    // merge overlapping/adjacent spans, suffix ranges collapse to the largest (they all cover the tail)
+    const spans: { start: number, end?: number }[] = [];
+    let suffix: number | undefined;
+    for (const range of [ ...lhs, ...rhs ]) {
+        if ('suffix' in range) {
+            suffix = Math.max(suffix ?? 0, range.suffix);
+        } else {
+            spans.push(range);
+        }
+    }
+    spans.sort((a, b) => a.start - b.start);
+    const rt: ByteRange[] = [];
+    let current: { start: number, end?: number } | undefined;
+    for (const span of spans) {
+        if (current && (current.end === undefined || span.start <= current.end + 1)) {
+            if (current.end !== undefined) current = { start: current.start, end: span.end === undefined ? undefined : Math.max(current.end, span.end) };
+        } else {
+            if (current) rt.push(current);
+            current = { ...span };
+        }
+    }
+    if (current) rt.push(current.end === undefined ? { start: current.start } : current);
+    if (suffix !== undefined) rt.push({ suffix });
+    return rt;
+}
+
+export function packByteRanges(ranges: readonly ByteRange[]): string {
+    return ranges.map(v => 'suffix' in v ? `-${v.suffix}` : `${v.start}-${v.end ?? ''}`).join(',');
+}
+
+export function tryUnpackByteRanges(packed: string): ByteRange[] | undefined {
+    return packed === '' ? undefined : tryParseRangeHeader(`bytes=${packed}`);
+}
+
+export function computeCoveredBytes(ranges: readonly ByteRange[], contentLength: number): number {
+    const resolved = ranges.map(v => 'suffix' in v ? { start: Math.max(0, contentLength - v.suffix), end: contentLength - 1 } : { start: v.start, end: Math.min(v.end ?? contentLength - 1, contentLength - 1) })
+        .filter(v => v.start <= v.end);
+    let rt = 0;
+    for (const range of unionByteRanges(resolved, [])) {
+        if ('suffix' in range || range.end === undefined) throw new Error(`Unexpected unresolved range`);
+        rt += range.end + 1 - range.start;
+    }
+    return rt;
+}
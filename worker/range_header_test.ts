@@ -1,5 +1,5 @@
 import { assertEquals } from './tests/deps.ts';
-import { ByteRange, estimateByteRangeSize, tryParseRangeHeader } from './range_header.ts';
+import { ByteRange, computeCoveredBytes, estimateByteRangeSize, packByteRanges, tryParseRangeHeader, tryUnpackByteRanges, unionByteRanges } from './range_header.ts';
 
 Deno.test({
     name: 'rangeHeader',
@@ -31,3 +31,36 @@ Deno.test({
         assertEquals(estimateByteRangeSize({ start: 100, end: 1000 }), 901);
     }
 });
+
+Deno.test({
+    name: 'unionByteRanges',
+    fn: () => {
+        assertEquals(unionByteRanges([], []), []);
+        assertEquals(unionByteRanges([ { start: 0, end: 1 } ], [ { start: 0 } ]), [ { start: 0 } ]);
+        assertEquals(unionByteRanges([ { start: 0, end: 1 } ], [ { start: 2, end: 10 } ]), [ { start: 0, end: 10 } ]); // adjacent
+        assertEquals(unionByteRanges([ { start: 0, end: 1 } ], [ { start: 5, end: 10 } ]), [ { start: 0, end: 1 }, { start: 5, end: 10 } ]);
+        assertEquals(unionByteRanges([ { start: 5, end: 10 }, { suffix: 10 } ], [ { start: 0, end: 7 }, { start: 20 }, { suffix: 100 } ]), [ { start: 0, end: 10 }, { start: 20 }, { suffix: 100 } ]);
+        assertEquals(unionByteRanges([ { start: 10 } ], [ { start: 20, end: 30 } ]), [ { start: 10 } ]);
+    }
+});
+
+Deno.test({
+    name: 'packByteRanges',
+    fn: () => {
+        const ranges: ByteRange[] = [ { start: 0, end: 10 }, { start: 20 }, { suffix: 100 } ];
+        assertEquals(packByteRanges(ranges), '0-10,20-,-100');
+        assertEquals(tryUnpackByteRanges(packByteRanges(ranges)), ranges);
+        assertEquals(tryUnpackByteRanges(''), undefined);
+    }
+});
+
+Deno.test({
+    name: 'computeCoveredBytes',
+    fn: () => {
+        assertEquals(computeCoveredBytes([ { start: 0 } ], 1000), 1000);
+        assertEquals(computeCoveredBytes([ { start: 0, end: 1 } ], 1000), 2);
+        assertEquals(computeCoveredBytes([ { start: 0, end: 499 }, { suffix: 600 } ], 1000), 1000); // overlap
+        assertEquals(computeCoveredBytes([ { start: 900, end: 2000 } ], 1000), 100); // past the end
+        assertEquals(computeCoveredBytes([ { start: 2000 } ], 1000), 0);
+    }
+});
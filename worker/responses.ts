@@ -2,6 +2,10 @@ export function newJsonResponse(obj: unknown, status = 200): Response {
     return new Response(JSON.stringify(obj, undefined, 2), { status, headers: { 'content-type': 'application/json', 'access-control-allow-origin': '*' } });
 }
 
+export function newCsvResponse(string: string): Response {
+    return new Response(string, { headers: { 'content-type': 'text/csv; charset=utf-8', 'access-control-allow-origin': '*' } });
+}
+
 export function newForbiddenJsonResponse() {
     return newJsonResponse({ error: 'forbidden' }, 403);
 }
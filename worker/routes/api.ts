@@ -4,9 +4,9 @@ import { newMethodNotAllowedResponse, newJsonResponse, newForbiddenJsonResponse,
 import { computeQueryRedirectLogsResponse } from './api_query_redirect_logs.ts';
 import { consoleError } from '../tracer.ts';
 import { computeRawIpAddress } from '../cloudflare_request.ts';
-import { computeApiKeyResponse, computeApiKeysResponse } from './api_api_keys.ts';
+import { computeApiKeyAuditResponse, computeApiKeyResponse, computeApiKeysResponse } from './api_api_keys.ts';
 import { computeSessionToken, validateSessionToken } from '../session_token.ts';
-import { isStringRecord, isValidHttpUrl, isValidInstant } from '../check.ts';
+import { isString, isStringRecord, isValidHttpUrl, isValidInstant } from '../check.ts';
 import { StatusError } from '../errors.ts';
 import { PodcastIndexClient } from '../podcast_index_client.ts';
 import { computeFeedAnalysis } from '../feed_analysis.ts';
@@ -17,14 +17,17 @@ import { tryParseRecomputeShowSummariesForMonthRequest, recomputeShowSummariesFo
 import { Blobs } from '../backend/blobs.ts';
 import { computeApiQueryDownloadsResponse } from './api_query_downloads.ts';
 import { tryParseComputeShowDailyDownloadsRequest, computeShowDailyDownloads } from '../backend/downloads.ts';
-import { computeShowsResponse, computeShowStatsResponse, computeShowSummaryStatsResponse, lookupShowUuidForFeedUrl } from './api_shows.ts';
+import { tryParseReplayBotTypesRequest, replayBotTypes } from '../backend/bot_replay.ts';
+import { computeShowAlertsResponse, computeShowBotReplaysResponse, computeShowChainAuditResponse, computeShowEpisodeCoverageResponse, computeShowEpisodePacingResponse, computeShowEpisodeRetentionResponse, computeShowFeedHistoryResponse, computeShowListensResponse, computeShowsResponse, computeShowStatsResponse, computeShowSummaryStatsResponse, computeShowWebhookDeliveriesResponse, computeShowWebhookResponse, computeShowWebhooksResponse, lookupShowUuidForFeedUrl } from './api_shows.ts';
 import { Configuration } from '../configuration.ts';
 import { computeQueriesResponse } from './api_queries.ts';
 import { computeQueryHitsResponse } from './api_query_hits.ts';
+import { computeQueryHitsAggregateResponse } from './api_query_hits_aggregate.ts';
 import { Baselime } from '../baselime.ts';
 import { generateUuid } from '../uuid.ts';
 import { Limiter } from '../limiter.ts';
 import { tryMakeXfetcher } from '../xfetcher.ts';
+import { computeChainDestinationUrl } from '../chain_estimate.ts';
 
 export function tryParseApiRequest(opts: { instance: string, method: string, hostname: string, origin: string, pathname: string, searchParams: URLSearchParams, headers: Headers, bodyProvider: JsonProvider, colo: string | undefined, deploySha: string | undefined, deployTime: string | undefined }): ApiRequest | undefined {
     const { instance, method, hostname, origin, pathname, searchParams, headers, bodyProvider, colo, deploySha, deployTime } = opts;
@@ -57,7 +60,7 @@ export async function computeApiResponse(request: ApiRequest, opts: Opts): Promi
             if (method === 'OPTIONS') return new Response(undefined, { status: 204, headers: { 'access-control-allow-origin': '*', 'access-control-allow-methods': '*', 'access-control-allow-headers': '*' } });
     
             // first, we need to know who's calling
-            const identity = await computeIdentityResult({ bearerToken, searchParams, adminTokens, previewTokens, rpcClient });
+            const identity = await computeIdentityResult({ bearerToken, searchParams, adminTokens, previewTokens, rpcClient, path, colo });
             console.log(`computeApiResponse`, { method, path, identity: identityResultToJson(identity) });
             data.identity = `${identity.kind}-${identity.kind === 'invalid' ? identity.reason : [...identity.permissions].join('-') }`;
 
@@ -83,15 +86,23 @@ export async function computeApiResponse(request: ApiRequest, opts: Opts): Promi
                 // all other admin endpoints require admin
                 if (!hasAdmin) return newForbiddenJsonResponse();
     
-                if (path === '/admin/data') return await computeAdminDataResponse(method, bodyProvider, rpcClient, jobQueue, statsBlobs);
+                if (path === '/admin/data') return await computeAdminDataResponse(method, bodyProvider, rpcClient, jobQueue, statsBlobs, miscBlobs);
                 if (path === '/admin/rebuild-index') return await computeAdminRebuildResponse(method, bodyProvider, rpcClient);
                 if (path === '/admin/rpc') return await computeAdminRpcResponse(method, bodyProvider, rpcClient);
             }
+            if (!hasAdmin) {
+                // show-scoped tokens can only see data for their own shows
+                const lookupMediaUrls = (showUuid: string) => lookupShowMediaUrlsCached(showUuid, rpcClient);
+                const violation = await computeShowScopeViolation({ path, searchParams, shows: identity.shows, lookupMediaUrls });
+                if (violation) return newJsonResponse({ error: `forbidden: ${violation}` }, 403);
+            }
             if (path === '/redirect-logs') return await computeQueryRedirectLogsResponse(permissions, origin, method, searchParams, rpcClient, rawIpAddress);
             if (path === '/hits') return await computeQueryHitsResponse({ permissions, method, searchParams, rpcClient, roRpcClient, hitsBlobs, roHitsBlobs, backupBlobs, roBackupBlobs, rawIpAddress });
+            if (path === '/hits/aggregate') return await computeQueryHitsAggregateResponse({ permissions, method, searchParams, hitsBlobs, roHitsBlobs });
             if (path.startsWith('/downloads/')) return await computeApiQueryDownloadsResponse(permissions, method, path, searchParams, { statsBlobs, roStatsBlobs, colo, rpcClient });
             if (path === '/api-keys') return await computeApiKeysResponse({ instance, isAdmin: hasAdmin, method, hostname, bodyProvider, rawIpAddress, turnstileSecretKey, rpcClient });
             { const m = /^\/api-keys\/([0-9a-f]{32})$/.exec(path); if (m) return await computeApiKeyResponse(m[1], { instance, isAdmin: hasAdmin, method, hostname, bodyProvider, rawIpAddress, turnstileSecretKey, rpcClient }); }
+            { const m = /^\/api-keys\/([0-9a-f]{32})\/audit$/.exec(path); if (m) return await computeApiKeyAuditResponse(m[1], { isAdmin: hasAdmin, callerApiKey: identity.apiKey, method, searchParams, rpcClient }); }
             if (path === '/notifications') return await computeNotificationsResponse(permissions, method, bodyProvider, rpcClient); 
             if (path === '/feeds/search') return await computeFeedsSearchResponse(method, origin, bodyProvider, podcastIndexCredentials); 
             if (path === '/feeds/analyze') return await computeFeedsAnalyzeResponse(method, origin, bodyProvider, podcastIndexCredentials, rpcClient, roRpcClient, searchParams, background, xfetcher); 
@@ -99,6 +110,17 @@ export async function computeApiResponse(request: ApiRequest, opts: Opts): Promi
             { const m = /^\/shows\/([0-9a-f]{32}|[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}|[0-9a-zA-Z_-]{15,}=*)$/.exec(path); if (m && configuration) return await computeShowsResponse({ showUuidOrPodcastGuidOrFeedUrlBase64: m[1], method, searchParams, rpcClient, roRpcClient, configuration, origin }); }
             { const m = /^\/shows\/([0-9a-f]{32})\/stats$/.exec(path); if (m && configuration) return await computeShowStatsResponse({ showUuid: m[1], method, searchParams, statsBlobs, roStatsBlobs, configuration }); }
             { const m = /^\/shows\/([0-9a-f]{32})\/summary-stats$/.exec(path); if (m && configuration) return await computeShowSummaryStatsResponse({ showUuid: m[1], method, searchParams, statsBlobs, roStatsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/listens$/.exec(path); if (m && configuration) return await computeShowListensResponse({ showUuid: m[1], method, bodyProvider, permissions, rpcClient, limiter, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/episode-pacing(\.csv)?$/.exec(path); if (m && configuration) return await computeShowEpisodePacingResponse({ showUuid: m[1], method, searchParams, format: m[2] ? 'csv' : 'json', rpcClient, roRpcClient, statsBlobs, roStatsBlobs, configuration, origin }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/episode-retention\.csv$/.exec(path); if (m && configuration) return await computeShowEpisodeRetentionResponse({ showUuid: m[1], method, searchParams, statsBlobs, roStatsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/episode-coverage$/.exec(path); if (m && configuration) return await computeShowEpisodeCoverageResponse({ showUuid: m[1], method, searchParams, statsBlobs, roStatsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/webhooks$/.exec(path); if (m && configuration) return await computeShowWebhooksResponse({ showUuid: m[1], method, searchParams, bodyProvider, permissions, shows: identity.shows, rpcClient, statsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/webhooks\/([0-9a-f]{32})$/.exec(path); if (m && configuration) return await computeShowWebhookResponse({ showUuid: m[1], webhookId: m[2], method, searchParams, bodyProvider, permissions, shows: identity.shows, rpcClient, statsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/bot-replays$/.exec(path); if (m && configuration) return await computeShowBotReplaysResponse({ showUuid: m[1], method, searchParams, permissions, statsBlobs, roStatsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/feed-history$/.exec(path); if (m && configuration) return await computeShowFeedHistoryResponse({ showUuid: m[1], method, searchParams, permissions, rpcClient, roRpcClient, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/alerts$/.exec(path); if (m && configuration) return await computeShowAlertsResponse({ showUuid: m[1], method, searchParams, bodyProvider, permissions, shows: identity.shows, rpcClient, roRpcClient, statsBlobs, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/chain-audit$/.exec(path); if (m && configuration) return await computeShowChainAuditResponse({ showUuid: m[1], method, searchParams, permissions, shows: identity.shows, rpcClient, roRpcClient, configuration }); }
+            { const m = /^\/shows\/([0-9a-f]{32})\/webhook-deliveries$/.exec(path); if (m && configuration) return await computeShowWebhookDeliveriesResponse({ showUuid: m[1], method, searchParams, bodyProvider, permissions, shows: identity.shows, rpcClient, statsBlobs, configuration }); }
             { const m = /^\/queries\/([0-9a-z-]+)$/.exec(path); if (m && configuration) return await computeQueriesResponse({ name: m[1], method, searchParams, miscBlobs, roMiscBlobs, configuration, rpcClient, roRpcClient, statsBlobs, roStatsBlobs }); }
         
             // unknown api endpoint
@@ -131,7 +153,7 @@ export async function computeApiResponse(request: ApiRequest, opts: Opts): Promi
     return response;
 }
 
-export async function routeAdminDataRequest(request: Unkinded<AdminDataRequest>, rpcClient: RpcClient, statsBlobs: Blobs | undefined): Promise<Unkinded<AdminDataResponse>> {
+export async function routeAdminDataRequest(request: Unkinded<AdminDataRequest>, rpcClient: RpcClient, statsBlobs: Blobs | undefined, miscBlobs: Blobs | undefined): Promise<Unkinded<AdminDataResponse>> {
     const { operationKind, targetPath, parameters, dryRun } = request;
     if (operationKind === 'select' && targetPath === '/registry') {
         return await rpcClient.adminExecuteDataQuery({ operationKind, targetPath, parameters, dryRun }, DoNames.registry);
@@ -176,6 +198,19 @@ export async function routeAdminDataRequest(request: Unkinded<AdminDataRequest>,
             return { results: [ result ] };
         }
     }
+
+    const rbtr = tryParseReplayBotTypesRequest({ operationKind, targetPath, parameters });
+    if (rbtr && parameters) {
+        const { backend } = parameters;
+        if (backend) {
+            const doName = DoNames.storagelessForSuffix(backend);
+            return await rpcClient.adminExecuteDataQuery({ operationKind, targetPath, parameters, dryRun }, doName);
+        } else {
+            if (statsBlobs === undefined) throw new Error(`replayBotTypes: statsBlobs is required`);
+            const result = await replayBotTypes(rbtr, { statsBlobs, miscBlobs });
+            return { results: [ result ] };
+        }
+    }
     
     const doName = tryParseDurableObjectRequest(targetPath);
     if (doName) {
@@ -193,18 +228,60 @@ export async function routeAdminDataRequest(request: Unkinded<AdminDataRequest>,
     throw new StatusError(`Unsupported operationKind ${operationKind} and targetPath ${targetPath}`);
 }
 
-export async function computeIdentityResult({ bearerToken, searchParams, adminTokens, previewTokens, rpcClient }: { bearerToken: string | undefined, searchParams: URLSearchParams, adminTokens: Set<string>, previewTokens: Set<string>, rpcClient: RpcClient }): Promise<IdentityResult> {
+export async function computeIdentityResult({ bearerToken, searchParams, adminTokens, previewTokens, rpcClient, path, colo }: { bearerToken: string | undefined, searchParams: URLSearchParams, adminTokens: Set<string>, previewTokens: Set<string>, rpcClient: RpcClient, path?: string, colo?: string }): Promise<IdentityResult> {
     const token = typeof bearerToken === 'string' ? bearerToken : searchParams.get('token') ?? undefined;
     if (token === undefined) return { kind: 'invalid', reason: 'missing-token' };
     if (adminTokens.has(token)) return { kind: 'valid', permissions: new Set([ 'admin' ]), shows: new Set() };
     if (previewTokens.has(token)) return { kind: 'valid', permissions: new Set([ 'preview' ]), shows: new Set() };
-    const res = await rpcClient.resolveApiToken({ token }, DoNames.apiKeyServer);
-    if (res.permissions !== undefined) return { kind: 'valid', permissions: new Set(res.permissions), shows: new Set(res.shows) };
+    const res = await rpcClient.resolveApiToken({ token, path, colo }, DoNames.apiKeyServer);
+    if (res.permissions !== undefined) return { kind: 'valid', permissions: new Set(res.permissions), shows: new Set(res.shows), apiKey: res.apiKey };
     if (res.reason === 'blocked') return { kind: 'invalid', reason: 'blocked-token' };
     if (res.reason === 'expired') return { kind: 'invalid', reason: 'expired-token' };
     return { kind: 'invalid', reason: 'invalid-token' };
 }
 
+/**
+ * Returns the reason a call is outside of a show-scoped token's shows, or undefined if allowed.
+ *
+ * Tokens without any shows are not show-scoped.
+ * Show-scoped tokens are denied any endpoint not explicitly scoped below.
+ */
+export async function computeShowScopeViolation({ path, searchParams, shows, lookupMediaUrls }: { path: string, searchParams: URLSearchParams, shows: ReadonlySet<string>, lookupMediaUrls: (showUuid: string) => Promise<ShowMediaUrls> }): Promise<string | undefined> {
+    if (shows.size === 0) return undefined;
+    const notScopedTo = (showUuid: string) => `token is not scoped to show ${showUuid}`;
+
+    if (path === '/hits' || path === '/hits/aggregate' || path === '/redirect-logs') {
+        // hits are not stored by show, only allow url filters for the known feed media urls of the token's shows
+        // wildcards are only allowed under a media url prefix known to belong to a single show, since many hosts serve every show from one flat path
+        const otherFilters = [ 'urlSha256', 'userAgent', 'referer', 'hashedIpAddress', 'edgeColo', 'ulid', 'xpsId', 'method' ].filter(v => searchParams.has(v));
+        if (otherFilters.length > 0) return `show-scoped tokens can only filter by url, found: ${otherFilters.join(', ')}`;
+        const url = searchParams.get('url');
+        if (url === null) return `show-scoped tokens must filter by url`;
+        const wildcard = url.endsWith('*');
+        const urlWithoutWildcard = wildcard ? url.substring(0, url.length - 1) : url;
+        if (urlWithoutWildcard.includes('*') || /\/\.\.?(\/|$)/.test(urlWithoutWildcard)) return `url is not a known feed media url of the token's shows`;
+        const destinationUrl = stripScheme(computeChainDestinationUrl(urlWithoutWildcard) ?? urlWithoutWildcard);
+        for (const showUuid of shows) {
+            const { urls, prefixes } = await lookupMediaUrls(showUuid);
+            if (prefixes.some(v => destinationUrl.startsWith(stripScheme(v)))) return undefined;
+            if (!wildcard && urls.some(v => destinationUrl === stripScheme(v))) return undefined;
+        }
+        return wildcard ? `url wildcard is not under a media url prefix unique to the token's shows` : `url is not a known feed media url of the token's shows`;
+    }
+    { const m = /^\/shows\/([^\/]+)(\/.*)?$/.exec(path); if (m) return shows.has(m[1]) ? undefined : /^[0-9a-f]{32}$/.test(m[1]) ? notScopedTo(m[1]) : `show-scoped tokens must refer to shows by show uuid`; }
+    { const m = /^\/downloads\/show\/(.*?)$/.exec(path); if (m) return shows.has(m[1]) ? undefined : notScopedTo(m[1]); }
+    { const m = /^\/queries\/([0-9a-z-]+)$/.exec(path); if (m) {
+        if (!SHOW_QUERIES.includes(m[1])) return `show-scoped tokens can only run show queries`;
+        if (searchParams.has('podcastGuid') || searchParams.has('feedUrlBase64')) return `show-scoped tokens must refer to shows by showUuid`;
+        const showUuids = searchParams.getAll('showUuid');
+        if (showUuids.length === 0) return `show-scoped tokens must refer to shows by showUuid`;
+        const showUuid = showUuids.find(v => !shows.has(v));
+        return showUuid === undefined ? undefined : notScopedTo(showUuid);
+    } }
+    { const m = /^\/api-keys\/([0-9a-f]{32})\/audit$/.exec(path); if (m) return undefined; } // limited to the token's own api key
+    return `show-scoped tokens cannot call ${path}`;
+}
+
 export function computeNamespaceSuffix(path: string): string {
     if (typeof path !== 'string') return '-unknown';
     if (path === '' || path === '/') return '';
@@ -242,6 +319,7 @@ export interface ValidIdentityResult {
     readonly kind: 'valid';
     readonly permissions: ReadonlySet<ApiTokenPermission>;
     readonly shows: ReadonlySet<string>;
+    readonly apiKey?: string; // only for api key tokens
 }
 
 export interface InvalidIdentityResult {
@@ -249,13 +327,25 @@ export interface InvalidIdentityResult {
     readonly reason: 'missing-token' | 'invalid-token' | 'blocked-token' | 'expired-token';
 }
 
+export interface ShowMediaUrls {
+    readonly urls: readonly string[]; // destination media urls from the show's feeds
+    readonly prefixes: readonly string[]; // destination url prefixes verified to contain only this show's media
+}
+
+export function isValidShowMediaUrls(obj: unknown): obj is ShowMediaUrls {
+    return isStringRecord(obj)
+        && Array.isArray(obj.urls) && obj.urls.every(isString)
+        && Array.isArray(obj.prefixes) && obj.prefixes.every(isString)
+        ;
+}
+
 export function identityResultToJson(result: IdentityResult) {
-    return result.kind === 'valid' ? { kind: result.kind, permissions: [...result.permissions], shows: [...result.shows] } : result;
+    return result.kind === 'valid' ? { kind: result.kind, permissions: [...result.permissions], shows: [...result.shows], apiKey: result.apiKey } : result;
 }
 
 //
 
-async function computeAdminDataResponse(method: string, bodyProvider: JsonProvider, rpcClient: RpcClient, jobQueue: Queue | undefined, statsBlobs: Blobs | undefined): Promise<Response> {
+async function computeAdminDataResponse(method: string, bodyProvider: JsonProvider, rpcClient: RpcClient, jobQueue: Queue | undefined, statsBlobs: Blobs | undefined, miscBlobs: Blobs | undefined): Promise<Response> {
     if (method !== 'POST') return newMethodNotAllowedResponse(method);
 
     const { operationKind, targetPath, dryRun, parameters, enqueue } = await bodyProvider();
@@ -273,7 +363,7 @@ async function computeAdminDataResponse(method: string, bodyProvider: JsonProvid
         return newJsonResponse({ message: `Enqueued in ${Date.now() - start}ms` });
     } else {
         try {
-            const { results, message } = await routeAdminDataRequest({ operationKind, targetPath, dryRun, parameters }, rpcClient, statsBlobs);
+            const { results, message } = await routeAdminDataRequest({ operationKind, targetPath, dryRun, parameters }, rpcClient, statsBlobs, miscBlobs);
             return newJsonResponse({ results, message });
         } catch (e) {
             if (parameters?.expectStorageTimeout === 'true' && `${(e as Error).stack || e}`.includes('storage operation exceeded timeout')) {
@@ -416,3 +506,22 @@ async function computeSessionTokensResponse(method: string, origin: string, body
     const sessionToken = await computeSessionToken(claims, podcastIndexCredentials);
     return newJsonResponse({ sessionToken });
 }
+
+const SHOW_QUERIES = [ 'top-apps-for-show', 'show-download-counts', 'episode-download-counts', 'show-value-splits' ]; // queries limited to the shows given by showUuid
+const MEDIA_URLS_CACHE = new Map<string, { mediaUrls: ShowMediaUrls, fetched: number }>(); // showUuid -> media urls, for show-scoped hits queries
+const MEDIA_URLS_CACHE_MILLIS = 1000 * 60 * 5;
+const MAX_MEDIA_URLS_CACHE_SIZE = 1000;
+
+async function lookupShowMediaUrlsCached(showUuid: string, rpcClient: RpcClient): Promise<ShowMediaUrls> {
+    const now = Date.now();
+    const cached = MEDIA_URLS_CACHE.get(showUuid);
+    if (cached && now - cached.fetched < MEDIA_URLS_CACHE_MILLIS) return cached.mediaUrls;
+    const mediaUrls = ((await rpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/show/shows/${showUuid}/media-urls` }, DoNames.showServer)).results ?? []).find(isValidShowMediaUrls) ?? { urls: [], prefixes: [] };
+    if (MEDIA_URLS_CACHE.size >= MAX_MEDIA_URLS_CACHE_SIZE) MEDIA_URLS_CACHE.clear();
+    MEDIA_URLS_CACHE.set(showUuid, { mediaUrls, fetched: now });
+    return mediaUrls;
+}
+
+function stripScheme(url: string): string {
+    return url.replace(/^https?:\/\//i, '');
+}
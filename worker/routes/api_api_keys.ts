@@ -1,6 +1,7 @@
 import { DoNames } from '../do_names.ts';
-import { newJsonResponse, newMethodNotAllowedResponse } from '../responses.ts';
-import { isUnkindedModifyApiKeyRequest, RpcClient } from '../rpc_model.ts';
+import { tryParseInt } from '../check.ts';
+import { newForbiddenJsonResponse, newJsonResponse, newMethodNotAllowedResponse } from '../responses.ts';
+import { isApiKeyAuditRecord, isUnkindedModifyApiKeyRequest, RpcClient } from '../rpc_model.ts';
 import { isValidUuid } from '../uuid.ts';
 import { JsonProvider } from './api.ts';
 
@@ -19,9 +20,9 @@ export async function computeApiKeysResponse({ instance, isAdmin, method, hostna
 
     // looks good, generate or lookup an api key
     const res = apiKeyFromInput ? await rpcClient.getApiKey({ apiKey: apiKeyFromInput }, DoNames.apiKeyServer) : await rpcClient.generateNewApiKey({ }, DoNames.apiKeyServer);
-    const { info: { apiKey, status, created, permissions, shows, name, token, tokenLastUsed, blockReason } } = res;
+    const { info: { apiKey, status, created, permissions, shows, name, token, tokenLastUsed, tokenExpires, blockReason, tokenExpiryDays, rotationGraceHours, rotationEnds } } = res;
 
-    return newJsonResponse({ apiKey, status, created, permissions, shows, name, token, tokenLastUsed, blockReason });
+    return newJsonResponse({ apiKey, status, created, permissions, shows, name, token, tokenLastUsed, tokenExpires, blockReason, tokenExpiryDays, rotationGraceHours, rotationEnds });
 }
 
 export async function computeApiKeyResponse(apiKeyInput: string, { instance, isAdmin, method, hostname, bodyProvider, rawIpAddress, turnstileSecretKey, rpcClient }: ApiKeysRequestOpts): Promise<Response> {
@@ -40,9 +41,23 @@ export async function computeApiKeyResponse(apiKeyInput: string, { instance, isA
     }
 
     // looks good, modify the api key
-    const { info: { apiKey, created, updated, name, permissions, shows, status, token, tokenLastUsed, blockReason } } = await rpcClient.modifyApiKey(req, DoNames.apiKeyServer);
+    const { info: { apiKey, created, updated, name, permissions, shows, status, token, tokenLastUsed, tokenExpires, blockReason, tokenExpiryDays, rotationGraceHours, rotationEnds } } = await rpcClient.modifyApiKey(req, DoNames.apiKeyServer);
 
-    return newJsonResponse({ apiKey, created, updated, name, permissions, shows, status, token, tokenLastUsed, blockReason });
+    return newJsonResponse({ apiKey, created, updated, name, permissions, shows, status, token, tokenLastUsed, tokenExpires, blockReason, tokenExpiryDays, rotationGraceHours, rotationEnds });
+}
+
+export async function computeApiKeyAuditResponse(apiKey: string, { isAdmin, callerApiKey, method, searchParams, rpcClient }: { isAdmin: boolean, callerApiKey: string | undefined, method: string, searchParams: URLSearchParams, rpcClient: RpcClient }): Promise<Response> {
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    // only admins, or a token belonging to the api key itself
+    if (!isAdmin && callerApiKey !== apiKey) return newForbiddenJsonResponse();
+
+    const { limit = '100' } = Object.fromEntries(searchParams);
+    const limitNum = tryParseInt(limit);
+    if (limitNum === undefined || limitNum < 1 || limitNum > 1000) return newJsonResponse({ error: `Bad limit: ${limit}, expected 1-1000` }, 400);
+
+    const { results = [] } = await rpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/api-keys/audit/${apiKey}`, parameters: { limit: limitNum.toString() } }, DoNames.apiKeyServer);
+    const entries = results.filter(isApiKeyAuditRecord);
+    return newJsonResponse({ apiKey, entries });
 }
 
 //
@@ -10,6 +10,12 @@ export const QUERY_HITS = {
     limitMin: 0,
 }
 
+export const QUERY_HITS_AGGREGATE = {
+    limitDefault: 10000, // hits scanned per response
+    limitMax: 50000,
+    limitMin: 1,
+}
+
 export const QUERY_DOWNLOADS = {
     limitDefault: 100,
     limitMax: 20000,
@@ -22,4 +28,9 @@ export const QUERY_RECENT_EPISODES_WITH_TRANSCRIPTS = {
     limitMin: 1,
 }
 
+export const QUERY_SHOW_VALUE_SPLITS = {
+    monthsDefault: 12,
+    monthsMax: 24,
+}
+
 export const computeApiVersion = (instance: string): string => `0.1.0${instance === 'prod' ? '' : `-${instance}`}`;
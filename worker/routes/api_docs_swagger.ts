@@ -1,5 +1,6 @@
 import { Configuration } from '../configuration.ts';
-import { QUERY_DOWNLOADS, QUERY_RECENT_EPISODES_WITH_TRANSCRIPTS, QUERY_HITS, computeApiVersion } from './api_contract.ts';
+import { HITS_AGGREGATE_DIMENSIONS } from '../backend/hits_aggregate.ts';
+import { QUERY_DOWNLOADS, QUERY_RECENT_EPISODES_WITH_TRANSCRIPTS, QUERY_HITS, QUERY_HITS_AGGREGATE, QUERY_SHOW_VALUE_SPLITS, computeApiVersion } from './api_contract.ts';
 import { computeNonProdWarning } from './instances.ts';
 
 export async function computeApiDocsSwaggerResponse(opts: { instance: string, origin: string, previewTokens: Set<string>, configuration: Configuration | undefined, searchParams: URLSearchParams }): Promise<Response> {
@@ -104,7 +105,7 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                         "hits"
                     ],
                     "summary": "Query hits",
-                    "description": `Perform a query of every request ("hit") logged using the redirect.\n\nThis can be used to verify that requests are stored properly in the system.\n\nResults are returned in ascending order by time (plus uuid to break ties for multiple requests in the same millisecond) unless the \`desc\` param is specified.\n\nYou can filter by a time range and one additional optional dimension (\`url\` or \`hashedIpAddress\`, which only have data for the last 90 days).${queryHitsDescriptionSuffix}`,
+                    "description": `Perform a query of every request ("hit") logged using the redirect.\n\nThis can be used to verify that requests are stored properly in the system.\n\nResults are returned in ascending order by time (plus uuid to break ties for multiple requests in the same millisecond) unless the \`desc\` param is specified.\n\nYou can filter by a time range and one additional optional dimension (\`url\`, \`hashedIpAddress\`, \`ulid\`, \`xpsId\`, \`userAgent\` or \`referer\`, which only have data for the last 90 days).${queryHitsDescriptionSuffix}`,
                     "operationId": "queryHits",
                     "produces": [
                         "application/json",
@@ -121,7 +122,7 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                         {
                             "name": "format",
                             "in": "query",
-                            "description": "Output format\n\nDefaults to tab-separated text (`tsv`), but also supports a object-based `json` format (aka `json-o`) or a more compact array-based `json-a` format.",
+                            "description": "Output format\n\nDefaults to tab-separated text (`tsv`), but also supports a object-based `json` format (aka `json-o`), a more compact array-based `json-a` format, newline-delimited `ndjson` objects, or an Apache `parquet` file (typed `time` and `asn` columns, dictionary-encoded `agentName` and country columns).",
                             "required": false,
                             "default": "tsv",
                             "enum": [
@@ -129,6 +130,8 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                                 "json",
                                 "json-o",
                                 "json-a",
+                                "ndjson",
+                                "parquet",
                             ]
                         },
                         {
@@ -185,6 +188,42 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                             "required": false,
                             "type": "40-character hex",
                         },
+                        {
+                            "name": "ulid",
+                            "in": "query",
+                            "description": "Filter by a specific \`_ulid\` query param value sent by the podcast app",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "xpsId",
+                            "in": "query",
+                            "description": "Filter by a specific \`x-playback-session-id\` request header value sent by the podcast app",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "userAgent",
+                            "in": "query",
+                            "description": "Filter by an exact \`User-Agent\` request header value",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "referer",
+                            "in": "query",
+                            "description": "Filter by an exact \`Referer\` request header value",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "continuationToken",
+                            "in": "query",
+                            "description": "Continue a prior \`ulid\`, \`xpsId\`, \`userAgent\` or \`referer\` query if necessary\n\nLong scans may stop early with fewer rows than the limit, and return a token to continue from",
+                            "required": false,
+                            "type": "string",
+                            "format": "Opaque token from a prior query response",
+                        },
                         {
                             "name": "desc",
                             "in": "query",
@@ -208,6 +247,119 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                     ]
                 }
             },
+            "/hits/aggregate": {
+                "get": {
+                    "tags": [
+                        "hits"
+                    ],
+                    "summary": "Aggregate hits",
+                    "description": `Count hits in a time range, grouped by one or more dimensions.\n\nHits are scanned in ascending time order, and each response scans at most \`limit\` hits, whether or not they match the \`url\` filter.\n\nIf the scan stops before the end of the range, the response includes a \`continuationToken\`: counts in that response are partial, only covering the hits scanned so far. Pass the token in the next query and sum the counts across all responses for the full range.`,
+                    "operationId": "aggregateHits",
+                    "produces": [
+                        "application/json",
+                        "text/tab-separated-values"
+                    ],
+                    "parameters": [
+                        {
+                            "name": "token",
+                            "in": "query",
+                            "description": "Pass your bearer token either: \n - as an authorization header: `Authorization: Bearer mytoken`\n - or using this query param: `?token=mytoken`\n\nSee the [Authentication](#section/Authentication) section above for how to obtain a token.",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "groupBy",
+                            "in": "query",
+                            "description": `Comma-separated dimensions to group by: ${HITS_AGGREGATE_DIMENSIONS.map(v => `\`${v}\``).join(', ')}\n\nIf not provided, returns a single total count`,
+                            "example": "country,agentName",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "format",
+                            "in": "query",
+                            "description": "Output format\n\nDefaults to tab-separated text (`tsv`), but also supports a object-based `json` format (aka `json-o`), a more compact array-based `json-a` format, newline-delimited `ndjson` objects, or an Apache `parquet` file.",
+                            "required": false,
+                            "default": "tsv",
+                            "enum": [
+                                "tsv",
+                                "json",
+                                "json-o",
+                                "json-a",
+                                "ndjson",
+                                "parquet",
+                            ]
+                        },
+                        {
+                            "name": "limit",
+                            "in": "query",
+                            "description": "Maximum number of hits to scan in this response (not the number of rows returned, or the number of hits counted)",
+                            "required": false,
+                            "type": "integer",
+                            "maximum": QUERY_HITS_AGGREGATE.limitMax,
+                            "minimum": QUERY_HITS_AGGREGATE.limitMin,
+                            "default": QUERY_HITS_AGGREGATE.limitDefault,
+                        },
+                        {
+                            "name": "start",
+                            "in": "query",
+                            "description": "Filter by start time (inclusive) using a timestamp, date, or relative time (e.g. `-24h`)\n\nYou must specify either `start` or `startAfter`, not both",
+                            "example": "2022-09-15T14:00:52.709Z",
+                            "required": false,
+                            "type": "string",
+                            "format": "ISO 8601 timestamp, date, or relative duration",
+                        },
+                        {
+                            "name": "startAfter",
+                            "in": "query",
+                            "description": "Filter by start time (exclusive) using a timestamp, date, or relative time (e.g. `-24h`)\n\nYou must specify either `start` or `startAfter`, not both",
+                            "example": "2022-09-15T14:00:52.709Z",
+                            "required": false,
+                            "type": "string",
+                            "format": "ISO 8601 timestamp, date, or relative duration",
+                        },
+                        {
+                            "name": "end",
+                            "in": "query",
+                            "description": "Filter by end time (exclusive) using a timestamp, date, or relative time (e.g. `-24h`)",
+                            "example": "2022-09-15T14:00:52.709Z",
+                            "required": false,
+                            "type": "string",
+                            "format": "ISO 8601 timestamp, date, or relative duration",
+                        },
+                        {
+                            "name": "url",
+                            "in": "query",
+                            "description": `Only count hits for a specific episode url\n\nAlso supports trailing wildcards, i.e. "starts with" queries.\n\nExample: \`url=${origin}/e/example.com/path/to/*\``,
+                            "example": `${origin}/e/example.com/path/to/episode.mp3`,
+                            "required": false,
+                            "type": "string",
+                            "format": "url",
+                        },
+                        {
+                            "name": "continuationToken",
+                            "in": "query",
+                            "description": "Continue scanning after a prior partial response",
+                            "required": false,
+                            "type": "string",
+                            "format": "Opaque token from a prior query response",
+                        },
+                    ],
+                    "responses": {
+                        "200": {
+                            "description": "successful operation",
+                            "schema": {
+                                "$ref": "#/definitions/QueryHitsAggregateResponse"
+                            }
+                        }
+                    },
+                    "security": [
+                        {
+                            "bearer_token_or_token_query_param": []
+                        }
+                    ]
+                }
+            },
             "/downloads/show/{showUuid}": {
                 "get": {
                     "tags": [
@@ -240,7 +392,7 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                         {
                             "name": "format",
                             "in": "query",
-                            "description": "Output format\n\nDefaults to tab-separated text (`tsv`), but also supports a object-based `json` format (aka `json-o`) or a more compact array-based `json-a` format.",
+                            "description": "Output format\n\nDefaults to tab-separated text (`tsv`), but also supports a object-based `json` format (aka `json-o`), a more compact array-based `json-a` format, newline-delimited `ndjson` objects, or an Apache `parquet` file (typed `time` and `asn` columns, dictionary-encoded `agentName` and country columns).",
                             "required": false,
                             "default": "tsv",
                             "enum": [
@@ -248,6 +400,8 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                                 "json",
                                 "json-o",
                                 "json-a",
+                                "ndjson",
+                                "parquet",
                             ]
                         },
                         {
@@ -319,7 +473,7 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                         {
                             "name": "continuationToken",
                             "in": "query",
-                            "description": "Continue a prior query if necessary",
+                            "description": "Continue a prior query if necessary\n\nThe \`ndjson\` and \`parquet\` formats stream rows as they are read, so the token to pass here comes after the last row of the prior response: as a final \`{\"continuationToken\": ...}\` line, or in the parquet file key-value metadata",
                             "required": false,
                             "type": "string",
                             "format": "Opaque token from a prior query response",
@@ -653,6 +807,68 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                     ]
                 }
             },
+            "/queries/show-value-splits": {
+                "get": {
+                    "tags": [
+                        "queries"
+                    ],
+                    "summary": "Query value-for-value splits alongside episode downloads",
+                    "description": [
+                        `Get each episode's \`<podcast:value>\` split configuration history, joined with its monthly downloads.\n\nExcludes bots. Updated daily.\n\n`,
+                        `Recipient totals attribute each month's downloads using the split configuration in effect at the end of that month: fee recipients take their split as a percentage off the top, the remainder is shared in proportion to the other recipients' splits.`,
+                    ].join(''),
+                    "operationId": "queryShowValueSplits",
+                    "produces": [
+                        "application/json",
+                    ],
+                    "parameters": [
+                        {
+                            "name": "token",
+                            "in": "query",
+                            "description": "Pass your bearer token either: \n - as an authorization header: `Authorization: Bearer mytoken`\n - or using this query param: `?token=mytoken`\n\nSee the [Authentication](#section/Authentication) section above for how to obtain a token.",
+                            "required": false,
+                            "type": "string",
+                        },
+                        {
+                            "name": "showUuid",
+                            "in": "query",
+                            "description": "Specify the show by OP3 show uuid.\n\nIf you don't have this, you can look it up for a given podcast using [View Show Information](#tag/shows/operation/viewShowInformation).",
+                            "required": true,
+                            "type": "string",
+                            "format": "32-character hex",
+                        },
+                        {
+                            "name": "start",
+                            "in": "query",
+                            "description": `First month to include (inclusive).\n\nDefaults to ${QUERY_SHOW_VALUE_SPLITS.monthsDefault - 1} months before \`end\`, at most ${QUERY_SHOW_VALUE_SPLITS.monthsMax} months can be included.`,
+                            "required": false,
+                            "type": "string",
+                            "format": "YYYY-MM",
+                        },
+                        {
+                            "name": "end",
+                            "in": "query",
+                            "description": "Last month to include (inclusive).\n\nDefaults to the current month.",
+                            "required": false,
+                            "type": "string",
+                            "format": "YYYY-MM",
+                        },
+                    ],
+                    "responses": {
+                        "200": {
+                            "description": "successful operation",
+                            "schema": {
+                                "$ref": "#/definitions/QueryShowValueSplitsResponse"
+                            }
+                        }
+                    },
+                    "security": [
+                        {
+                            "bearer_token_or_token_query_param": []
+                        }
+                    ]
+                }
+            },
         },
         
         "securityDefinitions": {
@@ -680,9 +896,47 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                     "queryTime": {
                         "type": "integer",
                         "description": "Query server processing time, in milliseconds"
+                    },
+                    "continuationToken": {
+                        "type": "string",
+                        "description": "Present if a \`ulid\`, \`xpsId\`, \`userAgent\` or \`referer\` query stopped early. Pass this opaque value as the \`continuationToken\` parameter in the next query to see the next page"
+                    }
+                }
+            },
+            "QueryHitsAggregateResponse": {
+                "type": "object",
+                "properties": {
+                    "rows": {
+                        "type": "array",
+                        "items": {
+                            "$ref": "#/definitions/QueryHitsAggregateResponse.Group"
+                        },
+                        "description": "One row per group, most hits first"
+                    },
+                    "count": {
+                        "type": "integer",
+                        "description": "Number of groups in the response"
+                    },
+                    "queryTime": {
+                        "type": "integer",
+                        "description": "Query server processing time, in milliseconds"
+                    },
+                    "continuationToken": {
+                        "type": "string",
+                        "description": "Present if the scan stopped before the end of the range, meaning the counts in this response are partial. Pass this opaque value as the \`continuationToken\` parameter in the next query to count the rest"
                     }
                 }
             },
+            "QueryHitsAggregateResponse.Group": {
+                "type": "object",
+                "description": "Has one property per \`groupBy\` dimension, plus the count",
+                "properties": {
+                    "hits": {
+                        "type": "integer",
+                        "description": "Number of matching hits in this group, among those scanned for this response"
+                    },
+                }
+            },
             "QueryHitsResponse.Hit": {
                 "type": "object",
                 "properties": {
@@ -883,6 +1137,56 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                         "description": "Publication time of the episode",
                         "format": "ISO 8601 timestamp",
                     },
+                    "itemGuid": {
+                        "type": "string",
+                        "description": "Episode guid, from the feed item"
+                    },
+                    "enclosureLength": {
+                        "type": "integer",
+                        "description": "Size of the episode's media file in bytes, if provided in the feed"
+                    },
+                    "enclosureType": {
+                        "type": "string",
+                        "description": "Content type of the episode's media file, if provided in the feed"
+                    },
+                    "episodeType": {
+                        "type": "string",
+                        "description": "`full`, `trailer` or `bonus`, from [`itunes:episodeType`](https://help.apple.com/itc/podcasts_connect/#/itcb54353390) or a channel-level [`podcast:trailer`](https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#trailer)"
+                    },
+                    "season": {
+                        "type": "integer",
+                        "description": "Season number, from [`podcast:season`](https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#season)"
+                    },
+                    "seasonName": {
+                        "type": "string",
+                        "description": "Season name, if provided"
+                    },
+                    "episode": {
+                        "type": "number",
+                        "description": "Episode number, from [`podcast:episode`](https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#episode)"
+                    },
+                    "episodeDisplay": {
+                        "type": "string",
+                        "description": "Episode display label, if provided"
+                    },
+                    "persons": {
+                        "type": "array",
+                        "items": {
+                            "type": "object",
+                        },
+                        "description": "People associated with the episode (`name`, `role`, `group`), from [`podcast:person`](https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#person)"
+                    },
+                    "soundbites": {
+                        "type": "array",
+                        "items": {
+                            "type": "object",
+                        },
+                        "description": "Soundbites (`startTime`, `duration` in seconds, `title`), from [`podcast:soundbite`](https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#soundbite)"
+                    },
+                    "location": {
+                        "type": "string",
+                        "description": "Location name, from [`podcast:location`](https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md#location)"
+                    },
                 },
                 "required": [
                     "id"
@@ -1096,6 +1400,134 @@ const computeSwagger = (origin: string, host: string, version: string, descripti
                     "itemGuid", "title", "pubdate", "downloadsAll"
                 ]
             },
+            "QueryShowValueSplitsResponse": {
+                "type": "object",
+                "properties": {
+                    "showUuid": {
+                        "type": "string",
+                        "description": "OP3 show uuid",
+                        "format": "32-character hex",
+                    },
+                    "showTitle": {
+                        "type": "string",
+                        "description": "Title of the show",
+                    },
+                    "start": {
+                        "type": "string",
+                        "description": "First month requested",
+                        "format": "YYYY-MM",
+                    },
+                    "end": {
+                        "type": "string",
+                        "description": "Last month requested",
+                        "format": "YYYY-MM",
+                    },
+                    "months": {
+                        "type": "array",
+                        "items": {
+                            "type": "string",
+                        },
+                        "description": "Months with download data included in the response",
+                    },
+                    "downloads": {
+                        "type": "integer",
+                        "description": "Total episode downloads in these months",
+                    },
+                    "unattributedDownloads": {
+                        "type": "integer",
+                        "description": "Episode downloads without a value configuration in effect",
+                    },
+                    "episodes": {
+                        "type": "array",
+                        "items": {
+                            "$ref": "#/definitions/QueryShowValueSplitsResponse.Episode"
+                        },
+                        "description": "Episodes with downloads or a value configuration, newest to oldest"
+                    },
+                    "recipients": {
+                        "type": "array",
+                        "items": {
+                            "$ref": "#/definitions/QueryShowValueSplitsResponse.Recipient"
+                        },
+                        "description": "Value recipients, most attributed downloads first"
+                    },
+                    "queryTime": {
+                        "type": "integer",
+                        "description": "Query server processing time, in milliseconds"
+                    }
+                },
+                "required": [
+                    "showUuid", "start", "end", "months", "downloads", "unattributedDownloads", "episodes", "recipients", "queryTime"
+                ]
+            },
+            "QueryShowValueSplitsResponse.Episode": {
+                "type": "object",
+                "properties": {
+                    "itemGuid": {
+                        "type": "string",
+                        "description": "The episode's item-level `<guid>` tag value",
+                    },
+                    "title": {
+                        "type": "string",
+                        "description": "The episode's item-level `<title>` tag value",
+                    },
+                    "pubdate": {
+                        "type": "string",
+                        "description": "Publication time of the episode",
+                        "format": "ISO 8601 timestamp",
+                    },
+                    "downloads": {
+                        "type": "integer",
+                        "description": "Downloads in the requested months",
+                    },
+                    "monthlyDownloads": {
+                        "type": "object",
+                        "description": "Downloads by month (e.g. `2024-03`)",
+                    },
+                    "valueHistory": {
+                        "type": "array",
+                        "items": {
+                            "type": "object",
+                        },
+                        "description": "Value configurations seen for this episode, oldest first. Each has a `since` timestamp, `source` (`item`, or `channel` if inherited), `method`, `type` and `recipients` (`name`, `type`, `address`, numeric `split`, optional `fee`, `customKey` and `customValue`)",
+                    },
+                },
+                "required": [
+                    "itemGuid", "downloads", "monthlyDownloads", "valueHistory"
+                ]
+            },
+            "QueryShowValueSplitsResponse.Recipient": {
+                "type": "object",
+                "properties": {
+                    "name": {
+                        "type": "string",
+                        "description": "Latest recipient name seen",
+                    },
+                    "type": {
+                        "type": "string",
+                    },
+                    "address": {
+                        "type": "string",
+                    },
+                    "customKey": {
+                        "type": "string",
+                    },
+                    "customValue": {
+                        "type": "string",
+                    },
+                    "downloads": {
+                        "type": "integer",
+                        "description": "Downloads of episodes that included this recipient",
+                    },
+                    "attributedDownloads": {
+                        "type": "number",
+                        "description": "Downloads weighted by this recipient's share of the split",
+                    },
+                },
+                "required": [
+                    "type", "address", "downloads", "attributedDownloads"
+                ]
+            },
         }
     }
 );
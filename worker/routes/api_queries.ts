@@ -2,7 +2,7 @@ import { timed } from '../async.ts';
 import { Blobs } from '../backend/blobs.ts';
 import { isValidShowSummary } from '../backend/show_summaries.ts';
 import { computeShowSummaryKey } from '../backend/show_summaries.ts';
-import { isValidHttpUrl, tryParseInt } from '../check.ts';
+import { isValidHttpUrl, isValidMonth, tryParseInt } from '../check.ts';
 import { Configuration } from '../configuration.ts';
 import { Bytes, sortBy } from '../deps.ts';
 import { packError } from '../errors.ts';
@@ -13,9 +13,10 @@ import { addMonthsToMonthString } from '../timestamp.ts';
 import { consoleWarn } from '../tracer.ts';
 import { computeUserAgentEntityResult } from '../user_agents.ts';
 import { isValidUuid } from '../uuid.ts';
-import { QUERY_RECENT_EPISODES_WITH_TRANSCRIPTS } from './api_contract.ts';
+import { QUERY_RECENT_EPISODES_WITH_TRANSCRIPTS, QUERY_SHOW_VALUE_SPLITS } from './api_contract.ts';
 import { isShowDownloadCountsResponse, isValidRecentEpisodes } from './api_queries_model.ts';
 import { normalizeDevice } from './api_query_common.ts';
+import { computeValueSplitsReport } from './api_query_value_splits.ts';
 import { computeShowStatsObj, lookupShowId } from './api_shows.ts';
 import { computeAppDownloads, computeRelativeSummary, insertZeros, RelativeSummary } from './api_shared.ts';
 import { DoNames } from '../do_names.ts';
@@ -202,6 +203,40 @@ export async function computeQueriesResponse({ name, method, searchParams, miscB
         return newJsonResponse({ showUuid, showTitle, minDownloadHour, maxDownloadHour, episodes: rows, queryTime, ...(debug ? { times: removeZeroValues(times) } : {}) });
     }
 
+    if (name === 'show-value-splits') {
+        const times: Record<string, number> = {};
+
+        const { showUuid, start: startParam, end: endParam } = Object.fromEntries(searchParams);
+        if (typeof showUuid !== 'string' || !isValidUuid(showUuid)) return newJsonResponse({ error: `Bad 'showUuid': ${showUuid}` }, 400);
+        const thisMonth = new Date().toISOString().substring(0, 7);
+        const endMonth = endParam ?? thisMonth;
+        if (!isValidMonth(endMonth)) return newJsonResponse({ error: `Bad 'end': ${endMonth}, expected a month like 2024-03` }, 400);
+        const startMonth = startParam ?? addMonthsToMonthString(endMonth, -(QUERY_SHOW_VALUE_SPLITS.monthsDefault - 1));
+        if (!isValidMonth(startMonth) || startMonth > endMonth) return newJsonResponse({ error: `Bad 'start': ${startMonth}, expected a month like 2024-03, on or before 'end'` }, 400);
+        const months = [ startMonth ];
+        while (months[months.length - 1] < endMonth) months.push(addMonthsToMonthString(months[months.length - 1], 1));
+        if (months.length > QUERY_SHOW_VALUE_SPLITS.monthsMax) return newJsonResponse({ error: `Range too large: ${months.length} months, max is ${QUERY_SHOW_VALUE_SPLITS.monthsMax}` }, 400);
+
+        const targetStatsBlobs = searchParams.has('ro') ? roStatsBlobs : statsBlobs;
+        if (!targetStatsBlobs) throw new Error(`Need statsBlobs`);
+        const targetRpcClient = searchParams.has('ro') ? roRpcClient : rpcClient;
+        if (!targetRpcClient) throw new Error(`Need rpcClient`);
+
+        const [ summaries, selectShowRes, selectEpisodesRes ] = await timed(times, 'get-summaries+select-show+select-episodes', () => Promise.all([
+            timed(times, 'get-summaries', async () => (await Promise.all(months.map(v => targetStatsBlobs.get(computeShowSummaryKey({ showUuid, period: v }), 'json')))).filter(isValidShowSummary)),
+            timed(times, 'select-show', () => targetRpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/show/shows/${showUuid}` }, DoNames.showServer)),
+            timed(times, 'select-episodes', () => targetRpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/show/shows/${showUuid}/episodes` }, DoNames.showServer)),
+        ]));
+
+        const { results: showRecords = [] } = selectShowRes;
+        if (showRecords.length === 0) return newJsonResponse({ message: 'not found' }, 404);
+        const { title: showTitle } = showRecords[0] as ShowRecord;
+
+        const report = computeValueSplitsReport({ episodes: (selectEpisodesRes.results ?? []) as EpisodeRecord[], summaries });
+        const queryTime = Date.now() - start;
+        return newJsonResponse({ showUuid, showTitle, start: startMonth, end: endMonth, ...report, queryTime, ...(debug ? { times: removeZeroValues(times) } : {}) });
+    }
+
     return newJsonResponse({ error: 'not found' }, 404);
 }
 
@@ -1,6 +1,7 @@
 import { isValidBase58 } from '../base58.ts';
 import { tryNormalizeInstant,check,isValidInstant,tryParseInt,checkMatches, isValidDate, isValidMonth } from '../check.ts';
 import { tryParseDurationMillis } from '../duration.ts';
+import { computeParquetStream, ParquetColumnType } from '../parquet.ts';
 
 export type ApiQueryCommonParameters = { readonly limit: number, readonly startTimeInclusive?: string, readonly startTimeExclusive?: string, readonly endTimeExclusive?: string, readonly format?: string, readonly continuationToken?: string, skipHeaders?: boolean, descending?: boolean };
 
@@ -37,7 +38,7 @@ export function computeApiQueryCommonParameters(searchParams: URLSearchParams, {
         rt = { ...rt, limit: lim };
     }
     if (typeof format === 'string') {
-        checkMatches('format', format, /^(tsv|json|json-o|json-a)$/);
+        checkMatches('format', format, /^(tsv|json|json-o|json-a|ndjson|parquet)$/);
         rt = { ...rt, format };
     }
     if (typeof continuationToken === 'string') {
@@ -55,7 +56,35 @@ export function computeApiQueryCommonParameters(searchParams: URLSearchParams, {
     return rt;
 }
 
-export function newQueryResponse({ startTime, format, headers, rows, continuationToken, skipHeaders, progress }: { startTime: number, format: string, headers: string[], rows: unknown[], continuationToken: string | undefined, skipHeaders?: boolean, progress?: number }): Response {
+export interface QueryResponseEnd {
+    readonly continuationToken?: string; // only known once the rows run out
+    readonly progress?: number;
+}
+
+/** Query rows, either all at once or lazily from an async iterator, which can return a continuation only known once its rows run out. */
+export type QueryResponseRows = unknown[] | AsyncIterator<unknown, QueryResponseEnd | void>;
+
+export async function newQueryResponse({ startTime, format, headers, rows: queryRows, continuationToken: continuationTokenOpt, skipHeaders, progress: progressOpt }: { startTime: number, format: string, headers: string[], rows: QueryResponseRows, continuationToken: string | undefined, skipHeaders?: boolean, progress?: number }): Promise<Response> {
+    const iterator = Array.isArray(queryRows) ? yieldArray(queryRows) : queryRows;
+    if (format === 'ndjson' || format === 'parquet') {
+        // rows are objects for these formats, encoded incrementally as the response is read
+        // a continuation only known at the end comes after the last row: as a final ndjson line, or in the parquet key-value metadata
+        const queryTime = Date.now() - startTime;
+        const end: { value?: QueryResponseEnd } = {};
+        const body = format === 'ndjson' ? computeNdjsonStream(iterator) : computeParquetStream(headers.map(name => ({ name, type: PARQUET_COLUMN_TYPES[name] ?? 'string' })), yieldRowValues(headers, iterator, end), { rowGroupSize: 5000, keyValueMetadata: () => computeParquetKeyValueMetadata(end.value) });
+        return new Response(body, { headers: {
+            'content-type': format === 'ndjson' ? 'application/x-ndjson' : 'application/vnd.apache.parquet',
+            'x-query-time': queryTime.toString(),
+            ...(continuationTokenOpt ? { 'x-continuation-token': continuationTokenOpt } : {}),
+            ...(typeof progressOpt === 'number' ? { 'x-progress': progressOpt.toString() } : {}),
+            'access-control-allow-origin': '*',
+        } });
+    }
+    const rows: unknown[] = [];
+    let next = await iterator.next();
+    for (; !next.done; next = await iterator.next()) rows.push(next.value);
+    const continuationToken = next.value?.continuationToken ?? continuationTokenOpt;
+    const progress = next.value?.progress ?? progressOpt;
     const queryTime = Date.now() - startTime;
     const count = rows.length;
     if (format === 'tsv') {
@@ -76,3 +105,59 @@ export function newQueryResponse({ startTime, format, headers, rows, continuatio
 export function normalizeDevice(device: string): string {
     return device.toLowerCase().replaceAll(/[^a-z]+/g, '_');
 }
+
+//
+
+const PARQUET_COLUMN_TYPES: Record<string, ParquetColumnType> = {
+    time: 'timestamp-millis',
+    asn: 'int64',
+    hits: 'int64',
+    agentName: 'dictionary-string',
+    countryCode: 'dictionary-string',
+    country: 'dictionary-string',
+};
+
+function computeNdjsonStream(iterator: AsyncIterator<unknown, QueryResponseEnd | void>, batchSize = 1000): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+        async pull(controller) {
+            const lines: string[] = [];
+            while (lines.length < batchSize) {
+                const next = await iterator.next();
+                if (next.done) {
+                    const { continuationToken, progress } = next.value ?? {};
+                    if (continuationToken) lines.push(`${JSON.stringify({ continuationToken, progress })}\n`);
+                    if (lines.length > 0) controller.enqueue(encoder.encode(lines.join('')));
+                    controller.close();
+                    return;
+                }
+                lines.push(`${JSON.stringify(next.value)}\n`);
+            }
+            controller.enqueue(encoder.encode(lines.join('')));
+        },
+    });
+}
+
+async function* yieldRowValues(headers: string[], iterator: AsyncIterator<unknown, QueryResponseEnd | void>, end: { value?: QueryResponseEnd }): AsyncGenerator<unknown[]> {
+    while (true) {
+        const next = await iterator.next();
+        if (next.done) {
+            end.value = next.value ?? undefined;
+            return;
+        }
+        const obj = next.value as Record<string, unknown>;
+        yield headers.map(v => obj[v]);
+    }
+}
+
+async function* yieldArray(rows: unknown[]): AsyncGenerator<unknown> {
+    yield* rows;
+}
+
+function computeParquetKeyValueMetadata(end: QueryResponseEnd | undefined): Record<string, string> {
+    const { continuationToken, progress } = end ?? {};
+    return {
+        ...(continuationToken ? { continuationToken } : {}),
+        ...(continuationToken && typeof progress === 'number' ? { progress: progress.toString() } : {}),
+    };
+}
@@ -0,0 +1,42 @@
+import { assertEquals, parquetMetadata, parquetReadObjects } from '../tests/deps.ts';
+import { newQueryResponse, QueryResponseEnd } from './api_query_common.ts';
+
+Deno.test({
+    name: 'newQueryResponse',
+    fn: async () => {
+        const headers = [ 'time', 'asn' ];
+        const objs = [ { time: '2024-08-01T10:00:00.000Z', asn: '13335' }, { time: '2024-08-01T10:00:01.000Z', asn: undefined } ];
+        async function* yieldRows(rows: unknown[] = objs): AsyncGenerator<unknown, QueryResponseEnd> {
+            for (const row of rows) {
+                yield row;
+            }
+            return { continuationToken: 'abc', progress: 0.5 };
+        }
+
+        // streaming formats read rows as the body is read, the continuation comes after the last row
+        {
+            const res = await newQueryResponse({ startTime: Date.now(), format: 'ndjson', headers, rows: yieldRows(), continuationToken: undefined });
+            assertEquals(res.headers.get('x-continuation-token'), null);
+            assertEquals((await res.text()).split('\n'), [ ...objs.map(v => JSON.stringify(v)), JSON.stringify({ continuationToken: 'abc', progress: 0.5 }), '' ]);
+        }
+        {
+            const res = await newQueryResponse({ startTime: Date.now(), format: 'parquet', headers, rows: yieldRows(), continuationToken: undefined });
+            const file = await res.arrayBuffer();
+            assertEquals(parquetMetadata(file).key_value_metadata, [ { key: 'continuationToken', value: 'abc' }, { key: 'progress', value: '0.5' } ]);
+            assertEquals((await parquetReadObjects({ file })).map(v => v.asn === null ? null : v.asn.toString()), [ '13335', null ]);
+        }
+
+        // other formats read every row up front, the continuation goes in the headers or json
+        {
+            const res = await newQueryResponse({ startTime: Date.now(), format: 'tsv', headers, rows: yieldRows(objs.map(v => [ v.time, v.asn ].join('\t'))), continuationToken: undefined });
+            assertEquals(res.headers.get('x-continuation-token'), 'abc');
+            assertEquals(res.headers.get('x-progress'), '0.5');
+            assertEquals(await res.text(), 'time\tasn\n2024-08-01T10:00:00.000Z\t13335\n2024-08-01T10:00:01.000Z\t\n');
+        }
+        {
+            const res = await newQueryResponse({ startTime: Date.now(), format: 'json', headers, rows: objs, continuationToken: 'def' });
+            const { rows, count, continuationToken } = await res.json();
+            assertEquals({ rows, count, continuationToken }, { rows: [ objs[0], { time: objs[1].time } ], count: 2, continuationToken: 'def' });
+        }
+    }
+});
@@ -1,14 +1,16 @@
 import { AttNums } from '../backend/att_nums.ts';
+import { decodeBase58, encodeBase58 } from '../base58.ts';
 import { Blobs } from '../backend/blobs.ts';
 import { queryPackedRedirectLogsFromHits, computeIndexWindowStartInstant } from '../backend/hits_common.ts';
+import { HITS_INDEX_RESUME_AFTER_HEADER, HITS_INDEX_RESUME_DATE_HEADER } from '../backend/hits_indexes.ts';
 import { isValidSha1Hex } from '../crypto.ts';
 import { packError } from '../errors.ts';
 import { unpackHashedIpAddressHash } from '../ip_addresses.ts';
 import { newForbiddenJsonResponse, newJsonResponse, newMethodNotAllowedResponse } from '../responses.ts';
 import { ApiTokenPermission, hasPermission, QueryRedirectLogsRequest, RpcClient, Unkinded } from '../rpc_model.ts';
-import { timestampToInstant } from '../timestamp.ts';
+import { addDaysToDateString, timestampToInstant } from '../timestamp.ts';
 import { writeTraceEvent } from '../tracer.ts';
-import { check, isValidHttpUrl, tryParseUrl } from '../check.ts';
+import { check, isNotBlank, isValidDate, isValidHttpUrl, tryParseUrl } from '../check.ts';
 import { QUERY_HITS } from './api_contract.ts';
 import { computeApiQueryCommonParameters, newQueryResponse } from './api_query_common.ts';
 import { DoNames } from '../do_names.ts';
@@ -44,29 +46,40 @@ export async function computeQueryHitsResponse({ permissions, method, searchPara
 //
 
 async function query(request: Unkinded<QueryRedirectLogsRequest>, { rpcClient, hitsBlobs, backupBlobs }: { rpcClient: RpcClient, hitsBlobs: Blobs, backupBlobs: Blobs }): Promise<Response> {
-    const { format = 'tsv', include = '', hashedIpAddress, rawIpAddress, url, urlStartsWith, descending = false } = request;
+    const { format = 'tsv', include = '', hashedIpAddress, rawIpAddress, url, urlStartsWith, ulid, xpsId, userAgent, referer, resumeAfter, descending = false } = request;
     const startTime = Date.now();
 
     let indexSortKeys: string[] | undefined;
-    if (typeof hashedIpAddress === 'string' || typeof rawIpAddress === 'string' || typeof url === 'string' || typeof urlStartsWith === 'string') {
+    let continuationToken: string | undefined;
+    if ([ hashedIpAddress, rawIpAddress, url, urlStartsWith, ulid, xpsId, userAgent, referer ].some(v => typeof v === 'string')) {
         const { limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, descending } = request;
-        const response = await rpcClient.queryHitsIndex({ limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, hashedIpAddress, rawIpAddress, url, urlStartsWith, descending }, DoNames.hitsServer);
+        const response = await rpcClient.queryHitsIndex({ limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, hashedIpAddress, rawIpAddress, url, urlStartsWith, ulid, xpsId, userAgent, referer, resumeAfter, descending }, DoNames.hitsServer);
         if (response.status !== 200) throw new Error(`queryHitsIndex returned ${response.status}`);
         if (!response.body) throw new Error(`queryHitsIndex returned no body`);
         indexSortKeys = [];
         for await (const line of computeLinestream(response.body)) {
             if (line.length > 0) indexSortKeys.push(line);
         }
+        // tiered indexes stop early on long scans, usually at a day boundary
+        const resumeDate = response.headers.get(HITS_INDEX_RESUME_DATE_HEADER);
+        const packedResumeAfter = response.headers.get(HITS_INDEX_RESUME_AFTER_HEADER);
+        if (resumeDate) continuationToken = packContinuationToken({ resumeDate, resumeAfter: packedResumeAfter ? decodeURIComponent(packedResumeAfter) : undefined });
     }
 
     const attNums = new AttNums();
     const response = await queryPackedRedirectLogsFromHits(request, { hitsBlobs, attNums, indexSortKeys, descending, backupBlobs });
-    const rows: unknown[] = [];
     const includes = include.split(',');
     const includeAsn = includes.includes('asn');
     const includeHashedIpAddressForDownload = includes.includes('hashedIpAddressForDownload');
     const includeIpSource = includes.includes('ipSource');
-    for (const [ _sortKey, record ] of Object.entries(response.records)) {
+    const rows = yieldRows(response.records, { attNums, format, includeAsn, includeHashedIpAddressForDownload, includeIpSource });
+    const headers = computeHeaders(includeAsn, includeHashedIpAddressForDownload, includeIpSource);
+    return await newQueryResponse({ startTime, format, headers, rows, continuationToken });
+}
+
+// rows are unpacked as they are read, so ndjson and parquet responses can stream them
+async function* yieldRows(records: Record<string, string>, { attNums, format, includeAsn, includeHashedIpAddressForDownload, includeIpSource }: { attNums: AttNums, format: string, includeAsn: boolean, includeHashedIpAddressForDownload: boolean, includeIpSource: boolean }): AsyncGenerator<unknown> {
+    for (const [ _sortKey, record ] of Object.entries(records)) {
         if (typeof record !== 'string') continue;
         const { timestamp, uuid, hashedIpAddress: packedHashedIpAddress, hashedIpAddressForDownload: packedHashedIpAddressForDownload, method, url, userAgent, referer, range, ulid, xpsId, ipSource,
             'other.colo': edgeColo,
@@ -89,17 +102,15 @@ async function query(request: Unkinded<QueryRedirectLogsRequest>, { rpcClient, h
                 ...(includeHashedIpAddressForDownload ? [ hashedIpAddressForDownload ] : []),
                 ...(includeIpSource ? [ ipSource ] : []),
             ];
-            rows.push(format === 'tsv' ? arr.join('\t') : arr);
+            yield format === 'tsv' ? arr.join('\t') : arr;
         } else {
-            rows.push({ time, uuid, hashedIpAddress, method, url, userAgent, referer, range, xpsId, ulid, edgeColo, continent, country, timezone, regionCode, region, metroCode,
+            yield { time, uuid, hashedIpAddress, method, url, userAgent, referer, range, xpsId, ulid, edgeColo, continent, country, timezone, regionCode, region, metroCode,
                 ...(includeAsn ? { asn } : {}),
                 ...(includeHashedIpAddressForDownload ? { hashedIpAddressForDownload } : {}),
                 ...(includeIpSource ? { ipSource } : {}),
-            });
+            };
         }
     }
-    const headers = computeHeaders(includeAsn, includeHashedIpAddressForDownload, includeIpSource);
-    return newQueryResponse({ startTime, format, headers, rows, continuationToken: undefined });
 }
 
 const computeHeaders = (includeAsn: boolean, includeHashedIpAddressForDownload: boolean, includeIpSource: boolean) => [ 'time', 'uuid', 'hashedIpAddress', 'method', 'url', 'userAgent', 'referer', 'range', 'xpsId', 'ulid', 'edgeColo', 'continent', 'country', 'timezone', 'regionCode', 'region', 'metroCode',
@@ -110,19 +121,18 @@ const computeHeaders = (includeAsn: boolean, includeHashedIpAddressForDownload:
 
 async function parseRequest(searchParams: URLSearchParams, rawIpAddress: string | undefined, admin: boolean): Promise<Unkinded<QueryRedirectLogsRequest>> {
     await Promise.resolve();
-    let request: Unkinded<QueryRedirectLogsRequest> = { ...computeApiQueryCommonParameters(searchParams, QUERY_HITS) };
+    const { continuationToken, ...commonParameters } = computeApiQueryCommonParameters(searchParams, QUERY_HITS);
+    let request: Unkinded<QueryRedirectLogsRequest> = { ...commonParameters };
     const { url, urlSha256, userAgent, referer, hashedIpAddress, edgeColo, ulid, xpsId, method, include } = Object.fromEntries(searchParams);
 
     if ([ url, urlSha256, userAgent, referer, hashedIpAddress, edgeColo, ulid, xpsId, method ].filter(v => typeof v === 'string').length > 1) throw new Error(`Cannot specify more than one filter parameter`);
     
-    for (const [ name, value ] of Object.entries({ userAgent, referer, ulid, xpsId, urlSha256 })) {
-        if (typeof value === 'string') throw new Error(`The '${name}' filter is no longer supported`);
-    }
+    if (typeof urlSha256 === 'string') throw new Error(`The 'urlSha256' filter is no longer supported`);
 
-    if (typeof url === 'string' || typeof hashedIpAddress === 'string') {
+    if (typeof url === 'string' || typeof hashedIpAddress === 'string' || typeof ulid === 'string' || typeof xpsId === 'string' || typeof userAgent === 'string' || typeof referer === 'string') {
         const { endTimeExclusive } = request;
         const indexWindowStartInstant = computeIndexWindowStartInstant();
-        if (endTimeExclusive && endTimeExclusive <= indexWindowStartInstant) throw new Error(`The window for 'url' or 'hashedIpAddress' queries begins on ${indexWindowStartInstant}`);
+        if (endTimeExclusive && endTimeExclusive <= indexWindowStartInstant) throw new Error(`The window for 'url', 'hashedIpAddress', 'ulid', 'xpsId', 'userAgent' or 'referer' queries begins on ${indexWindowStartInstant}`);
     }
 
     if (typeof url === 'string') {
@@ -148,6 +158,29 @@ async function parseRequest(searchParams: URLSearchParams, rawIpAddress: string
             request = { ...request, hashedIpAddress };
         }
     }
+    if (typeof ulid === 'string') {
+        check('ulid', ulid, isNotBlank);
+        request = { ...request, ulid };
+    }
+    if (typeof xpsId === 'string') {
+        check('xpsId', xpsId, isNotBlank);
+        request = { ...request, xpsId };
+    }
+    if (typeof userAgent === 'string') {
+        check('userAgent', userAgent, isNotBlank);
+        request = { ...request, userAgent };
+    }
+    if (typeof referer === 'string') {
+        check('referer', referer, isNotBlank);
+        request = { ...request, referer };
+    }
+    if (typeof continuationToken === 'string') {
+        if ([ ulid, xpsId, userAgent, referer ].every(v => typeof v !== 'string')) throw new Error(`The 'continuationToken' parameter is only supported for 'ulid', 'xpsId', 'userAgent' or 'referer' queries`);
+        // continue from the resume day in query order, skipping the part of it already read if the index stopped partway through
+        const { resumeDate, resumeAfter } = unpackContinuationToken(continuationToken);
+        request = request.descending ? { ...request, endTimeExclusive: `${addDaysToDateString(resumeDate, 1)}T00:00:00.000Z`, resumeAfter }
+            : { ...request, startTimeInclusive: `${resumeDate}T00:00:00.000Z`, startTimeExclusive: undefined, resumeAfter };
+    }
     if (typeof include === 'string' && admin) {
         request = { ...request, include };
     }
@@ -181,3 +214,18 @@ function computeEventPayload(request: Unkinded<QueryRedirectLogsRequest>, isPrev
     ];
     return { strings, doubles };
 }
+
+function packContinuationToken({ resumeDate, resumeAfter }: { resumeDate: string, resumeAfter: string | undefined }): string {
+    return encodeBase58(new TextEncoder().encode(JSON.stringify({ resumeDate, resumeAfter })));
+}
+
+function unpackContinuationToken(continuationToken: string): { resumeDate: string, resumeAfter: string | undefined } {
+    try {
+        const { resumeDate, resumeAfter } = JSON.parse(new TextDecoder().decode(decodeBase58(continuationToken)));
+        if (typeof resumeDate !== 'string' || !isValidDate(resumeDate)) throw new Error();
+        if (resumeAfter !== undefined && typeof resumeAfter !== 'string') throw new Error();
+        return { resumeDate, resumeAfter };
+    } catch {
+        throw new Error(`Bad continuationToken: ${continuationToken}`);
+    }
+}
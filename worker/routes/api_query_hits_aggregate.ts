@@ -0,0 +1,89 @@
+import { decodeBase58, encodeBase58 } from '../base58.ts';
+import { Blobs } from '../backend/blobs.ts';
+import { aggregateHits, HitsAggregateRequest, HITS_AGGREGATE_DIMENSIONS, isHitsAggregateDimension } from '../backend/hits_aggregate.ts';
+import { isValidSortKey } from '../backend/hits_common.ts';
+import { check, isValidHttpUrl } from '../check.ts';
+import { packError } from '../errors.ts';
+import { newForbiddenJsonResponse, newJsonResponse, newMethodNotAllowedResponse } from '../responses.ts';
+import { ApiTokenPermission, hasPermission } from '../rpc_model.ts';
+import { QUERY_HITS_AGGREGATE } from './api_contract.ts';
+import { computeApiQueryCommonParameters, newQueryResponse } from './api_query_common.ts';
+
+type Opts = { permissions: ReadonlySet<ApiTokenPermission>, method: string, searchParams: URLSearchParams, hitsBlobs: Blobs | undefined, roHitsBlobs: Blobs | undefined };
+export async function computeQueryHitsAggregateResponse({ permissions, method, searchParams, hitsBlobs, roHitsBlobs }: Opts): Promise<Response> {
+    if (!hasPermission(permissions, 'preview', 'read-data')) return newForbiddenJsonResponse();
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+
+    const targetHitsBlobs = searchParams.has('ro') ? roHitsBlobs : hitsBlobs;
+    if (!targetHitsBlobs) throw new Error(`Need hitsBlobs`);
+
+    let request: HitsAggregateRequest;
+    let format: string;
+    let skipHeaders: boolean | undefined;
+    try {
+        ({ request, format, skipHeaders } = parseRequest(searchParams));
+    } catch (e) {
+        const { message } = packError(e);
+        return newJsonResponse({ message }, 400);
+    }
+
+    const startTime = Date.now();
+    const { groups, lastRecordKey, complete } = await aggregateHits(request, { hitsBlobs: targetHitsBlobs });
+    const { groupBy } = request;
+    const headers = [ ...groupBy, 'hits' ];
+    const rows = groups.map(({ values, hits }) => {
+        if (format === 'tsv') return [ ...values, hits ].join('\t');
+        if (format === 'json-a') return [ ...values, hits ];
+        return { ...Object.fromEntries(groupBy.map((v, i) => [ v, values[i] ])), hits };
+    });
+    // 'limit' is a scan budget, not a row or match count: when a continuation token is returned, counts are only for the hits scanned
+    // in this response (matching or not), so callers sum them across continuations for the full range
+    const continuationToken = !complete && lastRecordKey ? packContinuationToken(lastRecordKey) : undefined;
+    return await newQueryResponse({ startTime, format, headers, rows, continuationToken, skipHeaders });
+}
+
+//
+
+function parseRequest(searchParams: URLSearchParams): { request: HitsAggregateRequest, format: string, skipHeaders?: boolean } {
+    const { limit, startTimeInclusive, startTimeExclusive, endTimeExclusive, format = 'tsv', continuationToken, skipHeaders, descending } = computeApiQueryCommonParameters(searchParams, QUERY_HITS_AGGREGATE);
+    const { groupBy: groupByStr = '', url } = Object.fromEntries(searchParams);
+
+    if (!startTimeInclusive && !startTimeExclusive) throw new Error(`Specify a 'start' or 'startAfter' time`);
+    if (descending) throw new Error(`Aggregate queries do not support 'desc'`);
+
+    const groupBy = [ ...new Set(groupByStr.split(',').map(v => v.trim()).filter(v => v !== '')) ];
+    for (const dimension of groupBy) {
+        if (!isHitsAggregateDimension(dimension)) throw new Error(`Bad groupBy dimension: ${dimension}, expected one or more of: ${HITS_AGGREGATE_DIMENSIONS.join(', ')}`);
+    }
+    let request: HitsAggregateRequest = { groupBy: groupBy.filter(isHitsAggregateDimension), maxHitsScanned: limit, startTimeInclusive, startTimeExclusive, endTimeExclusive };
+
+    if (typeof url === 'string') {
+        const m = /^(https?:\/\/.+?)\*$/.exec(url);
+        if (m) {
+            const [ _, urlStartsWith ] = m;
+            check('url', urlStartsWith, isValidHttpUrl);
+            request = { ...request, urlStartsWith };
+        } else {
+            check('url', url, isValidHttpUrl);
+            request = { ...request, url };
+        }
+    }
+    if (continuationToken) {
+        request = { ...request, startAfterRecordKey: unpackContinuationToken(continuationToken) };
+    }
+    return { request, format, skipHeaders };
+}
+
+function packContinuationToken(startAfterRecordKey: string): string {
+    return encodeBase58(new TextEncoder().encode(JSON.stringify({ startAfterRecordKey })));
+}
+
+function unpackContinuationToken(continuationToken: string): string {
+    try {
+        const { startAfterRecordKey } = JSON.parse(new TextDecoder().decode(decodeBase58(continuationToken)));
+        if (typeof startAfterRecordKey !== 'string' || !isValidSortKey(startAfterRecordKey)) throw new Error();
+        return startAfterRecordKey;
+    } catch {
+        throw new Error(`Bad continuationToken: ${continuationToken}`);
+    }
+}
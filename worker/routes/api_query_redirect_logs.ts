@@ -11,6 +11,7 @@ import { QUERY_REDIRECT_LOGS } from './api_contract.ts';
 import { computeApiQueryCommonParameters } from './api_query_common.ts';
 
 export async function computeQueryRedirectLogsResponse(permissions: ReadonlySet<ApiTokenPermission>, origin: string, method: string, searchParams: URLSearchParams, rpcClient: RpcClient, rawIpAddress: string | undefined): Promise<Response> {
+    // served by /hits, including 'ulid', 'xpsId', 'userAgent' and 'referer' filters from the tiered hits indexes (the combined redirect log indexes for them are disabled)
     const u = new URL(`${origin}/api/1/hits`);
     for (const [ name, value ] of searchParams) {
         u.searchParams.append(name, value);
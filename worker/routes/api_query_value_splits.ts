@@ -0,0 +1,92 @@
+import { ShowSummary } from '../backend/show_summaries.ts';
+import { EpisodeRecord, ValueConfig, ValueConfigRecipient } from '../backend/show_controller_model.ts';
+import { sortBy } from '../deps.ts';
+import { addMonthsToMonthString } from '../timestamp.ts';
+
+export interface ValueSplitsReport {
+    readonly months: string[]; // e.g. 2024-03
+    readonly downloads: number;
+    readonly unattributedDownloads: number; // downloads of episodes without a podcast:value config in effect
+    readonly episodes: ValueSplitsEpisode[]; // most recent first
+    readonly recipients: ValueSplitsRecipient[]; // most attributed downloads first
+}
+
+export interface ValueSplitsEpisode {
+    readonly itemGuid: string;
+    readonly title?: string;
+    readonly pubdate?: string;
+    readonly downloads: number;
+    readonly monthlyDownloads: Record<string, number>; // month -> downloads
+    readonly valueHistory: readonly ValueConfig[]; // oldest first
+}
+
+export interface ValueSplitsRecipient {
+    readonly name?: string; // latest name seen
+    readonly type: string;
+    readonly address: string;
+    readonly customKey?: string;
+    readonly customValue?: string;
+    readonly downloads: number; // downloads of episodes that included this recipient
+    readonly attributedDownloads: number; // downloads weighted by this recipient's share of the split
+}
+
+/** Join each episode's podcast:value split history with its monthly downloads from show summaries. */
+export function computeValueSplitsReport({ episodes, summaries }: { episodes: readonly EpisodeRecord[], summaries: readonly ShowSummary[] }): ValueSplitsReport {
+    const months = summaries.map(v => v.period).sort();
+
+    let downloads = 0;
+    let unattributedDownloads = 0;
+    const episodeRows: ValueSplitsEpisode[] = [];
+    const recipients = new Map<string, { recipient: ValueConfigRecipient, downloads: number, attributedDownloads: number }>();
+    for (const { id, itemGuid, title, pubdateInstant, valueHistory = [] } of sortBy([ ...episodes ], (v: EpisodeRecord) => v.pubdateInstant ?? '', { order: 'desc' })) {
+        const monthlyDownloads: Record<string, number> = {};
+        for (const { period, episodes } of summaries) {
+            const episodeDownloads = Object.values(episodes[id]?.hourlyDownloads ?? {}).reduce((a, b) => a + b, 0);
+            if (episodeDownloads > 0) monthlyDownloads[period] = episodeDownloads;
+        }
+        const episodeDownloads = Object.values(monthlyDownloads).reduce((a, b) => a + b, 0);
+        if (episodeDownloads === 0 && valueHistory.length === 0) continue;
+        episodeRows.push({ itemGuid, title, pubdate: pubdateInstant, downloads: episodeDownloads, monthlyDownloads, valueHistory });
+        downloads += episodeDownloads;
+
+        for (const [ month, monthDownloads ] of Object.entries(monthlyDownloads)) {
+            const config = findValueConfigForMonth(valueHistory, month);
+            const shares = config ? computeValueShares(config.recipients) : [];
+            if (shares.length === 0) {
+                unattributedDownloads += monthDownloads;
+                continue;
+            }
+            for (const { recipient, share } of shares) {
+                const key = [ recipient.type, recipient.address, recipient.customKey ?? '', recipient.customValue ?? '' ].join('|');
+                const existing = recipients.get(key) ?? { recipient, downloads: 0, attributedDownloads: 0 };
+                recipients.set(key, { recipient: recipient.name ? recipient : existing.recipient, downloads: existing.downloads + monthDownloads, attributedDownloads: existing.attributedDownloads + monthDownloads * share });
+            }
+        }
+    }
+
+    const recipientTotals = [ ...recipients.values() ];
+    const recipientRows: ValueSplitsRecipient[] = sortBy(recipientTotals, (v: typeof recipientTotals[number]) => -v.attributedDownloads).map(({ recipient: { name, type, address, customKey, customValue }, downloads, attributedDownloads }: typeof recipientTotals[number]) => ({ name, type, address, customKey, customValue, downloads, attributedDownloads: Math.round(attributedDownloads * 100) / 100 }));
+    return { months, downloads, unattributedDownloads, episodes: episodeRows, recipients: recipientRows };
+}
+
+/** Fee recipients take their split as a percentage off the top, the remainder is shared by the other recipients in proportion to their splits. */
+export function computeValueShares(recipients: readonly ValueConfigRecipient[]): { recipient: ValueConfigRecipient, share: number }[] {
+    const feeTotal = recipients.filter(v => v.fee).reduce((a, b) => a + b.split, 0);
+    const feeScale = feeTotal > 100 ? 100 / feeTotal : 1; // fees can't take more than everything
+    const nonFeeTotal = recipients.filter(v => !v.fee).reduce((a, b) => a + b.split, 0);
+    const remainder = 1 - Math.min(100, feeTotal) / 100;
+    return recipients.map(recipient => {
+        const share = recipient.fee ? recipient.split / 100 * feeScale
+            : nonFeeTotal > 0 ? remainder * recipient.split / nonFeeTotal
+            : 0;
+        return { recipient, share };
+    }).filter(v => v.share > 0);
+}
+
+//
+
+function findValueConfigForMonth(valueHistory: readonly ValueConfig[], month: string): ValueConfig | undefined {
+    // use the config in effect at the end of the month, or the earliest known config if the history starts later
+    const nextMonth = addMonthsToMonthString(month, 1);
+    return valueHistory.filter(v => v.since < nextMonth).at(-1) ?? valueHistory.at(0);
+}
@@ -0,0 +1,41 @@
+import { assertEquals } from '../tests/deps.ts';
+import { computeValueShares, computeValueSplitsReport } from './api_query_value_splits.ts';
+import { ShowSummary } from '../backend/show_summaries.ts';
+import { ValueConfig } from '../backend/show_controller_model.ts';
+
+Deno.test({
+    name: 'computeValueShares',
+    fn: () => {
+        const host = { type: 'node', address: 'host', split: 90 };
+        const cohost = { type: 'node', address: 'cohost', split: 10 };
+        const app = { type: 'node', address: 'app', split: 5, fee: true };
+        assertEquals(computeValueShares([ host, cohost ]).map(v => v.share), [ 0.9, 0.1 ]);
+        assertEquals(computeValueShares([ host, app ]).map(v => v.share), [ 0.95, 0.05 ]);
+        assertEquals(computeValueShares([ { ...app, split: 150 } ]).map(v => v.share), [ 1 ]);
+        assertEquals(computeValueShares([ { ...host, split: 0 } ]), []);
+    }
+});
+
+Deno.test({
+    name: 'computeValueSplitsReport',
+    fn: () => {
+        const showUuid = '1fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d';
+        const before: ValueConfig = { since: '2024-01-01T00:00:00.000Z', source: 'channel', method: 'keysend', type: 'lightning', recipients: [ { type: 'node', address: 'host', split: 100 } ] };
+        const after: ValueConfig = { since: '2024-02-15T00:00:00.000Z', source: 'item', method: 'keysend', type: 'lightning', recipients: [ { name: 'Host', type: 'node', address: 'host', split: 50 }, { type: 'node', address: 'guest', split: 50 } ] };
+        const summary = (period: string, episodes: Record<string, number>): ShowSummary => ({ showUuid, period, hourlyDownloads: {}, sources: {}, episodes: Object.fromEntries(Object.entries(episodes).map(([ id, downloads ]) => [ id, { firstHour: `${period}-01T00`, hourlyDownloads: { [`${period}-01T00`]: downloads } } ])) });
+
+        const report = computeValueSplitsReport({
+            episodes: [
+                { showUuid, id: 'ep1', itemGuid: 'guid1', pubdateInstant: '2024-01-10T00:00:00.000Z', valueHistory: [ before, after ] },
+                { showUuid, id: 'ep2', itemGuid: 'guid2', pubdateInstant: '2024-02-10T00:00:00.000Z' },
+                { showUuid, id: 'ep3', itemGuid: 'guid3', pubdateInstant: '2024-02-20T00:00:00.000Z' }, // no downloads, no value
+            ],
+            summaries: [ summary('2024-02', { ep1: 20, ep2: 5 }), summary('2024-01', { ep1: 10 }) ],
+        });
+        assertEquals(report.months, [ '2024-01', '2024-02' ]);
+        assertEquals(report.downloads, 35);
+        assertEquals(report.unattributedDownloads, 5);
+        assertEquals(report.episodes.map(v => [ v.itemGuid, v.downloads, v.monthlyDownloads ]), [ [ 'guid2', 5, { '2024-02': 5 } ], [ 'guid1', 30, { '2024-01': 10, '2024-02': 20 } ] ]);
+        assertEquals(report.recipients.map(v => [ v.name, v.address, v.downloads, v.attributedDownloads ]), [ [ 'Host', 'host', 30, 20 ], [ undefined, 'guest', 20, 10 ] ]);
+    }
+});
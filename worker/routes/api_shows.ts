@@ -1,22 +1,30 @@
 import { timed } from '../async.ts';
 import { AudienceSummary, computeAudienceSummaryKey, isValidAudienceSummary } from '../backend/audience.ts';
 import { Blobs } from '../backend/blobs.ts';
-import { ShowListenStats, computeShowListenStatsKey, isValidShowListenStats } from '../backend/listens.ts';
-import { isEpisodeRecord, isFeedRecord } from '../backend/show_controller_model.ts';
-import { ShowSummary, computeShowSummaryKey, isValidShowSummary } from '../backend/show_summaries.ts';
-import { check, checkMatches, isString, isValidMonth } from '../check.ts';
+import { listBotReplayReports } from '../backend/bot_replay.ts';
+import { computeEpisodeCoverageKey, isValidEpisodeCoverageSummary } from '../backend/episode_coverage.ts';
+import { computeMedian, computePercentileRank, computeShowEpisodePacing, computeWindowValues, loadOrComputeShowEpisodePacing, PACING_DAYS, PacingDays, ShowEpisodePacing } from '../backend/episode_pacing.ts';
+import { EpisodeRetention, ShowListenStats, computeEpisodeRetention, computeEpisodeRetentionCsv, computeShowListenStatsKey, isValidListenSubmission, isValidShowListenStats } from '../backend/listens.ts';
+import { isValidAlertEmail, isValidShowAlertRecipients, isValidShowAlertStatus, loadShowAlertRecipients, MAX_ALERT_EMAILS_PER_SHOW, ShowAlertRecipients } from '../backend/show_alerts.ts';
+import { isEpisodeRecord, isFeedHistoryRecord, isFeedRecord, isShowgroupRecord } from '../backend/show_controller_model.ts';
+import { ShowSummary, computeDailyDownloadsFromSummaries, computeShowSummaryKey, isValidShowSummary } from '../backend/show_summaries.ts';
+import { isShowWebhookEventType, isValidMilestone, isValidShowWebhookSubscription, listShowWebhookDeliveries, loadShowWebhooks, MAX_SUBSCRIPTIONS_PER_SHOW } from '../backend/show_webhooks.ts';
+import { isValidChainAudit } from '../chain_audit.ts';
+import { check, checkMatches, isString, isStringRecord, isValidHttpUrl, isValidMonth, tryParseInt } from '../check.ts';
 import { compareByDescending } from '../collections.ts';
 import { Configuration } from '../configuration.ts';
 import { Bytes, decodeXml } from '../deps.ts';
 import { DoNames } from '../do_names.ts';
-import { packError } from '../errors.ts';
+import { packError, StatusError } from '../errors.ts';
+import { Limiter } from '../limiter.ts';
 import { SHOW_UUID_REDIRECTS } from '../redirects.ts';
-import { newJsonResponse, newMethodNotAllowedResponse } from '../responses.ts';
-import { RpcClient } from '../rpc_model.ts';
+import { newCsvResponse, newForbiddenJsonResponse, newJsonResponse, newMethodNotAllowedResponse } from '../responses.ts';
+import { ApiTokenPermission, hasPermission, RpcClient } from '../rpc_model.ts';
 import { increment, total } from '../summaries.ts';
-import { addMonthsToMonthString } from '../timestamp.ts';
+import { addDaysToDateString, addHoursToHourString, addMonthsToMonthString } from '../timestamp.ts';
 import { isValidUuid } from '../uuid.ts';
-import { ApiShowsResponse, ApiShowStatsResponse, ApiShowSummaryStatsResponse, EpisodeInfo } from './api_shows_model.ts';
+import { JsonProvider } from './api.ts';
+import { ApiEpisodePacing, ApiShowEpisodeCoverageResponse, ApiShowEpisodePacingResponse, ApiShowsResponse, ApiShowStatsResponse, ApiShowSummaryStatsResponse, EpisodeInfo } from './api_shows_model.ts';
 
 type LookupShowIdOpts = Omit<ShowsOpts, 'method' | 'origin'>;
 
@@ -88,7 +96,7 @@ export async function computeShowsResponse(opts: ShowsOpts): Promise<Response> {
         episodes = episodeRecords
             .filter(isEpisodeRecord)
             .sort(compareByDescending(r => r.pubdateInstant))
-            .map(({ id, title, pubdateInstant, itemGuid }) => ({ id, title: cleanTitle(title), pubdate: pubdateInstant, itemGuid }));
+            .map(({ id, title, pubdateInstant, itemGuid, enclosureLength, metadata }) => ({ id, title: cleanTitle(title), pubdate: pubdateInstant, itemGuid, enclosureLength, ...metadata }));
     }
 
     return newJsonResponse(computeApiShowsResponse(showUuidInput, { showUuid, title, podcastGuid, statsPageUrl, episodes }, origin));
@@ -137,6 +145,7 @@ export async function computeShowStatsObj({ showUuid: showUuidInput, searchParam
     let dailyFoundAudience: Record<string, number> = {};
     let monthlyDimensionDownloads: Record<string, Record<string, Record<string, number>>> = {};
     let episodeListens: Record<string, { minuteMaps: string[], appCounts: Record<string, number> }> | undefined;
+    let episodeRetention: Record<string, EpisodeRetention> | undefined;
     let knownAppLinks: Record<string, string> | undefined;
 
     if (isValidShowSummary(overall)) {
@@ -162,25 +171,49 @@ export async function computeShowStatsObj({ showUuid: showUuidInput, searchParam
    
     if (isValidShowListenStats(listens)) {
         episodeListens = Object.fromEntries(Object.values(listens.episodeListenStats).map(({ itemGuid, minuteMaps, appCounts }) => [ itemGuid, { minuteMaps, appCounts } ]));
+        episodeRetention = Object.fromEntries(Object.values(listens.episodeListenStats).map(({ itemGuid, minuteMaps, rollup }) => [ itemGuid, computeEpisodeRetention(minuteMaps, rollup) ]));
         knownAppLinks = KNOWN_APP_LINKS;
     }
-    return computeApiShowStatsResponse(showUuidInput, { showUuid, months, episodeFirstHours, hourlyDownloads, episodeHourlyDownloads, dailyFoundAudience, monthlyDimensionDownloads, episodeListens, knownAppLinks });
+    return computeApiShowStatsResponse(showUuidInput, { showUuid, months, episodeFirstHours, hourlyDownloads, episodeHourlyDownloads, dailyFoundAudience, monthlyDimensionDownloads, episodeListens, episodeRetention, knownAppLinks });
 }
 
-export async function computeShowSummaryStatsResponse({ showUuid: showUuidInput, method, searchParams, statsBlobs, roStatsBlobs, times = {}, configuration }: StatsOpts): Promise<Response> {
+export async function computeShowEpisodeRetentionResponse({ showUuid: showUuidInput, method, searchParams, statsBlobs, roStatsBlobs, times = {}, configuration }: StatsOpts): Promise<Response> {
     if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    const { showUuid, targetStatsBlobs } = await computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, statsBlobs, roStatsBlobs, configuration });
+
+    const listens = await timed(times, 'get-listens', () => targetStatsBlobs.get(computeShowListenStatsKey({ showUuid }), 'json'));
+    if (!isValidShowListenStats(listens)) return newJsonResponse({ message: 'not found' }, 404);
+
+    const episodeRetention = Object.fromEntries(Object.values(listens.episodeListenStats).map(({ itemGuid, minuteMaps, rollup }) => [ itemGuid, computeEpisodeRetention(minuteMaps, rollup) ]));
+    return newCsvResponse(computeEpisodeRetentionCsv(episodeRetention));
+}
+
+export async function computeShowSummaryStatsResponse(opts: StatsOpts): Promise<Response> {
+    const { method } = opts;
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    const res = await computeShowSummaryStatsObj(opts);
+    return res ? newJsonResponse(res) : newJsonResponse({ message: 'not found' }, 404);
+}
+
+/** Returns undefined for shows without public stats (no overall summary). */
+export async function computeShowSummaryStatsObj({ showUuid: showUuidInput, searchParams, statsBlobs, roStatsBlobs, times = {}, configuration }: StatsOpts): Promise<ApiShowSummaryStatsResponse | undefined> {
     const start = Date.now();
     const { showUuid, targetStatsBlobs } = await computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, statsBlobs, roStatsBlobs, configuration });
     const debug = searchParams.has('debug');
+    const recentParam = searchParams.get('recent') ?? undefined;
+    if (recentParam !== undefined) checkMatches('recent', recentParam, /^(include|exclude)$/);
+    const includeRecent = recentParam === 'include';
 
-    const lastCalendarMonth = addMonthsToMonthString(new Date().toISOString().substring(0, 7), -1);
+    const currentMonth = new Date().toISOString().substring(0, 7);
+    const lastCalendarMonth = addMonthsToMonthString(currentMonth, -1);
 
-    const [ overall, monthSummary, audienceSummariesSmall ] = await timed(times, `get-overall+get-show-summary+get-audience-summary`, () => Promise.all([
+    const [ overall, monthSummary, currentMonthSummary, audienceSummariesSmall ] = await timed(times, `get-overall+get-show-summary+get-current-show-summary+get-audience-summary`, () => Promise.all([
         timed(times, 'get-overall', () => targetStatsBlobs.get(computeShowSummaryKey({ showUuid, period: 'overall' }), 'json')),
         timed(times, `get-show-summary`, async () => await targetStatsBlobs.get(computeShowSummaryKey({ showUuid, period: lastCalendarMonth }), 'json')),
+        timed(times, `get-current-show-summary`, async () => includeRecent ? await targetStatsBlobs.get(computeShowSummaryKey({ showUuid, period: currentMonth }), 'json') : undefined),
         timed(times, `get-audience-summary`, async () => [ await targetStatsBlobs.get(computeAudienceSummaryKey({ showUuid, period: lastCalendarMonth }), 'json') ].filter(isValidAudienceSummary)),
     ]));
-    if (!isValidShowSummary(overall)) return newJsonResponse({ message: 'not found' }, 404);
+    if (!isValidShowSummary(overall)) return undefined;
 
     let audienceSummaries = audienceSummariesSmall;
     if (audienceSummaries.length === 0) {
@@ -190,11 +223,239 @@ export async function computeShowSummaryStatsResponse({ showUuid: showUuidInput,
 
     const lastCalendarMonthDownloads = isValidShowSummary(monthSummary) ? total(monthSummary.hourlyDownloads) : undefined;
     const lastCalendarMonthAudience = audienceSummaries.length > 0 ? audienceSummaries.map(v => total(v.dailyFoundAudience)).reduce((a, b) => a + b, 0): undefined;
+    const recent = includeRecent ? computeRecentSummaryStats({ monthSummary: isValidShowSummary(monthSummary) ? monthSummary : undefined, currentMonthSummary: isValidShowSummary(currentMonthSummary) ? currentMonthSummary : undefined }) : undefined;
     times.compute = Date.now() - start;
-    const res: ApiShowSummaryStatsResponse = { showUuid, lastCalendarMonth, lastCalendarMonthDownloads, lastCalendarMonthAudience, ...(debug ? { times } : undefined) };
+    return { showUuid, lastCalendarMonth, lastCalendarMonthDownloads, lastCalendarMonthAudience, ...recent, ...(debug ? { times } : undefined) };
+}
+
+export async function computeShowEpisodeCoverageResponse({ showUuid: showUuidInput, method, searchParams, statsBlobs, roStatsBlobs, times = {}, configuration }: StatsOpts): Promise<Response> {
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    const { showUuid, targetStatsBlobs } = await computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, statsBlobs, roStatsBlobs, configuration });
+    const debug = searchParams.has('debug');
+
+    const month = searchParams.get('month') ?? addMonthsToMonthString(new Date().toISOString().substring(0, 7), -1);
+    check('month', month, isValidMonth);
+
+    const summary = await timed(times, 'get-episode-coverage', () => targetStatsBlobs.get(computeEpisodeCoverageKey({ showUuid, period: month }), 'json'));
+    if (!isValidEpisodeCoverageSummary(summary)) return newJsonResponse({ message: 'not found' }, 404);
+
+    const res: ApiShowEpisodeCoverageResponse = { showUuid, month, episodes: summary.episodes, ...(debug ? { times } : undefined) };
     return newJsonResponse(res);
 }
 
+type EpisodePacingOpts = { showUuid: string, method: string, searchParams: URLSearchParams, format: 'json' | 'csv', rpcClient: RpcClient, roRpcClient?: RpcClient, statsBlobs?: Blobs, roStatsBlobs?: Blobs, times?: Record<string, number>, configuration: Configuration, origin: string };
+
+export async function computeShowEpisodePacingResponse({ showUuid: showUuidInput, method, searchParams, format, rpcClient, roRpcClient, statsBlobs, roStatsBlobs, times = {}, configuration, origin }: EpisodePacingOpts): Promise<Response> {
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    const { showUuid, targetStatsBlobs } = await computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, statsBlobs, roStatsBlobs, configuration });
+    const debug = searchParams.has('debug');
+    const lookbackMonthsParam = searchParams.get('lookbackMonths') ?? '6';
+    const lookbackMonths = parseInt(checkMatches('lookbackMonths', lookbackMonthsParam, /^([1-9]|1[012])$/)[0]);
+    const peersParam = searchParams.get('peers') ?? 'include';
+    checkMatches('peers', peersParam, /^(include|exclude)$/);
+    const targetRpcClient = searchParams.has('ro') ? roRpcClient : rpcClient;
+    if (!targetRpcClient) throw new Error(`Need rpcClient`);
+
+    const latestMonth = new Date().toISOString().substring(0, 7);
+    const showsSearchParams = new URLSearchParams(searchParams.has('ro') ? { ro: '', episodes: 'include' } : { episodes: 'include' });
+    const [ pacing, showRes, peerShows ] = await timed(times, 'compute-pacing+compute-shows+select-showgroups', () => Promise.all([
+        timed(times, 'compute-pacing', () => computeShowEpisodePacing({ showUuid, latestMonth, lookbackMonths, statsBlobs: targetStatsBlobs })),
+        timed(times, 'compute-shows', () => computeShowsResponse({ method: 'GET', searchParams: showsSearchParams, showUuidOrPodcastGuidOrFeedUrlBase64: showUuid, rpcClient, roRpcClient, configuration, origin })),
+        peersParam === 'include' ? timed(times, 'select-showgroups', () => selectShowgroupPeers(showUuid, targetRpcClient)) : Promise.resolve([]),
+    ]));
+    if (!pacing) return newJsonResponse({ message: 'not found' }, 404);
+    const episodeInfos: readonly EpisodeInfo[] = showRes.status === 200 ? ((await showRes.json()) as ApiShowsResponse).episodes ?? [] : [];
+    const save = !searchParams.has('ro');
+    const peers = await timed(times, 'load-peer-pacing', async () => (await Promise.all(peerShows.map(async ({ showUuid, showgroupId }) => ({ showgroupId, pacing: await loadOrComputeShowEpisodePacing({ showUuid, latestMonth, lookbackMonths, statsBlobs: targetStatsBlobs, maxAgeMillis: PEER_PACING_MAX_AGE_MILLIS, save }) }))))
+        .flatMap(({ showgroupId, pacing }) => pacing ? [ { showgroupId, pacing } ] : []));
+
+    const res = { ...computeApiShowEpisodePacingResponse({ showUuidInput, pacing, episodeInfos, peers }), ...(debug ? { times } : undefined) };
+    return format === 'csv' ? newCsvResponse(computeEpisodePacingCsv(res)) : newJsonResponse(res);
+}
+
+type WebhooksOpts = { showUuid: string, method: string, searchParams: URLSearchParams, bodyProvider: JsonProvider, permissions: ReadonlySet<ApiTokenPermission>, shows: ReadonlySet<string>, rpcClient: RpcClient, statsBlobs?: Blobs, configuration: Configuration };
+
+export async function computeShowWebhooksResponse({ showUuid: showUuidInput, method, bodyProvider, permissions, shows, rpcClient, statsBlobs, configuration }: WebhooksOpts): Promise<Response> {
+    if (method !== 'GET' && method !== 'POST') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, method === 'POST' ? 'write-show' : 'read-show')) return newForbiddenJsonResponse();
+    const showUuid = await computeWebhooksShowUuid(showUuidInput, configuration);
+    if (method === 'POST' && !canWriteShow({ showUuid, permissions, shows })) return newForbiddenJsonResponse();
+    if (!statsBlobs) throw new Error(`Need statsBlobs`);
+
+    if (method === 'POST') {
+        const body = await bodyProvider();
+        if (!isStringRecord(body)) throw new StatusError(`Expected object`);
+        const { url, events, milestones } = body;
+        if (typeof url !== 'string' || !isValidHttpUrl(url) || !url.startsWith('https://')) throw new StatusError(`Expected https url`);
+        if (!Array.isArray(events) || events.length === 0 || !events.every(isShowWebhookEventType)) throw new StatusError(`Expected events array of one or more of: day-finalized, episode-milestone, episode-first-seen, show-alert`);
+        if (milestones !== undefined && !(Array.isArray(milestones) && milestones.length > 0 && milestones.every(isValidMilestone))) throw new StatusError(`Expected milestones array of positive integers`);
+        const { subscriptions } = await loadShowWebhooks({ showUuid, statsBlobs });
+        if (subscriptions.length >= MAX_SUBSCRIPTIONS_PER_SHOW) throw new StatusError(`Too many webhooks for show (max ${MAX_SUBSCRIPTIONS_PER_SHOW})`);
+        // registered in the show controller, see registerShowWebhook
+        const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'update', targetPath: `/show/shows/${showUuid}/webhooks`, parameters: { url, events: JSON.stringify(events), ...(milestones ? { milestones: JSON.stringify(milestones) } : {}) } }, DoNames.showServer);
+        if (typeof message === 'string') throw new Error(message);
+        const subscription = results.find(isValidShowWebhookSubscription);
+        if (!subscription) throw new Error(`Expected subscription`);
+        return newJsonResponse({ showUuid, webhook: subscription }); // only time the secret is returned
+    }
+
+    const { subscriptions } = await loadShowWebhooks({ showUuid, statsBlobs });
+    return newJsonResponse({ showUuid, webhooks: subscriptions.map(({ secret: _, ...rest }) => rest) });
+}
+
+export async function computeShowWebhookResponse({ showUuid: showUuidInput, webhookId, method, permissions, shows, rpcClient, configuration }: WebhooksOpts & { webhookId: string }): Promise<Response> {
+    if (method !== 'DELETE') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, 'write-show')) return newForbiddenJsonResponse();
+    const showUuid = await computeWebhooksShowUuid(showUuidInput, configuration);
+    if (!canWriteShow({ showUuid, permissions, shows })) return newForbiddenJsonResponse();
+
+    const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'delete', targetPath: `/show/shows/${showUuid}/webhooks/${webhookId}` }, DoNames.showServer);
+    if (typeof message === 'string') throw new Error(message);
+    const deleted = results.length > 0;
+    if (!deleted) return newJsonResponse({ message: 'not found' }, 404);
+    return newJsonResponse({ showUuid, webhookId, deleted });
+}
+
+export async function computeShowWebhookDeliveriesResponse({ showUuid: showUuidInput, method, searchParams, permissions, statsBlobs, configuration }: WebhooksOpts): Promise<Response> {
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, 'read-show')) return newForbiddenJsonResponse();
+    const showUuid = await computeWebhooksShowUuid(showUuidInput, configuration);
+    if (!statsBlobs) throw new Error(`Need statsBlobs`);
+
+    const limitParam = searchParams.get('limit') ?? '100';
+    const limit = tryParseInt(limitParam);
+    if (limit === undefined || limit < 1 || limit > 1000) throw new Error(`Bad limit: ${limitParam}`);
+    const webhookId = searchParams.get('webhook') ?? undefined;
+    if (webhookId !== undefined) check('webhook', webhookId, isValidUuid);
+
+    const continuationToken = searchParams.get('continuationToken') ?? undefined;
+    if (continuationToken !== undefined && !/^\d{15}-[0-9a-f]{32}\.delivery\.json$/.test(continuationToken)) throw new StatusError(`Bad continuationToken: ${continuationToken}`);
+
+    const { deliveries, continuationToken: nextContinuationToken } = await listShowWebhookDeliveries({ showUuid, webhookId, limit, continuationToken, statsBlobs });
+    return newJsonResponse({ showUuid, deliveries, ...(nextContinuationToken ? { continuationToken: nextContinuationToken } : {}) });
+}
+
+export async function computeShowBotReplaysResponse({ showUuid: showUuidInput, method, searchParams, permissions, statsBlobs, roStatsBlobs, configuration }: StatsOpts & { permissions: ReadonlySet<ApiTokenPermission> }): Promise<Response> {
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, 'read-show')) return newForbiddenJsonResponse();
+    const { showUuid, targetStatsBlobs } = await computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, statsBlobs, roStatsBlobs, configuration });
+
+    const limitParam = searchParams.get('limit') ?? '10';
+    const limit = tryParseInt(limitParam);
+    if (limit === undefined || limit < 1 || limit > 100) throw new Error(`Bad limit: ${limitParam}`);
+
+    const continuationToken = searchParams.get('continuationToken') ?? undefined;
+    if (continuationToken !== undefined && !/^[0-9a-f]{32}-\d{15}\.bot-replay\.json$/.test(continuationToken)) throw new StatusError(`Bad continuationToken: ${continuationToken}`);
+
+    const { reports, continuationToken: nextContinuationToken } = await listBotReplayReports({ showUuid, limit, continuationToken, statsBlobs: targetStatsBlobs });
+    return newJsonResponse({ showUuid, reports, ...(nextContinuationToken ? { continuationToken: nextContinuationToken } : {}) });
+}
+
+export async function computeShowListensResponse({ showUuid: showUuidInput, method, bodyProvider, permissions, rpcClient, limiter, configuration }: { showUuid: string, method: string, bodyProvider: JsonProvider, permissions: ReadonlySet<ApiTokenPermission>, rpcClient: RpcClient, limiter: Limiter | undefined, configuration: Configuration }): Promise<Response> {
+    if (method !== 'POST') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, 'write-listens')) return newForbiddenJsonResponse();
+    check('showUuid', showUuidInput, isValidUuid);
+    const showUuid = await computeUnderlyingShowUuid(showUuidInput, configuration);
+
+    if (limiter && !permissions.has('admin')) {
+        const { success } = await limiter.isAllowed(`api:listens:show:${showUuid}`);
+        if (!success) return new Response('slow down', { status: 429 });
+    }
+
+    const body = await bodyProvider();
+    if (!isStringRecord(body)) throw new StatusError(`Expected object`);
+    const { sessions } = body;
+    if (!Array.isArray(sessions) || sessions.length === 0 || sessions.length > MAX_LISTEN_SESSIONS) throw new StatusError(`Expected sessions array of 1 to ${MAX_LISTEN_SESSIONS} items`);
+    const invalid = sessions.findIndex(v => !isValidListenSubmission(v));
+    if (invalid >= 0) throw new StatusError(`Bad session at index ${invalid}: expected itemGuid, appName, and a minuteMap string of 0s and 1s`);
+
+    const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'update', targetPath: `/show/shows/${showUuid}/listens/submissions`, parameters: { submissions: JSON.stringify(sessions) } }, DoNames.showServer);
+    if (typeof message === 'string') throw new Error(message);
+    return newJsonResponse({ showUuid, sessions: sessions.length, results });
+}
+
+export async function computeShowFeedHistoryResponse({ showUuid: showUuidInput, method, searchParams, permissions, rpcClient, roRpcClient, configuration }: { showUuid: string, method: string, searchParams: URLSearchParams, permissions: ReadonlySet<ApiTokenPermission>, rpcClient: RpcClient, roRpcClient: RpcClient | undefined, configuration: Configuration }): Promise<Response> {
+    if (method !== 'GET') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, 'read-show')) return newForbiddenJsonResponse();
+    check('showUuid', showUuidInput, isValidUuid);
+    const showUuid = await computeUnderlyingShowUuid(showUuidInput, configuration);
+
+    const limitParam = searchParams.get('limit') ?? '20';
+    const limit = tryParseInt(limitParam);
+    if (limit === undefined || limit < 1 || limit > 100) throw new StatusError(`Bad limit: ${limitParam}, must be an integer between 1 and 100`);
+
+    const targetRpcClient = searchParams.has('ro') ? roRpcClient : rpcClient;
+    if (!targetRpcClient) throw new Error(`Need rpcClient`);
+
+    const { results = [], message } = await targetRpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/show/shows/${showUuid}/feed-history`, parameters: { limit: limit.toString() } }, DoNames.showServer);
+    if (typeof message === 'string') throw new Error(message);
+    const entries = results.filter(isFeedHistoryRecord).map(({ feedRecordId: _, ...rest }) => rest);
+    return newJsonResponse({ showUuid: showUuidInput, entries });
+}
+
+export async function computeShowChainAuditResponse({ showUuid: showUuidInput, method, searchParams, permissions, shows, rpcClient, roRpcClient, configuration }: { showUuid: string, method: string, searchParams: URLSearchParams, permissions: ReadonlySet<ApiTokenPermission>, shows: ReadonlySet<string>, rpcClient: RpcClient, roRpcClient: RpcClient | undefined, configuration: Configuration }): Promise<Response> {
+    if (method !== 'GET' && method !== 'POST') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, method === 'POST' ? 'write-show' : 'read-show')) return newForbiddenJsonResponse();
+    check('showUuid', showUuidInput, isValidUuid);
+    const showUuid = await computeUnderlyingShowUuid(showUuidInput, configuration);
+
+    if (method === 'POST') {
+        // audits make outbound requests: on-demand runs are limited to the show's own tokens, others are refreshed periodically
+        if (!canWriteShow({ showUuid, permissions, shows })) return newForbiddenJsonResponse();
+
+        // audits run in the background, poll with GET for the results
+        const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'update', targetPath: `/show/shows/${showUuid}/chain-audit` }, DoNames.showServer);
+        return newJsonResponse({ showUuid: showUuidInput, queued: results.length > 0, message }, 202);
+    }
+
+    const targetRpcClient = searchParams.has('ro') ? roRpcClient : rpcClient;
+    if (!targetRpcClient) throw new Error(`Need rpcClient`);
+
+    const { results = [], message } = await targetRpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/show/shows/${showUuid}/chain-audit` }, DoNames.showServer);
+    if (typeof message === 'string') throw new Error(message);
+    const audit = results.filter(isValidChainAudit).at(0);
+    return newJsonResponse({ showUuid: showUuidInput, instant: audit?.instant, results: audit?.results ?? [] });
+}
+
+export async function computeShowAlertsResponse({ showUuid: showUuidInput, method, searchParams, bodyProvider, permissions, shows, rpcClient, roRpcClient, statsBlobs, configuration }: { showUuid: string, method: string, searchParams: URLSearchParams, bodyProvider: JsonProvider, permissions: ReadonlySet<ApiTokenPermission>, shows: ReadonlySet<string>, rpcClient: RpcClient, roRpcClient: RpcClient | undefined, statsBlobs?: Blobs, configuration: Configuration }): Promise<Response> {
+    if (method !== 'GET' && method !== 'PUT') return newMethodNotAllowedResponse(method);
+    if (!hasPermission(permissions, method === 'PUT' ? 'write-show' : 'read-show')) return newForbiddenJsonResponse();
+    check('showUuid', showUuidInput, isValidUuid);
+    const showUuid = await computeUnderlyingShowUuid(showUuidInput, configuration);
+    const writable = canWriteShow({ showUuid, permissions, shows });
+
+    if (method === 'PUT') {
+        // alert emails go to the podcaster, registered with a token scoped to the show, but only once each address confirms the code sent to it
+        if (!writable) return newForbiddenJsonResponse();
+        const body = await bodyProvider();
+        if (!isStringRecord(body)) throw new StatusError(`Expected object`);
+        const { emails, confirm } = body;
+        if (confirm !== undefined) {
+            if (!isStringRecord(confirm) || !isValidAlertEmail(confirm.email) || typeof confirm.code !== 'string') throw new StatusError(`Expected confirm object with email and code`);
+            const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'update', targetPath: `/show/shows/${showUuid}/alerts/confirm`, parameters: { email: confirm.email, code: confirm.code } }, DoNames.showServer);
+            if (typeof message === 'string') throw new Error(message);
+            const recipients = results.find(isValidShowAlertRecipients);
+            if (!recipients) throw new StatusError(`Bad or expired confirmation code for ${confirm.email}`);
+            return newJsonResponse({ showUuid: showUuidInput, ...computeRecipientsJson(recipients) });
+        }
+        if (!Array.isArray(emails) || emails.length > MAX_ALERT_EMAILS_PER_SHOW || !emails.every(isValidAlertEmail)) throw new StatusError(`Expected emails array of up to ${MAX_ALERT_EMAILS_PER_SHOW} email addresses`);
+        const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'update', targetPath: `/show/shows/${showUuid}/alerts/recipients`, parameters: { emails: JSON.stringify(emails) } }, DoNames.showServer);
+        if (typeof message === 'string') throw new Error(message);
+        const recipients = results.find(isValidShowAlertRecipients);
+        if (!recipients) throw new Error(`Expected recipients`);
+        return newJsonResponse({ showUuid: showUuidInput, ...computeRecipientsJson(recipients) });
+    }
+
+    const targetRpcClient = searchParams.has('ro') ? roRpcClient : rpcClient;
+    if (!targetRpcClient) throw new Error(`Need rpcClient`);
+
+    const { results = [], message } = await targetRpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: `/show/shows/${showUuid}/alerts` }, DoNames.showServer);
+    if (typeof message === 'string') throw new Error(message);
+    const status = results.filter(isValidShowAlertStatus).at(0);
+    const recipients = writable && statsBlobs ? computeRecipientsJson(await loadShowAlertRecipients({ showUuid, statsBlobs })) : undefined; // only shown to those who can change them
+    return newJsonResponse({ showUuid: showUuidInput, checked: status?.checked, alerts: status?.alerts ?? [], resolved: status?.resolved ?? [], ...recipients });
+}
+
 export async function lookupShowUuidForPodcastGuid(podcastGuid: string, { rpcClient, roRpcClient, searchParams, rawIpAddress }: { rpcClient: RpcClient, roRpcClient: RpcClient | undefined, searchParams: URLSearchParams, rawIpAddress?: string }): Promise<string | undefined> {
     const targetRpcClient = searchParams.has('ro') ? roRpcClient : rpcClient;
     if (!targetRpcClient) throw new Error(`Need rpcClient`);
@@ -223,6 +484,10 @@ export function computeStatsPageUrl({ showUuid, origin }: { showUuid: string, or
 
 export const DEMO_SHOW_1 = 'dc1852e4d1ee4bce9c4fb7f5d8be8908';
 
+const MAX_LISTEN_SESSIONS = 100;
+const MAX_PACING_PEERS = 10;
+const PEER_PACING_MAX_AGE_MILLIS = 6 * 60 * 60 * 1000;
+
 //
 
 async function computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, statsBlobs, roStatsBlobs, configuration }: { showUuidInput: string, searchParams: URLSearchParams, statsBlobs?: Blobs, roStatsBlobs?: Blobs, configuration: Configuration }): Promise<{ showUuid: string, targetStatsBlobs: Blobs }> {
@@ -234,6 +499,23 @@ async function computeStatsBlobsAndShowUuid({ showUuidInput, searchParams, stats
     return { showUuid, targetStatsBlobs };
 }
 
+function canWriteShow({ showUuid, permissions, shows }: { showUuid: string, permissions: ReadonlySet<ApiTokenPermission>, shows: ReadonlySet<string> }): boolean {
+    // show mutations require a token scoped to the show (or admin)
+    return permissions.has('admin') || shows.has(showUuid);
+}
+
+function computeRecipientsJson({ emails, confirmed = [], pending = [] }: ShowAlertRecipients) {
+    // never the confirmation code hashes
+    return { emails, confirmedEmails: confirmed, pendingEmails: pending.map(v => v.email) };
+}
+
+async function computeWebhooksShowUuid(showUuidInput: string, configuration: Configuration): Promise<string> {
+    check('showUuid', showUuidInput, isValidUuid);
+    const showUuid = await computeUnderlyingShowUuid(showUuidInput, configuration);
+    check('showUuid', showUuid, isValidUuid);
+    return showUuid;
+}
+
 const computeStubShowSummary = (showUuid: string, period: string): ShowSummary => ({
     showUuid,
     period,
@@ -310,6 +592,76 @@ function computeApiShowStatsResponse(showUuidInput: string, underlyingResponse:
     return underlyingResponse;
 }
 
+function computeRecentSummaryStats({ monthSummary, currentMonthSummary }: { monthSummary?: ShowSummary, currentMonthSummary?: ShowSummary }): Pick<ApiShowSummaryStatsResponse, 'recentDownloads' | 'recentDailyDownloads' | 'lastCalendarMonthTopApps'> {
+    const { dailyDownloads, lastDate } = computeDailyDownloadsFromSummaries([ monthSummary, currentMonthSummary ].filter(isValidShowSummary));
+    const recentDailyDownloads = lastDate ? Object.fromEntries([ ...Array(RECENT_DAYS).keys() ].reverse().map(v => addDaysToDateString(lastDate, -v)).map(v => [ v, dailyDownloads[v] ?? 0 ])) : undefined;
+    const recentDownloads = recentDailyDownloads ? total(recentDailyDownloads) : undefined;
+    const appDownloads = monthSummary?.dimensionDownloads?.appName;
+    const lastCalendarMonthTopApps = appDownloads ? Object.fromEntries(Object.entries(appDownloads).sort(compareByDescending(v => v[1])).slice(0, TOP_APPS)) : undefined;
+    return { recentDownloads, recentDailyDownloads, lastCalendarMonthTopApps };
+}
+
+const RECENT_DAYS = 30;
+const TOP_APPS = 5;
+
+async function selectShowgroupPeers(showUuid: string, rpcClient: RpcClient): Promise<{ showUuid: string, showgroupId: string }[]> {
+    const { results = [], message } = await rpcClient.adminExecuteDataQuery({ operationKind: 'select', targetPath: '/show/showgroups' }, DoNames.showServer);
+    if (typeof message === 'string') throw new Error(message);
+    const rt = new Map<string, string>(); // peer showUuid -> first showgroupId
+    for (const { id, showUuidWeights } of results.filter(isShowgroupRecord)) {
+        if (!(showUuid in showUuidWeights)) continue;
+        for (const [ peerShowUuid ] of Object.entries(showUuidWeights).sort(compareByDescending(v => v[1]))) {
+            if (peerShowUuid !== showUuid && !rt.has(peerShowUuid)) rt.set(peerShowUuid, id);
+        }
+    }
+    return [ ...rt ].slice(0, MAX_PACING_PEERS).map(([ showUuid, showgroupId ]) => ({ showUuid, showgroupId }));
+}
+
+function computeApiShowEpisodePacingResponse({ showUuidInput, pacing, episodeInfos, peers }: { showUuidInput: string, pacing: ShowEpisodePacing, episodeInfos: readonly EpisodeInfo[], peers: { showgroupId: string, pacing: ShowEpisodePacing }[] }): ApiShowEpisodePacingResponse {
+    const computeDaysRecord = (fn: (days: PacingDays) => number | undefined) => Object.fromEntries(PACING_DAYS.flatMap(days => {
+        const value = fn(days);
+        return value === undefined ? [] : [ [ days.toString(), value ] ];
+    }));
+    const catalogValues = Object.fromEntries(PACING_DAYS.map(days => [ days, computeWindowValues(pacing.episodes, days) ]));
+    const peerValues = Object.fromEntries(PACING_DAYS.map(days => [ days, peers.flatMap(v => computeWindowValues(v.pacing.episodes, days)) ]));
+    const infos = new Map(episodeInfos.map(v => [ v.id, v ]));
+
+    const episodes: ApiEpisodePacing[] = Object.entries(pacing.episodes).map(([ episodeId, { firstHour, downloads } ]) => {
+        const { title, pubdate } = infos.get(episodeId) ?? {};
+        return {
+            episodeId,
+            title,
+            pubdate,
+            firstHour,
+            downloads: computeDaysRecord(days => downloads[`downloads${days}`]),
+            catalogPercentiles: computeDaysRecord(days => { const v = downloads[`downloads${days}`]; return v === undefined ? undefined : computePercentileRank(v, catalogValues[days]); }),
+            peerPercentiles: computeDaysRecord(days => { const v = downloads[`downloads${days}`]; return v === undefined ? undefined : computePercentileRank(v, peerValues[days]); }),
+        };
+    }).sort(compareByDescending(v => v.firstHour));
+
+    return {
+        showUuid: showUuidInput,
+        asof: pacing.lastHour ? `${addHoursToHourString(pacing.lastHour, 1)}:00:00.000Z` : undefined,
+        days: [ ...PACING_DAYS ],
+        catalogMedians: computeDaysRecord(days => computeMedian(catalogValues[days])),
+        peerMedians: computeDaysRecord(days => computeMedian(peerValues[days])),
+        episodes,
+        peers: peers.map(({ showgroupId, pacing }) => ({ showUuid: pacing.showUuid, showgroupId, episodes: Object.keys(pacing.episodes).length, medians: computeDaysRecord(days => computeMedian(computeWindowValues(pacing.episodes, days))) })),
+    };
+}
+
+function computeEpisodePacingCsv({ days, catalogMedians, peerMedians, episodes }: ApiShowEpisodePacingResponse): string {
+    const escape = (value: string) => /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+    const lines = [ 'episodeId,title,pubdate,firstHour,days,downloads,catalogPercentile,peerPercentile,catalogMedian,peerMedian' ];
+    for (const { episodeId, title, pubdate, firstHour, downloads, catalogPercentiles, peerPercentiles } of episodes) {
+        for (const n of days.map(v => v.toString())) {
+            if (downloads[n] === undefined) continue;
+            lines.push([ episodeId, escape(title ?? ''), pubdate ?? '', firstHour, n, downloads[n], catalogPercentiles[n] ?? '', peerPercentiles[n] ?? '', catalogMedians[n] ?? '', peerMedians[n] ?? '' ].join(','));
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
 const DEMO_SHOW_1_TITLE = 'Example Travel Podcast';
 
 const DEMO_SHOW_1_REFERRER_DOMAINS = [
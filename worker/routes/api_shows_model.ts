@@ -1,4 +1,3 @@
-
 export interface ApiShowsResponse {
     readonly showUuid: string;
     readonly title?: string;
@@ -7,7 +6,22 @@ export interface ApiShowsResponse {
     readonly episodes?: readonly EpisodeInfo[];
 }
 
-export type EpisodeInfo = { readonly id: string, readonly title?: string, readonly pubdate?: string, readonly itemGuid?: string };
+export type EpisodeInfo = {
+    readonly id: string,
+    readonly title?: string,
+    readonly pubdate?: string,
+    readonly itemGuid?: string,
+    readonly enclosureLength?: number, // bytes
+    readonly enclosureType?: string,
+    readonly episodeType?: string, // full, trailer or bonus
+    readonly season?: number,
+    readonly seasonName?: string,
+    readonly episode?: number,
+    readonly episodeDisplay?: string,
+    readonly persons?: readonly { readonly name: string, readonly role?: string, readonly group?: string }[],
+    readonly soundbites?: readonly { readonly startTime: number, readonly duration: number, readonly title?: string }[], // seconds
+    readonly location?: string,
+};
 
 export interface ApiShowStatsResponse {
     readonly showUuid: string;
@@ -18,6 +32,7 @@ export interface ApiShowStatsResponse {
     readonly dailyFoundAudience: Record<string, number>;
     readonly monthlyDimensionDownloads: Record<string, Record<string, Record<string, number>>>;
     readonly episodeListens?: Record<string, { minuteMaps: string[], appCounts: Record<string, number> }>;
+    readonly episodeRetention?: Record<string, { listeners: number, curve: number[], medianMinutes?: number, p75Minutes?: number, hotspots: { minute: number, drop: number }[] }>; // itemGuid -> percent of listeners present at each minute
     readonly knownAppLinks?: Record<string, string>;
 }
 
@@ -26,5 +41,52 @@ export interface ApiShowSummaryStatsResponse {
     readonly lastCalendarMonth?: string;
     readonly lastCalendarMonthDownloads?: number;
     readonly lastCalendarMonthAudience?: number;
+    readonly lastCalendarMonthTopApps?: Record<string, number>; // appName -> downloads, top five only (recent=include)
+    readonly recentDownloads?: number; // total over the 30 most recent summarized days (recent=include)
+    readonly recentDailyDownloads?: Record<string, number>; // date (e.g. 2024-01-31) -> downloads, oldest first (recent=include)
+    readonly times?: Record<string, number>;
+}
+
+export interface ApiShowEpisodeCoverageResponse {
+    readonly showUuid: string;
+    readonly month: string;
+    readonly episodes: Record<string, ApiEpisodeCoverage>; // episodeId -> coverage
     readonly times?: Record<string, number>;
 }
+
+export interface ApiEpisodeCoverage {
+    readonly audiences: number;
+    readonly unknownLength: number; // audiences with no known enclosure length
+    readonly unknownRanges?: number; // audiences with an open-ended request (incl. no range header), not estimated
+    readonly enclosureLength?: number; // bytes
+    readonly medianPercent?: number; // 0-100
+    readonly distribution: Record<string, number>; // estimated percent-of-file-fetched bucket (0, 10, ... 90, 100) -> audiences
+}
+
+export interface ApiShowEpisodePacingResponse {
+    readonly showUuid: string;
+    readonly asof?: string; // instant at the end of the most recent summarized hour
+    readonly days: readonly number[]; // pacing windows, e.g. 1, 3, 7, 30, 60
+    readonly catalogMedians: Record<string, number>; // window days -> median downloads across this show's episodes
+    readonly peerMedians: Record<string, number>; // window days -> median downloads across all peer episodes
+    readonly episodes: readonly ApiEpisodePacing[]; // newest first
+    readonly peers: readonly ApiPeerPacing[]; // other shows in the same showgroups
+    readonly times?: Record<string, number>;
+}
+
+export interface ApiEpisodePacing {
+    readonly episodeId: string;
+    readonly title?: string;
+    readonly pubdate?: string;
+    readonly firstHour: string; // hour (e.g. 2024-01-01T10) first download seen
+    readonly downloads: Record<string, number>; // window days -> cumulative downloads, only for fully elapsed windows
+    readonly catalogPercentiles: Record<string, number>; // window days -> 0-100 vs this show's episodes
+    readonly peerPercentiles: Record<string, number>; // window days -> 0-100 vs all peer episodes
+}
+
+export interface ApiPeerPacing {
+    readonly showUuid: string;
+    readonly showgroupId: string;
+    readonly episodes: number;
+    readonly medians: Record<string, number>; // window days -> median downloads across the peer's episodes
+}
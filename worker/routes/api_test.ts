@@ -1,5 +1,5 @@
-import { assertEquals } from '../tests/deps.ts';
-import { computeNamespaceSuffix } from './api.ts';
+import { assert, assertEquals } from '../tests/deps.ts';
+import { computeNamespaceSuffix, computeShowScopeViolation, ShowMediaUrls } from './api.ts';
 
 Deno.test({
     name: 'computeNamespaceSuffix',
@@ -18,3 +18,71 @@ Deno.test({
         }
     }
 });
+
+Deno.test({
+    name: 'computeShowScopeViolation',
+    fn: async () => {
+        const showUuid = '1fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d';
+        const otherShowUuid = '2fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d';
+        const shows = new Set([ showUuid ]);
+        const flatShowUuid = '3fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d';
+        const mediaUrls: Record<string, ShowMediaUrls> = {
+            [showUuid]: { urls: [ 'https://media.example.com/show1/episode1.mp3' ], prefixes: [ 'https://media.example.com/show1/' ] },
+            [otherShowUuid]: { urls: [ 'https://media.example.com/show2/episode1.mp3', 'https://flat.example.com/other1.mp3' ], prefixes: [ 'https://media.example.com/show2/' ] },
+            [flatShowUuid]: { urls: [ 'https://flat.example.com/flat1.mp3', 'https://flat.example.com/flat2.mp3' ], prefixes: [] }, // shares a flat-layout host with another show: no prefix
+        };
+        const lookupMediaUrls = (v: string) => Promise.resolve(mediaUrls[v] ?? { urls: [], prefixes: [] });
+        const check = (path: string, query = '', scope = shows) => computeShowScopeViolation({ path, searchParams: new URLSearchParams(query), shows: scope, lookupMediaUrls });
+
+        // unscoped tokens
+        assertEquals(await check('/hits', '', new Set()), undefined);
+        assertEquals(await check(`/shows/${otherShowUuid}/stats`, '', new Set()), undefined);
+
+        // show endpoints
+        assertEquals(await check(`/shows/${showUuid}`), undefined);
+        assertEquals(await check(`/shows/${showUuid}/stats`), undefined);
+        assert(await check(`/shows/${otherShowUuid}/stats`));
+        assert(await check(`/shows/ff1a1a8d-0b2c-5d5e-9f1f-a1fa8d0b2c4d`));
+        assertEquals(await check(`/downloads/show/${showUuid}`), undefined);
+        assert(await check(`/downloads/show/${otherShowUuid}`));
+
+        // queries
+        assert(await check('/queries/top-apps'));
+        assert(await check('/queries/recent-episodes-with-transcripts'));
+        assert(await check('/queries/show-download-counts'));
+        assertEquals(await check('/queries/show-download-counts', `showUuid=${showUuid}`), undefined);
+        assert(await check('/queries/show-download-counts', `showUuid=${showUuid}&showUuid=${otherShowUuid}`));
+        assert(await check('/queries/top-apps-for-show', 'podcastGuid=ff1a1a8d-0b2c-5d5e-9f1f-a1fa8d0b2c4d'));
+
+        // everything else is denied
+        assert(await check('/feeds/search'));
+        assert(await check('/feeds/analyze'));
+        assert(await check('/notifications'));
+        assert(await check('/session-tokens'));
+
+        // hits
+        assertEquals(await check('/hits', 'url=https://op3.dev/e/media.example.com/show1/*'), undefined);
+        assertEquals(await check('/hits', 'url=https://op3.dev/e/https://media.example.com/show1/episode1.mp3'), undefined);
+        assert(await check('/hits', 'url=https://op3.dev/e/media.example.com/*'));
+        assert(await check('/hits', 'url=https://op3.dev/e/media.example.com/show2/*'));
+        assert(await check('/hits'));
+        assert(await check('/hits', 'hashedIpAddress=abcd'));
+        assert(await check('/redirect-logs', 'edgeColo=SEA'));
+        assertEquals(await check('/hits/aggregate', 'url=https://op3.dev/e/media.example.com/show1/*&groupBy=country'), undefined);
+        assert(await check('/hits/aggregate', 'groupBy=country'));
+        assert(await check('/hits', 'url=https://op3.dev/e/media.example.com/show1/../show2/*'));
+
+        // hits, two shows on the same flat-layout host
+        const flatShows = new Set([ flatShowUuid ]);
+        assertEquals(await check('/hits', 'url=https://op3.dev/e/flat.example.com/flat1.mp3', flatShows), undefined);
+        assertEquals(await check('/hits', 'url=https://op3.dev/e/https://flat.example.com/flat2.mp3', flatShows), undefined);
+        assert(await check('/hits', 'url=https://op3.dev/e/flat.example.com/*', flatShows));
+        assert(await check('/hits', 'url=https://op3.dev/e/flat.example.com/flat1.mp3*', flatShows)); // wildcards go beyond the known urls
+        assert(await check('/hits', 'url=https://op3.dev/e/flat.example.com/other1.mp3', flatShows));
+        assert(await check('/redirect-logs', 'url=https://op3.dev/e/flat.example.com/*', flatShows));
+
+        // non-show endpoints are denied, apart from the token's own api key audit trail
+        assert(await check('/api-keys'));
+        assertEquals(await check('/api-keys/1fa1fa8d0b2c4d5e9f1fa1fa8d0b2c4d/audit'), undefined);
+    }
+});
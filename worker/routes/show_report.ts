@@ -0,0 +1,267 @@
+import { METROS } from '../../app/metros.ts';
+import { Blobs } from '../backend/blobs.ts';
+import { computeShowSummaryKey, isValidShowSummary } from '../backend/show_summaries.ts';
+import { Configuration } from '../configuration.ts';
+import { encodeXml } from '../deps.ts';
+import { SHOW_UUID_REDIRECTS } from '../redirects.ts';
+import { RpcClient } from '../rpc_model.ts';
+import { total } from '../summaries.ts';
+import { addDaysToDateString, addMonthsToMonthString } from '../timestamp.ts';
+import { compute404Response } from './404.ts';
+import { computeAppDownloads, computeRelativeSummary, insertZeros } from './api_shared.ts';
+import { computeShowsResponse, computeShowStatsObj } from './api_shows.ts';
+import { ApiShowsResponse, ApiShowStatsResponse } from './api_shows_model.ts';
+
+export type ShowReportRequest = { showUuid: string, month: string };
+
+export function tryParseShowReportRequest({ method, pathname }: { method: string, pathname: string }): ShowReportRequest | undefined {
+    const m = /^\/show\/([0-9a-f]{32})\/reports\/(\d{4}-(0[1-9]|1[012]))$/.exec(pathname);
+    return method === 'GET' && m ? { showUuid: m[1], month: m[2] } : undefined;
+}
+
+export interface ShowReport {
+    readonly showUuid: string;
+    readonly title?: string;
+    readonly month: string; // e.g. 2024-01
+    readonly issued: string; // instant
+    readonly downloads: number;
+    readonly dailyDownloads: Record<string, number>; // date -> downloads, every day of the month
+    readonly audience?: number; // sum of daily found audience, if computed for the month
+    readonly episodes: readonly ShowReportEpisode[]; // most downloaded first
+    readonly topApps: Record<string, number>; // name -> downloads, most downloaded first
+    readonly topDevices: Record<string, number>;
+    readonly topCountries: Record<string, number>; // country code -> downloads
+    readonly topMetros: Record<string, number>; // metro code -> downloads
+}
+
+export interface ShowReportEpisode {
+    readonly id: string;
+    readonly title?: string;
+    readonly pubdate?: string;
+    readonly downloads: number; // in the report month
+    readonly downloads1?: number; // first 24 hours, only for episodes first downloaded in the report month or the one before
+    readonly downloads7?: number;
+    readonly downloads30?: number;
+}
+
+/** Summarize a single month from show stats loaded for that month (and the month before, for episode pacing). */
+export function computeShowReport({ show, stats, month, issued }: { show: ApiShowsResponse, stats: ApiShowStatsResponse, month: string, issued: string }): ShowReport | undefined {
+    const { showUuid, title, episodes: episodeInfos = [] } = show;
+    const { months, episodeFirstHours, hourlyDownloads, episodeHourlyDownloads, dailyFoundAudience, monthlyDimensionDownloads } = stats;
+
+    const monthHours = Object.entries(hourlyDownloads).filter(v => v[0].startsWith(month));
+    if (monthHours.length === 0) return undefined;
+
+    const dailyDownloads: Record<string, number> = {};
+    for (let date = `${month}-01`; date.startsWith(month); date = addDaysToDateString(date, 1)) dailyDownloads[date] = 0;
+    for (const [ hour, downloads ] of monthHours) dailyDownloads[hour.substring(0, 10)] += downloads;
+    const downloads = total(dailyDownloads);
+
+    const audienceDates = Object.keys(dailyFoundAudience).filter(v => v.startsWith(month));
+    const audience = audienceDates.length > 0 ? audienceDates.reduce((a, b) => a + dailyFoundAudience[b], 0) : undefined;
+
+    const firstLoadedHour = `${months[0] ?? month}-01T00`;
+    const episodes = episodeInfos.flatMap(({ id, title: episodeTitle, pubdate }) => {
+        const episodeDownloads = Object.entries(episodeHourlyDownloads[id] ?? {}).filter(v => v[0].startsWith(month)).reduce((a, b) => a + b[1], 0);
+        if (episodeDownloads === 0) return [];
+        const firstHour = episodeFirstHours[id];
+        const pacing = firstHour && firstHour >= firstLoadedHour ? computeRelativeSummary(insertZeros(episodeHourlyDownloads[id] ?? {})) : undefined;
+        return [ { id, title: episodeTitle, pubdate, downloads: episodeDownloads, downloads1: pacing?.downloads1, downloads7: pacing?.downloads7, downloads30: pacing?.downloads30 } ];
+    }).sort((a, b) => b.downloads - a.downloads).slice(0, MAX_EPISODES);
+
+    const dimensionDownloads = monthlyDimensionDownloads[month] ?? {};
+    const topApps = computeTop(computeAppDownloads({ ...dimensionDownloads, appName: { ...dimensionDownloads.appName } }));
+    const topDevices = computeTop(dimensionDownloads.deviceName ?? {});
+    const topCountries = computeTop(dimensionDownloads.countryCode ?? {});
+    const topMetros = computeTop(dimensionDownloads.metroCode ?? {});
+
+    return { showUuid, title, month, issued, downloads, dailyDownloads, audience, episodes, topApps, topDevices, topCountries, topMetros };
+}
+
+/** Self-contained printable html, no external resources. */
+export function computeShowReportHtml(report: ShowReport, { origin }: { origin: string }): string {
+    const { showUuid, title, month, issued, downloads, dailyDownloads, audience, episodes, topApps, topDevices, topCountries, topMetros } = report;
+    const showTitle = title ?? '(untitled)';
+    const monthName = new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }).format(new Date(`${month}-01T00:00:00.000Z`));
+    const days = Object.keys(dailyDownloads).length;
+    const reportUrl = `${origin}/show/${showUuid}/reports/${month}`;
+    const formatOptional = (n: number | undefined) => n === undefined ? '—' : formatNumber(n);
+
+    const headline = [
+        [ 'Downloads', formatNumber(downloads) ],
+        [ 'Average daily downloads', formatNumber(Math.round(downloads / days)) ],
+        ...(audience !== undefined ? [ [ 'Monthly audience', formatNumber(audience) ] ] : []),
+    ];
+    const episodeRows = episodes.map(v => `<tr><td>${encodeXml(v.title ?? '(untitled)')}</td><td>${v.pubdate ? v.pubdate.substring(0, 10) : ''}</td><td>${formatNumber(v.downloads)}</td><td>${formatOptional(v.downloads1)}</td><td>${formatOptional(v.downloads7)}</td><td>${formatOptional(v.downloads30)}</td></tr>`);
+
+    return [
+        `<!DOCTYPE html>`,
+        `<html lang="en">`,
+        `<head>`,
+        `<meta charset="utf-8">`,
+        `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+        `<meta name="robots" content="noindex">`,
+        `<title>${encodeXml(showTitle)} · ${monthName} · OP3 report</title>`,
+        `<style>${REPORT_CSS}</style>`,
+        `</head>`,
+        `<body>`,
+        `<header><div class="brand">OP3 <span>The Open Podcast Prefix Project</span></div><h1>${encodeXml(showTitle)}</h1><div class="muted">Monthly report · ${monthName}</div></header>`,
+        `<section class="headline">${headline.map(([ label, value ]) => `<div><div class="value">${value}</div><div class="muted">${label}</div></div>`).join('')}</section>`,
+        `<section><h2>Daily downloads</h2>${computeDailyDownloadsSvg(dailyDownloads)}</section>`,
+        `<section><h2>Episodes</h2>`,
+        episodeRows.length > 0 ? `<table><thead><tr><th>Episode</th><th>Published</th><th>Downloads this month</th><th>First 24 hours</th><th>First 7 days</th><th>First 30 days</th></tr></thead><tbody>${episodeRows.join('')}</tbody></table>` : `<p class="muted">No episode downloads</p>`,
+        `</section>`,
+        `<section class="tops">`,
+        computeTopTable('Top apps', topApps, v => v, downloads),
+        computeTopTable('Top devices', topDevices, v => v, downloads),
+        computeTopTable('Top countries', topCountries, computeCountryName, downloads),
+        computeTopTable('Top metros', topMetros, v => METROS[v] ?? v, downloads),
+        `</section>`,
+        `<footer class="muted">Issued ${issued.substring(0, 10)} from OP3 download data, counted using the <a href="${origin}/download-calculation">OP3 download calculation</a>.<br>This report: <a href="${encodeXml(reportUrl)}">${encodeXml(reportUrl)}</a> · Live stats: <a href="${origin}/show/${showUuid}">${origin}/show/${showUuid}</a></footer>`,
+        `</body>`,
+        `</html>`,
+    ].join('\n');
+}
+
+export function computeShowReportKey({ showUuid, month }: ShowReportRequest): string {
+    return `reports/show/${showUuid}/${showUuid}-${month}.report.html`;
+}
+
+/** Whether a month's report can be stored for good: the month summary includes its last day, and a few days have passed for late summaries. */
+export function isShowReportFinal({ showUuid, month, sources, now }: { showUuid: string, month: string, sources: Record<string, string>, now: Date }): boolean {
+    const lastDay = addDaysToDateString(`${addMonthsToMonthString(month, 1)}-01`, -1);
+    if (sources[computeShowSummaryKey({ showUuid, period: lastDay })] === undefined) return false;
+    return now.toISOString().substring(0, 10) > addDaysToDateString(lastDay, REPORT_GRACE_DAYS);
+}
+
+type Opts = {
+    searchParams: URLSearchParams,
+    instance: string,
+    hostname: string,
+    origin: string,
+    productionOrigin: string,
+    cfAnalyticsToken: string | undefined,
+    rpcClient: RpcClient,
+    roRpcClient: RpcClient | undefined,
+    statsBlobs: Blobs | undefined,
+    roStatsBlobs: Blobs | undefined,
+    configuration: Configuration,
+};
+
+/** Reports are generated on first request once the month is complete, then served as-is from stats blobs once final (see isShowReportFinal). */
+export async function computeShowReportResponse(req: ShowReportRequest, opts: Opts): Promise<Response> {
+    const { showUuid, month } = req;
+    const { searchParams, instance, hostname, origin, productionOrigin, cfAnalyticsToken, rpcClient, roRpcClient, statsBlobs, roStatsBlobs, configuration } = opts;
+
+    const compute404 = (reason: string) => {
+        console.log(`Returning 404: ${reason}`);
+        return compute404Response({ instance, origin, hostname, productionOrigin, cfAnalyticsToken });
+    }
+
+    const redirectToShowUuid = SHOW_UUID_REDIRECTS[showUuid];
+    if (redirectToShowUuid) {
+        const location = `${origin}/show/${redirectToShowUuid}/reports/${month}`;
+        return new Response(`👉 ${location}`, { status: 308, headers: { location } });
+    }
+
+    const currentMonth = new Date().toISOString().substring(0, 7);
+    if (month >= currentMonth) return compute404(`Month not yet complete: ${month}`);
+
+    const ro = searchParams.has('ro');
+    const targetStatsBlobs = ro ? roStatsBlobs : statsBlobs;
+    if (!targetStatsBlobs) return compute404('No stats blobs');
+
+    const key = computeShowReportKey({ showUuid, month });
+    const existing = await targetStatsBlobs.get(key, 'stream-and-meta');
+    if (existing) return newReportResponse(existing.stream, { etag: existing.etag });
+
+    const showsSearchParams = new URLSearchParams(ro ? { ro: '', episodes: 'include' } : { episodes: 'include' });
+    const statsSearchParams = new URLSearchParams({ ...(ro ? { ro: '' } : {}), latestMonth: month, lookbackMonths: '1' });
+    const [ showRes, stats, monthSummary ] = await Promise.all([
+        computeShowsResponse({ method: 'GET', searchParams: showsSearchParams, showUuidOrPodcastGuidOrFeedUrlBase64: showUuid, rpcClient, roRpcClient, configuration, origin }),
+        computeShowStatsObj({ showUuid, method: 'GET', searchParams: statsSearchParams, statsBlobs, roStatsBlobs, configuration }),
+        targetStatsBlobs.get(computeShowSummaryKey({ showUuid, period: month }), 'json'),
+    ]);
+    if (showRes.status !== 200) return compute404(`Unexpected show response status: ${showRes.status}`);
+    const show = await showRes.json() as ApiShowsResponse;
+
+    const now = new Date();
+    const report = computeShowReport({ show, stats, month, issued: now.toISOString() });
+    if (!report) return compute404(`No downloads for show ${showUuid} in ${month}`);
+    const html = computeShowReportHtml(report, { origin });
+    const final = isValidShowSummary(monthSummary) && isShowReportFinal({ showUuid, month, sources: monthSummary.sources, now });
+    if (!final) return newReportResponse(html, { maxAge: PROVISIONAL_CACHE_SECONDS }); // render, but don't store until the month's summaries are complete
+    if (ro) return newReportResponse(html);
+
+    const { etag } = await targetStatsBlobs.put(key, html);
+    return newReportResponse(html, { etag });
+}
+
+//
+
+const MAX_EPISODES = 20;
+const MAX_TOP = 10;
+const REPORT_GRACE_DAYS = 3;
+const CACHE_SECONDS = 60 * 60 * 24;
+const PROVISIONAL_CACHE_SECONDS = 60 * 60;
+
+const REPORT_CSS = `
+@page { size: A4; margin: 16mm; }
+* { box-sizing: border-box; }
+body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #111827; max-width: 56rem; margin: 2rem auto; padding: 0 1rem; font-size: 14px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+@media print { body { margin: 0; max-width: none; padding: 0; } section { break-inside: avoid; } }
+a { color: #2563eb; }
+h1 { margin: 0.5rem 0 0.25rem; font-size: 1.75rem; }
+h2 { font-size: 1.1rem; margin: 2rem 0 0.75rem; }
+.brand { font-weight: 700; color: #2563eb; }
+.brand span { font-weight: 400; color: #6b7280; margin-left: 0.5rem; }
+.muted { color: #6b7280; }
+.headline { display: flex; gap: 3rem; margin-top: 2rem; }
+.headline .value { font-size: 1.75rem; font-weight: 600; }
+table { width: 100%; border-collapse: collapse; }
+th, td { text-align: left; padding: 0.3rem 0.5rem 0.3rem 0; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+th { font-weight: 600; font-size: 0.8rem; color: #6b7280; }
+td:not(:first-child), th:not(:first-child) { text-align: right; white-space: nowrap; }
+.tops { display: grid; grid-template-columns: 1fr 1fr; column-gap: 2rem; }
+footer { margin-top: 3rem; font-size: 0.8rem; line-height: 1.5; }
+`;
+
+function newReportResponse(body: ReadableStream<Uint8Array> | string, { etag, maxAge = CACHE_SECONDS }: { etag?: string, maxAge?: number } = {}): Response {
+    return new Response(body, { headers: { 'content-type': 'text/html; charset=utf-8', 'cache-control': `public, max-age=${maxAge}`, ...(etag ? { etag } : {}) } });
+}
+
+function computeTop(downloads: Record<string, number>): Record<string, number> {
+    return Object.fromEntries(Object.entries(downloads).sort((a, b) => b[1] - a[1]).slice(0, MAX_TOP));
+}
+
+function formatNumber(n: number): string {
+    return new Intl.NumberFormat('en-US').format(n);
+}
+
+function computeCountryName(countryCode: string): string {
+    if (countryCode === 'T1') return 'Tor traffic';
+    if (countryCode === 'XX') return 'Unknown';
+    try {
+        return (countryCode.length === 2 ? new Intl.DisplayNames([ 'en' ], { type: 'region' }).of(countryCode) : undefined) ?? countryCode;
+    } catch {
+        return countryCode;
+    }
+}
+
+function computeTopTable(title: string, downloads: Record<string, number>, computeName: (key: string) => string, monthDownloads: number): string {
+    const rows = Object.entries(downloads).map(([ key, n ]) => `<tr><td>${encodeXml(computeName(key))}</td><td>${formatNumber(n)}</td><td>${(n / monthDownloads * 100).toFixed(1)}%</td></tr>`);
+    return `<div><h2>${title}</h2>${rows.length > 0 ? `<table><tbody>${rows.join('')}</tbody></table>` : `<p class="muted">No data</p>`}</div>`;
+}
+
+function computeDailyDownloadsSvg(dailyDownloads: Record<string, number>): string {
+    const entries = Object.entries(dailyDownloads);
+    const [ width, height, gap ] = [ 800, 160, 2 ];
+    const max = Math.max(1, ...entries.map(v => v[1]));
+    const barWidth = width / entries.length;
+    const bars = entries.map(([ date, downloads ], i) => {
+        const barHeight = Math.round(downloads / max * (height - 20));
+        return `<rect x="${(i * barWidth).toFixed(1)}" y="${height - 20 - barHeight}" width="${(barWidth - gap).toFixed(1)}" height="${barHeight}" fill="#2563eb"><title>${date}: ${formatNumber(downloads)}</title></rect>`;
+    });
+    const labels = entries.flatMap(([ date ], i) => i % 7 === 0 ? [ `<text x="${(i * barWidth).toFixed(1)}" y="${height - 4}" font-size="11" fill="#6b7280">${date.substring(5)}</text>` ] : []);
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Daily downloads">${bars.join('')}${labels.join('')}</svg>`;
+}
@@ -0,0 +1,58 @@
+import { assertEquals } from '../tests/deps.ts';
+import { computeShowReport, computeShowReportHtml, isShowReportFinal, tryParseShowReportRequest } from './show_report.ts';
+
+Deno.test({
+    name: 'tryParseShowReportRequest',
+    fn: () => {
+        const showUuid = '0123456789abcdef0123456789abcdef';
+        assertEquals(tryParseShowReportRequest({ method: 'GET', pathname: `/show/${showUuid}/reports/2024-01` }), { showUuid, month: '2024-01' });
+        assertEquals(tryParseShowReportRequest({ method: 'GET', pathname: `/show/${showUuid}/reports/2024-13` }), undefined);
+        assertEquals(tryParseShowReportRequest({ method: 'POST', pathname: `/show/${showUuid}/reports/2024-01` }), undefined);
+    }
+});
+
+Deno.test({
+    name: 'computeShowReport',
+    fn: () => {
+        const showUuid = '0123456789abcdef0123456789abcdef';
+        const show = { showUuid, title: 'Show & Tell', statsPageUrl: '', episodes: [ { id: 'ep1', title: 'Episode 1', pubdate: '2024-01-30T12:00:00.000Z' }, { id: 'ep2', title: 'Episode 2' }, { id: 'ep3', title: 'Episode 3' } ] };
+        const stats = {
+            showUuid,
+            months: [ '2023-12', '2024-01' ],
+            episodeFirstHours: { ep1: '2024-01-30T12', ep2: '2023-01-01T00', ep3: '2023-12-01T00' },
+            hourlyDownloads: { '2023-12-31T00': 100, '2024-01-01T00': 5, '2024-01-01T01': 5, '2024-01-30T12': 20 },
+            episodeHourlyDownloads: { ep1: { '2024-01-30T12': 20 }, ep2: { '2024-01-01T00': 5, '2024-01-01T01': 5 }, ep3: { '2023-12-31T00': 100 } },
+            dailyFoundAudience: { '2023-12-31': 50, '2024-01-01': 7, '2024-01-30': 10 },
+            monthlyDimensionDownloads: { '2024-01': { appName: { 'Overcast': 10, 'Apple Podcasts': 20 }, countryCode: { US: 25, XX: 5 } } },
+        };
+        const report = computeShowReport({ show, stats, month: '2024-01', issued: '2024-02-01T00:00:00.000Z' });
+        if (!report) throw new Error(`Expected report`);
+        assertEquals(report.downloads, 30);
+        assertEquals(Object.keys(report.dailyDownloads).length, 31);
+        assertEquals(report.dailyDownloads['2024-01-01'], 10);
+        assertEquals(report.audience, 17);
+        assertEquals(report.episodes.map(v => [ v.id, v.downloads ]), [ [ 'ep1', 20 ], [ 'ep2', 10 ] ]);
+        assertEquals(Object.keys(report.topApps), [ 'Apple Podcasts', 'Overcast' ]);
+        assertEquals(stats.monthlyDimensionDownloads['2024-01'].appName, { 'Overcast': 10, 'Apple Podcasts': 20 }); // not modified
+
+        const html = computeShowReportHtml(report, { origin: 'https://op3.example' });
+        assertEquals(html.includes('<h1>Show &amp; Tell</h1>'), true);
+        assertEquals(html.includes('January 2024'), true);
+        assertEquals(html.includes('https://op3.example/show/0123456789abcdef0123456789abcdef/reports/2024-01'), true);
+        assertEquals(html.includes('United States'), true);
+
+        assertEquals(computeShowReport({ show, stats, month: '2024-02', issued: '2024-03-01T00:00:00.000Z' }), undefined);
+    }
+});
+
+Deno.test({
+    name: 'isShowReportFinal',
+    fn: () => {
+        const showUuid = '0123456789abcdef0123456789abcdef';
+        const sources = Object.fromEntries([ '2024-02-01', '2024-02-28', '2024-02-29' ].map(v => [ `summaries/show/${showUuid}/${showUuid}-${v}.summary.json`, 'etag' ]));
+        assertEquals(isShowReportFinal({ showUuid, month: '2024-02', sources, now: new Date('2024-03-10T00:00:00Z') }), true);
+        assertEquals(isShowReportFinal({ showUuid, month: '2024-02', sources, now: new Date('2024-03-03T23:59:59Z') }), false); // within the grace period
+        const { [`summaries/show/${showUuid}/${showUuid}-2024-02-29.summary.json`]: _, ...partial } = sources;
+        assertEquals(isShowReportFinal({ showUuid, month: '2024-02', sources: partial, now: new Date('2024-03-10T00:00:00Z') }), false); // last day not yet summarized
+    }
+});
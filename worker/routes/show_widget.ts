@@ -0,0 +1,160 @@
+import { Blobs } from '../backend/blobs.ts';
+import { checkMatches } from '../check.ts';
+import { Configuration } from '../configuration.ts';
+import { CfCache, encodeXml } from '../deps.ts';
+import { packError } from '../errors.ts';
+import { SHOW_UUID_REDIRECTS } from '../redirects.ts';
+import { compute404Response } from './404.ts';
+import { computeShowSummaryStatsObj } from './api_shows.ts';
+import { ApiShowSummaryStatsResponse } from './api_shows_model.ts';
+import { formatMessage } from './strings.ts';
+
+export type ShowWidgetRequest = { showUuid: string, format: 'svg' | 'html' };
+
+export function tryParseShowWidgetRequest({ method, pathname }: { method: string, pathname: string }): ShowWidgetRequest | undefined {
+    const m = /^\/show\/([0-9a-f]{32})\/(widget\.svg|embed)$/.exec(pathname);
+    return method === 'GET' && m ? { showUuid: m[1], format: m[2] === 'embed' ? 'html' : 'svg' } : undefined;
+}
+
+export interface ShowWidgetTheme {
+    readonly name: 'light' | 'dark';
+    readonly background: string; // css color, or 'none' for transparent
+    readonly foreground: string;
+    readonly muted: string;
+    readonly border: string;
+    readonly accent: string; // sparkline
+}
+
+/** Theme from query params: theme=light|dark, and optional accent=rrggbb, background=rrggbb|transparent overrides. */
+export function computeShowWidgetTheme(searchParams: URLSearchParams): ShowWidgetTheme {
+    const name = checkMatches('theme', searchParams.get('theme') ?? 'light', /^(light|dark)$/)[1] as 'light' | 'dark';
+    const theme = name === 'dark' ? DARK_THEME : LIGHT_THEME;
+    const accentParam = searchParams.get('accent') ?? undefined;
+    const backgroundParam = searchParams.get('background') ?? undefined;
+    const accent = accentParam !== undefined ? `#${checkMatches('accent', accentParam, /^[0-9a-f]{6}$/i)[0].toLowerCase()}` : theme.accent;
+    const background = backgroundParam === undefined ? theme.background
+        : backgroundParam === 'transparent' ? 'none'
+        : `#${checkMatches('background', backgroundParam, /^[0-9a-f]{6}$/i)[0].toLowerCase()}`;
+    return { ...theme, accent, background };
+}
+
+/** Small badge: downloads over the last 30 days, a daily sparkline, and top apps from the last calendar month. */
+export function computeShowWidgetSvg({ stats, theme }: { stats: ApiShowSummaryStatsResponse, theme: ShowWidgetTheme }): string {
+    const { recentDownloads = 0, recentDailyDownloads = {}, lastCalendarMonthTopApps = {} } = stats;
+    const { background, foreground, muted, border, accent } = theme;
+    const downloads = formatMessage(DOWNLOADS_MESSAGE, { count: recentDownloads });
+    const topApps = Object.keys(lastCalendarMonthTopApps).slice(0, 3).join(', ');
+    const topAppsText = topApps === '' ? undefined : truncate(`Top apps: ${topApps}`, 48);
+    const points = computeSparklinePoints(Object.values(recentDailyDownloads), { x: 196, y: 18, width: 88, height: 36 });
+    const label = `${downloads} in the last 30 days`;
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" role="img" aria-label="${encodeXml(label)}">`,
+        `<title>${encodeXml(label)}</title>`,
+        `<rect x="0.5" y="0.5" width="${WIDTH - 1}" height="${HEIGHT - 1}" rx="8" fill="${background}" stroke="${border}"/>`,
+        `<g font-family="system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif">`,
+        `<text x="16" y="34" font-size="20" font-weight="600" fill="${foreground}">${encodeXml(downloads)}</text>`,
+        `<text x="16" y="52" font-size="12" fill="${muted}">last 30 days · OP3</text>`,
+        ...(topAppsText ? [ `<text x="16" y="78" font-size="11" fill="${muted}">${encodeXml(topAppsText)}</text>` ] : []),
+        `</g>`,
+        ...(points ? [ `<polyline points="${points}" fill="none" stroke="${accent}" stroke-width="1.5" stroke-linejoin="round" stroke-linecap="round"/>` ] : []),
+        `</svg>`,
+    ].join('\n');
+}
+
+/** Polyline points scaled to fit the given box, or undefined if there is nothing to draw. */
+export function computeSparklinePoints(values: readonly number[], { x, y, width, height }: { x: number, y: number, width: number, height: number }): string | undefined {
+    if (values.length < 2) return undefined;
+    const max = Math.max(...values);
+    const round = (n: number) => Math.round(n * 10) / 10;
+    return values.map((v, i) => `${round(x + width * i / (values.length - 1))},${round(y + height - (max > 0 ? height * v / max : 0))}`).join(' ');
+}
+
+/** Edge cache key by show, format and theme: colors are stored without the '#', which would otherwise start a url fragment. */
+export function computeShowWidgetCacheKey({ origin, showUuid, format, theme }: { origin: string, showUuid: string, format: 'svg' | 'html', theme: ShowWidgetTheme }): string {
+    const u = new URL(`${origin}/show/${showUuid}/${format === 'html' ? 'embed' : 'widget.svg'}`);
+    u.searchParams.set('theme', theme.name);
+    u.searchParams.set('accent', theme.accent.replace(/^#/, ''));
+    u.searchParams.set('background', theme.background.replace(/^#/, ''));
+    return u.toString();
+}
+
+type Opts = {
+    searchParams: URLSearchParams,
+    instance: string,
+    hostname: string,
+    origin: string,
+    productionOrigin: string,
+    cfAnalyticsToken: string | undefined,
+    statsBlobs: Blobs | undefined,
+    roStatsBlobs: Blobs | undefined,
+    configuration: Configuration,
+    cache: CfCache | undefined,
+};
+
+export async function computeShowWidgetResponse(req: ShowWidgetRequest, opts: Opts): Promise<Response> {
+    const { showUuid, format } = req;
+    const { searchParams, instance, hostname, origin, productionOrigin, cfAnalyticsToken, statsBlobs, roStatsBlobs, configuration, cache } = opts;
+
+    const compute404 = (reason: string) => {
+        console.log(`Returning 404: ${reason}`);
+        return compute404Response({ instance, origin, hostname, productionOrigin, cfAnalyticsToken });
+    }
+
+    const suffix = format === 'html' ? 'embed' : 'widget.svg';
+    const redirectToShowUuid = SHOW_UUID_REDIRECTS[showUuid];
+    if (redirectToShowUuid) {
+        const u = new URL(`${origin}/show/${redirectToShowUuid}/${suffix}`);
+        searchParams.forEach((v, n) => u.searchParams.append(n, v));
+        const location = u.toString();
+        return new Response(`👉 ${location}`, { status: 308, headers: { location } });
+    }
+
+    let theme: ShowWidgetTheme;
+    try {
+        theme = computeShowWidgetTheme(searchParams);
+    } catch (e) {
+        return new Response(packError(e).message, { status: 400 });
+    }
+
+    // cache at the edge by show and theme, ignoring any other query params
+    const targetCache = searchParams.has('ro') ? undefined : cache;
+    const cacheKey = computeShowWidgetCacheKey({ origin, showUuid, format, theme });
+    const cached = await targetCache?.match(cacheKey);
+    if (cached) return cached;
+
+    const statsSearchParams = new URLSearchParams(searchParams.has('ro') ? { ro: '' } : {});
+    statsSearchParams.set('recent', 'include'); // required to load daily downloads and top apps
+    const stats = await computeShowSummaryStatsObj({ showUuid, method: 'GET', searchParams: statsSearchParams, statsBlobs, roStatsBlobs, configuration });
+    if (!stats) return compute404(`No public stats for show ${showUuid}`);
+
+    const svg = computeShowWidgetSvg({ stats, theme });
+    const headers = { 'content-type': format === 'html' ? 'text/html; charset=utf-8' : 'image/svg+xml', 'cache-control': `public, max-age=${CACHE_SECONDS}`, 'access-control-allow-origin': '*' };
+    const body = format === 'html' ? computeEmbedHtml({ svg, href: `${origin}/show/${showUuid}`, background: theme.background }) : svg;
+    const res = new Response(body, { headers });
+    if (targetCache) await targetCache.put(cacheKey, res.clone());
+    return res;
+}
+
+//
+
+const WIDTH = 300;
+const HEIGHT = 96;
+const CACHE_SECONDS = 60 * 60;
+const DOWNLOADS_MESSAGE = '{count, plural, one {# download} other {# downloads}}';
+
+const LIGHT_THEME: ShowWidgetTheme = { name: 'light', background: '#ffffff', foreground: '#111827', muted: '#6b7280', border: '#e5e7eb', accent: '#2563eb' };
+const DARK_THEME: ShowWidgetTheme = { name: 'dark', background: '#111827', foreground: '#f9fafb', muted: '#9ca3af', border: '#374151', accent: '#60a5fa' };
+
+function truncate(str: string, maxLength: number): string {
+    return str.length > maxLength ? `${str.substring(0, maxLength - 1)}…` : str;
+}
+
+function computeEmbedHtml({ svg, href, background }: { svg: string, href: string, background: string }): string {
+    return [
+        `<!DOCTYPE html>`,
+        `<html>`,
+        `<head><meta charset="utf-8"><meta name="robots" content="noindex"><style>html, body { margin: 0; background: ${background === 'none' ? 'transparent' : background}; } a { display: block; line-height: 0; }</style></head>`,
+        `<body><a href="${encodeXml(href)}" target="_blank" rel="noopener">${svg}</a></body>`,
+        `</html>`,
+    ].join('\n');
+}
@@ -0,0 +1,65 @@
+import { assertEquals, assertThrows } from '../tests/deps.ts';
+import { computeShowWidgetCacheKey, computeShowWidgetSvg, computeShowWidgetTheme, computeSparklinePoints, tryParseShowWidgetRequest } from './show_widget.ts';
+
+Deno.test({
+    name: 'tryParseShowWidgetRequest',
+    fn: () => {
+        const showUuid = '0123456789abcdef0123456789abcdef';
+        assertEquals(tryParseShowWidgetRequest({ method: 'GET', pathname: `/show/${showUuid}/widget.svg` }), { showUuid, format: 'svg' });
+        assertEquals(tryParseShowWidgetRequest({ method: 'GET', pathname: `/show/${showUuid}/embed` }), { showUuid, format: 'html' });
+        assertEquals(tryParseShowWidgetRequest({ method: 'POST', pathname: `/show/${showUuid}/embed` }), undefined);
+        assertEquals(tryParseShowWidgetRequest({ method: 'GET', pathname: `/show/${showUuid}/widget.png` }), undefined);
+    }
+});
+
+Deno.test({
+    name: 'computeShowWidgetTheme',
+    fn: () => {
+        assertEquals(computeShowWidgetTheme(new URLSearchParams()).name, 'light');
+        const dark = computeShowWidgetTheme(new URLSearchParams({ theme: 'dark', accent: 'FF0000', background: 'transparent' }));
+        assertEquals([ dark.name, dark.accent, dark.background ], [ 'dark', '#ff0000', 'none' ]);
+        assertThrows(() => computeShowWidgetTheme(new URLSearchParams({ theme: 'blue' })));
+        assertThrows(() => computeShowWidgetTheme(new URLSearchParams({ accent: 'red;"' })));
+        assertThrows(() => computeShowWidgetTheme(new URLSearchParams({ background: '#ffffff' })));
+    }
+});
+
+Deno.test({
+    name: 'computeShowWidgetCacheKey',
+    fn: () => {
+        const showUuid = '0123456789abcdef0123456789abcdef';
+        const key = computeShowWidgetCacheKey({ origin: 'https://op3.example', showUuid, format: 'svg', theme: computeShowWidgetTheme(new URLSearchParams({ background: 'ABCDEF' })) });
+        assertEquals(key, `https://op3.example/show/${showUuid}/widget.svg?theme=light&accent=2563eb&background=abcdef`);
+        assertEquals(new URL(key).hash, '');
+        const other = computeShowWidgetCacheKey({ origin: 'https://op3.example', showUuid, format: 'svg', theme: computeShowWidgetTheme(new URLSearchParams({ background: '123456' })) });
+        assertEquals(other === key, false);
+        assertEquals(computeShowWidgetCacheKey({ origin: 'https://op3.example', showUuid, format: 'html', theme: computeShowWidgetTheme(new URLSearchParams({ theme: 'dark', background: 'transparent' })) }), `https://op3.example/show/${showUuid}/embed?theme=dark&accent=60a5fa&background=none`);
+    }
+});
+
+Deno.test({
+    name: 'computeSparklinePoints',
+    fn: () => {
+        const box = { x: 0, y: 0, width: 10, height: 10 };
+        assertEquals(computeSparklinePoints([], box), undefined);
+        assertEquals(computeSparklinePoints([ 5 ], box), undefined);
+        assertEquals(computeSparklinePoints([ 0, 0 ], box), '0,10 10,10');
+        assertEquals(computeSparklinePoints([ 0, 10, 5 ], box), '0,10 5,0 10,5');
+    }
+});
+
+Deno.test({
+    name: 'computeShowWidgetSvg',
+    fn: () => {
+        const theme = computeShowWidgetTheme(new URLSearchParams());
+        const svg = computeShowWidgetSvg({ theme, stats: { showUuid: '0123456789abcdef0123456789abcdef', recentDownloads: 12345, recentDailyDownloads: { '2024-01-01': 1, '2024-01-02': 2 }, lastCalendarMonthTopApps: { 'Apple Podcasts': 10, 'Tom & Jerry': 5 } } });
+        assertEquals(svg.includes('12,345 downloads'), true);
+        assertEquals(svg.includes('Top apps: Apple Podcasts, Tom &amp; Jerry'), true);
+        assertEquals(svg.includes('<polyline'), true);
+
+        const empty = computeShowWidgetSvg({ theme, stats: { showUuid: '0123456789abcdef0123456789abcdef' } });
+        assertEquals(empty.includes('0 downloads'), true);
+        assertEquals(empty.includes('Top apps'), false);
+        assertEquals(empty.includes('<polyline'), false);
+    }
+});
@@ -1,5 +1,6 @@
-export function replacePlaceholders(str: string, nameValuePairs: string | number | [string, string | number][]): string {
+export function replacePlaceholders(str: string, nameValuePairs: string | number | [string, string | number][], lang?: string): string {
     const nvps = Array.isArray(nameValuePairs) ? nameValuePairs : [ [ 'arg', nameValuePairs ] ];
+    if (isIcuMessage(str)) return nvps.length === 0 ? str : formatMessage(str, Object.fromEntries(nvps), lang); // no args: defer formatting to js
     let i = 0;
     return str.replace(/%[dDsS]/g, (sub) => {
         const nvp = nvps[i];
@@ -9,6 +10,62 @@ export function replacePlaceholders(str: string, nameValuePairs: string | number
     });
 }
 
+export type MessageArg = string | number | Date;
+
+/**
+ * ICU-style message formatting, e.g. '{count, plural, one {# download} other {# downloads}}'
+ *
+ * Supports simple {name} arguments, {name, number[, integer|percent]}, {name, date[, short|medium|long|full]},
+ * {name, plural, =0 {...} one {...} other {...}} with # as the locale-formatted number, and {name, select, a {...} other {...}}.
+ * Quote literal braces with apostrophes: '{' and a literal apostrophe with ''.
+ */
+export function formatMessage(message: string, args: Record<string, MessageArg>, lang?: string): string {
+    const locale = lang === undefined || lang === 'up' ? 'en-US' : lang;
+    const format = (parts: readonly MessagePart[], pluralValue?: number): string => parts.map(part => {
+        if (typeof part === 'string') return part;
+        if (part.kind === 'pound') return pluralValue === undefined ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+        const { name, kind, style, options = {} } = part;
+        const value = args[name];
+        if (value === undefined) throw new Error(`Missing message argument: ${name}`);
+        if (kind === 'plural') {
+            const n = Number(value);
+            const selected = options[`=${n}`] ?? options[new Intl.PluralRules(locale).select(n)] ?? options.other;
+            return format(selected, n);
+        }
+        if (kind === 'select') return format(options[value.toString()] ?? options.other, pluralValue);
+        if (kind === 'date' || value instanceof Date) {
+            const dateStyle = style === 'short' || style === 'long' || style === 'full' ? style : 'medium';
+            return new Intl.DateTimeFormat(locale, { dateStyle, timeZone: 'UTC' }).format(value instanceof Date ? value : new Date(value));
+        }
+        if (kind === 'number' || typeof value === 'number') {
+            const opts: Intl.NumberFormatOptions = style === 'integer' ? { maximumFractionDigits: 0 } : style === 'percent' ? { style: 'percent' } : {};
+            return new Intl.NumberFormat(locale, opts).format(Number(value));
+        }
+        return value;
+    }).join('');
+    return format(parseMessage(message));
+}
+
+export function isIcuMessage(str: string): boolean {
+    return /{\s*\w+\s*[,}]/.test(str);
+}
+
+/** Placeholders a translation must preserve: one '%' per positional placeholder, and each ICU argument name (with its type). */
+export function computeMessagePlaceholders(str: string): string[] {
+    const rt = (str.match(/%[dDsS]/g) ?? []).map(_ => '%');
+    if (!isIcuMessage(str)) return rt;
+    const args = new Set<string>();
+    const collect = (parts: readonly MessagePart[]) => {
+        for (const part of parts) {
+            if (typeof part === 'string' || part.kind === 'pound') continue;
+            args.add(part.kind === 'arg' ? `{${part.name}}` : `{${part.name}, ${part.kind}}`);
+            Object.values(part.options ?? {}).forEach(collect);
+        }
+    };
+    collect(parseMessage(str));
+    return [ ...rt, ...[ ...args ].sort() ];
+}
+
 export function computeStringArgs(args: unknown): { character_limit?: number, nameValuePairs: [ string, string ][] } {
     let character_limit: number | undefined;
     const nameValuePairs: [ string, string ][] = [];
@@ -54,11 +111,11 @@ export function processTemplate(template: string, variables: Record<string, stri
                 if (typeof character_limit === 'number' && character_limit !== existing[1].character_limit) throw new Error(`Cannot redefine charlimit: ${variableExpression}`);
                 if (stringValue !== '' && stringValue !== existing[1].string) throw new Error(`Cannot redefine string: ${variableExpression}`);
                 const translated = replaceWithTranslation(stringName, existing[1].string, translatedStrings, lang);
-                return replacePlaceholders(translated, nameValuePairs);
+                return replacePlaceholders(translated, nameValuePairs, lang);
             } else {
                 entries.push([ stringName, { string: stringValue, character_limit } ]);
                 const translated = replaceWithTranslation(stringName, stringValue, translatedStrings, lang);
-                return replacePlaceholders(translated, nameValuePairs);
+                return replacePlaceholders(translated, nameValuePairs, lang);
             }
         } else {
             throw new Error(`Unsupported variable expression: ${variableExpression}`);
@@ -72,7 +129,7 @@ export type TranslatedStrings = Record<string /* stringName/key */, Record<strin
 
 export function replaceWithTranslation(stringName: string, stringValue: string, translatedStrings: TranslatedStrings | undefined, lang: string | undefined) {
     if (lang === undefined) return stringValue;
-    if (lang === 'up') return toUppercaseExceptMarkup(stringValue);
+    if (lang === 'up') return isIcuMessage(stringValue) ? mapMessageText(stringValue, toUppercaseExceptMarkup) : toUppercaseExceptMarkup(stringValue);
     if (translatedStrings === undefined) return stringValue;
     const translations = translatedStrings[stringName]; if (translations === undefined) return stringValue;
     return translations[lang] ?? stringValue;
@@ -92,10 +149,6 @@ export function toUppercaseExceptMarkup(input: string): string {
     return rt.join('');
 }
 
-export function pluralize(n: number, strings: Record<string, string>, singleKey: string, pluralKey: string, format?: Intl.NumberFormat): string {
-    return replacePlaceholders(strings[n === 1 ? singleKey : pluralKey], (format ?? withCommas).format(n));
-}
-
 export function computePreferredSupportedLanguage({ langParam, acceptLanguage }: { langParam?: string, acceptLanguage?: string }): string | undefined {
     // *
     // de-DE
@@ -157,4 +210,100 @@ export class Translations {
 
 //
 
-const withCommas = new Intl.NumberFormat('en-US');
+type MessagePart = string | { readonly kind: 'pound' } | MessageArgument;
+
+type MessageArgument = {
+    readonly kind: 'arg' | 'number' | 'date' | 'plural' | 'select',
+    readonly name: string,
+    readonly style?: string,
+    readonly options?: Record<string, readonly MessagePart[]>,
+};
+
+function parseMessage(message: string): MessagePart[] {
+    let i = 0;
+    const fail: (reason: string) => never = reason => { throw new Error(`Bad message (${reason} at ${i}): ${message}`); };
+    const skipWhitespace = () => { while (i < message.length && /\s/.test(message[i])) i++; };
+    const readUntil = (pattern: RegExp) => {
+        const start = i;
+        while (i < message.length && !pattern.test(message[i])) i++;
+        return message.substring(start, i).trim();
+    };
+    const parseParts = (inPlural: boolean): MessagePart[] => {
+        const parts: MessagePart[] = [];
+        let text = '';
+        const flush = () => { if (text !== '') parts.push(text); text = ''; };
+        while (i < message.length) {
+            const c = message[i];
+            if (c === '}') break;
+            if (c === '{') {
+                flush();
+                parts.push(parseArgument());
+            } else if (c === '#' && inPlural) {
+                flush();
+                parts.push({ kind: 'pound' });
+                i++;
+            } else if (c === `'` && message[i + 1] === `'`) {
+                text += `'`;
+                i += 2;
+            } else if (c === `'` && /[{}#]/.test(message[i + 1] ?? '')) {
+                const end = message.indexOf(`'`, i + 1);
+                text += message.substring(i + 1, end < 0 ? message.length : end);
+                i = end < 0 ? message.length : end + 1;
+            } else {
+                text += c;
+                i++;
+            }
+        }
+        flush();
+        return parts;
+    };
+    const parseArgument = (): MessageArgument => {
+        i++; // {
+        const name = readUntil(/[,}]/);
+        if (!/^\w+$/.test(name)) fail('bad argument name');
+        if (message[i] === '}') { i++; return { kind: 'arg', name }; }
+        i++; // ,
+        const type = readUntil(/[,}]/);
+        if (type === 'number' || type === 'date') {
+            const style = message[i] === ',' ? (i++, readUntil(/}/)) : undefined;
+            if (message[i] !== '}') fail('unterminated argument');
+            i++;
+            return { kind: type, name, style: style || undefined };
+        }
+        if (type !== 'plural' && type !== 'select') fail(`unsupported argument type ${type}`);
+        if (message[i] !== ',') fail('missing options');
+        i++;
+        const options: Record<string, MessagePart[]> = {};
+        while (true) {
+            skipWhitespace();
+            if (message[i] === '}') { i++; break; }
+            const selector = readUntil(/[\s{}]/);
+            if (selector === '') fail('missing selector');
+            skipWhitespace();
+            if (message[i] !== '{') fail('missing option message');
+            i++;
+            options[selector] = parseParts(type === 'plural');
+            if (message[i] !== '}') fail('unterminated option message');
+            i++;
+        }
+        if (!options.other) fail(`missing 'other' option`);
+        return { kind: type, name, options };
+    };
+    const rt = parseParts(false);
+    if (i < message.length) fail('unexpected }');
+    return rt;
+}
+
+function mapMessageText(message: string, fn: (text: string) => string): string {
+    // rewrite literal text only, leaving argument names and selectors alone
+    const quote = (text: string) => text.replaceAll(`'`, `''`).replace(/[{}#]+/g, v => `'${v}'`);
+    const serialize = (parts: readonly MessagePart[]): string => parts.map(part => {
+        if (typeof part === 'string') return quote(fn(part));
+        if (part.kind === 'pound') return '#';
+        const { kind, name, style, options } = part;
+        if (kind === 'arg') return `{${name}}`;
+        if (!options) return `{${name}, ${kind}${style ? `, ${style}` : ''}}`;
+        return `{${name}, ${kind}, ${Object.entries(options).map(([ selector, parts ]) => `${selector} {${serialize(parts)}}`).join(' ')}}`;
+    }).join('');
+    return serialize(parseMessage(message));
+}
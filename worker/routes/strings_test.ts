@@ -1,5 +1,6 @@
-import { assertEquals } from '../tests/deps.ts';
-import { computePreferredSupportedLanguage, toUppercaseExceptMarkup } from './strings.ts';
+import { importText } from '../deps.ts';
+import { assertEquals, assertThrows } from '../tests/deps.ts';
+import { computeMessagePlaceholders, computePreferredSupportedLanguage, formatMessage, replacePlaceholders, replaceWithTranslation, StructuredJsonStrings, toUppercaseExceptMarkup, TranslatedStrings } from './strings.ts';
 
 Deno.test({
     name: 'computePreferredSupportedLanguage',
@@ -46,3 +47,54 @@ Deno.test({
         }
     }
 });
+
+Deno.test({
+    name: 'formatMessage',
+    fn: () => {
+        const downloads = '{count, plural, =0 {No downloads} one {# download} other {# downloads}}';
+        assertEquals(formatMessage(downloads, { count: 0 }), 'No downloads');
+        assertEquals(formatMessage(downloads, { count: 1 }), '1 download');
+        assertEquals(formatMessage(downloads, { count: 1234 }), '1,234 downloads');
+        assertEquals(formatMessage(downloads, { count: 1234 }, 'de'), '1.234 downloads');
+
+        const pl = '{count, plural, one {# pobranie} few {# pobrania} many {# pobrań} other {# pobrania}}';
+        assertEquals([ 1, 2, 5, 22, 25, 1.5 ].map(count => formatMessage(pl, { count }, 'pl')), [ '1 pobranie', '2 pobrania', '5 pobrań', '22 pobrania', '25 pobrań', '1,5 pobrania' ]);
+        const ar = '{count, plural, zero {zero} one {one} two {two} few {few} many {many} other {other}}'; // categories only, digits vary by numbering system
+        assertEquals([ 0, 1, 2, 3, 11, 100 ].map(count => formatMessage(ar, { count }, 'ar')), [ 'zero', 'one', 'two', 'few', 'many', 'other' ]);
+
+        assertEquals(formatMessage('{who, select, host {Your show} other {{who}}} has {n, number} episodes', { who: 'host', n: 1000 }), 'Your show has 1,000 episodes');
+        assertEquals(formatMessage('{who, select, host {Your show} other {{who}}} has {n, number} episodes', { who: 'Example', n: 1000 }, 'fr'), 'Example has 1\u202f000 episodes');
+        assertEquals(formatMessage('{ratio, number, percent} as of {day, date, long}', { ratio: 0.5, day: new Date('2024-03-01T00:00:00Z') }), '50% as of March 1, 2024');
+        assertEquals(formatMessage(`It''s '{literal}' and '#'`, {}), `It's {literal} and #`);
+
+        assertThrows(() => formatMessage('{count, plural, one {# download}}', { count: 1 })); // missing other
+        assertThrows(() => formatMessage('{count}', {})); // missing arg
+        assertThrows(() => formatMessage('{count, plural, one {# download} other {# downloads}', { count: 1 })); // unterminated
+    }
+});
+
+Deno.test({
+    name: 'replacePlaceholders',
+    fn: () => {
+        assertEquals(replacePlaceholders('Page %d of %d', [ [ 'page', 1 ], [ 'pages', 2 ] ]), 'Page 1 of 2');
+        assertEquals(replacePlaceholders('{count, plural, one {# hour} other {# hours}}', [ [ 'count', 2 ] ]), '2 hours');
+        assertEquals(replacePlaceholders('{count, plural, one {# hour} other {# hours}}', []), '{count, plural, one {# hour} other {# hours}}'); // deferred
+        assertEquals(replaceWithTranslation('n_hours', '{count, plural, one {# hour} other {<b>#</b> hours}}', undefined, 'up'), '{count, plural, one {# HOUR} other {<b>#</b> HOURS}}');
+    }
+});
+
+Deno.test({
+    name: 'translations preserve placeholders',
+    fn: async () => {
+        for (const page of [ 'show_page', 'home_page', 'setup_page', 'download_calculation_page' ]) {
+            const strings = JSON.parse(await importText(import.meta.url, `../strings/${page}.strings.json`)) as StructuredJsonStrings;
+            const translations = JSON.parse(await importText(import.meta.url, `../strings/${page}.translations.json`)) as TranslatedStrings;
+            for (const [ stringName, { string } ] of Object.entries(strings)) {
+                const expected = computeMessagePlaceholders(string);
+                for (const [ lang, translated ] of Object.entries(translations[stringName] ?? {})) {
+                    assertEquals(computeMessagePlaceholders(translated), expected, `${page} ${stringName} ${lang}`);
+                }
+            }
+        }
+    }
+});
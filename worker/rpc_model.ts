@@ -1,6 +1,6 @@
 // deno-lint-ignore-file no-explicit-any
 
-import { check, isStringRecord } from './check.ts';
+import { check, isStringRecord, isValidInstant } from './check.ts';
 import { isValidUuid } from './uuid.ts';
 
 export type RpcRequest = 
@@ -206,7 +206,7 @@ export interface QueryRedirectLogsRequest {
     readonly kind: 'query-redirect-logs';
 
     readonly limit: number;
-    readonly format?: string; // tsv, json-o, json-a
+    readonly format?: string; // tsv, json-o, json-a, ndjson, parquet
     readonly include?: string;
     readonly descending?: boolean;
 
@@ -223,6 +223,7 @@ export interface QueryRedirectLogsRequest {
     readonly rawIpAddress?: string; // only allow caller ip
     readonly ulid?: string;
     readonly xpsId?: string;
+    readonly resumeAfter?: string; // only supported by hits backend, see QueryHitsIndexRequest
 }
 
 export interface QueryHitsIndexRequest {
@@ -240,13 +241,20 @@ export interface QueryHitsIndexRequest {
 
     readonly url?: string;
     readonly urlStartsWith?: string;
+
+    readonly ulid?: string;
+    readonly xpsId?: string;
+    readonly userAgent?: string;
+    readonly referer?: string;
+
+    readonly resumeAfter?: string; // position within the first day read, from a prior partial response (tiered indexes only)
 }
 
 export interface QueryDownloadsRequest {
     readonly kind: 'query-downloads';
 
     readonly limit: number;
-    readonly format?: string; // tsv, json-o, json-a
+    readonly format?: string; // tsv, json-o, json-a, ndjson, parquet
 
     readonly startTimeInclusive?: string; // instant
     readonly startTimeExclusive?: string; // instant
@@ -268,6 +276,8 @@ export interface AdminGetMetricsRequest {
 export interface ResolveApiTokenRequest {
     readonly kind: 'resolve-api-token';
     readonly token: string;
+    readonly path?: string; // api endpoint path, for the audit trail
+    readonly colo?: string;
 }
 
 export interface ModifyApiKeyRequest {
@@ -277,6 +287,9 @@ export interface ModifyApiKeyRequest {
     readonly shows?: readonly string[];
     readonly name?: string;
     readonly action?: ModifyApiKeyAction;
+    readonly expires?: string; // instant, or empty string to remove the current token expiry
+    readonly tokenExpiryDays?: number; // tokens expire this many days after creation, 0 to disable, and are rotated automatically when first used within the grace period before then
+    readonly rotationGraceHours?: number; // old tokens remain valid this long after regenerating or rotating
 }
 
 export type ModifyApiKeyAction = 'delete-token' | 'regenerate-token' | { kind: 'block', reason: string } | 'unblock';
@@ -292,9 +305,15 @@ export function isUnkindedModifyApiKeyRequest(obj: unknown): obj is Unkinded<Mod
     && (obj.permissions === undefined || Array.isArray(obj.permissions) && obj.permissions.every(isSettableApiTokenPermission))
     && (obj.shows === undefined || Array.isArray(obj.shows) && obj.shows.every(isValidUuid))
     && (obj.name === undefined || typeof obj.name === 'string')
-    && (obj.action === undefined || isModifyApiKeyAction(obj.action));
+    && (obj.action === undefined || isModifyApiKeyAction(obj.action))
+    && (obj.expires === undefined || typeof obj.expires === 'string' && (obj.expires === '' || isValidInstant(obj.expires)))
+    && (obj.tokenExpiryDays === undefined || typeof obj.tokenExpiryDays === 'number' && Number.isSafeInteger(obj.tokenExpiryDays) && obj.tokenExpiryDays >= 0 && obj.tokenExpiryDays <= MAX_TOKEN_EXPIRY_DAYS)
+    && (obj.rotationGraceHours === undefined || typeof obj.rotationGraceHours === 'number' && Number.isSafeInteger(obj.rotationGraceHours) && obj.rotationGraceHours >= 0 && obj.rotationGraceHours <= MAX_ROTATION_GRACE_HOURS);
 }
 
+export const MAX_TOKEN_EXPIRY_DAYS = 366;
+export const MAX_ROTATION_GRACE_HOURS = 24 * 14;
+
 export interface GenerateNewApiKeyRequest {
     readonly kind: 'generate-new-api-key';
 }
@@ -414,11 +433,11 @@ export interface PackedRedirectLogsResponse extends PackedRedirectLogs {
     readonly kind: 'packed-redirect-logs';
 }
 
-export type SettableApiTokenPermission = 'preview' | 'read-data' | 'notification' | 'admin-metrics' | 'read-show';
+export type SettableApiTokenPermission = 'preview' | 'read-data' | 'notification' | 'admin-metrics' | 'read-show' | 'write-show' | 'write-listens';
 export type ApiTokenPermission = 'admin' | SettableApiTokenPermission;
 
 export function isSettableApiTokenPermission(value: string): value is SettableApiTokenPermission {
-    return value === 'preview' || value === 'read-data' || value === 'notification' || value === 'admin-metrics' || value === 'read-show';
+    return value === 'preview' || value === 'read-data' || value === 'notification' || value === 'admin-metrics' || value === 'read-show' || value === 'write-show' || value === 'write-listens';
 }
 
 export function hasPermission(permissions: ReadonlySet<ApiTokenPermission>, ...allowablePermissions: ApiTokenPermission[]): boolean {
@@ -429,6 +448,7 @@ export interface ResolveApiTokenResponse {
     readonly kind: 'resolve-api-token';
     readonly permissions?: readonly ApiTokenPermission[];
     readonly shows?: readonly string[];
+    readonly apiKey?: string;
     readonly reason?: 'invalid' | 'blocked' | 'expired';
 }
 
@@ -442,7 +462,11 @@ export interface ApiKeyInfo {
     readonly status: 'active' | 'inactive' /* no token */ | 'blocked';
     readonly token?: string;
     readonly tokenLastUsed?: string;
+    readonly tokenExpires?: string; // instant
     readonly blockReason?: string;
+    readonly tokenExpiryDays?: number; // expiry of new tokens, in days after creation
+    readonly rotationGraceHours?: number; // old tokens remain valid this long after 'regenerate-token' or an automatic rotation
+    readonly rotationEnds?: string; // instant the previous token expires after an automatic rotation, until then the new token is included in key lookups
 }
 
 export function isApiKeyInfo(obj: unknown): obj is ApiKeyInfo {
@@ -456,7 +480,11 @@ export function isApiKeyInfo(obj: unknown): obj is ApiKeyInfo {
         && typeof obj.status === 'string' && ['active', 'inactive', 'blocked'].includes(obj.status)
         && (obj.token === undefined || typeof obj.token === 'string')
         && (obj.tokenLastUsed === undefined || typeof obj.tokenLastUsed === 'string')
+        && (obj.tokenExpires === undefined || typeof obj.tokenExpires === 'string')
         && (obj.blockReason === undefined || typeof obj.blockReason === 'string')
+        && (obj.tokenExpiryDays === undefined || typeof obj.tokenExpiryDays === 'number')
+        && (obj.rotationGraceHours === undefined || typeof obj.rotationGraceHours === 'number')
+        && (obj.rotationEnds === undefined || typeof obj.rotationEnds === 'string')
         ;
 }
 
@@ -491,6 +519,20 @@ export function isApiTokenRecord(obj: unknown): obj is ApiTokenRecord {
         ;
 } 
 
+export interface ApiKeyAuditRecord {
+    readonly time: string; // instant, first use of this path and colo within the hour
+    readonly path: string; // api endpoint path, e.g. /shows/{uuid}/stats
+    readonly colo?: string;
+}
+
+export function isApiKeyAuditRecord(obj: unknown): obj is ApiKeyAuditRecord {
+    return isStringRecord(obj)
+        && typeof obj.time === 'string'
+        && typeof obj.path === 'string'
+        && (obj.colo === undefined || typeof obj.colo === 'string')
+        ;
+}
+
 export interface LogRawRedirectsBatchResponse {
     readonly kind: 'log-raw-redirects-batch';
     readonly processedMessageIds: readonly string[];
@@ -0,0 +1 @@
+export { DB } from 'https://deno.land/x/sqlite@v3.9.1/mod.ts';
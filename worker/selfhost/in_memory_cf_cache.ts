@@ -0,0 +1,57 @@
+import { CfCache, CfCacheOptions } from '../deps.ts';
+
+/** Stand-in for the Cloudflare edge cache when self-hosting, keeps responses in memory until their max-age (if any) has passed. */
+export class InMemoryCfCache implements CfCache {
+    private readonly maxEntries: number;
+    private readonly entries = new Map<string, Entry>();
+
+    constructor({ maxEntries = 1000 }: { maxEntries?: number } = {}) {
+        this.maxEntries = maxEntries;
+    }
+
+    async put(request: string | Request, response: Response): Promise<undefined> {
+        const cacheControl = response.headers.get('cache-control') ?? '';
+        if (/(no-store|private)/i.test(cacheControl) || response.status === 206 || response.headers.has('set-cookie')) return undefined;
+        const maxAge = /s-maxage=(\d+)/i.exec(cacheControl)?.[1] ?? /max-age=(\d+)/i.exec(cacheControl)?.[1];
+        const expires = maxAge === undefined ? undefined : Date.now() + parseInt(maxAge) * 1000;
+        const { status, statusText, headers } = response;
+        const body = await response.arrayBuffer();
+
+        const { entries, maxEntries } = this;
+        const key = computeKey(request);
+        entries.delete(key); // re-insert as newest
+        entries.set(key, { status, statusText, headers: [ ...headers ], body, expires });
+        for (const oldest of entries.keys()) {
+            if (entries.size <= maxEntries) break;
+            entries.delete(oldest);
+        }
+        return undefined;
+    }
+
+    async match(request: string | Request, _opts?: CfCacheOptions): Promise<Response | undefined> {
+        await Promise.resolve();
+        const key = computeKey(request);
+        const entry = this.entries.get(key);
+        if (!entry) return undefined;
+        const { status, statusText, headers, body, expires } = entry;
+        if (expires !== undefined && expires <= Date.now()) {
+            this.entries.delete(key);
+            return undefined;
+        }
+        return new Response(body.slice(0), { status, statusText, headers });
+    }
+
+    async delete(request: string | Request, _opts?: CfCacheOptions): Promise<boolean> {
+        await Promise.resolve();
+        return this.entries.delete(computeKey(request));
+    }
+
+}
+
+//
+
+type Entry = { status: number, statusText: string, headers: [ string, string ][], body: ArrayBuffer, expires?: number };
+
+function computeKey(request: string | Request): string {
+    return typeof request === 'string' ? request : request.url;
+}
@@ -0,0 +1,158 @@
+import { Bytes, DurableObjectNamespace, DurableObjectState } from '../deps.ts';
+import { consoleError, consoleWarn } from '../tracer.ts';
+import { generateUuid } from '../uuid.ts';
+import { SqliteDurableObjectStorage } from './sqlite_durable_object_storage.ts';
+
+export interface LocalDurableObject {
+    fetch(request: Request): Promise<Response>;
+    alarm?(): Promise<void>;
+}
+
+/**
+ * In-process DurableObjectNamespace, used when self-hosting.
+ *
+ * Each object is instantiated lazily in this process with its own SQLite storage file, so rpc calls made through the namespace
+ * (e.g. CloudflareRpcClient targeting a DoNames name) are routed directly to the object's fetch handler.
+ * Alarms are scheduled with timers, persisted in storage, and retried with backoff if the alarm handler throws.
+ * Fetches and alarms for a given object run one at a time, so an object must not fetch itself through the namespace.
+ */
+export class LocalDurableObjectNamespace implements DurableObjectNamespace {
+    private readonly dir: string;
+    private readonly newObject: (state: DurableObjectState) => LocalDurableObject;
+    private readonly newStorage: NewStorage;
+    private readonly instances = new Map<string, Instance>();
+
+    constructor({ dir, newObject, newStorage }: { dir: string, newObject: (state: DurableObjectState) => LocalDurableObject, newStorage?: NewStorage }) {
+        this.dir = dir.replace(/\/+$/, '');
+        this.newObject = newObject;
+        this.newStorage = newStorage ?? (({ path, onAlarmChanged }) => new SqliteDurableObjectStorage({ path, onAlarmChanged }));
+    }
+
+    newUniqueId(): LocalDurableObjectId {
+        return new LocalDurableObjectId(generateUuid());
+    }
+
+    idFromName(name: string): LocalDurableObjectId {
+        // reversible, so objects with pending alarms can be found by name after a restart
+        return new LocalDurableObjectId(Bytes.ofUtf8(name).hex(), name);
+    }
+
+    idFromString(hexStr: string): LocalDurableObjectId {
+        if (!/^([0-9a-f]{2})+$/.test(hexStr)) throw new Error(`Bad id: ${hexStr}`);
+        return new LocalDurableObjectId(hexStr);
+    }
+
+    get(id: LocalDurableObjectId) {
+        const { name } = id;
+        const fetch = async (input: string | Request, init?: RequestInit): Promise<Response> => {
+            const instance = this.getOrCreateInstance(id);
+            const request = new Request(input, init);
+            return await serialized(instance, () => instance.object.fetch(request));
+        };
+        return { id, name, fetch };
+    }
+
+    /** Re-arm alarms persisted by a previous run. */
+    async start(): Promise<void> {
+        await Deno.mkdir(this.dir, { recursive: true });
+        for await (const { name, isFile } of Deno.readDir(this.dir)) {
+            const m = /^([0-9a-f]+)\.sqlite3$/.exec(name);
+            if (!isFile || !m) continue;
+            const { storage } = this.getOrCreateInstance(this.idFromString(m[1]));
+            this.scheduleAlarm(m[1], await storage.getAlarm());
+        }
+    }
+
+    close() {
+        for (const { timer, storage } of this.instances.values()) {
+            clearTimeout(timer);
+            storage.close();
+        }
+        this.instances.clear();
+    }
+
+    //
+
+    private getOrCreateInstance(id: LocalDurableObjectId): Instance {
+        const key = id.toString();
+        const existing = this.instances.get(key);
+        if (existing) return existing;
+
+        const storage = this.newStorage({ path: `${this.dir}/${key}.sqlite3`, onAlarmChanged: scheduledTime => this.scheduleAlarm(key, scheduledTime) });
+        const state = {
+            id,
+            storage,
+            waitUntil: (promise: Promise<unknown>) => { promise.catch(e => consoleError('local-do-wait-until', `Unhandled error in waitUntil: ${(e as Error).stack || e}`)); },
+            blockConcurrencyWhile: async <T>(fn: () => Promise<T>) => await fn(),
+        } as unknown as DurableObjectState;
+        const instance: Instance = { object: this.newObject(state), storage, alarmRetries: 0, queue: Promise.resolve() };
+        this.instances.set(key, instance);
+        return instance;
+    }
+
+    private scheduleAlarm(key: string, scheduledTime: number | null) {
+        const instance = this.instances.get(key);
+        if (!instance) return;
+        clearTimeout(instance.timer);
+        instance.timer = undefined;
+        if (scheduledTime === null) return;
+        const delay = Math.min(Math.max(0, scheduledTime - Date.now()), MAX_TIMER_DELAY);
+        instance.timer = setTimeout(() => {
+            instance.timer = undefined;
+            if (Date.now() < scheduledTime) return this.scheduleAlarm(key, scheduledTime); // very distant alarm
+            serialized(instance, () => this.runAlarm(instance)).catch(e => consoleError('local-do-alarm', `Error running alarm: ${(e as Error).stack || e}`));
+        }, delay);
+    }
+
+    private async runAlarm(instance: Instance) {
+        const { object, storage } = instance;
+        await storage.deleteAlarm(); // the handler may set the next one
+        try {
+            if (object.alarm) await object.alarm();
+            instance.alarmRetries = 0;
+        } catch (e) {
+            if (instance.alarmRetries >= MAX_ALARM_RETRIES) {
+                consoleWarn('local-do-alarm', `Giving up on alarm after ${instance.alarmRetries} retries: ${(e as Error).stack || e}`);
+                instance.alarmRetries = 0;
+                return;
+            }
+            instance.alarmRetries++;
+            if (await storage.getAlarm() === null) await storage.setAlarm(Date.now() + 1000 * Math.pow(2, instance.alarmRetries));
+        }
+    }
+
+}
+
+export class LocalDurableObjectId {
+    readonly name?: string;
+    private readonly hex: string;
+
+    constructor(hex: string, name?: string) {
+        this.hex = hex;
+        this.name = name;
+    }
+
+    toString(): string {
+        return this.hex;
+    }
+
+    equals(other: LocalDurableObjectId): boolean {
+        return other.toString() === this.hex;
+    }
+
+}
+
+//
+
+const MAX_TIMER_DELAY = 2147483647; // setTimeout limit, about 24 days
+const MAX_ALARM_RETRIES = 6; // like Cloudflare
+
+type NewStorage = (opts: { path: string, onAlarmChanged: (scheduledTime: number | null) => void }) => SqliteDurableObjectStorage;
+
+type Instance = { object: LocalDurableObject, storage: SqliteDurableObjectStorage, alarmRetries: number, queue: Promise<unknown>, timer?: number };
+
+function serialized<T>(instance: Instance, fn: () => Promise<T>): Promise<T> {
+    const rt = instance.queue.then(fn);
+    instance.queue = rt.catch(() => {});
+    return rt;
+}
@@ -0,0 +1,56 @@
+import { DurableObjectState } from '../deps.ts';
+import { sleep } from '../sleep.ts';
+import { assertEquals } from '../tests/deps.ts';
+import { LocalDurableObject, LocalDurableObjectNamespace } from './local_durable_object_namespace.ts';
+import { SqliteDurableObjectStorage } from './sqlite_durable_object_storage.ts';
+
+Deno.test({
+    name: 'LocalDurableObjectNamespace',
+    fn: async () => {
+        const events: string[] = [];
+        class TestObject implements LocalDurableObject {
+            private readonly state: DurableObjectState;
+
+            constructor(state: DurableObjectState) {
+                this.state = state;
+            }
+
+            async fetch(request: Request): Promise<Response> {
+                const { pathname } = new URL(request.url);
+                events.push(`start ${pathname}`);
+                await sleep(10);
+                if (pathname === '/alarm') await this.state.storage.setAlarm(Date.now());
+                events.push(`end ${pathname}`);
+                return new Response(pathname);
+            }
+
+            async alarm() {
+                events.push('start alarm');
+                await sleep(10);
+                events.push('end alarm');
+            }
+        }
+        const namespace = new LocalDurableObjectNamespace({ dir: '/unused', newObject: state => new TestObject(state), newStorage: ({ onAlarmChanged }) => new SqliteDurableObjectStorage({ path: ':memory:', onAlarmChanged }) });
+        try {
+            const id = namespace.idFromName('backend');
+            assertEquals(id.name, 'backend');
+            assertEquals(namespace.idFromString(id.toString()).equals(id), true);
+            const stub = namespace.get(id);
+
+            // fetches to the same object run one at a time
+            const texts = await Promise.all([ '/a', '/b' ].map(async v => await (await stub.fetch(`https://do${v}`)).text()));
+            assertEquals(texts, [ '/a', '/b' ]);
+            assertEquals(events, [ 'start /a', 'end /a', 'start /b', 'end /b' ]);
+
+            // and so do alarms
+            events.splice(0);
+            await stub.fetch('https://do/alarm');
+            await sleep(1);
+            await stub.fetch('https://do/c');
+            for (let i = 0; i < 100 && events.length < 6; i++) await sleep(5);
+            assertEquals(events, [ 'start /alarm', 'end /alarm', 'start alarm', 'end alarm', 'start /c', 'end /c' ]);
+        } finally {
+            namespace.close();
+        }
+    }
+});
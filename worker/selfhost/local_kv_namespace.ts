@@ -0,0 +1,114 @@
+import { Bytes, DurableObjectStorage, KVNamespace, KVPutOptions, KVGetOptions, KVValueAndMetadata, KVListCompleteResult, KVListIncompleteResult, KVListOptions } from '../deps.ts';
+import { isStringRecord } from '../check.ts';
+
+/** KVNamespace persisted in a DurableObjectStorage, used when self-hosting. Expired keys are swept periodically on write. */
+export class LocalKVNamespace implements KVNamespace {
+    private readonly storage: DurableObjectStorage;
+
+    private nextSweepTime = 0;
+
+    constructor(storage: DurableObjectStorage) {
+        this.storage = storage;
+    }
+
+    async put(key: string, value: string | ReadableStream | ArrayBuffer, opts: KVPutOptions = {}): Promise<void> {
+        const { expiration, expirationTtl, metadata } = opts;
+        const bytes = typeof value === 'string' ? Bytes.ofUtf8(value) : new Bytes(new Uint8Array(value instanceof ArrayBuffer ? value : await new Response(value).arrayBuffer()));
+        const expirationSeconds = typeof expiration === 'number' ? expiration : typeof expirationTtl === 'number' ? Math.floor(Date.now() / 1000) + expirationTtl : undefined;
+        const record: KVRecord = { base64: bytes.base64(), expiration: expirationSeconds, metadata };
+        await this.storage.put(computeRecordKey(key), record);
+        await this.sweepExpiredIfDue();
+    }
+
+    get(key: string, opts?: KVGetOptions | { type: 'text' }): Promise<string | null>;
+    get(key: string, opts: KVGetOptions | { type: 'json' }): Promise<Record<string, unknown> | null>;
+    get(key: string, opts: KVGetOptions | { type: 'arrayBuffer' }): Promise<ArrayBuffer | null>;
+    get(key: string, opts: KVGetOptions | { type: 'stream' }): Promise<ReadableStream | null>;
+    async get(key: string, opts?: KVGetOptions): Promise<KVValue | null> {
+        const record = await this.getRecord(key);
+        return record ? computeValue(record, opts?.type) : null;
+    }
+
+    getWithMetadata(key: string, opts?: KVGetOptions | { type: 'text' }): Promise<KVValueAndMetadata<string> | null>;
+    getWithMetadata(key: string, opts: KVGetOptions | { type: 'json' }): Promise<KVValueAndMetadata<Record<string, unknown>> | null>;
+    getWithMetadata(key: string, opts: KVGetOptions | { type: 'arrayBuffer' }): Promise<KVValueAndMetadata<ArrayBuffer> | null>;
+    getWithMetadata(key: string, opts: KVGetOptions | { type: 'stream' }): Promise<KVValueAndMetadata<ReadableStream> | null>;
+    async getWithMetadata(key: string, opts?: KVGetOptions): Promise<KVValueAndMetadata<KVValue> | null> {
+        const record = await this.getRecord(key);
+        return record ? { value: computeValue(record, opts?.type), metadata: record.metadata ?? null } : null;
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.storage.delete(computeRecordKey(key));
+    }
+
+    async list(opts: KVListOptions = {}): Promise<KVListCompleteResult | KVListIncompleteResult> {
+        const { prefix = '', limit = 1000, cursor } = opts;
+        const now = Date.now() / 1000;
+        const map = await this.storage.list({ prefix: computeRecordKey(prefix), startAfter: cursor ? computeRecordKey(cursor) : undefined, limit });
+        const keys = [ ...map ].flatMap(([ recordKey, record ]) => isKVRecord(record) && !isExpired(record, now) ? [ { name: recordKey.substring(RECORD_PREFIX.length), expiration: record.expiration, metadata: record.metadata } ] : []);
+        if (map.size < limit) return { keys, list_complete: true } as KVListCompleteResult;
+        const lastName = [ ...map.keys() ][map.size - 1].substring(RECORD_PREFIX.length);
+        return { keys, list_complete: false, cursor: lastName } as KVListIncompleteResult;
+    }
+
+    //
+
+    private async sweepExpiredIfDue() {
+        const now = Date.now();
+        if (now < this.nextSweepTime) return;
+        this.nextSweepTime = now + SWEEP_INTERVAL_MILLIS;
+        let startAfter: string | undefined;
+        while (true) {
+            const map = await this.storage.list({ prefix: RECORD_PREFIX, startAfter, limit: SWEEP_BATCH_SIZE });
+            const expired = [ ...map ].filter(([ _, record ]) => isKVRecord(record) && isExpired(record, now / 1000)).map(v => v[0]);
+            if (expired.length > 0) await this.storage.delete(expired);
+            if (map.size < SWEEP_BATCH_SIZE) break;
+            startAfter = [ ...map.keys() ][map.size - 1];
+        }
+    }
+
+    private async getRecord(key: string): Promise<KVRecord | undefined> {
+        const record = await this.storage.get(computeRecordKey(key));
+        if (!isKVRecord(record)) return undefined;
+        if (!isExpired(record, Date.now() / 1000)) return record;
+        await this.storage.delete(computeRecordKey(key));
+        return undefined;
+    }
+
+}
+
+//
+
+const RECORD_PREFIX = 'kv.r.';
+const SWEEP_INTERVAL_MILLIS = 1000 * 60 * 60;
+const SWEEP_BATCH_SIZE = 128;
+
+type KVRecord = { base64: string, expiration?: number, metadata?: Record<string, unknown> }; // expiration in epoch seconds
+
+type KVValue = string | Record<string, unknown> | ArrayBuffer | ReadableStream; // one per get type
+
+function computeRecordKey(key: string): string {
+    return `${RECORD_PREFIX}${key}`;
+}
+
+function isKVRecord(obj: unknown): obj is KVRecord {
+    return isStringRecord(obj)
+        && typeof obj.base64 === 'string'
+        && (obj.expiration === undefined || typeof obj.expiration === 'number')
+        && (obj.metadata === undefined || isStringRecord(obj.metadata))
+        ;
+}
+
+function isExpired({ expiration }: KVRecord, nowSeconds: number): boolean {
+    return typeof expiration === 'number' && expiration <= nowSeconds;
+}
+
+function computeValue({ base64 }: KVRecord, type: string | undefined): KVValue {
+    const bytes = Bytes.ofBase64(base64);
+    if (type === undefined || type === 'text') return bytes.utf8();
+    if (type === 'json') return JSON.parse(bytes.utf8());
+    if (type === 'arrayBuffer') return bytes.array().buffer;
+    if (type === 'stream') return new Blob([ bytes.array() ]).stream();
+    throw new Error(`Unsupported type: ${type}`);
+}
@@ -0,0 +1,25 @@
+import { assertEquals, InMemoryDurableObjectStorage } from '../tests/deps.ts';
+import { LocalKVNamespace } from './local_kv_namespace.ts';
+
+Deno.test({
+    name: 'LocalKVNamespace',
+    fn: async () => {
+        const storage = new InMemoryDurableObjectStorage();
+        const nowSeconds = Math.floor(Date.now() / 1000);
+        await storage.put('kv.r.expired', { base64: btoa('old'), expiration: nowSeconds - 60 }); // e.g. left by a previous run, never read since
+        const kv = new LocalKVNamespace(storage);
+
+        await kv.put('a', 'hello', { metadata: { m: 1 } });
+        await kv.put('b', JSON.stringify({ c: 'd' }), { expirationTtl: 60 });
+        assertEquals(await kv.get('a'), 'hello');
+        assertEquals(await kv.get('b', { type: 'json' }), { c: 'd' });
+        assertEquals(await kv.getWithMetadata('a'), { value: 'hello', metadata: { m: 1 } });
+        assertEquals(await kv.get('missing'), null);
+
+        assertEquals([ ...(await storage.list()).keys() ], [ 'kv.r.a', 'kv.r.b' ]); // expired key swept on first write
+        assertEquals((await kv.list({ prefix: 'a' })).keys.map(v => v.name), [ 'a' ]);
+
+        await kv.delete('a');
+        assertEquals(await kv.get('a'), null);
+    }
+});
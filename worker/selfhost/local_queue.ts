@@ -0,0 +1,159 @@
+import { DurableObjectStorage, Queue, QueueMessage, QueueMessageBatch, QueuesContentType } from '../deps.ts';
+import { isStringRecord } from '../check.ts';
+import { consoleError, consoleWarn } from '../tracer.ts';
+import { generateUuid } from '../uuid.ts';
+
+export type QueueConsumer = (batch: QueueMessageBatch) => Promise<void>;
+
+/**
+ * Queue delivered in-process to a consumer, used when self-hosting in place of Cloudflare Queues.
+ *
+ * Pending messages are persisted in storage until acked, so they survive a restart.
+ * Like Queues, messages are acked implicitly when the consumer returns, and retried (up to a limit) when it throws or calls retry().
+ */
+export class LocalQueue implements Queue {
+    private readonly name: string;
+    private readonly storage: DurableObjectStorage;
+    private readonly consumer: QueueConsumer;
+    private readonly maxBatchSize: number;
+    private readonly maxBatchTimeoutMillis: number;
+    private readonly maxRetries: number;
+    private readonly retryDelayMillis: number;
+
+    private timer?: number;
+    private timerTime?: number;
+    private delivering = false;
+
+    constructor({ name, storage, consumer, maxBatchSize = 100, maxBatchTimeoutMillis = 1000, maxRetries = 3, retryDelayMillis = 5000 }: { name: string, storage: DurableObjectStorage, consumer: QueueConsumer, maxBatchSize?: number, maxBatchTimeoutMillis?: number, maxRetries?: number, retryDelayMillis?: number }) {
+        this.name = name;
+        this.storage = storage;
+        this.consumer = consumer;
+        this.maxBatchSize = maxBatchSize;
+        this.maxBatchTimeoutMillis = maxBatchTimeoutMillis;
+        this.maxRetries = maxRetries;
+        this.retryDelayMillis = retryDelayMillis;
+    }
+
+    async send(message: unknown, opts: { contentType?: QueuesContentType } = {}): Promise<void> {
+        await this.sendBatch([ { body: message, ...opts } ]);
+    }
+
+    async sendBatch(messages: Iterable<{ body: unknown, contentType?: QueuesContentType }>): Promise<void> {
+        const timestamp = new Date().toISOString();
+        const records: Record<string, PendingMessage> = {};
+        for (const { body, contentType } of messages) {
+            if (contentType === 'bytes') throw new Error(`Unsupported contentType: ${contentType}`);
+            const id = generateUuid();
+            records[computePendingMessageKey(timestamp, id)] = { id, timestamp, body, attempts: 0 };
+        }
+        if (Object.keys(records).length === 0) return;
+        await this.storage.put(records);
+        this.scheduleDelivery(Date.now() + this.maxBatchTimeoutMillis);
+    }
+
+    /** Deliver messages persisted by a previous run. */
+    async start(): Promise<void> {
+        await this.scheduleNextDelivery();
+    }
+
+    close() {
+        clearTimeout(this.timer);
+        this.timer = this.timerTime = undefined;
+    }
+
+    //
+
+    private scheduleDelivery(time: number) {
+        if (this.timerTime !== undefined && this.timerTime <= time) return; // already scheduled sooner
+        clearTimeout(this.timer);
+        this.timerTime = time;
+        this.timer = setTimeout(() => {
+            this.timer = this.timerTime = undefined;
+            this.deliver().catch(e => consoleError('local-queue-deliver', `Error delivering ${this.name} messages: ${(e as Error).stack || e}`));
+        }, Math.max(0, time - Date.now()));
+    }
+
+    private async scheduleNextDelivery() {
+        const first = [ ...(await this.storage.list({ prefix: PENDING_PREFIX, limit: 1 })).keys() ].at(0);
+        if (first) this.scheduleDelivery(new Date(first.substring(PENDING_PREFIX.length, first.lastIndexOf('.'))).getTime());
+    }
+
+    private async deliver() {
+        if (this.delivering) return;
+        this.delivering = true;
+        try {
+            while (true) {
+                const end = `${PENDING_PREFIX}${new Date().toISOString()}~`; // keys are ordered by when they are next deliverable
+                const map = await this.storage.list({ prefix: PENDING_PREFIX, end, limit: this.maxBatchSize });
+                const pending = [ ...map ].flatMap(([ key, record ]) => isPendingMessage(record) ? [ { key, record } ] : []);
+                if (pending.length === 0) break;
+                await this.deliverBatch(pending);
+            }
+        } finally {
+            this.delivering = false;
+        }
+        await this.scheduleNextDelivery();
+    }
+
+    private async deliverBatch(pending: { key: string, record: PendingMessage }[]) {
+        const { name, storage, consumer, maxRetries, retryDelayMillis } = this;
+        const acked = new Set<string>();
+        const retried = new Set<string>();
+        const messages: QueueMessage[] = pending.map(({ record: { id, timestamp, body } }) => ({
+            id,
+            timestamp: new Date(timestamp),
+            body,
+            ack: () => { acked.add(id); retried.delete(id); },
+            retry: () => { retried.add(id); acked.delete(id); },
+        }));
+        const batch = {
+            queue: name,
+            messages,
+            ackAll: () => messages.forEach(v => v.ack()),
+            retryAll: () => messages.forEach(v => v.retry()),
+        } as QueueMessageBatch;
+        try {
+            await consumer(batch);
+        } catch (e) {
+            consoleWarn('local-queue-consumer', `Consumer failed for ${name} batch of ${messages.length}: ${(e as Error).stack || e}`);
+            for (const { id } of messages) if (!acked.has(id)) retried.add(id);
+        }
+
+        const nextTimestamp = new Date(Date.now() + retryDelayMillis).toISOString();
+        const deletes: string[] = [];
+        const puts: Record<string, PendingMessage> = {};
+        for (const { key, record } of pending) {
+            deletes.push(key);
+            if (!retried.has(record.id)) continue;
+            const attempts = record.attempts + 1;
+            if (attempts > maxRetries) {
+                consoleWarn('local-queue-dropped', `Dropping ${name} message ${record.id} after ${attempts} attempts`);
+                continue;
+            }
+            puts[computePendingMessageKey(nextTimestamp, record.id)] = { ...record, attempts };
+        }
+        await storage.transaction(async txn => {
+            await txn.delete(deletes);
+            if (Object.keys(puts).length > 0) await txn.put(puts);
+        });
+    }
+
+}
+
+//
+
+const PENDING_PREFIX = 'q.p.';
+
+type PendingMessage = { id: string, timestamp: string, body: unknown, attempts: number };
+
+function computePendingMessageKey(deliverableTimestamp: string, id: string): string {
+    return `${PENDING_PREFIX}${deliverableTimestamp}.${id}`;
+}
+
+function isPendingMessage(obj: unknown): obj is PendingMessage {
+    return isStringRecord(obj)
+        && typeof obj.id === 'string'
+        && typeof obj.timestamp === 'string'
+        && typeof obj.attempts === 'number'
+        ;
+}
@@ -0,0 +1,58 @@
+import { QueueMessageBatch } from '../deps.ts';
+import { sleep } from '../sleep.ts';
+import { assertEquals, InMemoryDurableObjectStorage } from '../tests/deps.ts';
+import { LocalQueue } from './local_queue.ts';
+
+Deno.test({
+    name: 'LocalQueue',
+    fn: async () => {
+        const storage = new InMemoryDurableObjectStorage();
+        const received: unknown[][] = [];
+        let failures = 0;
+        const consumer = async (batch: QueueMessageBatch) => {
+            await Promise.resolve();
+            received.push(batch.messages.map(v => v.body));
+            for (const message of batch.messages) {
+                if (message.body === 'fail-once' && failures++ === 0) throw new Error('boom');
+                if (message.body === 'always-retry') message.retry();
+            }
+        };
+        const queue = new LocalQueue({ name: 'queue1', storage, consumer, maxBatchSize: 2, maxBatchTimeoutMillis: 0, maxRetries: 1, retryDelayMillis: 0 });
+        try {
+            await queue.sendBatch([ { body: 'a' }, { body: 'b' }, { body: 'c' } ]);
+            await waitFor(() => received.length === 2);
+            assertEquals(received.map(v => v.length), [ 2, 1 ]); // batched up to maxBatchSize
+            assertEquals(received.flat().sort(), [ 'a', 'b', 'c' ]);
+            await waitFor(async () => (await storage.list()).size === 0);
+
+            received.splice(0);
+            await queue.send('fail-once');
+            await waitFor(() => received.length === 2);
+            assertEquals(received, [ [ 'fail-once' ], [ 'fail-once' ] ]); // redelivered after the consumer threw
+            await waitFor(async () => (await storage.list()).size === 0);
+
+            received.splice(0);
+            await queue.send('always-retry');
+            await waitFor(async () => received.length === 2 && (await storage.list()).size === 0);
+            await sleep(20);
+            assertEquals(received, [ [ 'always-retry' ], [ 'always-retry' ] ]); // dropped after maxRetries
+
+            // pending messages survive a restart
+            await storage.put('q.p.2000-01-01T00:00:00.000Z.00000000000000000000000000000001', { id: '00000000000000000000000000000001', timestamp: '2000-01-01T00:00:00.000Z', body: 'persisted', attempts: 0 });
+            received.splice(0);
+            await queue.start();
+            await waitFor(() => received.length === 1);
+            assertEquals(received, [ [ 'persisted' ] ]);
+            await waitFor(async () => (await storage.list()).size === 0);
+            await sleep(20);
+        } finally {
+            queue.close();
+        }
+    }
+});
+
+//
+
+async function waitFor(predicate: () => boolean | Promise<boolean>) {
+    for (let i = 0; i < 200 && !(await predicate()); i++) await sleep(5);
+}
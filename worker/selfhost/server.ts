@@ -0,0 +1,99 @@
+import worker from '../worker.ts';
+import { BackendDO } from '../backend/backend_do.ts';
+import { BlobsProvider } from '../backend/blobs.ts';
+import { FilesystemBlobs } from '../backend/filesystem_blobs.ts';
+import { S3ApiBlobs } from '../backend/s3_api_blobs.ts';
+import { tryParseInt } from '../check.ts';
+import { ModuleWorkerContext } from '../deps.ts';
+import { computeUserAgent } from '../outbound.ts';
+import { consoleError } from '../tracer.ts';
+import { WorkerEnv } from '../worker_env.ts';
+import { InMemoryCfCache } from './in_memory_cf_cache.ts';
+import { LocalDurableObjectNamespace } from './local_durable_object_namespace.ts';
+import { LocalKVNamespace } from './local_kv_namespace.ts';
+import { LocalQueue } from './local_queue.ts';
+import { SqliteDurableObjectStorage } from './sqlite_durable_object_storage.ts';
+
+// Self-hosted OP3: serves the same fetch handler as the Cloudflare worker, with all state under a local data directory
+// deno run --allow-net --allow-read --allow-write --allow-env worker/selfhost/server.ts
+
+export const STRING_BINDINGS = [ 'adminTokens', 'previewTokens', 'redirectLogNotificationDelaySeconds', 'productionDomain', 'cfAnalyticsToken', 'turnstileSitekey', 'turnstileSecretKey', 'podcastIndexCredentials', 'debugWebhookUrl', 'xfetcher', 'alertEmailerParams', 'deploySha', 'deployTime' ] as const;
+
+/** Optional string bindings from environment variables, e.g. adminTokens from OP3_ADMIN_TOKENS */
+export function computeStringBindings(getEnv: (name: string) => string | undefined): Partial<Record<typeof STRING_BINDINGS[number], string>> {
+    return Object.fromEntries(STRING_BINDINGS.flatMap(v => {
+        const value = getEnv(computeEnvironmentVariableName(v));
+        return value === undefined || value === '' ? [] : [ [ v, value ] ];
+    }));
+}
+
+export function computeEnvironmentVariableName(bindingName: string): string {
+    return `OP3_${bindingName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+/** Rewrite an incoming request as the worker would see it behind Cloudflare: public origin and client ip in cf-connecting-ip. */
+export function computeWorkerRequest(request: Request, { origin, remoteAddress, clientIpHeader }: { origin: string, remoteAddress: string | undefined, clientIpHeader: string | undefined }): Request {
+    const { pathname, search } = new URL(request.url);
+    const headers = new Headers(request.headers);
+    const rawIpAddress = clientIpHeader ? computeProxiedIpAddress(request.headers, clientIpHeader) : remoteAddress;
+    headers.delete('cf-connecting-ip'); // never trust the client
+    if (rawIpAddress) headers.set('cf-connecting-ip', rawIpAddress);
+    const { method, body } = request;
+    return new Request(`${origin}${pathname}${search}`, { method, headers, body, redirect: 'manual' });
+}
+
+/** Client ip from a header set by the reverse proxy: the rightmost entry of a list like x-forwarded-for, since the proxy appends the address it saw and anything to its left came from the client. */
+export function computeProxiedIpAddress(headers: Headers, header: string): string | undefined {
+    return (headers.get(header) ?? '')
+        .split(',')
+        .map(v => v.trim())
+        .filter(v => v !== '')
+        .at(-1);
+}
+
+if (import.meta.main) {
+    const getEnv = (name: string) => Deno.env.get(name);
+    const dataDir = (getEnv('OP3_DATA_DIR') ?? './data').replace(/\/+$/, '');
+    const hostname = getEnv('OP3_HOSTNAME') ?? '0.0.0.0';
+    const port = tryParseInt(getEnv('OP3_PORT')) ?? 8080;
+    const origin = getEnv('OP3_ORIGIN') ?? `http://localhost:${port}`;
+    const instance = getEnv('OP3_INSTANCE') ?? 'selfhost';
+    const clientIpHeader = getEnv('OP3_CLIENT_IP_HEADER'); // e.g. x-forwarded-for, when running behind a reverse proxy
+    const s3BlobsParams = getEnv('OP3_S3_BLOBS_PARAMS'); // e.g. http://localhost:9000,us-east-1,accessKey,secretKey,bucket, to store blobs in an S3-compatible bucket instead
+    await Deno.mkdir(dataDir, { recursive: true });
+
+    // the worker reads the Cloudflare-specific default cache off the global caches object
+    Object.defineProperty(globalThis, 'caches', { value: { default: new InMemoryCfCache() }, configurable: true, writable: true });
+
+    const userAgent = computeUserAgent({ origin });
+    const blobsProvider: BlobsProvider = s3BlobsParams ? prefix => S3ApiBlobs.ofParams(s3BlobsParams, { prefix, userAgent })
+        : prefix => new FilesystemBlobs({ rootDir: `${dataDir}/blobs`, prefix });
+    const backendNamespace = new LocalDurableObjectNamespace({ dir: `${dataDir}/do`, newObject: state => new BackendDO(state, env) });
+    const kvNamespace = new LocalKVNamespace(new SqliteDurableObjectStorage({ path: `${dataDir}/kv.sqlite3` }));
+    const newQueue = (name: string) => new LocalQueue({ name, storage: new SqliteDurableObjectStorage({ path: `${dataDir}/${name}.sqlite3` }), consumer: batch => worker.queue(batch, env) });
+    const [ queue1Name, queue2Name ] = [ 'queue1', 'queue2' ];
+    const [ queue1, queue2 ] = [ newQueue(queue1Name), newQueue(queue2Name) ];
+
+    const env: WorkerEnv = { ...computeStringBindings(getEnv), instance, origin, backendNamespace, blobsProvider, kvNamespace, queue1, queue1Name, queue2, queue2Name };
+    const context: ModuleWorkerContext = {
+        waitUntil: (promise: Promise<unknown>) => { promise.catch(e => consoleError('selfhost-wait-until', `Unhandled error in waitUntil: ${(e as Error).stack || e}`)); },
+        passThroughOnException: () => {},
+    };
+
+    await backendNamespace.start();
+    await queue1.start();
+    await queue2.start();
+
+    const server = Deno.serve({ hostname, port }, async (request: Request, info: { remoteAddr: { hostname?: string } }) => {
+        return await worker.fetch(computeWorkerRequest(request, { origin, remoteAddress: info.remoteAddr.hostname, clientIpHeader }), env, context);
+    });
+    console.log(`Serving ${origin} (instance=${instance}) with data in ${dataDir}`);
+
+    Deno.addSignalListener('SIGINT', async () => {
+        await server.shutdown();
+        queue1.close();
+        queue2.close();
+        backendNamespace.close();
+        Deno.exit(0);
+    });
+}
@@ -0,0 +1,38 @@
+import { assertEquals } from '../tests/deps.ts';
+import { computeEnvironmentVariableName, computeProxiedIpAddress, computeStringBindings, computeWorkerRequest } from './server.ts';
+
+Deno.test({
+    name: 'computeStringBindings',
+    fn: () => {
+        assertEquals(computeEnvironmentVariableName('adminTokens'), 'OP3_ADMIN_TOKENS');
+        assertEquals(computeEnvironmentVariableName('redirectLogNotificationDelaySeconds'), 'OP3_REDIRECT_LOG_NOTIFICATION_DELAY_SECONDS');
+        const env: Record<string, string> = { OP3_ADMIN_TOKENS: 'a,b', OP3_PREVIEW_TOKENS: '', OP3_OTHER: 'x' };
+        assertEquals(computeStringBindings(v => env[v]), { adminTokens: 'a,b' });
+    }
+});
+
+Deno.test({
+    name: 'computeWorkerRequest',
+    fn: () => {
+        const request = new Request('http://127.0.0.1:8080/e/example.com/path/to/episode.mp3?a=b', { headers: { 'cf-connecting-ip': '6.6.6.6', 'x-forwarded-for': '6.6.6.6, 1.2.3.4' } });
+        {
+            const req = computeWorkerRequest(request, { origin: 'https://op3.example', remoteAddress: '10.0.0.1', clientIpHeader: undefined });
+            assertEquals(req.url, 'https://op3.example/e/example.com/path/to/episode.mp3?a=b');
+            assertEquals(req.headers.get('cf-connecting-ip'), '10.0.0.1');
+        }
+        {
+            const req = computeWorkerRequest(request, { origin: 'https://op3.example', remoteAddress: '10.0.0.1', clientIpHeader: 'x-forwarded-for' });
+            assertEquals(req.headers.get('cf-connecting-ip'), '1.2.3.4'); // appended by the proxy, entries to its left are client-controlled
+        }
+    }
+});
+
+Deno.test({
+    name: 'computeProxiedIpAddress',
+    fn: () => {
+        assertEquals(computeProxiedIpAddress(new Headers({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4' }), 'x-forwarded-for'), '1.2.3.4');
+        assertEquals(computeProxiedIpAddress(new Headers({ 'x-forwarded-for': '1.2.3.4 , ' }), 'x-forwarded-for'), '1.2.3.4');
+        assertEquals(computeProxiedIpAddress(new Headers({ 'x-real-ip': '1.2.3.4' }), 'x-real-ip'), '1.2.3.4');
+        assertEquals(computeProxiedIpAddress(new Headers(), 'x-forwarded-for'), undefined);
+    }
+});
@@ -0,0 +1,249 @@
+import { DurableObjectStorage, DurableObjectStorageListOptions, DurableObjectStorageMethods, DurableObjectStorageReadOptions, DurableObjectStorageValue } from '../deps.ts';
+import { DB } from './deps.ts';
+
+/**
+ * DurableObjectStorage backed by a single SQLite file, used when self-hosting.
+ *
+ * Values are stored as json, so only json-compatible values round-trip (unlike the structured clone on Cloudflare).
+ * All operations are serialized, transactions run inside a SQLite transaction and see their own writes (so a transaction closure must only use its txn, not this storage).
+ */
+export class SqliteDurableObjectStorage implements DurableObjectStorage {
+    private readonly path: string;
+    private readonly onAlarmChanged?: (scheduledTime: number | null) => void;
+
+    private db?: DB;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor({ path, onAlarmChanged }: { path: string, onAlarmChanged?: (scheduledTime: number | null) => void }) {
+        this.path = path;
+        this.onAlarmChanged = onAlarmChanged;
+    }
+
+    get(key: string, opts?: DurableObjectStorageReadOptions): Promise<DurableObjectStorageValue | undefined>;
+    get(keys: readonly string[], opts?: DurableObjectStorageReadOptions): Promise<Map<string, DurableObjectStorageValue>>;
+    async get(keyOrKeys: string | readonly string[], _opts?: DurableObjectStorageReadOptions): Promise<DurableObjectStorageValue | undefined | Map<string, DurableObjectStorageValue>> {
+        return await this.serialized(db => typeof keyOrKeys === 'string' ? selectValues(db, [ keyOrKeys ]).get(keyOrKeys) : selectValues(db, keyOrKeys));
+    }
+
+    put(key: string, value: DurableObjectStorageValue): Promise<void>;
+    put(entries: Record<string, unknown>): Promise<void>;
+    async put(keyOrEntries: string | Record<string, unknown>, value?: unknown): Promise<void> {
+        await this.serialized(db => upsertValues(db, typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries));
+    }
+
+    delete(key: string): Promise<boolean>;
+    delete(keys: readonly string[]): Promise<number>;
+    async delete(keyOrKeys: string | readonly string[]): Promise<boolean | number> {
+        return await this.serialized(db => typeof keyOrKeys === 'string' ? deleteValues(db, [ keyOrKeys ]) > 0 : deleteValues(db, keyOrKeys));
+    }
+
+    async deleteAll(): Promise<void> {
+        await this.serialized(db => {
+            db.query('delete from kv');
+            db.query('delete from alarm');
+        });
+        this.onAlarmChanged?.(null);
+    }
+
+    async list(options: DurableObjectStorageListOptions & DurableObjectStorageReadOptions = {}): Promise<Map<string, DurableObjectStorageValue>> {
+        return await this.serialized(db => listValues(db, options));
+    }
+
+    async transaction<T>(closure: (txn: SqliteDurableObjectTransaction) => T | PromiseLike<T>): Promise<T> {
+        let alarmChanged = false;
+        const rt = await this.serialized(async db => {
+            db.execute('begin immediate');
+            const txn = new SqliteDurableObjectTransaction(db);
+            try {
+                const rt = await closure(txn);
+                db.execute(txn.rolledBack ? 'rollback' : 'commit');
+                alarmChanged = txn.alarmChanged && !txn.rolledBack;
+                return rt;
+            } catch (e) {
+                db.execute('rollback');
+                throw e;
+            } finally {
+                txn.done = true;
+            }
+        });
+        if (alarmChanged) this.onAlarmChanged?.(await this.getAlarm());
+        return rt;
+    }
+
+    async getAlarm(): Promise<number | null> {
+        return await this.serialized(selectAlarm);
+    }
+
+    async setAlarm(scheduledTime: number | Date): Promise<void> {
+        const time = scheduledTime instanceof Date ? scheduledTime.getTime() : scheduledTime;
+        await this.serialized(db => upsertAlarm(db, time));
+        this.onAlarmChanged?.(time);
+    }
+
+    async deleteAlarm(): Promise<void> {
+        await this.serialized(db => upsertAlarm(db, null));
+        this.onAlarmChanged?.(null);
+    }
+
+    async sync(): Promise<void> {
+        await this.serialized(() => {}); // every write is committed before its promise resolves
+    }
+
+    close() {
+        this.db?.close();
+        this.db = undefined;
+    }
+
+    //
+
+    private serialized<T>(fn: (db: DB) => T | Promise<T>): Promise<T> {
+        const rt = this.queue.then(() => fn(this.open()));
+        this.queue = rt.catch(() => {});
+        return rt;
+    }
+
+    private open(): DB {
+        if (!this.db) {
+            // opened lazily, storageless objects never create a file
+            const db = new DB(this.path);
+            db.execute(SCHEMA);
+            this.db = db;
+        }
+        return this.db;
+    }
+
+}
+
+export class SqliteDurableObjectTransaction implements DurableObjectStorageMethods {
+    private readonly db: DB;
+
+    rolledBack = false;
+    alarmChanged = false;
+    done = false;
+
+    constructor(db: DB) {
+        this.db = db;
+    }
+
+    get(key: string, opts?: DurableObjectStorageReadOptions): Promise<DurableObjectStorageValue | undefined>;
+    get(keys: readonly string[], opts?: DurableObjectStorageReadOptions): Promise<Map<string, DurableObjectStorageValue>>;
+    async get(keyOrKeys: string | readonly string[], _opts?: DurableObjectStorageReadOptions): Promise<DurableObjectStorageValue | undefined | Map<string, DurableObjectStorageValue>> {
+        const db = await this.check();
+        return typeof keyOrKeys === 'string' ? selectValues(db, [ keyOrKeys ]).get(keyOrKeys) : selectValues(db, keyOrKeys);
+    }
+
+    put(key: string, value: DurableObjectStorageValue): Promise<void>;
+    put(entries: Record<string, unknown>): Promise<void>;
+    async put(keyOrEntries: string | Record<string, unknown>, value?: unknown): Promise<void> {
+        upsertValues(await this.check(), typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries);
+    }
+
+    delete(key: string): Promise<boolean>;
+    delete(keys: readonly string[]): Promise<number>;
+    async delete(keyOrKeys: string | readonly string[]): Promise<boolean | number> {
+        const db = await this.check();
+        return typeof keyOrKeys === 'string' ? deleteValues(db, [ keyOrKeys ]) > 0 : deleteValues(db, keyOrKeys);
+    }
+
+    async list(options: DurableObjectStorageListOptions & DurableObjectStorageReadOptions = {}): Promise<Map<string, DurableObjectStorageValue>> {
+        return listValues(await this.check(), options);
+    }
+
+    async getAlarm(): Promise<number | null> {
+        return selectAlarm(await this.check());
+    }
+
+    async setAlarm(scheduledTime: number | Date): Promise<void> {
+        upsertAlarm(await this.check(), scheduledTime instanceof Date ? scheduledTime.getTime() : scheduledTime);
+        this.alarmChanged = true;
+    }
+
+    async deleteAlarm(): Promise<void> {
+        upsertAlarm(await this.check(), null);
+        this.alarmChanged = true;
+    }
+
+    rollback() {
+        if (this.done) throw new Error(`Transaction is already done`);
+        this.rolledBack = true;
+    }
+
+    //
+
+    private async check(): Promise<DB> {
+        await Promise.resolve();
+        if (this.done) throw new Error(`Transaction is already done`);
+        if (this.rolledBack) throw new Error(`Transaction was rolled back`);
+        return this.db;
+    }
+
+}
+
+//
+
+const SCHEMA = `
+create table if not exists kv (key text primary key, value text not null) without rowid;
+create table if not exists alarm (id integer primary key check (id = 1), scheduled_time integer not null);
+`;
+
+function selectValues(db: DB, keys: readonly string[]): Map<string, DurableObjectStorageValue> {
+    const rt = new Map<string, DurableObjectStorageValue>();
+    for (const key of keys) {
+        for (const [ value ] of db.query<[ string ]>('select value from kv where key = ?', [ key ])) {
+            rt.set(key, JSON.parse(value));
+        }
+    }
+    return rt;
+}
+
+function upsertValues(db: DB, entries: Record<string, unknown>) {
+    for (const [ key, value ] of Object.entries(entries)) {
+        if (value === undefined) throw new Error(`Cannot store undefined for key: ${key}`);
+        db.query('insert into kv (key, value) values (?, ?) on conflict (key) do update set value = excluded.value', [ key, JSON.stringify(value) ]);
+    }
+}
+
+function deleteValues(db: DB, keys: readonly string[]): number {
+    let rt = 0;
+    for (const key of keys) {
+        db.query('delete from kv where key = ?', [ key ]);
+        rt += db.changes;
+    }
+    return rt;
+}
+
+function listValues(db: DB, { start, startAfter, end, prefix, reverse, limit }: DurableObjectStorageListOptions): Map<string, DurableObjectStorageValue> {
+    const clauses: string[] = [];
+    const params: (string | number | Uint8Array)[] = [];
+    if (typeof start === 'string') { clauses.push('key >= ?'); params.push(start); }
+    if (typeof startAfter === 'string') { clauses.push('key > ?'); params.push(startAfter); }
+    if (typeof end === 'string') { clauses.push('key < ?'); params.push(end); }
+    if (typeof prefix === 'string' && prefix !== '') {
+        // compare utf-8 bytes, matching the key ordering
+        const prefixBytes = new TextEncoder().encode(prefix);
+        clauses.push('key >= ? and substr(cast(key as blob), 1, ?) = ?');
+        params.push(prefix, prefixBytes.length, prefixBytes);
+    }
+    if (typeof limit === 'number') params.push(limit);
+    const sql = `select key, value from kv${clauses.length > 0 ? ` where ${clauses.join(' and ')}` : ''} order by key ${reverse ? 'desc' : 'asc'}${typeof limit === 'number' ? ' limit ?' : ''}`;
+    const rt = new Map<string, DurableObjectStorageValue>();
+    for (const [ key, value ] of db.query<[ string, string ]>(sql, params)) {
+        rt.set(key, JSON.parse(value));
+    }
+    return rt;
+}
+
+function selectAlarm(db: DB): number | null {
+    for (const [ scheduledTime ] of db.query<[ number ]>('select scheduled_time from alarm where id = 1')) {
+        return scheduledTime;
+    }
+    return null;
+}
+
+function upsertAlarm(db: DB, scheduledTime: number | null) {
+    if (scheduledTime === null) {
+        db.query('delete from alarm where id = 1');
+    } else {
+        db.query('insert into alarm (id, scheduled_time) values (1, ?) on conflict (id) do update set scheduled_time = excluded.scheduled_time', [ scheduledTime ]);
+    }
+}
@@ -0,0 +1,62 @@
+import { assertEquals, assertRejects } from '../tests/deps.ts';
+import { SqliteDurableObjectStorage } from './sqlite_durable_object_storage.ts';
+
+Deno.test({
+    name: 'SqliteDurableObjectStorage',
+    fn: async () => {
+        const alarms: (number | null)[] = [];
+        const storage = new SqliteDurableObjectStorage({ path: ':memory:', onAlarmChanged: v => alarms.push(v) });
+        try {
+            await storage.put({ 'a.1': 1, 'a.2': { b: 'c' }, 'a.3': [ 3 ], 'b.1': 'b' });
+            await storage.put('a%_', true);
+            assertEquals(await storage.get('a.2'), { b: 'c' });
+            assertEquals(await storage.get('missing'), undefined);
+            assertEquals(await storage.get([ 'a.1', 'missing', 'b.1' ]), new Map<string, unknown>([ [ 'a.1', 1 ], [ 'b.1', 'b' ] ]));
+
+            const keys = async (opts: Parameters<typeof storage.list>[0]) => [ ...(await storage.list(opts)).keys() ];
+            assertEquals(await keys({}), [ 'a%_', 'a.1', 'a.2', 'a.3', 'b.1' ]);
+            assertEquals(await keys({ prefix: 'a.' }), [ 'a.1', 'a.2', 'a.3' ]);
+            assertEquals(await keys({ prefix: 'a%' }), [ 'a%_' ]);
+            assertEquals(await keys({ prefix: 'a.', reverse: true, limit: 2 }), [ 'a.3', 'a.2' ]);
+            assertEquals(await keys({ prefix: 'a.', startAfter: 'a.1', end: 'a.3' }), [ 'a.2' ]);
+            assertEquals(await keys({ start: 'a.2', limit: 2 }), [ 'a.2', 'a.3' ]);
+
+            assertEquals(await storage.delete('a.1'), true);
+            assertEquals(await storage.delete('a.1'), false);
+            assertEquals(await storage.delete([ 'a.2', 'a.3', 'missing' ]), 2);
+
+            const rt = await storage.transaction(async txn => {
+                await txn.put('t.1', 1);
+                assertEquals(await txn.get('t.1'), 1); // sees its own writes
+                await txn.setAlarm(1000);
+                return 'done';
+            });
+            assertEquals(rt, 'done');
+            assertEquals(await storage.get('t.1'), 1);
+            assertEquals(await storage.getAlarm(), 1000);
+
+            await assertRejects(() => storage.transaction(async txn => {
+                await txn.put('t.2', 2);
+                await txn.setAlarm(2000);
+                throw new Error('boom');
+            }));
+            assertEquals(await storage.get('t.2'), undefined);
+            assertEquals(await storage.getAlarm(), 1000);
+
+            await storage.transaction(async txn => {
+                await txn.put('t.3', 3);
+                txn.rollback();
+            });
+            assertEquals(await storage.get('t.3'), undefined);
+
+            await storage.deleteAlarm();
+            assertEquals(await storage.getAlarm(), null);
+            assertEquals(alarms, [ 1000, null ]);
+
+            await storage.deleteAll();
+            assertEquals((await storage.list()).size, 0);
+        } finally {
+            storage.close();
+        }
+    }
+});
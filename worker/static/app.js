@@ -8870,23 +8870,148 @@ function sortBy(array, selector, options) {
     }
     return indexes;
 }
-function replacePlaceholders(str, nameValuePairs) {
-    const nvps = Array.isArray(nameValuePairs) ? nameValuePairs : [
-        [
-            'arg',
-            nameValuePairs
-        ]
-    ];
+function replacePlaceholders(str, nameValuePairs, lang) {
+    const nvps = Array.isArray(nameValuePairs) ? nameValuePairs : [['arg', nameValuePairs]];
+    if (isIcuMessage(str))
+        return nvps.length === 0 ? str : formatMessage(str, Object.fromEntries(nvps), lang);
     let i = 0;
-    return str.replace(/%[dDsS]/g, (sub)=>{
+    return str.replace(/%[dDsS]/g, (sub) => {
         const nvp = nvps[i];
         i++;
-        if (nvp === undefined) return sub;
+        if (nvp === undefined)
+            return sub;
         return nvp[1].toString();
     });
 }
-function pluralize(n, strings1, singleKey, pluralKey, format) {
-    return replacePlaceholders(strings1[n === 1 ? singleKey : pluralKey], (format ?? withCommas).format(n));
+function formatMessage(message, args, lang) {
+    const locale = lang === undefined || lang === 'up' ? 'en-US' : lang;
+    const format = (parts, pluralValue) => parts.map(part => {
+        if (typeof part === 'string')
+            return part;
+        if (part.kind === 'pound')
+            return pluralValue === undefined ? '#' : new Intl.NumberFormat(locale).format(pluralValue);
+        const { name, kind, style, options = {} } = part;
+        const value = args[name];
+        if (value === undefined)
+            throw new Error(`Missing message argument: ${name}`);
+        if (kind === 'plural') {
+            const n = Number(value);
+            const selected = options[`=${n}`] ?? options[new Intl.PluralRules(locale).select(n)] ?? options.other;
+            return format(selected, n);
+        }
+        if (kind === 'select')
+            return format(options[value.toString()] ?? options.other, pluralValue);
+        if (kind === 'date' || value instanceof Date) {
+            const dateStyle = style === 'short' || style === 'long' || style === 'full' ? style : 'medium';
+            return new Intl.DateTimeFormat(locale, { dateStyle, timeZone: 'UTC' }).format(value instanceof Date ? value : new Date(value));
+        }
+        if (kind === 'number' || typeof value === 'number') {
+            const opts = style === 'integer' ? { maximumFractionDigits: 0 } : style === 'percent' ? { style: 'percent' } : {};
+            return new Intl.NumberFormat(locale, opts).format(Number(value));
+        }
+        return value;
+    }).join('');
+    return format(parseMessage(message));
+}
+function isIcuMessage(str) {
+    return /{\s*\w+\s*[,}]/.test(str);
+}
+function parseMessage(message) {
+    let i = 0;
+    const fail = reason => { throw new Error(`Bad message (${reason} at ${i}): ${message}`); };
+    const skipWhitespace = () => { while (i < message.length && /\s/.test(message[i]))
+        i++; };
+    const readUntil = (pattern) => {
+        const start = i;
+        while (i < message.length && !pattern.test(message[i]))
+            i++;
+        return message.substring(start, i).trim();
+    };
+    const parseParts = (inPlural) => {
+        const parts = [];
+        let text = '';
+        const flush = () => { if (text !== '')
+            parts.push(text); text = ''; };
+        while (i < message.length) {
+            const c = message[i];
+            if (c === '}')
+                break;
+            if (c === '{') {
+                flush();
+                parts.push(parseArgument());
+            }
+            else if (c === '#' && inPlural) {
+                flush();
+                parts.push({ kind: 'pound' });
+                i++;
+            }
+            else if (c === `'` && message[i + 1] === `'`) {
+                text += `'`;
+                i += 2;
+            }
+            else if (c === `'` && /[{}#]/.test(message[i + 1] ?? '')) {
+                const end = message.indexOf(`'`, i + 1);
+                text += message.substring(i + 1, end < 0 ? message.length : end);
+                i = end < 0 ? message.length : end + 1;
+            }
+            else {
+                text += c;
+                i++;
+            }
+        }
+        flush();
+        return parts;
+    };
+    const parseArgument = () => {
+        i++;
+        const name = readUntil(/[,}]/);
+        if (!/^\w+$/.test(name))
+            fail('bad argument name');
+        if (message[i] === '}') {
+            i++;
+            return { kind: 'arg', name };
+        }
+        i++;
+        const type = readUntil(/[,}]/);
+        if (type === 'number' || type === 'date') {
+            const style = message[i] === ',' ? (i++, readUntil(/}/)) : undefined;
+            if (message[i] !== '}')
+                fail('unterminated argument');
+            i++;
+            return { kind: type, name, style: style || undefined };
+        }
+        if (type !== 'plural' && type !== 'select')
+            fail(`unsupported argument type ${type}`);
+        if (message[i] !== ',')
+            fail('missing options');
+        i++;
+        const options = {};
+        while (true) {
+            skipWhitespace();
+            if (message[i] === '}') {
+                i++;
+                break;
+            }
+            const selector = readUntil(/[\s{}]/);
+            if (selector === '')
+                fail('missing selector');
+            skipWhitespace();
+            if (message[i] !== '{')
+                fail('missing option message');
+            i++;
+            options[selector] = parseParts(type === 'plural');
+            if (message[i] !== '}')
+                fail('unterminated option message');
+            i++;
+        }
+        if (!options.other)
+            fail(`missing 'other' option`);
+        return { kind: type, name, options };
+    };
+    const rt = parseParts(false);
+    if (i < message.length)
+        fail('unexpected }');
+    return rt;
 }
 const supportedLanguageLabels = {
     en: 'English (US)',
@@ -8898,7 +9023,6 @@ const supportedLanguageLabels = {
     'en-gb': 'English (British)'
 };
 Object.keys(supportedLanguageLabels);
-const withCommas = new Intl.NumberFormat('en-US');
 function element(id) {
     const rt = document.getElementById(id);
     if (!rt) throw new Error(`Element not found: ${id}`);
@@ -8952,6 +9076,15 @@ const numberFormatsByLocale = new Map();
 function getNumberFormat(lang) {
     return getOrCacheByLocale(numberFormatsByLocale, lang, (locale)=>new Intl.NumberFormat(locale));
 }
+const percentFormatsByLocale = new Map();
+function getPercentFormat(lang, maximumFractionDigits = 0) {
+    const locale = lang ?? 'en-US';
+    return getOrCache(percentFormatsByLocale, `${locale}:${maximumFractionDigits}`, ()=>new Intl.NumberFormat(locale, {
+            style: 'percent',
+            minimumFractionDigits: maximumFractionDigits,
+            maximumFractionDigits
+        }));
+}
 const dayFormatsByLocale = new Map();
 function getDayFormat(lang) {
     return getOrCacheByLocale(dayFormatsByLocale, lang, (locale)=>new Intl.DateTimeFormat(locale, {
@@ -9187,10 +9320,17 @@ function drawDownloadsChart(canvas, hourlyDownloads, episodeHourlyDownloads, gra
                     footerColor: 'rgba(154, 52, 18, 1)',
                     callbacks: {
                         title: (items)=>dateFormat.format(new Date(items[0].label)),
-                        label: (item)=>pluralize(item.parsed.y, strings1, 'one_download', 'multiple_downloads'),
+                        label: (item)=>formatMessage(strings1.n_downloads, {
+                                count: item.parsed.y
+                            }, lang),
                         footer: (items)=>{
                             const records = episodeMarkerIndex?.get(items[0].parsed.x) ?? [];
-                            return records.length === 0 ? undefined : records.map((v)=>`${replacePlaceholders(strings1.published_episode, v.title ?? '')}${debug ? ` f:${v.firstHour} p:${v.pubdate}` : ''}`).join('\n');
+                            return records.length === 0 ? undefined : records.map((v)=>`${replacePlaceholders(strings1.published_episode, [
+                                    [
+                                        'title',
+                                        v.title ?? ''
+                                    ]
+                                ], lang)}${debug ? ` f:${v.firstHour} p:${v.pubdate}` : ''}`).join('\n');
                         }
                     }
                 }
@@ -9360,7 +9500,7 @@ const makeEpisodePacing = ({ episodeHourlyDownloads, episodes, showTitle, showSl
                 'pages',
                 pages
             ]
-        ]);
+        ], lang);
     }
     update();
     return {
@@ -9420,8 +9560,18 @@ function drawPacingChart(canvas, episodeRelativeSummaries, suggestedMax, episode
     const allHours = distinct(Object.values(episodeRelativeSummaries).flatMap((v)=>Object.keys(v.cumulative)).sort());
     const parseHourLabel = (label)=>{
         const hour = parseInt(label.substring(1));
-        if (hour % 24 === 0) return replacePlaceholders(strings1.day_n, Math.floor(hour / 24));
-        return replacePlaceholders(strings1.hour_n, Math.floor(hour));
+        if (hour % 24 === 0) return replacePlaceholders(strings1.day_n, [
+            [
+                'day',
+                Math.floor(hour / 24)
+            ]
+        ], lang);
+        return replacePlaceholders(strings1.hour_n, [
+            [
+                'hour',
+                Math.floor(hour)
+            ]
+        ], lang);
     };
     const ctx = canvas.getContext('2d');
     const colors = [
@@ -9478,7 +9628,12 @@ function drawPacingChart(canvas, episodeRelativeSummaries, suggestedMax, episode
                         autoSkip: false,
                         callback: function(value) {
                             const hour = value + 1;
-                            const label = hour % 24 === 0 ? ZWSP + replacePlaceholders(strings1.day_n, Math.floor(hour / 24)) : '';
+                            const label = hour % 24 === 0 ? ZWSP + replacePlaceholders(strings1.day_n, [
+                                [
+                                    'day',
+                                    Math.floor(hour / 24)
+                                ]
+                            ], lang) : '';
                             if (label !== '' && this.width < 700 && hour !== 24 && hour / 24 % 5 !== 0) return '';
                             return label;
                         }
@@ -9568,7 +9723,7 @@ const makeExportDownloads = ({ showUuid, showSlug, previewToken: previewToken1,
             exportSpinner.classList.remove('hidden');
             exportIcon.classList.add('hidden');
             exportCancelButton.classList.remove('invisible');
-            exportTitleDiv.textContent = `Exporting${typeof progress === 'number' && progress > 0 ? ` (${(progress * 100).toFixed(0)}%)` : ''}...`;
+            exportTitleDiv.textContent = `Exporting${typeof progress === 'number' && progress > 0 ? ` (${getPercentFormat(lang).format(progress)})` : ''}...`;
         } else {
             exportSpinner.classList.add('hidden');
             exportIcon.classList.remove('hidden');
@@ -9818,7 +9973,7 @@ function initMonthlyBox(monthlyCounts, countDiv, periodDiv, spacerLine, minigrap
                 'month',
                 computeMonthName(month, lang)
             ]
-        ])}${month === thisMonth ? ` (${strings1.so_far})` : ''}`;
+        ], lang)}${month === thisMonth ? ` (${strings1.so_far})` : ''}`;
     };
     if (initialMonth !== '') onHoverMonth(initialMonth);
     drawMinigraph(minigraph, monthlyCounts, {
@@ -10002,8 +10157,10 @@ const makeTopBox = ({ type, showSlug, exportId, previousId, monthId, nextId, lis
                 dt.title = name1;
             }
             const dd = item.querySelector('dd');
-            dd.textContent = (downloads / totalDownloads * 100).toFixed(2).toString() + '%';
-            dd.title = pluralize(downloads, strings1, 'one_download', 'multiple_downloads');
+            dd.textContent = getPercentFormat(lang, 2).format(downloads / totalDownloads);
+            dd.title = formatMessage(strings1.n_downloads, {
+                count: downloads
+            }, lang);
             list.appendChild(item);
         }
         previousButton.disabled = monthIndex === 0;
@@ -10622,7 +10779,9 @@ const makeFooter = ({ mostRecentDate = new Date().toISOString().substring(0, 10)
     try {
         const currentTimezone = Intl.DateTimeFormat(locale).resolvedOptions().timeZone;
         const offsetMinutes = new Date().getTimezoneOffset();
-        const offsetHours = pluralize(Math.abs(offsetMinutes) / 60, strings1, 'one_hour', 'multiple_hours');
+        const offsetHours = formatMessage(strings1.n_hours, {
+            count: Math.abs(offsetMinutes) / 60
+        }, lang);
         timezoneDiv.textContent = offsetMinutes === 0 ? replacePlaceholders(strings1.tz_is_equal_to_utc, [
             [
                 'currentTimezone',
@@ -10632,7 +10791,7 @@ const makeFooter = ({ mostRecentDate = new Date().toISOString().substring(0, 10)
                 'utc',
                 strings1.utc
             ]
-        ]) : offsetMinutes > 0 ? replacePlaceholders(strings1.tz_is_behind_utc, [
+        ], lang) : offsetMinutes > 0 ? replacePlaceholders(strings1.tz_is_behind_utc, [
             [
                 'currentTimezone',
                 currentTimezone
@@ -10645,7 +10804,7 @@ const makeFooter = ({ mostRecentDate = new Date().toISOString().substring(0, 10)
                 'utc',
                 strings1.utc
             ]
-        ]) : replacePlaceholders(strings1.tz_is_ahead_of_utc, [
+        ], lang) : replacePlaceholders(strings1.tz_is_ahead_of_utc, [
             [
                 'currentTimezone',
                 currentTimezone
@@ -10658,7 +10817,7 @@ const makeFooter = ({ mostRecentDate = new Date().toISOString().substring(0, 10)
                 'utc',
                 strings1.utc
             ]
-        ]);
+        ], lang);
     } catch (e) {
         console.warn(`Error displaying current time zone: ${e.stack || e}`);
         timezoneDiv.style.visibility = 'hidden';
@@ -10848,7 +11007,7 @@ function computeRegionName4(regionCountry) {
     })[region] ?? region;
     return region;
 }
-const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, strings: strings1 })=>{
+const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, strings: strings1, lang })=>{
     const [listensSection, listens25, listens50, listens90, listensCount, listensFromAppTemplate, listensBasedOn, listensGraph, listensGraphFooter, listensEpisode, listensGraphFooterPrevious, listensGraphFooterNext] = [
         element('listens-section'),
         element('listens-25'),
@@ -10908,7 +11067,7 @@ const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, strings: st
                 ...minuteMap
             ].forEach((v, i)=>increment(minutes, (i + 1).toString(), v === '1' ? 1 : 0));
         }
-        chart = drawGraph(listensGraph, minutes, minuteMaps.length, strings1);
+        chart = drawGraph(listensGraph, minutes, minuteMaps.length, strings1, lang);
         const epName = episodes.find((v)=>v.itemGuid === episodeGuid)?.title ?? episodeGuid;
         listensEpisode.textContent = `‘${epName}’`;
         listensGraphFooterPrevious.disabled = index === episodeListensEntries.length - 1;
@@ -10924,7 +11083,7 @@ const makeListens = ({ episodeListens, episodes, knownAppLinks = {}, strings: st
         updateGraph();
     };
 };
-function drawGraph(canvas, labelsAndValues, sessions, strings1) {
+function drawGraph(canvas, labelsAndValues, sessions, strings1, lang) {
     const ctx = canvas.getContext('2d');
     const values = Object.values(labelsAndValues);
     const maxValue = Math.min(Math.round(Math.max(...values) * 1.25), sessions);
@@ -10966,7 +11125,12 @@ function drawGraph(canvas, labelsAndValues, sessions, strings1) {
                     displayColors: false,
                     footerColor: 'rgba(154, 52, 18, 1)',
                     callbacks: {
-                        title: (items)=>replacePlaceholders(strings1.minute_n, items[0].label),
+                        title: (items)=>replacePlaceholders(strings1.minute_n, [
+                                [
+                                    'minute',
+                                    items[0].label
+                                ]
+                            ], lang),
                         label: (item)=>`${replacePlaceholders(strings1.x_of_n_anonymized_sessions, [
                                 [
                                     'x',
@@ -10976,7 +11140,7 @@ function drawGraph(canvas, labelsAndValues, sessions, strings1) {
                                     'sessions',
                                     sessions
                                 ]
-                            ])} (${Math.round(item.parsed.y / sessions * 100)}%)`
+                            ], lang)} (${getPercentFormat(lang).format(item.parsed.y / sessions)})`
                     }
                 }
             }
@@ -11123,7 +11287,8 @@ async function initShow() {
             episodes,
             knownAppLinks,
             debug,
-            strings
+            strings,
+            lang
         });
         const downloadsPerMonth = Object.fromEntries(Object.entries(monthlyDimensionDownloads).map(([month, v])=>[
                 month,
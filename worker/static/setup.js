@@ -30,16 +30,18 @@ function computeRelativeTime(from) {
 
 }
 
-function computeQuantityText(quantity, zero, one, multiple) {
-    return quantity === 0 ? strings[zero]
-        : quantity === 1 ? strings[one]
-        : strings[multiple].replace(/%d/gi, quantity.toString());
+function computeQuantityText(quantity, key) {
+    // single-level plural message: {count, plural, =0 {...} one {...} other {... # ...}}
+    const locale = lang === '' || lang === 'up' ? 'en-US' : lang;
+    const options = Object.fromEntries([ ...strings[key].replace(/^{\s*\w+\s*,\s*plural\s*,/, '').matchAll(/(=\d+|\w+)\s*{([^{}]*)}/g) ].map(v => [ v[1], v[2] ]));
+    const selected = options[`=${quantity}`] ?? options[new Intl.PluralRules(locale).select(quantity)] ?? options.other ?? strings[key];
+    return selected.replace(/#/g, new Intl.NumberFormat(locale).format(quantity));
 }
 
 function computeFeedSummary(analysis) {
     // n episodes, latest 3 minutes ago
     const { itemsWithEnclosures, maxPubdate } = analysis;
-    let rt = computeQuantityText(itemsWithEnclosures, 'zero_episodes', 'one_episode', 'multiple_episodes');
+    let rt = computeQuantityText(itemsWithEnclosures, 'n_episodes');
     if (typeof maxPubdate === 'string') {
         const suffix = computeRelativeTime(new Date(maxPubdate).getTime());
         rt += `, ${itemsWithEnclosures > 1 ? `${strings.latest_as_prefix_to_relative_time} ` : ''}${suffix}`;
@@ -145,7 +147,7 @@ const app = (() => {
                     feedAnalysis = undefined;
                     feedAnalysisError = undefined;
                 },
-                afterMessage: obj => computeQuantityText(obj.feeds.length, 'found_zero_podcasts', 'found_one_podcast', 'found_multiple_podcasts'),
+                afterMessage: obj => computeQuantityText(obj.feeds.length, 'found_n_podcasts'),
                 errorMessage: strings.search_failed_message,
                 errorCallback: () => {
                     reset();
@@ -260,7 +262,7 @@ const app = (() => {
             } else {
                 fpFoundNoneDiv.style.visibility = 'visible';
             }
-            fpFoundEpisodesSpan.textContent = (feed && feedAnalysis && computeQuantityText(feedAnalysis.itemsWithOp3Enclosures, 'zero_episodes', 'one_episode', 'multiple_episodes')) ?? '';
+            fpFoundEpisodesSpan.textContent = (feed && feedAnalysis && computeQuantityText(feedAnalysis.itemsWithOp3Enclosures, 'n_episodes')) ?? '';
             fpSuggestionsList.style.display = hasSome ? 'block' : 'none';
             exampleGuidSpan.textContent = feedAnalysis && feedAnalysis.guid ? feedAnalysis.guid : '00000000-0000-0000-0000-000000000000';
             fpPodcastGuidSpan.textContent = feedAnalysis && feedAnalysis.guid ? feedAnalysis.guid : 'unknown';
@@ -0,0 +1,190 @@
+import { Blobs, MIN_MULTIPUT_PART_SIZE } from '../backend/blobs.ts';
+import { assert, assertEquals, assertNotEquals, assertRejects } from './deps.ts';
+
+/**
+ * Registers the conformance tests every Blobs implementation should pass.
+ *
+ * newBlobs should return an empty Blobs (e.g. under a unique prefix), pass undefined to register them as ignored,
+ * e.g. when the test credentials or permissions for an implementation are not available.
+ */
+export function registerBlobsConformanceTests(name: string, newBlobs: (() => Promise<Blobs> | Blobs) | undefined, { equalPartSizes = true }: { equalPartSizes?: boolean } = {}) {
+    const register = (testName: string, fn: (blobs: Blobs, keys: Set<string>) => Promise<void>) => {
+        Deno.test({
+            name: `${name}: ${testName}`,
+            ignore: newBlobs === undefined,
+            fn: async () => {
+                if (!newBlobs) throw new Error();
+                const blobs = await newBlobs();
+                const keys = new Set<string>(); // written by the test, deleted after
+                try {
+                    await fn(blobs, keys);
+                } finally {
+                    for (const key of keys) await blobs.delete(key);
+                }
+            },
+        });
+    };
+
+    register('put, get, head, has and delete', async (blobs, keys) => {
+        keys.add('a.txt');
+        assertEquals(await blobs.get('a.txt', 'text'), undefined);
+        assertEquals(await blobs.head('a.txt'), undefined);
+        assertEquals(await blobs.has('a.txt'), false);
+
+        const { etag } = await blobs.put('a.txt', 'hello');
+        assertEquals(await blobs.has('a.txt'), true);
+        assertEquals(await blobs.head('a.txt'), { etag });
+        assertEquals(await blobs.get('a.txt', 'text'), 'hello');
+        assertEquals(await blobs.get('a.txt', 'text-and-meta'), { text: 'hello', etag });
+        assertEquals(new TextDecoder().decode(await blobs.get('a.txt', 'buffer')), 'hello');
+        assertEquals(await readText(await blobs.get('a.txt', 'stream')), 'hello');
+
+        assertEquals((await blobs.put('a.txt', new TextEncoder().encode('hello').buffer)).etag, etag, 'same content, same etag');
+        assertEquals((await blobs.put('a.txt', new Blob([ 'hello' ]).stream())).etag, etag);
+        const { etag: etag2 } = await blobs.put('a.txt', JSON.stringify({ hello: 'world' }));
+        assertNotEquals(etag2, etag);
+        assertEquals(await blobs.get('a.txt', 'json'), { hello: 'world' });
+
+        keys.add('nested/dir/b.txt');
+        await blobs.put('nested/dir/b.txt', 'b');
+        assertEquals(await blobs.get('nested/dir/b.txt', 'text'), 'b');
+
+        await blobs.delete('a.txt');
+        assertEquals(await blobs.has('a.txt'), false);
+        assertEquals(await blobs.get('a.txt', 'text'), undefined);
+        await blobs.delete('a.txt'); // deleting a missing key is fine
+    });
+
+    register('stream-and-meta', async (blobs, keys) => {
+        keys.add('s.bin');
+        assertEquals(await blobs.get('s.bin', 'stream-and-meta'), undefined);
+        const bytes = newBytes(100 * 1024, 7);
+        const { etag } = await blobs.put('s.bin', bytes.buffer as ArrayBuffer);
+
+        const result = await blobs.get('s.bin', 'stream-and-meta');
+        if (!result) throw new Error(`Expected result`);
+        assertEquals(result.etag, etag);
+        assertEquals(await readBytes(result.stream), bytes);
+
+        const partial = await blobs.get('s.bin', 'stream-and-meta');
+        if (!partial) throw new Error(`Expected result`);
+        await partial.stream.cancel(); // releases the underlying resource
+    });
+
+    register('get ifMatch', async (blobs, keys) => {
+        keys.add('m.txt');
+        const { etag } = await blobs.put('m.txt', 'first');
+        assertEquals(await blobs.get('m.txt', 'text', { ifMatch: etag }), 'first');
+        const result = await blobs.get('m.txt', 'stream-and-meta', { ifMatch: etag });
+        if (!result) throw new Error(`Expected result`);
+        assertEquals(await readText(result.stream), 'first');
+
+        await blobs.put('m.txt', 'second');
+        await assertRejects(() => blobs.get('m.txt', 'text', { ifMatch: etag }));
+    });
+
+    register('listWithMetadata paging', async (blobs, keys) => {
+        const sizes: Record<string, number> = { 'l/a/1': 1, 'l/a/2': 22, 'l/a/3': 333, 'l/a2': 4, 'l/b/1': 5, 'l/c': 6 };
+        for (const [ key, size ] of Object.entries(sizes)) {
+            keys.add(key);
+            await blobs.put(key, 'x'.repeat(size));
+        }
+        const expected = Object.entries(sizes).map(([ key, size ]) => ({ key, size }));
+
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'l/' })).entries, expected);
+        assertEquals((await blobs.list({ keyPrefix: 'l/' })).keys, Object.keys(sizes));
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'l/a' })).entries, expected.slice(0, 4));
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'l/a/' })).entries, expected.slice(0, 3));
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'l/z' })).entries, []);
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'l/', afterKey: 'l/a/3' })).entries, expected.slice(3));
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'l/', afterKey: 'l/a/3', limit: 2 })).entries, expected.slice(3, 5));
+
+        for (const limit of [ 1, 2, 4 ]) {
+            const paged: { key: string, size: number }[] = [];
+            let afterKey: string | undefined;
+            while (true) {
+                const { entries } = await blobs.listWithMetadata({ keyPrefix: 'l/', afterKey, limit });
+                assert(entries.length <= limit, `limit ${limit}, got ${entries.length}`);
+                paged.push(...entries);
+                if (entries.length < limit) break;
+                afterKey = entries[entries.length - 1].key;
+            }
+            assertEquals(paged, expected, `limit ${limit}`);
+        }
+    });
+
+    register('startMultiput', async (blobs, keys) => {
+        keys.add('mp.bin');
+        const parts = [ newBytes(MIN_MULTIPUT_PART_SIZE, 1), newBytes(MIN_MULTIPUT_PART_SIZE, 2), newBytes(1000, 3) ];
+        const multiput = await blobs.startMultiput('mp.bin');
+        await multiput.putPart(parts[0].buffer as ArrayBuffer);
+        await multiput.putPart(new Blob([ parts[1].buffer as ArrayBuffer ]).stream());
+        await multiput.putPart(parts[2].buffer as ArrayBuffer);
+        const { parts: count, etag } = await multiput.complete();
+        assertEquals(count, 3);
+        assertEquals(await blobs.head('mp.bin'), { etag });
+        const result = await blobs.get('mp.bin', 'stream-and-meta');
+        if (!result) throw new Error(`Expected result`);
+        assertEquals(result.etag, etag);
+        const combined = await readBytes(result.stream);
+        assertEquals(combined.length, MIN_MULTIPUT_PART_SIZE * 2 + 1000);
+        assert(parts.every((part, i) => combined.subarray(i * MIN_MULTIPUT_PART_SIZE, i * MIN_MULTIPUT_PART_SIZE + part.length).every((v, j) => v === part[j])), 'combined content');
+        assertEquals((await blobs.listWithMetadata({ keyPrefix: 'mp.bin' })).entries, [ { key: 'mp.bin', size: combined.length } ]);
+
+        keys.add('single.txt');
+        const single = await blobs.startMultiput('single.txt');
+        await single.putPart('small final part');
+        await single.complete();
+        assertEquals(await blobs.get('single.txt', 'text'), 'small final part');
+    });
+
+    register('startMultiput part size rules', async (blobs, keys) => {
+        keys.add('small.bin');
+        await assertMultiputRejects(blobs, 'small.bin', [ newBytes(1000, 1), newBytes(1000, 2) ]);
+        await assertMultiputRejects(blobs, 'small.bin', [ newBytes(MIN_MULTIPUT_PART_SIZE - 1, 1), newBytes(1000, 2) ]);
+        if (equalPartSizes) await assertMultiputRejects(blobs, 'small.bin', [ newBytes(MIN_MULTIPUT_PART_SIZE, 1), newBytes(MIN_MULTIPUT_PART_SIZE + 1, 2), newBytes(1000, 3) ]);
+        assertEquals(await blobs.has('small.bin'), false);
+
+        keys.add('aborted.bin');
+        const multiput = await blobs.startMultiput('aborted.bin');
+        await multiput.putPart(newBytes(MIN_MULTIPUT_PART_SIZE, 1).buffer as ArrayBuffer);
+        await multiput.abort();
+        assertEquals(await blobs.has('aborted.bin'), false);
+    });
+}
+
+/** Value of a test environment variable, undefined without env permission. */
+export function readTestEnv(name: string): string | undefined {
+    if (Deno.permissions.querySync({ name: 'env', variable: name }).state !== 'granted') return undefined;
+    return Deno.env.get(name) || undefined;
+}
+
+//
+
+function newBytes(length: number, seed: number): Uint8Array {
+    const rt = new Uint8Array(length);
+    for (let i = 0; i < length; i++) rt[i] = (i * 31 + seed) % 251;
+    return rt;
+}
+
+async function readBytes(stream: ReadableStream<Uint8Array> | undefined): Promise<Uint8Array> {
+    if (!stream) throw new Error(`Expected stream`);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readText(stream: ReadableStream<Uint8Array> | undefined): Promise<string> {
+    return new TextDecoder().decode(await readBytes(stream));
+}
+
+async function assertMultiputRejects(blobs: Blobs, key: string, parts: Uint8Array[]) {
+    const multiput = await blobs.startMultiput(key);
+    await assertRejects(async () => {
+        for (const part of parts) await multiput.putPart(part.buffer as ArrayBuffer); // may reject here, or on complete
+        await multiput.complete();
+    });
+    try {
+        await multiput.abort();
+    } catch {
+        // already done
+    }
+}
@@ -1,2 +1,3 @@
 export { assert, assertMatch, assertEquals, assertNotEquals, assertRejects, assertThrows, fail } from 'https://deno.land/std@0.224.0/assert/mod.ts';
 export { InMemoryDurableObjectStorage } from 'https://raw.denoflare.dev/skymethod/denoflare/cebd786cf79a2f1c24736ac706a1b5f54b42949d/common/storage/in_memory_durable_object_storage.ts';
+export { parquetMetadata, parquetReadObjects } from 'https://esm.sh/hyparquet@1.31.2';
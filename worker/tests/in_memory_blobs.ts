@@ -1,4 +1,4 @@
-import { Blobs, GetOpts, ListBlobsResponse, ListBlobsWithMetadataResponse, ListOpts, Multiput } from '../backend/blobs.ts';
+import { Blobs, checkMultiputPartSizes, GetOpts, ListBlobsResponse, ListBlobsWithMetadataResponse, ListOpts, Multiput } from '../backend/blobs.ts';
 import { Bytes } from '../deps.ts';
 
 export class InMemoryBlobs implements Blobs {
@@ -19,10 +19,12 @@ export class InMemoryBlobs implements Blobs {
     get(key: string, as: 'json', opts?: GetOpts): Promise<unknown | undefined>;
     async get(key: string, as: 'stream-and-meta' | 'stream' | 'buffer' | 'text' | 'text-and-meta' | 'json', opts: GetOpts = {}): Promise<string | { text: string, etag: string } | ArrayBuffer | ReadableStream<Uint8Array> | { stream: ReadableStream<Uint8Array>, etag: string } | unknown | undefined> {
         await Promise.resolve();
-        if (Object.keys(opts).length > 0) throw new Error(`Unsupported get opts: ${JSON.stringify(opts)}`);
+        const { ifMatch, ...rest } = opts;
+        if (Object.keys(rest).length > 0) throw new Error(`Unsupported get opts: ${JSON.stringify(rest)}`);
         const record = this.data.get(key);
         if (record === undefined) return undefined;
         const { arr, etag } = record;
+        if (ifMatch !== undefined && ifMatch !== etag) throw new Error(`Precondition failed: ifMatch ${ifMatch}, etag ${etag}`);
         if (as === 'stream') return new Blob([ arr ]).stream();
         if (as === 'stream-and-meta') return { stream: new Blob([ arr ]).stream(), etag };
         if (as === 'buffer') return arr.buffer;
@@ -60,11 +62,12 @@ export class InMemoryBlobs implements Blobs {
     async listWithMetadata(opts: ListOpts = {}): Promise<ListBlobsWithMetadataResponse> {
         const { data } = this;
         await Promise.resolve();
-        const { keyPrefix, afterKey } = opts;
+        const { keyPrefix, afterKey, limit } = opts;
         const keys = [...data.keys()]
             .filter(v => keyPrefix === undefined || v.startsWith(keyPrefix))
             .filter(v => afterKey === undefined || v > afterKey)
             .sort()
+            .slice(0, limit)
             ;
         const entries = keys.map(key => ({ key, size: data.get(key)!.arr.length }));
         return { entries };
@@ -86,7 +89,7 @@ class InMemoryMultiput implements Multiput {
     private readonly data: Map<string, Record>;
 
     private combined = Bytes.EMPTY;
-    private parts = 0;
+    private readonly partSizes: number[] = [];
     private done = false;
 
     constructor(key: string, data: Map<string, Record>) {
@@ -101,15 +104,16 @@ class InMemoryMultiput implements Multiput {
         const arr = await toByteArray(body);
         const etag = await computeEtag(arr);
         this.combined = this.combined.concat(new Bytes(arr));
-        this.parts++;
+        this.partSizes.push(arr.length);
         return { etag };
     }
 
     async complete(): Promise<{ parts: number, etag: string }> {
         await Promise.resolve();
         if (this.done) throw new Error(`Already done!`);
-        const { parts, key, combined } = this;
-        if (parts === 0) throw new Error(`No parts!`);
+        const { partSizes, key, combined } = this;
+        checkMultiputPartSizes(partSizes);
+        const parts = partSizes.length;
         const arr = combined.array();
         const etag = await computeEtag(arr);
         this.data.set(key, { arr, etag });
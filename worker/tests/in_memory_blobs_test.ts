@@ -0,0 +1,4 @@
+import { registerBlobsConformanceTests } from './blobs_conformance.ts';
+import { InMemoryBlobs } from './in_memory_blobs.ts';
+
+registerBlobsConformanceTests('InMemoryBlobs', () => new InMemoryBlobs());
@@ -0,0 +1,202 @@
+import { BlobsFile, BlobsFilesystem } from '../backend/filesystem_blobs.ts';
+
+/**
+ * Just enough of a filesystem to exercise FilesystemBlobs without read or write permissions.
+ *
+ * Paths are absolute, files keep their inode across renames, and an open file keeps reading its inode even if replaced meanwhile.
+ * Directory listings are deliberately not sorted, like most real filesystems.
+ */
+export class InMemoryFilesystem implements BlobsFilesystem {
+    private readonly files = new Map<string, Inode>();
+    private readonly dirs = new Set<string>([ '' ]); // the root is ''
+    private readonly openFiles = new Set<InMemoryFile>();
+    private nextIno = 1;
+
+    /** Number of files currently open, should be zero after every operation. */
+    get openFileCount(): number {
+        return this.openFiles.size;
+    }
+
+    async open(path: string, options: { read: true } | { write: true, createNew: true }): Promise<BlobsFile> {
+        await Promise.resolve();
+        const p = normalizePath(path);
+        if ('write' in options) {
+            this.checkParentDir(p);
+            if (this.files.has(p) || this.dirs.has(p)) throw new Deno.errors.AlreadyExists(path);
+            const inode: Inode = { arr: new Uint8Array(), ino: this.nextIno++, mtime: new Date() };
+            this.files.set(p, inode);
+            return new InMemoryFile(inode, this.openFiles);
+        }
+        if (this.dirs.has(p)) return new InMemoryFile(undefined, this.openFiles);
+        const inode = this.files.get(p);
+        if (!inode) throw new Deno.errors.NotFound(path);
+        return new InMemoryFile(inode, this.openFiles);
+    }
+
+    async stat(path: string): Promise<{ isFile: boolean, isDirectory: boolean, size: number }> {
+        await Promise.resolve();
+        const p = normalizePath(path);
+        if (this.dirs.has(p)) return { isFile: false, isDirectory: true, size: 0 };
+        const inode = this.files.get(p);
+        if (!inode) throw new Deno.errors.NotFound(path);
+        return { isFile: true, isDirectory: false, size: inode.arr.length };
+    }
+
+    async mkdir(path: string, _options: { recursive: true }): Promise<void> {
+        await Promise.resolve();
+        const parts = normalizePath(path).split('/');
+        for (let i = 1; i <= parts.length; i++) {
+            const dir = parts.slice(0, i).join('/');
+            if (this.files.has(dir)) throw new Deno.errors.AlreadyExists(path);
+            this.dirs.add(dir);
+        }
+    }
+
+    async rename(oldPath: string, newPath: string): Promise<void> {
+        await Promise.resolve();
+        const from = normalizePath(oldPath);
+        const to = normalizePath(newPath);
+        const inode = this.files.get(from);
+        if (!inode) throw new Error(`InMemoryFilesystem: only files can be renamed: ${oldPath}`);
+        this.checkParentDir(to);
+        if (this.dirs.has(to)) throw new Deno.errors.IsADirectory(newPath);
+        this.files.delete(from);
+        this.files.set(to, inode);
+    }
+
+    async remove(path: string, options?: { recursive: true }): Promise<void> {
+        await Promise.resolve();
+        const p = normalizePath(path);
+        if (this.files.delete(p)) return;
+        if (!this.dirs.has(p)) throw new Deno.errors.NotFound(path);
+        const children = this.listChildren(p);
+        if (children.length > 0 && !options?.recursive) throw new Error(`Directory not empty: ${path}`);
+        for (const file of [ ...this.files.keys() ]) if (file.startsWith(`${p}/`)) this.files.delete(file);
+        for (const dir of [ ...this.dirs ]) if (dir.startsWith(`${p}/`)) this.dirs.delete(dir);
+        this.dirs.delete(p);
+    }
+
+    async* readDir(path: string): AsyncGenerator<{ name: string, isFile: boolean, isDirectory: boolean }> {
+        await Promise.resolve();
+        const p = normalizePath(path);
+        if (!this.dirs.has(p)) throw new Deno.errors.NotFound(path);
+        yield* this.listChildren(p).reverse();
+    }
+
+    //
+
+    private checkParentDir(path: string) {
+        if (!this.dirs.has(path.substring(0, path.lastIndexOf('/')))) throw new Deno.errors.NotFound(path);
+    }
+
+    private listChildren(dir: string): { name: string, isFile: boolean, isDirectory: boolean }[] {
+        const rt: { name: string, isFile: boolean, isDirectory: boolean }[] = [];
+        const childName = (path: string) => path.startsWith(`${dir}/`) && !path.substring(dir.length + 1).includes('/') ? path.substring(dir.length + 1) : undefined;
+        for (const path of this.dirs) {
+            const name = childName(path);
+            if (name !== undefined) rt.push({ name, isFile: false, isDirectory: true });
+        }
+        for (const path of this.files.keys()) {
+            const name = childName(path);
+            if (name !== undefined) rt.push({ name, isFile: true, isDirectory: false });
+        }
+        return rt;
+    }
+
+}
+
+//
+
+type Inode = { arr: Uint8Array, readonly ino: number, mtime: Date };
+
+class InMemoryFile implements BlobsFile {
+    private readonly inode: Inode | undefined; // undefined for a directory
+    private readonly openFiles: Set<InMemoryFile>;
+
+    private position = 0;
+
+    constructor(inode: Inode | undefined, openFiles: Set<InMemoryFile>) {
+        this.inode = inode;
+        this.openFiles = openFiles;
+        openFiles.add(this);
+    }
+
+    get readable(): ReadableStream<Uint8Array> {
+        return new ReadableStream<Uint8Array>({
+            pull: async controller => {
+                const buffer = new Uint8Array(16 * 1024);
+                const read = await this.read(buffer);
+                if (read === null) {
+                    this.close();
+                    controller.close();
+                } else {
+                    controller.enqueue(buffer.slice(0, read));
+                }
+            },
+            cancel: () => this.close(),
+        });
+    }
+
+    get writable(): WritableStream<Uint8Array> {
+        return new WritableStream<Uint8Array>({
+            write: chunk => {
+                const inode = this.checkFile();
+                const arr = new Uint8Array(inode.arr.length + chunk.length);
+                arr.set(inode.arr);
+                arr.set(chunk, inode.arr.length);
+                inode.arr = arr;
+                inode.mtime = new Date();
+            },
+            close: () => this.close(),
+            abort: () => this.close(),
+        });
+    }
+
+    async stat(): Promise<{ isFile: boolean, size: number, ino: number | null, mtime: Date | null }> {
+        await Promise.resolve();
+        this.checkOpen();
+        const { inode } = this;
+        return { isFile: inode !== undefined, size: inode?.arr.length ?? 0, ino: inode?.ino ?? null, mtime: inode?.mtime ?? null };
+    }
+
+    async read(buffer: Uint8Array): Promise<number | null> {
+        await Promise.resolve();
+        const { arr } = this.checkFile();
+        if (this.position >= arr.length) return null;
+        const read = Math.min(buffer.length, arr.length - this.position);
+        buffer.set(arr.subarray(this.position, this.position + read));
+        this.position += read;
+        return read;
+    }
+
+    async seek(offset: number, whence: Deno.SeekMode): Promise<number> {
+        await Promise.resolve();
+        this.checkFile();
+        if (whence !== Deno.SeekMode.Start) throw new Error(`InMemoryFile: unsupported whence: ${whence}`);
+        this.position = offset;
+        return offset;
+    }
+
+    close() {
+        this.checkOpen();
+        this.openFiles.delete(this);
+    }
+
+    //
+
+    private checkOpen() {
+        if (!this.openFiles.has(this)) throw new Deno.errors.BadResource(`File is closed`);
+    }
+
+    private checkFile(): Inode {
+        this.checkOpen();
+        if (!this.inode) throw new Deno.errors.IsADirectory(`Is a directory`);
+        return this.inode;
+    }
+
+}
+
+function normalizePath(path: string): string {
+    if (!path.startsWith('/')) throw new Error(`InMemoryFilesystem: paths must be absolute: ${path}`);
+    return path.replace(/\/+$/, '');
+}
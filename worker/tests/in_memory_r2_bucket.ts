@@ -0,0 +1,151 @@
+import { checkMultiputPartSizes } from '../backend/blobs.ts';
+import { Bytes, R2Bucket, R2GetOptions, R2ListOptions, R2MultipartUpload, R2Object, R2ObjectBody, R2UploadedPart } from '../deps.ts';
+import { generateUuid } from '../uuid.ts';
+
+/**
+ * Just enough of an R2Bucket to exercise R2BucketBlobs: objects are kept in memory, list pages are capped at maxListLimit
+ * (like R2's 1000) so callers have to follow the cursor, and multipart part sizes are checked on complete.
+ */
+export class InMemoryR2Bucket implements R2Bucket {
+    private readonly data = new Map<string, Record>();
+    private readonly maxListLimit: number;
+
+    constructor({ maxListLimit = 1000 }: { maxListLimit?: number } = {}) {
+        this.maxListLimit = maxListLimit;
+    }
+
+    async head(key: string): Promise<R2Object | null> {
+        await Promise.resolve();
+        const record = this.data.get(key);
+        return record ? newR2Object(key, record) : null;
+    }
+
+    get(key: string): Promise<R2ObjectBody | null>;
+    get(key: string, options: R2GetOptions): Promise<R2ObjectBody | R2Object | null>;
+    async get(key: string, options: R2GetOptions = {}): Promise<R2ObjectBody | R2Object | null> {
+        await Promise.resolve();
+        const { onlyIf, ...rest } = options;
+        if (Object.keys(rest).length > 0) throw new Error(`Unsupported get options: ${JSON.stringify(rest)}`);
+        if (onlyIf instanceof Headers) throw new Error(`Unsupported onlyIf headers`);
+        const record = this.data.get(key);
+        if (!record) return null;
+        const { etagMatches, ...restOnlyIf } = onlyIf ?? {};
+        if (Object.keys(restOnlyIf).length > 0) throw new Error(`Unsupported onlyIf: ${JSON.stringify(restOnlyIf)}`);
+        if (etagMatches !== undefined && etagMatches !== record.etag) return newR2Object(key, record); // precondition failed: no body
+        return newR2ObjectBody(key, record);
+    }
+
+    async put(key: string, value: ReadableStream | ArrayBuffer | ArrayBufferView | string | null | Blob): Promise<R2Object> {
+        const arr = value === null ? new Uint8Array() : await toByteArray(value);
+        const record = { arr, etag: await computeEtag(arr) };
+        this.data.set(key, record);
+        return newR2Object(key, record);
+    }
+
+    async delete(keys: string | string[]): Promise<void> {
+        await Promise.resolve();
+        for (const key of typeof keys === 'string' ? [ keys ] : keys) this.data.delete(key);
+    }
+
+    async list(options: R2ListOptions = {}): Promise<Awaited<ReturnType<R2Bucket['list']>>> {
+        await Promise.resolve();
+        const { prefix, startAfter, limit = this.maxListLimit, cursor, ...rest } = options;
+        if (Object.keys(rest).length > 0) throw new Error(`Unsupported list options: ${JSON.stringify(rest)}`);
+        if (limit < 1) throw new Error(`Bad limit: ${limit}`);
+        const after = cursor ?? startAfter; // cursor: the last key of the previous page
+        const keys = [ ...this.data.keys() ]
+            .filter(v => prefix === undefined || v.startsWith(prefix))
+            .filter(v => after === undefined || v > after)
+            .sort();
+        const page = keys.slice(0, Math.min(limit, this.maxListLimit));
+        const objects = page.map(v => newR2Object(v, this.data.get(v)!));
+        const truncated = page.length < keys.length;
+        return { objects, truncated, cursor: truncated ? page[page.length - 1] : undefined, delimitedPrefixes: [] } as Awaited<ReturnType<R2Bucket['list']>>;
+    }
+
+    async createMultipartUpload(key: string): Promise<R2MultipartUpload> {
+        await Promise.resolve();
+        return new InMemoryR2MultipartUpload(key, generateUuid(), this.data);
+    }
+
+    resumeMultipartUpload(): R2MultipartUpload {
+        throw new Error(`InMemoryR2Bucket: resumeMultipartUpload not implemented`);
+    }
+
+}
+
+//
+
+type Record = { arr: Uint8Array, etag: string };
+
+class InMemoryR2MultipartUpload implements R2MultipartUpload {
+    readonly key: string;
+    readonly uploadId: string;
+
+    private readonly data: Map<string, Record>;
+    private readonly parts = new Map<number, Record>();
+    private done = false;
+
+    constructor(key: string, uploadId: string, data: Map<string, Record>) {
+        this.key = key;
+        this.uploadId = uploadId;
+        this.data = data;
+    }
+
+    async uploadPart(partNumber: number, value: ReadableStream | ArrayBuffer | ArrayBufferView | string | Blob): Promise<R2UploadedPart> {
+        if (this.done) throw new Error(`Already done!`);
+        const arr = await toByteArray(value);
+        const etag = await computeEtag(arr);
+        this.parts.set(partNumber, { arr, etag });
+        return { partNumber, etag };
+    }
+
+    async abort(): Promise<void> {
+        await Promise.resolve();
+        this.done = true;
+    }
+
+    async complete(uploadedParts: R2UploadedPart[]): Promise<R2Object> {
+        if (this.done) throw new Error(`Already done!`);
+        const records = uploadedParts.map(({ partNumber, etag }) => {
+            const record = this.parts.get(partNumber);
+            if (!record || record.etag !== etag) throw new Error(`Unknown part ${partNumber}: ${etag}`);
+            return record;
+        });
+        checkMultiputPartSizes(records.map(v => v.arr.length));
+        const arr = records.reduce((a, b) => a.concat(new Bytes(b.arr)), Bytes.EMPTY).array();
+        const record = { arr, etag: await computeEtag(arr) };
+        this.data.set(this.key, record);
+        this.done = true;
+        return newR2Object(this.key, record);
+    }
+
+}
+
+function newR2Object(key: string, { arr, etag }: Record): R2Object {
+    return { key, version: etag, size: arr.length, etag, httpEtag: `"${etag}"`, uploaded: new Date(), httpMetadata: {}, customMetadata: {}, writeHttpMetadata: () => {} } as unknown as R2Object;
+}
+
+function newR2ObjectBody(key: string, record: Record): R2ObjectBody {
+    const body = new Blob([ record.arr ]);
+    return {
+        ...newR2Object(key, record),
+        body: body.stream(),
+        bodyUsed: false,
+        arrayBuffer: () => body.arrayBuffer(),
+        text: () => body.text(),
+        json: async () => JSON.parse(await body.text()),
+        blob: () => Promise.resolve(body),
+    } as unknown as R2ObjectBody;
+}
+
+async function toByteArray(value: ReadableStream | ArrayBuffer | ArrayBufferView | string | Blob): Promise<Uint8Array> {
+    return typeof value === 'string' ? new TextEncoder().encode(value)
+        : value instanceof ArrayBuffer ? new Uint8Array(value)
+        : ArrayBuffer.isView(value) ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice()
+        : new Uint8Array(await new Response(value).arrayBuffer());
+}
+
+async function computeEtag(arr: Uint8Array): Promise<string> {
+    return (await new Bytes(arr).sha1()).hex();
+}
@@ -26,8 +26,11 @@ import { DoNames } from './do_names.ts';
 import { Banlist } from './banlist.ts';
 import { ManualColo } from './backend/manual_colo.ts';
 import { R2BucketBlobs } from './backend/r2_bucket_blobs.ts';
+import { BlobsProvider } from './backend/blobs.ts';
 import { ReadonlyRemoteDataRpcClient } from './rpc_clients.ts';
 import { computeDemoShowResponse, computeShowOgImageResponse, computeShowResponse, tryParseShowOgImageRequest, tryParseShowRequest } from './routes/show.ts';
+import { computeShowWidgetResponse, tryParseShowWidgetRequest } from './routes/show_widget.ts';
+import { computeShowReportResponse, tryParseShowReportRequest } from './routes/show_report.ts';
 import { CloudflareConfiguration } from './cloudflare_configuration.ts';
 import { computeDownloadCalculationResponse } from './routes/download_calculation.ts';
 import { computeStatsResponse } from './routes/stats.ts';
@@ -91,7 +94,7 @@ export default {
     async queue(batch: QueueMessageBatch, env: WorkerEnv) {
         try {
             const consumerStart = Date.now();
-            const { dataset1, backendNamespace, blobsBucket, queue1Name, queue2Name } = env;
+            const { dataset1, backendNamespace, blobsBucket, blobsProvider, queue1Name, queue2Name } = env;
             initCloudflareTracer(dataset1);
             const colo = await ManualColo.get();
             setWorkerInfo({ colo, name: 'eyeball' });
@@ -101,7 +104,8 @@ export default {
             if (batch.queue === queue1Name) {
                 // admin data job
 
-                const statsBlobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix: 'stats/' }) : undefined;
+                const { blobs: statsBlobs } = initBlobs({ blobsBucket, blobsProvider, prefix: 'stats/' });
+                const { blobs: miscBlobs } = initBlobs({ blobsBucket, blobsProvider, prefix: 'misc/' });
 
                 for (const { body, id, timestamp } of batch.messages) {
                     if (isRpcRequest(body)) {
@@ -110,7 +114,7 @@ export default {
                             const { operationKind, targetPath, parameters, dryRun } = body;
                             const start = Date.now();
 
-                            const response = await routeAdminDataRequest(body, rpcClient, statsBlobs);
+                            const response = await routeAdminDataRequest(body, rpcClient, statsBlobs, miscBlobs);
                             console.log(JSON.stringify(response, undefined, 2));
                             const millis = Date.now() - start;
                             const { results, message } = response;
@@ -274,7 +278,7 @@ function parseStringSet(commaDelimitedString: string | undefined): Set<string> {
 }
 
 async function computeResponse(request: Request, colo: string | undefined, env: WorkerEnv, context: ModuleWorkerContext): Promise<Response> {
-    const { instance, backendNamespace, productionDomain, cfAnalyticsToken, turnstileSitekey, turnstileSecretKey, podcastIndexCredentials, deploySha, deployTime, queue1: jobQueue, blobsBucket, roBlobsBucket, roRpcClientParams, kvNamespace, baselimeEventsUrl, baselimeApiKey, limiter1, xfetcher } = env;
+    const { instance, backendNamespace, productionDomain, cfAnalyticsToken, turnstileSitekey, turnstileSecretKey, podcastIndexCredentials, deploySha, deployTime, queue1: jobQueue, blobsBucket, roBlobsBucket, blobsProvider, roRpcClientParams, kvNamespace, baselimeEventsUrl, baselimeApiKey, limiter1, xfetcher } = env;
     IsolateId.log();
     const { origin, hostname, pathname, searchParams, protocol } = new URL(request.url);
     const { method, headers } = request;
@@ -316,18 +320,20 @@ async function computeResponse(request: Request, colo: string | undefined, env:
         })());
     };
 
-    const { blobs: statsBlobs, roBlobs: roStatsBlobs } = initBlobs({ blobsBucket, roBlobsBucket, prefix: 'stats/' });
+    const { blobs: statsBlobs, roBlobs: roStatsBlobs } = initBlobs({ blobsBucket, roBlobsBucket, blobsProvider, prefix: 'stats/' });
     if (method === 'GET' && pathname === '/stats' && !/staging|prod/.test(instance)) return computeStatsResponse({ searchParams, instance, origin, productionOrigin, cfAnalyticsToken, statsBlobs, roStatsBlobs });
 
     const roRpcClient = roRpcClientParams ? ReadonlyRemoteDataRpcClient.ofParams(roRpcClientParams) : undefined;
-    const { blobs: assetBlobs, roBlobs: roAssetBlobs } = initBlobs({ blobsBucket, roBlobsBucket, prefix: 'assets/' });
+    const { blobs: assetBlobs, roBlobs: roAssetBlobs } = initBlobs({ blobsBucket, roBlobsBucket, blobsProvider, prefix: 'assets/' });
     const limiter = limiter1 ? makeCloudflareLimiter(limiter1) : undefined;
     const rawIpAddress = computeRawIpAddress(headers);
     { const r = tryParseShowRequest({ method, pathname, acceptLanguage }); if (r && configuration) return computeShowResponse(r, { searchParams, instance, hostname, origin, productionOrigin, cfAnalyticsToken, podcastIndexCredentials, previewTokens, rpcClient, roRpcClient, statsBlobs, roStatsBlobs, configuration, assetBlobs, roAssetBlobs, limiter, rawIpAddress }); }
     { const r = tryParseShowOgImageRequest({ method, pathname }); if (r && configuration) return computeShowOgImageResponse(r, { searchParams, instance, hostname, origin, productionOrigin, cfAnalyticsToken, podcastIndexCredentials, previewTokens, rpcClient, roRpcClient, statsBlobs, roStatsBlobs, configuration, assetBlobs, roAssetBlobs, limiter, rawIpAddress }); }
-    const { blobs: miscBlobs, roBlobs: roMiscBlobs } = initBlobs({ blobsBucket, roBlobsBucket, prefix: 'misc/' });
-    const { blobs: hitsBlobs, roBlobs: roHitsBlobs } = initBlobs({ blobsBucket, roBlobsBucket, prefix: 'hits/' });
-    const { blobs: backupBlobs, roBlobs: roBackupBlobs } = initBlobs({ blobsBucket, roBlobsBucket, prefix: 'backup/' });
+    { const r = tryParseShowWidgetRequest({ method, pathname }); if (r && configuration) return computeShowWidgetResponse(r, { searchParams, instance, hostname, origin, productionOrigin, cfAnalyticsToken, statsBlobs, roStatsBlobs, configuration, cache: (globalThis.caches as unknown as CfGlobalCaches | undefined)?.default }); }
+    { const r = tryParseShowReportRequest({ method, pathname }); if (r && configuration) return computeShowReportResponse(r, { searchParams, instance, hostname, origin, productionOrigin, cfAnalyticsToken, rpcClient, roRpcClient, statsBlobs, roStatsBlobs, configuration }); }
+    const { blobs: miscBlobs, roBlobs: roMiscBlobs } = initBlobs({ blobsBucket, roBlobsBucket, blobsProvider, prefix: 'misc/' });
+    const { blobs: hitsBlobs, roBlobs: roHitsBlobs } = initBlobs({ blobsBucket, roBlobsBucket, blobsProvider, prefix: 'hits/' });
+    const { blobs: backupBlobs, roBlobs: roBackupBlobs } = initBlobs({ blobsBucket, roBlobsBucket, blobsProvider, prefix: 'backup/' });
     const baselime = baselimeEventsUrl && baselimeApiKey ? makeBaselimeFromWorkerContext(context, { baselimeEventsUrl, baselimeApiKey }) : undefined;
     const apiRequest = tryParseApiRequest({ instance, method, hostname, origin, pathname, searchParams, headers, bodyProvider: () => request.json(), colo, deploySha, deployTime }); 
     if (apiRequest) return await computeApiResponse(apiRequest, { rpcClient, adminTokens, previewTokens, turnstileSecretKey, podcastIndexCredentials, background, jobQueue, statsBlobs, roStatsBlobs, roRpcClient, configuration, miscBlobs, roMiscBlobs, hitsBlobs, roHitsBlobs, backupBlobs, roBackupBlobs, baselime, limiter, xfetcher });
@@ -341,8 +347,8 @@ async function computeResponse(request: Request, colo: string | undefined, env:
     return newMethodNotAllowedResponse(method);
 }
 
-function initBlobs({ blobsBucket, roBlobsBucket, prefix }: { blobsBucket?: R2Bucket, roBlobsBucket?: R2Bucket, prefix: string }) {
-    const blobs = blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix }) : undefined;
+function initBlobs({ blobsBucket, roBlobsBucket, blobsProvider, prefix }: { blobsBucket?: R2Bucket, roBlobsBucket?: R2Bucket, blobsProvider?: BlobsProvider, prefix: string }) {
+    const blobs = blobsProvider ? blobsProvider(prefix) : blobsBucket ? new R2BucketBlobs({ bucket: blobsBucket, prefix }) : undefined;
     const roBlobs = roBlobsBucket ? new R2BucketBlobs({ bucket: roBlobsBucket, prefix, readonly: true }) : undefined;
     return { blobs, roBlobs };
 }
@@ -1,3 +1,4 @@
+import { BlobsProvider } from './backend/blobs.ts';
 import { DurableObjectNamespace, AnalyticsEngine, R2Bucket, KVNamespace, Queue, Ratelimiter } from './deps.ts';
 
 export interface WorkerEnv {
@@ -19,6 +20,7 @@ export interface WorkerEnv {
     readonly podcastIndexCredentials?: string;
     readonly blobsBucket?: R2Bucket;
     readonly roBlobsBucket?: R2Bucket;
+    readonly blobsProvider?: BlobsProvider; // takes precedence over blobsBucket, e.g. filesystem blobs when self-hosting
     readonly kvNamespace?: KVNamespace;
     readonly queue1?: Queue;
     readonly queue1Name?: string;
@@ -30,4 +32,5 @@ export interface WorkerEnv {
     readonly baselimeApiKey?: string;
     readonly limiter1?: Ratelimiter;
     readonly xfetcher?: string;
+    readonly alertEmailerParams?: string; // accessKey,secretKey,from,to[,region] for show alert emails (alerts are sent to each show's registered recipients)
 }